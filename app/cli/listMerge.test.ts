@@ -0,0 +1,150 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { runCli } from './listMerge';
+import { FileProcessor } from '../src/utils/fileProcessing';
+
+// Runs the tool against files held in memory and captures what it prints
+const run = async (args: string[], files: Record<string, string> = {}, stdin = '') => {
+  let stdout = '';
+  let stderr = '';
+  const status = await runCli(args, {
+    readFile: async path => {
+      if (!(path in files)) throw new Error('ENOENT: no such file or directory');
+      return files[path];
+    },
+    readStdin: async () => stdin,
+    stdout: text => { stdout += text; },
+    stderr: text => { stderr += text; }
+  });
+  return { status, stdout, stderr };
+};
+
+const files = {
+  'fiction.txt': 'Dune\nEmma\nUlysses',
+  'staff-picks.txt': 'Beloved\nDune',
+  'ranked.csv': 'Title,Tags,Rank\nEmma,classic,2\nDune,sci-fi,1'
+};
+
+// Helper: Create a project and read it back
+const createProject = async (args: string[]) => {
+  const result = await run(['create', ...args], files);
+  expect(result.status).toBe(0);
+  return { ...result, project: FileProcessor.importProjectJSON(result.stdout) };
+};
+
+describe('list-merge create', () => {
+  it('should import each file as an input list and interleave them into the main list', async () => {
+    const { project } = await createProject(['--name', 'Book club', '--order', 'interleave', 'fiction.txt', 'staff-picks.txt']);
+
+    expect(project.success).toBe(true);
+    expect(project.data!.name).toBe('Book club');
+    expect(project.data!.inputLists.map(list => list.name)).toEqual(['fiction', 'staff-picks']);
+    // The second Dune is a copy of the first and is not ranked again
+    expect(project.data!.mainList.map(item => item.content)).toEqual(['Dune', 'Beloved', 'Emma', 'Ulysses']);
+  });
+
+  it('should keep tags and ranks from CSV columns', async () => {
+    const { project } = await createProject(['ranked.csv']);
+
+    expect(project.data!.mainList.map(item => item.content)).toEqual(['Dune', 'Emma']);
+    expect(project.tagPool!.map(tag => tag.name).sort()).toEqual(['classic', 'sci-fi']);
+  });
+
+  it('should tag the items matching each rule after ordering', async () => {
+    const { project } = await createProject([
+      '--order', 'concat',
+      '--tag', 'Top two=rank<=2',
+      '--tag', 'Picks=source:staff-picks',
+      'fiction.txt', 'staff-picks.txt'
+    ]);
+
+    const tagNames = new Map(project.tagPool!.map(tag => [tag.id, tag.name]));
+    const tagsOf = (content: string) => project.data!.inputLists
+      .flatMap(list => list.items)
+      .filter(item => item.content === content)
+      .map(item => item.tags.map(tagId => tagNames.get(tagId)));
+    expect(tagsOf('Dune')).toEqual([['Top two'], ['Picks']]);
+    expect(tagsOf('Emma')).toEqual([['Top two']]);
+    expect(tagsOf('Beloved')).toEqual([['Picks']]);
+    expect(project.data!.mainList.find(item => item.content === 'Dune')!.tags.map(tagId => tagNames.get(tagId))).toEqual(['Top two']);
+  });
+
+  it('should keep the tags of a JSON list read from stdin', async () => {
+    const result = await run(['create', '-'], {}, '[{"title": "Dune", "tags": ["sci-fi"]}, {"title": "Emma"}]');
+    const project = FileProcessor.importProjectJSON(result.stdout);
+
+    const tagNames = new Map(project.tagPool!.map(tag => [tag.id, tag.name]));
+    expect(project.data!.inputLists[0].items.map(item => [item.content, item.tags.map(tagId => tagNames.get(tagId))])).toEqual([
+      ['Dune', ['sci-fi']],
+      ['Emma', []]
+    ]);
+  });
+
+  it('should fail with the import error of a file that cannot be imported', async () => {
+    const expected = FileProcessor.importListContent('   \n').error;
+    const result = await run(['create', 'fiction.txt', '-'], files, '   \n');
+
+    expect(result.status).toBe(1);
+    expect(result.stdout).toBe('');
+    expect(result.stderr).toBe(`${expected}\n`);
+  });
+
+  it('should reject malformed tag rules', async () => {
+    const badQuery = await run(['create', '--tag', 'Urgent=rank<=', 'fiction.txt'], files);
+    expect(badQuery.status).toBe(1);
+    expect(badQuery.stderr).toMatch(/^Tag rule for "Urgent": /);
+
+    const noName = await run(['create', '--tag', 'text:urgent', 'fiction.txt'], files);
+    expect(noName.status).toBe(2);
+  });
+});
+
+describe('list-merge validate and export', () => {
+  it('should validate a project read from stdin', async () => {
+    const { stdout: projectJSON } = await createProject(['--order', 'interleave', 'fiction.txt', 'staff-picks.txt']);
+
+    const result = await run(['validate'], {}, projectJSON);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toBe('Valid project "Merged Project": 2 input lists, 5 items, 4 ranked\n');
+  });
+
+  it('should report why a project file is not valid', async () => {
+    const invalid = await run(['validate', 'broken.json'], { 'broken.json': '{ not json' });
+    expect(invalid.status).toBe(1);
+    expect(invalid.stderr).toBe(`${FileProcessor.importProjectJSON('{ not json').error}\n`);
+
+    const missing = await run(['validate', 'missing.json']);
+    expect(missing.status).toBe(1);
+    expect(missing.stderr).toBe('Could not read missing.json: ENOENT: no such file or directory\n');
+  });
+
+  it('should export the main list as CSV or Markdown', async () => {
+    const { stdout: projectJSON } = await createProject(['--order', 'interleave', 'fiction.txt', 'staff-picks.txt']);
+
+    const csv = await run(['export', '--columns', 'rank,source'], {}, projectJSON);
+    expect(csv.status).toBe(0);
+    expect(csv.stdout).toBe('Rank,Content,Source List\r\n1,Dune,fiction\r\n2,Beloved,staff-picks\r\n3,Emma,fiction\r\n4,Ulysses,fiction\r\n');
+
+    const markdown = await run(['export', 'project.json', '--format', 'markdown-list', '--columns', ''], { 'project.json': projectJSON });
+    expect(markdown.stdout).toBe('- Dune\n- Beloved\n- Emma\n- Ulysses\n');
+  });
+
+  it('should explain usage errors', async () => {
+    expect((await run([])).status).toBe(2);
+    expect((await run(['--help'])).stdout).toMatch(/^Usage: list-merge/);
+
+    const unknownCommand = await run(['merge']);
+    expect(unknownCommand.status).toBe(2);
+    expect(unknownCommand.stderr).toBe('Unknown command: merge\nRun "list-merge --help" for usage.\n');
+
+    const unknownFormat = await run(['export', '--format', 'pdf'], {}, '{}');
+    expect(unknownFormat.status).toBe(2);
+    expect(unknownFormat.stderr).toBe(
+      'Unknown format: pdf. Use one of csv, markdown-list, markdown-table, text, html\nRun "list-merge --help" for usage.\n'
+    );
+
+    const unknownOption = await run(['export', '--colour', 'red']);
+    expect(unknownOption.status).toBe(2);
+    expect(unknownOption.stderr).toMatch(/Unknown option '--colour'/);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,315 @@
+// Command-line tool for merging lists without the browser
+// Runs the app's own code: list files go through FileProcessor the way the import button
+// reads them, and projects are built by dispatching actions to projectReducer. Results are
+// written to stdout; errors go to stderr with the messages the app shows for them.
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { AppState, InputList } from '../src/types/index';
+import { FileProcessor, type ImportResult, type ImportedListItem } from '../src/utils/fileProcessing';
+import { projectReducer } from '../src/store/projectReducer';
+import { projectActions, type ProjectAction } from '../src/store/actions';
+import { aggregateRankings, normalizeItemKey, AGGREGATION_METHODS } from '../src/utils/rankAggregation';
+import { createTagQueryContext, matchesTagQuery, parseTagQuery } from '../src/utils/tagQuery';
+import { validateTag } from '../src/utils/tagValidation';
+import {
+  DEFAULT_LIST_EXPORT_OPTIONS,
+  LIST_EXPORT_COLUMN_LABELS,
+  LIST_EXPORT_FORMATS,
+  type ListExportColumn
+} from '../src/utils/listExport';
+
+// Where the tool reads and writes; the entry point wires up the process, tests use memory
+export interface CliIO {
+  readFile: (path: string) => Promise<string>;
+  readStdin: () => Promise<string>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // Input could not be imported, validated or exported
+const EXIT_USAGE = 2;
+
+const DEFAULT_PROJECT_NAME = 'Merged Project';
+
+// Color for tags created by tag rules (matches TagInput's default)
+const RULE_TAG_COLOR = '#10b981';
+
+// Source order methods, followed by the consensus methods of rank aggregation
+const ORDER_METHODS = ['interleave', 'concat', ...AGGREGATION_METHODS.map(entry => entry.method)];
+
+export const USAGE = `Usage: list-merge <command> [options]
+
+Commands:
+  create [options] <file...>  Import text, CSV or JSON lists (- reads stdin) as the input
+                              lists of a new project and print the project JSON
+  validate [file]             Check a project file
+  export [options] [file]     Print the main list of a project file
+
+validate and export read the project from stdin when no file is given.
+
+create options:
+  --name <name>               Project name (default: ${DEFAULT_PROJECT_NAME})
+  --order <method>            Fill the main list automatically:
+                                interleave  one item from each list in turn
+                                concat      all items of each list in turn
+                                ${AGGREGATION_METHODS.map(entry => entry.method).join(', ')}  consensus ranking
+                              Items with the same content are ranked once.
+  --tag <name>=<query>        Tag the items matching a view query, e.g.
+                              --tag "Urgent=text:urgent OR source:Bugs". Repeatable;
+                              applied after --order, so rank<=N works.
+
+export options:
+  --format <format>           csv (default), markdown-list, markdown-table, text or html
+  --columns <names>           Comma-separated: ${Object.keys(LIST_EXPORT_COLUMN_LABELS).join(', ')}
+                              (default: ${DEFAULT_LIST_EXPORT_OPTIONS.columns.join(',')})
+  --unranked                  Append input items that are not on the main list
+
+Exit status is 0 on success, 1 when an input cannot be used and 2 for usage errors.
+`;
+
+// Thrown for command lines that cannot be run; reported together with a pointer to --help
+class UsageError extends Error {}
+
+// Helper: Print a failure the way the app would show it
+const fail = (io: CliIO, message: string): number => {
+  io.stderr(`${message}\n`);
+  return EXIT_FAILED;
+};
+
+// Helper: Print import warnings, naming where they came from
+const reportWarnings = (io: CliIO, source: string, warnings: string[] = []) => {
+  warnings.forEach(warning => io.stderr(`${source}: ${warning}\n`));
+};
+
+// Helper: Read a file, or stdin for -
+const readSource = async (io: CliIO, source: string): Promise<ImportResult<string>> => {
+  try {
+    return { success: true, data: source === '-' ? await io.readStdin() : await io.readFile(source) };
+  } catch (error) {
+    return { success: false, error: `Could not read ${source}: ${(error as Error).message}` };
+  }
+};
+
+// Helper: Import a list file the way InputListPanel does, picking the format by extension
+const importListFile = (source: string, content: string): ImportResult<Array<string | ImportedListItem>> => {
+  if (/\.csv$/i.test(source)) {
+    const tableResult = FileProcessor.parseCSVTable(content);
+    if (!tableResult.success) return { success: false, error: tableResult.error };
+    const table = tableResult.data!;
+    // A single row is the legacy one-item-per-field format
+    if (table.rows.length === 1) return FileProcessor.importCSV(content);
+    return FileProcessor.applyCSVMapping(table, FileProcessor.suggestCSVMapping(table));
+  }
+  if (/\.json$/i.test(source)) {
+    const documentResult = FileProcessor.parseJSONDocument(content);
+    if (!documentResult.success) return { success: false, error: documentResult.error };
+    return FileProcessor.applyJSONMapping(documentResult.data, FileProcessor.suggestJSONMapping(documentResult.data));
+  }
+  return FileProcessor.importListContent(content);
+};
+
+// Helper: Items of all lists in source order, one list after another or one item of each in turn
+const orderBySource = (lists: InputList[], method: 'interleave' | 'concat'): Array<{ itemId: string; listId: string }> => {
+  const queues = lists.map(list => list.items.map(item => ({ itemId: item.id, listId: list.id, content: item.content })));
+  const sequence = method === 'concat'
+    ? queues.flat()
+    : Array.from({ length: Math.max(0, ...queues.map(queue => queue.length)) }, (_, index) =>
+      queues.flatMap(queue => index < queue.length ? [queue[index]] : [])
+    ).flat();
+
+  // Copies of an item in later lists are left unranked, as with rank aggregation
+  const seen = new Set<string>();
+  return sequence
+    .filter(entry => {
+      const key = normalizeItemKey(entry.content);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ itemId, listId }) => ({ itemId, listId }));
+};
+
+// Helper: Read a project file as the import dialog does
+const readProject = async (io: CliIO, source: string) => {
+  const content = await readSource(io, source);
+  if (!content.success) return { success: false, error: content.error };
+  return FileProcessor.importProjectJSON(content.data!);
+};
+
+// Helper: Output ending in a line break, as shells expect; CSV keeps its CRLF line ends
+const withTrailingNewline = (text: string): string => {
+  if (text.endsWith('\n')) return text;
+  return `${text}${text.includes('\r\n') ? '\r\n' : '\n'}`;
+};
+
+const runCreate = async (args: string[], io: CliIO): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      name: { type: 'string', default: DEFAULT_PROJECT_NAME },
+      order: { type: 'string' },
+      tag: { type: 'string', multiple: true, default: [] }
+    }
+  });
+  if (positionals.length === 0) throw new UsageError('create needs at least one list file');
+  if (values.order !== undefined && !ORDER_METHODS.includes(values.order)) {
+    throw new UsageError(`Unknown order method: ${values.order}. Use one of ${ORDER_METHODS.join(', ')}`);
+  }
+  const tagRules = values.tag.map(rule => {
+    const separator = rule.indexOf('=');
+    if (separator < 1) throw new UsageError(`Tag rules look like <name>=<query>, got: ${rule}`);
+    return { name: rule.slice(0, separator).trim(), query: rule.slice(separator + 1).trim() };
+  });
+
+  let state: AppState = {
+    currentProject: null,
+    savedProjects: [],
+    tagPool: [],
+    ui: { selectedItems: [], activeInputList: null, anchorItem: null }
+  };
+  const dispatch = (action: ProjectAction) => {
+    state = projectReducer(state, action);
+  };
+  const project = () => state.currentProject!;
+
+  dispatch(projectActions.newProject(values.name.trim() || DEFAULT_PROJECT_NAME));
+
+  // One input list per file, named after it
+  for (const source of positionals) {
+    const content = await readSource(io, source);
+    if (!content.success) return fail(io, content.error!);
+    const result = importListFile(source, content.data!);
+    if (!result.success) return fail(io, result.error!);
+    reportWarnings(io, source, result.warnings);
+
+    const name = source === '-' ? 'Standard input' : basename(source, extname(source));
+    dispatch(projectActions.addInputList(name));
+    const listId = project().inputLists[project().inputLists.length - 1].id;
+    dispatch(projectActions.importListItems(listId, result.data!, state.tagPool, project().inputLists));
+  }
+
+  if (values.order === 'interleave' || values.order === 'concat') {
+    dispatch({ type: 'APPLY_AGGREGATION', ranking: orderBySource(project().inputLists, values.order) });
+  } else if (values.order !== undefined) {
+    const method = AGGREGATION_METHODS.find(entry => entry.method === values.order)!.method;
+    const outcome = aggregateRankings(project().inputLists, method);
+    if (!outcome.success) return fail(io, outcome.error!);
+    dispatch({
+      type: 'APPLY_AGGREGATION',
+      ranking: outcome.data!.items.map(item => ({ itemId: item.itemId, listId: item.listId }))
+    });
+  }
+
+  for (const rule of tagRules) {
+    const parsed = parseTagQuery(rule.query, project().customFields ?? []);
+    if (parsed.error) {
+      return fail(io, `Tag rule for "${rule.name}": ${parsed.error.message} (at character ${parsed.error.position + 1})`);
+    }
+
+    let tag = state.tagPool.find(entry => entry.name.toLowerCase() === rule.name.toLowerCase());
+    if (!tag) {
+      const validation = validateTag(rule.name, state.tagPool, project().inputLists);
+      if (!validation.isValid) return fail(io, `Tag rule for "${rule.name}": ${validation.error}`);
+      const createTag = projectActions.createTag(rule.name, RULE_TAG_COLOR);
+      dispatch(createTag);
+      tag = createTag.tag;
+    }
+
+    const context = createTagQueryContext(state.tagPool, project().inputLists, project().mainList);
+    const itemIds = project().inputLists.flatMap(list => list.items
+      .filter(item => matchesTagQuery(parsed.query!, { ...item, sourceListId: list.id }, context))
+      .map(item => item.id));
+    if (itemIds.length > 0) dispatch({ type: 'ADD_TAG', itemIds, tagId: tag.id });
+  }
+
+  const exported = FileProcessor.exportProjectJSON(project(), state.tagPool);
+  if (!exported.success) return fail(io, exported.error!);
+  io.stdout(withTrailingNewline(exported.data!));
+  return EXIT_OK;
+};
+
+const runValidate = async (args: string[], io: CliIO): Promise<number> => {
+  const { positionals } = parseArgs({ args, allowPositionals: true, options: {} });
+  if (positionals.length > 1) throw new UsageError('validate takes one project file');
+  const source = positionals[0] ?? '-';
+
+  const result = await readProject(io, source);
+  if (!result.success) return fail(io, result.error!);
+  reportWarnings(io, source, result.warnings);
+
+  const project = result.data!;
+  const itemCount = project.inputLists.reduce((total, list) => total + list.items.length, 0);
+  io.stdout(`Valid project "${project.name}": ${project.inputLists.length} input lists, ${itemCount} items, ${project.mainList.length} ranked\n`);
+  return EXIT_OK;
+};
+
+const runExport = async (args: string[], io: CliIO): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', default: DEFAULT_LIST_EXPORT_OPTIONS.format },
+      columns: { type: 'string' },
+      unranked: { type: 'boolean', default: false }
+    }
+  });
+  if (positionals.length > 1) throw new UsageError('export takes one project file');
+  const format = LIST_EXPORT_FORMATS.find(entry => entry.format === values.format)?.format;
+  if (!format) {
+    throw new UsageError(`Unknown format: ${values.format}. Use one of ${LIST_EXPORT_FORMATS.map(entry => entry.format).join(', ')}`);
+  }
+  const columns = values.columns === undefined
+    ? DEFAULT_LIST_EXPORT_OPTIONS.columns
+    : values.columns.split(',').map(column => column.trim()).filter(Boolean);
+  const unknownColumn = columns.find(column => !(column in LIST_EXPORT_COLUMN_LABELS));
+  if (unknownColumn) throw new UsageError(`Unknown column: ${unknownColumn}`);
+  const source = positionals[0] ?? '-';
+
+  const result = await readProject(io, source);
+  if (!result.success) return fail(io, result.error!);
+  reportWarnings(io, source, result.warnings);
+
+  const exported = FileProcessor.exportMainList(result.data!, result.tagPool ?? [], {
+    format,
+    columns: columns as ListExportColumn[],
+    includeUnranked: values.unranked
+  });
+  if (!exported.success) return fail(io, exported.error!);
+  io.stdout(withTrailingNewline(exported.data!));
+  return EXIT_OK;
+};
+
+const COMMANDS: Record<string, (args: string[], io: CliIO) => Promise<number>> = {
+  create: runCreate,
+  validate: runValidate,
+  export: runExport
+};
+
+/**
+ * Runs the command-line tool
+ * @param args - Arguments after the program name
+ * @param io - Where input is read from and output written to
+ * @returns Exit status
+ */
+export const runCli = async (args: string[], io: CliIO): Promise<number> => {
+  const [command, ...commandArgs] = args;
+  if (command === undefined || command === '--help' || command === '-h' || command === 'help') {
+    (command === undefined ? io.stderr : io.stdout)(USAGE);
+    return command === undefined ? EXIT_USAGE : EXIT_OK;
+  }
+
+  try {
+    if (!Object.hasOwn(COMMANDS, command)) throw new UsageError(`Unknown command: ${command}`);
+    return await COMMANDS[command](commandArgs, io);
+  } catch (error) {
+    // parseArgs reports unknown and malformed options with ERR_PARSE_ARGS_* codes
+    if (error instanceof UsageError || String((error as { code?: unknown }).code).startsWith('ERR_PARSE_ARGS')) {
+      io.stderr(`${(error as Error).message}\nRun "list-merge --help" for usage.\n`);
+      return EXIT_USAGE;
+    }
+    throw error;
+  }
+};
\ No newline at end of file
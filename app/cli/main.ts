@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+// Entry point of the list-merge command; see listMerge.ts
+import { readFile } from 'node:fs/promises';
+import { text } from 'node:stream/consumers';
+import { runCli } from './listMerge';
+
+void runCli(process.argv.slice(2), {
+  readFile: path => readFile(path, 'utf8'),
+  readStdin: () => text(process.stdin),
+  stdout: output => process.stdout.write(output),
+  stderr: output => process.stderr.write(output)
+}).then(status => {
+  process.exitCode = status;
+});
\ No newline at end of file
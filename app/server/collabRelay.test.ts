@@ -0,0 +1,93 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocket } from 'ws';
+import { attachCollabRelay } from './collabRelay';
+import type { CollabOp } from '../src/collab/collabDocument';
+import type { RelayMessage } from '../src/collab/transport';
+
+const op: CollabOp = {
+  type: 'set', stamp: { counter: 1, clientId: 'alice' }, entity: 'project', field: 'name', value: 'Shared'
+};
+
+// A participant that records what the relay sends it
+const connect = async (server: Server, room: string) => {
+  const { port } = server.address() as AddressInfo;
+  const socket = new WebSocket(`ws://localhost:${port}/collab?room=${room}`);
+  const received: RelayMessage[] = [];
+  socket.on('message', data => received.push(JSON.parse(data.toString()) as RelayMessage));
+  await new Promise(resolve => socket.once('open', resolve));
+  return { socket, received };
+};
+
+const waitFor = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('Collaboration relay server', () => {
+  let server: Server;
+  let stop = () => {};
+
+  const startServer = async () => {
+    server = createServer();
+    stop = attachCollabRelay(server);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+  };
+
+  afterEach(async () => {
+    stop();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('forwards operations and presence within a room and replays operations to late joiners', async () => {
+    await startServer();
+    const alice = await connect(server, 'project-1');
+    const bob = await connect(server, 'project-1');
+    const other = await connect(server, 'project-2');
+
+    alice.socket.send(JSON.stringify({ type: 'ops', ops: [op] }));
+    alice.socket.send(JSON.stringify({
+      type: 'presence', peer: { clientId: 'alice', name: 'Alice', color: '#2563eb', selectedItemIds: ['a'] }
+    }));
+    await waitFor(() => bob.received.length === 3);
+    expect(bob.received.map(message => message.type)).toEqual(['welcome', 'ops', 'presence']);
+
+    const carol = await connect(server, 'project-1');
+    await waitFor(() => carol.received.length === 1);
+    expect(carol.received[0]).toEqual({
+      type: 'welcome',
+      ops: [op],
+      peers: [{ clientId: 'alice', name: 'Alice', color: '#2563eb', selectedItemIds: ['a'] }]
+    });
+    expect(other.received).toEqual([{ type: 'welcome', ops: [], peers: [] }]);
+
+    alice.socket.close();
+    await waitFor(() => bob.received.length === 4);
+    expect(bob.received[3]).toEqual({ type: 'leave', clientId: 'alice' });
+    [bob, carol, other].forEach(({ socket }) => socket.close());
+  });
+
+  it('ignores messages that are not participant messages', async () => {
+    await startServer();
+    const alice = await connect(server, 'project-1');
+    const bob = await connect(server, 'project-1');
+
+    alice.socket.send('not json');
+    alice.socket.send(JSON.stringify({ type: 'welcome', ops: [op], peers: [] }));
+    alice.socket.send(JSON.stringify({ type: 'ops', ops: [op, { type: 'set', stamp: { counter: 2 }, entity: 'project' }] }));
+    alice.socket.send(JSON.stringify({ type: 'ops', ops: [{ ...op, type: 'add', element: 7 }] }));
+    alice.socket.send(JSON.stringify({ type: 'ops', ops: [op] }));
+    await waitFor(() => bob.received.length === 2);
+    expect(bob.received[1]).toEqual({ type: 'ops', ops: [op] });
+
+    // Operations of dropped messages are not replayed either
+    const carol = await connect(server, 'project-1');
+    await waitFor(() => carol.received.length === 1);
+    expect(carol.received[0]).toMatchObject({ type: 'welcome', ops: [op] });
+    [alice, bob, carol].forEach(({ socket }) => socket.close());
+  });
+});
\ No newline at end of file
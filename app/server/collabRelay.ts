@@ -0,0 +1,71 @@
+// Local WebSocket relay for collaborative ranking
+// Served by the dev and preview servers at /collab (see vite.config.ts); participants join the
+// room named by the room query parameter. Rooms and their operations live in memory while anyone
+// is in them.
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Plugin } from 'vite';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { CollabRelay } from '../src/collab/relay';
+import { COLLAB_PATH, isClientMessage } from '../src/collab/transport';
+
+// Largest message accepted from a participant
+const MAX_MESSAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Serves the relay on an HTTP server, next to whatever else it serves
+ * @param server - HTTP server to take /collab WebSocket upgrades from
+ * @returns Stops the relay and disconnects everyone
+ */
+export const attachCollabRelay = (server: Server): (() => void) => {
+  const relay = new CollabRelay();
+  const sockets = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  const connect = (socket: WebSocket, roomId: string) => {
+    const membership = relay.join(roomId, message => socket.send(JSON.stringify(message)));
+    socket.on('message', data => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return; // Not a participant message
+      }
+      if (isClientMessage(message)) membership.receive(message);
+    });
+    socket.on('close', () => membership.leave());
+  };
+
+  const handleUpgrade = (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    // Other upgrades, such as Vite's hot reload socket, are left alone
+    if (url.pathname !== COLLAB_PATH) return;
+
+    const roomId = url.searchParams.get('room');
+    if (!roomId) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    sockets.handleUpgrade(request, socket, head, ws => connect(ws, roomId));
+  };
+
+  server.on('upgrade', handleUpgrade);
+  return () => {
+    server.off('upgrade', handleUpgrade);
+    sockets.clients.forEach(client => client.terminate());
+    sockets.close();
+  };
+};
+
+/**
+ * Vite plugin serving the relay from the dev and preview servers
+ * @returns The plugin
+ */
+export const collabRelay = (): Plugin => ({
+  name: 'collab-relay',
+  configureServer(server) {
+    if (server.httpServer) attachCollabRelay(server.httpServer as Server);
+  },
+  configurePreviewServer(server) {
+    attachCollabRelay(server.httpServer as Server);
+  }
+});
\ No newline at end of file
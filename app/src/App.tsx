@@ -1,33 +1,40 @@
 import { useState } from 'react';
-import { DndContext, DragOverlay } from '@dnd-kit/core';
-import type { DragEndEvent, DragStartEvent, DragOverEvent } from '@dnd-kit/core';
+import { DndContext, DragOverlay, MeasuringStrategy } from '@dnd-kit/core';
+import type { Announcements, DragEndEvent, DragStartEvent, DragOverEvent } from '@dnd-kit/core';
 import { ProjectManager } from './components/ProjectManager';
 import { Workspace } from './components/Workspace';
-import type { AppState, Project, InputList, MainListItem, Tag, InputListItem } from './types/index';
+import { KeyboardHelpOverlay } from './components/KeyboardHelpOverlay';
+import { TabConflictModal } from './components/TabConflictModal';
+import { SharedProjectModal } from './components/SharedProjectModal';
+import { SaveErrorBanner } from './components/SaveErrorBanner';
+import {
+  useAutoSave,
+  useCollaboration,
+  useProjectSnapshots,
+  useProjectStore,
+  useSharedProject,
+  useTabSync,
+  useUndoShortcuts
+} from './components/shared/hooks';
+import { LiveRegion, type Announcement } from './components/shared';
+import type { AppState, CustomFieldType, ItemDetails, Project, Tag } from './types/index';
 import { validateTag, validateTagForEdit } from './utils/tagValidation';
+import { ProjectStorage } from './utils/projectStorage';
+import type { ImportedListItem } from './utils/fileProcessing';
+import type { ComparisonScope } from './utils/comparisonSort';
+import {
+  ProjectStore,
+  projectActions,
+  getDropAction,
+  describeAction,
+  describeDragged,
+  describeDragOver,
+  type DragData,
+  type DropData,
+  type ProjectAction
+} from './store';
 import './App.css';
 
-// Drag and drop data interfaces
-interface DragData {
-  type: 'input-item' | 'main-item' | 'tag';
-  itemId?: string;
-  sourceListId?: string;
-  content?: string;
-  isMultiSelect?: boolean;
-  selectedItems?: string[];
-  // Tag-specific fields
-  tagId?: string;
-  tagName?: string;
-  tagColor?: string;
-}
-
-interface DropData {
-  type: 'main-list' | 'main-list-position' | 'main-list-item' | 'input-list-item';
-  listId?: string;
-  position?: number;
-  itemId?: string;
-}
-
 // Mock data for initial development
 const createMockProject = (): Project => ({
   id: '1',
@@ -98,46 +105,159 @@ const createMockTags = (): Tag[] => [
   }
 ];
 
-function App() {
-  const [appState, setAppState] = useState<AppState>({
-    currentProject: createMockProject(),
-    savedProjects: [],
-    tagPool: createMockTags(),
+// Restore the last-open project from storage, seeding sample data on first run
+const loadInitialState = (): AppState => {
+  const savedProjects = ProjectStorage.loadProjectIndex();
+  const storedTags = ProjectStorage.loadTagPool();
+  const isFirstRun = savedProjects.length === 0 && storedTags === null;
+
+  const currentProject = isFirstRun ? createMockProject() : ProjectStorage.loadLastProject();
+
+  return {
+    currentProject,
+    savedProjects,
+    tagPool: storedTags ?? (isFirstRun ? createMockTags() : []),
     ui: {
       selectedItems: [],
-      activeInputList: 'list1',
+      activeInputList: currentProject?.inputLists[0]?.id ?? null,
       anchorItem: null
     }
+  };
+};
+
+function App() {
+  const [store] = useState(() => new ProjectStore(loadInitialState()));
+  const {
+    state: appState,
+    dispatch: dispatchToStore,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel
+  } = useProjectStore(store);
+
+  // Screen reader announcement of what the last action changed
+  const [announcement, setAnnouncement] = useState<Announcement>({ id: 0, message: '' });
+  const dispatch = (action: ProjectAction) => {
+    const prev = store.getState();
+    dispatchToStore(action);
+    const message = describeAction(action, prev, store.getState());
+    if (message) setAnnouncement(current => ({ id: current.id + 1, message }));
+  };
+
+  // Keep the open project and the tag pool in sync with other tabs
+  const tabSync = useTabSync({
+    project: appState.currentProject,
+    tagPool: appState.tagPool,
+    onRemoteChange: (project, tagPool) => dispatch({ type: 'SYNC_PROJECT', project, tagPool }),
+    onProjectsChanged: (savedProjects) => dispatch({ type: 'SET_SAVED_PROJECTS', savedProjects })
+  });
+
+  // Persist project and tag changes (debounced); a failed save stays on screen until one succeeds
+  const autoSave = useAutoSave({
+    project: appState.currentProject,
+    tagPool: appState.tagPool,
+    onSaved: (savedProjects) => dispatch({ type: 'SET_SAVED_PROJECTS', savedProjects }),
+    beforeSave: tabSync.beforeSave,
+    afterSave: tabSync.afterSave
   });
 
+  // Real-time collaboration on the open project
+  const collaboration = useCollaboration({ store });
+
+  // Named snapshots of the open project, stored next to it
+  const projectSnapshots = useProjectSnapshots(appState.currentProject, appState.tagPool);
+
+  // Project carried by a share link the app was opened with
+  const { sharedProject, dismiss: dismissSharedProject } = useSharedProject();
+
+  // Undo/redo keyboard shortcuts
+  useUndoShortcuts({ onUndo: undo, onRedo: redo });
+
   // Drag overlay state
   const [activeDragData, setActiveDragData] = useState<DragData | null>(null);
 
+  // Keyboard shortcut help, opened from the header or with ?
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+
   // Project management handlers
-  const handleNewProject = () => {
-    const newProject: Project = {
-      id: Date.now().toString(),
-      name: 'New Project',
-      createdAt: new Date(),
-      modifiedAt: new Date(),
-      inputLists: [],
-      mainList: []
-    };
-    
-    setAppState(prev => ({
-      ...prev,
-      currentProject: newProject,
-      ui: { ...prev.ui, selectedItems: [], activeInputList: null }
-    }));
+  // Save the open project right away so switching never loses a pending auto-save
+  const flushCurrentProject = () => {
+    if (appState.currentProject && tabSync.beforeSave(appState.currentProject)) {
+      ProjectStorage.saveProject(appState.currentProject);
+    }
+  };
+
+  const handleOpenProject = (projectId: string) => {
+    flushCurrentProject();
+    const project = ProjectStorage.loadProject(projectId);
+    if (!project) {
+      console.error('Project could not be loaded:', projectId);
+      return;
+    }
+
+    dispatch({ type: 'LOAD_PROJECT', project });
+  };
+
+  const handleDuplicateProject = (projectId: string) => {
+    if (projectId === appState.currentProject?.id) {
+      flushCurrentProject();
+    }
+    const result = ProjectStorage.duplicateProject(projectId);
+    if (!result.success) {
+      console.error('Duplicate failed:', result.error);
+      return;
+    }
+
+    dispatch({ type: 'SET_SAVED_PROJECTS', savedProjects: ProjectStorage.loadProjectIndex() });
+  };
+
+  const handleRenameProject = (projectId: string, name: string) => {
+    if (projectId === appState.currentProject?.id) {
+      // The open project is renamed in state and picked up by auto-save
+      dispatch({ type: 'RENAME_PROJECT', name });
+      return;
+    }
+
+    const result = ProjectStorage.renameProject(projectId, name);
+    if (!result.success) {
+      console.error('Rename failed:', result.error);
+      return;
+    }
+
+    dispatch({ type: 'SET_SAVED_PROJECTS', savedProjects: ProjectStorage.loadProjectIndex() });
+  };
+
+  const handleDeleteProject = (projectId: string) => {
+    const result = ProjectStorage.deleteProject(projectId);
+    if (!result.success) {
+      console.error('Delete failed:', result.error);
+      return;
+    }
+
+    dispatch({ type: 'SET_SAVED_PROJECTS', savedProjects: result.data! });
+
+    if (appState.currentProject?.id === projectId) {
+      // Deleting the open project falls back to the most recent remaining one
+      const nextProject = result.data!.length > 0 ? ProjectStorage.loadProject(result.data![0].id) : null;
+      dispatch({ type: 'LOAD_PROJECT', project: nextProject });
+    }
   };
 
+  const handleNewProject = () => {
+    flushCurrentProject();
+    dispatch(projectActions.newProject());
+  };
 
-  const handleImportProject = (projectData: Project) => {
+  const handleImportProject = (projectData: Project, importedTagPool: Tag[]) => {
     // Validate the imported project data structure
     if (!projectData || typeof projectData !== 'object') {
       console.error('Invalid project data');
       return;
     }
+    flushCurrentProject();
 
     // Ensure required fields exist with defaults
     const importedProject: Project = {
@@ -150,540 +270,208 @@ function App() {
       mainList: projectData.mainList || []
     };
 
-    // Set the imported project as current and clear UI state
-    setAppState(prev => ({
-      ...prev,
-      currentProject: importedProject,
-      ui: { 
-        ...prev.ui, 
-        selectedItems: [], 
-        activeInputList: importedProject.inputLists.length > 0 ? importedProject.inputLists[0].id : null 
-      }
-    }));
-    
+    dispatch({ type: 'LOAD_PROJECT', project: importedProject, tagPool: importedTagPool });
     console.log('Project imported successfully:', importedProject);
   };
 
+  const handleImportSharedProject = (project: Project, importedTagPool: Tag[]) => {
+    handleImportProject(project, importedTagPool);
+    dismissSharedProject();
+  };
+
   // Input list management
   const handleSelectInputList = (listId: string) => {
-    setAppState(prev => ({
-      ...prev,
-      ui: { ...prev.ui, activeInputList: listId }
-    }));
+    dispatch({ type: 'SELECT_INPUT_LIST', listId });
   };
 
   const handleAddInputList = () => {
     if (!appState.currentProject) return;
-    
-    const newList: InputList = {
-      id: Date.now().toString(),
-      name: `List ${appState.currentProject.inputLists.length + 1}`,
-      items: []
-    };
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        inputLists: [...prev.currentProject.inputLists, newList],
-        modifiedAt: new Date()
-      } : null,
-      ui: { ...prev.ui, activeInputList: newList.id }
-    }));
+    dispatch(projectActions.addInputList(`List ${appState.currentProject.inputLists.length + 1}`));
   };
 
-  const handleImportListItems = (listId: string, items: string[]) => {
-    if (!appState.currentProject) return;
-
-    // Convert string items to InputListItem objects
-    const newItems = items.map(content => ({
-      id: Date.now().toString() + Math.random().toString(36).substring(2, 9),
-      content: content.trim(),
-      isUsed: false,
-      tags: []
-    }));
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        inputLists: prev.currentProject.inputLists.map(list =>
-          list.id === listId ? {
-            ...list,
-            items: [...list.items, ...newItems]
-          } : list
-        ),
-        modifiedAt: new Date()
-      } : null
-    }));
+  const handleImportListItems = (listId: string, items: Array<string | ImportedListItem>) => {
+    dispatch(projectActions.importListItems(
+      listId,
+      items,
+      appState.tagPool,
+      appState.currentProject?.inputLists ?? []
+    ));
   };
 
   // Input list item management
   const handleAddItemToList = (listId: string, content: string) => {
-    if (!appState.currentProject) return;
+    dispatch(projectActions.addItem(listId, content));
+  };
 
-    const newItem: InputListItem = {
-      id: Date.now().toString(),
-      content,
-      isUsed: false,
-      tags: []
-    };
+  const handleEditListItem = (listId: string, itemId: string, content: string) => {
+    dispatch({ type: 'EDIT_ITEM', listId, itemId, content });
+  };
 
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        inputLists: prev.currentProject.inputLists.map(list =>
-          list.id === listId ? {
-            ...list,
-            items: [...list.items, newItem]
-          } : list
-        ),
-        modifiedAt: new Date()
-      } : null
-    }));
+  const handleDeleteListItem = (listId: string, itemId: string) => {
+    dispatch({ type: 'DELETE_ITEM', listId, itemId });
   };
 
-  const handleEditListItem = (listId: string, itemId: string, content: string) => {
-    if (!appState.currentProject) return;
+  const handleRenameList = (listId: string, name: string) => {
+    dispatch({ type: 'RENAME_LIST', listId, name });
+  };
 
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        inputLists: prev.currentProject.inputLists.map(list =>
-          list.id === listId ? {
-            ...list,
-            items: list.items.map(item =>
-              item.id === itemId ? { ...item, content } : item
-            )
-          } : list
-        ),
-        // Also update the corresponding item in main list if it exists
-        mainList: prev.currentProject.mainList.map(item =>
-          item.id === itemId ? { ...item, content } : item
-        ),
-        modifiedAt: new Date()
-      } : null
-    }));
+  const handleDeleteList = (listId: string) => {
+    dispatch({ type: 'DELETE_LIST', listId });
+  };
+
+  const handleMoveToMainList = (listId: string, itemId: string, position?: number, tierId?: string | null) => {
+    dispatch({ type: 'MOVE_TO_MAIN', listId, itemId, position, tierId });
+  };
+
+  // Main list management (selection supports both main list and input list items)
+  const handleSelectMainItem = (
+    itemId: string,
+    isMultiSelect: boolean,
+    isShiftSelect: boolean = false,
+    hiddenItemIds?: ReadonlySet<string>
+  ) => {
+    dispatch({
+      type: 'SELECT_ITEM',
+      itemId,
+      isMultiSelect,
+      isShiftSelect,
+      ...(hiddenItemIds ? { hiddenItemIds: [...hiddenItemIds] } : {})
+    });
   };
 
-  const handleDeleteListItem = (listId: string, itemId: string) => {
-    if (!appState.currentProject) return;
+  const handleRemoveFromMainList = (itemId: string) => {
+    dispatch({ type: 'REMOVE_FROM_MAIN', itemId });
+  };
 
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        inputLists: prev.currentProject.inputLists.map(list =>
-          list.id === listId ? {
-            ...list,
-            items: list.items.filter(item => item.id !== itemId)
-          } : list
-        ),
-        // Also remove the corresponding item from main list if it exists
-        mainList: prev.currentProject.mainList.filter(item => item.id !== itemId),
-        modifiedAt: new Date()
-      } : null
-    }));
-  };
-
-  const handleRenameList = (listId: string, newName: string) => {
-    if (!appState.currentProject) return;
+  const handleReorderMainItems = (fromOrder: number, toOrder: number) => {
+    dispatch({ type: 'REORDER_MAIN', fromOrder, toOrder });
+  };
 
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        inputLists: prev.currentProject.inputLists.map(list =>
-          list.id === listId ? { ...list, name: newName } : list
-        ),
-        modifiedAt: new Date()
-      } : null
-    }));
+  const handleMoveMainItem = (itemId: string, position: number, tierId?: string | null) => {
+    dispatch({ type: 'MOVE_MAIN_ITEM', itemId, position, tierId });
   };
 
-  const handleDeleteList = (listId: string) => {
-    if (!appState.currentProject) return;
+  // Pairwise comparison ranking
+  const handleStartComparison = (scope: ComparisonScope) => {
+    dispatch({ type: 'START_COMPARISON', scope });
+  };
+
+  const handleAnswerComparison = (candidateIsBetter: boolean) => {
+    dispatch({ type: 'ANSWER_COMPARISON', candidateIsBetter });
+  };
+
+  const handleEndComparison = () => {
+    dispatch({ type: 'END_COMPARISON' });
+  };
 
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        inputLists: prev.currentProject.inputLists.filter(list => list.id !== listId),
-        modifiedAt: new Date()
-      } : null,
-      ui: {
-        ...prev.ui,
-        activeInputList: prev.ui.activeInputList === listId ? null : prev.ui.activeInputList
-      }
-    }));
+  const handleApplyAggregation = (ranking: Array<{ itemId: string; listId: string }>) => {
+    dispatch({ type: 'APPLY_AGGREGATION', ranking });
   };
 
+  // Duplicate links
+  const handleLinkItems = (itemIds: string[]) => {
+    dispatch({ type: 'LINK_ITEMS', itemIds });
+  };
+
+  const handleUnlinkItems = (itemIds: string[]) => {
+    dispatch({ type: 'UNLINK_ITEMS', itemIds });
+  };
 
-  const handleMoveToMainList = (listId: string, itemId: string) => {
+  // Output lists
+  const handleAddOutputList = () => {
     if (!appState.currentProject) return;
+    dispatch(projectActions.addOutputList(`Output ${(appState.currentProject.outputLists?.length ?? 1) + 1}`));
+  };
 
-    const sourceList = appState.currentProject.inputLists.find(list => list.id === listId);
-    const sourceItem = sourceList?.items.find(item => item.id === itemId);
-    
-    if (!sourceItem || sourceItem.isUsed) return;
-
-    const newMainItem: MainListItem = {
-      id: sourceItem.id, // Preserve original item ID for tag synchronization
-      content: sourceItem.content,
-      sourceListId: listId,
-      tags: [...sourceItem.tags], // Copy tags from input item
-      order: appState.currentProject.mainList.length + 1
-    };
+  const handleSwitchOutputList = (listId: string) => {
+    dispatch({ type: 'SWITCH_OUTPUT_LIST', listId });
+  };
 
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        inputLists: prev.currentProject.inputLists.map(list =>
-          list.id === listId ? {
-            ...list,
-            items: list.items.map(item =>
-              item.id === itemId ? { ...item, isUsed: true } : item
-            )
-          } : list
-        ),
-        mainList: [...prev.currentProject.mainList, newMainItem],
-        modifiedAt: new Date()
-      } : null
-    }));
-  };
-
-  // Helper function to find item in both input lists and main lists with context
-  const findItemWithContext = (itemId: string, currentProject: Project) => {
-    if (!currentProject) return null;
-    
-    // Check main list first
-    const mainItemIndex = currentProject.mainList.findIndex((item: MainListItem) => item.id === itemId);
-    if (mainItemIndex !== -1) {
-      return {
-        type: 'main-list' as const,
-        list: currentProject.mainList,
-        index: mainItemIndex,
-        item: currentProject.mainList[mainItemIndex]
-      };
-    }
-    
-    // Check input lists
-    for (const inputList of currentProject.inputLists) {
-      const itemIndex = inputList.items.findIndex((item: InputListItem) => item.id === itemId);
-      if (itemIndex !== -1) {
-        return {
-          type: 'input-list' as const,
-          list: inputList.items,
-          index: itemIndex,
-          item: inputList.items[itemIndex],
-          listId: inputList.id
-        };
-      }
-    }
-    
-    return null;
+  const handleRenameOutputList = (listId: string, name: string) => {
+    dispatch({ type: 'RENAME_OUTPUT_LIST', listId, name });
   };
 
-  // Main list management (now supports both main list and input list items)
-  const handleSelectMainItem = (itemId: string, isMultiSelect: boolean, isShiftSelect: boolean = false) => {
-    setAppState(prev => {
-      if (!prev.currentProject) return prev;
-      
-      let newSelectedItems: string[];
-      let newAnchorItem: string | null = prev.ui.anchorItem;
-      
-      if (isShiftSelect && prev.ui.anchorItem) {
-        // Range selection: find both anchor and clicked items
-        const anchorContext = findItemWithContext(prev.ui.anchorItem, prev.currentProject);
-        const clickedContext = findItemWithContext(itemId, prev.currentProject);
-        
-        // Only allow range selection within the same list type and list
-        if (anchorContext && clickedContext && 
-            anchorContext.type === clickedContext.type &&
-            (anchorContext.type === 'main-list' || 
-             (anchorContext.type === 'input-list' && anchorContext.listId === clickedContext.listId))) {
-          
-          const startIndex = Math.min(anchorContext.index, clickedContext.index);
-          const endIndex = Math.max(anchorContext.index, clickedContext.index);
-          const rangeItems = anchorContext.list.slice(startIndex, endIndex + 1).map(item => item.id);
-          
-          // Combine existing selection with range selection
-          const existingSelection = new Set(prev.ui.selectedItems);
-          rangeItems.forEach(id => existingSelection.add(id));
-          newSelectedItems = Array.from(existingSelection);
-        } else {
-          // Fallback to regular selection if contexts don't match or not found
-          newSelectedItems = [itemId];
-          newAnchorItem = itemId;
-        }
-      } else if (isMultiSelect) {
-        // Toggle selection in multi-select mode
-        if (prev.ui.selectedItems.includes(itemId)) {
-          newSelectedItems = prev.ui.selectedItems.filter(id => id !== itemId);
-          // Keep anchor if removing non-anchor item, otherwise clear anchor
-          if (prev.ui.anchorItem === itemId) {
-            newAnchorItem = null;
-          }
-        } else {
-          newSelectedItems = [...prev.ui.selectedItems, itemId];
-          // Set as anchor if no anchor exists
-          if (!prev.ui.anchorItem) {
-            newAnchorItem = itemId;
-          }
-        }
-      } else {
-        // Single selection
-        newSelectedItems = [itemId];
-        newAnchorItem = itemId;
-      }
-
-      return {
-        ...prev,
-        ui: { 
-          ...prev.ui, 
-          selectedItems: newSelectedItems,
-          anchorItem: newAnchorItem
-        }
-      };
-    });
+  const handleDeleteOutputList = (listId: string) => {
+    dispatch({ type: 'DELETE_OUTPUT_LIST', listId });
   };
 
-  const handleRemoveFromMainList = (itemId: string) => {
-    if (!appState.currentProject) return;
+  // Tier list mode
+  const handleEnableTiers = () => {
+    dispatch(projectActions.enableTiers());
+  };
 
-    const itemToRemove = appState.currentProject.mainList.find(item => item.id === itemId);
-    if (!itemToRemove) return;
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        mainList: prev.currentProject.mainList.filter(item => item.id !== itemId),
-        inputLists: prev.currentProject.inputLists.map(list =>
-          list.id === itemToRemove.sourceListId ? {
-            ...list,
-            items: list.items.map(item =>
-              item.content === itemToRemove.content ? { ...item, isUsed: false } : item
-            )
-          } : list
-        ),
-        modifiedAt: new Date()
-      } : null,
-      ui: {
-        ...prev.ui,
-        selectedItems: prev.ui.selectedItems.filter(id => id !== itemId)
-      }
-    }));
+  const handleDisableTiers = () => {
+    dispatch({ type: 'DISABLE_TIERS' });
   };
 
-  const handleReorderMainItems = (fromOrder: number, toOrder: number) => {
-    if (!appState.currentProject || fromOrder === toOrder) return;
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        mainList: prev.currentProject.mainList.map(item => {
-          if (item.order === fromOrder) {
-            return { ...item, order: toOrder };
-          } else if (fromOrder < toOrder && item.order > fromOrder && item.order <= toOrder) {
-            return { ...item, order: item.order - 1 };
-          } else if (fromOrder > toOrder && item.order >= toOrder && item.order < fromOrder) {
-            return { ...item, order: item.order + 1 };
-          }
-          return item;
-        }),
-        modifiedAt: new Date()
-      } : null
-    }));
-  };
-
-  // Tag validation wrapper
-  const validateTagName = (name: string) => {
-    return validateTag(
-      name, 
-      appState.tagPool, 
-      appState.currentProject?.inputLists || []
-    );
+  const handleAddTier = (name: string, color: string) => {
+    dispatch(projectActions.addTier(name, color));
+  };
+
+  const handleEditTier = (tierId: string, name: string, color: string) => {
+    dispatch({ type: 'EDIT_TIER', tierId, name, color });
+  };
+
+  const handleDeleteTier = (tierId: string) => {
+    dispatch({ type: 'DELETE_TIER', tierId });
+  };
+
+  const handleMoveTier = (tierId: string, index: number) => {
+    dispatch({ type: 'MOVE_TIER', tierId, index });
+  };
+
+  // Item details and custom fields
+  const handleEditItemDetails = (itemId: string, details: ItemDetails) => {
+    dispatch({ type: 'EDIT_ITEM_DETAILS', itemId, details });
+  };
+
+  const handleAddCustomField = (name: string, type: CustomFieldType, options: string[]) => {
+    dispatch(projectActions.addCustomField(name, type, options));
+  };
+
+  const handleEditCustomField = (fieldId: string, name: string, options?: string[]) => {
+    dispatch({ type: 'EDIT_CUSTOM_FIELD', fieldId, name, options });
+  };
+
+  const handleDeleteCustomField = (fieldId: string) => {
+    dispatch({ type: 'DELETE_CUSTOM_FIELD', fieldId });
   };
 
   // Tag management
   const handleCreateTag = (name: string, color: string): string | null => {
-    const validation = validateTagName(name);
+    const validation = validateTag(name, appState.tagPool, appState.currentProject?.inputLists || []);
     if (!validation.isValid) {
       console.error('Tag validation failed:', validation.error);
       // TODO: Show user-friendly error message
       return null;
     }
 
-    const newTag: Tag = {
-      id: Date.now().toString(),
-      name: name.trim(),
-      color,
-      createdAt: new Date(),
-      usageCount: 0
-    };
-
-    setAppState(prev => ({
-      ...prev,
-      tagPool: [...prev.tagPool, newTag]
-    }));
-    
-    return newTag.id;
+    const action = projectActions.createTag(name, color);
+    dispatch(action);
+    return action.tag.id;
   };
 
   const handleEditTag = (tagId: string, name: string, color: string) => {
     // For editing, we need to exclude the current tag from duplicate check
-    const validation = validateTagForEditName(name, tagId);
+    const validation = validateTagForEdit(name, tagId, appState.tagPool, appState.currentProject?.inputLists || []);
     if (!validation.isValid) {
       console.error('Tag validation failed:', validation.error);
       return;
     }
 
-    setAppState(prev => ({
-      ...prev,
-      tagPool: prev.tagPool.map(tag =>
-        tag.id === tagId ? { ...tag, name: name.trim(), color } : tag
-      )
-    }));
-  };
-
-  // Tag validation wrapper for editing
-  const validateTagForEditName = (name: string, tagId: string) => {
-    return validateTagForEdit(
-      name, 
-      tagId,
-      appState.tagPool, 
-      appState.currentProject?.inputLists || []
-    );
+    dispatch({ type: 'EDIT_TAG', tagId, name, color });
   };
 
   const handleDeleteTag = (tagId: string) => {
-    setAppState(prev => ({
-      ...prev,
-      tagPool: prev.tagPool.filter(tag => tag.id !== tagId),
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        // Remove tag from main list items
-        mainList: prev.currentProject.mainList.map(item => ({
-          ...item,
-          tags: item.tags.filter(id => id !== tagId)
-        })),
-        // Remove tag from input list items
-        inputLists: prev.currentProject.inputLists.map(list => ({
-          ...list,
-          items: list.items.map(item => ({
-            ...item,
-            tags: item.tags.filter(id => id !== tagId)
-          }))
-        }))
-      } : null
-    }));
+    dispatch({ type: 'DELETE_TAG', tagId });
   };
 
   const handleAddTag = (itemIds: string[], tagId: string) => {
-    // Helper function to find item in both input lists and main list
-    const findItem = (itemId: string) => {
-      if (!appState.currentProject) return null;
-      
-      // Check main list first
-      const mainItem = appState.currentProject.mainList.find(i => i.id === itemId);
-      if (mainItem) return mainItem;
-      
-      // Check input lists
-      for (const list of appState.currentProject.inputLists) {
-        const inputItem = list.items.find(i => i.id === itemId);
-        if (inputItem) return inputItem;
-      }
-      return null;
-    };
-
-    // Count how many items don't already have this tag
-    const newUsageCount = itemIds.filter(itemId => {
-      const item = findItem(itemId);
-      return item && !item.tags.includes(tagId);
-    }).length;
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        // Update main list items
-        mainList: prev.currentProject.mainList.map(item =>
-          itemIds.includes(item.id) ? {
-            ...item,
-            tags: [...new Set([...item.tags, tagId])]
-          } : item
-        ),
-        // Update input list items
-        inputLists: prev.currentProject.inputLists.map(list => ({
-          ...list,
-          items: list.items.map(item =>
-            itemIds.includes(item.id) ? {
-              ...item,
-              tags: [...new Set([...item.tags, tagId])]
-            } : item
-          )
-        }))
-      } : null,
-      tagPool: prev.tagPool.map(tag =>
-        tag.id === tagId ? { ...tag, usageCount: tag.usageCount + newUsageCount } : tag
-      )
-    }));
+    dispatch({ type: 'ADD_TAG', itemIds, tagId });
   };
 
   const handleRemoveTag = (itemIds: string[], tagId: string) => {
-    // Helper function to find item in both input lists and main list
-    const findItem = (itemId: string) => {
-      if (!appState.currentProject) return null;
-      
-      // Check main list first
-      const mainItem = appState.currentProject.mainList.find(i => i.id === itemId);
-      if (mainItem) return mainItem;
-      
-      // Check input lists
-      for (const list of appState.currentProject.inputLists) {
-        const inputItem = list.items.find(i => i.id === itemId);
-        if (inputItem) return inputItem;
-      }
-      return null;
-    };
-
-    // Count how many items actually have this tag
-    const actualRemovalCount = itemIds.filter(itemId => {
-      const item = findItem(itemId);
-      return item && item.tags.includes(tagId);
-    }).length;
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        // Update main list items
-        mainList: prev.currentProject.mainList.map(item =>
-          itemIds.includes(item.id) ? {
-            ...item,
-            tags: item.tags.filter(id => id !== tagId)
-          } : item
-        ),
-        // Update input list items
-        inputLists: prev.currentProject.inputLists.map(list => ({
-          ...list,
-          items: list.items.map(item =>
-            itemIds.includes(item.id) ? {
-              ...item,
-              tags: item.tags.filter(id => id !== tagId)
-            } : item
-          )
-        }))
-      } : null,
-      tagPool: prev.tagPool.map(tag =>
-        tag.id === tagId ? { ...tag, usageCount: Math.max(0, tag.usageCount - actualRemovalCount) } : tag
-      )
-    }));
+    dispatch({ type: 'REMOVE_TAG', itemIds, tagId });
   };
 
   const handleApplyTagToSelected = (tagId: string) => {
@@ -694,44 +482,33 @@ function App() {
 
   // Bulk tag operations
   const handleRemoveAllTags = () => {
-    if (appState.ui.selectedItems.length === 0) return;
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        mainList: prev.currentProject.mainList.map(item =>
-          prev.ui.selectedItems.includes(item.id) ? {
-            ...item,
-            tags: []
-          } : item
-        ),
-        modifiedAt: new Date()
-      } : null
-    }));
+    dispatch({ type: 'REMOVE_ALL_TAGS', itemIds: appState.ui.selectedItems });
   };
 
   const handleClearSelection = () => {
-    setAppState(prev => ({
-      ...prev,
-      ui: { ...prev.ui, selectedItems: [] }
-    }));
+    dispatch({ type: 'CLEAR_SELECTION' });
+  };
+
+  // Selecting the items of a view makes it the scope of the bulk tag actions
+  const handleSelectItems = (itemIds: string[]) => {
+    dispatch({ type: 'SELECT_ITEMS', itemIds });
   };
 
+  // Saved views
+  const handleSaveView = (name: string, query: string, viewId?: string): string => {
+    const action = projectActions.saveView(name, query, viewId);
+    dispatch(action);
+    return action.view.id;
+  };
+
+  const handleDeleteView = (viewId: string) => {
+    dispatch({ type: 'DELETE_VIEW', viewId });
+  };
 
   // Drag and drop handlers
   const handleDragStart = (event: DragStartEvent) => {
-    const { active } = event;
-    const dragData = active.data.current as DragData;
-    
+    const dragData = event.active.data.current as DragData;
     setActiveDragData(dragData);
-    console.log('Drag started:', dragData);
-    
-    // If dragging a selected item and there are multiple selected items,
-    // prepare for multi-select drag
-    if (dragData.type === 'main-item' && dragData.itemId && appState.ui.selectedItems.includes(dragData.itemId)) {
-      // Multi-select drag will be handled in drag end
-    }
   };
 
   const handleDragOver = (event: DragOverEvent) => {
@@ -752,166 +529,23 @@ function App() {
     const dragData = active.data.current as DragData;
     const dropData = over.data.current as DropData;
 
-    console.log('Drag ended:', { dragData, dropData });
-
-    // Handle different drag operations
-    if (dragData.type === 'input-item' && dropData.type === 'main-list') {
-      // Moving from input list to main list
-      handleMoveToMainList(dragData.sourceListId!, dragData.itemId!);
-    } else if (dragData.type === 'input-item' && dropData.type === 'main-list-position') {
-      // Moving from input list to specific position in main list
-      handleMoveToMainListAtPosition(dragData.sourceListId!, dragData.itemId!, dropData.position!);
-    } else if (dragData.type === 'main-item' && dropData.type === 'main-list-position') {
-      // Reordering within main list
-      if (appState.ui.selectedItems.includes(dragData.itemId!) && appState.ui.selectedItems.length > 1) {
-        // Multi-select reorder
-        handleReorderMultipleItems(appState.ui.selectedItems, dropData.position!);
-      } else {
-        // Single item reorder
-        handleReorderMainItemToPosition(dragData.itemId!, dropData.position!);
-      }
-    } else if (dragData.type === 'tag' && dropData.type === 'main-list-item') {
-      // Dropping tag on main list item
-      const targetItemIds = appState.ui.selectedItems.includes(dropData.itemId!) && appState.ui.selectedItems.length > 1
-        ? appState.ui.selectedItems // Apply to all selected items
-        : [dropData.itemId!]; // Apply to just the dropped-on item
-      
-      handleAddTag(targetItemIds, dragData.tagId!);
-    } else if (dragData.type === 'tag' && dropData.type === 'input-list-item') {
-      // Dropping tag on input list item
-      const targetItemIds = appState.ui.selectedItems.includes(dropData.itemId!) && appState.ui.selectedItems.length > 1
-        ? appState.ui.selectedItems // Apply to all selected items
-        : [dropData.itemId!]; // Apply to just the dropped-on item
-      
-      handleAddTag(targetItemIds, dragData.tagId!);
+    const action = getDropAction(dragData, dropData, appState.ui.selectedItems);
+    if (action) {
+      dispatch(action);
     }
   };
 
-  // Helper function to move item to specific position in main list
-  const handleMoveToMainListAtPosition = (sourceListId: string, itemId: string, position: number) => {
-    if (!appState.currentProject) return;
-
-    const sourceList = appState.currentProject.inputLists.find(list => list.id === sourceListId);
-    const sourceItem = sourceList?.items.find(item => item.id === itemId);
-    
-    if (!sourceItem || sourceItem.isUsed) return;
-
-    const newMainItem: MainListItem = {
-      id: sourceItem.id, // Preserve original item ID for tag synchronization
-      content: sourceItem.content,
-      sourceListId: sourceListId,
-      tags: [...sourceItem.tags], // Copy tags from input item
-      order: position
-    };
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        inputLists: prev.currentProject.inputLists.map(list =>
-          list.id === sourceListId ? {
-            ...list,
-            items: list.items.map(item =>
-              item.id === itemId ? { ...item, isUsed: true } : item
-            )
-          } : list
-        ),
-        mainList: [
-          ...prev.currentProject.mainList.filter(item => item.order < position),
-          newMainItem,
-          ...prev.currentProject.mainList.filter(item => item.order >= position).map(item => ({
-            ...item,
-            order: item.order + 1
-          }))
-        ],
-        modifiedAt: new Date()
-      } : null
-    }));
-  };
-
-  // Helper function to reorder single item to specific position
-  const handleReorderMainItemToPosition = (itemId: string, newPosition: number) => {
-    if (!appState.currentProject) return;
-
-    const item = appState.currentProject.mainList.find(item => item.id === itemId);
-    if (!item) return;
-
-    const oldPosition = item.order;
-    if (oldPosition === newPosition) return;
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        mainList: prev.currentProject.mainList.map(listItem => {
-          if (listItem.id === itemId) {
-            return { ...listItem, order: newPosition };
-          }
-          
-          // Adjust other items' positions
-          if (oldPosition < newPosition) {
-            // Moving down - shift items up
-            if (listItem.order > oldPosition && listItem.order <= newPosition) {
-              return { ...listItem, order: listItem.order - 1 };
-            }
-          } else {
-            // Moving up - shift items down
-            if (listItem.order >= newPosition && listItem.order < oldPosition) {
-              return { ...listItem, order: listItem.order + 1 };
-            }
-          }
-          
-          return listItem;
-        }),
-        modifiedAt: new Date()
-      } : null
-    }));
-  };
-
-  // Helper function to reorder multiple selected items
-  const handleReorderMultipleItems = (selectedItemIds: string[], newPosition: number) => {
-    if (!appState.currentProject) return;
-
-    const selectedItems = appState.currentProject.mainList.filter(item => 
-      selectedItemIds.includes(item.id)
-    ).sort((a, b) => a.order - b.order);
-
-    if (selectedItems.length === 0) return;
-
-    // Remove selected items and adjust remaining items' positions
-    const remainingItems = appState.currentProject.mainList.filter(item => 
-      !selectedItemIds.includes(item.id)
-    );
-
-    // Insert selected items at new position
-    const newMainList: MainListItem[] = [];
-    let currentOrder = 1;
-
-    for (const item of remainingItems) {
-      if (currentOrder === newPosition) {
-        // Insert selected items here
-        for (const selectedItem of selectedItems) {
-          newMainList.push({ ...selectedItem, order: currentOrder++ });
-        }
-      }
-      newMainList.push({ ...item, order: currentOrder++ });
-    }
-
-    // If position is at the end, add selected items at the end
-    if (newPosition > remainingItems.length) {
-      for (const selectedItem of selectedItems) {
-        newMainList.push({ ...selectedItem, order: currentOrder++ });
-      }
-    }
-
-    setAppState(prev => ({
-      ...prev,
-      currentProject: prev.currentProject ? {
-        ...prev.currentProject,
-        mainList: newMainList,
-        modifiedAt: new Date()
-      } : null
-    }));
+  // Screen reader narration of drags; a successful drop is announced with the outcome of its action
+  const dragAnnouncements: Announcements = {
+    onDragStart: ({ active }) => `Picked up ${describeDragged(active.data.current as DragData, appState)}`,
+    onDragOver: ({ active, over }) =>
+      describeDragOver(active.data.current as DragData, (over?.data.current as DropData | undefined) ?? null, appState),
+    onDragEnd: ({ active, over }) => {
+      const dragData = active.data.current as DragData;
+      const action = over ? getDropAction(dragData, over.data.current as DropData, appState.ui.selectedItems) : null;
+      return action ? undefined : `${describeDragged(dragData, appState)} was dropped; nothing changed`;
+    },
+    onDragCancel: ({ active }) => `Moving ${describeDragged(active.data.current as DragData, appState)} was cancelled`
   };
 
   // Drag overlay component
@@ -958,12 +592,51 @@ function App() {
     <div className="h-screen flex flex-col bg-gray-50">
       <ProjectManager
         currentProject={appState.currentProject}
+        savedProjects={appState.savedProjects}
         tagPool={appState.tagPool}
         onNewProject={handleNewProject}
         onImportProject={handleImportProject}
+        onOpenProject={handleOpenProject}
+        onDuplicateProject={handleDuplicateProject}
+        onRenameProject={handleRenameProject}
+        onDeleteProject={handleDeleteProject}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onUndo={undo}
+        onRedo={redo}
+        onShowShortcuts={() => setIsShortcutHelpOpen(true)}
+        onAddCustomField={handleAddCustomField}
+        onEditCustomField={handleEditCustomField}
+        onDeleteCustomField={handleDeleteCustomField}
+        collabStatus={collaboration.status}
+        collabRoomId={collaboration.roomId}
+        collabPeers={collaboration.peers}
+        onStartCollab={collaboration.start}
+        onLeaveCollab={collaboration.leave}
+        onReconnectCollab={collaboration.reconnect}
+        snapshots={projectSnapshots.snapshots}
+        onTakeSnapshot={projectSnapshots.takeSnapshot}
+        onDeleteSnapshot={projectSnapshots.deleteSnapshot}
+      />
+
+      <SaveErrorBanner
+        error={autoSave.saveError}
+        project={appState.currentProject}
+        tagPool={appState.tagPool}
+        onRetry={autoSave.retry}
       />
       
       <DndContext
+        // Virtualized panels mount drop zones while dragging; keep measuring them
+        measuring={{ droppable: { strategy: MeasuringStrategy.Always } }}
+        accessibility={{
+          announcements: dragAnnouncements,
+          screenReaderInstructions: {
+            draggable: 'To pick up a draggable item, press Space or Enter. Use the arrow keys to move it, then press Space or Enter to drop it or Escape to cancel. In the item lists, press ? for all keyboard shortcuts.'
+          }
+        }}
         onDragStart={handleDragStart}
         onDragOver={handleDragOver}
         onDragEnd={handleDragEnd}
@@ -982,19 +655,65 @@ function App() {
           onSelectMainItem={handleSelectMainItem}
           onRemoveFromMainList={handleRemoveFromMainList}
           onReorderMainItems={handleReorderMainItems}
+          onMoveMainItem={handleMoveMainItem}
           onAddTag={handleAddTag}
           onRemoveTag={handleRemoveTag}
           onCreateTag={handleCreateTag}
+          onEditItemDetails={handleEditItemDetails}
           onEditTag={handleEditTag}
           onDeleteTag={handleDeleteTag}
           onApplyTagToSelected={handleApplyTagToSelected}
           onRemoveAllTags={handleRemoveAllTags}
           onClearSelection={handleClearSelection}
+          onStartComparison={handleStartComparison}
+          onAnswerComparison={handleAnswerComparison}
+          onEndComparison={handleEndComparison}
+          onApplyAggregation={handleApplyAggregation}
+          onLinkItems={handleLinkItems}
+          onUnlinkItems={handleUnlinkItems}
+          onEnableTiers={handleEnableTiers}
+          onDisableTiers={handleDisableTiers}
+          onAddTier={handleAddTier}
+          onEditTier={handleEditTier}
+          onDeleteTier={handleDeleteTier}
+          onMoveTier={handleMoveTier}
+          onAddOutputList={handleAddOutputList}
+          onSwitchOutputList={handleSwitchOutputList}
+          onRenameOutputList={handleRenameOutputList}
+          onDeleteOutputList={handleDeleteOutputList}
+          activeDragItemId={activeDragData?.itemId ?? null}
+          isShortcutHelpOpen={isShortcutHelpOpen}
+          onToggleShortcutHelp={() => setIsShortcutHelpOpen(open => !open)}
+          onSaveView={handleSaveView}
+          onDeleteView={handleDeleteView}
+          onSelectItems={handleSelectItems}
+          presence={collaboration.presence}
         />
         <DragOverlay>
           <DragOverlayComponent />
         </DragOverlay>
       </DndContext>
+
+      <KeyboardHelpOverlay
+        isOpen={isShortcutHelpOpen}
+        onClose={() => setIsShortcutHelpOpen(false)}
+      />
+
+      <TabConflictModal
+        localProject={appState.currentProject}
+        remoteProject={tabSync.conflict?.project ?? null}
+        onKeepLocal={tabSync.keepLocalVersion}
+        onKeepRemote={tabSync.keepRemoteVersion}
+      />
+
+      <SharedProjectModal
+        sharedProject={sharedProject}
+        tagPool={appState.tagPool}
+        onImport={handleImportSharedProject}
+        onDismiss={dismissSharedProject}
+      />
+
+      <LiveRegion announcement={announcement} />
     </div>
   );
 }
@@ -0,0 +1,425 @@
+// Collaborative project document (CRDT)
+// The document holds a project as entities (the project itself, input lists, input items, main
+// list entries and tags), each made of fields and sets:
+//   - a field is a last-writer-wins register; writes are ordered by Lamport timestamp, ties
+//     broken by client ID, so every copy keeps the same value whatever order writes arrive in
+//   - a set (item tags) is add-wins: a removal only cancels the additions its author had seen,
+//     so a tag added concurrently with a removal stays
+//   - sequences (input lists, the items of each list, the main list) are ordered by a fractional
+//     position key per entity; a move rewrites only the moved entity's key, so concurrent moves
+//     of different items both survive
+// The app keeps working on plain Project values: update() turns the difference between the
+// document and a project into operations, and getProject() turns the document back into a project.
+import type { InputList, ItemDetails, MainListItem, Project, Tag } from '../types/index';
+import { compareKeyed, keysBetween } from '../utils/fractionalIndex';
+import { getParkedItems } from '../utils/outputLists';
+
+export type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+// Lamport timestamp of an operation
+export interface Stamp {
+  counter: number;
+  clientId: string;
+}
+
+export type CollabOp =
+  | { type: 'set'; stamp: Stamp; entity: string; field: string; value: Json }
+  | { type: 'add'; stamp: Stamp; entity: string; field: string; element: string }
+  | { type: 'remove'; stamp: Stamp; entity: string; field: string; element: string; observed: string[] };
+
+type LocalOp = CollabOp extends infer Op ? (Op extends CollabOp ? Omit<Op, 'stamp'> : never) : never;
+
+interface Entity {
+  fields: Map<string, { value: Json; stamp: Stamp }>;
+  sets: Map<string, Map<string, Map<string, Stamp>>>; // Set name → element → live additions by op ID
+}
+
+// Project fields kept as whole values; concurrent edits of the same one keep the later edit
+const PROJECT_VALUE_FIELDS = [
+  'tiers',
+  'outputLists',
+  'activeOutputListId',
+  'customFields',
+  'savedViews',
+  'itemLinks',
+  'comparisonSession'
+] as const;
+
+// Item fields besides content and tags, kept per field
+const DETAIL_FIELDS = ['notes', 'url', 'fields'] as const;
+
+const PROJECT = 'project';
+const listKey = (id: string) => `list:${id}`;
+const itemKey = (id: string) => `item:${id}`;
+const mainKey = (id: string) => `main:${id}`;
+const tagKey = (id: string) => `tag:${id}`;
+
+const opId = (stamp: Stamp) => `${stamp.counter}@${stamp.clientId}`;
+
+/**
+ * Identifies an operation; the same operation has the same ID in every copy
+ * @param op - Operation
+ * @returns ID made of the operation's timestamp
+ */
+export const getOpId = (op: CollabOp): string => opId(op.stamp);
+
+/**
+ * Orders two timestamps
+ * @returns Negative when a is older than b
+ */
+export const compareStamps = (a: Stamp, b: Stamp): number =>
+  a.counter - b.counter || (a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0);
+
+// Helper: Plain JSON copy of a value; dates become ISO strings and undefined becomes null
+const toJson = (value: unknown): Json => value === undefined ? null : JSON.parse(JSON.stringify(value)) as Json;
+
+const isSameJson = (a: Json, b: Json): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Helper: IDs of the tags the project's items use
+const getUsedTagIds = (project: Project): Set<string> => new Set([
+  ...project.inputLists.flatMap(list => list.items.flatMap(item => item.tags)),
+  ...[...project.mainList, ...getParkedItems(project)].flatMap(item => item.tags)
+]);
+
+// Helper: Entity IDs in the order that keeps most of them where they are (longest increasing run of keys)
+const longestIncreasingRun = (entries: Array<{ id: string; key: string }>): Set<string> => {
+  const tails: number[] = []; // Index of the last entry of the best run of each length
+  const previous: number[] = [];
+  entries.forEach((entry, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (compareKeyed(entries[tails[mid]], entry) < 0) low = mid + 1;
+      else high = mid;
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const kept = new Set<string>();
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    kept.add(entries[index].id);
+  }
+  return kept;
+};
+
+/**
+ * One copy of a shared project
+ * Every participant holds a copy; applying the same operations in any order gives the same project.
+ */
+export class CollabDocument {
+  readonly clientId: string;
+  private entities = new Map<string, Entity>();
+  private log: CollabOp[] = [];
+  private applied = new Set<string>();
+  private removedAdditions = new Set<string>(); // Additions cancelled by a removal, even if they arrive later
+  private counter = 0;
+
+  constructor(clientId: string) {
+    this.clientId = clientId;
+  }
+
+  // Every operation applied so far, for bringing another copy up to date
+  getOps(): CollabOp[] {
+    return [...this.log];
+  }
+
+  /**
+   * Applies operations from other copies; operations seen before are skipped
+   * @param ops - Operations in any order
+   * @returns True when the document changed
+   */
+  applyOps(ops: CollabOp[]): boolean {
+    let changed = false;
+    for (const op of ops) {
+      if (this.applied.has(opId(op.stamp))) continue;
+      this.apply(op);
+      changed = true;
+    }
+    return changed;
+  }
+
+  /**
+   * Records the changes that turn the document into the given project
+   * @param project - Project as edited locally
+   * @param tagPool - Tag pool as edited locally
+   * @returns The new operations, already applied here, to send to the other copies
+   */
+  update(project: Project, tagPool: Tag[]): CollabOp[] {
+    const ops: CollabOp[] = [];
+    const emit = (op: LocalOp) => {
+      const stamped = { ...op, stamp: { counter: this.counter + 1, clientId: this.clientId } } as CollabOp;
+      this.apply(stamped);
+      ops.push(stamped);
+    };
+    const set = (entity: string, field: string, value: unknown) => {
+      const json = toJson(value);
+      const current = this.get(entity, field);
+      if (current === undefined ? json !== null : !isSameJson(current, json)) emit({ type: 'set', entity, field, value: json });
+    };
+    const setMembers = (entity: string, field: string, elements: string[]) => {
+      const current = this.getMembers(entity, field);
+      elements.filter(element => !current.includes(element))
+        .forEach(element => emit({ type: 'add', entity, field, element }));
+      current.filter(element => !elements.includes(element)).forEach(element => emit({
+        type: 'remove', entity, field, element, observed: [...(this.entity(entity).sets.get(field)?.get(element)?.keys() ?? [])]
+      }));
+    };
+
+    // Project
+    set(PROJECT, 'id', project.id);
+    set(PROJECT, 'name', project.name);
+    set(PROJECT, 'createdAt', project.createdAt);
+    PROJECT_VALUE_FIELDS.forEach(field => set(PROJECT, field, project[field]));
+
+    // Input lists and their items
+    const listIds = new Set(project.inputLists.map(list => list.id));
+    const itemIds = new Set<string>();
+    project.inputLists.forEach(list => {
+      set(listKey(list.id), 'name', list.name);
+      set(listKey(list.id), 'deleted', false);
+      list.items.forEach(item => {
+        const key = itemKey(item.id);
+        itemIds.add(item.id);
+        set(key, 'listId', list.id);
+        set(key, 'content', item.content);
+        set(key, 'isUsed', item.isUsed);
+        DETAIL_FIELDS.forEach(field => set(key, field, item[field]));
+        set(key, 'deleted', false);
+        setMembers(key, 'tags', item.tags);
+      });
+      this.updateSequence(list.items.map(item => itemKey(item.id)), emit);
+    });
+    this.entityIds('list:').filter(id => !listIds.has(id)).forEach(id => set(listKey(id), 'deleted', true));
+    this.entityIds('item:').filter(id => !itemIds.has(id)).forEach(id => set(itemKey(id), 'deleted', true));
+    this.updateSequence(project.inputLists.map(list => listKey(list.id)), emit);
+
+    // Main list
+    const mainIds = new Set(project.mainList.map(item => item.id));
+    const mainList = [...project.mainList].sort((a, b) => a.order - b.order);
+    mainList.forEach(item => {
+      const key = mainKey(item.id);
+      set(key, 'content', item.content);
+      set(key, 'sourceListId', item.sourceListId);
+      set(key, 'tierId', item.tierId);
+      DETAIL_FIELDS.forEach(field => set(key, field, item[field]));
+      set(key, 'ranked', true);
+      setMembers(key, 'tags', item.tags);
+    });
+    this.entityIds('main:').filter(id => !mainIds.has(id)).forEach(id => set(mainKey(id), 'ranked', false));
+    this.updateSequence(mainList.map(item => mainKey(item.id)), emit);
+
+    // Tags the project uses; the rest of the tag pool belongs to other projects and is not shared.
+    // Usage counts stay local, since each copy counts its own projects.
+    const tagIds = new Set(tagPool.map(tag => tag.id));
+    const usedTagIds = getUsedTagIds(project);
+    tagPool.filter(tag => usedTagIds.has(tag.id) || this.entities.has(tagKey(tag.id))).forEach(tag => {
+      set(tagKey(tag.id), 'name', tag.name);
+      set(tagKey(tag.id), 'color', tag.color);
+      set(tagKey(tag.id), 'createdAt', tag.createdAt);
+      set(tagKey(tag.id), 'deleted', false);
+    });
+    this.entityIds('tag:').filter(id => !tagIds.has(id)).forEach(id => set(tagKey(id), 'deleted', true));
+
+    if (ops.length > 0) set(PROJECT, 'modifiedAt', project.modifiedAt);
+    return ops;
+  }
+
+  /**
+   * Builds the project the document currently describes
+   * @returns The project, or null while the document is empty
+   */
+  getProject(): Project | null {
+    const id = this.get(PROJECT, 'id');
+    if (typeof id !== 'string') return null;
+
+    const inputLists: InputList[] = this.ordered('list:', listId => this.get(listKey(listId), 'deleted') !== true)
+      .map(listId => ({
+        id: listId,
+        name: String(this.get(listKey(listId), 'name') ?? ''),
+        items: this.ordered('item:', itemId =>
+          this.get(itemKey(itemId), 'deleted') !== true && this.get(itemKey(itemId), 'listId') === listId
+        ).map(itemId => ({
+          id: itemId,
+          content: String(this.get(itemKey(itemId), 'content') ?? ''),
+          isUsed: this.get(itemKey(itemId), 'isUsed') === true,
+          tags: this.getMembers(itemKey(itemId), 'tags'),
+          ...this.getDetails(itemKey(itemId))
+        }))
+      }));
+
+    const mainList: MainListItem[] = this.ordered('main:', itemId => this.get(mainKey(itemId), 'ranked') === true)
+      .map((itemId, index) => {
+        const tierId = this.get(mainKey(itemId), 'tierId');
+        return {
+          id: itemId,
+          content: String(this.get(mainKey(itemId), 'content') ?? ''),
+          sourceListId: String(this.get(mainKey(itemId), 'sourceListId') ?? ''),
+          tags: this.getMembers(mainKey(itemId), 'tags'),
+          order: index + 1,
+          ...this.getDetails(mainKey(itemId)),
+          ...(typeof tierId === 'string' ? { tierId } : {})
+        };
+      });
+
+    const project: Project = {
+      id,
+      name: String(this.get(PROJECT, 'name') ?? ''),
+      createdAt: new Date(String(this.get(PROJECT, 'createdAt'))),
+      modifiedAt: new Date(String(this.get(PROJECT, 'modifiedAt') ?? this.get(PROJECT, 'createdAt'))),
+      inputLists,
+      mainList
+    };
+    PROJECT_VALUE_FIELDS.forEach(field => {
+      const value = this.get(PROJECT, field);
+      if (value !== undefined && value !== null) Object.assign(project, { [field]: value });
+    });
+    return project;
+  }
+
+  /**
+   * Merges the document's tags into a local tag pool
+   * Shared tags new to this copy are only taken in while the shared project uses them.
+   * @param localTags - Tag pool of this copy
+   * @returns Local tags with shared edits and deletions applied, followed by tags new to this copy
+   */
+  getTagPool(localTags: Tag[]): Tag[] {
+    const shared = new Map(this.entityIds('tag:').map(tagId => [tagId, tagKey(tagId)]));
+    const toTag = (tagId: string, local?: Tag): Tag => {
+      const key = shared.get(tagId)!;
+      return {
+        id: tagId,
+        name: String(this.get(key, 'name') ?? local?.name ?? ''),
+        color: String(this.get(key, 'color') ?? local?.color ?? ''),
+        createdAt: local?.createdAt ?? new Date(String(this.get(key, 'createdAt'))),
+        usageCount: local?.usageCount ?? 0
+      };
+    };
+
+    const isDeleted = (tagId: string) => this.get(tagKey(tagId), 'deleted') === true;
+    const localIds = new Set(localTags.map(tag => tag.id));
+    const project = this.getProject();
+    const usedTagIds = project ? getUsedTagIds(project) : new Set<string>();
+    const known = localTags
+      .filter(tag => !shared.has(tag.id) || !isDeleted(tag.id))
+      .map(tag => shared.has(tag.id) ? toTag(tag.id, tag) : tag);
+    const added = [...shared.keys()]
+      .filter(tagId => !localIds.has(tagId) && !isDeleted(tagId) && usedTagIds.has(tagId))
+      .map(tagId => toTag(tagId))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : 1));
+    return [...known, ...added];
+  }
+
+  // Helper: Apply one operation
+  private apply(op: CollabOp) {
+    const id = opId(op.stamp);
+    this.applied.add(id);
+    this.log.push(op);
+    this.counter = Math.max(this.counter, op.stamp.counter);
+    const entity = this.entity(op.entity);
+
+    switch (op.type) {
+      case 'set': {
+        const current = entity.fields.get(op.field);
+        if (!current || compareStamps(op.stamp, current.stamp) > 0) {
+          entity.fields.set(op.field, { value: op.value, stamp: op.stamp });
+        }
+        break;
+      }
+      case 'add': {
+        if (this.removedAdditions.has(id)) break;
+        const set = entity.sets.get(op.field) ?? new Map<string, Map<string, Stamp>>();
+        entity.sets.set(op.field, set);
+        const additions = set.get(op.element) ?? new Map<string, Stamp>();
+        set.set(op.element, additions.set(id, op.stamp));
+        break;
+      }
+      case 'remove': {
+        const additions = entity.sets.get(op.field)?.get(op.element);
+        op.observed.forEach(addition => {
+          this.removedAdditions.add(addition);
+          additions?.delete(addition);
+        });
+        break;
+      }
+    }
+  }
+
+  // Helper: Give entities the position keys of the given order, moving as few as possible
+  private updateSequence(order: string[], emit: (op: LocalOp) => void) {
+    const keyOf = (entity: string) => {
+      const key = this.get(entity, 'position');
+      return typeof key === 'string' ? key : null;
+    };
+    const kept = longestIncreasingRun(
+      order.filter(entity => keyOf(entity) !== null).map(entity => ({ id: entity, key: keyOf(entity)! }))
+    );
+
+    let lower: string | null = null;
+    let index = 0;
+    while (index < order.length) {
+      // Keys created concurrently can be equal; the second of two equal keys moves as well
+      const keeps = (entity: string) => kept.has(entity) && (lower === null || keyOf(entity)! > lower);
+      if (keeps(order[index])) {
+        lower = keyOf(order[index]);
+        index++;
+        continue;
+      }
+
+      let end = index;
+      while (end < order.length && !keeps(order[end])) end++;
+      const keys = keysBetween(lower, end < order.length ? keyOf(order[end]) : null, end - index);
+      keys.forEach((key, offset) => emit({ type: 'set', entity: order[index + offset], field: 'position', value: key }));
+      lower = keys[keys.length - 1];
+      index = end;
+    }
+  }
+
+  // Helper: IDs of entities of one kind, in sequence order
+  private ordered(prefix: string, isLive: (id: string) => boolean): string[] {
+    return this.entityIds(prefix)
+      .filter(isLive)
+      .map(id => ({ id, key: String(this.get(`${prefix}${id}`, 'position') ?? '') }))
+      .sort(compareKeyed)
+      .map(entry => entry.id);
+  }
+
+  // Helper: Notes, link and field values of an item entity
+  private getDetails(entity: string): ItemDetails {
+    const details: ItemDetails = {};
+    DETAIL_FIELDS.forEach(field => {
+      const value = this.get(entity, field);
+      if (value !== undefined && value !== null) Object.assign(details, { [field]: value });
+    });
+    return details;
+  }
+
+  private entityIds(prefix: string): string[] {
+    return [...this.entities.keys()].filter(key => key.startsWith(prefix)).map(key => key.slice(prefix.length));
+  }
+
+  private entity(key: string): Entity {
+    let entity = this.entities.get(key);
+    if (!entity) {
+      entity = { fields: new Map(), sets: new Map() };
+      this.entities.set(key, entity);
+    }
+    return entity;
+  }
+
+  private get(entity: string, field: string): Json | undefined {
+    return this.entities.get(entity)?.fields.get(field)?.value;
+  }
+
+  // Helper: Elements of a set, in the order they were first added
+  private getMembers(entity: string, field: string): string[] {
+    const set = this.entities.get(entity)?.sets.get(field);
+    if (!set) return [];
+    return [...set.entries()]
+      .filter(([, additions]) => additions.size > 0)
+      .map(([element, additions]) => ({ element, first: [...additions.values()].sort(compareStamps)[0] }))
+      .sort((a, b) => compareStamps(a.first, b.first))
+      .map(entry => entry.element);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,202 @@
+// Collaboration session
+// Connects a ProjectStore to a relay room. Every change of the open project or the tag pool is
+// turned into document operations and sent to the room; operations from the others are merged
+// into the document and the merged project replaces the open one (SYNC_PROJECT). Selections are
+// shared as presence, so everyone sees who is looking at which item.
+import type { ProjectStore } from '../store';
+import type { Project, Tag } from '../types/index';
+import { CollabDocument, getOpId } from './collabDocument';
+import type { CollabPeer, CollabTransport, RelayMessage } from './transport';
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected' | 'closed';
+
+export interface CollabSessionState {
+  status: CollabStatus;
+  peers: CollabPeer[]; // Everyone else in the room
+}
+
+export interface CollabSessionOptions {
+  clientId: string;
+  name: string;
+  color?: string;
+}
+
+const PEER_COLORS = ['#2563eb', '#db2777', '#059669', '#d97706', '#7c3aed', '#dc2626', '#0891b2', '#65a30d'];
+
+/**
+ * Picks a participant's color from their client ID, so it stays the same for everyone
+ * @param clientId - Client ID of the participant
+ * @returns CSS color
+ */
+export const getPeerColor = (clientId: string): string => {
+  let hash = 0;
+  for (const char of clientId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return PEER_COLORS[hash % PEER_COLORS.length];
+};
+
+type Listener = () => void;
+
+/**
+ * Live link between a ProjectStore and a relay room
+ * The room's document wins when joining; a room without a document starts from the open project.
+ * Edits made while disconnected are kept and sent after reconnect().
+ */
+export class CollabSession {
+  readonly clientId: string;
+  private store: ProjectStore;
+  private transport: CollabTransport;
+  private document: CollabDocument;
+  private name: string;
+  private color: string;
+  private projectId: string | null;
+  private hasJoined = false; // Set once the document holds the room's project
+  private isApplying = false;
+  private synced: { project: Project | null; tagPool: Tag[]; selection: string[] };
+  private state: CollabSessionState = { status: 'connecting', peers: [] };
+  private listeners = new Set<Listener>();
+  private unsubscribeStore: () => void;
+
+  constructor(store: ProjectStore, transport: CollabTransport, options: CollabSessionOptions) {
+    this.store = store;
+    this.transport = transport;
+    this.clientId = options.clientId;
+    this.document = new CollabDocument(options.clientId);
+    this.name = options.name;
+    this.color = options.color ?? getPeerColor(options.clientId);
+    this.projectId = store.getState().currentProject?.id ?? null;
+    this.synced = { project: null, tagPool: [], selection: [] };
+
+    this.unsubscribeStore = store.subscribe(this.handleStoreChange);
+    this.openTransport();
+  }
+
+  getState = (): CollabSessionState => this.state;
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Joins the room again after the connection was lost
+   * @param transport - New connection to the room
+   */
+  reconnect(transport: CollabTransport) {
+    if (this.state.status !== 'disconnected') return;
+    this.transport = transport;
+    this.setState({ status: 'connecting', peers: [] });
+    this.openTransport();
+  }
+
+  // Leaves the room; the open project stays as it is
+  close() {
+    if (this.state.status === 'closed') return;
+    this.unsubscribeStore();
+    this.transport.close();
+    this.setState({ status: 'closed', peers: [] });
+  }
+
+  private openTransport() {
+    const transport = this.transport;
+    transport.open(
+      message => {
+        if (transport === this.transport) this.receive(message);
+      },
+      () => {
+        if (transport === this.transport && this.state.status !== 'closed') this.setState({ status: 'disconnected', peers: [] });
+      }
+    );
+  }
+
+  private receive(message: RelayMessage) {
+    if (this.state.status === 'closed') return;
+
+    switch (message.type) {
+      case 'welcome': {
+        const known = new Set(message.ops.map(getOpId));
+        this.document.applyOps(message.ops);
+        // Edits made while disconnected, or everything when the relay lost the room
+        const missing = this.document.getOps().filter(op => !known.has(getOpId(op)));
+        if (missing.length > 0) this.transport.send({ type: 'ops', ops: missing });
+
+        this.setState({ status: 'connected', peers: message.peers.filter(peer => peer.clientId !== this.clientId) });
+        if (this.document.getProject()) {
+          this.applyDocument();
+        } else {
+          this.sendChanges();
+        }
+        this.hasJoined = true;
+        this.sendPresence();
+        break;
+      }
+      case 'ops':
+        if (this.document.applyOps(message.ops)) this.applyDocument();
+        break;
+      case 'presence':
+        if (message.peer.clientId === this.clientId) break;
+        this.setState({
+          peers: [...this.state.peers.filter(peer => peer.clientId !== message.peer.clientId), message.peer]
+        });
+        break;
+      case 'leave':
+        this.setState({ peers: this.state.peers.filter(peer => peer.clientId !== message.clientId) });
+        break;
+    }
+  }
+
+  private handleStoreChange = () => {
+    if (this.isApplying || !this.hasJoined || this.state.status === 'closed') return;
+
+    // Opening another project ends the session; the room belongs to this one
+    if (this.store.getState().currentProject?.id !== this.projectId) {
+      this.close();
+      return;
+    }
+    this.sendChanges();
+    if (this.store.getState().ui.selectedItems !== this.synced.selection) this.sendPresence();
+  };
+
+  // Helper: Replace the open project with the document's
+  private applyDocument() {
+    const project = this.document.getProject();
+    const { tagPool } = this.store.getState();
+    this.projectId = project?.id ?? this.projectId;
+
+    this.isApplying = true;
+    try {
+      this.store.dispatch({ type: 'SYNC_PROJECT', project: project ?? undefined, tagPool: this.document.getTagPool(tagPool) });
+    } finally {
+      this.isApplying = false;
+    }
+    // Local tags the room has not seen yet go out now
+    this.sendChanges();
+    if (this.store.getState().ui.selectedItems !== this.synced.selection) this.sendPresence();
+  }
+
+  // Helper: Turn local edits into operations, sent while connected
+  private sendChanges() {
+    const { currentProject, tagPool } = this.store.getState();
+    if (!currentProject || (currentProject === this.synced.project && tagPool === this.synced.tagPool)) return;
+
+    const ops = this.document.update(currentProject, tagPool);
+    this.synced = { ...this.synced, project: currentProject, tagPool };
+    if (ops.length > 0 && this.state.status === 'connected') this.transport.send({ type: 'ops', ops });
+  }
+
+  private sendPresence() {
+    const selection = this.store.getState().ui.selectedItems;
+    this.synced = { ...this.synced, selection };
+    if (this.state.status !== 'connected') return;
+    this.transport.send({
+      type: 'presence',
+      peer: { clientId: this.clientId, name: this.name, color: this.color, selectedItemIds: selection }
+    });
+  }
+
+  private setState(changes: Partial<CollabSessionState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,5 @@
+export { CollabDocument, compareStamps, getOpId, type CollabOp, type Stamp, type Json } from './collabDocument';
+export { CollabSession, getPeerColor, type CollabSessionOptions, type CollabSessionState, type CollabStatus } from './collabSession';
+export { CollabRelay, createMemoryTransport, type RelayMembership } from './relay';
+export { COLLAB_PATH, isClientMessage, isRelayMessage, type ClientMessage, type CollabPeer, type CollabTransport, type RelayMessage } from './transport';
+export { createWebSocketTransport, getDefaultRelayUrl } from './webSocketTransport';
\ No newline at end of file
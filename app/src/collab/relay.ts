@@ -0,0 +1,124 @@
+// Collaboration relay
+// Room bookkeeping shared by the WebSocket relay server (server/collabRelay.ts) and the
+// in-memory transport used in tests, so both forward messages the same way.
+import { compareStamps, type CollabOp } from './collabDocument';
+import type { ClientMessage, CollabPeer, CollabTransport, RelayMessage } from './transport';
+
+interface Member {
+  deliver: (message: RelayMessage) => void;
+  peer: CollabPeer | null; // Known once the member announced itself
+}
+
+interface Room {
+  ops: CollabOp[];
+  members: Set<Member>;
+  compactedLength: number; // Number of operations left by the last compaction
+}
+
+// Rooms with fewer operations are not compacted
+const COMPACT_MIN_OPS = 1000;
+
+// Helper: Drop field writes that a later write of the same field replaced; nobody joining needs them
+const compactOps = (ops: CollabOp[]): CollabOp[] => {
+  const fieldKey = (op: CollabOp) => `${op.entity}\n${op.field}`;
+  const latest = new Map<string, CollabOp>();
+  ops.forEach(op => {
+    if (op.type !== 'set') return;
+    const current = latest.get(fieldKey(op));
+    if (!current || compareStamps(op.stamp, current.stamp) > 0) latest.set(fieldKey(op), op);
+  });
+  return ops.filter(op => op.type !== 'set' || latest.get(fieldKey(op)) === op);
+};
+
+// A participant's membership of a room
+export interface RelayMembership {
+  receive: (message: ClientMessage) => void;
+  leave: () => void;
+}
+
+/**
+ * Forwards messages between the members of each room
+ * A room and its operations are dropped once everyone left; the next participant to join brings the
+ * document back from its own copy. Operations are compacted as they pile up.
+ */
+export class CollabRelay {
+  private rooms = new Map<string, Room>();
+
+  /**
+   * Adds a participant to a room and sends it the room's operations and members
+   * @param roomId - Room to join; rooms are created on first use
+   * @param deliver - Sends a message to the participant
+   * @returns The membership; pass it what the participant sends and leave when it disconnects
+   */
+  join(roomId: string, deliver: (message: RelayMessage) => void): RelayMembership {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = { ops: [], members: new Set(), compactedLength: 0 };
+      this.rooms.set(roomId, room);
+    }
+    const members = room.members;
+    const member: Member = { deliver, peer: null };
+    const others = () => [...members].filter(other => other !== member);
+
+    deliver({
+      type: 'welcome',
+      ops: [...room.ops],
+      peers: [...members].flatMap(other => other.peer ? [other.peer] : [])
+    });
+    members.add(member);
+
+    return {
+      receive: (message) => {
+        if (!members.has(member)) return;
+        if (message.type === 'ops') {
+          room.ops.push(...message.ops);
+          if (room.ops.length > Math.max(COMPACT_MIN_OPS, 2 * room.compactedLength)) {
+            room.ops = compactOps(room.ops);
+            room.compactedLength = room.ops.length;
+          }
+        } else {
+          member.peer = message.peer;
+        }
+        others().forEach(other => other.deliver(message));
+      },
+      leave: () => {
+        if (!members.delete(member)) return;
+        if (members.size === 0 && this.rooms.get(roomId) === room) this.rooms.delete(roomId);
+        if (!member.peer) return;
+        const clientId = member.peer.clientId;
+        others().forEach(other => other.deliver({ type: 'leave', clientId }));
+      }
+    };
+  }
+
+  // Operations kept for a room
+  getOps(roomId: string): CollabOp[] {
+    return [...(this.rooms.get(roomId)?.ops ?? [])];
+  }
+}
+
+/**
+ * Connects to a relay in the same page
+ * Messages are delivered in a microtask, like a network connection would deliver them later.
+ * @param relay - Relay to join
+ * @param roomId - Room to join
+ * @returns Transport for a CollabSession
+ */
+export const createMemoryTransport = (relay: CollabRelay, roomId: string): CollabTransport => {
+  let membership: RelayMembership | null = null;
+  return {
+    open: (onMessage) => {
+      membership = relay.join(roomId, message => queueMicrotask(() => {
+        if (membership) onMessage(message);
+      }));
+    },
+    send: (message) => {
+      // Copied, as a network would, so later local edits cannot reach the relay by reference
+      membership?.receive(JSON.parse(JSON.stringify(message)) as ClientMessage);
+    },
+    close: () => {
+      membership?.leave();
+      membership = null;
+    }
+  };
+};
\ No newline at end of file
@@ -0,0 +1,101 @@
+// Collaboration transport
+// Participants never talk to each other directly: each one connects to a relay room (one per
+// project) and the relay forwards what it receives to the others. The relay also keeps every
+// operation sent to the room, so someone joining later starts from the full document.
+import type { CollabOp } from './collabDocument';
+
+// Path the relay server is served at
+export const COLLAB_PATH = '/collab';
+
+// Someone in a room, and the items they have selected
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  color: string;
+  selectedItemIds: string[];
+}
+
+// Messages participants send to the relay
+export type ClientMessage =
+  | { type: 'ops'; ops: CollabOp[] }
+  | { type: 'presence'; peer: CollabPeer };
+
+// Messages the relay sends to participants
+export type RelayMessage =
+  | { type: 'welcome'; ops: CollabOp[]; peers: CollabPeer[] } // First message after joining
+  | { type: 'ops'; ops: CollabOp[] }
+  | { type: 'presence'; peer: CollabPeer }
+  | { type: 'leave'; clientId: string };
+
+/**
+ * Connection of one participant to a relay room
+ * Implementations: createMemoryTransport (same page, for tests) and createWebSocketTransport.
+ */
+export interface CollabTransport {
+  // Connects; onClose runs when the connection is lost, not after close()
+  open: (onMessage: (message: RelayMessage) => void, onClose: () => void) => void;
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+// Helper: Check the shape of one operation; a malformed one would corrupt every copy it reaches
+const isCollabOp = (data: unknown): data is CollabOp => {
+  if (typeof data !== 'object' || data === null) return false;
+  const op = data as Record<string, unknown>;
+  const stamp = op.stamp as Record<string, unknown> | null;
+  if (typeof stamp !== 'object' || stamp === null || !Number.isInteger(stamp.counter) ||
+    typeof stamp.clientId !== 'string' || typeof op.entity !== 'string' || typeof op.field !== 'string') {
+    return false;
+  }
+  switch (op.type) {
+    case 'set':
+      return 'value' in op;
+    case 'add':
+      return typeof op.element === 'string';
+    case 'remove':
+      return typeof op.element === 'string' && Array.isArray(op.observed) &&
+        op.observed.every(id => typeof id === 'string');
+    default:
+      return false;
+  }
+};
+
+const isOpList = (data: unknown): data is CollabOp[] => Array.isArray(data) && data.every(isCollabOp);
+
+/**
+ * Checks that data received from a relay is a relay message
+ * @param data - Parsed message
+ * @returns True for the message types participants understand, with well-formed operations
+ */
+export const isRelayMessage = (data: unknown): data is RelayMessage => {
+  if (typeof data !== 'object' || data === null) return false;
+  const message = data as Record<string, unknown>;
+  switch (message.type) {
+    case 'welcome':
+      return isOpList(message.ops) && Array.isArray(message.peers);
+    case 'ops':
+      return isOpList(message.ops);
+    case 'presence':
+      return typeof message.peer === 'object' && message.peer !== null;
+    case 'leave':
+      return typeof message.clientId === 'string';
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks that data received from a participant is a client message
+ * @param data - Parsed message
+ * @returns True for the message types the relay understands, with well-formed operations
+ */
+export const isClientMessage = (data: unknown): data is ClientMessage => {
+  if (typeof data !== 'object' || data === null) return false;
+  const message = data as Record<string, unknown>;
+  // Messages with a malformed operation are dropped whole, so the relay never keeps one
+  if (message.type === 'ops') return isOpList(message.ops);
+  if (message.type !== 'presence' || typeof message.peer !== 'object' || message.peer === null) return false;
+  const peer = message.peer as Record<string, unknown>;
+  return typeof peer.clientId === 'string' && typeof peer.name === 'string' &&
+    typeof peer.color === 'string' && Array.isArray(peer.selectedItemIds);
+};
\ No newline at end of file
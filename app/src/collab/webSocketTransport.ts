@@ -0,0 +1,56 @@
+// WebSocket transport
+// Connects to the relay server (server/collabRelay.ts), which the dev and preview servers
+// serve at /collab; the room is passed as the room query parameter.
+import { COLLAB_PATH, isRelayMessage, type ClientMessage, type CollabTransport } from './transport';
+
+/**
+ * Default relay address: the server the app was loaded from
+ * @returns WebSocket URL of the relay
+ */
+export const getDefaultRelayUrl = (): string =>
+  `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}${COLLAB_PATH}`;
+
+/**
+ * Connects to a room of a relay server
+ * Messages sent before the connection opens are queued.
+ * @param relayUrl - WebSocket URL of the relay
+ * @param roomId - Room to join
+ * @returns Transport for a CollabSession
+ */
+export const createWebSocketTransport = (relayUrl: string, roomId: string): CollabTransport => {
+  let socket: WebSocket | null = null;
+  let queue: string[] = [];
+
+  return {
+    open: (onMessage, onClose) => {
+      const url = new URL(relayUrl);
+      url.searchParams.set('room', roomId);
+      socket = new WebSocket(url);
+      socket.onopen = () => {
+        queue.forEach(data => socket?.send(data));
+        queue = [];
+      };
+      socket.onmessage = (event: MessageEvent) => {
+        let message: unknown;
+        try {
+          message = JSON.parse(String(event.data));
+        } catch {
+          return; // Not a relay message
+        }
+        if (isRelayMessage(message)) onMessage(message);
+      };
+      socket.onclose = () => onClose();
+    },
+    send: (message: ClientMessage) => {
+      const data = JSON.stringify(message);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(data);
+      else queue.push(data);
+    },
+    close: () => {
+      if (!socket) return;
+      socket.onclose = null;
+      socket.close();
+      socket = null;
+    }
+  };
+};
\ No newline at end of file
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import type { Project } from '../types/index';
+import {
+  AGGREGATION_METHODS,
+  aggregateRankings,
+  type AggregationMethod
+} from '../utils/rankAggregation';
+
+interface AggregationModalProps {
+  isOpen: boolean;
+  project: Project;
+  onApply: (ranking: Array<{ itemId: string; listId: string }>) => void;
+  onClose: () => void;
+}
+
+// Keep the breakdown table responsive for very long lists; the full ranking is still applied
+const MAX_PREVIEW_ROWS = 200;
+
+export const AggregationModal: React.FC<AggregationModalProps> = ({
+  isOpen,
+  project,
+  onApply,
+  onClose
+}) => {
+  const [method, setMethod] = useState<AggregationMethod>('borda');
+  // null until the user picks lists: every non-empty list takes part
+  const [chosenListIds, setChosenListIds] = useState<string[] | null>(null);
+
+  const selectedLists = useMemo(
+    () => chosenListIds
+      ? project.inputLists.filter(list => chosenListIds.includes(list.id))
+      : project.inputLists.filter(list => list.items.length > 0),
+    [project.inputLists, chosenListIds]
+  );
+  const listIds = selectedLists.map(list => list.id);
+
+  const result = useMemo(
+    () => isOpen && selectedLists.length > 0 ? aggregateRankings(selectedLists, method) : null,
+    [isOpen, selectedLists, method]
+  );
+
+  if (!isOpen) return null;
+
+  const methodInfo = AGGREGATION_METHODS.find(info => info.method === method)!;
+  const data = result?.success ? result.data : undefined;
+
+  const handleClose = () => {
+    setChosenListIds(null);
+    onClose();
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      handleClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      handleClose();
+    }
+  };
+
+  const toggleList = (listId: string) => {
+    setChosenListIds(listIds.includes(listId) ? listIds.filter(id => id !== listId) : [...listIds, listId]);
+  };
+
+  const handleApply = () => {
+    if (!data) return;
+    onApply(data.items.map(item => ({ itemId: item.itemId, listId: item.listId })));
+    handleClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">
+            Merge Automatically
+          </h2>
+        </div>
+
+        {/* Options */}
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-3 text-sm">
+          <label className="flex items-center space-x-2">
+            <span className="text-gray-700">Method</span>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as AggregationMethod)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {AGGREGATION_METHODS.map(info => (
+                <option key={info.method} value={info.method}>{info.label}</option>
+              ))}
+            </select>
+            <span className="text-gray-500">{methodInfo.description}</span>
+          </label>
+          <fieldset className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <legend className="sr-only">Lists</legend>
+            <span className="text-gray-700">Rankings from</span>
+            {project.inputLists.length === 0 && (
+              <span className="text-gray-500">No input lists</span>
+            )}
+            {project.inputLists.map(list => (
+              <label key={list.id} className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={listIds.includes(list.id)}
+                  onChange={() => toggleList(list.id)}
+                />
+                <span className="text-gray-700">{list.name} ({list.items.length})</span>
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        {/* Score breakdown */}
+        <div className="flex-1 overflow-auto px-6 py-4">
+          {!result && (
+            <div className="text-sm text-gray-500">Select at least one list to rank.</div>
+          )}
+          {result && !result.success && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-700">
+              {result.error}
+            </div>
+          )}
+          {data && (
+            <table className="w-full text-sm" aria-label="Score breakdown">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-1 pr-3 font-medium">#</th>
+                  <th className="py-1 pr-3 font-medium">Item</th>
+                  {data.lists.map(list => (
+                    <th key={list.id} className="py-1 pr-3 font-medium text-right">{list.name}</th>
+                  ))}
+                  <th className="py-1 font-medium text-right">{methodInfo.scoreLabel}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.items.slice(0, MAX_PREVIEW_ROWS).map(item => (
+                  <tr key={item.key} className="border-b border-gray-100">
+                    <td className="py-1 pr-3 text-gray-500">{item.rank}</td>
+                    <td className="py-1 pr-3 text-gray-900 break-words">{item.content}</td>
+                    {data.lists.map(list => (
+                      <td key={list.id} className="py-1 pr-3 text-right text-gray-600">
+                        {item.positions[list.id] ?? '–'}
+                      </td>
+                    ))}
+                    <td className="py-1 text-right font-medium text-gray-900">{item.score}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {data && data.items.length > MAX_PREVIEW_ROWS && (
+            <div className="mt-2 text-xs text-gray-500">
+              Showing the top {MAX_PREVIEW_ROWS} of {data.items.length} items.
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <div className="text-sm text-gray-500">
+            {data && project.mainList.length > 0 && (
+              <span className="text-amber-700">
+                Replaces the current main list ({project.mainList.length} items). You can undo this.
+              </span>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!data}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply to Main List
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
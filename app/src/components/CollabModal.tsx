@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { getDefaultRelayUrl, type CollabPeer, type CollabStatus } from '../collab';
+
+interface CollabModalProps {
+  isOpen: boolean;
+  projectId: string; // Suggested room: collaborators on the same project meet in its room
+  status: CollabStatus;
+  roomId: string | null; // Room of the running session
+  peers: CollabPeer[];
+  onClose: () => void;
+  onStart: (relayUrl: string, roomId: string, name: string) => void;
+  onLeave: () => void;
+  onReconnect: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  disconnected: 'Connection lost. Your edits are kept and sent when you reconnect.',
+  closed: 'Not collaborating'
+};
+
+// Helper: Whether text is a WebSocket address
+const isWebSocketUrl = (text: string): boolean => {
+  try {
+    return ['ws:', 'wss:'].includes(new URL(text).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const CollabModal: React.FC<CollabModalProps> = ({
+  isOpen,
+  projectId,
+  status,
+  roomId,
+  peers,
+  onClose,
+  onStart,
+  onLeave,
+  onReconnect
+}) => {
+  const [relayUrl, setRelayUrl] = useState(getDefaultRelayUrl);
+  const [room, setRoom] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const isActive = status !== 'closed';
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Typing in the form must not reach the ranking shortcuts
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const handleStart = () => {
+    if (!name.trim()) {
+      setError('Enter the name others will see');
+      return;
+    }
+    if (!isWebSocketUrl(relayUrl.trim())) {
+      setError('Relay server must be a ws:// or wss:// address');
+      return;
+    }
+    setError(null);
+    onStart(relayUrl.trim(), room.trim() || projectId, name.trim());
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="collab-title"
+        className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 id="collab-title" className="text-lg font-medium text-gray-900">Collaborate</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Rank together in real time. Everyone in the same room edits the same project; the room's
+            version replaces yours when you join one that is already in use.
+          </p>
+        </div>
+
+        {/* Content */}
+        {isActive ? (
+          <div className="px-6 py-4 space-y-4 text-sm">
+            <div>
+              <div className="font-medium text-gray-900">Room</div>
+              <code className="block mt-1 px-2 py-1 bg-gray-100 rounded break-all">{roomId}</code>
+              <p className="mt-1 text-gray-500">Share the room with collaborators so they can join.</p>
+            </div>
+            <p role="status" className={status === 'disconnected' ? 'text-red-600' : 'text-gray-700'}>
+              {STATUS_LABELS[status]}
+            </p>
+            <div>
+              <div className="font-medium text-gray-900">Collaborators</div>
+              {peers.length === 0 ? (
+                <p className="mt-1 text-gray-500">Nobody else is here yet.</p>
+              ) : (
+                <ul className="mt-1 space-y-1">
+                  {peers.map(peer => (
+                    <li key={peer.clientId} className="flex items-center space-x-2">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: peer.color }} aria-hidden="true" />
+                      <span className="text-gray-900">{peer.name}</span>
+                      {peer.selectedItemIds.length > 0 && (
+                        <span className="text-gray-500">
+                          {peer.selectedItemIds.length} item{peer.selectedItemIds.length === 1 ? '' : 's'} selected
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="px-6 py-4 space-y-3 text-sm">
+            <label className="block">
+              <span className="font-medium text-gray-700">Your name</span>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleStart()}
+                className={`mt-1 ${inputClassName}`}
+                autoFocus
+              />
+            </label>
+            <label className="block">
+              <span className="font-medium text-gray-700">Room</span>
+              <input
+                type="text"
+                value={room}
+                onChange={(e) => setRoom(e.target.value)}
+                placeholder={projectId}
+                className={`mt-1 ${inputClassName}`}
+              />
+              <span className="block mt-1 text-gray-500">Leave empty to open a room for this project.</span>
+            </label>
+            <label className="block">
+              <span className="font-medium text-gray-700">Relay server</span>
+              <input
+                type="text"
+                value={relayUrl}
+                onChange={(e) => setRelayUrl(e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            {error && <p role="alert" className="text-red-600">{error}</p>}
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Close
+          </button>
+          {isActive ? (
+            <>
+              {status === 'disconnected' && (
+                <button
+                  onClick={onReconnect}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  Reconnect
+                </button>
+              )}
+              <button
+                onClick={onLeave}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Leave room
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={handleStart}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Join room
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import type { Project, Tag } from '../types/index';
+import { TagDisplay } from './shared';
+import { findItem } from '../store/projectReducer';
+import {
+  estimateRemainingComparisons,
+  getCurrentComparison,
+  reconcileComparisonSession,
+  type ComparisonScope
+} from '../utils/comparisonSort';
+
+interface ComparisonModalProps {
+  isOpen: boolean;
+  project: Project;
+  tagPool: Tag[];
+  onStart: (scope: ComparisonScope) => void;
+  onAnswer: (candidateIsBetter: boolean) => void;
+  onEnd: () => void;
+  onClose: () => void;
+}
+
+interface ComparisonCardProps {
+  project: Project;
+  itemId: string;
+  tagPool: Tag[];
+  shortcut: string;
+  onChoose: () => void;
+}
+
+const noop = () => {};
+
+const ComparisonCard: React.FC<ComparisonCardProps> = ({ project, itemId, tagPool, shortcut, onChoose }) => {
+  const item = findItem(project, itemId);
+  if (!item) return null;
+
+  const mainItem = project.mainList.find(entry => entry.id === itemId);
+  const sourceList = project.inputLists.find(list => list.items.some(entry => entry.id === itemId));
+
+  return (
+    <button
+      onClick={onChoose}
+      className="flex-1 min-w-0 p-4 text-left border-2 border-gray-200 rounded-lg bg-white hover:border-blue-500 hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+    >
+      <div className="text-base font-medium text-gray-900 break-words">{item.content}</div>
+      {item.tags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          <TagDisplay tagIds={item.tags} tagPool={tagPool} onRemoveTag={noop} showRemoveButton={false} />
+        </div>
+      )}
+      {item.notes && (
+        <div className="mt-2 text-sm text-gray-600 break-words">{item.notes}</div>
+      )}
+      <div className="mt-3 text-xs text-gray-500">
+        {mainItem ? `Ranked #${mainItem.order}` : sourceList ? `Unranked · ${sourceList.name}` : 'Unranked'}
+        <span className="ml-2 px-1.5 py-0.5 border border-gray-300 rounded text-gray-600">{shortcut}</span>
+      </div>
+    </button>
+  );
+};
+
+export const ComparisonModal: React.FC<ComparisonModalProps> = ({
+  isOpen,
+  project,
+  tagPool,
+  onStart,
+  onAnswer,
+  onEnd,
+  onClose
+}) => {
+  const [rerankMainList, setRerankMainList] = useState(false);
+  const [inputListIds, setInputListIds] = useState<string[]>([]);
+  const [hasAnswered, setHasAnswered] = useState(false);
+
+  // Show the session as the reducer will see it, after any edits made since the last answer
+  const session = useMemo(
+    () => project.comparisonSession ? reconcileComparisonSession(project, project.comparisonSession) : null,
+    [project]
+  );
+
+  if (!isOpen) return null;
+
+  const comparison = session ? getCurrentComparison(session) : null;
+  const unrankedCounts = new Map(project.inputLists.map(list => [
+    list.id,
+    list.items.filter(item => !item.isUsed).length
+  ]));
+  const canStart = (rerankMainList && project.mainList.length > 1) ||
+    inputListIds.some(listId => (unrankedCounts.get(listId) ?? 0) > 0);
+
+  const handleAnswer = (candidateIsBetter: boolean) => {
+    setHasAnswered(true);
+    onAnswer(candidateIsBetter);
+  };
+
+  const handleStart = () => {
+    setHasAnswered(false);
+    onStart({ rerankMainList, inputListIds });
+  };
+
+  const handleEnd = () => {
+    setHasAnswered(false);
+    onEnd();
+  };
+
+  const handleClose = () => {
+    setHasAnswered(false);
+    onClose();
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      handleClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      handleClose();
+    } else if (comparison && e.key === 'ArrowLeft') {
+      e.preventDefault();
+      handleAnswer(true);
+    } else if (comparison && e.key === 'ArrowRight') {
+      e.preventDefault();
+      handleAnswer(false);
+    }
+  };
+
+  const toggleInputList = (listId: string) => {
+    setInputListIds(current =>
+      current.includes(listId) ? current.filter(id => id !== listId) : [...current, listId]
+    );
+  };
+
+  const renderContent = () => {
+    if (session && comparison) {
+      const placedCount = session.sortedIds.length;
+      const remaining = estimateRemainingComparisons(session);
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">Which should rank higher?</p>
+          <div className="flex items-stretch space-x-4">
+            <ComparisonCard
+              project={project}
+              itemId={comparison.candidateId}
+              tagPool={tagPool}
+              shortcut="←"
+              onChoose={() => handleAnswer(true)}
+            />
+            <ComparisonCard
+              project={project}
+              itemId={comparison.opponentId}
+              tagPool={tagPool}
+              shortcut="→"
+              onChoose={() => handleAnswer(false)}
+            />
+          </div>
+          <div className="text-xs text-gray-500" data-testid="comparison-progress">
+            {placedCount} ranked · {session.pendingIds.length} to place · {session.comparisons} answered · at most {remaining} question{remaining === 1 ? '' : 's'} left
+          </div>
+        </div>
+      );
+    }
+
+    if (hasAnswered) {
+      return (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">
+          ✓ Ranking complete. The main list has been updated.
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4 text-sm">
+        <p className="text-gray-600">
+          Answer "which is better?" for pairs of items and they are sorted into the main list for you.
+          You can close this dialog at any time and pick up where you left off.
+        </p>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={rerankMainList}
+            onChange={(e) => setRerankMainList(e.target.checked)}
+          />
+          <span className="text-gray-700">Re-rank the main list ({project.mainList.length} items)</span>
+        </label>
+        <fieldset className="space-y-2">
+          <legend className="text-gray-700 mb-1">Insert unranked items from</legend>
+          {project.inputLists.length === 0 && (
+            <div className="text-gray-500">No input lists</div>
+          )}
+          {project.inputLists.map(list => (
+            <label key={list.id} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={inputListIds.includes(list.id)}
+                onChange={() => toggleInputList(list.id)}
+              />
+              <span className="text-gray-700">{list.name} ({unrankedCounts.get(list.id)} unranked)</span>
+            </label>
+          ))}
+        </fieldset>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">
+            Compare Items
+          </h2>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4">
+          {renderContent()}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          {session ? (
+            <>
+              <button
+                onClick={handleEnd}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                title="Stop comparing; items placed so far keep their rank"
+              >
+                End Session
+              </button>
+              <button
+                onClick={handleClose}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Continue Later
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={handleClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Close
+              </button>
+              {!hasAnswered && (
+                <button
+                  onClick={handleStart}
+                  disabled={!canStart}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Start Comparing
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
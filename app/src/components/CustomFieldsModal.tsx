@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import type { CustomField, CustomFieldType } from '../types/index';
+import { CUSTOM_FIELD_TYPES, parseSelectOptions, validateFieldName } from '../utils/customFields';
+
+interface CustomFieldsModalProps {
+  isOpen: boolean;
+  fields: CustomField[];
+  onClose: () => void;
+  onAddField: (name: string, type: CustomFieldType, options: string[]) => void;
+  onEditField: (fieldId: string, name: string, options?: string[]) => void;
+  onDeleteField: (fieldId: string) => void;
+}
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+// Helper: Reason a field cannot be saved, or null
+const validateField = (
+  name: string,
+  type: CustomFieldType,
+  optionsText: string,
+  fields: CustomField[],
+  fieldId?: string
+): string | null =>
+  validateFieldName(name, fields, fieldId) ??
+  (type === 'select' && parseSelectOptions(optionsText).length === 0 ? 'Select fields need at least one option' : null);
+
+export const CustomFieldsModal: React.FC<CustomFieldsModalProps> = ({
+  isOpen,
+  fields,
+  onClose,
+  onAddField,
+  onEditField,
+  onDeleteField
+}) => {
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+  const [newOptions, setNewOptions] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editOptions, setEditOptions] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !editingFieldId) {
+      onClose();
+    }
+  };
+
+  const handleAdd = () => {
+    const error = validateField(newName, newType, newOptions, fields);
+    if (error) {
+      setAddError(error);
+      return;
+    }
+    onAddField(newName.trim(), newType, newType === 'select' ? parseSelectOptions(newOptions) : []);
+    setNewName('');
+    setNewOptions('');
+    setAddError(null);
+  };
+
+  const handleStartEdit = (field: CustomField) => {
+    setPendingDeleteId(null);
+    setEditingFieldId(field.id);
+    setEditName(field.name);
+    setEditOptions((field.options ?? []).join(', '));
+    setEditError(null);
+  };
+
+  const handleSaveEdit = (field: CustomField) => {
+    const error = validateField(editName, field.type, editOptions, fields, field.id);
+    if (error) {
+      setEditError(error);
+      return;
+    }
+    onEditField(field.id, editName.trim(), field.type === 'select' ? parseSelectOptions(editOptions) : undefined);
+    setEditingFieldId(null);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, field: CustomField) => {
+    if (e.key === 'Enter') {
+      handleSaveEdit(field);
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setEditingFieldId(null);
+    }
+  };
+
+  const typeLabel = (type: CustomFieldType) => CUSTOM_FIELD_TYPES.find(entry => entry.type === type)?.label ?? type;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Custom Fields</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Fields every item of this project can fill in, next to its notes and link.
+          </p>
+        </div>
+
+        {/* Field list */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {fields.length === 0 ? (
+            <div className="text-center text-gray-500 py-4">No custom fields yet.</div>
+          ) : (
+            fields.map(field => (
+              <div key={field.id} className="p-3 border border-gray-200 rounded-md">
+                {editingFieldId === field.id ? (
+                  <div className="space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => handleEditKeyDown(e, field)}
+                        aria-label="Field name"
+                        className={`flex-1 ${inputClassName}`}
+                        autoFocus
+                      />
+                      <button onClick={() => handleSaveEdit(field)} className="text-xs text-blue-600">Save</button>
+                      <button onClick={() => setEditingFieldId(null)} className="text-xs text-gray-500">Cancel</button>
+                    </div>
+                    {field.type === 'select' && (
+                      <input
+                        type="text"
+                        value={editOptions}
+                        onChange={(e) => setEditOptions(e.target.value)}
+                        onKeyDown={(e) => handleEditKeyDown(e, field)}
+                        aria-label="Field options"
+                        placeholder="Options, separated by commas"
+                        className={`w-full ${inputClassName}`}
+                      />
+                    )}
+                    {editError && <div className="text-xs text-red-600" role="alert">{editError}</div>}
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{field.name}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {typeLabel(field.type)}
+                        {field.options && ` · ${field.options.join(', ')}`}
+                      </div>
+                    </div>
+                    {pendingDeleteId === field.id ? (
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <span className="text-xs text-red-700">Delete with its values?</span>
+                        <button
+                          onClick={() => {
+                            onDeleteField(field.id);
+                            setPendingDeleteId(null);
+                          }}
+                          className="text-xs text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded"
+                        >
+                          Delete
+                        </button>
+                        <button onClick={() => setPendingDeleteId(null)} className="text-xs text-gray-500">
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <button
+                          onClick={() => handleStartEdit(field)}
+                          className="text-xs text-gray-600 hover:text-gray-700"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => {
+                            setEditingFieldId(null);
+                            setPendingDeleteId(field.id);
+                          }}
+                          className="text-xs text-red-600 hover:text-red-700"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* New field */}
+        <div className="px-6 py-4 border-t border-gray-200 space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="New field name..."
+              aria-label="New field name"
+              className={`flex-1 ${inputClassName}`}
+            />
+            <select
+              value={newType}
+              onChange={(e) => setNewType(e.target.value as CustomFieldType)}
+              aria-label="New field type"
+              className={inputClassName}
+            >
+              {CUSTOM_FIELD_TYPES.map(entry => (
+                <option key={entry.type} value={entry.type}>{entry.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+            >
+              Add Field
+            </button>
+          </div>
+          {newType === 'select' && (
+            <input
+              type="text"
+              value={newOptions}
+              onChange={(e) => setNewOptions(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="Options, separated by commas"
+              aria-label="New field options"
+              className={`w-full ${inputClassName}`}
+            />
+          )}
+          {addError && <div className="text-xs text-red-600" role="alert">{addError}</div>}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
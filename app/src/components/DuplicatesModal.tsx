@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import type { InputList } from '../types/index';
+import type { DuplicateMember, DuplicateReport } from '../utils/duplicateDetection';
+
+interface DuplicatesModalProps {
+  isOpen: boolean;
+  report: DuplicateReport;
+  inputLists: InputList[];
+  onLink: (itemIds: string[]) => void;
+  onUnlink: (itemIds: string[]) => void;
+  onClose: () => void;
+}
+
+export const DuplicatesModal: React.FC<DuplicatesModalProps> = ({
+  isOpen,
+  report,
+  inputLists,
+  onLink,
+  onUnlink,
+  onClose
+}) => {
+  // Members the user left out of a suggested link
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+
+  if (!isOpen) return null;
+
+  const listNames = new Map(inputLists.map(list => [list.id, list.name]));
+
+  const handleClose = () => {
+    setExcludedIds([]);
+    onClose();
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      handleClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      handleClose();
+    }
+  };
+
+  const toggleMember = (itemId: string) => {
+    setExcludedIds(current =>
+      current.includes(itemId) ? current.filter(id => id !== itemId) : [...current, itemId]
+    );
+  };
+
+  const renderMember = (member: DuplicateMember) => (
+    <>
+      <span className="text-gray-900 break-words">{member.content}</span>
+      <span className="ml-2 text-xs text-gray-500">{listNames.get(member.listId)}</span>
+    </>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">
+            Duplicates
+          </h2>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6 text-sm">
+          <section>
+            <h3 className="font-medium text-gray-900 mb-1">Possible duplicates ({report.suggestions.length})</h3>
+            <p className="text-gray-600 mb-3">
+              Linked items count as one: adding any of them to the main list marks the others as used and merges their tags.
+            </p>
+            {report.suggestions.length === 0 && (
+              <div className="text-gray-500">No likely duplicates found.</div>
+            )}
+            <ul className="space-y-3">
+              {report.suggestions.map(group => {
+                const chosenIds = group.members
+                  .map(member => member.itemId)
+                  .filter(id => !excludedIds.includes(id));
+                return (
+                  <li key={group.members[0].itemId} className="border border-gray-200 rounded-md p-3">
+                    <div className="flex items-start justify-between">
+                      <div className="space-y-1 min-w-0">
+                        {group.members.map(member => (
+                          <label key={member.itemId} className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              checked={!excludedIds.includes(member.itemId)}
+                              onChange={() => toggleMember(member.itemId)}
+                            />
+                            <span>{renderMember(member)}</span>
+                          </label>
+                        ))}
+                      </div>
+                      <div className="flex items-center space-x-3 ml-3 flex-shrink-0">
+                        <span className="text-xs text-gray-500">{group.score}% similar</span>
+                        <button
+                          onClick={() => onLink(chosenIds)}
+                          disabled={chosenIds.length < 2}
+                          className="px-3 py-1 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Link
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+
+          {report.links.length > 0 && (
+            <section>
+              <h3 className="font-medium text-gray-900 mb-3">Linked ({report.links.length})</h3>
+              <ul className="space-y-3">
+                {report.links.map(group => (
+                  <li key={group[0].itemId} className="border border-gray-200 rounded-md p-3 flex items-start justify-between">
+                    <div className="space-y-1 min-w-0">
+                      {group.map(member => (
+                        <div key={member.itemId}>{renderMember(member)}</div>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => onUnlink(group.map(member => member.itemId))}
+                      className="ml-3 flex-shrink-0 px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                      Unlink
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import type { InputList, ItemFilter, SavedView, Tag, TagFilterMode, UsageFilter } from '../types/index';
+import { EMPTY_FILTER, isFilterActive } from '../utils/itemFilter';
+import { validateViewName, type TagQueryError } from '../utils/tagQuery';
+
+interface FilterBarProps {
+  filter: ItemFilter;
+  tagPool: Tag[];
+  inputLists: InputList[];
+  hitCounts: { input: number; main: number }; // Matching items in the input lists and the main list
+  onChange: (filter: ItemFilter) => void;
+  searchInputRef?: React.Ref<HTMLInputElement>;
+  // Tag query, typed or taken from a saved view
+  query: string;
+  queryError: TagQueryError | null;
+  onQueryChange: (query: string) => void;
+  savedViews: SavedView[];
+  activeViewId: string | null;
+  onSelectView: (viewId: string | null) => void; // null clears the query
+  onSaveView?: (name: string, query: string, viewId?: string) => string; // Returns the view's ID
+  onDeleteView?: (viewId: string) => void;
+  onSelectMatching?: () => void; // Selects the matching items, so bulk tag actions apply to them
+}
+
+type TagState = 'included' | 'excluded' | 'off';
+
+const selectClassName = 'px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export const FilterBar: React.FC<FilterBarProps> = ({
+  filter,
+  tagPool,
+  inputLists,
+  hitCounts,
+  onChange,
+  searchInputRef,
+  query,
+  queryError,
+  onQueryChange,
+  savedViews,
+  activeViewId,
+  onSelectView,
+  onSaveView,
+  onDeleteView,
+  onSelectMatching
+}) => {
+  const [viewName, setViewName] = useState<string | null>(null); // Name being typed for a new view
+  const [viewNameError, setViewNameError] = useState<string | null>(null);
+
+  const hasQuery = query.trim().length > 0 && queryError === null;
+  const isActive = isFilterActive(filter) || hasQuery;
+  const activeView = savedViews.find(view => view.id === activeViewId) ?? null;
+  const canSaveViews = !!onSaveView && !!onDeleteView;
+
+  const tagState = (tagId: string): TagState =>
+    filter.includedTagIds.includes(tagId) ? 'included' : filter.excludedTagIds.includes(tagId) ? 'excluded' : 'off';
+
+  // Clicking a tag cycles it through included, excluded and not filtered
+  const handleTagClick = (tagId: string) => {
+    const includedTagIds = filter.includedTagIds.filter(id => id !== tagId);
+    const excludedTagIds = filter.excludedTagIds.filter(id => id !== tagId);
+    const state = tagState(tagId);
+    if (state === 'off') includedTagIds.push(tagId);
+    if (state === 'included') excludedTagIds.push(tagId);
+    onChange({ ...filter, includedTagIds, excludedTagIds });
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      onChange({ ...filter, text: '' });
+      e.currentTarget.blur();
+    }
+  };
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      onSelectView(null);
+      e.currentTarget.blur();
+    }
+  };
+
+  const closeViewName = () => {
+    setViewName(null);
+    setViewNameError(null);
+  };
+
+  const handleSaveNewView = () => {
+    if (viewName === null || !onSaveView) return;
+    const error = validateViewName(viewName, savedViews);
+    if (error) {
+      setViewNameError(error);
+      return;
+    }
+    onSelectView(onSaveView(viewName, query));
+    closeViewName();
+  };
+
+  const handleViewNameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') handleSaveNewView();
+    if (e.key === 'Escape') closeViewName();
+  };
+
+  const handleClear = () => {
+    onChange(EMPTY_FILTER);
+    onSelectView(null);
+  };
+
+  return (
+    <div className="px-4 pt-4 flex flex-wrap items-center gap-3" role="search">
+      <input
+        ref={searchInputRef}
+        type="search"
+        value={filter.text}
+        onChange={(e) => onChange({ ...filter, text: e.target.value })}
+        onKeyDown={handleSearchKeyDown}
+        placeholder="Search items... (/)"
+        aria-label="Search items"
+        className="w-64 px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+
+      {tagPool.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1" aria-label="Filter by tag" role="group">
+          {tagPool.map(tag => {
+            const state = tagState(tag.id);
+            return (
+              <button
+                key={tag.id}
+                onClick={() => handleTagClick(tag.id)}
+                className={`px-1.5 py-0.5 rounded-full text-xs font-medium border ${
+                  state === 'off' ? 'bg-white text-gray-700 border-gray-300' : 'text-white border-transparent'
+                } ${state === 'excluded' ? 'line-through' : ''}`}
+                style={state === 'off' ? undefined : { backgroundColor: state === 'excluded' ? '#6b7280' : tag.color }}
+                aria-label={`Tag ${tag.name}: ${state === 'off' ? 'not filtered' : state}`}
+                title="Click to require, exclude or ignore this tag"
+              >
+                {state === 'excluded' ? 'not ' : ''}{tag.name}
+              </button>
+            );
+          })}
+          {filter.includedTagIds.length > 1 && (
+            <select
+              value={filter.tagMode}
+              onChange={(e) => onChange({ ...filter, tagMode: e.target.value as TagFilterMode })}
+              aria-label="Tag match mode"
+              className={selectClassName}
+            >
+              <option value="all">All tags</option>
+              <option value="any">Any tag</option>
+            </select>
+          )}
+        </div>
+      )}
+
+      <select
+        value={filter.sourceListId ?? ''}
+        onChange={(e) => onChange({ ...filter, sourceListId: e.target.value === '' ? null : e.target.value })}
+        aria-label="Source list"
+        className={selectClassName}
+      >
+        <option value="">All lists</option>
+        {inputLists.map(list => (
+          <option key={list.id} value={list.id}>{list.name}</option>
+        ))}
+      </select>
+
+      <select
+        value={filter.usage}
+        onChange={(e) => onChange({ ...filter, usage: e.target.value as UsageFilter })}
+        aria-label="Used state"
+        className={selectClassName}
+      >
+        <option value="all">Used and unused</option>
+        <option value="unused">Unused only</option>
+        <option value="used">Used only</option>
+      </select>
+
+      {isActive && (
+        <>
+          <span className="text-sm text-gray-600" aria-live="polite">
+            {hitCounts.input + hitCounts.main} matches ({hitCounts.input} in input lists, {hitCounts.main} in the main list)
+          </span>
+          <button
+            onClick={handleClear}
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            Clear
+          </button>
+          {onSelectMatching && hitCounts.input + hitCounts.main > 0 && (
+            <button
+              onClick={onSelectMatching}
+              className="text-sm text-blue-600 hover:text-blue-700"
+              title="Select the matching items, then click a tag to apply it to all of them"
+            >
+              Select matching
+            </button>
+          )}
+        </>
+      )}
+
+      {/* Saved views and tag query */}
+      <div className="w-full flex flex-wrap items-center gap-2">
+        {savedViews.length > 0 && (
+          <select
+            value={activeView?.id ?? ''}
+            onChange={(e) => onSelectView(e.target.value === '' ? null : e.target.value)}
+            aria-label="Saved view"
+            className={selectClassName}
+          >
+            <option value="">No saved view</option>
+            {savedViews.map(view => (
+              <option key={view.id} value={view.id}>{view.name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleQueryKeyDown}
+          placeholder="Query, e.g. rank<=10 AND NOT source:Backlog"
+          aria-label="Tag query"
+          aria-invalid={queryError !== null}
+          className={`flex-1 min-w-64 px-3 py-1 border rounded-md text-sm font-mono focus:outline-none focus:ring-2 ${
+            queryError ? 'border-red-400 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+          }`}
+        />
+
+        {canSaveViews && viewName === null && (
+          <>
+            {hasQuery && (!activeView || activeView.query !== query.trim()) && (
+              <button onClick={() => setViewName('')} className="text-sm text-blue-600 hover:text-blue-700">
+                Save view
+              </button>
+            )}
+            {activeView && hasQuery && activeView.query !== query.trim() && (
+              <button
+                onClick={() => onSaveView!(activeView.name, query, activeView.id)}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                Update "{activeView.name}"
+              </button>
+            )}
+            {activeView && (
+              <button
+                onClick={() => {
+                  onDeleteView!(activeView.id);
+                  onSelectView(null);
+                }}
+                className="text-sm text-red-600 hover:text-red-700"
+              >
+                Delete view
+              </button>
+            )}
+          </>
+        )}
+
+        {viewName !== null && (
+          <>
+            <input
+              type="text"
+              value={viewName}
+              onChange={(e) => {
+                setViewName(e.target.value);
+                setViewNameError(null);
+              }}
+              onKeyDown={handleViewNameKeyDown}
+              placeholder="View name"
+              aria-label="View name"
+              className="w-40 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+              autoFocus
+            />
+            <button onClick={handleSaveNewView} className="text-sm text-blue-600 hover:text-blue-700">Save</button>
+            <button onClick={closeViewName} className="text-sm text-gray-600 hover:text-gray-700">Cancel</button>
+          </>
+        )}
+      </div>
+
+      {(queryError || viewNameError) && (
+        <p className="w-full text-xs text-red-600" role="alert">
+          {queryError ? `${queryError.message} (at character ${queryError.position + 1})` : viewNameError}
+        </p>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
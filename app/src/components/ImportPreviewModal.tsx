@@ -1,23 +1,279 @@
 import React from 'react';
-import type { ImportResult } from '../utils/fileProcessing';
+import {
+  FileProcessor,
+  type ImportResult,
+  type ImportedListItem,
+  type CSVTable,
+  type CSVColumnMapping,
+  type JSONFieldMapping
+} from '../utils/fileProcessing';
+import { CSV_DELIMITERS, CSV_DELIMITER_LABELS, type CSVDelimiter } from '../utils/csv';
+import { getFieldEntries } from '../utils/customFields';
+import type { CustomField } from '../types/index';
+
+// Rendering thousands of preview rows makes the modal sluggish
+const PREVIEW_LIMIT = 200;
 
 interface ImportPreviewModalProps {
   isOpen: boolean;
-  result: ImportResult<string[]> | null;
+  result: ImportResult<Array<string | ImportedListItem>> | null;
   fileName: string;
+  // Column mapping step, shown for multi-row CSV files
+  csvTable?: CSVTable | null;
+  csvMapping?: CSVColumnMapping | null;
+  onMappingChange?: (mapping: CSVColumnMapping) => void;
+  onDelimiterChange?: (delimiter: CSVDelimiter) => void;
+  // Custom fields of the project, which CSV columns can be mapped to
+  customFields?: CustomField[];
+  // Field picker, shown for JSON documents
+  jsonDocument?: unknown;
+  jsonMapping?: JSONFieldMapping | null;
+  onJSONMappingChange?: (mapping: JSONFieldMapping) => void;
   onConfirm: () => void;
   onCancel: () => void;
 }
 
+interface CSVMappingControlsProps {
+  table: CSVTable;
+  mapping: CSVColumnMapping;
+  customFields: CustomField[];
+  onMappingChange: (mapping: CSVColumnMapping) => void;
+  onDelimiterChange: (delimiter: CSVDelimiter) => void;
+}
+
+const CSVMappingControls: React.FC<CSVMappingControlsProps> = ({
+  table,
+  mapping,
+  customFields,
+  onMappingChange,
+  onDelimiterChange
+}) => {
+  const columnLabels = FileProcessor.getCSVColumnLabels(table, mapping.hasHeader);
+  const optionalFields: Array<{ key: 'tags' | 'notes' | 'url' | 'rank'; label: string }> = [
+    { key: 'tags', label: 'Tags column' },
+    { key: 'notes', label: 'Notes column' },
+    { key: 'url', label: 'Link column' },
+    { key: 'rank', label: 'Rank column' }
+  ];
+
+  const handleFieldColumnChange = (fieldId: string, value: string) => {
+    const fields = { ...mapping.fields };
+    if (value === '') {
+      delete fields[fieldId];
+    } else {
+      fields[fieldId] = Number(value);
+    }
+    onMappingChange({ ...mapping, fields });
+  };
+  const selectClassName = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-700">Delimiter</span>
+          <select
+            value={table.delimiter}
+            onChange={(e) => onDelimiterChange(e.target.value as CSVDelimiter)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {CSV_DELIMITERS.map(delimiter => (
+              <option key={delimiter} value={delimiter}>{CSV_DELIMITER_LABELS[delimiter]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={mapping.hasHeader}
+            onChange={(e) => onMappingChange({ ...mapping, hasHeader: e.target.checked })}
+          />
+          <span className="text-gray-700">First row is a header</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-4 gap-3 text-sm">
+        <label className="block">
+          <span className="block text-gray-700 mb-1">Content column</span>
+          <select
+            value={mapping.content}
+            onChange={(e) => onMappingChange({ ...mapping, content: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {columnLabels.map((label, index) => (
+              <option key={index} value={index}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {optionalFields.map(field => (
+          <label key={field.key} className="block">
+            <span className="block text-gray-700 mb-1">{field.label}</span>
+            <select
+              value={mapping[field.key] ?? ''}
+              onChange={(e) => onMappingChange({
+                ...mapping,
+                [field.key]: e.target.value === '' ? null : Number(e.target.value)
+              })}
+              className={selectClassName}
+            >
+              <option value="">None</option>
+              {columnLabels.map((label, index) => (
+                <option key={index} value={index}>{label}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        {customFields.map(field => (
+          <label key={field.id} className="block">
+            <span className="block text-gray-700 mb-1 truncate">{field.name} column</span>
+            <select
+              value={mapping.fields[field.id] ?? ''}
+              onChange={(e) => handleFieldColumnChange(field.id, e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">None</option>
+              {columnLabels.map((label, index) => (
+                <option key={index} value={index}>{label}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface JSONMappingControlsProps {
+  document: unknown;
+  mapping: JSONFieldMapping;
+  onMappingChange: (mapping: JSONFieldMapping) => void;
+}
+
+const JSONMappingControls: React.FC<JSONMappingControlsProps> = ({
+  document,
+  mapping,
+  onMappingChange
+}) => {
+  const listPaths = FileProcessor.getJSONListPaths(document);
+  const fieldPaths = FileProcessor.getJSONFieldPaths(document, mapping.listPath);
+  const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded text-sm font-mono focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  const handleListChange = (listPath: string) => {
+    // Fields differ between lists, so re-suggest them for the new one
+    onMappingChange(FileProcessor.suggestJSONMapping(document, listPath));
+  };
+
+  return (
+    <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-3">
+      <div className="grid grid-cols-3 gap-3 text-sm">
+        <label className="block">
+          <span className="block text-gray-700 mb-1">List</span>
+          <select
+            value={mapping.listPath}
+            onChange={(e) => handleListChange(e.target.value)}
+            className={inputClassName}
+          >
+            {listPaths.map(({ path, length }) => (
+              <option key={path} value={path}>{path} ({length})</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-gray-700 mb-1">Content field</span>
+          <input
+            type="text"
+            value={mapping.contentPath}
+            onChange={(e) => onMappingChange({ ...mapping, contentPath: e.target.value })}
+            list="json-field-paths"
+            placeholder="(whole item)"
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-gray-700 mb-1">Tags field</span>
+          <input
+            type="text"
+            value={mapping.tagsPath ?? ''}
+            onChange={(e) => onMappingChange({
+              ...mapping,
+              tagsPath: e.target.value.trim() === '' ? null : e.target.value
+            })}
+            list="json-field-paths"
+            placeholder="None"
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      <datalist id="json-field-paths">
+        {fieldPaths.filter(path => path !== '').map(path => (
+          <option key={path} value={path} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+// Preview of a single item; structured imports also show tags, notes, link, custom fields and rank
+const PreviewItem: React.FC<{ item: string | ImportedListItem; customFields: CustomField[] }> = ({
+  item,
+  customFields
+}) => {
+  if (typeof item === 'string') {
+    return <div className="text-sm text-gray-900 break-words">{item}</div>;
+  }
+
+  return (
+    <div className="flex items-start space-x-3">
+      {item.rank !== undefined && (
+        <span className="flex-shrink-0 text-xs font-medium text-blue-700 bg-blue-100 px-1.5 py-0.5 rounded">
+          #{item.rank}
+        </span>
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="text-sm text-gray-900 break-words">{item.content}</div>
+        {item.tags && item.tags.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {item.tags.map(tag => (
+              <span key={tag} className="text-xs text-gray-700 bg-gray-200 px-1.5 py-0.5 rounded">{tag}</span>
+            ))}
+          </div>
+        )}
+        {item.notes && (
+          <div className="mt-1 text-xs text-gray-500 break-words">{item.notes}</div>
+        )}
+        {item.url && (
+          <div className="mt-1 text-xs text-blue-600 break-all">{item.url}</div>
+        )}
+        {getFieldEntries(item.fields, customFields).map(({ field, value }) => (
+          <div key={field.id} className="mt-1 text-xs text-gray-500 break-words">
+            <span className="font-medium text-gray-700">{field.name}:</span> {value}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
   isOpen,
   result,
   fileName,
+  csvTable = null,
+  csvMapping = null,
+  onMappingChange,
+  onDelimiterChange,
+  customFields = [],
+  jsonDocument,
+  jsonMapping = null,
+  onJSONMappingChange,
   onConfirm,
   onCancel
 }) => {
   if (!isOpen || !result) return null;
 
+  const previewItems = result.data?.slice(0, PREVIEW_LIMIT) ?? [];
+  const rankedCount = result.data?.filter(item => typeof item !== 'string' && item.rank !== undefined).length ?? 0;
+
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       onCancel();
@@ -47,6 +303,24 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
           </h2>
         </div>
 
+        {/* Column mapping */}
+        {csvTable && csvMapping && onMappingChange && onDelimiterChange && (
+          <CSVMappingControls
+            table={csvTable}
+            mapping={csvMapping}
+            customFields={customFields}
+            onMappingChange={onMappingChange}
+            onDelimiterChange={onDelimiterChange}
+          />
+        )}
+        {jsonDocument !== undefined && jsonMapping && onJSONMappingChange && (
+          <JSONMappingControls
+            document={jsonDocument}
+            mapping={jsonMapping}
+            onMappingChange={onJSONMappingChange}
+          />
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-hidden flex flex-col">
           {result.success ? (
@@ -54,17 +328,20 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
               {/* Items list */}
               <div className="flex-1 overflow-y-auto px-6 py-4">
                 <div className="space-y-2">
-                  {result.data!.map((item, index) => (
+                  {previewItems.map((item, index) => (
                     <div
                       key={index}
                       className="p-3 border border-gray-200 rounded-md bg-gray-50"
                     >
-                      <div className="text-sm text-gray-900 break-words">
-                        {item}
-                      </div>
+                      <PreviewItem item={item} customFields={customFields} />
                     </div>
                   ))}
                 </div>
+                {result.data!.length > previewItems.length && (
+                  <div className="mt-2 text-sm text-gray-500 text-center">
+                    …and {result.data!.length - previewItems.length} more
+                  </div>
+                )}
               </div>
 
               {/* Status bar */}
@@ -72,6 +349,7 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
                 <div className="flex items-center justify-between text-sm">
                   <div className="text-green-600 font-medium">
                     ✓ {result.itemCount} items ready to import
+                    {rankedCount > 0 && ` (${rankedCount} ranked onto the main list)`}
                   </div>
                   {result.warnings && result.warnings.length > 0 && (
                     <div className="text-amber-600">
@@ -1,10 +1,20 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { useDraggable, useDroppable } from '@dnd-kit/core';
-import type { InputList, InputListItem, Tag } from '../types/index';
-import { TagInput, TagDisplay, AddTagButton } from './shared';
-import { useItemSelection } from './shared/hooks';
+import type { CustomField, InputList, InputListItem, ItemDetails, Tag } from '../types/index';
+import { TagInput, TagDisplay, AddTagButton, ItemDetailsSummary, ItemDetailsEditor, HighlightText, PresenceBadges } from './shared';
+import { useItemSelection, useVirtualList, type ItemPresence } from './shared/hooks';
 import { ImportPreviewModal } from './ImportPreviewModal';
-import { FileProcessor, type ImportResult } from '../utils/fileProcessing';
+import {
+  FileProcessor,
+  type ImportResult,
+  type ImportedListItem,
+  type CSVTable,
+  type CSVColumnMapping,
+  type JSONFieldMapping
+} from '../utils/fileProcessing';
+import type { CSVDelimiter } from '../utils/csv';
+import type { DuplicateReport } from '../utils/duplicateDetection';
+import type { CollabPeer } from '../collab';
 
 
 // Drag data interface
@@ -31,6 +41,7 @@ interface DraggableInputItemProps {
   isSelected: boolean;
   isMultiSelectActive: boolean;
   tagPool: Tag[];
+  customFields: CustomField[];
   onStartEdit: (item: InputListItem) => void;
   onSaveEdit: () => void;
   onCancelEdit: () => void;
@@ -42,6 +53,20 @@ interface DraggableInputItemProps {
   onAddTag: (tagId: string) => void;
   onRemoveTag: (tagId: string) => void;
   onCreateAndAddTag: (name: string, color: string) => void;
+  onEditDetails: (details: ItemDetails) => void;
+  duplicateInfo?: { linkedIds: string[]; suggestedIds: string[] };
+  onShowDuplicates?: () => void;
+  usedIn?: string; // Output list that consumed the item, when there are several
+  position: number; // 1-based place in the list, announced while the list is virtualized
+  listSize: number;
+  isKeyboardFocused: boolean;
+  isPickedUp: boolean;
+  isTagInputRequested: boolean;
+  onTagInputClose?: () => void;
+  isDetailsEditorRequested: boolean;
+  onDetailsEditorClose?: () => void;
+  highlightQuery?: string;
+  peers?: CollabPeer[]; // Collaborators who have the item selected
 }
 
 const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
@@ -52,6 +77,7 @@ const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
   isSelected,
   isMultiSelectActive,
   tagPool,
+  customFields,
   onStartEdit,
   onSaveEdit,
   onCancelEdit,
@@ -62,9 +88,25 @@ const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
   onSelect,
   onAddTag,
   onRemoveTag,
-  onCreateAndAddTag
+  onCreateAndAddTag,
+  onEditDetails,
+  duplicateInfo,
+  onShowDuplicates,
+  usedIn,
+  position,
+  listSize,
+  isKeyboardFocused,
+  isPickedUp,
+  isTagInputRequested,
+  onTagInputClose,
+  isDetailsEditorRequested,
+  onDetailsEditorClose,
+  highlightQuery,
+  peers
 }) => {
   const [showTagInput, setShowTagInput] = useState(false);
+  const [showDetailsEditor, setShowDetailsEditor] = useState(false);
+  const nodeRef = useRef<HTMLElement | null>(null);
 
   const dragData: DragData = {
     type: 'input-item',
@@ -109,16 +151,35 @@ const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
 
   // Combine refs
   const setNodeRef = (node: HTMLElement | null) => {
+    nodeRef.current = node;
     setDropNodeRef(node);
   };
 
+  useEffect(() => {
+    if (isKeyboardFocused) nodeRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [isKeyboardFocused]);
+
+  const handleTagInputClose = () => {
+    setShowTagInput(false);
+    onTagInputClose?.();
+  };
+
+  const handleDetailsEditorClose = () => {
+    setShowDetailsEditor(false);
+    onDetailsEditorClose?.();
+  };
+
   return (
     <div
       ref={setNodeRef}
       style={style}
       onClick={handleClick}
       className={`group relative p-3 border rounded-md cursor-pointer transition-colors ${
-        isSelected
+        isKeyboardFocused ? 'ring-2 ring-blue-400 ring-offset-1' : ''
+      } ${
+        isPickedUp
+          ? 'border-blue-400 bg-blue-50 shadow-lg'
+          : isSelected
           ? 'border-blue-500 bg-blue-50'
           : item.isUsed 
           ? 'border-gray-200 bg-gray-50 text-gray-400' 
@@ -144,22 +205,54 @@ const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
         </div>
       ) : (
         <div className="flex-1 min-w-0">
-          <div className="text-sm font-medium text-gray-900 select-none break-words">
-            {item.content}
+          {/* Only the text is the option; the tag and action buttons beside it must not sit inside it */}
+          <div
+            id={`input-item-${item.id}`}
+            role="option"
+            aria-selected={isSelected}
+            aria-posinset={position}
+            aria-setsize={listSize}
+            className="flex items-center gap-1 min-w-0"
+          >
+            <div className="text-sm font-medium text-gray-900 select-none break-words min-w-0">
+              <HighlightText text={item.content} query={highlightQuery} />
+            </div>
+            <PresenceBadges peers={peers} />
           </div>
           <div className="mt-1 flex flex-wrap gap-1 items-center">
+            {duplicateInfo && duplicateInfo.linkedIds.length > 0 && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onShowDuplicates?.(); }}
+                tabIndex={-1}
+                className="text-xs text-blue-700 bg-blue-50 px-1 rounded"
+                title={`Linked with ${duplicateInfo.linkedIds.length} other item${duplicateInfo.linkedIds.length === 1 ? '' : 's'}`}
+              >
+                🔗 {duplicateInfo.linkedIds.length}
+              </button>
+            )}
+            {duplicateInfo && duplicateInfo.suggestedIds.length > 0 && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onShowDuplicates?.(); }}
+                tabIndex={-1}
+                className="text-xs text-amber-700 bg-amber-50 px-1 rounded"
+                title={`Looks like ${duplicateInfo.suggestedIds.length} other item${duplicateInfo.suggestedIds.length === 1 ? '' : 's'}`}
+              >
+                Possible duplicate
+              </button>
+            )}
             <TagDisplay
               tagIds={item.tags}
               tagPool={tagPool}
               onRemoveTag={onRemoveTag}
+              removeButtonTabIndex={-1}
             />
             {!isMultiSelectActive && (
-              showTagInput ? (
+              showTagInput || isTagInputRequested ? (
                 <TagInput
                   availableTags={tagPool}
                   onAddTag={onAddTag}
                   onCreateAndAddTag={onCreateAndAddTag}
-                  onClose={() => setShowTagInput(false)}
+                  onClose={handleTagInputClose}
                 />
               ) : (
                 <AddTagButton
@@ -168,10 +261,21 @@ const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
                     setShowTagInput(true);
                   }}
                   className="opacity-0 group-hover:opacity-100 transition-opacity"
+                  tabIndex={-1}
                 />
               )
             )}
           </div>
+          {showDetailsEditor || isDetailsEditorRequested ? (
+            <ItemDetailsEditor
+              details={item}
+              customFields={customFields}
+              onSave={onEditDetails}
+              onClose={handleDetailsEditorClose}
+            />
+          ) : (
+            <ItemDetailsSummary details={item} customFields={customFields} />
+          )}
         </div>
       )}
       
@@ -180,6 +284,7 @@ const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
         {!item.isUsed && (
           <button
             onClick={(e) => { e.stopPropagation(); onMoveToMain(item.id); }}
+            tabIndex={-1}
             className="text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 cursor-pointer px-1 py-0.5 rounded transition-colors"
             title="Move to main list"
           >
@@ -188,13 +293,23 @@ const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
         )}
         <button
           onClick={(e) => { e.stopPropagation(); onStartEdit(item); }}
+          tabIndex={-1}
           className="text-xs text-gray-600 hover:text-gray-700 hover:bg-gray-100 cursor-pointer px-1 py-0.5 rounded transition-colors"
           title="Edit item"
         >
           ✏️
         </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); setShowDetailsEditor(true); }}
+          tabIndex={-1}
+          className="text-xs text-gray-600 hover:text-gray-700 hover:bg-gray-100 cursor-pointer px-1 py-0.5 rounded transition-colors"
+          title="Edit notes, link and fields"
+        >
+          📝
+        </button>
         <button
           onClick={(e) => { e.stopPropagation(); onDeleteItem(item.id); }}
+          tabIndex={-1}
           className="text-xs text-red-600 hover:text-red-700 hover:bg-red-50 cursor-pointer px-1 py-0.5 rounded transition-colors"
           title="Delete item"
         >
@@ -208,6 +323,7 @@ const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
             className="flex-shrink-0 cursor-grab active:cursor-grabbing px-1 py-0.5 rounded hover:bg-gray-100 transition-colors"
             {...attributes}
             {...listeners}
+            tabIndex={-1}
             title="Drag to move to main list"
           >
             <div className="w-4 h-4 text-gray-400 hover:text-gray-600">
@@ -221,7 +337,7 @@ const DraggableInputItem: React.FC<DraggableInputItemProps> = ({
       
       {item.isUsed && (
         <div className="absolute top-1 left-1 text-xs text-gray-400 bg-gray-100 px-1 rounded">
-          Used
+          {usedIn ? `Used · ${usedIn}` : 'Used'}
         </div>
       )}
     </div>
@@ -233,9 +349,10 @@ interface InputListPanelProps {
   activeListId: string | null;
   selectedItems: string[];
   tagPool: Tag[];
+  customFields?: CustomField[]; // Project-defined item fields
   onSelectList: (listId: string) => void;
   onAddList: () => void;
-  onImportListItems: (listId: string, items: string[]) => void;
+  onImportListItems: (listId: string, items: Array<string | ImportedListItem>) => void;
   onAddItem: (listId: string, content: string) => void;
   onEditItem: (listId: string, itemId: string, content: string) => void;
   onDeleteItem: (listId: string, itemId: string) => void;
@@ -246,13 +363,32 @@ interface InputListPanelProps {
   onAddTag: (itemIds: string[], tagId: string) => void;
   onRemoveTag: (itemIds: string[], tagId: string) => void;
   onCreateTag: (name: string, color: string) => string | null;
+  onEditItemDetails: (itemId: string, details: ItemDetails) => void;
+  activeDragItemId?: string | null; // Kept mounted while virtualized so the drag source survives scrolling
+  duplicates?: DuplicateReport;
+  onShowDuplicates?: () => void;
+  usedIn?: Map<string, string>; // Output list name per used item ID, when there are several output lists
+  keyboardFocusId?: string | null; // Item with the keyboard focus
+  keyboardPickedUpId?: string | null; // Item being moved into the main list with the keyboard
+  tagInputItemId?: string | null; // Item whose tag input was opened from the keyboard
+  onTagInputClose?: () => void;
+  detailsItemId?: string | null; // Item whose details editor was opened from the keyboard
+  onDetailsClose?: () => void;
+  onListFocus?: () => void; // The item list received the focus
+  hiddenItemIds?: ReadonlySet<string>; // Items the filter bar hides
+  highlightQuery?: string; // Search text to mark in item content
+  presence?: ItemPresence; // Collaborators by the items they have selected
 }
 
+// Estimated height of a single-line item including the gap below it
+const ESTIMATED_ROW_HEIGHT = 72;
+
 export const InputListPanel: React.FC<InputListPanelProps> = ({
   inputLists,
   activeListId,
   selectedItems,
   tagPool,
+  customFields = [],
   onSelectList,
   onAddList,
   onImportListItems,
@@ -265,28 +401,61 @@ export const InputListPanel: React.FC<InputListPanelProps> = ({
   onSelectItem,
   onAddTag,
   onRemoveTag,
-  onCreateTag
+  onCreateTag,
+  onEditItemDetails,
+  activeDragItemId = null,
+  duplicates,
+  onShowDuplicates,
+  usedIn,
+  keyboardFocusId = null,
+  keyboardPickedUpId = null,
+  tagInputItemId = null,
+  onTagInputClose,
+  detailsItemId = null,
+  onDetailsClose,
+  onListFocus,
+  hiddenItemIds,
+  highlightQuery,
+  presence
 }) => {
+  // While filtering, tabs show how many of their items match
+  const tabCount = (list: InputList) => hiddenItemIds
+    ? `${list.items.filter(item => !hiddenItemIds.has(item.id)).length}/${list.items.length}`
+    : `${list.items.length}`;
+
   return (
     <div className="panel h-full flex flex-col">
       <div className="panel-header">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-medium text-gray-900">Input Lists</h2>
-          <button 
-            onClick={onAddList}
-            className="text-sm bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md"
-          >
-            + Add List
-          </button>
+          <div className="flex items-center space-x-3">
+            {onShowDuplicates && duplicates && (duplicates.suggestions.length > 0 || duplicates.links.length > 0) && (
+              <button
+                onClick={onShowDuplicates}
+                className="text-sm text-blue-600 hover:text-blue-700"
+                title="Review likely duplicates across lists"
+              >
+                Duplicates ({duplicates.suggestions.length})
+              </button>
+            )}
+            <button 
+              onClick={onAddList}
+              className="text-sm bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md"
+            >
+              + Add List
+            </button>
+          </div>
         </div>
       </div>
       
-      <div className="flex-1 flex flex-col">
+      <div className="flex-1 min-h-0 flex flex-col">
         {/* Tabs for input lists */}
-        <div className="flex border-b border-gray-200 overflow-x-auto">
+        <div className="flex border-b border-gray-200 overflow-x-auto" role="tablist" aria-label="Input lists">
           {inputLists.map((list) => (
             <button
               key={list.id}
+              role="tab"
+              aria-selected={activeListId === list.id}
               onClick={() => onSelectList(list.id)}
               className={`flex-shrink-0 px-4 py-2 text-sm font-medium whitespace-nowrap border-b-2 ${
                 activeListId === list.id
@@ -294,18 +463,19 @@ export const InputListPanel: React.FC<InputListPanelProps> = ({
                   : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
               }`}
             >
-              {list.name} ({list.items.length})
+              {list.name} ({tabCount(list)})
             </button>
           ))}
         </div>
         
         {/* Active list content */}
-        <div className="flex-1 panel-content">
+        <div className="flex-1 min-h-0 panel-content">
           {activeListId ? (
             <InputListContent 
               list={inputLists.find(l => l.id === activeListId)!}
               selectedItems={selectedItems}
               tagPool={tagPool}
+              customFields={customFields}
               onImport={(items) => onImportListItems(activeListId, items)}
               onAddItem={(content) => onAddItem(activeListId, content)}
               onEditItem={(itemId, content) => onEditItem(activeListId, itemId, content)}
@@ -317,6 +487,21 @@ export const InputListPanel: React.FC<InputListPanelProps> = ({
               onAddTag={onAddTag}
               onRemoveTag={onRemoveTag}
               onCreateTag={onCreateTag}
+              onEditItemDetails={onEditItemDetails}
+              activeDragItemId={activeDragItemId}
+              duplicates={duplicates?.byItem}
+              onShowDuplicates={onShowDuplicates}
+              usedIn={usedIn}
+              keyboardFocusId={keyboardFocusId}
+              keyboardPickedUpId={keyboardPickedUpId}
+              tagInputItemId={tagInputItemId}
+              onTagInputClose={onTagInputClose}
+              detailsItemId={detailsItemId}
+              onDetailsClose={onDetailsClose}
+              onListFocus={onListFocus}
+              hiddenItemIds={hiddenItemIds}
+              highlightQuery={highlightQuery}
+              presence={presence}
             />
           ) : (
             <div className="flex items-center justify-center h-full text-gray-500">
@@ -336,7 +521,8 @@ interface InputListContentProps {
   list: InputList;
   selectedItems: string[];
   tagPool: Tag[];
-  onImport: (items: string[]) => void;
+  customFields: CustomField[];
+  onImport: (items: Array<string | ImportedListItem>) => void;
   onAddItem: (content: string) => void;
   onEditItem: (itemId: string, content: string) => void;
   onDeleteItem: (itemId: string) => void;
@@ -347,12 +533,28 @@ interface InputListContentProps {
   onAddTag: (itemIds: string[], tagId: string) => void;
   onRemoveTag: (itemIds: string[], tagId: string) => void;
   onCreateTag: (name: string, color: string) => string | null;
+  onEditItemDetails: (itemId: string, details: ItemDetails) => void;
+  activeDragItemId: string | null;
+  duplicates?: DuplicateReport['byItem'];
+  onShowDuplicates?: () => void;
+  usedIn?: Map<string, string>;
+  keyboardFocusId: string | null;
+  keyboardPickedUpId: string | null;
+  tagInputItemId: string | null;
+  onTagInputClose?: () => void;
+  detailsItemId: string | null;
+  onDetailsClose?: () => void;
+  onListFocus?: () => void;
+  hiddenItemIds?: ReadonlySet<string>;
+  highlightQuery?: string;
+  presence?: ItemPresence;
 }
 
 const InputListContent: React.FC<InputListContentProps> = ({ 
   list, 
   selectedItems,
   tagPool,
+  customFields,
   onImport,
   onAddItem, 
   onEditItem, 
@@ -363,7 +565,22 @@ const InputListContent: React.FC<InputListContentProps> = ({
   onSelectItem,
   onAddTag,
   onRemoveTag,
-  onCreateTag
+  onCreateTag,
+  onEditItemDetails,
+  activeDragItemId,
+  duplicates,
+  onShowDuplicates,
+  usedIn,
+  keyboardFocusId,
+  keyboardPickedUpId,
+  tagInputItemId,
+  onTagInputClose,
+  detailsItemId,
+  onDetailsClose,
+  onListFocus,
+  hiddenItemIds,
+  highlightQuery,
+  presence
 }) => {
   const [newItemContent, setNewItemContent] = React.useState('');
   const [editingItemId, setEditingItemId] = React.useState<string | null>(null);
@@ -373,10 +590,40 @@ const InputListContent: React.FC<InputListContentProps> = ({
   
   // Import-related state
   const [isImportModalOpen, setIsImportModalOpen] = React.useState(false);
-  const [importResult, setImportResult] = React.useState<ImportResult<string[]> | null>(null);
+  const [importResult, setImportResult] = React.useState<ImportResult<Array<string | ImportedListItem>> | null>(null);
   const [selectedFileName, setSelectedFileName] = React.useState('');
+  // Multi-row CSV files go through a column mapping step
+  const [csvContent, setCsvContent] = React.useState<string | null>(null);
+  const [csvTable, setCsvTable] = React.useState<CSVTable | null>(null);
+  const [csvMapping, setCsvMapping] = React.useState<CSVColumnMapping | null>(null);
+  // JSON documents go through a field picker step
+  const [jsonDocument, setJsonDocument] = React.useState<unknown>(undefined);
+  const [jsonMapping, setJsonMapping] = React.useState<JSONFieldMapping | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const items = useMemo(
+    () => hiddenItemIds ? list.items.filter(item => !hiddenItemIds.has(item.id)) : list.items,
+    [list.items, hiddenItemIds]
+  );
+  const getItemKey = useCallback((index: number) => items[index].id, [items]);
+  const pinnedKeys = useMemo(
+    () => [activeDragItemId, editingItemId].filter((id): id is string => id !== null),
+    [activeDragItemId, editingItemId]
+  );
+  const virtualList = useVirtualList({
+    count: items.length,
+    getItemKey,
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+    pinnedKeys
+  });
+
+  // Keyboard focus can move to rows the virtual list has not mounted
+  const keyboardIndex = items.findIndex(item => item.id === keyboardFocusId);
+  const { scrollToIndex } = virtualList;
+  useEffect(() => {
+    scrollToIndex(keyboardIndex);
+  }, [keyboardIndex, scrollToIndex]);
+
   const handleAddItem = () => {
     if (newItemContent.trim()) {
       onAddItem(newItemContent.trim());
@@ -426,6 +673,70 @@ const InputListContent: React.FC<InputListContentProps> = ({
     }
   };
 
+  const resetCSVImport = () => {
+    setCsvContent(null);
+    setCsvTable(null);
+    setCsvMapping(null);
+  };
+
+  const openCSVImport = (content: string, delimiter?: CSVDelimiter) => {
+    const tableResult = FileProcessor.parseCSVTable(content, delimiter);
+    if (!tableResult.success) {
+      resetCSVImport();
+      setImportResult({ success: false, error: tableResult.error });
+      return;
+    }
+
+    const table = tableResult.data!;
+    if (table.rows.length === 1 && delimiter === undefined) {
+      // A single row is the legacy one-item-per-field format
+      resetCSVImport();
+      setImportResult(FileProcessor.importCSV(content));
+      return;
+    }
+
+    const mapping = FileProcessor.suggestCSVMapping(table, customFields);
+    setCsvContent(content);
+    setCsvTable(table);
+    setCsvMapping(mapping);
+    setImportResult(FileProcessor.applyCSVMapping(table, mapping, { customFields }));
+  };
+
+  const handleMappingChange = (mapping: CSVColumnMapping) => {
+    if (!csvTable) return;
+    setCsvMapping(mapping);
+    setImportResult(FileProcessor.applyCSVMapping(csvTable, mapping, { customFields }));
+  };
+
+  const handleDelimiterChange = (delimiter: CSVDelimiter) => {
+    if (csvContent !== null) openCSVImport(csvContent, delimiter);
+  };
+
+  const resetJSONImport = () => {
+    setJsonDocument(undefined);
+    setJsonMapping(null);
+  };
+
+  const openJSONImport = (content: string) => {
+    const documentResult = FileProcessor.parseJSONDocument(content);
+    if (!documentResult.success) {
+      resetJSONImport();
+      setImportResult({ success: false, error: documentResult.error });
+      return;
+    }
+
+    const mapping = FileProcessor.suggestJSONMapping(documentResult.data);
+    setJsonDocument(documentResult.data);
+    setJsonMapping(mapping);
+    setImportResult(FileProcessor.applyJSONMapping(documentResult.data, mapping));
+  };
+
+  const handleJSONMappingChange = (mapping: JSONFieldMapping) => {
+    if (jsonDocument === undefined) return;
+    setJsonMapping(mapping);
+    setImportResult(FileProcessor.applyJSONMapping(jsonDocument, mapping));
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -442,8 +753,13 @@ const InputListContent: React.FC<InputListContentProps> = ({
       }
 
       // Process the file content
-      const result = FileProcessor.importListContent(content);
-      setImportResult(result);
+      if (/\.csv$/i.test(file.name)) {
+        openCSVImport(content);
+      } else if (/\.json$/i.test(file.name)) {
+        openJSONImport(content);
+      } else {
+        setImportResult(FileProcessor.importListContent(content));
+      }
       setIsImportModalOpen(true);
     };
 
@@ -466,6 +782,8 @@ const InputListContent: React.FC<InputListContentProps> = ({
       setIsImportModalOpen(false);
       setImportResult(null);
       setSelectedFileName('');
+      resetCSVImport();
+      resetJSONImport();
     }
   };
 
@@ -473,8 +791,60 @@ const InputListContent: React.FC<InputListContentProps> = ({
     setIsImportModalOpen(false);
     setImportResult(null);
     setSelectedFileName('');
+    resetCSVImport();
+    resetJSONImport();
   };
 
+  // An item being edited shows an input instead of its option
+  const ownedOptionIds = virtualList.indices
+    .filter(index => items[index].id !== editingItemId)
+    .map(index => `input-item-${items[index].id}`);
+
+  const renderItem = (item: InputListItem, index: number) => (
+    <div key={item.id} ref={virtualList.measureRef} data-virtual-key={item.id} className="pb-2">
+      <DraggableInputItem
+        item={item}
+        listId={list.id}
+        isEditing={editingItemId === item.id}
+        editingContent={editingContent}
+        isSelected={selectedItems.includes(item.id)}
+        isMultiSelectActive={selectedItems.length > 1}
+        tagPool={tagPool}
+        customFields={customFields}
+        onStartEdit={handleStartEdit}
+        onSaveEdit={handleSaveEdit}
+        onCancelEdit={handleCancelEdit}
+        onEditContentChange={setEditingContent}
+        onKeyPress={handleKeyPress}
+        onMoveToMain={onMoveToMain}
+        onDeleteItem={onDeleteItem}
+        onSelect={(isMultiSelect, isShiftSelect) => onSelectItem(item.id, isMultiSelect, isShiftSelect)}
+        onAddTag={(tagId) => onAddTag([item.id], tagId)}
+        onRemoveTag={(tagId) => onRemoveTag([item.id], tagId)}
+        onCreateAndAddTag={(name, color) => {
+          const newTagId = onCreateTag(name, color);
+          if (newTagId) {
+            onAddTag([item.id], newTagId);
+          }
+        }}
+        onEditDetails={(details) => onEditItemDetails(item.id, details)}
+        duplicateInfo={duplicates?.get(item.id)}
+        onShowDuplicates={onShowDuplicates}
+        usedIn={item.isUsed ? usedIn?.get(item.id) : undefined}
+        position={index + 1}
+        listSize={items.length}
+        isKeyboardFocused={keyboardFocusId === item.id}
+        isPickedUp={keyboardPickedUpId === item.id}
+        isTagInputRequested={tagInputItemId === item.id}
+        onTagInputClose={onTagInputClose}
+        isDetailsEditorRequested={detailsItemId === item.id}
+        onDetailsEditorClose={onDetailsClose}
+        highlightQuery={highlightQuery}
+        peers={presence?.get(item.id)}
+      />
+    </div>
+  );
+
   return (
     <div className="h-full flex flex-col">
       {/* Header with list name and actions */}
@@ -540,40 +910,40 @@ const InputListContent: React.FC<InputListContentProps> = ({
       </div>
       
       {/* Items list */}
-      <div className="flex-1 space-y-2 overflow-y-auto">
+      <div ref={virtualList.scrollRef} className="flex-1 min-h-0 overflow-y-auto">
         {list.items.length === 0 ? (
           <div className="text-center text-gray-500 py-8">
             No items in this list yet. Add some above!
           </div>
+        ) : items.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">
+            No items in this list match the filter.
+          </div>
         ) : (
-          list.items.map((item) => (
-            <DraggableInputItem
-              key={item.id}
-              item={item}
-              listId={list.id}
-              isEditing={editingItemId === item.id}
-              editingContent={editingContent}
-              isSelected={selectedItems.includes(item.id)}
-              isMultiSelectActive={selectedItems.length > 1}
-              tagPool={tagPool}
-              onStartEdit={handleStartEdit}
-              onSaveEdit={handleSaveEdit}
-              onCancelEdit={handleCancelEdit}
-              onEditContentChange={setEditingContent}
-              onKeyPress={handleKeyPress}
-              onMoveToMain={onMoveToMain}
-              onDeleteItem={onDeleteItem}
-              onSelect={(isMultiSelect, isShiftSelect) => onSelectItem(item.id, isMultiSelect, isShiftSelect)}
-              onAddTag={(tagId) => onAddTag([item.id], tagId)}
-              onRemoveTag={(tagId) => onRemoveTag([item.id], tagId)}
-              onCreateAndAddTag={(name, color) => {
-                const newTagId = onCreateTag(name, color);
-                if (newTagId) {
-                  onAddTag([item.id], newTagId);
-                }
-              }}
+          <>
+            {/* Owns the options of the rendered rows by ID; the rows themselves follow it */}
+            <div
+              role="listbox"
+              aria-label={`${list.name} items`}
+              aria-multiselectable="true"
+              aria-owns={ownedOptionIds.join(' ')}
+              aria-activedescendant={keyboardFocusId && ownedOptionIds.includes(`input-item-${keyboardFocusId}`) ? `input-item-${keyboardFocusId}` : undefined}
+              tabIndex={0}
+              onFocus={onListFocus}
+              className="focus:outline-none"
             />
-          ))
+
+            {virtualList.paddingTop > 0 && <div style={{ height: virtualList.paddingTop }} />}
+            {virtualList.indices.map(index => renderItem(items[index], index))}
+            {virtualList.paddingBottom > 0 && <div style={{ height: virtualList.paddingBottom }} />}
+
+            {/* Pinned items scrolled out of the window stay mounted but out of view */}
+            {virtualList.detachedIndices.length > 0 && (
+              <div className="h-0 overflow-hidden" aria-hidden="true">
+                {virtualList.detachedIndices.map(index => renderItem(items[index], index))}
+              </div>
+            )}
+          </>
         )}
       </div>
 
@@ -584,6 +954,7 @@ const InputListContent: React.FC<InputListContentProps> = ({
         accept=".txt,.csv,.json"
         onChange={handleFileSelect}
         className="hidden"
+        aria-label="Import file"
       />
 
       {/* Import preview modal */}
@@ -591,6 +962,14 @@ const InputListContent: React.FC<InputListContentProps> = ({
         isOpen={isImportModalOpen}
         result={importResult}
         fileName={selectedFileName}
+        csvTable={csvTable}
+        csvMapping={csvMapping}
+        onMappingChange={handleMappingChange}
+        onDelimiterChange={handleDelimiterChange}
+        customFields={customFields}
+        jsonDocument={jsonDocument}
+        jsonMapping={jsonMapping}
+        onJSONMappingChange={handleJSONMappingChange}
         onConfirm={handleConfirmImport}
         onCancel={handleCancelImport}
       />
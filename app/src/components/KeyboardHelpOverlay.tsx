@@ -0,0 +1,83 @@
+import React, { useEffect, useRef } from 'react';
+import { KEYBOARD_SHORTCUTS } from '../utils/keyboardRanking';
+
+interface KeyboardHelpOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const KeyboardHelpOverlay: React.FC<KeyboardHelpOverlayProps> = ({ isOpen, onClose }) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  // Take the focus so Escape and ? close the overlay right away
+  useEffect(() => {
+    if (isOpen) backdropRef.current?.focus();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' || e.key === '?') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      ref={backdropRef}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">
+            Keyboard Shortcuts
+          </h2>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 text-sm">
+          <p className="text-gray-600 mb-3">
+            Click an item or press ↓ to start. Shortcuts work whenever no text field has the focus.
+          </p>
+          <table className="w-full">
+            <tbody>
+              {KEYBOARD_SHORTCUTS.map(shortcut => (
+                <tr key={shortcut.description} className="border-t border-gray-100">
+                  <td className="py-1.5 pr-4 whitespace-nowrap">
+                    {shortcut.keys.map(key => (
+                      <kbd key={key} className="mr-1 px-1.5 py-0.5 border border-gray-300 rounded bg-gray-50 text-xs text-gray-700">
+                        {key}
+                      </kbd>
+                    ))}
+                  </td>
+                  <td className="py-1.5 text-gray-700">{shortcut.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
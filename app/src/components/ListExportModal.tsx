@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import type { Project, Tag } from '../types/index';
+import { FileProcessor } from '../utils/fileProcessing';
+import { downloadFile } from '../utils/download';
+import {
+  DEFAULT_LIST_EXPORT_OPTIONS,
+  LIST_EXPORT_COLUMN_LABELS,
+  LIST_EXPORT_FORMATS,
+  type ListExportColumn,
+  type ListExportFormat,
+  type ListExportOptions
+} from '../utils/listExport';
+
+interface ListExportModalProps {
+  isOpen: boolean;
+  project: Project;
+  tagPool: Tag[];
+  onClose: () => void;
+}
+
+const OPTIONAL_COLUMNS = Object.keys(LIST_EXPORT_COLUMN_LABELS) as ListExportColumn[];
+
+export const ListExportModal: React.FC<ListExportModalProps> = ({
+  isOpen,
+  project,
+  tagPool,
+  onClose
+}) => {
+  // Tier list projects export their tiers by default, projects with custom fields their field values
+  const [options, setOptions] = useState<ListExportOptions>(() => ({
+    ...DEFAULT_LIST_EXPORT_OPTIONS,
+    columns: [
+      ...DEFAULT_LIST_EXPORT_OPTIONS.columns,
+      ...(project.tiers ? ['tier' as const] : []),
+      ...(project.customFields ? ['fields' as const] : [])
+    ]
+  }));
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const result = useMemo(
+    () => isOpen ? FileProcessor.exportMainList(project, tagPool, options) : null,
+    [isOpen, project, tagPool, options]
+  );
+
+  if (!isOpen || !result) return null;
+
+  const updateOptions = (changes: Partial<ListExportOptions>) => {
+    setOptions(current => ({ ...current, ...changes }));
+    setCopyStatus('idle');
+  };
+
+  const toggleColumn = (column: ListExportColumn) => {
+    updateOptions({
+      columns: options.columns.includes(column)
+        ? options.columns.filter(c => c !== column)
+        : [...options.columns, column]
+    });
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!result.success || !result.data) return;
+    try {
+      await navigator.clipboard.writeText(result.data);
+      setCopyStatus('copied');
+    } catch {
+      setCopyStatus('failed');
+    }
+  };
+
+  const handleDownload = () => {
+    if (result.success && result.data && result.filename && result.mimeType) {
+      downloadFile(result.data, result.filename, result.mimeType);
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">
+            Export Ranked List
+          </h2>
+        </div>
+
+        {/* Options */}
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-3 text-sm">
+          <label className="flex items-center space-x-2">
+            <span className="text-gray-700">Format</span>
+            <select
+              value={options.format}
+              onChange={(e) => updateOptions({ format: e.target.value as ListExportFormat })}
+              className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {LIST_EXPORT_FORMATS.map(({ format, label }) => (
+                <option key={format} value={format}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <fieldset className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <legend className="sr-only">Columns</legend>
+            <span className="text-gray-700">Include</span>
+            {OPTIONAL_COLUMNS.filter(column =>
+              (column !== 'tier' || project.tiers) && (column !== 'fields' || project.customFields)
+            ).map(column => (
+              <label key={column} className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={options.columns.includes(column)}
+                  onChange={() => toggleColumn(column)}
+                />
+                <span className="text-gray-700">{LIST_EXPORT_COLUMN_LABELS[column]}</span>
+              </label>
+            ))}
+            <label className="flex items-center space-x-1">
+              <input
+                type="checkbox"
+                checked={options.includeUnranked}
+                onChange={(e) => updateOptions({ includeUnranked: e.target.checked })}
+              />
+              <span className="text-gray-700">Unranked items</span>
+            </label>
+          </fieldset>
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 overflow-hidden flex flex-col px-6 py-4">
+          {result.success ? (
+            <textarea
+              readOnly
+              value={result.data}
+              aria-label="Export preview"
+              className="flex-1 min-h-[12rem] w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs text-gray-800 bg-gray-50 resize-none"
+            />
+          ) : (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-700">
+              {result.error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <div className="text-sm text-gray-500">
+            {copyStatus === 'copied' && 'Copied to clipboard'}
+            {copyStatus === 'failed' && <span className="text-red-600">Could not copy to clipboard</span>}
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCopy}
+              disabled={!result.success}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Copy
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={!result.success}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Download
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -1,17 +1,30 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useDroppable, useDraggable } from '@dnd-kit/core';
-import type { MainListItem, Tag } from '../types/index';
-import { TagInput, TagDisplay, AddTagButton } from './shared';
-import { useItemSelection } from './shared/hooks';
+import type { CustomField, ItemDetails, MainListItem, Tag, Tier } from '../types/index';
+import { TagInput, TagDisplay, AddTagButton, ItemDetailsSummary, ItemDetailsEditor, HighlightText, PresenceBadges } from './shared';
+import { useItemSelection, useVirtualList, type ItemPresence } from './shared/hooks';
+import { groupByTier, NEW_TIER_COLOR, UNSORTED_TIER_NAME, type TierGroup } from '../utils/tiers';
+import { getDropMarker, type PickedUpItem } from '../utils/keyboardRanking';
+import type { CollabPeer } from '../collab';
 
 
 // Drop data interface
 interface DropData {
-  type: 'main-list-position' | 'main-list-item';
+  type: 'main-list-position' | 'main-list-item' | 'output-list';
   position?: number;
   itemId?: string;
+  tierId?: string | null;
+  listId?: string;
 }
 
+// Tier list mode shows the tiers as one virtualized list: a header row per tier, then its shown items
+type TierRow =
+  | { type: 'header'; group: TierGroup; tierIndex: number; firstPosition: number; isGroupEnd: boolean }
+  | { type: 'item'; group: TierGroup; item: MainListItem; isGroupEnd: boolean };
+
+const getTierRowKey = (row: TierRow): string =>
+  row.type === 'item' ? row.item.id : `tier-${row.group.tier?.id ?? 'unsorted'}`;
+
 // Drag data interface  
 interface DragData {
   type: 'main-item';
@@ -22,18 +35,21 @@ interface DragData {
 // Drop zone component for positioning
 interface DropZoneProps {
   position: number;
+  tierId?: string | null; // Tier list mode: the tier the position belongs to (null: unsorted)
   isFirst?: boolean;
   isLast?: boolean;
 }
 
-const DropZone: React.FC<DropZoneProps> = ({ position, isFirst = false, isLast = false }) => {
+const DropZone: React.FC<DropZoneProps> = ({ position, tierId, isFirst = false, isLast = false }) => {
   const dropData: DropData = {
     type: 'main-list-position',
-    position
+    position,
+    ...(tierId !== undefined ? { tierId } : {})
   };
 
+  // The end of one tier and the start of the next share a position, so tier zones are keyed by tier too
   const { isOver, setNodeRef } = useDroppable({
-    id: `drop-zone-${position}`,
+    id: tierId === undefined ? `drop-zone-${position}` : `drop-zone-${tierId ?? 'unsorted'}-${position}`,
     data: dropData
   });
 
@@ -57,10 +73,114 @@ const DropZone: React.FC<DropZoneProps> = ({ position, isFirst = false, isLast =
   );
 };
 
+// Where a picked up item would land when moved with the keyboard
+const KeyboardDropMarker: React.FC = () => {
+  const markerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    markerRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, []);
+
+  return <div ref={markerRef} className="h-1 my-1 bg-blue-500 rounded-full" data-testid="keyboard-drop-marker" />;
+};
+
+// Tab of one output list; dropping items on it moves them into that list
+interface OutputListTabProps {
+  list: { id: string; name: string; itemCount: number };
+  isActive: boolean;
+  canDelete: boolean;
+  onSelect: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+const OutputListTab: React.FC<OutputListTabProps> = ({ list, isActive, canDelete, onSelect, onRename, onDelete }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [nameInput, setNameInput] = useState(list.name);
+
+  const dropData: DropData = {
+    type: 'output-list',
+    listId: list.id
+  };
+
+  const { isOver, setNodeRef } = useDroppable({
+    id: `output-list-${list.id}`,
+    data: dropData
+  });
+
+  const handleRename = () => {
+    if (nameInput.trim() && nameInput.trim() !== list.name) {
+      onRename(nameInput.trim());
+    }
+    setIsRenaming(false);
+  };
+
+  if (isRenaming) {
+    return (
+      <div className="flex-shrink-0 flex items-center space-x-1 px-2 py-1">
+        <input
+          type="text"
+          value={nameInput}
+          onChange={(e) => setNameInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleRename();
+            else if (e.key === 'Escape') setIsRenaming(false);
+          }}
+          className="text-sm px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          aria-label="Output list name"
+          autoFocus
+        />
+        <button onClick={handleRename} className="text-xs text-blue-600">Save</button>
+        <button onClick={() => setIsRenaming(false)} className="text-xs text-gray-500">Cancel</button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex-shrink-0 flex items-center border-b-2 ${
+        isOver
+          ? 'border-blue-400 bg-blue-50'
+          : isActive
+          ? 'border-blue-500'
+          : 'border-transparent hover:border-gray-300'
+      }`}
+    >
+      <button
+        onClick={() => {
+          if (isActive) {
+            setNameInput(list.name);
+            setIsRenaming(true);
+          } else {
+            onSelect();
+          }
+        }}
+        className={`px-4 py-2 text-sm font-medium whitespace-nowrap ${
+          isActive ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700'
+        }`}
+        title={isActive ? 'Click to rename' : 'Drop items here to move them into this list'}
+      >
+        {list.name} ({list.itemCount})
+      </button>
+      {isActive && canDelete && (
+        <button
+          onClick={onDelete}
+          className="pr-2 text-xs text-gray-400 hover:text-red-600"
+          title="Delete output list (its items become unused)"
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+};
+
 interface MainListPanelProps {
   items: MainListItem[];
   selectedItems: string[];
   tagPool: Tag[];
+  customFields?: CustomField[]; // Project-defined item fields
   onSelectItem: (itemId: string, isMultiSelect: boolean, isShiftSelect?: boolean) => void;
   onRemoveItem: (itemId: string) => void;
   onMoveUp: (itemId: string) => void;
@@ -68,83 +188,596 @@ interface MainListPanelProps {
   onAddTag: (itemIds: string[], tagId: string) => void;
   onRemoveTag: (itemIds: string[], tagId: string) => void;
   onCreateTag: (name: string, color: string) => string | null;
+  onEditItemDetails: (itemId: string, details: ItemDetails) => void;
+  activeDragItemId?: string | null; // Kept mounted while virtualized so the drag source survives scrolling
+  onExport?: () => void;
+  onCompare?: () => void;
+  onMergeAutomatically?: () => void;
+  hasComparisonSession?: boolean; // A saved comparison session can be resumed
+  tiers?: Tier[]; // Set in tier list mode
+  onEnableTiers?: () => void;
+  onDisableTiers?: () => void;
+  onAddTier?: (name: string, color: string) => void;
+  onEditTier?: (tierId: string, name: string, color: string) => void;
+  onDeleteTier?: (tierId: string) => void;
+  onMoveTier?: (tierId: string, index: number) => void;
+  outputLists?: Array<{ id: string; name: string; itemCount: number }>; // Set once the project has several output lists
+  activeOutputListId?: string;
+  onAddOutputList?: () => void;
+  onSwitchOutputList?: (listId: string) => void;
+  onRenameOutputList?: (listId: string, name: string) => void;
+  onDeleteOutputList?: (listId: string) => void;
+  keyboardFocusId?: string | null; // Item with the keyboard focus
+  keyboardPickedUp?: PickedUpItem | null; // Item being moved with the keyboard, from either panel
+  tagInputItemId?: string | null; // Item whose tag input was opened from the keyboard
+  onTagInputClose?: () => void;
+  detailsItemId?: string | null; // Item whose details editor was opened from the keyboard
+  onDetailsClose?: () => void;
+  onListFocus?: () => void; // A ranked list received the focus
+  hiddenItemIds?: ReadonlySet<string>; // Items the filter bar hides; the others keep their positions
+  highlightQuery?: string; // Search text to mark in item content
+  presence?: ItemPresence; // Collaborators by the items they have selected
 }
 
+// Estimated height of an item plus the drop zone that follows it
+const ESTIMATED_ROW_HEIGHT = 76;
+
 export const MainListPanel: React.FC<MainListPanelProps> = ({
   items,
   selectedItems,
   tagPool,
+  customFields = [],
   onSelectItem,
   onRemoveItem,
   onMoveUp,
   onMoveDown,
   onAddTag,
   onRemoveTag,
-  onCreateTag
+  onCreateTag,
+  onEditItemDetails,
+  activeDragItemId = null,
+  onExport,
+  onCompare,
+  onMergeAutomatically,
+  hasComparisonSession = false,
+  tiers,
+  onEnableTiers,
+  onDisableTiers,
+  onAddTier,
+  onEditTier,
+  onDeleteTier,
+  onMoveTier,
+  outputLists,
+  activeOutputListId,
+  onAddOutputList,
+  onSwitchOutputList,
+  onRenameOutputList,
+  onDeleteOutputList,
+  keyboardFocusId = null,
+  keyboardPickedUp = null,
+  tagInputItemId = null,
+  onTagInputClose,
+  detailsItemId = null,
+  onDetailsClose,
+  onListFocus,
+  hiddenItemIds,
+  highlightQuery,
+  presence
 }) => {
+  const [newTierName, setNewTierName] = useState('');
+  const sortedItems = useMemo(() => [...items].sort((a, b) => a.order - b.order), [items]);
+  // Filtering hides rows without renumbering them; drop zones keep using the items' own orders
+  const isShown = useCallback((item: MainListItem) => !hiddenItemIds?.has(item.id), [hiddenItemIds]);
+  const visibleItems = useMemo(
+    () => hiddenItemIds ? sortedItems.filter(isShown) : sortedItems,
+    [sortedItems, hiddenItemIds, isShown]
+  );
+  const tierRows = useMemo(() => {
+    const rows: TierRow[] = [];
+    if (!tiers) return rows;
+    let firstPosition = 1;
+    groupByTier(items, tiers).forEach((group, tierIndex) => {
+      const shownItems = group.items.filter(isShown);
+      rows.push({ type: 'header', group, tierIndex, firstPosition, isGroupEnd: shownItems.length === 0 });
+      shownItems.forEach((item, index) => {
+        rows.push({ type: 'item', group, item, isGroupEnd: index === shownItems.length - 1 });
+      });
+      firstPosition += group.items.length;
+    });
+    return rows;
+  }, [items, tiers, isShown]);
+
+  const getItemKey = useCallback(
+    (index: number) => tiers ? getTierRowKey(tierRows[index]) : visibleItems[index].id,
+    [tiers, tierRows, visibleItems]
+  );
+  const pinnedKeys = useMemo(() => activeDragItemId ? [activeDragItemId] : [], [activeDragItemId]);
+  const virtualList = useVirtualList({
+    count: tiers ? tierRows.length : visibleItems.length,
+    getItemKey,
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+    pinnedKeys
+  });
+
+  // Keyboard moves can target rows the virtual list has not mounted
+  const pickedUpPosition = keyboardPickedUp?.panel === 'main'
+    ? sortedItems.find(item => item.id === keyboardPickedUp.itemId)?.order ?? null
+    : null;
+  const keyboardOrder = keyboardPickedUp
+    ? Math.min(keyboardPickedUp.position, sortedItems.length)
+    : sortedItems.find(item => item.id === keyboardFocusId)?.order;
+  const keyboardIndex = keyboardOrder === undefined ? -1 : tiers
+    ? tierRows.findIndex(row => row.type === 'item' && row.item.order >= keyboardOrder)
+    : visibleItems.findIndex(item => item.order >= keyboardOrder);
+  const { scrollToIndex } = virtualList;
+  useEffect(() => {
+    scrollToIndex(keyboardIndex);
+  }, [keyboardIndex, scrollToIndex]);
+
+  // The listbox owns the rendered items' options by ID rather than containing the rows, so the
+  // buttons in each row are not nested inside the list's interactive structure
+  const renderListbox = (label: string, ownedItems: MainListItem[]) => (
+    <div
+      role="listbox"
+      aria-label={label}
+      aria-multiselectable="true"
+      aria-owns={ownedItems.map(item => `main-item-${item.id}`).join(' ')}
+      aria-activedescendant={ownedItems.some(item => item.id === keyboardFocusId) ? `main-item-${keyboardFocusId}` : undefined}
+      tabIndex={0}
+      onFocus={onListFocus}
+      className="focus:outline-none"
+    />
+  );
+
+  const renderItem = (item: MainListItem, canMoveUp: boolean, canMoveDown: boolean) => {
+    const dropMarker = keyboardPickedUp ? getDropMarker(item.order, keyboardPickedUp, pickedUpPosition) : null;
+    return (
+      <>
+        {dropMarker === 'before' && <KeyboardDropMarker />}
+        {renderDraggableItem(item, canMoveUp, canMoveDown)}
+        {dropMarker === 'after' && <KeyboardDropMarker />}
+      </>
+    );
+  };
+
+  const renderDraggableItem = (item: MainListItem, canMoveUp: boolean, canMoveDown: boolean) => (
+    <DraggableMainListItem
+      item={item}
+      index={item.order}
+      tagPool={tagPool}
+      customFields={customFields}
+      isSelected={selectedItems.includes(item.id)}
+      isMultiSelectActive={selectedItems.length > 1}
+      onSelect={(isMultiSelect, isShiftSelect) => onSelectItem(item.id, isMultiSelect, isShiftSelect)}
+      onRemove={() => onRemoveItem(item.id)}
+      onMoveUp={() => onMoveUp(item.id)}
+      onMoveDown={() => onMoveDown(item.id)}
+      onAddTag={(tagId) => onAddTag([item.id], tagId)}
+      onRemoveTag={(tagId) => onRemoveTag([item.id], tagId)}
+      onCreateAndAddTag={(name, color) => {
+        const newTagId = onCreateTag(name, color);
+        if (newTagId) {
+          onAddTag([item.id], newTagId);
+        }
+      }}
+      onEditDetails={(details) => onEditItemDetails(item.id, details)}
+      canMoveUp={canMoveUp}
+      canMoveDown={canMoveDown}
+      listSize={items.length}
+      isKeyboardFocused={keyboardFocusId === item.id}
+      isPickedUp={keyboardPickedUp?.itemId === item.id}
+      isTagInputRequested={tagInputItemId === item.id}
+      onTagInputClose={onTagInputClose}
+      isDetailsEditorRequested={detailsItemId === item.id}
+      onDetailsEditorClose={onDetailsClose}
+      highlightQuery={highlightQuery}
+      peers={presence?.get(item.id)}
+    />
+  );
+
+  const renderRow = (item: MainListItem, index: number) => (
+    // Each row carries the drop zone after its item so positions survive virtualization
+    <div key={item.id} ref={virtualList.measureRef} data-virtual-key={item.id} className="pt-1 space-y-1">
+      {renderItem(item, item.order > 1, item.order < sortedItems.length)}
+      {/* Drop zone after each item */}
+      <DropZone
+        position={item.order + 1}
+        isLast={index === visibleItems.length - 1}
+      />
+    </div>
+  );
+
+  // Tier list mode: positions stay global, so a tier's zones sit between its neighbours' orders
+  const renderTierRow = (row: TierRow) => {
+    const { group } = row;
+    const tierId = group.tier?.id ?? null;
+    const tierStyle = group.tier ? { borderLeft: `4px solid ${group.tier.color}` } : undefined;
+    // Rows draw their tier's frame themselves, so measured row heights add up to the list height
+    const groupEnd = row.isGroupEnd ? ' border-b rounded-b-md pb-1' : '';
+
+    if (row.type === 'item') {
+      const { item } = row;
+      return (
+        <div
+          key={item.id}
+          ref={virtualList.measureRef}
+          data-virtual-key={item.id}
+          className={`px-2 space-y-1 border-x border-gray-200${groupEnd}`}
+          style={tierStyle}
+        >
+          {renderItem(item, item !== group.items[0], item !== group.items[group.items.length - 1])}
+          <DropZone position={item.order + 1} tierId={tierId} />
+        </div>
+      );
+    }
+
+    const key = getTierRowKey(row);
+    return (
+      <div key={key} ref={virtualList.measureRef} data-virtual-key={key} className={row.tierIndex > 0 ? 'pt-3' : undefined}>
+        <div className={`border-t border-x border-gray-200 rounded-t-md${groupEnd}`} style={tierStyle}>
+          {group.tier ? (
+            <TierHeader
+              tier={group.tier}
+              itemCount={group.items.length}
+              canMoveUp={row.tierIndex > 0}
+              canMoveDown={row.tierIndex < tiers!.length - 1}
+              onEdit={(name, color) => onEditTier?.(group.tier!.id, name, color)}
+              onDelete={() => onDeleteTier?.(group.tier!.id)}
+              onMoveUp={() => onMoveTier?.(group.tier!.id, row.tierIndex - 1)}
+              onMoveDown={() => onMoveTier?.(group.tier!.id, row.tierIndex + 1)}
+            />
+          ) : (
+            <div className="px-3 py-2 flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-500">{UNSORTED_TIER_NAME}</span>
+              <span className="text-xs text-gray-500">{group.items.length}</span>
+            </div>
+          )}
+          <div className="px-2">
+            <DropZone position={row.firstPosition} tierId={tierId} isFirst={group.items.length === 0} />
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Rendered rows of one tier share a section, so each tier stays a labelled region with its own listbox
+  const renderTierSections = (indices: number[]) => {
+    const runs: TierRow[][] = [];
+    indices.forEach(index => {
+      const row = tierRows[index];
+      const run = runs[runs.length - 1];
+      if (run && run[0].group === row.group) {
+        run.push(row);
+      } else {
+        runs.push([row]);
+      }
+    });
+
+    return runs.map(run => {
+      const { group } = run[0];
+      const name = group.tier?.name ?? UNSORTED_TIER_NAME;
+      const itemRows = run.filter(row => row.type === 'item');
+      return (
+        <section key={group.tier?.id ?? 'unsorted'} aria-label={name}>
+          {run[0].type === 'header' && renderTierRow(run[0])}
+          {itemRows.length > 0 && renderListbox(`${name} items`, itemRows.map(row => row.item))}
+          {itemRows.map(renderTierRow)}
+        </section>
+      );
+    });
+  };
+
+  const renderTiers = () => (
+    <div ref={virtualList.scrollRef} className="flex-1 min-h-0 overflow-y-auto">
+      {virtualList.paddingTop > 0 && <div style={{ height: virtualList.paddingTop }} />}
+      {renderTierSections(virtualList.indices)}
+      {virtualList.paddingBottom > 0 && <div style={{ height: virtualList.paddingBottom }} />}
+
+      {/* Pinned rows scrolled out of the window stay mounted but out of view */}
+      {virtualList.detachedIndices.length > 0 && (
+        <div className="h-0 overflow-hidden" aria-hidden="true">
+          {virtualList.detachedIndices.map(index => renderTierRow(tierRows[index]))}
+        </div>
+      )}
+
+      {onAddTier && (
+        <form
+          className="mt-3 flex items-center space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newTierName.trim()) {
+              onAddTier(newTierName.trim(), NEW_TIER_COLOR);
+              setNewTierName('');
+            }
+          }}
+        >
+          <input
+            type="text"
+            value={newTierName}
+            onChange={(e) => setNewTierName(e.target.value)}
+            placeholder="New tier name..."
+            className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!newTierName.trim()}
+            className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            + Add Tier
+          </button>
+        </form>
+      )}
+    </div>
+  );
+
   return (
     <div className="panel h-full flex flex-col">
       <div className="panel-header">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-medium text-gray-900">Main Ranked List</h2>
-          <div className="text-sm text-gray-500">
-            {items.length} items
+          <div className="flex items-center space-x-3">
+            <div className="text-sm text-gray-500">
+              {hiddenItemIds ? `${visibleItems.length} of ${items.length}` : items.length} items
+            </div>
+            {onAddOutputList && (
+              <button
+                onClick={onAddOutputList}
+                className="text-sm text-blue-600 hover:text-blue-700"
+                title="Add another output list ranked from the same input lists"
+              >
+                + New List
+              </button>
+            )}
+            {tiers ? (
+              onDisableTiers && (
+                <button
+                  onClick={onDisableTiers}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                  title="Show one linear ranking again; the order through the tiers is kept"
+                >
+                  Linear
+                </button>
+              )
+            ) : (
+              onEnableTiers && (
+                <button
+                  onClick={onEnableTiers}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                  title="Sort the ranking into S/A/B/C tiers"
+                >
+                  Tiers
+                </button>
+              )
+            )}
+            {onMergeAutomatically && (
+              <button
+                onClick={onMergeAutomatically}
+                className="text-sm text-blue-600 hover:text-blue-700"
+                title="Merge the input lists into one ranking by treating their order as votes"
+              >
+                Auto-Merge
+              </button>
+            )}
+            {onCompare && (
+              <button
+                onClick={onCompare}
+                className="text-sm text-blue-600 hover:text-blue-700"
+                title="Rank items by comparing them in pairs"
+              >
+                {hasComparisonSession ? 'Resume Compare' : 'Compare'}
+              </button>
+            )}
+            {onExport && (
+              <button
+                onClick={onExport}
+                disabled={items.length === 0}
+                className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+                title="Export the ranked list"
+              >
+                Export
+              </button>
+            )}
           </div>
         </div>
       </div>
       
-      <div className="flex-1 panel-content">
-        {/* General drop zone for empty list */}
-        {items.length === 0 && (
-          <DropZone position={1} isFirst={true} />
-        )}
-        
-        {/* Main list items with drop zones */}
-        <div className="overflow-y-auto">
-          {items.length === 0 ? (
-            <div className="text-center text-gray-500 py-8">
-              Your ranked list is empty. Drag items from the input lists to get started.
-            </div>
-          ) : (
-            <div className="space-y-1">
-              {/* Drop zone at the beginning */}
+      {/* Tabs for output lists */}
+      {outputLists && (
+        <div className="flex border-b border-gray-200 overflow-x-auto">
+          {outputLists.map(list => (
+            <OutputListTab
+              key={list.id}
+              list={list}
+              isActive={list.id === activeOutputListId}
+              canDelete={outputLists.length > 1}
+              onSelect={() => onSwitchOutputList?.(list.id)}
+              onRename={(name) => onRenameOutputList?.(list.id, name)}
+              onDelete={() => onDeleteOutputList?.(list.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 panel-content min-h-0 flex flex-col">
+        {tiers ? renderTiers() : (
+          <>
+            {/* General drop zone for empty list */}
+            {items.length === 0 && (
               <DropZone position={1} isFirst={true} />
+            )}
+        
+            {/* Main list items with drop zones */}
+            <div ref={virtualList.scrollRef} className="flex-1 min-h-0 overflow-y-auto">
+              {items.length === 0 ? (
+                <>
+                  {keyboardPickedUp && <KeyboardDropMarker />}
+                  <div className="text-center text-gray-500 py-8">
+                    Your ranked list is empty. Drag items from the input lists to get started.
+                  </div>
+                </>
+              ) : visibleItems.length === 0 ? (
+                <>
+                  <div className="text-center text-gray-500 py-8">
+                    No items in the main list match the filter.
+                  </div>
+                  <DropZone position={items.length + 1} isLast={true} />
+                </>
+              ) : (
+                <>
+                  {renderListbox('Main ranked list', virtualList.indices.map(index => visibleItems[index]))}
+
+                  {/* Drop zone at the beginning */}
+                  <DropZone position={visibleItems[0].order} isFirst={true} />
               
-              {items
-                .sort((a, b) => a.order - b.order)
-                .map((item, index) => (
-                  <React.Fragment key={item.id}>
-                    <DraggableMainListItem
-                      item={item}
-                      index={index + 1}
-                      tagPool={tagPool}
-                      isSelected={selectedItems.includes(item.id)}
-                      isMultiSelectActive={selectedItems.length > 1}
-                      onSelect={(isMultiSelect, isShiftSelect) => onSelectItem(item.id, isMultiSelect, isShiftSelect)}
-                      onRemove={() => onRemoveItem(item.id)}
-                      onMoveUp={() => onMoveUp(item.id)}
-                      onMoveDown={() => onMoveDown(item.id)}
-                      onAddTag={(tagId) => onAddTag([item.id], tagId)}
-                      onRemoveTag={(tagId) => onRemoveTag([item.id], tagId)}
-                      onCreateAndAddTag={(name, color) => {
-                        const newTagId = onCreateTag(name, color);
-                        if (newTagId) {
-                          onAddTag([item.id], newTagId);
-                        }
-                      }}
-                      canMoveUp={index > 0}
-                      canMoveDown={index < items.length - 1}
-                    />
-                    {/* Drop zone after each item */}
-                    <DropZone 
-                      position={index + 2} 
-                      isLast={index === items.length - 1}
-                    />
-                  </React.Fragment>
-                ))
-              }
+                  {virtualList.paddingTop > 0 && <div style={{ height: virtualList.paddingTop }} />}
+                  {virtualList.indices.map(index => renderRow(visibleItems[index], index))}
+                  {virtualList.paddingBottom > 0 && <div style={{ height: virtualList.paddingBottom }} />}
+
+                  {/* Pinned rows scrolled out of the window stay mounted but out of view */}
+                  {virtualList.detachedIndices.length > 0 && (
+                    <div className="h-0 overflow-hidden" aria-hidden="true">
+                      {virtualList.detachedIndices.map(index => renderRow(visibleItems[index], index))}
+                    </div>
+                  )}
+                </>
+              )}
             </div>
-          )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface TierHeaderProps {
+  tier: Tier;
+  itemCount: number;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onEdit: (name: string, color: string) => void;
+  onDelete: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+}
+
+const TierHeader: React.FC<TierHeaderProps> = ({
+  tier,
+  itemCount,
+  canMoveUp,
+  canMoveDown,
+  onEdit,
+  onDelete,
+  onMoveUp,
+  onMoveDown
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editName, setEditName] = useState(tier.name);
+  const [editColor, setEditColor] = useState(tier.color);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Focus input when entering edit mode
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const handleStartEdit = () => {
+    setIsEditing(true);
+    setEditName(tier.name);
+    setEditColor(tier.color);
+  };
+
+  const handleSaveEdit = () => {
+    if (editName.trim()) {
+      onEdit(editName.trim(), editColor);
+      setIsEditing(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSaveEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="px-3 py-2 flex items-center space-x-2">
+        <input
+          type="color"
+          value={editColor}
+          onChange={(e) => setEditColor(e.target.value)}
+          className="w-8 h-8 rounded border border-gray-300"
+          title="Tier color"
+        />
+        <input
+          ref={inputRef}
+          type="text"
+          value={editName}
+          onChange={(e) => setEditName(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Tier name"
+        />
+        <button onClick={() => setIsEditing(false)} className="text-sm text-gray-600 hover:text-gray-700">
+          Cancel
+        </button>
+        <button
+          onClick={handleSaveEdit}
+          disabled={!editName.trim()}
+          className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+        >
+          Save
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group px-3 py-2 flex items-center justify-between">
+      <button
+        onClick={handleStartEdit}
+        className="flex items-center space-x-2 min-w-0"
+        title="Rename tier"
+      >
+        <span
+          className="w-7 h-7 flex-shrink-0 rounded flex items-center justify-center text-sm font-bold text-white"
+          style={{ backgroundColor: tier.color }}
+        >
+          {tier.name.slice(0, 2)}
+        </span>
+        <span className="text-sm font-medium text-gray-900 truncate">{tier.name}</span>
+      </button>
+      <div className="flex items-center space-x-1">
+        <span className="text-xs text-gray-500 mr-1">{itemCount}</span>
+        <div className="opacity-0 group-hover:opacity-100 flex items-center space-x-1">
+          <button
+            onClick={onMoveUp}
+            disabled={!canMoveUp}
+            className="w-6 h-6 text-xs text-gray-600 hover:text-blue-600 disabled:text-gray-300 disabled:cursor-not-allowed"
+            title="Move tier up"
+          >
+            ↑
+          </button>
+          <button
+            onClick={onMoveDown}
+            disabled={!canMoveDown}
+            className="w-6 h-6 text-xs text-gray-600 hover:text-blue-600 disabled:text-gray-300 disabled:cursor-not-allowed"
+            title="Move tier down"
+          >
+            ↓
+          </button>
+          <button
+            onClick={onDelete}
+            className="w-6 h-6 text-xs text-red-600 hover:text-red-700"
+            title="Delete tier (its items become unsorted)"
+          >
+            🗑️
+          </button>
         </div>
       </div>
     </div>
@@ -155,6 +788,7 @@ interface MainListItemProps {
   item: MainListItem;
   index: number;
   tagPool: Tag[];
+  customFields: CustomField[];
   isSelected: boolean;
   isMultiSelectActive: boolean;
   onSelect: (isMultiSelect: boolean, isShiftSelect?: boolean) => void;
@@ -164,14 +798,25 @@ interface MainListItemProps {
   onAddTag: (tagId: string) => void;
   onRemoveTag: (tagId: string) => void;
   onCreateAndAddTag: (name: string, color: string) => void;
+  onEditDetails: (details: ItemDetails) => void;
   canMoveUp: boolean;
   canMoveDown: boolean;
+  listSize: number;
+  isKeyboardFocused: boolean;
+  isPickedUp: boolean;
+  isTagInputRequested: boolean;
+  onTagInputClose?: () => void;
+  isDetailsEditorRequested: boolean;
+  onDetailsEditorClose?: () => void;
+  highlightQuery?: string;
+  peers?: CollabPeer[]; // Collaborators who have the item selected
 }
 
 const DraggableMainListItem: React.FC<MainListItemProps> = ({
   item,
   index,
   tagPool,
+  customFields,
   isSelected,
   isMultiSelectActive,
   onSelect,
@@ -181,10 +826,22 @@ const DraggableMainListItem: React.FC<MainListItemProps> = ({
   onAddTag,
   onRemoveTag,
   onCreateAndAddTag,
+  onEditDetails,
   canMoveUp,
-  canMoveDown
+  canMoveDown,
+  listSize,
+  isKeyboardFocused,
+  isPickedUp,
+  isTagInputRequested,
+  onTagInputClose,
+  isDetailsEditorRequested,
+  onDetailsEditorClose,
+  highlightQuery,
+  peers
 }) => {
   const [showTagInput, setShowTagInput] = useState(false);
+  const [showDetailsEditor, setShowDetailsEditor] = useState(false);
+  const nodeRef = useRef<HTMLElement | null>(null);
   
   const dragData: DragData = {
     type: 'main-item',
@@ -224,17 +881,36 @@ const DraggableMainListItem: React.FC<MainListItemProps> = ({
 
   // Combine refs
   const setNodeRef = (node: HTMLElement | null) => {
+    nodeRef.current = node;
     setDragNodeRef(node);
     setDropNodeRef(node);
   };
 
+  useEffect(() => {
+    if (isKeyboardFocused) nodeRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [isKeyboardFocused]);
+
+  const handleTagInputClose = () => {
+    setShowTagInput(false);
+    onTagInputClose?.();
+  };
+
+  const handleDetailsEditorClose = () => {
+    setShowDetailsEditor(false);
+    onDetailsEditorClose?.();
+  };
+
   return (
     <div
       ref={setNodeRef}
       style={style}
       onClick={handleClick}
       className={`group relative p-3 border rounded-md cursor-pointer transition-colors ${
-        isSelected
+        isKeyboardFocused ? 'ring-2 ring-blue-400 ring-offset-1' : ''
+      } ${
+        isPickedUp
+          ? 'border-blue-400 bg-blue-50 shadow-lg'
+          : isSelected
           ? 'border-blue-500 bg-blue-50'
           : isDragging
           ? 'border-blue-300 bg-blue-50'
@@ -248,22 +924,34 @@ const DraggableMainListItem: React.FC<MainListItemProps> = ({
           {index}
         </div>
         <div className="flex-1 min-w-0">
-          <div className="text-sm font-medium text-gray-900 truncate select-none">
-            {item.content}
+          {/* The option holds the item's text only; the listbox owns it by ID, so the controls around it stay outside */}
+          <div
+            id={`main-item-${item.id}`}
+            role="option"
+            aria-selected={isSelected}
+            aria-posinset={index}
+            aria-setsize={listSize}
+            className="flex items-center gap-1 min-w-0"
+          >
+            <div className="min-w-0 text-sm font-medium text-gray-900 truncate select-none">
+              <HighlightText text={item.content} query={highlightQuery} />
+            </div>
+            <PresenceBadges peers={peers} />
           </div>
           <div className="mt-1 flex flex-wrap gap-1 items-center">
             <TagDisplay
               tagIds={item.tags}
               tagPool={tagPool}
               onRemoveTag={onRemoveTag}
+              removeButtonTabIndex={-1}
             />
             {!isMultiSelectActive && (
-              showTagInput ? (
+              showTagInput || isTagInputRequested ? (
                 <TagInput
                   availableTags={tagPool}
                   onAddTag={onAddTag}
                   onCreateAndAddTag={onCreateAndAddTag}
-                  onClose={() => setShowTagInput(false)}
+                  onClose={handleTagInputClose}
                 />
               ) : (
                 <AddTagButton
@@ -272,10 +960,21 @@ const DraggableMainListItem: React.FC<MainListItemProps> = ({
                     setShowTagInput(true);
                   }}
                   className="opacity-0 group-hover:opacity-100 transition-opacity"
+                  tabIndex={-1}
                 />
               )
             )}
           </div>
+          {showDetailsEditor || isDetailsEditorRequested ? (
+            <ItemDetailsEditor
+              details={item}
+              customFields={customFields}
+              onSave={onEditDetails}
+              onClose={handleDetailsEditorClose}
+            />
+          ) : (
+            <ItemDetailsSummary details={item} customFields={customFields} />
+          )}
         </div>
         
         {/* Action buttons */}
@@ -284,6 +983,7 @@ const DraggableMainListItem: React.FC<MainListItemProps> = ({
             <button
               onClick={(e) => { e.stopPropagation(); onMoveUp(); }}
               disabled={!canMoveUp}
+              tabIndex={-1}
               className={`w-6 h-4 flex items-center justify-center text-xs ${
                 canMoveUp 
                   ? 'text-gray-600 hover:text-blue-600' 
@@ -296,6 +996,7 @@ const DraggableMainListItem: React.FC<MainListItemProps> = ({
             <button
               onClick={(e) => { e.stopPropagation(); onMoveDown(); }}
               disabled={!canMoveDown}
+              tabIndex={-1}
               className={`w-6 h-4 flex items-center justify-center text-xs ${
                 canMoveDown 
                   ? 'text-gray-600 hover:text-blue-600' 
@@ -306,8 +1007,17 @@ const DraggableMainListItem: React.FC<MainListItemProps> = ({
               ↓
             </button>
           </div>
+          <button
+            onClick={(e) => { e.stopPropagation(); setShowDetailsEditor(true); }}
+            tabIndex={-1}
+            className="w-6 h-6 flex items-center justify-center text-xs text-gray-600 hover:text-gray-700"
+            title="Edit notes, link and fields"
+          >
+            📝
+          </button>
           <button
             onClick={(e) => { e.stopPropagation(); onRemove(); }}
+            tabIndex={-1}
             className="w-6 h-6 flex items-center justify-center text-xs text-red-600 hover:text-red-700"
             title="Remove from list"
           >
@@ -320,6 +1030,8 @@ const DraggableMainListItem: React.FC<MainListItemProps> = ({
           className="flex-shrink-0 cursor-grab active:cursor-grabbing"
           {...attributes}
           {...listeners}
+          tabIndex={-1}
+          title="Drag to reorder"
         >
           <div className="w-4 h-4 text-gray-400 hover:text-gray-600">
             <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
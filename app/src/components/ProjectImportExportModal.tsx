@@ -1,13 +1,17 @@
 import React, { useState, useRef } from 'react';
 import type { Project, Tag } from '../types/index';
 import { FileProcessor, type ImportResult } from '../utils/fileProcessing';
+import { mergeImportedTags, type TagMergeResult } from '../utils/tagMerge';
+import { downloadFile } from '../utils/download';
+import { createShareLink, type ShareLinkResult } from '../utils/shareLink';
+import { ProjectImportPreview } from './ProjectImportPreview';
 
 interface ProjectImportExportModalProps {
   isOpen: boolean;
   currentProject: Project | null;
   tagPool: Tag[];
   onClose: () => void;
-  onImportProject: (project: Project) => void;
+  onImportProject: (project: Project, tagPool: Tag[]) => void;
 }
 
 export const ProjectImportExportModal: React.FC<ProjectImportExportModalProps> = ({
@@ -18,7 +22,11 @@ export const ProjectImportExportModal: React.FC<ProjectImportExportModalProps> =
   onImportProject
 }) => {
   const [importResult, setImportResult] = useState<ImportResult<Project> | null>(null);
+  const [tagMerge, setTagMerge] = useState<TagMergeResult | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [shareLink, setShareLink] = useState<ShareLinkResult | null>(null);
+  const [shareCopyFailed, setShareCopyFailed] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   if (!isOpen) return null;
@@ -41,17 +49,7 @@ export const ProjectImportExportModal: React.FC<ProjectImportExportModalProps> =
     const result = FileProcessor.exportProjectJSON(currentProject, tagPool);
     
     if (result.success && result.data && result.filename) {
-      // Create download
-      const blob = new Blob([result.data], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = result.filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
+      downloadFile(result.data, result.filename, 'application/json');
       onClose();
     } else {
       // Show error
@@ -62,6 +60,25 @@ export const ProjectImportExportModal: React.FC<ProjectImportExportModalProps> =
     }
   };
 
+  const handleCopyShareLink = async () => {
+    if (!currentProject) return;
+
+    setIsSharing(true);
+    const result = await createShareLink(currentProject, tagPool, window.location.href);
+    let copied = false;
+    if (result.success && result.url) {
+      try {
+        await navigator.clipboard.writeText(result.url);
+        copied = true;
+      } catch {
+        // Shown for copying by hand instead
+      }
+    }
+    setShareLink(result);
+    setShareCopyFailed(result.success && !copied);
+    setIsSharing(false);
+  };
+
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
@@ -72,11 +89,16 @@ export const ProjectImportExportModal: React.FC<ProjectImportExportModalProps> =
 
     setIsProcessing(true);
     setImportResult(null);
+    setTagMerge(null);
 
     try {
       const content = await file.text();
       const result = FileProcessor.importProjectJSON(content);
       setImportResult(result);
+      if (result.success && result.data) {
+        // Reconcile exported tags with the current pool so the preview can report it
+        setTagMerge(mergeImportedTags(result.data, result.tagPool ?? [], tagPool));
+      }
     } catch (error) {
       setImportResult({
         success: false,
@@ -92,15 +114,17 @@ export const ProjectImportExportModal: React.FC<ProjectImportExportModalProps> =
   };
 
   const handleConfirmImport = () => {
-    if (importResult?.success && importResult.data) {
-      onImportProject(importResult.data);
+    if (importResult?.success && tagMerge) {
+      onImportProject(tagMerge.project, tagMerge.tagPool);
       onClose();
       setImportResult(null);
+      setTagMerge(null);
     }
   };
 
   const handleCancelImport = () => {
     setImportResult(null);
+    setTagMerge(null);
   };
 
   return (
@@ -121,45 +145,7 @@ export const ProjectImportExportModal: React.FC<ProjectImportExportModalProps> =
         {/* Content */}
         <div className="px-6 py-4">
           {importResult ? (
-            /* Import result display */
-            <div className="space-y-4">
-              {importResult.success ? (
-                <div className="bg-green-50 border border-green-200 rounded-md p-4">
-                  <div className="flex">
-                    <div className="flex-shrink-0">
-                      <span className="text-green-400 text-xl">✓</span>
-                    </div>
-                    <div className="ml-3">
-                      <h3 className="text-sm font-medium text-green-800">
-                        Project Ready to Import
-                      </h3>
-                      <div className="mt-2 text-sm text-green-700">
-                        <div>Project: {importResult.data!.name}</div>
-                        <div>Items: {importResult.itemCount}</div>
-                        <div>Input Lists: {importResult.data!.inputLists.length}</div>
-                        <div>Main List: {importResult.data!.mainList.length}</div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ) : (
-                <div className="bg-red-50 border border-red-200 rounded-md p-4">
-                  <div className="flex">
-                    <div className="flex-shrink-0">
-                      <span className="text-red-400 text-xl">✕</span>
-                    </div>
-                    <div className="ml-3">
-                      <h3 className="text-sm font-medium text-red-800">
-                        Import Failed
-                      </h3>
-                      <div className="mt-2 text-sm text-red-700 whitespace-pre-wrap">
-                        {importResult.error}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
+            <ProjectImportPreview result={importResult} tagMerge={tagMerge} />
           ) : (
             /* Import/Export options */
             <div className="space-y-4">
@@ -177,6 +163,44 @@ export const ProjectImportExportModal: React.FC<ProjectImportExportModalProps> =
                 </button>
               </div>
 
+              <div className="border-t border-gray-200 pt-4">
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Share Link</h3>
+                <p className="text-sm text-gray-600 mb-3">
+                  Copy a link that contains the whole project. Anyone who opens it can import a copy; nothing is uploaded.
+                </p>
+                <button
+                  onClick={handleCopyShareLink}
+                  disabled={!currentProject || isSharing}
+                  className="w-full px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSharing ? 'Creating Link...' : 'Copy Share Link'}
+                </button>
+                {shareLink && (
+                  <div role="status" className="mt-2 space-y-1 text-sm">
+                    {!shareLink.success ? (
+                      <div className="text-red-700">{shareLink.error}</div>
+                    ) : shareCopyFailed ? (
+                      <>
+                        <div className="text-gray-700">Could not copy to clipboard. Copy the link here:</div>
+                        <input
+                          type="text"
+                          readOnly
+                          value={shareLink.url}
+                          onFocus={(e) => e.target.select()}
+                          aria-label="Share link"
+                          className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                        />
+                      </>
+                    ) : (
+                      <div className="text-green-700">
+                        Link copied to clipboard ({shareLink.length!.toLocaleString()} characters)
+                      </div>
+                    )}
+                    {shareLink.warning && <div className="text-yellow-700">{shareLink.warning}</div>}
+                  </div>
+                )}
+              </div>
+
               <div className="border-t border-gray-200 pt-4">
                 <h3 className="text-sm font-medium text-gray-900 mb-2">Import Project</h3>
                 <p className="text-sm text-gray-600 mb-3">
@@ -200,6 +224,7 @@ export const ProjectImportExportModal: React.FC<ProjectImportExportModalProps> =
             accept=".json"
             onChange={handleFileSelect}
             className="hidden"
+            aria-label="Import project file"
           />
         </div>
 
@@ -0,0 +1,71 @@
+import React from 'react';
+import type { Project } from '../types/index';
+import type { ImportResult } from '../utils/fileProcessing';
+import type { TagMergeResult } from '../utils/tagMerge';
+
+interface ProjectImportPreviewProps {
+  result: ImportResult<Project>;
+  tagMerge: TagMergeResult | null; // How the project's tags fit into the current pool
+}
+
+// What importing a project will bring in, or why it cannot be imported
+export const ProjectImportPreview: React.FC<ProjectImportPreviewProps> = ({ result, tagMerge }) => (
+  <div className="space-y-4">
+    {result.success ? (
+      <div className="bg-green-50 border border-green-200 rounded-md p-4">
+        <div className="flex">
+          <div className="flex-shrink-0">
+            <span className="text-green-400 text-xl">✓</span>
+          </div>
+          <div className="ml-3">
+            <h3 className="text-sm font-medium text-green-800">
+              Project Ready to Import
+            </h3>
+            <div className="mt-2 text-sm text-green-700">
+              <div>Project: {result.data!.name}</div>
+              <div>Items: {result.itemCount}</div>
+              <div>Input Lists: {result.data!.inputLists.length}</div>
+              <div>Main List: {result.data!.mainList.length}</div>
+            </div>
+            {tagMerge && (
+              <div className="mt-3 text-sm text-green-700" data-testid="tag-merge-report">
+                <div className="font-medium text-green-800">Tags</div>
+                <div>New: {tagMerge.report.created.length > 0 ? tagMerge.report.created.map(tag => tag.name).join(', ') : 'none'}</div>
+                <div>Merged with existing: {tagMerge.report.matched.length > 0 ? tagMerge.report.matched.map(match => match.existingTag.name).join(', ') : 'none'}</div>
+                {tagMerge.report.skipped.map(skipped => (
+                  <div key={skipped.name} className="text-yellow-700">
+                    Skipped "{skipped.name}": {skipped.reason}
+                  </div>
+                ))}
+                {tagMerge.report.droppedReferences > 0 && (
+                  <div className="text-yellow-700">
+                    Removed {tagMerge.report.droppedReferences} reference{tagMerge.report.droppedReferences === 1 ? '' : 's'} to missing tags
+                  </div>
+                )}
+                {result.warnings?.map(warning => (
+                  <div key={warning} className="text-yellow-700">{warning}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    ) : (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4">
+        <div className="flex">
+          <div className="flex-shrink-0">
+            <span className="text-red-400 text-xl">✕</span>
+          </div>
+          <div className="ml-3">
+            <h3 className="text-sm font-medium text-red-800">
+              Import Failed
+            </h3>
+            <div className="mt-2 text-sm text-red-700 whitespace-pre-wrap">
+              {result.error}
+            </div>
+          </div>
+        </div>
+      </div>
+    )}
+  </div>
+);
\ No newline at end of file
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import type { ProjectSummary } from '../types/index';
+
+type SortOrder = 'newest' | 'oldest';
+
+interface ProjectLibraryModalProps {
+  isOpen: boolean;
+  savedProjects: ProjectSummary[];
+  currentProjectId: string | null;
+  onClose: () => void;
+  onOpenProject: (projectId: string) => void;
+  onDuplicateProject: (projectId: string) => void;
+  onRenameProject: (projectId: string, name: string) => void;
+  onDeleteProject: (projectId: string) => void;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const ProjectLibraryModal: React.FC<ProjectLibraryModalProps> = ({
+  isOpen,
+  savedProjects,
+  currentProjectId,
+  onClose,
+  onOpenProject,
+  onDuplicateProject,
+  onRenameProject,
+  onDeleteProject
+}) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [renamingProjectId, setRenamingProjectId] = useState<string | null>(null);
+  const [renameInput, setRenameInput] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !renamingProjectId) {
+      onClose();
+    }
+  };
+
+  const handleStartRename = (project: ProjectSummary) => {
+    setPendingDeleteId(null);
+    setRenamingProjectId(project.id);
+    setRenameInput(project.name);
+  };
+
+  const handleSaveRename = () => {
+    const project = savedProjects.find(p => p.id === renamingProjectId);
+    if (project && renameInput.trim() && renameInput.trim() !== project.name) {
+      onRenameProject(project.id, renameInput.trim());
+    }
+    setRenamingProjectId(null);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSaveRename();
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setRenamingProjectId(null);
+    }
+  };
+
+  const handleConfirmDelete = (projectId: string) => {
+    onDeleteProject(projectId);
+    setPendingDeleteId(null);
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const visibleProjects = savedProjects
+    .filter(project => project.name.toLowerCase().includes(query))
+    .sort((a, b) => sortOrder === 'newest'
+      ? b.modifiedAt.getTime() - a.modifiedAt.getTime()
+      : a.modifiedAt.getTime() - b.modifiedAt.getTime()
+    );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">
+            Project Library
+          </h2>
+          <div className="mt-3 flex space-x-2">
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search projects..."
+              aria-label="Search projects"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <select
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+              aria-label="Sort projects"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="newest">Recently modified</option>
+              <option value="oldest">Least recently modified</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Project list */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {visibleProjects.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              {savedProjects.length === 0
+                ? 'No saved projects yet.'
+                : 'No projects match your search.'
+              }
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {visibleProjects.map(project => (
+                <div
+                  key={project.id}
+                  data-testid={`project-row-${project.id}`}
+                  className={`p-3 border rounded-md ${
+                    project.id === currentProjectId
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-200 bg-white'
+                  }`}
+                >
+                  {renamingProjectId === project.id ? (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={renameInput}
+                        onChange={(e) => setRenameInput(e.target.value)}
+                        onKeyDown={handleRenameKeyDown}
+                        aria-label="Project name"
+                        className="flex-1 text-sm px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        autoFocus
+                      />
+                      <button onClick={handleSaveRename} className="text-xs text-blue-600">Save</button>
+                      <button onClick={() => setRenamingProjectId(null)} className="text-xs text-gray-500">Cancel</button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">
+                          {project.name}
+                          {project.id === currentProjectId && (
+                            <span className="ml-2 text-xs text-blue-600">(open)</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {project.itemCount} items · Created {formatDate(project.createdAt)} · Modified {formatDate(project.modifiedAt)}
+                        </div>
+                      </div>
+
+                      {pendingDeleteId === project.id ? (
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          <span className="text-xs text-red-700">Delete permanently?</span>
+                          <button
+                            onClick={() => handleConfirmDelete(project.id)}
+                            className="text-xs text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded"
+                          >
+                            Delete
+                          </button>
+                          <button
+                            onClick={() => setPendingDeleteId(null)}
+                            className="text-xs text-gray-500"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          <button
+                            onClick={() => onOpenProject(project.id)}
+                            disabled={project.id === currentProjectId}
+                            className="text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-300 disabled:cursor-not-allowed"
+                          >
+                            Open
+                          </button>
+                          <button
+                            onClick={() => onDuplicateProject(project.id)}
+                            className="text-xs text-gray-600 hover:text-gray-700"
+                          >
+                            Duplicate
+                          </button>
+                          <button
+                            onClick={() => handleStartRename(project)}
+                            className="text-xs text-gray-600 hover:text-gray-700"
+                          >
+                            Rename
+                          </button>
+                          <button
+                            onClick={() => {
+                              setRenamingProjectId(null);
+                              setPendingDeleteId(project.id);
+                            }}
+                            className="text-xs text-red-600 hover:text-red-700"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between items-center">
+          <div className="text-sm text-gray-500">
+            {savedProjects.length} saved {savedProjects.length === 1 ? 'project' : 'projects'}
+          </div>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,157 @@
 import React, { useState } from 'react';
-import type { Project, Tag } from '../types/index';
+import type { CustomFieldType, Project, ProjectSnapshot, ProjectSummary, Tag } from '../types/index';
 import { ProjectImportExportModal } from './ProjectImportExportModal';
+import { ProjectLibraryModal } from './ProjectLibraryModal';
+import { CustomFieldsModal } from './CustomFieldsModal';
+import { CollabModal } from './CollabModal';
+import { SnapshotsModal } from './SnapshotsModal';
+import type { CollabPeer, CollabStatus } from '../collab';
 
 interface ProjectManagerProps {
   currentProject: Project | null;
+  savedProjects: ProjectSummary[];
   tagPool: Tag[];
   onNewProject: () => void;
-  onImportProject: (project: Project) => void;
+  onImportProject: (project: Project, tagPool: Tag[]) => void;
+  onOpenProject: (projectId: string) => void;
+  onDuplicateProject: (projectId: string) => void;
+  onRenameProject: (projectId: string, name: string) => void;
+  onDeleteProject: (projectId: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onShowShortcuts?: () => void;
+  onAddCustomField?: (name: string, type: CustomFieldType, options: string[]) => void;
+  onEditCustomField?: (fieldId: string, name: string, options?: string[]) => void;
+  onDeleteCustomField?: (fieldId: string) => void;
+  collabStatus?: CollabStatus;
+  collabRoomId?: string | null;
+  collabPeers?: CollabPeer[]; // Everyone else in the room
+  onStartCollab?: (relayUrl: string, roomId: string, name: string) => void;
+  onLeaveCollab?: () => void;
+  onReconnectCollab?: () => void;
+  snapshots?: ProjectSnapshot[]; // Snapshots of the open project, oldest first
+  onTakeSnapshot?: (name: string) => string | null;
+  onDeleteSnapshot?: (snapshotId: string) => void;
 }
 
 export const ProjectManager: React.FC<ProjectManagerProps> = ({
   currentProject,
+  savedProjects,
   tagPool,
   onNewProject,
-  onImportProject
+  onImportProject,
+  onOpenProject,
+  onDuplicateProject,
+  onRenameProject,
+  onDeleteProject,
+  canUndo,
+  canRedo,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onShowShortcuts,
+  onAddCustomField,
+  onEditCustomField,
+  onDeleteCustomField,
+  collabStatus = 'closed',
+  collabRoomId = null,
+  collabPeers = [],
+  onStartCollab,
+  onLeaveCollab,
+  onReconnectCollab,
+  snapshots = [],
+  onTakeSnapshot,
+  onDeleteSnapshot
 }) => {
   const [isImportExportModalOpen, setIsImportExportModalOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isFieldsModalOpen, setIsFieldsModalOpen] = useState(false);
+  const [isCollabModalOpen, setIsCollabModalOpen] = useState(false);
+  const [isSnapshotsModalOpen, setIsSnapshotsModalOpen] = useState(false);
+  const canManageFields = currentProject !== null && !!onAddCustomField && !!onEditCustomField && !!onDeleteCustomField;
   return (
     <div className="flex items-center justify-between p-4 bg-white border-b border-gray-200">
       <div className="flex items-center space-x-4">
         <h1 className="text-xl font-semibold text-gray-900">List Merge</h1>
+        {currentProject && (
+          <span className="text-sm text-gray-600 truncate max-w-xs" title={currentProject.name}>
+            {currentProject.name}
+          </span>
+        )}
         <button 
           onClick={onNewProject}
           className="btn-primary"
         >
           New Project
         </button>
+        <button 
+          onClick={() => setIsLibraryOpen(true)}
+          className="btn-secondary"
+        >
+          Projects
+        </button>
       </div>
       
       <div className="flex items-center space-x-4">
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          >
+            Redo
+          </button>
+        </div>
+        {onShowShortcuts && (
+          <button
+            onClick={onShowShortcuts}
+            className="btn-secondary"
+            title="Keyboard shortcuts (?)"
+          >
+            Shortcuts
+          </button>
+        )}
+        {canManageFields && (
+          <button
+            onClick={() => setIsFieldsModalOpen(true)}
+            className="btn-secondary"
+            title="Custom item fields"
+          >
+            Fields
+          </button>
+        )}
+        {currentProject && onTakeSnapshot && (
+          <button
+            onClick={() => setIsSnapshotsModalOpen(true)}
+            className="btn-secondary"
+            title="Snapshots of the ranking and what changed since"
+          >
+            Snapshots
+          </button>
+        )}
+        {currentProject && onStartCollab && (
+          <button
+            onClick={() => setIsCollabModalOpen(true)}
+            className="btn-secondary"
+            title="Rank together with others in real time"
+          >
+            {collabStatus === 'closed' ? 'Collaborate' : `Collaborating · ${collabPeers.length + 1}`}
+          </button>
+        )}
         <button 
           onClick={() => setIsImportExportModalOpen(true)}
           className="btn-secondary"
@@ -37,6 +160,21 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({
         </button>
       </div>
       
+      {/* Project Library Modal */}
+      <ProjectLibraryModal
+        isOpen={isLibraryOpen}
+        savedProjects={savedProjects}
+        currentProjectId={currentProject?.id ?? null}
+        onClose={() => setIsLibraryOpen(false)}
+        onOpenProject={(projectId) => {
+          onOpenProject(projectId);
+          setIsLibraryOpen(false);
+        }}
+        onDuplicateProject={onDuplicateProject}
+        onRenameProject={onRenameProject}
+        onDeleteProject={onDeleteProject}
+      />
+
       {/* Project Import/Export Modal */}
       <ProjectImportExportModal
         isOpen={isImportExportModalOpen}
@@ -45,6 +183,46 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({
         onClose={() => setIsImportExportModalOpen(false)}
         onImportProject={onImportProject}
       />
+
+      {/* Custom Fields Modal */}
+      {canManageFields && (
+        <CustomFieldsModal
+          isOpen={isFieldsModalOpen}
+          fields={currentProject.customFields ?? []}
+          onClose={() => setIsFieldsModalOpen(false)}
+          onAddField={onAddCustomField}
+          onEditField={onEditCustomField}
+          onDeleteField={onDeleteCustomField}
+        />
+      )}
+
+      {/* Snapshots Modal */}
+      {currentProject && onTakeSnapshot && onDeleteSnapshot && (
+        <SnapshotsModal
+          isOpen={isSnapshotsModalOpen}
+          project={currentProject}
+          tagPool={tagPool}
+          snapshots={snapshots}
+          onClose={() => setIsSnapshotsModalOpen(false)}
+          onTakeSnapshot={onTakeSnapshot}
+          onDeleteSnapshot={onDeleteSnapshot}
+        />
+      )}
+
+      {/* Collaboration Modal */}
+      {currentProject && onStartCollab && onLeaveCollab && onReconnectCollab && (
+        <CollabModal
+          isOpen={isCollabModalOpen}
+          projectId={currentProject.id}
+          status={collabStatus}
+          roomId={collabRoomId}
+          peers={collabPeers}
+          onClose={() => setIsCollabModalOpen(false)}
+          onStart={onStartCollab}
+          onLeave={onLeaveCollab}
+          onReconnect={onReconnectCollab}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
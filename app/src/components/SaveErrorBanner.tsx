@@ -0,0 +1,48 @@
+import React from 'react';
+import type { Project, Tag } from '../types/index';
+import { FileProcessor } from '../utils/fileProcessing';
+import { downloadFile } from '../utils/download';
+
+interface SaveErrorBannerProps {
+  error: string | null; // Error of the last failed auto-save; the banner shows while there is one
+  project: Project | null;
+  tagPool: Tag[];
+  onRetry: () => void;
+}
+
+// Tells the user that changes are not stored, with a retry and a way to keep a copy as a file
+export const SaveErrorBanner: React.FC<SaveErrorBannerProps> = ({ error, project, tagPool, onRetry }) => {
+  if (!error) return null;
+
+  const handleExport = () => {
+    if (!project) return;
+    const result = FileProcessor.exportProjectJSON(project, tagPool);
+    if (result.success && result.data && result.filename) {
+      downloadFile(result.data, result.filename, 'application/json');
+    }
+  };
+
+  return (
+    <div role="alert" className="flex items-center gap-3 px-4 py-2 bg-red-50 border-b border-red-200 text-sm text-red-800">
+      <p className="flex-1">
+        <span className="font-medium">Changes could not be saved.</span> {error}
+      </p>
+      <button
+        type="button"
+        onClick={onRetry}
+        className="px-3 py-1 rounded-md border border-red-300 bg-white text-red-800 hover:bg-red-100"
+      >
+        Retry
+      </button>
+      {project && (
+        <button
+          type="button"
+          onClick={handleExport}
+          className="px-3 py-1 rounded-md border border-red-300 bg-white text-red-800 hover:bg-red-100"
+        >
+          Export project
+        </button>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import type { Project, Tag } from '../types/index';
+import type { ProjectImportResult } from '../utils/fileProcessing';
+import { mergeImportedTags } from '../utils/tagMerge';
+import { ProjectImportPreview } from './ProjectImportPreview';
+
+interface SharedProjectModalProps {
+  sharedProject: ProjectImportResult | null; // Read from a share link; the modal is open while there is one
+  tagPool: Tag[];
+  onImport: (project: Project, tagPool: Tag[]) => void;
+  onDismiss: () => void;
+}
+
+export const SharedProjectModal: React.FC<SharedProjectModalProps> = ({
+  sharedProject,
+  tagPool,
+  onImport,
+  onDismiss
+}) => {
+  // Reconcile the shared tags with the current pool so the preview can report it
+  const tagMerge = useMemo(() => sharedProject?.success && sharedProject.data
+    ? mergeImportedTags(sharedProject.data, sharedProject.tagPool ?? [], tagPool)
+    : null, [sharedProject, tagPool]);
+
+  if (!sharedProject) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onDismiss();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keys must not reach the ranking shortcuts behind the dialog
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      onDismiss();
+    }
+  };
+
+  const handleImport = () => {
+    if (tagMerge) {
+      onImport(tagMerge.project, tagMerge.tagPool);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shared-project-title"
+        className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 id="shared-project-title" className="text-lg font-medium text-gray-900">
+            Shared Project
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            This link contains a project. Importing adds it as a new project; your projects are kept.
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4">
+          <ProjectImportPreview result={sharedProject} tagMerge={tagMerge} />
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onDismiss}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {tagMerge ? 'Cancel' : 'Close'}
+          </button>
+          {tagMerge && (
+            <button
+              onClick={handleImport}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Import Project
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
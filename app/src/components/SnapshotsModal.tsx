@@ -0,0 +1,305 @@
+import React, { useMemo, useState } from 'react';
+import type { Project, ProjectSnapshot, Tag } from '../types/index';
+import { FileProcessor } from '../utils/fileProcessing';
+import { downloadFile } from '../utils/download';
+import { diffProjects, hasChanges, validateSnapshotName, type DiffSide, type RankingDiff } from '../utils/snapshots';
+
+interface SnapshotsModalProps {
+  isOpen: boolean;
+  project: Project;
+  tagPool: Tag[];
+  snapshots: ProjectSnapshot[]; // Oldest first
+  onClose: () => void;
+  onTakeSnapshot: (name: string) => string | null; // Returns the reason it failed, or null
+  onDeleteSnapshot: (snapshotId: string) => void;
+}
+
+// Value of the compare selects standing for the project as it is now
+const CURRENT = 'current';
+
+const buttonClassName = 'px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+const selectClassName = 'px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const formatDate = (date: Date) => date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const SnapshotsModal: React.FC<SnapshotsModalProps> = ({
+  isOpen,
+  project,
+  tagPool,
+  snapshots,
+  onClose,
+  onTakeSnapshot,
+  onDeleteSnapshot
+}) => {
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  // Compare the latest snapshot with the current state unless chosen otherwise
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState(CURRENT);
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  // Only compared while the modal is open; the current state changes with every edit
+  const sides = useMemo(() => {
+    if (!isOpen) return null;
+    const sideOf = (id: string | null): DiffSide | null => {
+      if (id === CURRENT) return { label: 'Current state', project, tags: tagPool };
+      const snapshot = snapshots.find(entry => entry.id === id) ?? snapshots[snapshots.length - 1];
+      return snapshot ? { label: snapshot.name, project: snapshot.project, tags: snapshot.tags } : null;
+    };
+    const before = sideOf(fromId);
+    const after = sideOf(snapshots.some(entry => entry.id === toId) ? toId : CURRENT);
+    return before && after ? { before, after } : null;
+  }, [isOpen, fromId, toId, project, tagPool, snapshots]);
+  const diff = useMemo(() => sides ? diffProjects(sides.before, sides.after) : null, [sides]);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Typing a snapshot name must not reach the ranking shortcuts
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const handleTakeSnapshot = () => {
+    const failure = validateSnapshotName(newName, snapshots) ?? onTakeSnapshot(newName.trim());
+    setError(failure);
+    if (!failure) {
+      setNewName('');
+      setFromId(null);
+    }
+  };
+
+  const exportDiff = () => sides && diff
+    ? FileProcessor.exportRankingDiff(project.name, diff, sides.before.label, sides.after.label)
+    : null;
+
+  const handleCopy = async () => {
+    const result = exportDiff();
+    if (!result?.success || !result.data) return;
+    try {
+      await navigator.clipboard.writeText(result.data);
+      setCopyStatus('copied');
+    } catch {
+      setCopyStatus('failed');
+    }
+  };
+
+  const handleDownload = () => {
+    const result = exportDiff();
+    if (result?.success && result.data && result.filename && result.mimeType) {
+      downloadFile(result.data, result.filename, result.mimeType);
+    }
+  };
+
+  const selectedFromId = snapshots.some(entry => entry.id === fromId) ? fromId! : snapshots[snapshots.length - 1]?.id ?? '';
+  const newestFirst = [...snapshots].reverse();
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="snapshots-title"
+        className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[85vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 id="snapshots-title" className="text-lg font-medium text-gray-900">Snapshots</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Keep a copy of the ranking to see later what moved.
+          </p>
+          <div className="mt-3 flex items-center space-x-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => { setNewName(e.target.value); setError(null); }}
+              onKeyDown={(e) => e.key === 'Enter' && handleTakeSnapshot()}
+              placeholder="Snapshot name, e.g. March ranking"
+              aria-label="Snapshot name"
+              className={`flex-1 ${selectClassName}`}
+            />
+            <button onClick={handleTakeSnapshot} className={buttonClassName}>
+              Take snapshot
+            </button>
+          </div>
+          {error && <p role="alert" className="mt-1 text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {/* Snapshot list */}
+          {snapshots.length === 0 ? (
+            <div className="text-center text-gray-500 py-4">No snapshots yet.</div>
+          ) : (
+            <ul className="space-y-1" aria-label="Snapshots">
+              {newestFirst.map(snapshot => (
+                <li key={snapshot.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    <span className="font-medium text-gray-900">{snapshot.name}</span>
+                    <span className="ml-2 text-gray-500">{formatDate(snapshot.createdAt)}</span>
+                  </span>
+                  {pendingDeleteId === snapshot.id ? (
+                    <span className="space-x-2">
+                      <button
+                        onClick={() => { onDeleteSnapshot(snapshot.id); setPendingDeleteId(null); }}
+                        className="text-xs text-red-600 hover:underline"
+                      >
+                        Confirm delete
+                      </button>
+                      <button onClick={() => setPendingDeleteId(null)} className="text-xs text-gray-500 hover:underline">
+                        Cancel
+                      </button>
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => setPendingDeleteId(snapshot.id)}
+                      className="text-xs text-gray-500 hover:text-red-600"
+                      aria-label={`Delete snapshot ${snapshot.name}`}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Comparison */}
+          {sides && diff && (
+            <section aria-labelledby="snapshot-diff-title" className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <h3 id="snapshot-diff-title" className="font-medium text-gray-900">Compare</h3>
+                <select
+                  value={selectedFromId}
+                  onChange={(e) => { setFromId(e.target.value); setCopyStatus('idle'); }}
+                  aria-label="Compare from"
+                  className={selectClassName}
+                >
+                  {newestFirst.map(snapshot => <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>)}
+                </select>
+                <span className="text-gray-500">with</span>
+                <select
+                  value={toId}
+                  onChange={(e) => { setToId(e.target.value); setCopyStatus('idle'); }}
+                  aria-label="Compare with"
+                  className={selectClassName}
+                >
+                  <option value={CURRENT}>Current state</option>
+                  {newestFirst.map(snapshot => <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>)}
+                </select>
+              </div>
+
+              <RankingDiffView diff={diff} />
+
+              <div className="flex items-center space-x-2">
+                <button onClick={handleCopy} className={buttonClassName}>Copy Markdown</button>
+                <button onClick={handleDownload} className={buttonClassName}>Download Markdown</button>
+                <span role="status" className="text-sm text-gray-500">
+                  {copyStatus === 'copied' && 'Copied to clipboard'}
+                  {copyStatus === 'failed' && <span className="text-red-600">Could not copy to clipboard</span>}
+                </span>
+              </div>
+            </section>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button onClick={onClose} className={buttonClassName}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Changes between two versions, grouped by kind
+const RankingDiffView: React.FC<{ diff: RankingDiff }> = ({ diff }) => {
+  if (!hasChanges(diff)) {
+    return <p className="text-sm text-gray-500">No changes.</p>;
+  }
+
+  const heading = 'text-xs font-semibold uppercase tracking-wide text-gray-500';
+  return (
+    <div className="space-y-4 text-sm">
+      {diff.moved.length > 0 && (
+        <div>
+          <h4 className={heading}>Moved</h4>
+          <ul className="mt-1 space-y-0.5">
+            {diff.moved.map(change => (
+              <li key={change.id} className="flex items-center space-x-2">
+                <span
+                  className={`w-12 font-medium ${change.delta > 0 ? 'text-green-600' : 'text-red-600'}`}
+                  aria-label={change.delta > 0 ? `Up ${change.delta}` : `Down ${-change.delta}`}
+                >
+                  {change.delta > 0 ? '▲' : '▼'} {Math.abs(change.delta)}
+                </span>
+                <span className="flex-1 text-gray-900">{change.content}</span>
+                <span className="text-gray-500">#{change.from} → #{change.to}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {diff.added.length > 0 && (
+        <div>
+          <h4 className={heading}>Added</h4>
+          <ul className="mt-1 space-y-0.5">
+            {diff.added.map(entry => (
+              <li key={entry.id}><span className="text-green-600">+</span> #{entry.rank} {entry.content}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {diff.removed.length > 0 && (
+        <div>
+          <h4 className={heading}>Removed</h4>
+          <ul className="mt-1 space-y-0.5">
+            {diff.removed.map(entry => (
+              <li key={entry.id}><span className="text-red-600">−</span> {entry.content} <span className="text-gray-500">(was #{entry.rank})</span></li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {diff.tagChanges.length > 0 && (
+        <div>
+          <h4 className={heading}>Tag changes</h4>
+          <ul className="mt-1 space-y-0.5">
+            {diff.tagChanges.map(change => (
+              <li key={change.id}>
+                {change.content}:{' '}
+                {change.added.map(name => <span key={`+${name}`} className="mr-1 text-green-700">+{name}</span>)}
+                {change.removed.map(name => <span key={`-${name}`} className="mr-1 text-red-700">−{name}</span>)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {diff.renamedLists.length > 0 && (
+        <div>
+          <h4 className={heading}>Renamed lists</h4>
+          <ul className="mt-1 space-y-0.5">
+            {diff.renamedLists.map(rename => <li key={rename.listId}>{rename.from} → {rename.to}</li>)}
+          </ul>
+        </div>
+      )}
+      <p className="text-gray-500">
+        {diff.unchangedCount} ranked item{diff.unchangedCount === 1 ? '' : 's'} kept {diff.unchangedCount === 1 ? 'its' : 'their'} place.
+      </p>
+    </div>
+  );
+};
\ No newline at end of file
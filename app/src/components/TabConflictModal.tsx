@@ -0,0 +1,90 @@
+import React, { useEffect, useRef } from 'react';
+import type { Project } from '../types/index';
+
+interface TabConflictModalProps {
+  localProject: Project | null;
+  remoteProject: Project | null; // Other tab's version; the modal is open while there is one
+  onKeepLocal: () => void;
+  onKeepRemote: () => void;
+}
+
+// Helper: One line describing a version of the project
+const describeVersion = (project: Project): string => {
+  const itemCount = project.inputLists.reduce((total, list) => total + list.items.length, 0);
+  return `${itemCount} items, ${project.mainList.length} ranked, last changed ${project.modifiedAt.toLocaleTimeString()}`;
+};
+
+export const TabConflictModal: React.FC<TabConflictModalProps> = ({
+  localProject,
+  remoteProject,
+  onKeepLocal,
+  onKeepRemote
+}) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const isOpen = localProject !== null && remoteProject !== null;
+
+  // Take the focus away from the workspace; there is no way around choosing a version
+  useEffect(() => {
+    if (isOpen) dialogRef.current?.focus();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    // Keys stay inside the dialog, away from the ranking and undo shortcuts
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <div
+        ref={dialogRef}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="tab-conflict-title"
+        tabIndex={-1}
+        className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 id="tab-conflict-title" className="text-lg font-medium text-gray-900">
+            Project Changed in Another Tab
+          </h2>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 text-sm text-gray-700 space-y-3">
+          <p>
+            “{localProject.name}” was changed both here and in another tab. Choose the version to keep;
+            the changes of the other version are lost.
+          </p>
+          <dl className="space-y-1">
+            <div>
+              <dt className="inline font-medium">This tab: </dt>
+              <dd className="inline">{describeVersion(localProject)}</dd>
+            </div>
+            <div>
+              <dt className="inline font-medium">Other tab: </dt>
+              <dd className="inline">{describeVersion(remoteProject)}</dd>
+            </div>
+          </dl>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onKeepRemote}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Use the other tab's version
+          </button>
+          <button
+            onClick={onKeepLocal}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Keep this tab's version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -252,7 +252,6 @@ const TagChip: React.FC<TagChipProps> = ({ tag, isClickable, onClick, onEdit, on
   } : undefined;
 
   const chipStyle = {
-    ...style,
     backgroundColor: tag.color + '20', 
     color: tag.color,
     borderColor: tag.color + '40'
@@ -379,24 +378,27 @@ const TagChip: React.FC<TagChipProps> = ({ tag, isClickable, onClick, onEdit, on
     );
   }
 
+  // The hover actions sit beside the draggable chip rather than inside it, so no button is nested in another
   return (
-    <div
-      ref={setNodeRef}
-      style={chipStyle}
-      onClick={isClickable ? onClick : undefined}
-      className={`group inline-flex items-center px-1.5 py-0 rounded-full text-[10px] font-medium border relative ${
-        isClickable 
-          ? 'cursor-pointer hover:opacity-80' 
-          : isDragging
-          ? 'cursor-grabbing'
-          : 'cursor-grab'
-      }`}
-      {...(isEditing ? {} : { ...attributes, ...listeners })}
-    >
-      <span className="truncate max-w-24 select-none">{tag.name}</span>
-      {tag.usageCount > 0 && (
-        <span className="ml-1 text-xs opacity-60 select-none">({tag.usageCount})</span>
-      )}
+    <div style={style} className="group relative inline-flex">
+      <div
+        ref={setNodeRef}
+        style={chipStyle}
+        onClick={isClickable ? onClick : undefined}
+        className={`inline-flex items-center px-1.5 py-0 rounded-full text-[10px] font-medium border ${
+          isClickable 
+            ? 'cursor-pointer hover:opacity-80' 
+            : isDragging
+            ? 'cursor-grabbing'
+            : 'cursor-grab'
+        }`}
+        {...(isEditing ? {} : { ...attributes, ...listeners })}
+      >
+        <span className="truncate max-w-24 select-none">{tag.name}</span>
+        {tag.usageCount > 0 && (
+          <span className="ml-1 text-xs opacity-60 select-none">({tag.usageCount})</span>
+        )}
+      </div>
       
       {/* Hover actions */}
       <div 
@@ -1,31 +1,69 @@
-import React from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { InputListPanel } from './InputListPanel';
 import { MainListPanel } from './MainListPanel';
 import { TagPoolPanel } from './TagPoolPanel';
-import type { AppState } from '../types/index';
+import { ListExportModal } from './ListExportModal';
+import { ComparisonModal } from './ComparisonModal';
+import { AggregationModal } from './AggregationModal';
+import { DuplicatesModal } from './DuplicatesModal';
+import { FilterBar } from './FilterBar';
+import type { AppState, ItemDetails, ItemFilter } from '../types/index';
+import type { ImportedListItem } from '../utils/fileProcessing';
+import type { ComparisonScope } from '../utils/comparisonSort';
+import { findDuplicates } from '../utils/duplicateDetection';
+import { getOutputListByItem } from '../utils/outputLists';
+import { EMPTY_FILTER, isFilterActive, matchesFilter } from '../utils/itemFilter';
+import { createTagQueryContext, matchesTagQuery, parseTagQuery, type QueryableItem } from '../utils/tagQuery';
+import type { KeyboardCommand, KeyboardRankingContext } from '../utils/keyboardRanking';
+import { useKeyboardRanking, type ItemPresence } from './shared/hooks';
 
 interface WorkspaceProps {
   appState: AppState;
   onSelectInputList: (listId: string) => void;
   onAddInputList: () => void;
-  onImportListItems: (listId: string, items: string[]) => void;
+  onImportListItems: (listId: string, items: Array<string | ImportedListItem>) => void;
   onAddItemToList: (listId: string, content: string) => void;
   onEditListItem: (listId: string, itemId: string, content: string) => void;
   onDeleteListItem: (listId: string, itemId: string) => void;
   onRenameList: (listId: string, newName: string) => void;
   onDeleteList: (listId: string) => void;
-  onMoveToMainList: (listId: string, itemId: string) => void;
-  onSelectMainItem: (itemId: string, isMultiSelect: boolean, isShiftSelect?: boolean) => void;
+  onMoveToMainList: (listId: string, itemId: string, position?: number, tierId?: string | null) => void;
+  onSelectMainItem: (itemId: string, isMultiSelect: boolean, isShiftSelect?: boolean, hiddenItemIds?: ReadonlySet<string>) => void; // Items the filter hides in the clicked panel
   onRemoveFromMainList: (itemId: string) => void;
   onReorderMainItems: (startIndex: number, endIndex: number) => void;
+  onMoveMainItem: (itemId: string, position: number, tierId?: string | null) => void;
   onAddTag: (itemIds: string[], tagId: string) => void;
   onRemoveTag: (itemIds: string[], tagId: string) => void;
   onCreateTag: (name: string, color: string) => string | null;
+  onEditItemDetails: (itemId: string, details: ItemDetails) => void;
   onEditTag: (tagId: string, name: string, color: string) => void;
   onDeleteTag: (tagId: string) => void;
   onApplyTagToSelected: (tagId: string) => void;
   onRemoveAllTags: () => void;
   onClearSelection: () => void;
+  onStartComparison: (scope: ComparisonScope) => void;
+  onAnswerComparison: (candidateIsBetter: boolean) => void;
+  onEndComparison: () => void;
+  onApplyAggregation: (ranking: Array<{ itemId: string; listId: string }>) => void;
+  onLinkItems: (itemIds: string[]) => void;
+  onUnlinkItems: (itemIds: string[]) => void;
+  onEnableTiers: () => void;
+  onDisableTiers: () => void;
+  onAddTier: (name: string, color: string) => void;
+  onEditTier: (tierId: string, name: string, color: string) => void;
+  onDeleteTier: (tierId: string) => void;
+  onMoveTier: (tierId: string, index: number) => void;
+  onAddOutputList: () => void;
+  onSwitchOutputList: (listId: string) => void;
+  onRenameOutputList: (listId: string, name: string) => void;
+  onDeleteOutputList: (listId: string) => void;
+  activeDragItemId?: string | null;
+  isShortcutHelpOpen?: boolean;
+  onToggleShortcutHelp?: () => void;
+  onSaveView?: (name: string, query: string, viewId?: string) => string;
+  onDeleteView?: (viewId: string) => void;
+  onSelectItems?: (itemIds: string[]) => void;
+  presence?: ItemPresence; // Collaborators by the items they have selected
 }
 
 export const Workspace: React.FC<WorkspaceProps> = ({
@@ -42,16 +80,154 @@ export const Workspace: React.FC<WorkspaceProps> = ({
   onSelectMainItem,
   onRemoveFromMainList,
   onReorderMainItems,
+  onMoveMainItem,
   onAddTag,
   onRemoveTag,
   onCreateTag,
+  onEditItemDetails,
   onEditTag,
   onDeleteTag,
   onApplyTagToSelected,
   onRemoveAllTags,
-  onClearSelection
+  onClearSelection,
+  onStartComparison,
+  onAnswerComparison,
+  onEndComparison,
+  onApplyAggregation,
+  onLinkItems,
+  onUnlinkItems,
+  onEnableTiers,
+  onDisableTiers,
+  onAddTier,
+  onEditTier,
+  onDeleteTier,
+  onMoveTier,
+  onAddOutputList,
+  onSwitchOutputList,
+  onRenameOutputList,
+  onDeleteOutputList,
+  activeDragItemId = null,
+  isShortcutHelpOpen = false,
+  onToggleShortcutHelp,
+  onSaveView,
+  onDeleteView,
+  onSelectItems,
+  presence
 }) => {
   const currentProject = appState.currentProject;
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isComparisonModalOpen, setIsComparisonModalOpen] = useState(false);
+  const [isAggregationModalOpen, setIsAggregationModalOpen] = useState(false);
+  const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
+
+  const inputLists = currentProject?.inputLists;
+  const itemLinks = currentProject?.itemLinks;
+  const duplicates = useMemo(
+    () => inputLists ? findDuplicates(inputLists, itemLinks) : null,
+    [inputLists, itemLinks]
+  );
+
+  // With several output lists, used input items show which list consumed them
+  const outputLists = useMemo(() => currentProject?.outputLists?.map(list => ({
+    id: list.id,
+    name: list.name,
+    itemCount: list.id === currentProject.activeOutputListId ? currentProject.mainList.length : list.items.length
+  })), [currentProject]);
+  const usedIn = useMemo(() => {
+    if (!currentProject?.outputLists) return undefined;
+    const names = new Map<string, string>();
+    getOutputListByItem(currentProject).forEach((list, itemId) => names.set(itemId, list.name));
+    return names;
+  }, [currentProject]);
+
+  // Search and filter bar; non-matching items are hidden per panel, since ranked items share their input item's ID.
+  // A tag query (typed or from a saved view) narrows the items further; a query with errors is ignored.
+  const [filter, setFilter] = useState<ItemFilter>(EMPTY_FILTER);
+  const [query, setQuery] = useState('');
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const customFields = currentProject?.customFields;
+  const parsedQuery = useMemo(() => parseTagQuery(query, customFields), [query, customFields]);
+  const tagPool = appState.tagPool;
+  const filtered = useMemo(() => {
+    const tagQuery = parsedQuery.query;
+    if (!currentProject || (!isFilterActive(filter) && !tagQuery)) return null;
+    const queryContext = createTagQueryContext(tagPool, currentProject.inputLists, currentProject.mainList);
+    const isShown = (item: QueryableItem) =>
+      matchesFilter(item, filter) && (!tagQuery || matchesTagQuery(tagQuery, item, queryContext));
+
+    const hiddenInputIds = new Set<string>();
+    const hiddenMainIds = new Set<string>();
+    const matchingIds = new Set<string>();
+    currentProject.inputLists.forEach(list => list.items.forEach(item => {
+      if (isShown({ ...item, sourceListId: list.id })) matchingIds.add(item.id);
+      else hiddenInputIds.add(item.id);
+    }));
+    currentProject.mainList.forEach(item => {
+      if (isShown(item)) matchingIds.add(item.id);
+      else hiddenMainIds.add(item.id);
+    });
+    const inputCount = currentProject.inputLists.reduce((total, list) => total + list.items.length, 0);
+    return {
+      hiddenInputIds,
+      hiddenMainIds,
+      matchingIds,
+      hitCounts: { input: inputCount - hiddenInputIds.size, main: currentProject.mainList.length - hiddenMainIds.size }
+    };
+  }, [currentProject, filter, parsedQuery, tagPool]);
+
+  const handleSelectView = (viewId: string | null) => {
+    // The new view's ID arrives before the saved view itself, so a missing view keeps the typed query
+    const view = currentProject?.savedViews?.find(entry => entry.id === viewId);
+    setActiveViewId(viewId);
+    if (view) setQuery(view.query);
+    else if (viewId === null) setQuery('');
+  };
+
+  // Keyboard-only ranking over the active input list and the main list
+  const [tagInputItemId, setTagInputItemId] = useState<string | null>(null);
+  const [detailsItemId, setDetailsItemId] = useState<string | null>(null);
+  const activeInputListId = appState.ui.activeInputList;
+  const keyboardContext = useMemo<KeyboardRankingContext>(() => ({
+    inputItems: currentProject?.inputLists.find(list => list.id === activeInputListId)?.items ?? [],
+    mainItems: [...(currentProject?.mainList ?? [])].sort((a, b) => a.order - b.order),
+    hasTiers: currentProject?.tiers !== undefined,
+    ...(filtered ? { hiddenInputIds: filtered.hiddenInputIds, hiddenMainIds: filtered.hiddenMainIds } : {})
+  }), [currentProject, activeInputListId, filtered]);
+
+  const handleKeyboardCommand = useCallback((command: KeyboardCommand) => {
+    switch (command.type) {
+      case 'move-to-main':
+        if (activeInputListId) onMoveToMainList(activeInputListId, command.itemId, command.position, command.tierId);
+        break;
+      case 'move-main-item':
+        onMoveMainItem(command.itemId, command.position, command.tierId);
+        break;
+      case 'remove-from-main':
+        onRemoveFromMainList(command.itemId);
+        break;
+      case 'open-tag-input':
+        setTagInputItemId(command.itemId);
+        break;
+      case 'open-details':
+        setDetailsItemId(command.itemId);
+        break;
+      case 'focus-search':
+        searchInputRef.current?.focus();
+        break;
+      case 'toggle-help':
+        onToggleShortcutHelp?.();
+        break;
+    }
+  }, [activeInputListId, onMoveToMainList, onMoveMainItem, onRemoveFromMainList, onToggleShortcutHelp]);
+
+  const isModalOpen = isExportModalOpen || isComparisonModalOpen || isAggregationModalOpen ||
+    isDuplicatesModalOpen || isShortcutHelpOpen;
+  const { state: keyboard, focusItem, focusPanel } = useKeyboardRanking({
+    context: keyboardContext,
+    enabled: currentProject !== null && !isModalOpen && activeDragItemId === null,
+    onCommand: handleKeyboardCommand
+  });
 
   if (!currentProject) {
     return (
@@ -66,69 +242,193 @@ export const Workspace: React.FC<WorkspaceProps> = ({
   }
 
   return (
-    <div className="flex-1 grid grid-cols-[300px_1fr_300px] gap-4 p-4 bg-gray-50 min-h-0">
-      {/* Input Lists Panel - Left */}
-      <div>
-        <InputListPanel
-          inputLists={currentProject.inputLists}
-          activeListId={appState.ui.activeInputList}
-          selectedItems={appState.ui.selectedItems}
-          tagPool={appState.tagPool}
-          onSelectList={onSelectInputList}
-          onAddList={onAddInputList}
-          onImportListItems={onImportListItems}
-          onAddItem={onAddItemToList}
-          onEditItem={onEditListItem}
-          onDeleteItem={onDeleteListItem}
-          onRenameList={onRenameList}
-          onDeleteList={onDeleteList}
-          onMoveToMain={onMoveToMainList}
-          onSelectItem={onSelectMainItem}
-          onAddTag={onAddTag}
-          onRemoveTag={onRemoveTag}
-          onCreateTag={onCreateTag}
-        />
-      </div>
+    <div className="flex-1 flex flex-col bg-gray-50 min-h-0">
+      {/* Search and filter bar */}
+      <FilterBar
+        filter={filter}
+        tagPool={appState.tagPool}
+        inputLists={currentProject.inputLists}
+        hitCounts={filtered?.hitCounts ?? { input: 0, main: 0 }}
+        onChange={setFilter}
+        searchInputRef={searchInputRef}
+        query={query}
+        queryError={parsedQuery.error}
+        onQueryChange={setQuery}
+        savedViews={currentProject.savedViews ?? []}
+        activeViewId={activeViewId}
+        onSelectView={handleSelectView}
+        onSaveView={onSaveView}
+        onDeleteView={onDeleteView}
+        onSelectMatching={onSelectItems && filtered ? () => onSelectItems([...filtered.matchingIds]) : undefined}
+      />
 
-      {/* Main List Panel - Center */}
-      <div>
-        <MainListPanel
-          items={currentProject.mainList}
-          selectedItems={appState.ui.selectedItems}
-          tagPool={appState.tagPool}
-          onSelectItem={onSelectMainItem}
-          onRemoveItem={onRemoveFromMainList}
-          onAddTag={onAddTag}
-          onRemoveTag={onRemoveTag}
-          onCreateTag={onCreateTag}
-          onMoveUp={(itemId) => {
-            const item = currentProject.mainList.find(i => i.id === itemId);
-            if (item && item.order > 1) {
-              onReorderMainItems(item.order - 1, item.order);
-            }
-          }}
-          onMoveDown={(itemId) => {
-            const item = currentProject.mainList.find(i => i.id === itemId);
-            if (item && item.order < currentProject.mainList.length) {
-              onReorderMainItems(item.order + 1, item.order);
-            }
-          }}
-        />
+      <div className="flex-1 grid grid-cols-[300px_1fr_300px] gap-4 p-4 min-h-0">
+        {/* Input Lists Panel - Left */}
+        <div>
+          <InputListPanel
+            inputLists={currentProject.inputLists}
+            activeListId={appState.ui.activeInputList}
+            selectedItems={appState.ui.selectedItems}
+            tagPool={appState.tagPool}
+            customFields={currentProject.customFields}
+            onSelectList={onSelectInputList}
+            onAddList={onAddInputList}
+            onImportListItems={onImportListItems}
+            onAddItem={onAddItemToList}
+            onEditItem={onEditListItem}
+            onDeleteItem={onDeleteListItem}
+            onRenameList={onRenameList}
+            onDeleteList={onDeleteList}
+            onMoveToMain={onMoveToMainList}
+            onSelectItem={(itemId, isMultiSelect, isShiftSelect) => {
+              focusItem('input', itemId);
+              onSelectMainItem(itemId, isMultiSelect, isShiftSelect, filtered?.hiddenInputIds);
+            }}
+            onAddTag={onAddTag}
+            onRemoveTag={onRemoveTag}
+            onCreateTag={onCreateTag}
+            onEditItemDetails={onEditItemDetails}
+            activeDragItemId={activeDragItemId}
+            duplicates={duplicates ?? undefined}
+            onShowDuplicates={() => setIsDuplicatesModalOpen(true)}
+            usedIn={usedIn}
+            keyboardFocusId={keyboard.panel === 'input' ? keyboard.focusedId : null}
+            keyboardPickedUpId={keyboard.pickedUp?.panel === 'input' ? keyboard.pickedUp.itemId : null}
+            tagInputItemId={tagInputItemId}
+            onTagInputClose={() => setTagInputItemId(null)}
+            detailsItemId={detailsItemId}
+            onDetailsClose={() => setDetailsItemId(null)}
+            onListFocus={() => focusPanel('input')}
+            hiddenItemIds={filtered?.hiddenInputIds}
+            highlightQuery={filter.text}
+            presence={presence}
+          />
+        </div>
+
+        {/* Main List Panel - Center */}
+        <div>
+          <MainListPanel
+            items={currentProject.mainList}
+            selectedItems={appState.ui.selectedItems}
+            tagPool={appState.tagPool}
+            customFields={currentProject.customFields}
+            onSelectItem={(itemId, isMultiSelect, isShiftSelect) => {
+              focusItem('main', itemId);
+              onSelectMainItem(itemId, isMultiSelect, isShiftSelect, filtered?.hiddenMainIds);
+            }}
+            onRemoveItem={onRemoveFromMainList}
+            onAddTag={onAddTag}
+            onRemoveTag={onRemoveTag}
+            onCreateTag={onCreateTag}
+            onEditItemDetails={onEditItemDetails}
+            activeDragItemId={activeDragItemId}
+            onExport={() => setIsExportModalOpen(true)}
+            onCompare={() => setIsComparisonModalOpen(true)}
+            onMergeAutomatically={() => setIsAggregationModalOpen(true)}
+            hasComparisonSession={currentProject.comparisonSession !== undefined}
+            tiers={currentProject.tiers}
+            onEnableTiers={onEnableTiers}
+            onDisableTiers={onDisableTiers}
+            onAddTier={onAddTier}
+            onEditTier={onEditTier}
+            onDeleteTier={onDeleteTier}
+            onMoveTier={onMoveTier}
+            outputLists={outputLists}
+            activeOutputListId={currentProject.activeOutputListId}
+            onAddOutputList={onAddOutputList}
+            onSwitchOutputList={onSwitchOutputList}
+            onRenameOutputList={onRenameOutputList}
+            onDeleteOutputList={onDeleteOutputList}
+            keyboardFocusId={keyboard.panel === 'main' ? keyboard.focusedId : null}
+            keyboardPickedUp={keyboard.pickedUp}
+            tagInputItemId={tagInputItemId}
+            onTagInputClose={() => setTagInputItemId(null)}
+            detailsItemId={detailsItemId}
+            onDetailsClose={() => setDetailsItemId(null)}
+            onListFocus={() => focusPanel('main')}
+            hiddenItemIds={filtered?.hiddenMainIds}
+            highlightQuery={filter.text}
+            presence={presence}
+            onMoveUp={(itemId) => {
+              const item = currentProject.mainList.find(i => i.id === itemId);
+              if (item && item.order > 1) {
+                onReorderMainItems(item.order - 1, item.order);
+              }
+            }}
+            onMoveDown={(itemId) => {
+              const item = currentProject.mainList.find(i => i.id === itemId);
+              if (item && item.order < currentProject.mainList.length) {
+                onReorderMainItems(item.order + 1, item.order);
+              }
+            }}
+          />
+        </div>
+
+        {/* Tag Pool Panel - Right */}
+        <div>
+          <TagPoolPanel
+            tags={appState.tagPool}
+            selectedItemCount={appState.ui.selectedItems.length}
+            onCreateTag={onCreateTag}
+            onEditTag={onEditTag}
+            onDeleteTag={onDeleteTag}
+            onApplyTagToSelected={onApplyTagToSelected}
+            onRemoveAllTags={onRemoveAllTags}
+            onClearSelection={onClearSelection}
+          />
+        </div>
       </div>
 
-      {/* Tag Pool Panel - Right */}
-      <div>
-        <TagPoolPanel
-          tags={appState.tagPool}
-          selectedItemCount={appState.ui.selectedItems.length}
-          onCreateTag={onCreateTag}
-          onEditTag={onEditTag}
-          onDeleteTag={onDeleteTag}
-          onApplyTagToSelected={onApplyTagToSelected}
-          onRemoveAllTags={onRemoveAllTags}
-          onClearSelection={onClearSelection}
+      {/* Keyboard move status */}
+      {(keyboard.pickedUp || keyboard.positionInput) && (
+        <div
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-gray-900 text-white text-sm rounded-md shadow-lg z-40"
+          role="status"
+        >
+          {keyboard.pickedUp
+            ? `Moving to position ${keyboard.pickedUp.position} · Enter to drop, Esc to cancel`
+            : `Send to position ${keyboard.positionInput} · Enter to confirm, Esc to cancel`}
+        </div>
+      )}
+
+      {/* Ranked List Export Modal */}
+      <ListExportModal
+        isOpen={isExportModalOpen}
+        project={currentProject}
+        tagPool={appState.tagPool}
+        onClose={() => setIsExportModalOpen(false)}
+      />
+
+      {/* Pairwise Comparison Modal */}
+      <ComparisonModal
+        isOpen={isComparisonModalOpen}
+        project={currentProject}
+        tagPool={appState.tagPool}
+        onStart={onStartComparison}
+        onAnswer={onAnswerComparison}
+        onEnd={onEndComparison}
+        onClose={() => setIsComparisonModalOpen(false)}
+      />
+
+      {/* Rank Aggregation Modal */}
+      <AggregationModal
+        isOpen={isAggregationModalOpen}
+        project={currentProject}
+        onApply={onApplyAggregation}
+        onClose={() => setIsAggregationModalOpen(false)}
+      />
+
+      {/* Duplicate Review Modal */}
+      {duplicates && (
+        <DuplicatesModal
+          isOpen={isDuplicatesModalOpen}
+          report={duplicates}
+          inputLists={currentProject.inputLists}
+          onLink={onLinkItems}
+          onUnlink={onUnlinkItems}
+          onClose={() => setIsDuplicatesModalOpen(false)}
         />
-      </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -4,18 +4,21 @@ interface AddTagButtonProps {
   onClick: (e: React.MouseEvent) => void;
   title?: string;
   className?: string;
+  tabIndex?: number;
 }
 
 export const AddTagButton: React.FC<AddTagButtonProps> = ({
   onClick,
   title = "Add tag",
-  className = ""
+  className = "",
+  tabIndex
 }) => {
   return (
     <button
       onClick={onClick}
       className={`inline-flex items-center px-2 py-1 border border-dashed border-gray-300 rounded-full text-xs text-gray-500 hover:border-gray-400 hover:text-gray-700 transition-colors ${className}`}
       title={title}
+      tabIndex={tabIndex}
     >
       + Add tag
     </button>
@@ -0,0 +1,23 @@
+import React from 'react';
+import { getMatchRanges } from '../../utils/itemFilter';
+
+interface HighlightTextProps {
+  text: string;
+  query?: string; // Search query whose matched characters are marked
+}
+
+export const HighlightText: React.FC<HighlightTextProps> = ({ text, query = '' }) => {
+  const ranges = getMatchRanges(query, text);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(({ start, end }) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-yellow-200 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
\ No newline at end of file
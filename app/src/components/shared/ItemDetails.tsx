@@ -0,0 +1,181 @@
+import React, { useId, useState } from 'react';
+import type { CustomField, CustomFieldValues, ItemDetails } from '../../types/index';
+import { getFieldEntries, isWebUrl, parseFieldValue, parseUrl } from '../../utils/customFields';
+
+interface ItemDetailsSummaryProps {
+  details: ItemDetails;
+  customFields: CustomField[];
+}
+
+// Notes, link and field values shown under an item's tags
+export const ItemDetailsSummary: React.FC<ItemDetailsSummaryProps> = ({ details, customFields }) => {
+  const entries = getFieldEntries(details.fields, customFields);
+  if (!details.notes && !details.url && entries.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs text-gray-500">
+      {details.notes && (
+        <div className="line-clamp-2 whitespace-pre-line break-words" title={details.notes}>
+          {details.notes}
+        </div>
+      )}
+      {details.url && (
+        isWebUrl(details.url) ? (
+          <a
+            href={details.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            tabIndex={-1}
+            className="block truncate text-blue-600 hover:underline"
+          >
+            {details.url}
+          </a>
+        ) : (
+          <div className="truncate">{details.url}</div>
+        )
+      )}
+      {entries.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {entries.map(({ field, value }) => (
+            <span key={field.id} className="px-1 rounded bg-gray-100 text-gray-700">
+              <span className="font-medium">{field.name}:</span> {value}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ItemDetailsEditorProps {
+  details: ItemDetails;
+  customFields: CustomField[];
+  onSave: (details: ItemDetails) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+// Helper: Field values as the text shown in the editor inputs
+const toFieldTexts = (values: CustomFieldValues | undefined, customFields: CustomField[]): Record<string, string> =>
+  Object.fromEntries(customFields.map(field => [field.id, values?.[field.id] !== undefined ? String(values[field.id]) : '']));
+
+export const ItemDetailsEditor: React.FC<ItemDetailsEditorProps> = ({
+  details,
+  customFields,
+  onSave,
+  onClose
+}) => {
+  const idPrefix = useId();
+  const [notes, setNotes] = useState(details.notes ?? '');
+  const [url, setUrl] = useState(details.url ?? '');
+  const [fieldTexts, setFieldTexts] = useState(() => toFieldTexts(details.fields, customFields));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleSave = () => {
+    const problems: string[] = [];
+    const parsedUrl = parseUrl(url);
+    if (parsedUrl.error) problems.push(parsedUrl.error);
+
+    const fields: CustomFieldValues = {};
+    customFields.forEach(field => {
+      const result = parseFieldValue(field, fieldTexts[field.id] ?? '');
+      if (result.error) problems.push(`${field.name}: ${result.error}`);
+      else if (result.value !== null) fields[field.id] = result.value;
+    });
+
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+    onSave({ notes, url: parsedUrl.value === null ? undefined : String(parsedUrl.value), fields });
+    onClose();
+  };
+
+  // Keys stay inside the editor so the ranking shortcuts do not fire while typing
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey || (e.target as HTMLElement).tagName === 'INPUT')) {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  const renderFieldInput = (field: CustomField, id: string) => {
+    const value = fieldTexts[field.id] ?? '';
+    const onChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setFieldTexts(current => ({ ...current, [field.id]: e.target.value }));
+
+    if (field.type === 'select') {
+      return (
+        <select id={id} value={value} onChange={onChange} className={inputClassName}>
+          <option value="">None</option>
+          {(field.options ?? []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+    // Numbers are typed as text so invalid input reaches the parser instead of being blanked by the browser
+    return (
+      <input
+        id={id}
+        type={field.type === 'date' ? 'date' : 'text'}
+        inputMode={field.type === 'number' ? 'decimal' : undefined}
+        value={value}
+        onChange={onChange}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <div
+      className="item-details-editor mt-2 space-y-2 text-xs"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+    >
+      <label className="block">
+        <span className="block text-gray-700 mb-0.5">Notes</span>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+          className={inputClassName}
+          autoFocus
+        />
+      </label>
+      <label className="block">
+        <span className="block text-gray-700 mb-0.5">Link</span>
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://…"
+          className={inputClassName}
+        />
+      </label>
+      {customFields.map(field => {
+        const id = `${idPrefix}-${field.id}`;
+        return (
+          <div key={field.id}>
+            <label htmlFor={id} className="block text-gray-700 mb-0.5">{field.name}</label>
+            {renderFieldInput(field, id)}
+          </div>
+        );
+      })}
+      {errors.length > 0 && (
+        <ul className="text-red-600 space-y-0.5" role="alert">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      <div className="flex space-x-2">
+        <button onClick={handleSave} className="text-xs text-green-600">Save</button>
+        <button onClick={onClose} className="text-xs text-gray-500">Cancel</button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
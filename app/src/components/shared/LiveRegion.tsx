@@ -0,0 +1,19 @@
+import React from 'react';
+
+export interface Announcement {
+  id: number; // Changes with every announcement so repeated messages are read again
+  message: string;
+}
+
+interface LiveRegionProps {
+  announcement: Announcement;
+}
+
+// Visually hidden region whose updates screen readers read out
+export const LiveRegion: React.FC<LiveRegionProps> = ({ announcement }) => {
+  return (
+    <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+      <span key={announcement.id}>{announcement.message}</span>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,29 @@
+import React from 'react';
+import type { CollabPeer } from '../../collab';
+
+interface PresenceBadgesProps {
+  peers?: CollabPeer[]; // Collaborators who have the item selected
+}
+
+// Helper: Up to two initials of a name
+const getInitials = (name: string): string =>
+  name.trim().split(/\s+/).slice(0, 2).map(word => word[0]?.toUpperCase() ?? '').join('') || '?';
+
+export const PresenceBadges: React.FC<PresenceBadgesProps> = ({ peers = [] }) => {
+  if (peers.length === 0) return null;
+
+  const names = peers.map(peer => peer.name).join(', ');
+  return (
+    <span className="inline-flex -space-x-1" role="img" aria-label={`Selected by ${names}`} title={`Selected by ${names}`}>
+      {peers.map(peer => (
+        <span
+          key={peer.clientId}
+          className="inline-flex items-center justify-center w-5 h-5 rounded-full text-[10px] font-semibold text-white ring-2 ring-white"
+          style={{ backgroundColor: peer.color }}
+        >
+          {getInitials(peer.name)}
+        </span>
+      ))}
+    </span>
+  );
+};
\ No newline at end of file
@@ -6,13 +6,15 @@ interface TagDisplayProps {
   tagPool: Tag[];
   onRemoveTag: (tagId: string) => void;
   showRemoveButton?: boolean;
+  removeButtonTabIndex?: number; // -1 inside list options, whose controls are not tab stops
 }
 
 export const TagDisplay: React.FC<TagDisplayProps> = ({
   tagIds,
   tagPool,
   onRemoveTag,
-  showRemoveButton = true
+  showRemoveButton = true,
+  removeButtonTabIndex
 }) => {
   return (
     <>
@@ -35,6 +37,8 @@ export const TagDisplay: React.FC<TagDisplayProps> = ({
                 }}
                 className="absolute -top-0.5 -right-0.5 opacity-0 group-hover/tag:opacity-100 hover:bg-black hover:bg-opacity-40 rounded-full w-3 h-3 flex items-center justify-center text-[9px] transition-opacity bg-gray-600"
                 title="Remove tag"
+                aria-label={`Remove tag ${tag.name}`}
+                tabIndex={removeButtonTabIndex}
               >
                 ×
               </button>
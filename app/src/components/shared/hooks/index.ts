@@ -1 +1,10 @@
-export { useItemSelection } from './useItemSelection';
\ No newline at end of file
+export { useItemSelection } from './useItemSelection';
+export { useAutoSave } from './useAutoSave';
+export { useTabSync, type TabSyncConflict } from './useTabSync';
+export { useCollaboration, type ItemPresence } from './useCollaboration';
+export { useProjectSnapshots } from './useProjectSnapshots';
+export { useSharedProject } from './useSharedProject';
+export { useProjectStore } from './useProjectStore';
+export { useUndoShortcuts } from './useUndoShortcuts';
+export { useKeyboardRanking } from './useKeyboardRanking';
+export { useVirtualList, VIRTUALIZATION_THRESHOLD } from './useVirtualList';
\ No newline at end of file
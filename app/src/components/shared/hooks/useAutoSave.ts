@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Project, ProjectSummary, Tag } from '../../../types/index';
+import { ProjectStorage } from '../../../utils/projectStorage';
+
+interface UseAutoSaveProps {
+  project: Project | null;
+  tagPool: Tag[];
+  onSaved: (savedProjects: ProjectSummary[]) => void;
+  onError?: (error: string) => void;
+  delay?: number;
+  beforeSave?: (project: Project | null) => boolean; // Returning false skips the save (see useTabSync)
+  afterSave?: (project: Project | null, tagPool: Tag[]) => void; // Called once the tag pool and project were written
+}
+
+/**
+ * Hook for debounced persistence of the current project and tag pool
+ * Pending changes are flushed immediately when the page is unloaded. The error of the last failed
+ * save is kept until a save succeeds, so the UI can show that changes are not stored.
+ * @returns The last save error, if any, and retry to save the current state again right away
+ */
+export const useAutoSave = ({
+  project,
+  tagPool,
+  onSaved,
+  onError,
+  delay = 500,
+  beforeSave,
+  afterSave
+}: UseAutoSaveProps) => {
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const pendingSave = useRef<(() => void) | null>(null);
+  const latestSave = useRef<(() => void) | null>(null);
+  const callbacks = useRef({ onSaved, onError, beforeSave, afterSave });
+  callbacks.current = { onSaved, onError, beforeSave, afterSave };
+
+  useEffect(() => {
+    const fail = (error: string) => {
+      setSaveError(error);
+      callbacks.current.onError?.(error);
+    };
+
+    const save = () => {
+      pendingSave.current = null;
+      if (callbacks.current.beforeSave?.(project) === false) return;
+
+      const tagResult = ProjectStorage.saveTagPool(tagPool);
+      if (!tagResult.success) {
+        fail(tagResult.error!);
+      }
+
+      if (!project) {
+        ProjectStorage.setCurrentProjectId(null);
+        if (tagResult.success) setSaveError(null);
+        callbacks.current.afterSave?.(null, tagPool);
+        return;
+      }
+
+      const projectResult = ProjectStorage.saveProject(project);
+      if (!projectResult.success) {
+        fail(projectResult.error!);
+        return;
+      }
+      ProjectStorage.setCurrentProjectId(project.id);
+      if (tagResult.success) setSaveError(null);
+      callbacks.current.onSaved(projectResult.data!);
+      callbacks.current.afterSave?.(project, tagPool);
+    };
+
+    pendingSave.current = save;
+    latestSave.current = save;
+    const timer = window.setTimeout(save, delay);
+
+    return () => window.clearTimeout(timer);
+  }, [project, tagPool, delay]);
+
+  useEffect(() => {
+    const flush = () => pendingSave.current?.();
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, []);
+
+  const retry = useCallback(() => latestSave.current?.(), []);
+
+  return { saveError, retry };
+};
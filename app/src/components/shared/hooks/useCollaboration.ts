@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import type { ProjectStore } from '../../../store';
+import { generateId } from '../../../store';
+import {
+  CollabSession,
+  createWebSocketTransport,
+  type CollabPeer,
+  type CollabSessionState,
+  type CollabTransport
+} from '../../../collab';
+
+// Who is in the room with this participant, keyed by the items they have selected
+export type ItemPresence = Map<string, CollabPeer[]>;
+
+const NOT_COLLABORATING: CollabSessionState = { status: 'closed', peers: [] };
+const subscribeToNothing = () => () => {};
+
+interface UseCollaborationProps {
+  store: ProjectStore;
+  // Connection to a room; defaults to the WebSocket relay
+  createTransport?: (relayUrl: string, roomId: string) => CollabTransport;
+}
+
+/**
+ * Hook running a collaboration session on the open project
+ * The session ends when the component unmounts or another project is opened.
+ */
+export const useCollaboration = ({ store, createTransport = createWebSocketTransport }: UseCollaborationProps) => {
+  const [clientId] = useState(generateId);
+  const [session, setSession] = useState<{ session: CollabSession; relayUrl: string; roomId: string } | null>(null);
+  const { status, peers } = useSyncExternalStore(
+    session?.session.subscribe ?? subscribeToNothing,
+    session?.session.getState ?? (() => NOT_COLLABORATING)
+  );
+
+  useEffect(() => () => session?.session.close(), [session]);
+
+  const start = useCallback((relayUrl: string, roomId: string, name: string) => {
+    const transport = createTransport(relayUrl, roomId);
+    setSession({ session: new CollabSession(store, transport, { clientId, name }), relayUrl, roomId });
+  }, [store, clientId, createTransport]);
+
+  const reconnect = useCallback(() => {
+    session?.session.reconnect(createTransport(session.relayUrl, session.roomId));
+  }, [session, createTransport]);
+
+  const leave = useCallback(() => setSession(null), []);
+
+  const presence = useMemo(() => {
+    const byItem: ItemPresence = new Map();
+    peers.forEach(peer => peer.selectedItemIds.forEach(itemId => {
+      byItem.set(itemId, [...(byItem.get(itemId) ?? []), peer]);
+    }));
+    return byItem;
+  }, [peers]);
+
+  return { status, peers, presence, roomId: status === 'closed' ? null : session?.roomId ?? null, start, reconnect, leave };
+};
\ No newline at end of file
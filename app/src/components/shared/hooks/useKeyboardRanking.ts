@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  handleRankingKey,
+  INITIAL_KEYBOARD_STATE,
+  type KeyboardCommand,
+  type KeyboardPanel,
+  type KeyboardRankingContext
+} from '../../../utils/keyboardRanking';
+import { isTextInput } from './useUndoShortcuts';
+
+interface UseKeyboardRankingProps {
+  context: KeyboardRankingContext;
+  enabled: boolean; // Off while a dialog has the keyboard
+  onCommand: (command: KeyboardCommand) => void;
+}
+
+// Buttons and links keep Enter and Space for themselves
+const isInteractive = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element?.closest?.('button, a, select');
+};
+
+/**
+ * Hook for the keyboard-only ranking workflow
+ * Tracks the keyboard focus and the picked up item, and turns global key presses into
+ * ranking commands (see utils/keyboardRanking for the key map)
+ */
+export const useKeyboardRanking = ({ context, enabled, onCommand }: UseKeyboardRankingProps) => {
+  const [state, setState] = useState(INITIAL_KEYBOARD_STATE);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextInput(e.target)) return;
+      if ((e.key === 'Enter' || e.key === ' ') && isInteractive(e.target)) return;
+
+      const result = handleRankingKey(state, e, context);
+      if (!result) return;
+
+      e.preventDefault();
+      setState(result.state);
+      if (result.command) onCommand(result.command);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, state, context, onCommand]);
+
+  // Clicking an item moves the keyboard focus there too
+  const focusItem = useCallback((panel: KeyboardPanel, itemId: string) => {
+    setState(current => ({ ...current, panel, focusedId: itemId, pickedUp: null, positionInput: '' }));
+  }, []);
+
+  // Tabbing into a list moves the keyboard over to that panel
+  const focusPanel = useCallback((panel: KeyboardPanel) => {
+    setState(current => current.panel === panel ? current : { ...INITIAL_KEYBOARD_STATE, panel });
+  }, []);
+
+  return { state, focusItem, focusPanel };
+};
\ No newline at end of file
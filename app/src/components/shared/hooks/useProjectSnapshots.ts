@@ -0,0 +1,41 @@
+import { useCallback, useState } from 'react';
+import type { Project, Tag } from '../../../types/index';
+import { ProjectStorage } from '../../../utils/projectStorage';
+import { createSnapshot } from '../../../utils/snapshots';
+import { generateId } from '../../../store';
+
+/**
+ * Hook for the stored snapshots of the open project
+ * Snapshots are kept in storage next to the project, outside the undo history.
+ */
+export const useProjectSnapshots = (project: Project | null, tagPool: Tag[]) => {
+  const projectId = project?.id ?? null;
+  const [loaded, setLoaded] = useState(() => ({
+    projectId,
+    snapshots: projectId ? ProjectStorage.loadSnapshots(projectId) : []
+  }));
+
+  // Load the snapshots of a newly opened project
+  let current = loaded;
+  if (loaded.projectId !== projectId) {
+    current = { projectId, snapshots: projectId ? ProjectStorage.loadSnapshots(projectId) : [] };
+    setLoaded(current);
+  }
+
+  // Returns the reason the snapshot could not be stored, or null
+  const takeSnapshot = useCallback((name: string): string | null => {
+    if (!project) return 'No project is open';
+    const result = ProjectStorage.saveSnapshot(project.id, createSnapshot(name, project, tagPool, generateId()));
+    if (!result.success) return result.error ?? 'Snapshot could not be saved';
+    setLoaded({ projectId: project.id, snapshots: result.data! });
+    return null;
+  }, [project, tagPool]);
+
+  const deleteSnapshot = useCallback((snapshotId: string) => {
+    if (!projectId) return;
+    const result = ProjectStorage.deleteSnapshot(projectId, snapshotId);
+    if (result.success) setLoaded({ projectId, snapshots: result.data! });
+  }, [projectId]);
+
+  return { snapshots: current.snapshots, takeSnapshot, deleteSnapshot };
+};
\ No newline at end of file
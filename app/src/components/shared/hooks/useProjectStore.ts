@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import type { ProjectStore } from '../../../store';
+
+/**
+ * Hook for subscribing a component to a ProjectStore
+ * Returns the current app state plus dispatch and undo/redo controls
+ */
+export const useProjectStore = (store: ProjectStore) => {
+  const { app, history } = useSyncExternalStore(store.subscribe, store.getSnapshot);
+
+  return {
+    state: app,
+    dispatch: store.dispatch,
+    undo: store.undo,
+    redo: store.redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null
+  };
+};
\ No newline at end of file
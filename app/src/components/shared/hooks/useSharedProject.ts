@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ProjectImportResult } from '../../../utils/fileProcessing';
+import { getSharePayload, readShareLink } from '../../../utils/shareLink';
+
+/**
+ * Hook for a project shared through the URL fragment
+ * The fragment is read on load and whenever it changes. dismiss() removes it from the
+ * address bar, so reloading does not offer the same import again.
+ */
+export const useSharedProject = () => {
+  const [sharedProject, setSharedProject] = useState<ProjectImportResult | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    const readFragment = () => {
+      const payload = getSharePayload(window.location.hash);
+      if (payload === null) return;
+      void readShareLink(payload).then(result => {
+        if (isActive) setSharedProject(result);
+      });
+    };
+
+    readFragment();
+    window.addEventListener('hashchange', readFragment);
+    return () => {
+      isActive = false;
+      window.removeEventListener('hashchange', readFragment);
+    };
+  }, []);
+
+  const dismiss = useCallback(() => {
+    setSharedProject(null);
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}`);
+  }, []);
+
+  return { sharedProject, dismiss };
+};
\ No newline at end of file
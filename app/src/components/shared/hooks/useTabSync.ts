@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Project, ProjectSummary, Tag } from '../../../types/index';
+import { ProjectStorage } from '../../../utils/projectStorage';
+import { getRemoteChange, isSameTagPool, mergeTagPools, openTabSyncChannel, type TabSyncChannel } from '../../../utils/tabSync';
+import { generateId } from '../../../store';
+
+interface UseTabSyncProps {
+  project: Project | null;
+  tagPool: Tag[];
+  // Takes over data saved by another tab; project is left out when only the tag pool changed
+  onRemoteChange: (project: Project | undefined, tagPool: Tag[]) => void;
+  onProjectsChanged: (savedProjects: ProjectSummary[]) => void;
+}
+
+// The other tab's version of the open project, while the user has not chosen between the two
+export interface TabSyncConflict {
+  project: Project;
+  tagPool: Tag[];
+}
+
+/**
+ * Hook keeping the open project and the tag pool in sync with other tabs
+ * Wire beforeSave and afterSave into useAutoSave: saves are held back while the other tab's
+ * version is newer, and every save is announced to the other tabs.
+ */
+export const useTabSync = ({ project, tagPool, onRemoteChange, onProjectsChanged }: UseTabSyncProps) => {
+  const [tabId] = useState(generateId);
+  const [conflict, setConflict] = useState<TabSyncConflict | null>(null);
+  const latest = useRef({ project, tagPool, conflict, onRemoteChange, onProjectsChanged });
+  latest.current = { project, tagPool, conflict, onRemoteChange, onProjectsChanged };
+
+  // Version of the open project last loaded or saved, and the tag pool last loaded or saved
+  const base = useRef<{ projectId: string; modifiedAt: Date } | null>(null);
+  const syncedTagPool = useRef(tagPool);
+  const channel = useRef<TabSyncChannel | null>(null);
+
+  const projectId = project?.id ?? null;
+  if ((base.current?.projectId ?? null) !== projectId) {
+    base.current = project ? { projectId: project.id, modifiedAt: project.modifiedAt } : null;
+  }
+
+  // Helper: Take over the stored tag pool, keeping tag edits this tab has not saved yet
+  const takeStoredTags = useCallback((storedTags: Tag[]): Tag[] => {
+    const localTags = latest.current.tagPool;
+    const tags = localTags === syncedTagPool.current
+      ? storedTags
+      : mergeTagPools(syncedTagPool.current, localTags, storedTags);
+    syncedTagPool.current = storedTags;
+    return tags;
+  }, []);
+
+  // Helper: Take over a stored version of the open project; false when there was nothing to take over
+  const takeStoredProject = useCallback((stored: Project | null): boolean => {
+    const { project: local, tagPool: localTags } = latest.current;
+    const change = getRemoteChange(local, base.current?.modifiedAt ?? null, stored);
+    if (change === 'none') return false;
+
+    const storedTags = ProjectStorage.loadTagPool() ?? localTags;
+    if (change === 'conflict') {
+      setConflict({ project: stored!, tagPool: storedTags });
+      return true;
+    }
+    base.current = { projectId: stored!.id, modifiedAt: stored!.modifiedAt };
+    latest.current.onRemoteChange(stored!, takeStoredTags(storedTags));
+    return true;
+  }, [takeStoredTags]);
+
+  useEffect(() => {
+    channel.current = openTabSyncChannel(tabId, (message) => {
+      const { project: local, onRemoteChange: takeOver, onProjectsChanged: refresh } = latest.current;
+      refresh(ProjectStorage.loadProjectIndex());
+
+      if (local && message.projectId === local.id && takeStoredProject(ProjectStorage.loadProject(local.id))) return;
+
+      const storedTags = ProjectStorage.loadTagPool();
+      if (storedTags && !isSameTagPool(storedTags, syncedTagPool.current)) {
+        takeOver(undefined, takeStoredTags(storedTags));
+      }
+    });
+    return () => {
+      channel.current?.close();
+      channel.current = null;
+    };
+  }, [tabId, takeStoredProject, takeStoredTags]);
+
+  // Holds a save back while a conflict is open or when another tab saved a newer version
+  const beforeSave = useCallback((current: Project | null): boolean => {
+    if (latest.current.conflict) return false;
+    return !current || !takeStoredProject(ProjectStorage.loadProject(current.id));
+  }, [takeStoredProject]);
+
+  const afterSave = useCallback((saved: Project | null, savedTags: Tag[]) => {
+    if (saved) base.current = { projectId: saved.id, modifiedAt: saved.modifiedAt };
+    syncedTagPool.current = savedTags;
+    channel.current?.post({ type: 'saved', tabId, projectId: saved?.id ?? null });
+  }, [tabId]);
+
+  // Keeping this tab's version stamps it as the newest, so the next save overwrites the other tab's
+  const keepLocalVersion = useCallback(() => {
+    const { project: local, tagPool: localTags, conflict: open } = latest.current;
+    if (!open || !local) return;
+    base.current = { projectId: open.project.id, modifiedAt: open.project.modifiedAt };
+    setConflict(null);
+    latest.current.conflict = null;
+    latest.current.onRemoteChange({ ...local, modifiedAt: new Date() }, localTags);
+  }, []);
+
+  const keepRemoteVersion = useCallback(() => {
+    const open = latest.current.conflict;
+    if (!open) return;
+    base.current = { projectId: open.project.id, modifiedAt: open.project.modifiedAt };
+    syncedTagPool.current = open.tagPool;
+    setConflict(null);
+    latest.current.conflict = null;
+    latest.current.onRemoteChange(open.project, open.tagPool);
+  }, []);
+
+  return { conflict, beforeSave, afterSave, keepLocalVersion, keepRemoteVersion };
+};
\ No newline at end of file
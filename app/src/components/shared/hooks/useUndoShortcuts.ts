@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+
+interface UseUndoShortcutsProps {
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Text fields keep their native undo behaviour
+export const isTextInput = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.isContentEditable
+  );
+};
+
+/**
+ * Hook for global undo/redo keyboard shortcuts
+ * Ctrl+Z undoes; Ctrl+Shift+Z and Ctrl+Y redo (Cmd on macOS)
+ */
+export const useUndoShortcuts = ({ onUndo, onRedo }: UseUndoShortcutsProps) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+};
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+// Lists at or below this size render every row; virtualization only kicks in for large lists
+export const VIRTUALIZATION_THRESHOLD = 100;
+
+const NO_PINNED_KEYS: string[] = [];
+
+interface UseVirtualListProps {
+  count: number;
+  getItemKey: (index: number) => string;
+  estimateSize: number; // Initial row height in px until the row has been measured
+  overscan?: number; // Extra rows rendered above and below the viewport
+  threshold?: number;
+  pinnedKeys?: string[]; // Rows that must stay mounted (e.g. the active drag source)
+}
+
+export interface VirtualListResult {
+  scrollRef: (node: HTMLElement | null) => void;
+  measureRef: (node: HTMLElement | null) => (() => void) | undefined; // Attach to each row with data-virtual-key
+  isVirtualized: boolean;
+  indices: number[]; // Rows to render in the normal flow, in order
+  detachedIndices: number[]; // Pinned rows outside the window, rendered out of view
+  paddingTop: number;
+  paddingBottom: number;
+  scrollToIndex: (index: number) => void; // Brings a row into view, whether or not it is mounted
+}
+
+// Helper: First index whose row ends below the given offset
+const findIndexAtOffset = (offsets: number[], offset: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * Hook for windowed rendering of long, variable-height lists
+ * Rows are laid out in normal flow between two spacer heights, so drop zones and
+ * spacing inside a row keep working. Row heights are measured as rows mount.
+ */
+export const useVirtualList = ({
+  count,
+  getItemKey,
+  estimateSize,
+  overscan = 8,
+  threshold = VIRTUALIZATION_THRESHOLD,
+  pinnedKeys = NO_PINNED_KEYS
+}: UseVirtualListProps): VirtualListResult => {
+  const isVirtualized = count > threshold;
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Measured row heights by key; replaced rather than mutated so offsets recompute on change
+  const [sizes, setSizes] = useState(() => new Map<string, number>());
+  const scrollNode = useRef<HTMLElement | null>(null);
+  const rowObserver = useRef<ResizeObserver | null>(null);
+
+  const recordSize = useCallback((node: HTMLElement) => {
+    const key = node.dataset.virtualKey;
+    const height = node.offsetHeight;
+    // Unlaid-out rows (e.g. hidden panels) report 0; keep the estimate instead
+    if (!key || height === 0) return;
+    setSizes(current => current.get(key) === height ? current : new Map(current).set(key, height));
+  }, []);
+
+  useEffect(() => {
+    if (typeof ResizeObserver === 'undefined') return;
+    rowObserver.current = new ResizeObserver(entries => {
+      entries.forEach(entry => recordSize(entry.target as HTMLElement));
+    });
+    return () => rowObserver.current?.disconnect();
+  }, [recordSize]);
+
+  const measureRef = useCallback((node: HTMLElement | null) => {
+    if (!node) return;
+    recordSize(node);
+    const observer = rowObserver.current;
+    observer?.observe(node);
+    return () => observer?.unobserve(node);
+  }, [recordSize]);
+
+  const handleScroll = useCallback(() => {
+    if (scrollNode.current) setScrollTop(scrollNode.current.scrollTop);
+  }, []);
+
+  const viewportObserver = useRef<ResizeObserver | null>(null);
+  const scrollRef = useCallback((node: HTMLElement | null) => {
+    scrollNode.current?.removeEventListener('scroll', handleScroll);
+    viewportObserver.current?.disconnect();
+    scrollNode.current = node;
+    if (!node) return;
+
+    node.addEventListener('scroll', handleScroll, { passive: true });
+    setViewportHeight(node.clientHeight);
+    setScrollTop(node.scrollTop);
+    if (typeof ResizeObserver !== 'undefined') {
+      viewportObserver.current = new ResizeObserver(() => setViewportHeight(node.clientHeight));
+      viewportObserver.current.observe(node);
+    }
+  }, [handleScroll]);
+
+  // Cumulative row offsets; offsets[i] is the top of row i, offsets[count] the total height
+  const offsets = useMemo(() => {
+    if (!isVirtualized) return [];
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (sizes.get(getItemKey(i)) ?? estimateSize);
+    }
+    return result;
+  }, [isVirtualized, count, getItemKey, estimateSize, sizes]);
+
+  // Rows outside the window are not mounted, so they cannot scroll themselves into view
+  const scrollToIndex = useCallback((index: number) => {
+    const node = scrollNode.current;
+    if (!isVirtualized || !node || index < 0 || index >= count) return;
+
+    if (offsets[index] < node.scrollTop) {
+      node.scrollTop = offsets[index];
+    } else if (offsets[index + 1] > node.scrollTop + node.clientHeight) {
+      node.scrollTop = offsets[index + 1] - node.clientHeight;
+    }
+  }, [isVirtualized, count, offsets]);
+
+  return useMemo(() => {
+    if (!isVirtualized) {
+      return {
+        scrollRef,
+        measureRef,
+        scrollToIndex,
+        isVirtualized,
+        indices: Array.from({ length: count }, (_, i) => i),
+        detachedIndices: [],
+        paddingTop: 0,
+        paddingBottom: 0
+      };
+    }
+
+    // Before the container has been laid out, render a screenful based on the estimate
+    const height = viewportHeight > 0 ? viewportHeight : estimateSize * 20;
+    const first = Math.max(0, findIndexAtOffset(offsets, scrollTop) - overscan);
+    const last = Math.min(count - 1, findIndexAtOffset(offsets, scrollTop + height) + overscan);
+
+    const indices: number[] = [];
+    for (let i = first; i <= last; i++) indices.push(i);
+
+    const pinned = new Set(pinnedKeys);
+    const detachedIndices: number[] = [];
+    if (pinned.size > 0) {
+      for (let i = 0; i < count; i++) {
+        if ((i < first || i > last) && pinned.has(getItemKey(i))) detachedIndices.push(i);
+      }
+    }
+
+    return {
+      scrollRef,
+      measureRef,
+      scrollToIndex,
+      isVirtualized,
+      indices,
+      detachedIndices,
+      paddingTop: offsets[first],
+      paddingBottom: offsets[count] - offsets[last + 1]
+    };
+  }, [isVirtualized, count, offsets, scrollTop, viewportHeight, estimateSize, overscan, pinnedKeys, getItemKey, scrollRef, measureRef, scrollToIndex]);
+};
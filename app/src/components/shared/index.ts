@@ -1,3 +1,7 @@
 export { TagInput } from './TagInput';
 export { TagDisplay } from './TagDisplay';
-export { AddTagButton } from './AddTagButton';
\ No newline at end of file
+export { AddTagButton } from './AddTagButton';
+export { LiveRegion, type Announcement } from './LiveRegion';
+export { ItemDetailsSummary, ItemDetailsEditor } from './ItemDetails';
+export { HighlightText } from './HighlightText';
+export { PresenceBadges } from './PresenceBadges';
\ No newline at end of file
@@ -0,0 +1,126 @@
+import type { AppState } from '../types/index';
+import {
+  createHistory,
+  pushHistory,
+  rebaseHistory,
+  undoHistory,
+  redoHistory,
+  DEFAULT_HISTORY_LIMIT,
+  type HistorySnapshot,
+  type HistoryState
+} from '../utils/history';
+import { ACTION_LABELS, type ProjectAction } from './actions';
+import { projectReducer } from './projectReducer';
+
+export interface ProjectStoreState {
+  app: AppState;
+  history: HistoryState;
+}
+
+export interface ProjectStoreOptions {
+  historyLimit?: number;
+}
+
+type Listener = () => void;
+
+const toSnapshot = (state: AppState): HistorySnapshot => ({
+  project: state.currentProject,
+  tagPool: state.tagPool
+});
+
+/**
+ * Framework-free container for application state with undo/redo
+ * Undoable actions dispatched in the same synchronous task (e.g. creating a tag
+ * and applying it to an item) are grouped into a single undo step.
+ */
+export class ProjectStore {
+  private state: ProjectStoreState;
+  private listeners = new Set<Listener>();
+  private historyLimit: number;
+  private isGrouping = false;
+
+  constructor(initialState: AppState, options: ProjectStoreOptions = {}) {
+    this.state = { app: initialState, history: createHistory() };
+    this.historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+  }
+
+  getState(): AppState {
+    return this.state.app;
+  }
+
+  // Combined app and history state; a new object is created on every change
+  getSnapshot = (): ProjectStoreState => {
+    return this.state;
+  };
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  dispatch = (action: ProjectAction): void => {
+    const prev = this.state.app;
+    const next = projectReducer(prev, action);
+    if (next === prev) return;
+
+    let history = this.state.history;
+    const label = ACTION_LABELS[action.type];
+    const undoableChanged = next.currentProject !== prev.currentProject || next.tagPool !== prev.tagPool;
+
+    if (prev.currentProject?.id !== next.currentProject?.id) {
+      // A different project was opened: history belongs to the old one
+      history = createHistory();
+    } else if (action.type === 'SYNC_PROJECT') {
+      // Another tab's or a collaborator's version: undo keeps their changes and takes back only this copy's
+      history = rebaseHistory(history, toSnapshot(prev), toSnapshot(next));
+    } else if (label && undoableChanged && !this.isGrouping) {
+      history = pushHistory(history, label, toSnapshot(prev), this.historyLimit);
+      this.startGroup();
+    }
+
+    this.setState({ app: next, history });
+  };
+
+  undo = (): void => {
+    const result = undoHistory(this.state.history, toSnapshot(this.state.app));
+    if (!result) return;
+
+    this.setState({
+      app: projectReducer(this.state.app, { type: 'RESTORE_SNAPSHOT', snapshot: result.snapshot }),
+      history: result.history
+    });
+  };
+
+  redo = (): void => {
+    const result = redoHistory(this.state.history, toSnapshot(this.state.app));
+    if (!result) return;
+
+    this.setState({
+      app: projectReducer(this.state.app, { type: 'RESTORE_SNAPSHOT', snapshot: result.snapshot }),
+      history: result.history
+    });
+  };
+
+  canUndo(): boolean {
+    return this.state.history.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.state.history.future.length > 0;
+  }
+
+  // Helper: Group further undoable actions until the current task completes
+  private startGroup() {
+    this.isGrouping = true;
+    queueMicrotask(() => {
+      this.isGrouping = false;
+    });
+  }
+
+  private setState(state: ProjectStoreState) {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,251 @@
+import type {
+  CustomField,
+  CustomFieldType,
+  InputList,
+  InputListItem,
+  ItemDetails,
+  OutputList,
+  Project,
+  ProjectSummary,
+  SavedView,
+  Tag,
+  Tier
+} from '../types/index';
+import type { HistorySnapshot } from '../utils/history';
+import type { ImportedListItem } from '../utils/fileProcessing';
+import { validateTag } from '../utils/tagValidation';
+import type { ComparisonScope } from '../utils/comparisonSort';
+import { DEFAULT_TIERS } from '../utils/tiers';
+
+// Every state change in the app is described by one of these actions
+export type ProjectAction =
+  // Project lifecycle
+  | { type: 'LOAD_PROJECT'; project: Project | null; tagPool?: Tag[] }
+  | { type: 'SET_SAVED_PROJECTS'; savedProjects: ProjectSummary[] }
+  | { type: 'RENAME_PROJECT'; name: string }
+  | { type: 'RESTORE_SNAPSHOT'; snapshot: HistorySnapshot }
+  // Data saved by another tab; project is left out when only the tag pool changed
+  | { type: 'SYNC_PROJECT'; project?: Project; tagPool: Tag[] }
+  // Input lists
+  | { type: 'SELECT_INPUT_LIST'; listId: string }
+  | { type: 'ADD_INPUT_LIST'; list: InputList }
+  | { type: 'RENAME_LIST'; listId: string; name: string }
+  | { type: 'DELETE_LIST'; listId: string }
+  | { type: 'IMPORT_LIST_ITEMS'; listId: string; items: InputListItem[]; newTags?: Tag[]; rankedItemIds?: string[] }
+  | { type: 'ADD_ITEM'; listId: string; item: InputListItem }
+  | { type: 'EDIT_ITEM'; listId: string; itemId: string; content: string }
+  | { type: 'DELETE_ITEM'; listId: string; itemId: string }
+  | { type: 'EDIT_ITEM_DETAILS'; itemId: string; details: ItemDetails } // Replaces notes, link and field values
+  | { type: 'LINK_ITEMS'; itemIds: string[] }
+  | { type: 'UNLINK_ITEMS'; itemIds: string[] }
+  // Main list
+  // tierId puts the item into a tier (null: unsorted); leaving it out keeps the current tier
+  | { type: 'MOVE_TO_MAIN'; listId: string; itemId: string; position?: number; tierId?: string | null }
+  | { type: 'REMOVE_FROM_MAIN'; itemId: string }
+  | { type: 'REORDER_MAIN'; fromOrder: number; toOrder: number }
+  | { type: 'MOVE_MAIN_ITEM'; itemId: string; position: number; tierId?: string | null }
+  | { type: 'MOVE_MAIN_ITEMS'; itemIds: string[]; position: number; tierId?: string | null }
+  // Output lists; mainListId names the existing main list when the first extra list is added
+  | { type: 'ADD_OUTPUT_LIST'; list: OutputList; mainListId: string }
+  | { type: 'SWITCH_OUTPUT_LIST'; listId: string }
+  | { type: 'RENAME_OUTPUT_LIST'; listId: string; name: string }
+  | { type: 'DELETE_OUTPUT_LIST'; listId: string }
+  | { type: 'MOVE_TO_OUTPUT_LIST'; listId: string; itemIds: string[] }
+  // Tier list mode
+  | { type: 'ENABLE_TIERS'; tiers: Tier[] }
+  | { type: 'DISABLE_TIERS' }
+  | { type: 'ADD_TIER'; tier: Tier }
+  | { type: 'EDIT_TIER'; tierId: string; name: string; color: string }
+  | { type: 'DELETE_TIER'; tierId: string }
+  | { type: 'MOVE_TIER'; tierId: string; index: number }
+  // Custom item fields
+  | { type: 'ADD_CUSTOM_FIELD'; field: CustomField }
+  | { type: 'EDIT_CUSTOM_FIELD'; fieldId: string; name: string; options?: string[] }
+  | { type: 'DELETE_CUSTOM_FIELD'; fieldId: string }
+  // Saved views; saving a view with an existing ID replaces it
+  | { type: 'SAVE_VIEW'; view: SavedView }
+  | { type: 'DELETE_VIEW'; viewId: string }
+  // Pairwise comparison ranking
+  | { type: 'START_COMPARISON'; scope: ComparisonScope }
+  | { type: 'ANSWER_COMPARISON'; candidateIsBetter: boolean }
+  | { type: 'END_COMPARISON' }
+  // Rank aggregation (ordered representatives of the merged ranking)
+  | { type: 'APPLY_AGGREGATION'; ranking: Array<{ itemId: string; listId: string }> }
+  // Tags
+  | { type: 'CREATE_TAG'; tag: Tag }
+  | { type: 'EDIT_TAG'; tagId: string; name: string; color: string }
+  | { type: 'DELETE_TAG'; tagId: string }
+  | { type: 'ADD_TAG'; itemIds: string[]; tagId: string }
+  | { type: 'REMOVE_TAG'; itemIds: string[]; tagId: string }
+  | { type: 'REMOVE_ALL_TAGS'; itemIds: string[] }
+  // Selection
+  | { type: 'SELECT_ITEM'; itemId: string; isMultiSelect: boolean; isShiftSelect?: boolean; hiddenItemIds?: string[] } // Hidden items are left out of shift ranges
+  | { type: 'SELECT_ITEMS'; itemIds: string[] } // Replaces the selection
+  | { type: 'CLEAR_SELECTION' };
+
+export type ProjectActionType = ProjectAction['type'];
+
+// Undo history labels; actions without a label are not undoable
+export const ACTION_LABELS: Partial<Record<ProjectActionType, string>> = {
+  RENAME_PROJECT: 'Rename project',
+  ADD_INPUT_LIST: 'Add list',
+  RENAME_LIST: 'Rename list',
+  DELETE_LIST: 'Delete list',
+  IMPORT_LIST_ITEMS: 'Import items',
+  ADD_ITEM: 'Add item',
+  EDIT_ITEM: 'Edit item',
+  DELETE_ITEM: 'Delete item',
+  EDIT_ITEM_DETAILS: 'Edit item details',
+  LINK_ITEMS: 'Link duplicates',
+  UNLINK_ITEMS: 'Unlink duplicates',
+  MOVE_TO_MAIN: 'Move to main list',
+  REMOVE_FROM_MAIN: 'Remove from main list',
+  REORDER_MAIN: 'Reorder main list',
+  MOVE_MAIN_ITEM: 'Reorder main list',
+  MOVE_MAIN_ITEMS: 'Reorder main list',
+  ADD_OUTPUT_LIST: 'Add output list',
+  RENAME_OUTPUT_LIST: 'Rename output list',
+  DELETE_OUTPUT_LIST: 'Delete output list',
+  MOVE_TO_OUTPUT_LIST: 'Move to output list',
+  ENABLE_TIERS: 'Switch to tier list',
+  DISABLE_TIERS: 'Switch to linear list',
+  ADD_TIER: 'Add tier',
+  EDIT_TIER: 'Edit tier',
+  DELETE_TIER: 'Delete tier',
+  MOVE_TIER: 'Move tier',
+  ADD_CUSTOM_FIELD: 'Add field',
+  EDIT_CUSTOM_FIELD: 'Edit field',
+  DELETE_CUSTOM_FIELD: 'Delete field',
+  SAVE_VIEW: 'Save view',
+  DELETE_VIEW: 'Delete view',
+  START_COMPARISON: 'Start comparison',
+  ANSWER_COMPARISON: 'Compare items',
+  END_COMPARISON: 'End comparison',
+  APPLY_AGGREGATION: 'Merge automatically',
+  CREATE_TAG: 'Create tag',
+  EDIT_TAG: 'Edit tag',
+  DELETE_TAG: 'Delete tag',
+  ADD_TAG: 'Add tag',
+  REMOVE_TAG: 'Remove tag',
+  REMOVE_ALL_TAGS: 'Remove all tags'
+};
+
+// Color for tags created from imported tag names (matches TagInput's default)
+const IMPORTED_TAG_COLOR = '#10b981';
+
+// Generate a unique ID for new entities
+export const generateId = (): string => {
+  return `${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+};
+
+// Action creators for actions that need generated IDs or timestamps
+export const projectActions = {
+  newProject: (name = 'New Project'): ProjectAction => ({
+    type: 'LOAD_PROJECT',
+    project: {
+      id: generateId(),
+      name,
+      createdAt: new Date(),
+      modifiedAt: new Date(),
+      inputLists: [],
+      mainList: []
+    }
+  }),
+
+  addInputList: (name: string): ProjectAction => ({
+    type: 'ADD_INPUT_LIST',
+    list: { id: generateId(), name, items: [] }
+  }),
+
+  // Plain strings become untagged items; structured items may carry tag names, notes, a link,
+  // custom field values and a rank
+  importListItems: (
+    listId: string,
+    entries: Array<string | ImportedListItem>,
+    tagPool: Tag[] = [],
+    inputLists: InputList[] = []
+  ): ProjectAction => {
+    const newTags: Tag[] = [];
+    const resolveTagId = (name: string): string | null => {
+      const existing = [...tagPool, ...newTags].find(tag => tag.name.toLowerCase() === name.trim().toLowerCase());
+      if (existing) return existing.id;
+      if (!validateTag(name, [...tagPool, ...newTags], inputLists).isValid) return null;
+      const tag: Tag = { id: generateId(), name: name.trim(), color: IMPORTED_TAG_COLOR, createdAt: new Date(), usageCount: 0 };
+      newTags.push(tag);
+      return tag.id;
+    };
+
+    const ranked: Array<{ id: string; rank: number }> = [];
+    const items = entries.map((entry): InputListItem => {
+      const imported = typeof entry === 'string' ? { content: entry } : entry;
+      const id = generateId();
+      const tagIds = (imported.tags ?? [])
+        .map(resolveTagId)
+        .filter((tagId): tagId is string => tagId !== null);
+      if (imported.rank !== undefined) ranked.push({ id, rank: imported.rank });
+
+      return {
+        id,
+        content: imported.content.trim(),
+        isUsed: false,
+        tags: [...new Set(tagIds)],
+        ...(imported.notes ? { notes: imported.notes } : {}),
+        ...(imported.url ? { url: imported.url } : {}),
+        ...(imported.fields && Object.keys(imported.fields).length > 0 ? { fields: { ...imported.fields } } : {})
+      };
+    });
+
+    return {
+      type: 'IMPORT_LIST_ITEMS',
+      listId,
+      items,
+      ...(newTags.length > 0 ? { newTags } : {}),
+      // Stable sort keeps file order for equal ranks
+      ...(ranked.length > 0 ? { rankedItemIds: ranked.sort((a, b) => a.rank - b.rank).map(entry => entry.id) } : {})
+    };
+  },
+
+  addOutputList: (name: string): ProjectAction => ({
+    type: 'ADD_OUTPUT_LIST',
+    list: { id: generateId(), name, items: [] },
+    mainListId: generateId()
+  }),
+
+  enableTiers: (): ProjectAction => ({
+    type: 'ENABLE_TIERS',
+    tiers: DEFAULT_TIERS.map(tier => ({ id: generateId(), ...tier }))
+  }),
+
+  addTier: (name: string, color: string): ProjectAction => ({
+    type: 'ADD_TIER',
+    tier: { id: generateId(), name: name.trim(), color }
+  }),
+
+  addCustomField: (name: string, type: CustomFieldType, options: string[] = []): ProjectAction => ({
+    type: 'ADD_CUSTOM_FIELD',
+    field: { id: generateId(), name: name.trim(), type, ...(type === 'select' ? { options } : {}) }
+  }),
+
+  // Leaving out viewId saves a new view
+  saveView: (name: string, query: string, viewId = generateId()): ProjectAction & { type: 'SAVE_VIEW' } => ({
+    type: 'SAVE_VIEW',
+    view: { id: viewId, name: name.trim(), query: query.trim() }
+  }),
+
+  addItem: (listId: string, content: string): ProjectAction => ({
+    type: 'ADD_ITEM',
+    listId,
+    item: { id: generateId(), content, isUsed: false, tags: [] }
+  }),
+
+  createTag: (name: string, color: string): ProjectAction & { type: 'CREATE_TAG' } => ({
+    type: 'CREATE_TAG',
+    tag: {
+      id: generateId(),
+      name: name.trim(),
+      color,
+      createdAt: new Date(),
+      usageCount: 0
+    }
+  })
+};
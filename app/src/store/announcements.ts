@@ -0,0 +1,118 @@
+// Screen reader announcements
+// Drags are narrated while they happen; the outcome of every change to the ranking or to
+// item tags is announced once the action has run, whether it came from a drag, a keyboard
+// shortcut or a button.
+import type { AppState } from '../types/index';
+import type { ProjectAction } from './actions';
+import type { DragData, DropData } from './dragDrop';
+import { findItem } from './projectReducer';
+
+// Helper: Content of an item, falling back to a generic name
+const itemName = (state: AppState, itemId: string): string => {
+  const item = state.currentProject ? findItem(state.currentProject, itemId) : null;
+  return item?.content ?? 'Item';
+};
+
+// Helper: "Apple" for one item, "3 items" for several
+const itemsName = (state: AppState, itemIds: string[]): string =>
+  itemIds.length === 1 ? itemName(state, itemIds[0]) : `${itemIds.length} items`;
+
+// Helper: Where an item ended up in the main list
+const positionOf = (state: AppState, itemId: string): string | null => {
+  const mainList = state.currentProject?.mainList ?? [];
+  const item = mainList.find(entry => entry.id === itemId);
+  return item ? `position ${item.order} of ${mainList.length}` : null;
+};
+
+// Helper: Name of a tag in the pool
+const tagName = (state: AppState, tagId: string): string =>
+  state.tagPool.find(tag => tag.id === tagId)?.name ?? 'Tag';
+
+/**
+ * Describes what an action changed, for screen reader users
+ * @param action - The dispatched action
+ * @param prev - State before the action
+ * @param next - State after the action
+ * @returns Announcement text, or null when the action changed nothing worth announcing
+ */
+export const describeAction = (action: ProjectAction, prev: AppState, next: AppState): string | null => {
+  if (next === prev) return null;
+
+  switch (action.type) {
+    case 'MOVE_TO_MAIN':
+    case 'MOVE_MAIN_ITEM': {
+      const position = positionOf(next, action.itemId);
+      return position && `${itemName(prev, action.itemId)} moved to ${position}`;
+    }
+    case 'REORDER_MAIN': {
+      const item = prev.currentProject?.mainList.find(entry => entry.order === action.fromOrder);
+      const position = item && positionOf(next, item.id);
+      return position ? `${item.content} moved to ${position}` : null;
+    }
+    case 'MOVE_MAIN_ITEMS': {
+      const orders = action.itemIds
+        .map(itemId => next.currentProject?.mainList.find(entry => entry.id === itemId)?.order)
+        .filter((order): order is number => order !== undefined);
+      if (orders.length === 0) return null;
+      return `${itemsName(prev, action.itemIds)} moved to position ${Math.min(...orders)} of ${next.currentProject!.mainList.length}`;
+    }
+    case 'REMOVE_FROM_MAIN':
+      return `${itemName(prev, action.itemId)} removed from the main list`;
+    case 'MOVE_TO_OUTPUT_LIST': {
+      const list = next.currentProject?.outputLists?.find(entry => entry.id === action.listId);
+      return `${itemsName(prev, action.itemIds)} moved to ${list?.name ?? 'another list'}`;
+    }
+    case 'ADD_TAG':
+      return `Tag ${tagName(next, action.tagId)} added to ${itemsName(prev, action.itemIds)}`;
+    case 'REMOVE_TAG':
+      return `Tag ${tagName(prev, action.tagId)} removed from ${itemsName(prev, action.itemIds)}`;
+    case 'REMOVE_ALL_TAGS':
+      return `All tags removed from ${itemsName(prev, action.itemIds)}`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Names what is being dragged
+ * @param dragData - Data attached to the dragged element
+ * @param state - Current state
+ * @returns "Apple", "Apple and 2 other items" or "Tag Urgent"
+ */
+export const describeDragged = (dragData: DragData, state: AppState): string => {
+  if (dragData.type === 'tag') return `Tag ${dragData.tagName ?? ''}`.trim();
+
+  const content = dragData.content ?? itemName(state, dragData.itemId!);
+  const selected = state.ui.selectedItems;
+  const isMultiSelect = dragData.type === 'main-item' && selected.includes(dragData.itemId!) && selected.length > 1;
+  return isMultiSelect ? `${content} and ${selected.length - 1} other item${selected.length === 2 ? '' : 's'}` : content;
+};
+
+/**
+ * Describes the drop target a drag is over
+ * @param dragData - Data attached to the dragged element
+ * @param dropData - Data attached to the drop target, or null when over nothing
+ * @param state - Current state
+ * @returns Announcement text
+ */
+export const describeDragOver = (dragData: DragData, dropData: DropData | null, state: AppState): string => {
+  const dragged = describeDragged(dragData, state);
+  if (!dropData) return `${dragged} is no longer over a drop target`;
+
+  switch (dropData.type) {
+    case 'main-list':
+    case 'main-list-position': {
+      // Items from an input list add one place to the main list
+      const total = (state.currentProject?.mainList.length ?? 0) + (dragData.type === 'input-item' ? 1 : 0);
+      const position = Math.min(dropData.position ?? total, total);
+      return `${dragged} is over position ${position} of ${total}`;
+    }
+    case 'main-list-item':
+    case 'input-list-item':
+      return `${dragged} is over ${itemName(state, dropData.itemId!)}`;
+    case 'output-list': {
+      const list = state.currentProject?.outputLists?.find(entry => entry.id === dropData.listId);
+      return `${dragged} is over output list ${list?.name ?? ''}`.trim();
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,78 @@
+import type { ProjectAction } from './actions';
+
+// Drag and drop data interfaces
+export interface DragData {
+  type: 'input-item' | 'main-item' | 'tag';
+  itemId?: string;
+  sourceListId?: string;
+  content?: string;
+  isMultiSelect?: boolean;
+  selectedItems?: string[];
+  // Tag-specific fields
+  tagId?: string;
+  tagName?: string;
+  tagColor?: string;
+}
+
+export interface DropData {
+  type: 'main-list' | 'main-list-position' | 'main-list-item' | 'input-list-item' | 'output-list';
+  listId?: string;
+  position?: number;
+  itemId?: string;
+  tierId?: string | null; // Tier list mode: the tier a position belongs to (null: unsorted)
+}
+
+/**
+ * Resolves a completed drag into the action it should dispatch
+ * @param dragData - Data attached to the dragged element
+ * @param dropData - Data attached to the drop target
+ * @param selectedItems - Currently selected item IDs (multi-select drags move/tag all of them)
+ * @returns The action to dispatch, or null if the drop is not supported
+ */
+export const getDropAction = (
+  dragData: DragData,
+  dropData: DropData,
+  selectedItems: string[]
+): ProjectAction | null => {
+  const isPartOfMultiSelect = (itemId: string) =>
+    selectedItems.includes(itemId) && selectedItems.length > 1;
+  // Dropping into a tier also moves the item into that tier
+  const tier = dropData.tierId !== undefined ? { tierId: dropData.tierId } : {};
+
+  if (dragData.type === 'input-item' && dropData.type === 'main-list') {
+    // Moving from input list to main list
+    return { type: 'MOVE_TO_MAIN', listId: dragData.sourceListId!, itemId: dragData.itemId! };
+  }
+
+  if (dragData.type === 'input-item' && dropData.type === 'main-list-position') {
+    // Moving from input list to specific position in main list
+    return {
+      type: 'MOVE_TO_MAIN',
+      listId: dragData.sourceListId!,
+      itemId: dragData.itemId!,
+      position: dropData.position!,
+      ...tier
+    };
+  }
+
+  if (dragData.type === 'main-item' && dropData.type === 'main-list-position') {
+    // Reordering within main list
+    return isPartOfMultiSelect(dragData.itemId!)
+      ? { type: 'MOVE_MAIN_ITEMS', itemIds: selectedItems, position: dropData.position!, ...tier }
+      : { type: 'MOVE_MAIN_ITEM', itemId: dragData.itemId!, position: dropData.position!, ...tier };
+  }
+
+  if ((dragData.type === 'input-item' || dragData.type === 'main-item') && dropData.type === 'output-list') {
+    // Dropping on an output list tab moves the item, or the selection it is part of, into that list
+    const itemIds = isPartOfMultiSelect(dragData.itemId!) ? selectedItems : [dragData.itemId!];
+    return { type: 'MOVE_TO_OUTPUT_LIST', listId: dropData.listId!, itemIds };
+  }
+
+  if (dragData.type === 'tag' && (dropData.type === 'main-list-item' || dropData.type === 'input-list-item')) {
+    // Dropping tag on an item applies it to the whole selection when the item is part of it
+    const targetItemIds = isPartOfMultiSelect(dropData.itemId!) ? selectedItems : [dropData.itemId!];
+    return { type: 'ADD_TAG', itemIds: targetItemIds, tagId: dragData.tagId! };
+  }
+
+  return null;
+};
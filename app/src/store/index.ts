@@ -0,0 +1,5 @@
+export { ProjectStore, type ProjectStoreState, type ProjectStoreOptions } from './ProjectStore';
+export { projectReducer, findItem, findItemWithContext, normalizeMainListOrder } from './projectReducer';
+export { projectActions, generateId, ACTION_LABELS, type ProjectAction, type ProjectActionType } from './actions';
+export { getDropAction, type DragData, type DropData } from './dragDrop';
+export { describeAction, describeDragged, describeDragOver } from './announcements';
\ No newline at end of file
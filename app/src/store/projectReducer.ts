@@ -0,0 +1,1075 @@
+import type { AppState, ComparisonSession, InputListItem, ItemDetails, MainListItem, Project } from '../types/index';
+import { validateTag, validateTagForEdit } from '../utils/tagValidation';
+import {
+  answerComparison,
+  createComparisonSession,
+  reconcileComparisonSession
+} from '../utils/comparisonSort';
+import { addItemLink, removeItemLinks } from '../utils/duplicateDetection';
+import { sortByTier } from '../utils/tiers';
+import { cleanFieldValues, validateFieldName } from '../utils/customFields';
+import { parseTagQuery, validateViewName } from '../utils/tagQuery';
+import {
+  activateOutputList,
+  DEFAULT_OUTPUT_LIST_NAME,
+  getParkedItems,
+  updateParkedItems
+} from '../utils/outputLists';
+import type { ProjectAction } from './actions';
+
+// Apply a change to the current project and stamp its modified time.
+// In tier list mode the main list is regrouped by tier after every change.
+const updateProject = (
+  state: AppState,
+  now: Date,
+  update: (project: Project) => Project
+): AppState => {
+  if (!state.currentProject) return state;
+  const project = update(state.currentProject);
+  return {
+    ...state,
+    currentProject: {
+      ...project,
+      ...(project.tiers ? { mainList: sortByTier(project.mainList, project.tiers) } : {}),
+      modifiedAt: now
+    }
+  };
+};
+
+// Find an item in the main list or any input list
+export const findItem = (project: Project, itemId: string): MainListItem | InputListItem | null => {
+  const mainItem = project.mainList.find(item => item.id === itemId);
+  if (mainItem) return mainItem;
+
+  for (const list of project.inputLists) {
+    const inputItem = list.items.find(item => item.id === itemId);
+    if (inputItem) return inputItem;
+  }
+  return null;
+};
+
+// Find an item together with the list it lives in (used for range selection)
+export const findItemWithContext = (project: Project, itemId: string) => {
+  const mainItemIndex = project.mainList.findIndex(item => item.id === itemId);
+  if (mainItemIndex !== -1) {
+    return {
+      type: 'main-list' as const,
+      list: project.mainList as Array<MainListItem | InputListItem>,
+      index: mainItemIndex,
+      item: project.mainList[mainItemIndex],
+      listId: null
+    };
+  }
+
+  for (const inputList of project.inputLists) {
+    const itemIndex = inputList.items.findIndex(item => item.id === itemId);
+    if (itemIndex !== -1) {
+      return {
+        type: 'input-list' as const,
+        list: inputList.items as Array<MainListItem | InputListItem>,
+        index: itemIndex,
+        item: inputList.items[itemIndex],
+        listId: inputList.id
+      };
+    }
+  }
+
+  return null;
+};
+
+// Main list sorted by rank with contiguous 1-based order values
+export const normalizeMainListOrder = (mainList: MainListItem[]): MainListItem[] =>
+  [...mainList]
+    .sort((a, b) => a.order - b.order)
+    .map((item, index) => item.order === index + 1 ? item : { ...item, order: index + 1 });
+
+// Apply a change to every item in the output lists and input lists
+const mapAllItems = (
+  project: Project,
+  update: <T extends InputListItem | MainListItem>(item: T) => T
+): Project => ({
+  ...updateParkedItems(project, items => items.map(update)),
+  mainList: project.mainList.map(update),
+  inputLists: project.inputLists.map(list => ({ ...list, items: list.items.map(update) }))
+});
+
+// Apply a tag transformation to matching items in the output lists and input lists
+const updateItemTags = (
+  project: Project,
+  itemIds: string[],
+  update: (tags: string[]) => string[]
+): Project => mapAllItems(project, item =>
+  itemIds.includes(item.id) ? { ...item, tags: update(item.tags) } : item
+);
+
+// Replace an item's notes, link and field values; empty ones are left off
+const setItemDetails = <T extends InputListItem | MainListItem>(item: T, details: ItemDetails): T => {
+  const next = { ...item };
+  delete next.notes;
+  delete next.url;
+  delete next.fields;
+  const notes = details.notes?.trim();
+  return {
+    ...next,
+    ...(notes ? { notes } : {}),
+    ...(details.url ? { url: details.url } : {}),
+    ...(details.fields && Object.keys(details.fields).length > 0 ? { fields: details.fields } : {})
+  };
+};
+
+// Drop field values that no longer fit the project's custom fields
+const cleanItemFields = (project: Project): Project => {
+  const fields = project.customFields ?? [];
+  return mapAllItems(project, item => {
+    if (!item.fields) return item;
+    const cleaned = cleanFieldValues(item.fields, fields);
+    return Object.keys(cleaned ?? {}).length === Object.keys(item.fields).length
+      ? item
+      : setItemDetails(item, { notes: item.notes, url: item.url, fields: cleaned });
+  });
+};
+
+// Create the main list entry for an input item, preserving its ID for tag synchronization
+const toMainListItem = (item: InputListItem, sourceListId: string, order: number): MainListItem => ({
+  id: item.id,
+  content: item.content,
+  sourceListId,
+  tags: [...item.tags],
+  order,
+  ...(item.notes ? { notes: item.notes } : {}),
+  ...(item.url ? { url: item.url } : {}),
+  ...(item.fields ? { fields: { ...item.fields } } : {})
+});
+
+// Put a main list item into a tier (null: unsorted); undefined leaves it where it is
+const assignTier = (item: MainListItem, tierId: string | null | undefined): MainListItem => {
+  if (tierId === undefined || (item.tierId ?? null) === tierId) return item;
+  const moved = { ...item };
+  if (tierId === null) {
+    delete moved.tierId;
+  } else {
+    moved.tierId = tierId;
+  }
+  return moved;
+};
+
+const setItemUsed = (project: Project, listId: string, itemId: string, isUsed: boolean): Project => ({
+  ...project,
+  inputLists: project.inputLists.map(list =>
+    list.id === listId ? {
+      ...list,
+      items: list.items.map(item =>
+        item.id === itemId ? { ...item, isUsed } : item
+      )
+    } : list
+  )
+});
+
+// IDs of items ranked in any output list
+const getRankedIds = (project: Project): Set<string> =>
+  new Set([...project.mainList, ...getParkedItems(project)].map(item => item.id));
+
+// Linked items stand for one idea: all of them are used while any of them is ranked.
+// Also drops links to deleted items.
+const syncLinkedItems = (project: Project): Project => {
+  if (!project.itemLinks) return project;
+
+  const mainIds = getRankedIds(project);
+  const existingIds = new Set([
+    ...mainIds,
+    ...project.inputLists.flatMap(list => list.items.map(item => item.id))
+  ]);
+  const itemLinks = project.itemLinks
+    .map(group => group.filter(id => existingIds.has(id)))
+    .filter(group => group.length > 1);
+  const linkedUsage = new Map<string, boolean>();
+  itemLinks.forEach(group => {
+    const isUsed = group.some(id => mainIds.has(id));
+    group.forEach(id => linkedUsage.set(id, isUsed));
+  });
+
+  return {
+    ...project,
+    itemLinks: itemLinks.length > 0 ? itemLinks : undefined,
+    inputLists: project.inputLists.map(list => ({
+      ...list,
+      items: list.items.map(item => {
+        const isUsed = linkedUsage.get(item.id);
+        return isUsed === undefined || isUsed === item.isUsed ? item : { ...item, isUsed };
+      })
+    }))
+  };
+};
+
+// Give ranked members of a link group the tags of every other member, keeping usage counts in step
+const mergeLinkedTags = (state: AppState, itemIds: string[]): AppState =>
+  itemIds.reduce((current, itemId) => {
+    const project = current.currentProject;
+    const group = project?.itemLinks?.find(ids => ids.includes(itemId));
+    const mainItem = project && [...project.mainList, ...getParkedItems(project)].find(item => item.id === itemId);
+    if (!project || !group || !mainItem) return current;
+
+    const addedTagIds = [...new Set(group.flatMap(id => findItem(project, id)?.tags ?? []))]
+      .filter(tagId => !mainItem.tags.includes(tagId));
+    if (addedTagIds.length === 0) return current;
+
+    return {
+      ...current,
+      currentProject: updateItemTags(project, [itemId], tags => [...tags, ...addedTagIds]),
+      tagPool: current.tagPool.map(tag =>
+        addedTagIds.includes(tag.id) ? { ...tag, usageCount: tag.usageCount + 1 } : tag
+      )
+    };
+  }, state);
+
+// Write a comparison ranking into the main list: ranked items first, the rest after in their current order
+const applyComparisonRanking = (project: Project, session: ComparisonSession): Project => {
+  const mainItems = new Map(project.mainList.map(item => [item.id, item]));
+  const inputItems = new Map(project.inputLists.flatMap(list =>
+    list.items.map(item => [item.id, { item, listId: list.id }] as const)
+  ));
+  const rankedIds = new Set(session.sortedIds);
+  const newlyRankedIds = new Set(session.sortedIds.filter(id => !mainItems.has(id)));
+
+  const ranked = session.sortedIds.map(id => {
+    const mainItem = mainItems.get(id);
+    if (mainItem) return mainItem;
+    const { item, listId } = inputItems.get(id)!;
+    return toMainListItem(item, listId, 0);
+  });
+  const rest = normalizeMainListOrder(project.mainList).filter(item => !rankedIds.has(item.id));
+
+  return syncLinkedItems({
+    ...project,
+    inputLists: newlyRankedIds.size === 0 ? project.inputLists : project.inputLists.map(list => ({
+      ...list,
+      items: list.items.map(item => newlyRankedIds.has(item.id) ? { ...item, isUsed: true } : item)
+    })),
+    mainList: [...ranked, ...rest].map((item, index) =>
+      item.order === index + 1 ? item : { ...item, order: index + 1 }
+    )
+  });
+};
+
+// Replace the main list with an aggregated ranking; items that drop out of it become unused again.
+// Items ranked in other output lists stay there.
+const applyAggregatedRanking = (project: Project, ranking: Array<{ itemId: string; listId: string }>): Project => {
+  const mainItems = new Map(project.mainList.map(item => [item.id, item]));
+  const inputItems = new Map(project.inputLists.flatMap(list => list.items.map(item => [item.id, item] as const)));
+  const parkedIds = new Set(getParkedItems(project).map(item => item.id));
+  const rankedIds = new Set(ranking.map(entry => entry.itemId).filter(id => !parkedIds.has(id)));
+
+  const mainList = ranking.filter(({ itemId }) => rankedIds.has(itemId)).flatMap(({ itemId, listId }) => {
+    // Items already on the main list keep their edits
+    const mainItem = mainItems.get(itemId);
+    if (mainItem) return [mainItem];
+    const inputItem = inputItems.get(itemId);
+    return inputItem ? [toMainListItem(inputItem, listId, 0)] : [];
+  });
+
+  return {
+    ...project,
+    inputLists: project.inputLists.map(list => ({
+      ...list,
+      items: list.items.map(item => {
+        const isUsed = rankedIds.has(item.id) || (item.isUsed && !mainItems.has(item.id));
+        return item.isUsed === isUsed ? item : { ...item, isUsed };
+      })
+    })),
+    mainList: mainList.map((item, index) => item.order === index + 1 ? item : { ...item, order: index + 1 })
+  };
+};
+
+// Drop items of the previous main list from the selection once another output list is shown
+const deselectMainItems = (before: AppState, after: AppState): AppState => {
+  const mainIds = new Set(before.currentProject?.mainList.map(item => item.id));
+  return {
+    ...after,
+    ui: {
+      ...after.ui,
+      selectedItems: after.ui.selectedItems.filter(id => !mainIds.has(id)),
+      anchorItem: after.ui.anchorItem && mainIds.has(after.ui.anchorItem) ? null : after.ui.anchorItem
+    }
+  };
+};
+
+const selectItem = (
+  state: AppState,
+  itemId: string,
+  isMultiSelect: boolean,
+  isShiftSelect: boolean,
+  hiddenItemIds: string[]
+): AppState => {
+  if (!state.currentProject) return state;
+
+  let newSelectedItems: string[];
+  let newAnchorItem: string | null = state.ui.anchorItem;
+
+  if (isShiftSelect && state.ui.anchorItem) {
+    // Range selection: find both anchor and clicked items
+    const anchorContext = findItemWithContext(state.currentProject, state.ui.anchorItem);
+    const clickedContext = findItemWithContext(state.currentProject, itemId);
+
+    // Only allow range selection within the same list type and list
+    if (anchorContext && clickedContext &&
+        anchorContext.type === clickedContext.type &&
+        anchorContext.listId === clickedContext.listId) {
+      const startIndex = Math.min(anchorContext.index, clickedContext.index);
+      const endIndex = Math.max(anchorContext.index, clickedContext.index);
+      // Items the filter hides are skipped; the range covers what the user sees between the two
+      const hidden = new Set(hiddenItemIds);
+      const rangeItems = anchorContext.list
+        .slice(startIndex, endIndex + 1)
+        .map(item => item.id)
+        .filter(id => !hidden.has(id));
+
+      // Combine existing selection with range selection
+      const existingSelection = new Set(state.ui.selectedItems);
+      rangeItems.forEach(id => existingSelection.add(id));
+      newSelectedItems = Array.from(existingSelection);
+    } else {
+      // Fallback to regular selection if contexts don't match or not found
+      newSelectedItems = [itemId];
+      newAnchorItem = itemId;
+    }
+  } else if (isMultiSelect) {
+    // Toggle selection in multi-select mode
+    if (state.ui.selectedItems.includes(itemId)) {
+      newSelectedItems = state.ui.selectedItems.filter(id => id !== itemId);
+      if (state.ui.anchorItem === itemId) {
+        newAnchorItem = null;
+      }
+    } else {
+      newSelectedItems = [...state.ui.selectedItems, itemId];
+      if (!state.ui.anchorItem) {
+        newAnchorItem = itemId;
+      }
+    }
+  } else {
+    newSelectedItems = [itemId];
+    newAnchorItem = itemId;
+  }
+
+  return {
+    ...state,
+    ui: { ...state.ui, selectedItems: newSelectedItems, anchorItem: newAnchorItem }
+  };
+};
+
+/**
+ * Pure reducer for all application state changes
+ * @param state - Current application state
+ * @param action - Action describing the change
+ * @param now - Timestamp used for modifiedAt (injected to keep the reducer pure)
+ * @returns The next state, or the same object when the action is a no-op
+ */
+export const projectReducer = (
+  state: AppState,
+  action: ProjectAction,
+  now: Date = new Date()
+): AppState => {
+  switch (action.type) {
+    case 'LOAD_PROJECT':
+      return {
+        ...state,
+        currentProject: action.project,
+        tagPool: action.tagPool ?? state.tagPool,
+        ui: {
+          ...state.ui,
+          selectedItems: [],
+          anchorItem: null,
+          activeInputList: action.project?.inputLists[0]?.id ?? null
+        }
+      };
+
+    case 'SET_SAVED_PROJECTS':
+      return { ...state, savedProjects: action.savedProjects };
+
+    case 'RENAME_PROJECT':
+      return updateProject(state, now, project => ({ ...project, name: action.name }));
+
+    case 'RESTORE_SNAPSHOT':
+      // Undo and redo are changes too: a fresh modifiedAt lets other tabs pick the restored version up
+      return {
+        ...state,
+        currentProject: action.snapshot.project && { ...action.snapshot.project, modifiedAt: now },
+        tagPool: action.snapshot.tagPool
+      };
+
+    case 'SYNC_PROJECT': {
+      const project = action.project ?? state.currentProject;
+      if (!project) return { ...state, tagPool: action.tagPool };
+
+      // Keep the tab's list and selection where they still exist
+      const itemIds = new Set([
+        ...project.inputLists.flatMap(list => list.items.map(item => item.id)),
+        ...project.mainList.map(item => item.id)
+      ]);
+      const hasActiveList = project.inputLists.some(list => list.id === state.ui.activeInputList);
+      return {
+        ...state,
+        currentProject: project,
+        tagPool: action.tagPool,
+        ui: {
+          selectedItems: state.ui.selectedItems.filter(id => itemIds.has(id)),
+          anchorItem: state.ui.anchorItem && itemIds.has(state.ui.anchorItem) ? state.ui.anchorItem : null,
+          activeInputList: hasActiveList ? state.ui.activeInputList : project.inputLists[0]?.id ?? null
+        }
+      };
+    }
+
+    case 'SELECT_INPUT_LIST':
+      return { ...state, ui: { ...state.ui, activeInputList: action.listId } };
+
+    case 'ADD_INPUT_LIST':
+      if (!state.currentProject) return state;
+      return {
+        ...updateProject(state, now, project => ({
+          ...project,
+          inputLists: [...project.inputLists, action.list]
+        })),
+        ui: { ...state.ui, activeInputList: action.list.id }
+      };
+
+    case 'RENAME_LIST':
+      return updateProject(state, now, project => ({
+        ...project,
+        inputLists: project.inputLists.map(list =>
+          list.id === action.listId ? { ...list, name: action.name } : list
+        )
+      }));
+
+    case 'DELETE_LIST':
+      if (!state.currentProject) return state;
+      return {
+        ...updateProject(state, now, project => syncLinkedItems({
+          ...project,
+          inputLists: project.inputLists.filter(list => list.id !== action.listId)
+        })),
+        ui: {
+          ...state.ui,
+          activeInputList: state.ui.activeInputList === action.listId ? null : state.ui.activeInputList
+        }
+      };
+
+    case 'ADD_ITEM':
+      return updateProject(state, now, project => ({
+        ...project,
+        inputLists: project.inputLists.map(list =>
+          list.id === action.listId ? { ...list, items: [...list.items, action.item] } : list
+        )
+      }));
+
+    case 'IMPORT_LIST_ITEMS': {
+      if (!state.currentProject?.inputLists.some(list => list.id === action.listId)) return state;
+
+      // Items with a pre-existing rank go straight onto the end of the main list
+      const rankedIds = new Set(action.rankedItemIds ?? []);
+      const items = action.items.map(item => rankedIds.has(item.id) ? { ...item, isUsed: true } : item);
+      const itemsById = new Map(items.map(item => [item.id, item]));
+
+      const usage = new Map<string, number>();
+      items.forEach(item => item.tags.forEach(tagId => usage.set(tagId, (usage.get(tagId) ?? 0) + 1)));
+
+      return {
+        ...updateProject(state, now, project => ({
+          ...project,
+          inputLists: project.inputLists.map(list =>
+            list.id === action.listId ? { ...list, items: [...list.items, ...items] } : list
+          ),
+          mainList: [
+            ...project.mainList,
+            ...(action.rankedItemIds ?? []).map((itemId, index) =>
+              toMainListItem(itemsById.get(itemId)!, action.listId, project.mainList.length + index + 1)
+            )
+          ]
+        })),
+        tagPool: [...state.tagPool, ...(action.newTags ?? [])].map(tag =>
+          usage.has(tag.id) ? { ...tag, usageCount: tag.usageCount + usage.get(tag.id)! } : tag
+        )
+      };
+    }
+
+    case 'EDIT_ITEM':
+      return updateProject(state, now, project => ({
+        ...project,
+        inputLists: project.inputLists.map(list =>
+          list.id === action.listId ? {
+            ...list,
+            items: list.items.map(item =>
+              item.id === action.itemId ? { ...item, content: action.content } : item
+            )
+          } : list
+        ),
+        // Also update the corresponding item in the output lists if it exists
+        mainList: project.mainList.map(item =>
+          item.id === action.itemId ? { ...item, content: action.content } : item
+        ),
+        outputLists: updateParkedItems(project, items => items.map(item =>
+          item.id === action.itemId ? { ...item, content: action.content } : item
+        )).outputLists
+      }));
+
+    case 'EDIT_ITEM_DETAILS': {
+      if (!state.currentProject || !findItem(state.currentProject, action.itemId)) return state;
+      // The ranked copy and the input item carry the same details
+      const fields = cleanFieldValues(action.details.fields, state.currentProject.customFields ?? []);
+      return updateProject(state, now, project => mapAllItems(project, item =>
+        item.id === action.itemId ? setItemDetails(item, { ...action.details, fields }) : item
+      ));
+    }
+
+    case 'DELETE_ITEM':
+      return updateProject(state, now, project => syncLinkedItems({
+        ...project,
+        inputLists: project.inputLists.map(list =>
+          list.id === action.listId ? {
+            ...list,
+            items: list.items.filter(item => item.id !== action.itemId)
+          } : list
+        ),
+        // Also remove the corresponding item from the output lists if it exists
+        mainList: normalizeMainListOrder(project.mainList.filter(item => item.id !== action.itemId)),
+        outputLists: updateParkedItems(project, items =>
+          normalizeMainListOrder(items.filter(item => item.id !== action.itemId))
+        ).outputLists
+      }));
+
+    case 'LINK_ITEMS': {
+      if (!state.currentProject || action.itemIds.length < 2) return state;
+
+      const linked = updateProject(state, now, project => syncLinkedItems({
+        ...project,
+        itemLinks: addItemLink(project.itemLinks ?? [], action.itemIds)
+      }));
+      // Members that are already ranked collect the tags of the rest
+      const group = linked.currentProject!.itemLinks!.find(ids => ids.includes(action.itemIds[0]))!;
+      return mergeLinkedTags(linked, group);
+    }
+
+    case 'UNLINK_ITEMS': {
+      if (!state.currentProject?.itemLinks) return state;
+
+      return updateProject(state, now, project => {
+        const mainIds = getRankedIds(project);
+        const unlinked = syncLinkedItems({ ...project, itemLinks: removeItemLinks(project.itemLinks ?? [], action.itemIds) });
+        // Unlinked items are used only if they are ranked themselves
+        return {
+          ...unlinked,
+          inputLists: unlinked.inputLists.map(list => ({
+            ...list,
+            items: list.items.map(item =>
+              action.itemIds.includes(item.id) && item.isUsed !== mainIds.has(item.id)
+                ? { ...item, isUsed: mainIds.has(item.id) }
+                : item
+            )
+          }))
+        };
+      });
+    }
+
+    case 'MOVE_TO_MAIN': {
+      if (!state.currentProject) return state;
+
+      const sourceList = state.currentProject.inputLists.find(list => list.id === action.listId);
+      const sourceItem = sourceList?.items.find(item => item.id === action.itemId);
+      if (!sourceItem || sourceItem.isUsed) return state;
+
+      const moved = updateProject(state, now, project => {
+        const withUsed = setItemUsed(project, action.listId, action.itemId, true);
+
+        if (action.position === undefined) {
+          return {
+            ...withUsed,
+            mainList: [
+              ...project.mainList,
+              assignTier(toMainListItem(sourceItem, action.listId, project.mainList.length + 1), action.tierId)
+            ]
+          };
+        }
+
+        // Insert at position and shift later items down
+        const position = action.position;
+        return {
+          ...withUsed,
+          mainList: [
+            ...project.mainList.filter(item => item.order < position),
+            assignTier(toMainListItem(sourceItem, action.listId, position), action.tierId),
+            ...project.mainList.filter(item => item.order >= position).map(item => ({
+              ...item,
+              order: item.order + 1
+            }))
+          ]
+        };
+      });
+      // Linked duplicates are used up along with it and lend it their tags
+      return mergeLinkedTags(updateProject(moved, now, syncLinkedItems), [action.itemId]);
+    }
+
+    case 'REMOVE_FROM_MAIN': {
+      if (!state.currentProject) return state;
+
+      const itemToRemove = state.currentProject.mainList.find(item => item.id === action.itemId);
+      if (!itemToRemove) return state;
+
+      return {
+        ...updateProject(state, now, project => syncLinkedItems({
+          ...setItemUsed(project, itemToRemove.sourceListId, itemToRemove.id, false),
+          mainList: normalizeMainListOrder(project.mainList.filter(item => item.id !== action.itemId))
+        })),
+        ui: {
+          ...state.ui,
+          selectedItems: state.ui.selectedItems.filter(id => id !== action.itemId)
+        }
+      };
+    }
+
+    case 'REORDER_MAIN': {
+      const { fromOrder, toOrder } = action;
+      if (!state.currentProject || fromOrder === toOrder) return state;
+
+      return updateProject(state, now, project => ({
+        ...project,
+        mainList: project.mainList.map(item => {
+          if (item.order === fromOrder) {
+            return { ...item, order: toOrder };
+          } else if (fromOrder < toOrder && item.order > fromOrder && item.order <= toOrder) {
+            return { ...item, order: item.order - 1 };
+          } else if (fromOrder > toOrder && item.order >= toOrder && item.order < fromOrder) {
+            return { ...item, order: item.order + 1 };
+          }
+          return item;
+        })
+      }));
+    }
+
+    case 'MOVE_MAIN_ITEM': {
+      if (!state.currentProject) return state;
+
+      const movingItem = state.currentProject.mainList.find(item => item.id === action.itemId);
+      if (!movingItem) return state;
+
+      const oldPosition = movingItem.order;
+      const newPosition = action.position;
+      if (oldPosition === newPosition && assignTier(movingItem, action.tierId) === movingItem) return state;
+
+      return updateProject(state, now, project => ({
+        ...project,
+        mainList: project.mainList.map(listItem => {
+          if (listItem.id === action.itemId) {
+            return assignTier({ ...listItem, order: newPosition }, action.tierId);
+          }
+
+          if (oldPosition < newPosition) {
+            // Moving down - shift items up
+            if (listItem.order > oldPosition && listItem.order <= newPosition) {
+              return { ...listItem, order: listItem.order - 1 };
+            }
+          } else if (listItem.order >= newPosition && listItem.order < oldPosition) {
+            // Moving up - shift items down
+            return { ...listItem, order: listItem.order + 1 };
+          }
+
+          return listItem;
+        })
+      }));
+    }
+
+    case 'MOVE_MAIN_ITEMS': {
+      if (!state.currentProject) return state;
+
+      const selectedItems = state.currentProject.mainList
+        .filter(item => action.itemIds.includes(item.id))
+        .sort((a, b) => a.order - b.order);
+      if (selectedItems.length === 0) return state;
+
+      const remainingItems = state.currentProject.mainList
+        .filter(item => !action.itemIds.includes(item.id))
+        .sort((a, b) => a.order - b.order);
+
+      // Insert selected items before the remaining item currently at the target position
+      const newMainList: MainListItem[] = [];
+      let currentOrder = 1;
+
+      for (const item of remainingItems) {
+        if (currentOrder === action.position) {
+          for (const selectedItem of selectedItems) {
+            newMainList.push(assignTier({ ...selectedItem, order: currentOrder++ }, action.tierId));
+          }
+        }
+        newMainList.push({ ...item, order: currentOrder++ });
+      }
+
+      // If position is at the end, add selected items at the end
+      if (action.position > remainingItems.length) {
+        for (const selectedItem of selectedItems) {
+          newMainList.push(assignTier({ ...selectedItem, order: currentOrder++ }, action.tierId));
+        }
+      }
+
+      return updateProject(state, now, project => ({ ...project, mainList: newMainList }));
+    }
+
+    case 'ADD_OUTPUT_LIST':
+      // The new list becomes active; the first extra list also turns the main list into a named one
+      if (!state.currentProject || !action.list.name.trim()) return state;
+      return deselectMainItems(state, updateProject(state, now, project => activateOutputList({
+        ...project,
+        outputLists: [
+          ...(project.outputLists ?? [{ id: action.mainListId, name: DEFAULT_OUTPUT_LIST_NAME, items: [] }]),
+          action.list
+        ],
+        activeOutputListId: project.activeOutputListId ?? action.mainListId
+      }, action.list.id)));
+
+    case 'SWITCH_OUTPUT_LIST':
+      if (!state.currentProject?.outputLists?.some(list => list.id === action.listId) ||
+          state.currentProject.activeOutputListId === action.listId) return state;
+      return deselectMainItems(state, updateProject(state, now, project => activateOutputList(project, action.listId)));
+
+    case 'RENAME_OUTPUT_LIST':
+      if (!state.currentProject?.outputLists || !action.name.trim()) return state;
+      return updateProject(state, now, project => ({
+        ...project,
+        outputLists: project.outputLists!.map(list =>
+          list.id === action.listId ? { ...list, name: action.name.trim() } : list
+        )
+      }));
+
+    case 'DELETE_OUTPUT_LIST': {
+      // The last output list cannot be deleted; a deleted active list hands over to its neighbour
+      const lists = state.currentProject?.outputLists ?? [];
+      const index = lists.findIndex(list => list.id === action.listId);
+      if (index === -1 || lists.length < 2) return state;
+
+      const isActive = state.currentProject!.activeOutputListId === action.listId;
+      const next = updateProject(state, now, project => {
+        const current = isActive ? activateOutputList(project, lists[index === 0 ? 1 : index - 1].id) : project;
+        // Items of the deleted list go back to their input lists
+        const freedIds = new Set(current.outputLists!.find(list => list.id === action.listId)!.items.map(item => item.id));
+        return syncLinkedItems({
+          ...current,
+          outputLists: current.outputLists!.filter(list => list.id !== action.listId),
+          inputLists: current.inputLists.map(list => ({
+            ...list,
+            items: list.items.map(item => freedIds.has(item.id) ? { ...item, isUsed: false } : item)
+          }))
+        });
+      });
+      return isActive ? deselectMainItems(state, next) : next;
+    }
+
+    case 'MOVE_TO_OUTPUT_LIST': {
+      const project = state.currentProject;
+      if (!project?.outputLists?.some(list => list.id === action.listId)) return state;
+
+      // Main list items keep their relative rank; unused input items follow in list order
+      const isActive = project.activeOutputListId === action.listId;
+      const mainItems = isActive ? [] : normalizeMainListOrder(project.mainList).filter(item => action.itemIds.includes(item.id));
+      const inputItems = project.inputLists.flatMap(list => list.items
+        .filter(item => !item.isUsed && action.itemIds.includes(item.id))
+        .map(item => toMainListItem(item, list.id, 0)));
+      const moving = [...mainItems, ...inputItems];
+      if (moving.length === 0) return state;
+
+      const movingIds = new Set(moving.map(item => item.id));
+      const newlyUsedIds = new Set(inputItems.map(item => item.id));
+      const appendTo = (items: MainListItem[]) => [...normalizeMainListOrder(items), ...moving]
+        .map((item, index) => item.order === index + 1 ? item : { ...item, order: index + 1 });
+
+      const moved = updateProject(state, now, current => syncLinkedItems({
+        ...current,
+        inputLists: current.inputLists.map(list => ({
+          ...list,
+          items: list.items.map(item => newlyUsedIds.has(item.id) ? { ...item, isUsed: true } : item)
+        })),
+        mainList: isActive
+          ? appendTo(current.mainList)
+          : normalizeMainListOrder(current.mainList.filter(item => !movingIds.has(item.id))),
+        outputLists: current.outputLists!.map(list =>
+          list.id === action.listId && !isActive ? { ...list, items: appendTo(list.items) } : list
+        )
+      }));
+      // Linked duplicates are used up along with newly ranked items and lend them their tags
+      const next = mergeLinkedTags(moved, [...newlyUsedIds]);
+      return isActive ? next : {
+        ...next,
+        ui: { ...next.ui, selectedItems: next.ui.selectedItems.filter(id => !mainItems.some(item => item.id === id)) }
+      };
+    }
+
+    case 'ENABLE_TIERS':
+      // Every ranked item starts out unsorted
+      if (!state.currentProject || state.currentProject.tiers) return state;
+      return updateProject(state, now, project => ({ ...project, tiers: action.tiers }));
+
+    case 'DISABLE_TIERS':
+      // The linear order already runs through the tiers, so it is kept as is
+      if (!state.currentProject?.tiers) return state;
+      return updateProject(state, now, project => ({
+        ...project,
+        tiers: undefined,
+        mainList: project.mainList.map(item => assignTier(item, null))
+      }));
+
+    case 'ADD_TIER':
+      if (!state.currentProject?.tiers || !action.tier.name) return state;
+      return updateProject(state, now, project => ({ ...project, tiers: [...project.tiers!, action.tier] }));
+
+    case 'EDIT_TIER':
+      if (!action.name.trim()) return state;
+      return updateProject(state, now, project => ({
+        ...project,
+        tiers: project.tiers?.map(tier =>
+          tier.id === action.tierId ? { ...tier, name: action.name.trim(), color: action.color } : tier
+        )
+      }));
+
+    case 'DELETE_TIER':
+      // Items of a deleted tier become unsorted
+      if (!state.currentProject?.tiers?.some(tier => tier.id === action.tierId)) return state;
+      return updateProject(state, now, project => ({
+        ...project,
+        tiers: project.tiers!.filter(tier => tier.id !== action.tierId),
+        mainList: project.mainList.map(item => item.tierId === action.tierId ? assignTier(item, null) : item)
+      }));
+
+    case 'MOVE_TIER': {
+      const tiers = state.currentProject?.tiers;
+      const tier = tiers?.find(entry => entry.id === action.tierId);
+      if (!tiers || !tier) return state;
+
+      const rest = tiers.filter(entry => entry.id !== action.tierId);
+      const index = Math.max(0, Math.min(action.index, rest.length));
+      if (tiers[index] === tier) return state;
+      return updateProject(state, now, project => ({
+        ...project,
+        tiers: [...rest.slice(0, index), tier, ...rest.slice(index)]
+      }));
+    }
+
+    case 'ADD_CUSTOM_FIELD': {
+      const fields = state.currentProject?.customFields ?? [];
+      const { field } = action;
+      if (!state.currentProject || validateFieldName(field.name, fields)) return state;
+      if (field.type === 'select' && !field.options?.length) return state;
+      return updateProject(state, now, project => ({ ...project, customFields: [...fields, field] }));
+    }
+
+    case 'EDIT_CUSTOM_FIELD': {
+      const fields = state.currentProject?.customFields ?? [];
+      const field = fields.find(entry => entry.id === action.fieldId);
+      if (!field || validateFieldName(action.name, fields, field.id)) return state;
+      if (field.type === 'select' && action.options && action.options.length === 0) return state;
+
+      // Values of removed select options are cleared
+      const edited = {
+        ...field,
+        name: action.name.trim(),
+        ...(field.type === 'select' && action.options ? { options: action.options } : {})
+      };
+      return updateProject(state, now, project => cleanItemFields({
+        ...project,
+        customFields: fields.map(entry => entry.id === field.id ? edited : entry)
+      }));
+    }
+
+    case 'DELETE_CUSTOM_FIELD': {
+      const fields = state.currentProject?.customFields ?? [];
+      if (!fields.some(field => field.id === action.fieldId)) return state;
+      const remaining = fields.filter(field => field.id !== action.fieldId);
+      return updateProject(state, now, project => cleanItemFields({
+        ...project,
+        customFields: remaining.length > 0 ? remaining : undefined
+      }));
+    }
+
+    case 'SAVE_VIEW': {
+      const views = state.currentProject?.savedViews ?? [];
+      const { view } = action;
+      if (!state.currentProject || validateViewName(view.name, views, view.id)) return state;
+      if (!parseTagQuery(view.query, state.currentProject.customFields).query) return state;
+      const isExisting = views.some(entry => entry.id === view.id);
+      return updateProject(state, now, project => ({
+        ...project,
+        savedViews: isExisting ? views.map(entry => entry.id === view.id ? view : entry) : [...views, view]
+      }));
+    }
+
+    case 'DELETE_VIEW': {
+      const views = state.currentProject?.savedViews ?? [];
+      if (!views.some(view => view.id === action.viewId)) return state;
+      const remaining = views.filter(view => view.id !== action.viewId);
+      return updateProject(state, now, project => ({ ...project, savedViews: remaining.length > 0 ? remaining : undefined }));
+    }
+
+    case 'START_COMPARISON': {
+      if (!state.currentProject) return state;
+
+      const session = createComparisonSession(state.currentProject, action.scope);
+      if (!session) return state;
+
+      return updateProject(state, now, project => ({
+        ...applyComparisonRanking(project, session),
+        comparisonSession: session
+      }));
+    }
+
+    case 'ANSWER_COMPARISON': {
+      const savedSession = state.currentProject?.comparisonSession;
+      if (!state.currentProject || !savedSession) return state;
+
+      // Edits made since the last answer may have removed or reordered items
+      const session = reconcileComparisonSession(state.currentProject, savedSession);
+      if (!session) {
+        return updateProject(state, now, project => ({ ...project, comparisonSession: undefined }));
+      }
+
+      const answered = answerComparison(session, action.candidateIsBetter);
+      return updateProject(state, now, project => ({
+        ...applyComparisonRanking(project, answered),
+        // The session ends once every item has been placed
+        comparisonSession: answered.pendingIds.length > 0 ? answered : undefined
+      }));
+    }
+
+    case 'END_COMPARISON':
+      if (!state.currentProject?.comparisonSession) return state;
+      return updateProject(state, now, project => ({ ...project, comparisonSession: undefined }));
+
+    case 'APPLY_AGGREGATION':
+      if (!state.currentProject || action.ranking.length === 0) return state;
+      return updateProject(state, now, project => syncLinkedItems(applyAggregatedRanking(project, action.ranking)));
+
+    case 'CREATE_TAG': {
+      const validation = validateTag(action.tag.name, state.tagPool, state.currentProject?.inputLists);
+      if (!validation.isValid) return state;
+
+      return { ...state, tagPool: [...state.tagPool, action.tag] };
+    }
+
+    case 'EDIT_TAG': {
+      const validation = validateTagForEdit(
+        action.name,
+        action.tagId,
+        state.tagPool,
+        state.currentProject?.inputLists
+      );
+      if (!validation.isValid) return state;
+
+      return {
+        ...state,
+        tagPool: state.tagPool.map(tag =>
+          tag.id === action.tagId ? { ...tag, name: action.name.trim(), color: action.color } : tag
+        )
+      };
+    }
+
+    case 'DELETE_TAG': {
+      const withoutTag = state.currentProject ? {
+        ...updateParkedItems(state.currentProject, items => items.map(item => ({
+          ...item,
+          tags: item.tags.filter(id => id !== action.tagId)
+        }))),
+        mainList: state.currentProject.mainList.map(item => ({
+          ...item,
+          tags: item.tags.filter(id => id !== action.tagId)
+        })),
+        inputLists: state.currentProject.inputLists.map(list => ({
+          ...list,
+          items: list.items.map(item => ({
+            ...item,
+            tags: item.tags.filter(id => id !== action.tagId)
+          }))
+        })),
+        modifiedAt: now
+      } : null;
+
+      return {
+        ...state,
+        tagPool: state.tagPool.filter(tag => tag.id !== action.tagId),
+        currentProject: withoutTag
+      };
+    }
+
+    case 'ADD_TAG': {
+      if (!state.currentProject) return state;
+      const project = state.currentProject;
+
+      // Count how many items don't already have this tag
+      const newUsageCount = action.itemIds.filter(itemId => {
+        const item = findItem(project, itemId);
+        return item && !item.tags.includes(action.tagId);
+      }).length;
+
+      return {
+        ...state,
+        currentProject: {
+          ...updateItemTags(project, action.itemIds, tags => [...new Set([...tags, action.tagId])]),
+          modifiedAt: now
+        },
+        tagPool: state.tagPool.map(tag =>
+          tag.id === action.tagId ? { ...tag, usageCount: tag.usageCount + newUsageCount } : tag
+        )
+      };
+    }
+
+    case 'REMOVE_TAG': {
+      if (!state.currentProject) return state;
+      const project = state.currentProject;
+
+      // Count how many items actually have this tag
+      const actualRemovalCount = action.itemIds.filter(itemId => {
+        const item = findItem(project, itemId);
+        return item && item.tags.includes(action.tagId);
+      }).length;
+
+      return {
+        ...state,
+        currentProject: {
+          ...updateItemTags(project, action.itemIds, tags => tags.filter(id => id !== action.tagId)),
+          modifiedAt: now
+        },
+        tagPool: state.tagPool.map(tag =>
+          tag.id === action.tagId
+            ? { ...tag, usageCount: Math.max(0, tag.usageCount - actualRemovalCount) }
+            : tag
+        )
+      };
+    }
+
+    case 'REMOVE_ALL_TAGS': {
+      if (!state.currentProject || action.itemIds.length === 0) return state;
+      const project = state.currentProject;
+
+      // Tally removals per tag so usage counts stay accurate
+      const removals = new Map<string, number>();
+      action.itemIds.forEach(itemId => {
+        findItem(project, itemId)?.tags.forEach(tagId => {
+          removals.set(tagId, (removals.get(tagId) ?? 0) + 1);
+        });
+      });
+
+      return {
+        ...updateProject(state, now, current => updateItemTags(current, action.itemIds, () => [])),
+        tagPool: state.tagPool.map(tag =>
+          removals.has(tag.id)
+            ? { ...tag, usageCount: Math.max(0, tag.usageCount - removals.get(tag.id)!) }
+            : tag
+        )
+      };
+    }
+
+    case 'SELECT_ITEM':
+      return selectItem(state, action.itemId, action.isMultiSelect, action.isShiftSelect ?? false, action.hiddenItemIds ?? []);
+
+    case 'SELECT_ITEMS':
+      return { ...state, ui: { ...state.ui, selectedItems: [...new Set(action.itemIds)], anchorItem: null } };
+
+    case 'CLEAR_SELECTION':
+      return { ...state, ui: { ...state.ui, selectedItems: [] } };
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { AggregationModal } from '../components/AggregationModal';
+import type { Project } from '../types/index';
+
+describe('AggregationModal', () => {
+  const project: Project = {
+    id: 'project-1',
+    name: 'Films',
+    createdAt: new Date('2024-01-01'),
+    modifiedAt: new Date('2024-01-02'),
+    inputLists: [
+      {
+        id: 'list-1',
+        name: 'Critics',
+        items: [
+          { id: 'c1', content: 'Alien', isUsed: true, tags: [] },
+          { id: 'c2', content: 'Dune', isUsed: false, tags: [] }
+        ]
+      },
+      {
+        id: 'list-2',
+        name: 'Audience',
+        items: [
+          { id: 'a1', content: 'dune', isUsed: false, tags: [] },
+          { id: 'a2', content: 'Heat', isUsed: false, tags: [] },
+          { id: 'a3', content: 'Alien', isUsed: false, tags: [] }
+        ]
+      },
+      { id: 'list-3', name: 'Empty', items: [] }
+    ],
+    mainList: [
+      { id: 'c1', content: 'Alien', sourceListId: 'list-1', order: 1, tags: [] }
+    ]
+  };
+
+  const handlers = {
+    onApply: vi.fn(),
+    onClose: vi.fn()
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderModal = () =>
+    render(<AggregationModal isOpen={true} project={project} {...handlers} />);
+
+  const rowsOf = () =>
+    within(screen.getByRole('table', { name: 'Score breakdown' })).getAllByRole('row').slice(1)
+      .map(row => within(row).getAllByRole('cell').map(cell => cell.textContent));
+
+  it('should show a per-list breakdown for every non-empty list', () => {
+    renderModal();
+
+    expect(screen.getByRole('checkbox', { name: 'Critics (2)' })).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: 'Empty (0)' })).not.toBeChecked();
+    // Borda over 3 items: Dune 1+2, Alien 2+0, Heat 0+1 (no places left below Critics' two)
+    expect(rowsOf()).toEqual([
+      ['1', 'Dune', '2', '1', '3'],
+      ['2', 'Alien', '1', '3', '2'],
+      ['3', 'Heat', '–', '2', '1']
+    ]);
+    expect(screen.getByText(/Replaces the current main list \(1 items\)/)).toBeInTheDocument();
+  });
+
+  it('should recompute when the method or lists change', () => {
+    renderModal();
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'average' } });
+    expect(screen.getByRole('columnheader', { name: 'Avg rank' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Audience (3)' }));
+    expect(rowsOf()).toEqual([
+      ['1', 'Alien', '1', '1'],
+      ['2', 'Dune', '2', '2']
+    ]);
+  });
+
+  it('should apply the ranking using the first copy of each item', () => {
+    renderModal();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply to Main List' }));
+
+    expect(handlers.onApply).toHaveBeenCalledWith([
+      { itemId: 'c2', listId: 'list-1' },
+      { itemId: 'c1', listId: 'list-1' },
+      { itemId: 'a2', listId: 'list-2' }
+    ]);
+    expect(handlers.onClose).toHaveBeenCalled();
+  });
+
+  it('should disable applying when no list is selected', () => {
+    renderModal();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Critics (2)' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Audience (3)' }));
+
+    expect(screen.getByText('Select at least one list to rank.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Apply to Main List' })).toBeDisabled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { CollabModal } from '../components/CollabModal';
+import { MainListPanel } from '../components/MainListPanel';
+import type { CollabPeer } from '../collab';
+import type { MainListItem } from '../types/index';
+
+vi.mock('@dnd-kit/core', () => ({
+  useDraggable: () => ({
+    attributes: {},
+    listeners: {},
+    setNodeRef: vi.fn(),
+    isDragging: false,
+    transform: null
+  }),
+  useDroppable: () => ({ isOver: false, setNodeRef: vi.fn() })
+}));
+
+const ada: CollabPeer = { clientId: 'c1', name: 'Ada Lovelace', color: '#2563eb', selectedItemIds: ['a', 'b'] };
+const alan: CollabPeer = { clientId: 'c2', name: 'alan', color: '#db2777', selectedItemIds: ['b'] };
+
+const renderModal = (overrides: Partial<React.ComponentProps<typeof CollabModal>> = {}) => {
+  const props = {
+    isOpen: true,
+    projectId: 'project-1',
+    status: 'closed' as const,
+    roomId: null,
+    peers: [],
+    onClose: vi.fn(),
+    onStart: vi.fn(),
+    onLeave: vi.fn(),
+    onReconnect: vi.fn(),
+    ...overrides
+  };
+  render(<CollabModal {...props} />);
+  return props;
+};
+
+describe('CollabModal', () => {
+  it('joins the project’s room on the app’s own relay by default', () => {
+    const { onStart } = renderModal();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Join room' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('Enter the name others will see');
+    expect(onStart).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Your name'), { target: { value: ' Ada ' } });
+    fireEvent.change(screen.getByLabelText('Relay server'), { target: { value: 'http://example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Join room' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('ws:// or wss://');
+
+    fireEvent.change(screen.getByLabelText('Relay server'), { target: { value: `ws://${window.location.host}/collab` } });
+    fireEvent.click(screen.getByRole('button', { name: 'Join room' }));
+    expect(onStart).toHaveBeenCalledWith(`ws://${window.location.host}/collab`, 'project-1', 'Ada');
+  });
+
+  it('lists the collaborators in the room and offers to reconnect when the connection was lost', () => {
+    const { onReconnect, onLeave } = renderModal({ status: 'disconnected', roomId: 'project-1', peers: [ada, alan] });
+
+    expect(screen.getByRole('status')).toHaveTextContent('Connection lost');
+    expect(screen.getByText('Ada Lovelace').parentElement).toHaveTextContent('2 items selected');
+    expect(screen.getByText('alan').parentElement).toHaveTextContent('1 item selected');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reconnect' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Leave room' }));
+    expect(onReconnect).toHaveBeenCalled();
+    expect(onLeave).toHaveBeenCalled();
+  });
+});
+
+describe('Presence indicators', () => {
+  it('marks items with the collaborators who have them selected', () => {
+    const items: MainListItem[] = ['a', 'b', 'c'].map((id, index) => ({
+      id, content: id.toUpperCase(), sourceListId: 'list-1', tags: [], order: index + 1
+    }));
+    render(
+      <MainListPanel
+        items={items}
+        selectedItems={[]}
+        tagPool={[]}
+        onSelectItem={vi.fn()}
+        onRemoveItem={vi.fn()}
+        onMoveUp={vi.fn()}
+        onMoveDown={vi.fn()}
+        onAddTag={vi.fn()}
+        onRemoveTag={vi.fn()}
+        onCreateTag={vi.fn(() => null)}
+        onEditItemDetails={vi.fn()}
+        presence={new Map([['a', [ada]], ['b', [ada, alan]]])}
+      />
+    );
+
+    const [first, second, third] = screen.getAllByRole('option');
+    expect(within(first).getByRole('img', { name: 'Selected by Ada Lovelace' })).toHaveTextContent('AL');
+    expect(within(second).getByRole('img', { name: 'Selected by Ada Lovelace, alan' })).toHaveTextContent('ALA');
+    expect(within(third).queryByRole('img')).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ComparisonModal } from '../components/ComparisonModal';
+import type { Project } from '../types/index';
+
+describe('ComparisonModal', () => {
+  const project: Project = {
+    id: 'project-1',
+    name: 'Books',
+    createdAt: new Date('2024-01-01'),
+    modifiedAt: new Date('2024-01-02'),
+    inputLists: [
+      {
+        id: 'list-1',
+        name: 'Library',
+        items: [
+          { id: 'item-1', content: 'Dune', isUsed: true, tags: [] },
+          { id: 'item-2', content: 'Emma', isUsed: false, tags: [], notes: 'Austen' }
+        ]
+      }
+    ],
+    mainList: [
+      { id: 'item-1', content: 'Dune', sourceListId: 'list-1', order: 1, tags: [] }
+    ]
+  };
+
+  const activeProject: Project = {
+    ...project,
+    comparisonSession: { sortedIds: ['item-1'], pendingIds: ['item-2'], low: 0, high: 1, comparisons: 0 }
+  };
+
+  const handlers = {
+    onStart: vi.fn(),
+    onAnswer: vi.fn(),
+    onEnd: vi.fn(),
+    onClose: vi.fn()
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderModal = (modalProject: Project) =>
+    render(<ComparisonModal isOpen={true} project={modalProject} tagPool={[]} {...handlers} />);
+
+  it('should start a session for the chosen lists', () => {
+    renderModal(project);
+
+    const startButton = screen.getByRole('button', { name: 'Start Comparing' });
+    expect(startButton).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText('Library (1 unranked)'));
+    fireEvent.click(startButton);
+
+    expect(handlers.onStart).toHaveBeenCalledWith({ rerankMainList: false, inputListIds: ['list-1'] });
+  });
+
+  it('should show the current pair side by side', () => {
+    renderModal(activeProject);
+
+    expect(screen.getByText('Which should rank higher?')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Emma/ })).toHaveTextContent('Unranked · Library');
+    expect(screen.getByRole('button', { name: /Dune/ })).toHaveTextContent('Ranked #1');
+    expect(screen.getByText('Austen')).toBeInTheDocument();
+    expect(screen.getByTestId('comparison-progress')).toHaveTextContent('1 ranked · 1 to place · 0 answered · at most 1 question left');
+  });
+
+  it('should answer by clicking a card or with the arrow keys', () => {
+    renderModal(activeProject);
+
+    fireEvent.click(screen.getByRole('button', { name: /Dune/ }));
+    expect(handlers.onAnswer).toHaveBeenLastCalledWith(false);
+
+    fireEvent.keyDown(screen.getByText('Compare Items'), { key: 'ArrowLeft' });
+    expect(handlers.onAnswer).toHaveBeenLastCalledWith(true);
+  });
+
+  it('should report completion after the last answer', () => {
+    const { rerender } = renderModal(activeProject);
+
+    fireEvent.click(screen.getByRole('button', { name: /Emma/ }));
+    rerender(<ComparisonModal isOpen={true} project={project} tagPool={[]} {...handlers} />);
+
+    expect(screen.getByText(/Ranking complete/)).toBeInTheDocument();
+  });
+
+  it('should end or pause a session', () => {
+    renderModal(activeProject);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Continue Later' }));
+    expect(handlers.onClose).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'End Session' }));
+    expect(handlers.onEnd).toHaveBeenCalled();
+  });
+});
\ No newline at end of file
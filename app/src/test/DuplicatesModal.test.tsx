@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DuplicatesModal } from '../components/DuplicatesModal';
+import { findDuplicates } from '../utils/duplicateDetection';
+import type { InputList } from '../types/index';
+
+describe('DuplicatesModal', () => {
+  const inputLists: InputList[] = [
+    {
+      id: 'list-1',
+      name: 'Ideas',
+      items: [
+        { id: 'i1', content: 'Dark mode toggle', isUsed: false, tags: [] },
+        { id: 'i2', content: 'Colour picker', isUsed: false, tags: [] }
+      ]
+    },
+    {
+      id: 'list-2',
+      name: 'Requests',
+      items: [
+        { id: 'r1', content: 'dark-mode toggle', isUsed: false, tags: [] },
+        { id: 'r2', content: 'Color picker', isUsed: false, tags: [] },
+        { id: 'r3', content: 'Dark Mode Toggle!', isUsed: false, tags: [] }
+      ]
+    }
+  ];
+
+  const handlers = {
+    onLink: vi.fn(),
+    onUnlink: vi.fn(),
+    onClose: vi.fn()
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderModal = (itemLinks: string[][] = []) =>
+    render(
+      <DuplicatesModal
+        isOpen={true}
+        report={findDuplicates(inputLists, itemLinks)}
+        inputLists={inputLists}
+        {...handlers}
+      />
+    );
+
+  it('should list suggested groups with their similarity', () => {
+    renderModal();
+
+    expect(screen.getByText('Possible duplicates (2)')).toBeInTheDocument();
+    expect(screen.getByText('100% similar')).toBeInTheDocument();
+    expect(screen.getByText('92% similar')).toBeInTheDocument();
+    expect(screen.getAllByText('Requests')).toHaveLength(3);
+  });
+
+  it('should link the checked members of a group', () => {
+    renderModal();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: /Dark Mode Toggle!/ }));
+    fireEvent.click(screen.getAllByRole('button', { name: 'Link' })[0]);
+
+    expect(handlers.onLink).toHaveBeenCalledWith(['i1', 'r1']);
+  });
+
+  it('should not link fewer than two items', () => {
+    renderModal();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: /Color picker/ }));
+
+    expect(screen.getAllByRole('button', { name: 'Link' })[1]).toBeDisabled();
+  });
+
+  it('should unlink confirmed links', () => {
+    renderModal([['i2', 'r2']]);
+
+    expect(screen.getByText('Linked (1)')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Unlink' }));
+
+    expect(handlers.onUnlink).toHaveBeenCalledWith(['i2', 'r2']);
+  });
+});
\ No newline at end of file
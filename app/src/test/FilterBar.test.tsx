@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { Workspace } from '../components/Workspace';
+import { MainListPanel } from '../components/MainListPanel';
+import type { AppState, MainListItem } from '../types/index';
+
+// Mock DnD Kit; record drop zone positions so filtering can be checked against them
+const dropZones: number[] = [];
+vi.mock('@dnd-kit/core', () => ({
+  useDraggable: () => ({
+    attributes: {},
+    listeners: {},
+    setNodeRef: vi.fn(),
+    isDragging: false,
+    transform: null
+  }),
+  useDroppable: ({ id, data }: { id: string; data: { position?: number } }) => {
+    if (id.startsWith('drop-zone-')) dropZones.push(data.position!);
+    return { isOver: false, setNodeRef: vi.fn() };
+  }
+}));
+
+const appState: AppState = {
+  currentProject: {
+    id: 'project-1',
+    name: 'Filter Project',
+    createdAt: new Date('2024-01-01'),
+    modifiedAt: new Date('2024-01-01'),
+    inputLists: [
+      {
+        id: 'list-1',
+        name: 'Fruit',
+        items: [
+          { id: 'in-1', content: 'Apple', isUsed: false, tags: ['tag-red'] },
+          { id: 'in-2', content: 'Banana', isUsed: false, tags: [] },
+          { id: 'in-3', content: 'Cherry', isUsed: true, tags: ['tag-red'] }
+        ]
+      },
+      { id: 'list-2', name: 'Veg', items: [{ id: 'in-4', content: 'Carrot', isUsed: false, tags: [] }] }
+    ],
+    mainList: [{ id: 'in-3', content: 'Cherry', sourceListId: 'list-1', tags: ['tag-red'], order: 1 }]
+  },
+  savedProjects: [],
+  tagPool: [{ id: 'tag-red', name: 'Red', color: '#ef4444', createdAt: new Date('2024-01-01'), usageCount: 2 }],
+  ui: { selectedItems: [], activeInputList: 'list-1', anchorItem: null }
+};
+
+const noop = () => {};
+const renderWorkspace = (overrides: Partial<React.ComponentProps<typeof Workspace>> = {}) => render(
+  <Workspace
+    appState={appState}
+    onSelectInputList={noop}
+    onAddInputList={noop}
+    onImportListItems={noop}
+    onAddItemToList={noop}
+    onEditListItem={noop}
+    onDeleteListItem={noop}
+    onRenameList={noop}
+    onDeleteList={noop}
+    onMoveToMainList={noop}
+    onSelectMainItem={noop}
+    onRemoveFromMainList={noop}
+    onReorderMainItems={noop}
+    onMoveMainItem={noop}
+    onAddTag={noop}
+    onRemoveTag={noop}
+    onCreateTag={() => null}
+    onEditItemDetails={noop}
+    onEditTag={noop}
+    onDeleteTag={noop}
+    onApplyTagToSelected={noop}
+    onRemoveAllTags={noop}
+    onClearSelection={noop}
+    onStartComparison={noop}
+    onAnswerComparison={noop}
+    onEndComparison={noop}
+    onApplyAggregation={noop}
+    onLinkItems={noop}
+    onUnlinkItems={noop}
+    onEnableTiers={noop}
+    onDisableTiers={noop}
+    onAddTier={noop}
+    onEditTier={noop}
+    onDeleteTier={noop}
+    onMoveTier={noop}
+    onAddOutputList={noop}
+    onSwitchOutputList={noop}
+    onRenameOutputList={noop}
+    onDeleteOutputList={noop}
+    {...overrides}
+  />
+);
+
+describe('Filter bar', () => {
+  it('should filter both panels by text and highlight the matches', () => {
+    renderWorkspace();
+
+    fireEvent.change(screen.getByLabelText('Search items'), { target: { value: 'rr' } });
+
+    expect(screen.queryByText('Apple')).not.toBeInTheDocument();
+    expect(screen.queryByText('Banana')).not.toBeInTheDocument();
+    expect(screen.getAllByText('rr', { selector: 'mark' })).toHaveLength(2); // Cherry in both panels
+    expect(screen.getByText('3 matches (2 in input lists, 1 in the main list)')).toBeInTheDocument();
+    expect(screen.getByRole('tab', { name: 'Veg (1/1)' })).toBeInTheDocument();
+  });
+
+  it('should cycle tags through required and excluded', () => {
+    renderWorkspace();
+
+    const tag = screen.getByRole('button', { name: 'Tag Red: not filtered' });
+    fireEvent.click(tag);
+    expect(screen.queryByText('Banana')).not.toBeInTheDocument();
+    expect(screen.getByText('Apple')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Tag Red: included' }));
+    expect(screen.getByText('Banana')).toBeInTheDocument();
+    expect(screen.queryByText('Apple')).not.toBeInTheDocument();
+    expect(screen.getByText('No items in the main list match the filter.')).toBeInTheDocument();
+  });
+
+  it('should filter by used state and clear the filter', () => {
+    renderWorkspace();
+
+    fireEvent.change(screen.getByLabelText('Used state'), { target: { value: 'unused' } });
+    expect(screen.getByRole('tab', { name: 'Fruit (2/3)' })).toBeInTheDocument();
+    // The ranked copy of a used item stays in the main list
+    expect(screen.getByText('Cherry')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Clear'));
+    expect(screen.getByRole('tab', { name: 'Fruit (3)' })).toBeInTheDocument();
+  });
+
+  it('should narrow items with a tag query and select the matches', () => {
+    const onSelectItems = vi.fn();
+    renderWorkspace({ onSelectItems, onSaveView: vi.fn(() => 'view-1'), onDeleteView: vi.fn() });
+
+    const query = screen.getByLabelText('Tag query');
+    fireEvent.change(query, { target: { value: 'tag:red AND (is:unranked' } });
+    expect(screen.getByRole('alert')).toHaveTextContent('Expected ")" but found end of query (at character 25)');
+    expect(screen.getByText('Banana')).toBeInTheDocument();
+
+    fireEvent.change(query, { target: { value: 'tag:red AND is:unranked' } });
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(screen.queryByText('Banana')).not.toBeInTheDocument();
+    expect(screen.getByText('1 matches (1 in input lists, 0 in the main list)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Select matching'));
+    expect(onSelectItems).toHaveBeenCalledWith(['in-1']);
+  });
+
+  it('should save the query as a view and apply saved views', () => {
+    const onSaveView = vi.fn(() => 'view-2');
+    const withViews: AppState = {
+      ...appState,
+      currentProject: { ...appState.currentProject!, savedViews: [{ id: 'view-1', name: 'Vegetables', query: 'source:Veg' }] }
+    };
+    renderWorkspace({ appState: withViews, onSaveView, onDeleteView: vi.fn() });
+
+    fireEvent.change(screen.getByLabelText('Saved view'), { target: { value: 'view-1' } });
+    expect(screen.getByLabelText('Tag query')).toHaveValue('source:Veg');
+    expect(screen.getByRole('tab', { name: 'Fruit (0/3)' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Tag query'), { target: { value: 'tag:red' } });
+    fireEvent.click(screen.getByText('Save view'));
+    fireEvent.change(screen.getByLabelText('View name'), { target: { value: 'vegetables' } });
+    fireEvent.click(screen.getByText('Save'));
+    expect(screen.getByRole('alert')).toHaveTextContent('A view named "vegetables" already exists');
+
+    fireEvent.change(screen.getByLabelText('View name'), { target: { value: 'Red things' } });
+    fireEvent.click(screen.getByText('Save'));
+    expect(onSaveView).toHaveBeenCalledWith('Red things', 'tag:red');
+  });
+
+  it('should focus the search with /', () => {
+    renderWorkspace();
+
+    fireEvent.keyDown(window, { key: '/' });
+
+    expect(screen.getByLabelText('Search items')).toHaveFocus();
+  });
+});
+
+describe('MainListPanel filtering', () => {
+  beforeEach(() => {
+    dropZones.length = 0;
+  });
+
+  const items: MainListItem[] = ['A', 'B', 'C', 'D'].map((content, index) => ({
+    id: `main-${index + 1}`,
+    content,
+    sourceListId: 'list-1',
+    tags: [],
+    order: index + 1
+  }));
+
+  it('should keep rank numbers and drop positions of the full list', () => {
+    render(
+      <MainListPanel
+        items={items}
+        selectedItems={[]}
+        tagPool={[]}
+        onSelectItem={vi.fn()}
+        onRemoveItem={vi.fn()}
+        onMoveUp={vi.fn()}
+        onMoveDown={vi.fn()}
+        onAddTag={vi.fn()}
+        onRemoveTag={vi.fn()}
+        onCreateTag={vi.fn(() => null)}
+        onEditItemDetails={vi.fn()}
+        hiddenItemIds={new Set(['main-1', 'main-3'])}
+      />
+    );
+
+    expect(screen.getByText('2 of 4 items')).toBeInTheDocument();
+    expect(screen.getAllByRole('option').map(option => option.getAttribute('aria-posinset'))).toEqual(['2', '4']);
+    // Before B, after B and after D
+    expect(dropZones).toEqual([2, 3, 5]);
+  });
+});
\ No newline at end of file
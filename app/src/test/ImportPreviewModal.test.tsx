@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { ImportPreviewModal } from '../components/ImportPreviewModal';
-import type { ImportResult } from '../utils/fileProcessing';
+import { FileProcessor, type ImportResult, type ImportedListItem } from '../utils/fileProcessing';
 
 describe('ImportPreviewModal', () => {
   const mockOnConfirm = vi.fn();
@@ -199,4 +199,117 @@ describe('ImportPreviewModal', () => {
       expect(screen.getByText('Import Preview: my-important-list.csv')).toBeInTheDocument();
     });
   });
+
+  describe('CSV column mapping', () => {
+    const table = FileProcessor.parseCSVTable('Title,Tags,Rank\nDune,sci-fi,1\nEmma,,').data!;
+    const mapping = FileProcessor.suggestCSVMapping(table);
+    const mappedResult: ImportResult<ImportedListItem[]> = FileProcessor.applyCSVMapping(table, mapping);
+
+    const renderMapping = (onMappingChange = vi.fn(), onDelimiterChange = vi.fn()) => {
+      render(
+        <ImportPreviewModal
+          isOpen={true}
+          result={mappedResult}
+          fileName="books.csv"
+          csvTable={table}
+          csvMapping={mapping}
+          onMappingChange={onMappingChange}
+          onDelimiterChange={onDelimiterChange}
+          onConfirm={mockOnConfirm}
+          onCancel={mockOnCancel}
+        />
+      );
+    };
+
+    it('should show column selects labelled with header names', () => {
+      renderMapping();
+
+      expect(screen.getByLabelText('Content column')).toHaveValue('0');
+      expect(screen.getByLabelText('Tags column')).toHaveValue('1');
+      expect(screen.getByLabelText('Notes column')).toHaveValue('');
+      expect(screen.getByLabelText('Rank column')).toHaveValue('2');
+      expect(screen.getAllByRole('option', { name: 'Title' }).length).toBeGreaterThan(0);
+      expect(screen.getByLabelText('First row is a header')).toBeChecked();
+    });
+
+    it('should preview tags and rank of mapped items', () => {
+      renderMapping();
+
+      expect(screen.getByText('#1')).toBeInTheDocument();
+      expect(screen.getByText('sci-fi')).toBeInTheDocument();
+      expect(screen.getByText(/1 ranked onto the main list/)).toBeInTheDocument();
+    });
+
+    it('should report mapping changes', () => {
+      const onMappingChange = vi.fn();
+      renderMapping(onMappingChange);
+
+      fireEvent.change(screen.getByLabelText('Rank column'), { target: { value: '' } });
+      fireEvent.click(screen.getByLabelText('First row is a header'));
+
+      expect(onMappingChange).toHaveBeenNthCalledWith(1, { ...mapping, rank: null });
+      expect(onMappingChange).toHaveBeenNthCalledWith(2, { ...mapping, hasHeader: false });
+    });
+
+    it('should report delimiter changes', () => {
+      const onDelimiterChange = vi.fn();
+      renderMapping(vi.fn(), onDelimiterChange);
+
+      fireEvent.change(screen.getByLabelText('Delimiter'), { target: { value: ';' } });
+
+      expect(onDelimiterChange).toHaveBeenCalledWith(';');
+    });
+  });
+
+  describe('JSON field picker', () => {
+    const document = {
+      books: [{ title: 'Dune', tags: ['sci-fi'] }, { title: 'Emma', tags: [] }],
+      authors: [{ name: 'Frank Herbert' }]
+    };
+    const mapping = FileProcessor.suggestJSONMapping(document);
+    const mappedResult: ImportResult<ImportedListItem[]> = FileProcessor.applyJSONMapping(document, mapping);
+
+    const renderPicker = (onJSONMappingChange = vi.fn()) => {
+      render(
+        <ImportPreviewModal
+          isOpen={true}
+          result={mappedResult}
+          fileName="books.json"
+          jsonDocument={document}
+          jsonMapping={mapping}
+          onJSONMappingChange={onJSONMappingChange}
+          onConfirm={mockOnConfirm}
+          onCancel={mockOnCancel}
+        />
+      );
+    };
+
+    it('should show the selected list and fields', () => {
+      renderPicker();
+
+      expect(screen.getByLabelText('List')).toHaveValue('$.books');
+      expect(screen.getByRole('option', { name: '$.authors (1)' })).toBeInTheDocument();
+      expect(screen.getByLabelText('Content field')).toHaveValue('title');
+      expect(screen.getByLabelText('Tags field')).toHaveValue('tags');
+      expect(screen.getByText('sci-fi')).toBeInTheDocument();
+    });
+
+    it('should report field changes', () => {
+      const onJSONMappingChange = vi.fn();
+      renderPicker(onJSONMappingChange);
+
+      fireEvent.change(screen.getByLabelText('Tags field'), { target: { value: '' } });
+
+      expect(onJSONMappingChange).toHaveBeenCalledWith({ ...mapping, tagsPath: null });
+    });
+
+    it('should re-suggest fields when another list is selected', () => {
+      const onJSONMappingChange = vi.fn();
+      renderPicker(onJSONMappingChange);
+
+      fireEvent.change(screen.getByLabelText('List'), { target: { value: '$.authors' } });
+
+      expect(onJSONMappingChange).toHaveBeenCalledWith({ listPath: '$.authors', contentPath: 'name', tagsPath: null });
+    });
+  });
 });
\ No newline at end of file
@@ -68,7 +68,8 @@ describe('InputListPanel File Import Integration', () => {
     onSelectItem: mockOnSelectItem,
     onAddTag: mockOnAddTag,
     onRemoveTag: mockOnRemoveTag,
-    onCreateTag: mockOnCreateTag
+    onCreateTag: mockOnCreateTag,
+    onEditItemDetails: vi.fn()
   };
 
   beforeEach(() => {
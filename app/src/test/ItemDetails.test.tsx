@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MainListPanel } from '../components/MainListPanel';
+import { CustomFieldsModal } from '../components/CustomFieldsModal';
+import type { CustomField, MainListItem } from '../types/index';
+
+// Mock DnD Kit
+vi.mock('@dnd-kit/core', () => ({
+  useDraggable: () => ({
+    attributes: {},
+    listeners: {},
+    setNodeRef: vi.fn(),
+    isDragging: false,
+    transform: null
+  }),
+  useDroppable: () => ({ isOver: false, setNodeRef: vi.fn() })
+}));
+
+const customFields: CustomField[] = [
+  { id: 'f-cost', name: 'Cost', type: 'number' },
+  { id: 'f-size', name: 'Size', type: 'select', options: ['Small', 'Large'] }
+];
+
+const items: MainListItem[] = [
+  {
+    id: 'main-1',
+    content: 'Apple',
+    sourceListId: 'list-1',
+    tags: [],
+    order: 1,
+    notes: 'Crunchy',
+    url: 'https://example.com/apple',
+    fields: { 'f-size': 'Large' }
+  }
+];
+
+const renderPanel = () => {
+  const onEditItemDetails = vi.fn();
+  render(
+    <MainListPanel
+      items={items}
+      selectedItems={[]}
+      tagPool={[]}
+      customFields={customFields}
+      onSelectItem={vi.fn()}
+      onRemoveItem={vi.fn()}
+      onMoveUp={vi.fn()}
+      onMoveDown={vi.fn()}
+      onAddTag={vi.fn()}
+      onRemoveTag={vi.fn()}
+      onCreateTag={vi.fn(() => null)}
+      onEditItemDetails={onEditItemDetails}
+    />
+  );
+  return onEditItemDetails;
+};
+
+describe('Item details', () => {
+  it('should show notes, link and field values under the item', () => {
+    renderPanel();
+
+    expect(screen.getByText('Crunchy')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'https://example.com/apple' })).toHaveAttribute('rel', 'noopener noreferrer');
+    expect(screen.getByText('Size:').parentElement).toHaveTextContent('Size: Large');
+  });
+
+  it('should edit the details inline and reject values that do not parse', () => {
+    const onEditItemDetails = renderPanel();
+
+    fireEvent.click(screen.getByTitle('Edit notes, link and fields'));
+    fireEvent.change(screen.getByLabelText('Notes'), { target: { value: 'Crisp' } });
+    fireEvent.change(screen.getByLabelText('Link'), { target: { value: 'example.org' } });
+    fireEvent.change(screen.getByLabelText('Cost'), { target: { value: 'a dozen' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Cost: "a dozen" is not a number');
+    expect(onEditItemDetails).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Cost'), { target: { value: '3' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onEditItemDetails).toHaveBeenCalledWith('main-1', {
+      notes: 'Crisp',
+      url: 'https://example.org/',
+      fields: { 'f-cost': 3, 'f-size': 'Large' }
+    });
+    expect(screen.queryByLabelText('Notes')).not.toBeInTheDocument();
+  });
+
+  it('should close the editor with Escape without saving', () => {
+    const onEditItemDetails = renderPanel();
+
+    fireEvent.click(screen.getByTitle('Edit notes, link and fields'));
+    fireEvent.keyDown(screen.getByLabelText('Notes'), { key: 'Escape' });
+
+    expect(screen.queryByLabelText('Notes')).not.toBeInTheDocument();
+    expect(onEditItemDetails).not.toHaveBeenCalled();
+  });
+});
+
+describe('CustomFieldsModal', () => {
+  const renderModal = () => {
+    const props = {
+      isOpen: true,
+      fields: customFields,
+      onClose: vi.fn(),
+      onAddField: vi.fn(),
+      onEditField: vi.fn(),
+      onDeleteField: vi.fn()
+    };
+    render(<CustomFieldsModal {...props} />);
+    return props;
+  };
+
+  it('should add a field, requiring options for select fields', () => {
+    const props = renderModal();
+
+    fireEvent.change(screen.getByLabelText('New field name'), { target: { value: 'Colour' } });
+    fireEvent.change(screen.getByLabelText('New field type'), { target: { value: 'select' } });
+    fireEvent.click(screen.getByText('Add Field'));
+    expect(screen.getByRole('alert')).toHaveTextContent('Select fields need at least one option');
+
+    fireEvent.change(screen.getByLabelText('New field options'), { target: { value: 'Red, green, red' } });
+    fireEvent.click(screen.getByText('Add Field'));
+
+    expect(props.onAddField).toHaveBeenCalledWith('Colour', 'select', ['Red', 'green']);
+  });
+
+  it('should reject a name another field already uses', () => {
+    const props = renderModal();
+
+    fireEvent.change(screen.getByLabelText('New field name'), { target: { value: 'cost' } });
+    fireEvent.click(screen.getByText('Add Field'));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('A field named "cost" already exists');
+    expect(props.onAddField).not.toHaveBeenCalled();
+  });
+
+  it('should edit the options of a select field and delete a field after confirming', () => {
+    const props = renderModal();
+
+    fireEvent.click(screen.getAllByText('Edit')[1]);
+    fireEvent.change(screen.getByLabelText('Field options'), { target: { value: 'Small, Medium' } });
+    fireEvent.click(screen.getByText('Save'));
+    expect(props.onEditField).toHaveBeenCalledWith('f-size', 'Size', ['Small', 'Medium']);
+
+    fireEvent.click(screen.getAllByText('Delete')[0]);
+    expect(props.onDeleteField).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByText('Delete with its values?').nextElementSibling!);
+    expect(props.onDeleteField).toHaveBeenCalledWith('f-cost');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ListExportModal } from '../components/ListExportModal';
+import type { Project, Tag } from '../types/index';
+
+describe('ListExportModal', () => {
+  const tagPool: Tag[] = [
+    { id: 'tag-1', name: 'sci-fi', color: '#3b82f6', createdAt: new Date(), usageCount: 1 }
+  ];
+
+  const project: Project = {
+    id: 'project-1',
+    name: 'Books',
+    createdAt: new Date('2024-01-01'),
+    modifiedAt: new Date('2024-01-02'),
+    inputLists: [
+      {
+        id: 'list-1',
+        name: 'Library',
+        items: [
+          { id: 'item-1', content: 'Dune', isUsed: true, tags: ['tag-1'] },
+          { id: 'item-2', content: 'Emma', isUsed: false, tags: [] }
+        ]
+      }
+    ],
+    mainList: [
+      { id: 'item-1', content: 'Dune', sourceListId: 'list-1', order: 1, tags: ['tag-1'] }
+    ]
+  };
+
+  const mockOnClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderModal = (isOpen = true) =>
+    render(<ListExportModal isOpen={isOpen} project={project} tagPool={tagPool} onClose={mockOnClose} />);
+
+  it('should not render when closed', () => {
+    renderModal(false);
+
+    expect(screen.queryByText('Export Ranked List')).not.toBeInTheDocument();
+  });
+
+  it('should preview CSV with the default columns', () => {
+    renderModal();
+
+    // Textareas normalize the CSV line endings to LF
+    expect(screen.getByLabelText('Export preview')).toHaveValue('Rank,Content,Source List,Tags\n1,Dune,Library,sci-fi');
+  });
+
+  it('should update the preview when format and options change', () => {
+    renderModal();
+
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: 'text' } });
+    fireEvent.click(screen.getByLabelText('Source List'));
+    fireEvent.click(screen.getByLabelText('Unranked items'));
+
+    expect(screen.getByLabelText('Export preview')).toHaveValue('1. Dune [sci-fi]\n\nUnranked:\n- Emma');
+  });
+
+  it('should copy the export to the clipboard', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    renderModal();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy' }));
+
+    await waitFor(() => expect(screen.getByText('Copied to clipboard')).toBeInTheDocument());
+    expect(writeText).toHaveBeenCalledWith('Rank,Content,Source List,Tags\r\n1,Dune,Library,sci-fi');
+  });
+
+  it('should download the export and close', () => {
+    const createObjectURL = vi.fn(() => 'blob:export');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    renderModal();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download' }));
+
+    expect(createObjectURL).toHaveBeenCalled();
+    expect(click).toHaveBeenCalled();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:export');
+    expect(mockOnClose).toHaveBeenCalled();
+    click.mockRestore();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MainListPanel } from '../components/MainListPanel';
+
+// Mock DnD Kit; output list tabs are drop targets
+const droppableIds: string[] = [];
+vi.mock('@dnd-kit/core', () => ({
+  useDraggable: () => ({
+    attributes: {},
+    listeners: {},
+    setNodeRef: vi.fn(),
+    isDragging: false,
+    transform: null
+  }),
+  useDroppable: ({ id }: { id: string }) => {
+    droppableIds.push(id);
+    return { isOver: false, setNodeRef: vi.fn() };
+  }
+}));
+
+const renderPanel = (overrides: Partial<React.ComponentProps<typeof MainListPanel>> = {}) => {
+  const props = {
+    items: [],
+    selectedItems: [],
+    tagPool: [],
+    onSelectItem: vi.fn(),
+    onRemoveItem: vi.fn(),
+    onMoveUp: vi.fn(),
+    onMoveDown: vi.fn(),
+    onAddTag: vi.fn(),
+    onRemoveTag: vi.fn(),
+    onCreateTag: vi.fn(() => null),
+    onEditItemDetails: vi.fn(),
+    outputLists: [
+      { id: 'q1', name: 'Q1 roadmap', itemCount: 3 },
+      { id: 'wont', name: "Won't do", itemCount: 1 }
+    ],
+    activeOutputListId: 'q1',
+    onAddOutputList: vi.fn(),
+    onSwitchOutputList: vi.fn(),
+    onRenameOutputList: vi.fn(),
+    onDeleteOutputList: vi.fn(),
+    ...overrides
+  };
+  render(<MainListPanel {...props} />);
+  return props;
+};
+
+describe('MainListPanel output lists', () => {
+  it('should show a droppable tab per output list', () => {
+    renderPanel();
+
+    expect(screen.getByText('Q1 roadmap (3)')).toBeInTheDocument();
+    expect(screen.getByText("Won't do (1)")).toBeInTheDocument();
+    expect(droppableIds).toEqual(expect.arrayContaining(['output-list-q1', 'output-list-wont']));
+  });
+
+  it('should switch lists, rename the active one and delete it', () => {
+    const props = renderPanel();
+
+    fireEvent.click(screen.getByText("Won't do (1)"));
+    expect(props.onSwitchOutputList).toHaveBeenCalledWith('wont');
+
+    fireEvent.click(screen.getByTitle('Delete output list (its items become unused)'));
+    expect(props.onDeleteOutputList).toHaveBeenCalledWith('q1');
+
+    fireEvent.click(screen.getByText('Q1 roadmap (3)'));
+    fireEvent.change(screen.getByLabelText('Output list name'), { target: { value: 'Q1' } });
+    fireEvent.keyDown(screen.getByLabelText('Output list name'), { key: 'Enter' });
+    expect(props.onRenameOutputList).toHaveBeenCalledWith('q1', 'Q1');
+  });
+
+  it('should not offer deleting the only output list', () => {
+    renderPanel({ outputLists: [{ id: 'q1', name: 'Q1 roadmap', itemCount: 0 }] });
+
+    expect(screen.queryByTitle('Delete output list (its items become unused)')).not.toBeInTheDocument();
+  });
+
+  it('should add output lists from the header', () => {
+    const props = renderPanel({ outputLists: undefined, activeOutputListId: undefined });
+
+    fireEvent.click(screen.getByText('+ New List'));
+    expect(props.onAddOutputList).toHaveBeenCalled();
+  });
+});
\ No newline at end of file
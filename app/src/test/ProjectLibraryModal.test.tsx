@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { ProjectLibraryModal } from '../components/ProjectLibraryModal';
+import type { ProjectSummary } from '../types/index';
+
+describe('ProjectLibraryModal', () => {
+  const savedProjects: ProjectSummary[] = [
+    {
+      id: 'p1',
+      name: 'Roadmap Ranking',
+      createdAt: new Date('2024-01-01'),
+      modifiedAt: new Date('2024-03-01'),
+      itemCount: 12
+    },
+    {
+      id: 'p2',
+      name: 'Song Library',
+      createdAt: new Date('2024-01-05'),
+      modifiedAt: new Date('2024-02-01'),
+      itemCount: 40
+    },
+    {
+      id: 'p3',
+      name: 'Hiring Priorities',
+      createdAt: new Date('2024-02-10'),
+      modifiedAt: new Date('2024-04-01'),
+      itemCount: 5
+    }
+  ];
+
+  const defaultProps = {
+    isOpen: true,
+    savedProjects,
+    currentProjectId: 'p1',
+    onClose: vi.fn(),
+    onOpenProject: vi.fn(),
+    onDuplicateProject: vi.fn(),
+    onRenameProject: vi.fn(),
+    onDeleteProject: vi.fn()
+  };
+
+  const getRowNames = () =>
+    screen.getAllByTestId(/^project-row-/).map(row => row.getAttribute('data-testid'));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('rendering', () => {
+    it('should not render when closed', () => {
+      render(<ProjectLibraryModal {...defaultProps} isOpen={false} />);
+
+      expect(screen.queryByText('Project Library')).not.toBeInTheDocument();
+    });
+
+    it('should list projects with item counts', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      expect(screen.getByText('Roadmap Ranking')).toBeInTheDocument();
+      expect(screen.getByText(/12 items/)).toBeInTheDocument();
+      expect(screen.getByText('3 saved projects')).toBeInTheDocument();
+    });
+
+    it('should show empty state when no projects are saved', () => {
+      render(<ProjectLibraryModal {...defaultProps} savedProjects={[]} />);
+
+      expect(screen.getByText('No saved projects yet.')).toBeInTheDocument();
+    });
+  });
+
+  describe('search and sort', () => {
+    it('should sort by most recently modified by default', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      expect(getRowNames()).toEqual(['project-row-p3', 'project-row-p1', 'project-row-p2']);
+    });
+
+    it('should sort by least recently modified', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText('Sort projects'), { target: { value: 'oldest' } });
+
+      expect(getRowNames()).toEqual(['project-row-p2', 'project-row-p1', 'project-row-p3']);
+    });
+
+    it('should filter projects by name case-insensitively', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText('Search projects'), { target: { value: 'SONG' } });
+
+      expect(getRowNames()).toEqual(['project-row-p2']);
+    });
+
+    it('should show no-match message', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText('Search projects'), { target: { value: 'zzz' } });
+
+      expect(screen.getByText('No projects match your search.')).toBeInTheDocument();
+    });
+  });
+
+  describe('actions', () => {
+    it('should open a project', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      fireEvent.click(within(screen.getByTestId('project-row-p2')).getByText('Open'));
+
+      expect(defaultProps.onOpenProject).toHaveBeenCalledWith('p2');
+    });
+
+    it('should disable opening the current project', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      expect(within(screen.getByTestId('project-row-p1')).getByText('Open')).toBeDisabled();
+    });
+
+    it('should duplicate a project', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      fireEvent.click(within(screen.getByTestId('project-row-p3')).getByText('Duplicate'));
+
+      expect(defaultProps.onDuplicateProject).toHaveBeenCalledWith('p3');
+    });
+
+    it('should rename a project on Enter', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      fireEvent.click(within(screen.getByTestId('project-row-p2')).getByText('Rename'));
+      const input = screen.getByLabelText('Project name');
+      fireEvent.change(input, { target: { value: '  Music Library  ' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(defaultProps.onRenameProject).toHaveBeenCalledWith('p2', 'Music Library');
+    });
+
+    it('should not rename when the name is unchanged', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      fireEvent.click(within(screen.getByTestId('project-row-p2')).getByText('Rename'));
+      fireEvent.keyDown(screen.getByLabelText('Project name'), { key: 'Enter' });
+
+      expect(defaultProps.onRenameProject).not.toHaveBeenCalled();
+    });
+
+    it('should cancel rename on Escape without closing the modal', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      fireEvent.click(within(screen.getByTestId('project-row-p2')).getByText('Rename'));
+      fireEvent.keyDown(screen.getByLabelText('Project name'), { key: 'Escape' });
+
+      expect(screen.queryByLabelText('Project name')).not.toBeInTheDocument();
+      expect(defaultProps.onClose).not.toHaveBeenCalled();
+    });
+
+    it('should require confirmation before deleting', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+      const row = screen.getByTestId('project-row-p2');
+
+      fireEvent.click(within(row).getByText('Delete'));
+      expect(defaultProps.onDeleteProject).not.toHaveBeenCalled();
+      expect(within(row).getByText('Delete permanently?')).toBeInTheDocument();
+
+      fireEvent.click(within(row).getByText('Delete'));
+      expect(defaultProps.onDeleteProject).toHaveBeenCalledWith('p2');
+    });
+
+    it('should cancel a pending delete', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+      const row = screen.getByTestId('project-row-p2');
+
+      fireEvent.click(within(row).getByText('Delete'));
+      fireEvent.click(within(row).getByText('Cancel'));
+
+      expect(within(row).queryByText('Delete permanently?')).not.toBeInTheDocument();
+      expect(defaultProps.onDeleteProject).not.toHaveBeenCalled();
+    });
+
+    it('should close on Escape', () => {
+      render(<ProjectLibraryModal {...defaultProps} />);
+
+      fireEvent.keyDown(screen.getByText('Project Library').closest('[tabindex="-1"]')!, { key: 'Escape' });
+
+      expect(defaultProps.onClose).toHaveBeenCalled();
+    });
+  });
+});
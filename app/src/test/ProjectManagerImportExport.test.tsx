@@ -38,9 +38,20 @@ describe('ProjectManager Integration', () => {
 
   const defaultProps = {
     currentProject: sampleProject,
+    savedProjects: [],
     tagPool: sampleTags,
     onNewProject: mockOnNewProject,
-    onImportProject: mockOnImportProject
+    onImportProject: mockOnImportProject,
+    onOpenProject: vi.fn(),
+    onDuplicateProject: vi.fn(),
+    onRenameProject: vi.fn(),
+    onDeleteProject: vi.fn(),
+    canUndo: false,
+    canRedo: false,
+    undoLabel: null,
+    redoLabel: null,
+    onUndo: vi.fn(),
+    onRedo: vi.fn()
   };
 
   beforeEach(() => {
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, render, renderHook, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ProjectManager } from '../components/ProjectManager';
+import { SharedProjectModal } from '../components/SharedProjectModal';
+import { useSharedProject } from '../components/shared/hooks';
+import { createShareLink, getSharePayload, readShareLink } from '../utils/shareLink';
+import type { Project, Tag } from '../types/index';
+
+const tags: Tag[] = [
+  { id: 'tag-1', name: 'Important', color: '#ff0000', createdAt: new Date('2024-01-01'), usageCount: 1 }
+];
+
+const project: Project = {
+  id: 'project-1',
+  name: 'Team Picks',
+  createdAt: new Date('2024-01-01'),
+  modifiedAt: new Date('2024-01-15'),
+  inputLists: [{
+    id: 'list-1',
+    name: 'List 1',
+    items: [
+      { id: 'item-1', content: 'Item 1', isUsed: true, tags: ['tag-1'] },
+      { id: 'item-2', content: 'Item 2', isUsed: false, tags: [] }
+    ]
+  }],
+  mainList: [{ id: 'item-1', content: 'Item 1', sourceListId: 'list-1', order: 1, tags: ['tag-1'] }]
+};
+
+describe('sharing a project by link', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should copy a share link that opens as a preview of the project', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    render(
+      <ProjectManager
+        currentProject={project}
+        savedProjects={[]}
+        tagPool={tags}
+        onNewProject={vi.fn()}
+        onImportProject={vi.fn()}
+        onOpenProject={vi.fn()}
+        onDuplicateProject={vi.fn()}
+        onRenameProject={vi.fn()}
+        onDeleteProject={vi.fn()}
+        canUndo={false}
+        canRedo={false}
+        undoLabel={null}
+        redoLabel={null}
+        onUndo={vi.fn()}
+        onRedo={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Import/Export'));
+    fireEvent.click(screen.getByRole('button', { name: 'Copy Share Link' }));
+    await waitFor(() => expect(screen.getByText(/Link copied to clipboard/)).toBeInTheDocument());
+
+    const url: string = writeText.mock.calls[0][0];
+    const sharedProject = await readShareLink(getSharePayload(new URL(url).hash)!);
+    const onImport = vi.fn();
+    render(<SharedProjectModal sharedProject={sharedProject} tagPool={tags} onImport={onImport} onDismiss={vi.fn()} />);
+
+    expect(screen.getByText('Project: Team Picks')).toBeInTheDocument();
+    expect(screen.getByText('Merged with existing: Important')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Import Project' }));
+    const [importedProject, importedTags] = onImport.mock.calls[0];
+    expect(importedProject.id).not.toBe('project-1');
+    expect(importedProject.mainList[0].tags).toEqual(['tag-1']);
+    expect(importedTags.map((tag: Tag) => tag.id)).toEqual(['tag-1']);
+  });
+
+  it('should explain a damaged link without offering the import', () => {
+    const onDismiss = vi.fn();
+    render(
+      <SharedProjectModal
+        sharedProject={{ success: false, error: 'Share link is damaged or incomplete' }}
+        tagPool={tags}
+        onImport={vi.fn()}
+        onDismiss={onDismiss}
+      />
+    );
+
+    expect(screen.getByText('Share link is damaged or incomplete')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Import Project' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+    expect(onDismiss).toHaveBeenCalled();
+  });
+
+  it('should pick up a share link from the address and remove it when dismissed', async () => {
+    const link = await createShareLink(project, tags, window.location.href);
+    window.history.replaceState(null, '', new URL(link.url!).hash);
+
+    const { result } = renderHook(() => useSharedProject());
+    await waitFor(() => expect(result.current.sharedProject?.data?.name).toBe('Team Picks'));
+
+    act(() => result.current.dismiss());
+    expect(result.current.sharedProject).toBeNull();
+    expect(window.location.hash).toBe('');
+  });
+});
\ No newline at end of file
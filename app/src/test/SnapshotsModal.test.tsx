@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SnapshotsModal } from '../components/SnapshotsModal';
+import { createSnapshot } from '../utils/snapshots';
+import type { Project } from '../types/index';
+
+const rankedProject = (ids: string[]): Project => ({
+  id: 'project-1',
+  name: 'Monthly',
+  createdAt: new Date('2024-01-01'),
+  modifiedAt: new Date('2024-01-01'),
+  inputLists: [{
+    id: 'list-1',
+    name: 'Backlog',
+    items: ['a', 'b', 'c'].map(id => ({ id, content: `Item ${id.toUpperCase()}`, isUsed: ids.includes(id), tags: [] }))
+  }],
+  mainList: ids.map((id, index) => ({ id, content: `Item ${id.toUpperCase()}`, sourceListId: 'list-1', tags: [], order: index + 1 }))
+});
+
+const january = createSnapshot('January', rankedProject(['a', 'b']), [], 'snap-1');
+
+const renderModal = (props: Partial<React.ComponentProps<typeof SnapshotsModal>> = {}) => {
+  const handlers = { onClose: vi.fn(), onTakeSnapshot: vi.fn(() => null), onDeleteSnapshot: vi.fn() };
+  render(
+    <SnapshotsModal
+      isOpen
+      project={rankedProject(['b', 'a', 'c'])}
+      tagPool={[]}
+      snapshots={[january]}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe('SnapshotsModal', () => {
+  it('should take named snapshots and refuse duplicate names', () => {
+    const { onTakeSnapshot } = renderModal();
+
+    fireEvent.change(screen.getByLabelText('Snapshot name'), { target: { value: 'january' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Take snapshot' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('A snapshot with this name already exists');
+
+    fireEvent.change(screen.getByLabelText('Snapshot name'), { target: { value: ' February ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Take snapshot' }));
+    expect(onTakeSnapshot).toHaveBeenCalledWith('February');
+    expect(screen.getByLabelText('Snapshot name')).toHaveValue('');
+  });
+
+  it('should compare the latest snapshot with the current state', () => {
+    renderModal();
+
+    expect(screen.getByLabelText('Up 1').closest('li')).toHaveTextContent('Item B#2 → #1');
+    expect(screen.getByLabelText('Down 1').closest('li')).toHaveTextContent('Item A#1 → #2');
+    expect(screen.getByText('Added').nextElementSibling).toHaveTextContent('#3 Item C');
+  });
+
+  it('should copy the comparison as Markdown', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    renderModal();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy Markdown' }));
+
+    await waitFor(() => expect(screen.getByText('Copied to clipboard')).toBeInTheDocument());
+    expect(writeText.mock.calls[0][0]).toContain('# Ranking changes: January → Current state\n\n## Moved\n\n- ▲ 1 Item B (#2 → #1)');
+  });
+
+  it('should delete a snapshot after confirmation', () => {
+    const { onDeleteSnapshot } = renderModal();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete snapshot January' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm delete' }));
+    expect(onDeleteSnapshot).toHaveBeenCalledWith('snap-1');
+  });
+});
\ No newline at end of file
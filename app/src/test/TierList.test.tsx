@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { MainListPanel } from '../components/MainListPanel';
+import type { MainListItem, Tier } from '../types/index';
+
+// Mock DnD Kit; record drop zone data so positions and tiers can be checked
+const dropZones: Array<{ id: string; data: { position?: number; tierId?: string | null } }> = [];
+vi.mock('@dnd-kit/core', () => ({
+  useDraggable: () => ({
+    attributes: {},
+    listeners: {},
+    setNodeRef: vi.fn(),
+    isDragging: false,
+    transform: null
+  }),
+  useDroppable: ({ id, data }: { id: string; data: { position?: number; tierId?: string | null } }) => {
+    if (id.startsWith('drop-zone-')) dropZones.push({ id, data });
+    return { isOver: false, setNodeRef: vi.fn() };
+  }
+}));
+
+const tiers: Tier[] = [
+  { id: 'tier-s', name: 'S', color: '#ef4444' },
+  { id: 'tier-a', name: 'A', color: '#f97316' }
+];
+
+const items: MainListItem[] = [
+  { id: 'x', content: 'Xylophone', sourceListId: 'list-1', tags: [], order: 1, tierId: 'tier-s' },
+  { id: 'y', content: 'Yodel', sourceListId: 'list-1', tags: [], order: 2, tierId: 'tier-s' },
+  { id: 'z', content: 'Zither', sourceListId: 'list-1', tags: [], order: 3 }
+];
+
+const renderPanel = (overrides: Partial<React.ComponentProps<typeof MainListPanel>> = {}) => {
+  const props = {
+    items,
+    selectedItems: [],
+    tagPool: [],
+    onSelectItem: vi.fn(),
+    onRemoveItem: vi.fn(),
+    onMoveUp: vi.fn(),
+    onMoveDown: vi.fn(),
+    onAddTag: vi.fn(),
+    onRemoveTag: vi.fn(),
+    onCreateTag: vi.fn(() => null),
+    onEditItemDetails: vi.fn(),
+    tiers,
+    onEnableTiers: vi.fn(),
+    onDisableTiers: vi.fn(),
+    onAddTier: vi.fn(),
+    onEditTier: vi.fn(),
+    onDeleteTier: vi.fn(),
+    onMoveTier: vi.fn(),
+    ...overrides
+  };
+  render(<MainListPanel {...props} />);
+  return props;
+};
+
+describe('MainListPanel tier list mode', () => {
+  beforeEach(() => {
+    dropZones.length = 0;
+  });
+
+  it('should show each tier with its items and an unsorted bucket', () => {
+    renderPanel();
+
+    const tierS = screen.getByRole('region', { name: 'S' });
+    expect(within(tierS).getByText('Xylophone')).toBeInTheDocument();
+    expect(within(tierS).getByText('Yodel')).toBeInTheDocument();
+    expect(within(screen.getByRole('region', { name: 'A' })).queryByText(/Zither/)).not.toBeInTheDocument();
+    expect(within(screen.getByRole('region', { name: 'Unsorted' })).getByText('Zither')).toBeInTheDocument();
+  });
+
+  it('should give every tier drop zones at global positions', () => {
+    renderPanel();
+
+    const zones = dropZones.map(zone => [zone.data.tierId, zone.data.position]);
+    expect(zones).toEqual([
+      ['tier-s', 1], ['tier-s', 2], ['tier-s', 3],
+      ['tier-a', 3],
+      [null, 3], [null, 4]
+    ]);
+    expect(new Set(dropZones.map(zone => zone.id)).size).toBe(dropZones.length);
+  });
+
+  it('should render only a window of a large tier list', () => {
+    const manyItems: MainListItem[] = Array.from({ length: 2000 }, (_, i) => ({
+      id: `item-${i + 1}`,
+      content: `Item ${i + 1}`,
+      sourceListId: 'list-1',
+      tags: [],
+      order: i + 1,
+      ...(i < 1000 ? { tierId: 'tier-s' } : {})
+    }));
+    renderPanel({ items: manyItems });
+
+    const tierS = screen.getByRole('region', { name: 'S' });
+    expect(within(tierS).getByText('Item 1')).toBeInTheDocument();
+    expect(screen.queryByText('Item 1500')).not.toBeInTheDocument();
+    expect(screen.queryByRole('region', { name: 'Unsorted' })).not.toBeInTheDocument();
+    expect(screen.getAllByText(/^Item \d+$/).length).toBeLessThan(100);
+  });
+
+  it('should rename, reorder and delete tiers', () => {
+    const props = renderPanel();
+    const tierA = screen.getByRole('region', { name: 'A' });
+
+    fireEvent.click(within(tierA).getByTitle('Move tier up'));
+    expect(props.onMoveTier).toHaveBeenCalledWith('tier-a', 0);
+    expect(within(tierA).getByTitle('Move tier down')).toBeDisabled();
+
+    fireEvent.click(within(tierA).getByTitle('Delete tier (its items become unsorted)'));
+    expect(props.onDeleteTier).toHaveBeenCalledWith('tier-a');
+
+    fireEvent.click(within(tierA).getByTitle('Rename tier'));
+    fireEvent.change(screen.getByLabelText('Tier name'), { target: { value: 'Great' } });
+    fireEvent.keyDown(screen.getByLabelText('Tier name'), { key: 'Enter' });
+    expect(props.onEditTier).toHaveBeenCalledWith('tier-a', 'Great', '#f97316');
+  });
+
+  it('should add tiers and switch back to the linear list', () => {
+    const props = renderPanel();
+
+    fireEvent.change(screen.getByPlaceholderText('New tier name...'), { target: { value: ' B ' } });
+    fireEvent.click(screen.getByText('+ Add Tier'));
+    expect(props.onAddTier).toHaveBeenCalledWith('B', '#6b7280');
+
+    fireEvent.click(screen.getByText('Linear'));
+    expect(props.onDisableTiers).toHaveBeenCalled();
+  });
+
+  it('should offer tier list mode for a linear list', () => {
+    const props = renderPanel({ tiers: undefined });
+
+    expect(screen.queryByRole('region')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('Tiers'));
+    expect(props.onEnableTiers).toHaveBeenCalled();
+  });
+});
\ No newline at end of file
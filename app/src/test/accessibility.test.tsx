@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import axe from 'axe-core';
+import App from '../App';
+
+// Runs axe over the rendered app and lists the violations it finds
+const runAxe = async (container: Element) => {
+  const results = await axe.run(container, {
+    // jsdom does no layout, so colors cannot be checked
+    rules: { 'color-contrast': { enabled: false } }
+  });
+  return results.violations.map(violation => `${violation.id}: ${violation.nodes.map(node => node.html).join(', ')}`);
+};
+
+// The first run seeds the sample project
+const renderApp = () => render(<App />);
+
+describe('Accessibility', () => {
+  beforeEach(() => localStorage.clear());
+
+  describe('axe checks', () => {
+    it('should find no violations in the workspace', async () => {
+      const { container } = renderApp();
+
+      expect(await runAxe(container)).toEqual([]);
+    });
+
+    it('should find no violations in tier list mode', async () => {
+      const { container } = renderApp();
+      fireEvent.click(screen.getByText('Tiers'));
+
+      expect(await runAxe(container)).toEqual([]);
+    });
+
+    it('should find no violations with the shortcut help open', async () => {
+      const { container } = renderApp();
+      fireEvent.click(screen.getByTitle('Keyboard shortcuts (?)'));
+
+      expect(await runAxe(container)).toEqual([]);
+    });
+  });
+
+  describe('list semantics', () => {
+    it('should expose the lists as listboxes of options', () => {
+      renderApp();
+
+      expect(screen.getByRole('listbox', { name: 'To-Do Items items' })).toBeInTheDocument();
+      expect(screen.getByRole('listbox', { name: 'Main ranked list' })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: /Write project proposal/ })).toHaveAttribute('aria-posinset', '1');
+    });
+
+    it('should mark selected items and the keyboard focus', () => {
+      renderApp();
+
+      fireEvent.click(screen.getByText('Review budget documents'));
+
+      expect(screen.getByRole('option', { name: /Review budget documents/ })).toHaveAttribute('aria-selected', 'true');
+      expect(screen.getByRole('listbox', { name: 'To-Do Items items' }))
+        .toHaveAttribute('aria-activedescendant', 'input-item-item2');
+    });
+  });
+
+  describe('announcements', () => {
+    const liveRegion = () => document.querySelector('[aria-live="polite"]');
+
+    it('should announce where a moved item lands', () => {
+      renderApp();
+
+      fireEvent.click(screen.getByText('Write project proposal'));
+      fireEvent.keyDown(window, { key: 'End' });
+
+      expect(liveRegion()).toHaveTextContent('Write project proposal moved to position 3 of 3');
+    });
+
+    it('should announce removed tags', () => {
+      renderApp();
+
+      fireEvent.click(screen.getAllByLabelText('Remove tag High Priority')[0]);
+
+      expect(liveRegion()).toHaveTextContent('Tag High Priority removed from Schedule team meeting');
+    });
+  });
+});
\ No newline at end of file
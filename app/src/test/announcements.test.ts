@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { projectReducer, describeAction, describeDragOver } from '../store';
+import type { ProjectAction } from '../store';
+import type { AppState } from '../types/index';
+
+const state: AppState = {
+  currentProject: {
+    id: 'project-1',
+    name: 'Test Project',
+    createdAt: new Date('2024-01-01'),
+    modifiedAt: new Date('2024-01-01'),
+    inputLists: [{
+      id: 'list-1',
+      name: 'Fruit',
+      items: [
+        { id: 'in-1', content: 'Apple', isUsed: false, tags: [] },
+        { id: 'in-2', content: 'Banana', isUsed: true, tags: [] },
+        { id: 'in-3', content: 'Cherry', isUsed: true, tags: ['tag-1'] }
+      ]
+    }],
+    mainList: [
+      { id: 'in-2', content: 'Banana', sourceListId: 'list-1', tags: [], order: 1 },
+      { id: 'in-3', content: 'Cherry', sourceListId: 'list-1', tags: ['tag-1'], order: 2 }
+    ]
+  },
+  savedProjects: [],
+  tagPool: [{ id: 'tag-1', name: 'Sweet', color: '#3b82f6', createdAt: new Date('2024-01-01'), usageCount: 1 }],
+  ui: { selectedItems: [], activeInputList: 'list-1', anchorItem: null }
+};
+
+const announce = (action: ProjectAction, prev = state) =>
+  describeAction(action, prev, projectReducer(prev, action, new Date('2024-06-01')));
+
+describe('describeAction', () => {
+  it('should announce where a moved item ended up', () => {
+    expect(announce({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'in-1', position: 2 }))
+      .toBe('Apple moved to position 2 of 3');
+    expect(announce({ type: 'MOVE_MAIN_ITEM', itemId: 'in-3', position: 1 }))
+      .toBe('Cherry moved to position 1 of 2');
+    expect(announce({ type: 'REORDER_MAIN', fromOrder: 2, toOrder: 1 }))
+      .toBe('Cherry moved to position 1 of 2');
+  });
+
+  it('should count items moved together', () => {
+    expect(announce({ type: 'MOVE_MAIN_ITEMS', itemIds: ['in-2', 'in-3'], position: 1 }))
+      .toBe('2 items moved to position 1 of 2');
+  });
+
+  it('should announce removals and tag changes', () => {
+    expect(announce({ type: 'REMOVE_FROM_MAIN', itemId: 'in-2' })).toBe('Banana removed from the main list');
+    expect(announce({ type: 'ADD_TAG', itemIds: ['in-1'], tagId: 'tag-1' })).toBe('Tag Sweet added to Apple');
+    expect(announce({ type: 'REMOVE_TAG', itemIds: ['in-3'], tagId: 'tag-1' })).toBe('Tag Sweet removed from Cherry');
+  });
+
+  it('should stay silent for no-ops and unrelated actions', () => {
+    expect(announce({ type: 'MOVE_MAIN_ITEM', itemId: 'in-2', position: 1 })).toBeNull();
+    expect(announce({ type: 'RENAME_PROJECT', name: 'Renamed' })).toBeNull();
+  });
+});
+
+describe('describeDragOver', () => {
+  it('should name the position an input item would land at', () => {
+    expect(describeDragOver(
+      { type: 'input-item', itemId: 'in-1', sourceListId: 'list-1', content: 'Apple' },
+      { type: 'main-list-position', position: 2 },
+      state
+    )).toBe('Apple is over position 2 of 3');
+  });
+
+  it('should name other drop targets', () => {
+    const dragData = { type: 'tag' as const, tagId: 'tag-1', tagName: 'Sweet' };
+
+    expect(describeDragOver(dragData, { type: 'main-list-item', itemId: 'in-3' }, state)).toBe('Tag Sweet is over Cherry');
+    expect(describeDragOver(dragData, null, state)).toBe('Tag Sweet is no longer over a drop target');
+  });
+});
\ No newline at end of file
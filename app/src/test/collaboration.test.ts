@@ -0,0 +1,289 @@
+import { describe, it, expect } from 'vitest';
+import { CollabDocument, CollabRelay, CollabSession, createMemoryTransport, type CollabOp } from '../collab';
+import { ProjectStore, projectReducer } from '../store';
+import type { AppState, Project, Tag } from '../types/index';
+
+const tag = (id: string, name: string): Tag => ({
+  id, name, color: '#3b82f6', createdAt: new Date('2024-01-01'), usageCount: 0
+});
+
+const project: Project = {
+  id: 'project-1',
+  name: 'Shared',
+  createdAt: new Date('2024-01-01'),
+  modifiedAt: new Date('2024-01-01'),
+  inputLists: [{
+    id: 'list-1',
+    name: 'Ideas',
+    items: ['a', 'b', 'c', 'd'].map(id => ({ id, content: id.toUpperCase(), isUsed: true, tags: [] }))
+  }],
+  mainList: ['a', 'b', 'c', 'd'].map((id, index) => ({
+    id, content: id.toUpperCase(), sourceListId: 'list-1', tags: [], order: index + 1
+  }))
+};
+
+const stateOf = (current: Project | null, tagPool: Tag[] = [tag('t1', 'Urgent')]): AppState => ({
+  currentProject: current,
+  savedProjects: [],
+  tagPool,
+  ui: { selectedItems: [], activeInputList: 'list-1', anchorItem: null }
+});
+
+const mainOrder = (current: Project | null) => current!.mainList.map(item => item.id);
+
+// Helper: Let relay messages be delivered
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Collaborative document', () => {
+  // Two copies of the shared project, each edited through the reducer
+  const createReplicas = () => {
+    const origin = new CollabDocument('origin');
+    const seed = origin.update(project, [tag('t1', 'Urgent')]);
+    return ['alice', 'bob'].map(clientId => {
+      const document = new CollabDocument(clientId);
+      document.applyOps(seed);
+      let state = stateOf(document.getProject());
+      return {
+        document,
+        edit: (...actions: Parameters<typeof projectReducer>[1][]): CollabOp[] => {
+          actions.forEach(action => { state = projectReducer(state, action); });
+          return document.update(state.currentProject!, state.tagPool);
+        },
+        receive: (ops: CollabOp[]) => {
+          document.applyOps(ops);
+          state = { ...state, currentProject: document.getProject(), tagPool: document.getTagPool(state.tagPool) };
+        }
+      };
+    });
+  };
+
+  it('starts from the project it was created from', () => {
+    const document = new CollabDocument('alice');
+    expect(document.getProject()).toBeNull();
+    document.update(project, []);
+    expect(document.getProject()).toEqual(project);
+  });
+
+  it('shares only the tags the project uses', () => {
+    const alice = new CollabDocument('alice');
+    const tagged = { ...project, mainList: project.mainList.map(item => item.id === 'a' ? { ...item, tags: ['t1'] } : item) };
+    const ops = alice.update(tagged, [tag('t1', 'Urgent'), tag('t9', 'Other project')]);
+
+    const bob = new CollabDocument('bob');
+    bob.applyOps(ops);
+    expect(bob.getTagPool([]).map(t => t.id)).toEqual(['t1']);
+
+    // Once no item uses it, the tag is not taken into new copies' tag pools
+    bob.applyOps(alice.update(project, [tag('t1', 'Urgent'), tag('t9', 'Other project')]));
+    expect(bob.getTagPool([]).map(t => t.id)).toEqual([]);
+    expect(bob.getTagPool([tag('t1', 'Urgent')]).map(t => t.id)).toEqual(['t1']);
+  });
+
+  it('keeps both of two concurrent moves', () => {
+    const [alice, bob] = createReplicas();
+    const fromAlice = alice.edit({ type: 'MOVE_MAIN_ITEM', itemId: 'd', position: 1 });
+    const fromBob = bob.edit({ type: 'MOVE_MAIN_ITEM', itemId: 'a', position: 4 });
+    alice.receive(fromBob);
+    bob.receive(fromAlice);
+
+    expect(mainOrder(alice.document.getProject())).toEqual(['d', 'b', 'c', 'a']);
+    expect(bob.document.getProject()).toEqual(alice.document.getProject());
+  });
+
+  it('converges whatever order operations arrive in', () => {
+    const [alice, bob] = createReplicas();
+    const fromAlice = alice.edit(
+      { type: 'EDIT_ITEM', listId: 'list-1', itemId: 'b', content: 'Beta' },
+      { type: 'REORDER_MAIN', fromOrder: 1, toOrder: 3 }
+    );
+    const fromBob = bob.edit(
+      { type: 'EDIT_ITEM', listId: 'list-1', itemId: 'b', content: 'Bravo' },
+      { type: 'REMOVE_FROM_MAIN', itemId: 'c' }
+    );
+    alice.receive([...fromBob].reverse());
+    bob.receive(fromAlice);
+
+    const merged = alice.document.getProject()!;
+    expect(bob.document.getProject()).toEqual(merged);
+    expect(mainOrder(merged)).toEqual(['b', 'a', 'd']);
+    expect(merged.inputLists[0].items[1].content).toBe('Bravo'); // Later write wins on the same field
+  });
+
+  it('keeps concurrent tag additions and an addition made alongside a removal', () => {
+    const [alice, bob] = createReplicas();
+    alice.receive(alice.edit({ type: 'ADD_TAG', itemIds: ['a'], tagId: 't1' }));
+    bob.receive(alice.document.getOps());
+
+    const fromAlice = alice.edit(
+      { type: 'CREATE_TAG', tag: tag('t2', 'Later') },
+      { type: 'ADD_TAG', itemIds: ['a'], tagId: 't2' }
+    );
+    const fromBob = bob.edit(
+      { type: 'REMOVE_TAG', itemIds: ['a'], tagId: 't1' },
+      { type: 'ADD_TAG', itemIds: ['b'], tagId: 't1' }
+    );
+    alice.receive(fromBob);
+    bob.receive(fromAlice);
+
+    const merged = alice.document.getProject()!;
+    expect(bob.document.getProject()).toEqual(merged);
+    expect(merged.inputLists[0].items[0].tags).toEqual(['t2']);
+    expect(merged.inputLists[0].items[1].tags).toEqual(['t1']);
+    expect(bob.document.getTagPool([tag('t1', 'Urgent')]).map(t => t.name)).toEqual(['Urgent', 'Later']);
+  });
+
+  it('keeps an item added concurrently with a deletion', () => {
+    const [alice, bob] = createReplicas();
+    const fromAlice = alice.edit({ type: 'ADD_ITEM', listId: 'list-1', item: { id: 'e', content: 'E', isUsed: false, tags: [] } });
+    const fromBob = bob.edit({ type: 'DELETE_ITEM', listId: 'list-1', itemId: 'a' });
+    alice.receive(fromBob);
+    bob.receive(fromAlice);
+
+    expect(alice.document.getProject()!.inputLists[0].items.map(item => item.id)).toEqual(['b', 'c', 'd', 'e']);
+    expect(bob.document.getProject()).toEqual(alice.document.getProject());
+  });
+});
+
+describe('Collaboration relay', () => {
+  const rename = (counter: number): CollabOp => ({
+    type: 'set', stamp: { counter, clientId: 'alice' }, entity: 'project', field: 'name', value: `Name ${counter}`
+  });
+
+  it('drops a room once everyone left', () => {
+    const relay = new CollabRelay();
+    const alice = relay.join('project-1', () => {});
+    const bob = relay.join('project-1', () => {});
+    alice.receive({ type: 'ops', ops: [rename(1)] });
+
+    alice.leave();
+    expect(relay.getOps('project-1')).toEqual([rename(1)]);
+    bob.leave();
+    expect(relay.getOps('project-1')).toEqual([]);
+  });
+
+  it('compacts replaced field writes without changing the document', () => {
+    const relay = new CollabRelay();
+    const alice = relay.join('project-1', () => {});
+    const ops: CollabOp[] = [
+      { type: 'set', stamp: { counter: 1, clientId: 'alice' }, entity: 'project', field: 'id', value: 'project-1' },
+      { type: 'set', stamp: { counter: 1, clientId: 'bob' }, entity: 'project', field: 'createdAt', value: '2024-01-01T00:00:00.000Z' },
+      ...Array.from({ length: 1500 }, (_, index) => rename(index + 2))
+    ];
+    ops.forEach(op => alice.receive({ type: 'ops', ops: [op] }));
+
+    const kept = relay.getOps('project-1');
+    expect(kept.length).toBeLessThan(ops.length / 2);
+    const all = new CollabDocument('dave');
+    all.applyOps(ops);
+    const compacted = new CollabDocument('carol');
+    compacted.applyOps(kept);
+    expect(compacted.getProject()).toEqual(all.getProject());
+    expect(compacted.getProject()!.name).toBe('Name 1501');
+  });
+});
+
+describe('Collaboration sessions', () => {
+  const join = (relay: CollabRelay, clientId: string, current: Project | null) => {
+    const store = new ProjectStore(stateOf(current));
+    const session = new CollabSession(store, createMemoryTransport(relay, 'project-1'), { clientId, name: clientId });
+    return { store, session };
+  };
+
+  it('shares the first participant’s project and later edits with everyone who joins', async () => {
+    const relay = new CollabRelay();
+    const alice = join(relay, 'alice', project);
+    await settle();
+    const bob = join(relay, 'bob', { ...project, name: 'Stale copy', mainList: [] });
+    await settle();
+
+    expect(bob.store.getState().currentProject!.name).toBe('Shared');
+    expect(mainOrder(bob.store.getState().currentProject)).toEqual(['a', 'b', 'c', 'd']);
+
+    alice.store.dispatch({ type: 'MOVE_MAIN_ITEM', itemId: 'd', position: 1 });
+    bob.store.dispatch({ type: 'RENAME_PROJECT', name: 'Ranked together' });
+    await settle();
+
+    for (const { store } of [alice, bob]) {
+      expect(mainOrder(store.getState().currentProject)).toEqual(['d', 'a', 'b', 'c']);
+      expect(store.getState().currentProject!.name).toBe('Ranked together');
+    }
+  });
+
+  it('shows who has which items selected and who left', async () => {
+    const relay = new CollabRelay();
+    const alice = join(relay, 'alice', project);
+    const bob = join(relay, 'bob', null);
+    await settle();
+
+    bob.store.dispatch({ type: 'SELECT_ITEMS', itemIds: ['b', 'c'] });
+    await settle();
+    expect(alice.session.getState().peers).toEqual([
+      expect.objectContaining({ clientId: 'bob', name: 'bob', selectedItemIds: ['b', 'c'] })
+    ]);
+
+    bob.session.close();
+    await settle();
+    expect(alice.session.getState().peers).toEqual([]);
+    expect(bob.session.getState().status).toBe('closed');
+  });
+
+  it('sends edits made while disconnected after reconnecting', async () => {
+    const relay = new CollabRelay();
+    const alice = join(relay, 'alice', project);
+    const store = new ProjectStore(stateOf(null));
+    // A connection that can be dropped
+    const transport = createMemoryTransport(relay, 'project-1');
+    let dropConnection = () => {};
+    const bob = new CollabSession(store, {
+      ...transport,
+      open: (onMessage, onClose) => {
+        transport.open(onMessage, onClose);
+        dropConnection = () => {
+          transport.close();
+          onClose();
+        };
+      }
+    }, { clientId: 'bob', name: 'bob' });
+    await settle();
+
+    dropConnection();
+    expect(bob.getState().status).toBe('disconnected');
+    store.dispatch({ type: 'REMOVE_FROM_MAIN', itemId: 'a' });
+    await settle();
+    expect(mainOrder(alice.store.getState().currentProject)).toEqual(['a', 'b', 'c', 'd']);
+
+    bob.reconnect(createMemoryTransport(relay, 'project-1'));
+    await settle();
+    expect(bob.getState().status).toBe('connected');
+    expect(mainOrder(alice.store.getState().currentProject)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('keeps undo working alongside collaborators’ edits', async () => {
+    const relay = new CollabRelay();
+    const alice = join(relay, 'alice', project);
+    const bob = join(relay, 'bob', null);
+    await settle();
+
+    alice.store.dispatch({ type: 'RENAME_PROJECT', name: 'Renamed' });
+    await settle();
+    bob.store.dispatch({ type: 'MOVE_MAIN_ITEM', itemId: 'd', position: 1 });
+    await settle();
+
+    // Undo takes back the rename only; the collaborator's move stays
+    alice.store.undo();
+    await settle();
+    for (const { store } of [alice, bob]) {
+      expect(store.getState().currentProject!.name).toBe('Shared');
+      expect(mainOrder(store.getState().currentProject)).toEqual(['d', 'a', 'b', 'c']);
+    }
+  });
+
+  it('leaves the room when another project is opened', async () => {
+    const relay = new CollabRelay();
+    const alice = join(relay, 'alice', project);
+    await settle();
+
+    alice.store.dispatch({ type: 'LOAD_PROJECT', project: { ...project, id: 'project-2' } });
+    expect(alice.session.getState().status).toBe('closed');
+  });
+});
\ No newline at end of file
@@ -1,27 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import { getDropAction, projectReducer, type DragData, type DropData } from '../store';
 import type { AppState, Project, InputList, MainListItem, Tag, InputListItem } from '../types/index';
 
-// Drag and drop data interfaces from App.tsx
-interface DragData {
-  type: 'input-item' | 'main-item' | 'tag';
-  itemId?: string;
-  sourceListId?: string;
-  content?: string;
-  isMultiSelect?: boolean;
-  selectedItems?: string[];
-  // Tag-specific fields
-  tagId?: string;
-  tagName?: string;
-  tagColor?: string;
-}
-
-interface DropData {
-  type: 'main-list' | 'main-list-position' | 'main-list-item' | 'input-list-item';
-  listId?: string;
-  position?: number;
-  itemId?: string;
-}
-
+// The parts of a dnd-kit drag end event the app reads
 interface DragEndEvent {
   active: { id: string; data: DragData };
   over: { id: string; data: DropData } | null;
@@ -66,361 +47,29 @@ const createProject = (id: string, name: string, inputLists: InputList[] = [], m
   mainList
 });
 
-// Drag-and-drop manager based on App.tsx patterns
-class DragDropManager {
-  private state: AppState;
-  
-  constructor(state: AppState) {
-    this.state = state;
-  }
-
-  // Main drag end handler logic from App.tsx
-  handleDragEnd(event: DragEndEvent): AppState {
-    const { active, over } = event;
-    
-    if (!over || !this.state.currentProject) return this.state;
-
-    const dragData = active.data;
-    const dropData = over.data;
-
-    // Handle different drag types
-    switch (dragData.type) {
-      case 'input-item':
-        return this.handleInputItemDrag(dragData, dropData);
-      case 'main-item':
-        return this.handleMainItemDrag(dragData, dropData);
-      case 'tag':
-        return this.handleTagDrag(dragData, dropData);
-      default:
-        return this.state;
-    }
-  }
-
-  // Input item drag logic
-  private handleInputItemDrag(dragData: DragData, dropData: DropData): AppState {
-    if (dragData.type !== 'input-item' || !dragData.itemId || !dragData.sourceListId) {
-      return this.state;
-    }
-
-    switch (dropData.type) {
-      case 'main-list':
-        return this.moveToMainList(dragData.sourceListId, dragData.itemId);
-      case 'main-list-position':
-        if (dropData.position !== undefined) {
-          return this.moveToMainListAtPosition(dragData.sourceListId, dragData.itemId, dropData.position);
-        }
-        return this.state;
-      default:
-        return this.state;
-    }
-  }
-
-  // Main item drag logic
-  private handleMainItemDrag(dragData: DragData, dropData: DropData): AppState {
-    if (dragData.type !== 'main-item' || !dragData.itemId) {
-      return this.state;
-    }
-
-    if (dropData.type === 'main-list-position' && dropData.position !== undefined) {
-      const selectedItems = this.state.ui.selectedItems;
-      
-      // Check if this is a multi-select operation
-      if (selectedItems.includes(dragData.itemId) && selectedItems.length > 1) {
-        return this.reorderMultipleItems(selectedItems, dropData.position);
-      } else {
-        return this.reorderMainItemToPosition(dragData.itemId, dropData.position);
-      }
-    }
-
-    return this.state;
-  }
-
-  // Tag drag logic
-  private handleTagDrag(dragData: DragData, dropData: DropData): AppState {
-    if (dragData.type !== 'tag' || !dragData.tagId) {
-      return this.state;
-    }
-
-    const targetItemIds = this.getTargetItemIds(dropData);
-    if (targetItemIds.length > 0) {
-      return this.addTag(targetItemIds, dragData.tagId);
-    }
-
-    return this.state;
-  }
-
-  // Get target item IDs for tag application
-  private getTargetItemIds(dropData: DropData): string[] {
-    const selectedItems = this.state.ui.selectedItems;
-
-    switch (dropData.type) {
-      case 'main-list-item':
-        if (dropData.itemId) {
-          // If target item is in selection and there are multiple selected, apply to all
-          if (selectedItems.includes(dropData.itemId) && selectedItems.length > 1) {
-            return selectedItems;
-          }
-          return [dropData.itemId];
-        }
-        break;
-      case 'input-list-item':
-        if (dropData.itemId) {
-          return [dropData.itemId];
-        }
-        break;
-    }
-    return [];
-  }
-
-  // Move item from input list to main list
-  moveToMainList(sourceListId: string, itemId: string): AppState {
-    if (!this.state.currentProject) return this.state;
-
-    const sourceList = this.state.currentProject.inputLists.find(list => list.id === sourceListId);
-    if (!sourceList) return this.state;
-
-    const sourceItem = sourceList.items.find(item => item.id === itemId);
-    if (!sourceItem || sourceItem.isUsed) return this.state;
-
-    const newMainItem: MainListItem = {
-      id: sourceItem.id,
-      content: sourceItem.content,
-      sourceListId,
-      tags: [...sourceItem.tags],
-      order: this.state.currentProject.mainList.length + 1
-    };
-
-    return {
-      ...this.state,
-      currentProject: {
-        ...this.state.currentProject,
-        inputLists: this.state.currentProject.inputLists.map(list =>
-          list.id === sourceListId ? {
-            ...list,
-            items: list.items.map(item =>
-              item.id === itemId ? { ...item, isUsed: true } : item
-            )
-          } : list
-        ),
-        mainList: [...this.state.currentProject.mainList, newMainItem],
-        modifiedAt: new Date()
-      }
-    };
-  }
-
-  // Move item to specific position in main list
-  moveToMainListAtPosition(sourceListId: string, itemId: string, position: number): AppState {
-    if (!this.state.currentProject) return this.state;
-
-    const sourceList = this.state.currentProject.inputLists.find(list => list.id === sourceListId);
-    if (!sourceList) return this.state;
+const now = new Date('2024-06-01');
 
-    const sourceItem = sourceList.items.find(item => item.id === itemId);
-    if (!sourceItem || sourceItem.isUsed) return this.state;
-
-    const newMainItem: MainListItem = {
-      id: sourceItem.id,
-      content: sourceItem.content,
-      sourceListId,
-      tags: [...sourceItem.tags],
-      order: position
-    };
-
-    // Update orders of existing items at/after the insertion position
-    const updatedMainList = this.state.currentProject.mainList.map(item => ({
-      ...item,
-      order: item.order >= position ? item.order + 1 : item.order
-    }));
-
-    // Insert new item at specified position
-    updatedMainList.splice(position - 1, 0, newMainItem);
-
-    return {
-      ...this.state,
-      currentProject: {
-        ...this.state.currentProject,
-        inputLists: this.state.currentProject.inputLists.map(list =>
-          list.id === sourceListId ? {
-            ...list,
-            items: list.items.map(item =>
-              item.id === itemId ? { ...item, isUsed: true } : item
-            )
-          } : list
-        ),
-        mainList: updatedMainList,
-        modifiedAt: new Date()
-      }
-    };
-  }
-
-  // Reorder single main list item
-  reorderMainItemToPosition(itemId: string, newPosition: number): AppState {
-    if (!this.state.currentProject) return this.state;
-
-    const currentItem = this.state.currentProject.mainList.find(item => item.id === itemId);
-    if (!currentItem || currentItem.order === newPosition) return this.state;
-
-    const isMovingUp = newPosition < currentItem.order;
-
-    const updatedMainList = this.state.currentProject.mainList.map(item => {
-      if (item.id === itemId) {
-        return { ...item, order: newPosition };
-      }
-      
-      if (isMovingUp) {
-        // Moving up: increment order of items at/after new position, before old position
-        if (item.order >= newPosition && item.order < currentItem.order) {
-          return { ...item, order: item.order + 1 };
-        }
-      } else {
-        // Moving down: decrement order of items after old position, at/before new position
-        if (item.order > currentItem.order && item.order <= newPosition) {
-          return { ...item, order: item.order - 1 };
-        }
-      }
-      
-      return item;
-    });
-
-    return {
-      ...this.state,
-      currentProject: {
-        ...this.state.currentProject,
-        mainList: updatedMainList,
-        modifiedAt: new Date()
-      }
-    };
-  }
+// Helper: Handle a drop as App does: resolve it into an action and run it through the reducer
+const dragEnd = (state: AppState, { active, over }: DragEndEvent): AppState => {
+  if (!over) return state;
+  const action = getDropAction(active.data, over.data, state.ui.selectedItems);
+  return action ? projectReducer(state, action, now) : state;
+};
 
-  // Reorder multiple items to new position
-  reorderMultipleItems(selectedItemIds: string[], newPosition: number): AppState {
-    if (!this.state.currentProject || selectedItemIds.length === 0) return this.state;
+const itemAt = (state: AppState, position: number): MainListItem | null =>
+  state.currentProject?.mainList.find(item => item.order === position) ?? null;
 
-    const selectedItems = this.state.currentProject.mainList
-      .filter(item => selectedItemIds.includes(item.id))
-      .sort((a, b) => a.order - b.order);
-
-    if (selectedItems.length === 0) return this.state;
-
-    // Get non-selected items
-    const nonSelectedItems = this.state.currentProject.mainList
-      .filter(item => !selectedItemIds.includes(item.id))
-      .sort((a, b) => a.order - b.order);
-
-    // Rebuild the list with new order
-    const newMainList: MainListItem[] = [];
-    let currentOrder = 1;
-
-    // Calculate actual insertion position considering removed items
-    const adjustedPosition = Math.min(newPosition, nonSelectedItems.length + 1);
-
-    // Add non-selected items before insertion point
-    for (let i = 0; i < adjustedPosition - 1; i++) {
-      if (nonSelectedItems[i]) {
-        newMainList.push({ ...nonSelectedItems[i], order: currentOrder++ });
-      }
-    }
-
-    // Add selected items at new position
-    selectedItems.forEach(item => {
-      newMainList.push({ ...item, order: currentOrder++ });
-    });
-
-    // Add remaining non-selected items after insertion point
-    for (let i = adjustedPosition - 1; i < nonSelectedItems.length; i++) {
-      if (nonSelectedItems[i]) {
-        newMainList.push({ ...nonSelectedItems[i], order: currentOrder++ });
-      }
-    }
-
-    return {
-      ...this.state,
-      currentProject: {
-        ...this.state.currentProject,
-        mainList: newMainList,
-        modifiedAt: new Date()
-      }
-    };
-  }
-
-  // Add tag to items
-  addTag(itemIds: string[], tagId: string): AppState {
-    if (!this.state.currentProject) return this.state;
-
-    let usageIncrement = 0;
-
-    const updatedProject = {
-      ...this.state.currentProject,
-      // Update main list items
-      mainList: this.state.currentProject.mainList.map(item => {
-        if (itemIds.includes(item.id) && !item.tags.includes(tagId)) {
-          usageIncrement++;
-          return { ...item, tags: [...item.tags, tagId] };
-        }
-        return item;
-      }),
-      // Update input list items
-      inputLists: this.state.currentProject.inputLists.map(list => ({
-        ...list,
-        items: list.items.map(item => {
-          if (itemIds.includes(item.id) && !item.tags.includes(tagId)) {
-            usageIncrement++;
-            return { ...item, tags: [...item.tags, tagId] };
-          }
-          return item;
-        })
-      }))
-    };
-
-    // Update tag usage count
-    const updatedTagPool = this.state.tagPool.map(tag =>
-      tag.id === tagId ? { ...tag, usageCount: tag.usageCount + usageIncrement } : tag
-    );
-
-    return {
-      ...this.state,
-      currentProject: updatedProject,
-      tagPool: updatedTagPool
-    };
-  }
-
-  // Utility methods for testing
-  getMainListItemByPosition(position: number): MainListItem | null {
-    if (!this.state.currentProject) return null;
-    return this.state.currentProject.mainList.find(item => item.order === position) || null;
-  }
-
-  validateMainListOrder(): { isValid: boolean; errors: string[] } {
-    if (!this.state.currentProject) return { isValid: true, errors: [] };
-
-    const items = this.state.currentProject.mainList.sort((a, b) => a.order - b.order);
-    const errors: string[] = [];
-
-    // Check for sequential order starting from 1
-    items.forEach((item, index) => {
-      const expectedOrder = index + 1;
-      if (item.order !== expectedOrder) {
-        errors.push(`Item ${item.id} has order ${item.order}, expected ${expectedOrder}`);
-      }
-    });
-
-    // Check for duplicates
-    const orders = items.map(item => item.order);
-    const uniqueOrders = new Set(orders);
-    if (orders.length !== uniqueOrders.size) {
-      errors.push('Duplicate order values found');
-    }
-
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
-  }
-}
+// Helper: Main list orders run from 1 without gaps or duplicates
+const validateOrder = (state: AppState): { isValid: boolean; errors: string[] } => {
+  const items = [...(state.currentProject?.mainList ?? [])].sort((a, b) => a.order - b.order);
+  const errors = items
+    .filter((item, index) => item.order !== index + 1)
+    .map(item => `Item ${item.id} has order ${item.order}`);
+  return { isValid: errors.length === 0, errors };
+};
 
 describe('Drag-and-Drop Logic', () => {
   let initialState: AppState;
-  let dragDropManager: DragDropManager;
 
   beforeEach(() => {
     const inputList1 = createInputList('list1', 'Todo Items', [
@@ -458,7 +107,6 @@ describe('Drag-and-Drop Logic', () => {
       }
     };
 
-    dragDropManager = new DragDropManager(initialState);
   });
 
   describe('Basic Drag Operations', () => {
@@ -474,7 +122,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // Check new main list item
       expect(result.currentProject?.mainList).toHaveLength(5);
@@ -505,21 +153,20 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // Check item inserted at position 2
-      const manager = new DragDropManager(result);
-      const itemAtPos2 = manager.getMainListItemByPosition(2);
+      const itemAtPos2 = itemAt(result, 2);
       expect(itemAtPos2?.id).toBe('input2');
 
       // Check other items shifted
-      const itemAtPos3 = manager.getMainListItemByPosition(3);
-      const itemAtPos4 = manager.getMainListItemByPosition(4);
+      const itemAtPos3 = itemAt(result, 3);
+      const itemAtPos4 = itemAt(result, 4);
       expect(itemAtPos3?.id).toBe('main2'); // Was at 2, now at 3
       expect(itemAtPos4?.id).toBe('main3'); // Was at 3, now at 4
 
       // Validate order consistency
-      const validation = manager.validateMainListOrder();
+      const validation = validateOrder(result);
       expect(validation.isValid).toBe(true);
     });
 
@@ -535,7 +182,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // State should remain unchanged
       expect(result).toBe(initialState);
@@ -553,23 +200,22 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // Check main4 moved to position 2
-      const manager = new DragDropManager(result);
-      const itemAtPos2 = manager.getMainListItemByPosition(2);
+      const itemAtPos2 = itemAt(result, 2);
       expect(itemAtPos2?.id).toBe('main4');
 
       // Check other items shifted
-      const itemAtPos1 = manager.getMainListItemByPosition(1);
-      const itemAtPos3 = manager.getMainListItemByPosition(3);
-      const itemAtPos4 = manager.getMainListItemByPosition(4);
+      const itemAtPos1 = itemAt(result, 1);
+      const itemAtPos3 = itemAt(result, 3);
+      const itemAtPos4 = itemAt(result, 4);
       expect(itemAtPos1?.id).toBe('main1'); // Unchanged
       expect(itemAtPos3?.id).toBe('main2'); // Shifted down
       expect(itemAtPos4?.id).toBe('main3'); // Shifted down
 
       // Validate order consistency
-      const validation = manager.validateMainListOrder();
+      const validation = validateOrder(result);
       expect(validation.isValid).toBe(true);
     });
   });
@@ -581,7 +227,6 @@ describe('Drag-and-Drop Logic', () => {
         ...initialState,
         ui: { ...initialState.ui, selectedItems: ['main1', 'main3'] }
       };
-      const manager = new DragDropManager(stateWithSelection);
 
       const dragEvent: DragEndEvent = {
         active: { 
@@ -594,23 +239,22 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = manager.handleDragEnd(dragEvent);
+      const result = dragEnd(stateWithSelection, dragEvent);
 
       // Check that both selected items moved together
-      const resultManager = new DragDropManager(result);
-      const itemAtPos3 = resultManager.getMainListItemByPosition(3);
-      const itemAtPos4 = resultManager.getMainListItemByPosition(4);
+      const itemAtPos3 = itemAt(result, 3);
+      const itemAtPos4 = itemAt(result, 4);
       expect(itemAtPos3?.id).toBe('main1');
       expect(itemAtPos4?.id).toBe('main3');
 
       // Check remaining items
-      const itemAtPos1 = resultManager.getMainListItemByPosition(1);
-      const itemAtPos2 = resultManager.getMainListItemByPosition(2);
+      const itemAtPos1 = itemAt(result, 1);
+      const itemAtPos2 = itemAt(result, 2);
       expect(itemAtPos1?.id).toBe('main2'); // Shifted up
       expect(itemAtPos2?.id).toBe('main4'); // Shifted up
 
       // Validate order consistency
-      const validation = resultManager.validateMainListOrder();
+      const validation = validateOrder(result);
       expect(validation.isValid).toBe(true);
     });
 
@@ -620,7 +264,6 @@ describe('Drag-and-Drop Logic', () => {
         ...initialState,
         ui: { ...initialState.ui, selectedItems: ['main1', 'main3'] }
       };
-      const manager = new DragDropManager(stateWithSelection);
 
       const dragEvent: DragEndEvent = {
         active: { 
@@ -633,23 +276,22 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = manager.handleDragEnd(dragEvent);
+      const result = dragEnd(stateWithSelection, dragEvent);
 
       // Only main2 should move
-      const resultManager = new DragDropManager(result);
-      const itemAtPos4 = resultManager.getMainListItemByPosition(4);
+      const itemAtPos4 = itemAt(result, 4);
       expect(itemAtPos4?.id).toBe('main2');
 
       // Other selected items should remain in original positions, but shifted due to main2 moving
-      const itemAtPos1 = resultManager.getMainListItemByPosition(1);
-      const itemAtPos2 = resultManager.getMainListItemByPosition(2);
-      const itemAtPos3 = resultManager.getMainListItemByPosition(3);
+      const itemAtPos1 = itemAt(result, 1);
+      const itemAtPos2 = itemAt(result, 2);
+      const itemAtPos3 = itemAt(result, 3);
       expect(itemAtPos1?.id).toBe('main1');
       expect(itemAtPos2?.id).toBe('main3'); // Shifted up due to main2 moving down
       expect(itemAtPos3?.id).toBe('main4'); // Shifted up due to main2 moving down
 
       // Validate order consistency
-      const validation = resultManager.validateMainListOrder();
+      const validation = validateOrder(result);
       expect(validation.isValid).toBe(true);
     });
 
@@ -659,7 +301,6 @@ describe('Drag-and-Drop Logic', () => {
         ...initialState,
         ui: { ...initialState.ui, selectedItems: ['main2'] }
       };
-      const manager = new DragDropManager(stateWithSelection);
 
       const dragEvent: DragEndEvent = {
         active: { 
@@ -672,15 +313,14 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = manager.handleDragEnd(dragEvent);
+      const result = dragEnd(stateWithSelection, dragEvent);
 
       // Should perform single-item operation (not multi-item)
-      const resultManager = new DragDropManager(result);
-      const itemAtPos1 = resultManager.getMainListItemByPosition(1);
+      const itemAtPos1 = itemAt(result, 1);
       expect(itemAtPos1?.id).toBe('main2');
 
       // Validate order consistency
-      const validation = resultManager.validateMainListOrder();
+      const validation = validateOrder(result);
       expect(validation.isValid).toBe(true);
     });
 
@@ -689,7 +329,6 @@ describe('Drag-and-Drop Logic', () => {
         ...initialState,
         ui: { ...initialState.ui, selectedItems: ['main2', 'main4'] }
       };
-      const manager = new DragDropManager(stateWithSelection);
 
       const dragEvent: DragEndEvent = {
         active: { 
@@ -702,23 +341,22 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = manager.handleDragEnd(dragEvent);
+      const result = dragEnd(stateWithSelection, dragEvent);
 
       // Selected items should move to end
-      const resultManager = new DragDropManager(result);
-      const itemAtPos3 = resultManager.getMainListItemByPosition(3);
-      const itemAtPos4 = resultManager.getMainListItemByPosition(4);
+      const itemAtPos3 = itemAt(result, 3);
+      const itemAtPos4 = itemAt(result, 4);
       expect(itemAtPos3?.id).toBe('main2');
       expect(itemAtPos4?.id).toBe('main4');
 
       // Remaining items should move up
-      const itemAtPos1 = resultManager.getMainListItemByPosition(1);
-      const itemAtPos2 = resultManager.getMainListItemByPosition(2);
+      const itemAtPos1 = itemAt(result, 1);
+      const itemAtPos2 = itemAt(result, 2);
       expect(itemAtPos1?.id).toBe('main1');
       expect(itemAtPos2?.id).toBe('main3');
 
       // Validate order consistency
-      const validation = resultManager.validateMainListOrder();
+      const validation = validateOrder(result);
       expect(validation.isValid).toBe(true);
     });
   });
@@ -736,7 +374,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // Check tag added to item
       const mainItem = result.currentProject?.mainList.find(item => item.id === 'main2');
@@ -752,7 +390,6 @@ describe('Drag-and-Drop Logic', () => {
         ...initialState,
         ui: { ...initialState.ui, selectedItems: ['main1', 'main3'] }
       };
-      const manager = new DragDropManager(stateWithSelection);
 
       const dragEvent: DragEndEvent = {
         active: { 
@@ -765,7 +402,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = manager.handleDragEnd(dragEvent);
+      const result = dragEnd(stateWithSelection, dragEvent);
 
       // Check tag added to both selected items
       const main1 = result.currentProject?.mainList.find(item => item.id === 'main1');
@@ -790,7 +427,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // Check tag added to input item
       const inputList = result.currentProject?.inputLists.find(list => list.id === 'list1');
@@ -814,7 +451,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // Tag should not be duplicated
       const mainItem = result.currentProject?.mainList.find(item => item.id === 'main1');
@@ -840,21 +477,20 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
-      const manager = new DragDropManager(result);
-      const itemAtPos1 = manager.getMainListItemByPosition(1);
+      const itemAtPos1 = itemAt(result, 1);
       expect(itemAtPos1?.id).toBe('main4');
 
       // All other items should shift down
-      const itemAtPos2 = manager.getMainListItemByPosition(2);
-      const itemAtPos3 = manager.getMainListItemByPosition(3);
-      const itemAtPos4 = manager.getMainListItemByPosition(4);
+      const itemAtPos2 = itemAt(result, 2);
+      const itemAtPos3 = itemAt(result, 3);
+      const itemAtPos4 = itemAt(result, 4);
       expect(itemAtPos2?.id).toBe('main1');
       expect(itemAtPos3?.id).toBe('main2');
       expect(itemAtPos4?.id).toBe('main3');
 
-      const validation = manager.validateMainListOrder();
+      const validation = validateOrder(result);
       expect(validation.isValid).toBe(true);
     });
 
@@ -870,7 +506,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // Item should be inserted at position 10 as requested (beyond end is allowed)
       const newItem = result.currentProject?.mainList.find(item => item.id === 'input4');
@@ -894,20 +530,19 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // Check item inserted at position 3
-      const manager = new DragDropManager(result);
-      const itemAtPos3 = manager.getMainListItemByPosition(3);
+      const itemAtPos3 = itemAt(result, 3);
       expect(itemAtPos3?.id).toBe('input5');
 
       // Items at position 3 and after should shift
-      const itemAtPos4 = manager.getMainListItemByPosition(4);
-      const itemAtPos5 = manager.getMainListItemByPosition(5);
+      const itemAtPos4 = itemAt(result, 4);
+      const itemAtPos5 = itemAt(result, 5);
       expect(itemAtPos4?.id).toBe('main3'); // Was at 3
       expect(itemAtPos5?.id).toBe('main4'); // Was at 4
 
-      const validation = manager.validateMainListOrder();
+      const validation = validateOrder(result);
       expect(validation.isValid).toBe(true);
     });
 
@@ -923,7 +558,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
 
       // State should remain unchanged
       expect(result).toBe(initialState);
@@ -943,7 +578,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
       expect(result).toBe(initialState); // No change
     });
 
@@ -956,7 +591,7 @@ describe('Drag-and-Drop Logic', () => {
         over: null
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
       expect(result).toBe(initialState); // No change
     });
 
@@ -972,13 +607,12 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
       expect(result).toBe(initialState); // No change
     });
 
     it('should handle operations when project is null', () => {
       const nullProjectState = { ...initialState, currentProject: null };
-      const nullManager = new DragDropManager(nullProjectState);
 
       const dragEvent: DragEndEvent = {
         active: { 
@@ -991,33 +625,30 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = nullManager.handleDragEnd(dragEvent);
+      const result = dragEnd(nullProjectState, dragEvent);
       expect(result).toBe(nullProjectState); // No change
     });
 
     it('should maintain order consistency after complex operations', () => {
       // Perform multiple operations
       let result = initialState;
-      let manager = new DragDropManager(result);
 
       // Move input item to position 2
       let dragEvent: DragEndEvent = {
         active: { id: 'input1', data: { type: 'input-item', itemId: 'input1', sourceListId: 'list1' }},
         over: { id: 'pos2', data: { type: 'main-list-position', position: 2 }}
       };
-      result = manager.handleDragEnd(dragEvent);
-      manager = new DragDropManager(result);
+      result = dragEnd(result, dragEvent);
 
       // Reorder existing item
       dragEvent = {
         active: { id: 'main4', data: { type: 'main-item', itemId: 'main4' }},
         over: { id: 'pos1', data: { type: 'main-list-position', position: 1 }}
       };
-      result = manager.handleDragEnd(dragEvent);
-      manager = new DragDropManager(result);
+      result = dragEnd(result, dragEvent);
 
       // Validate final state
-      const validation = manager.validateMainListOrder();
+      const validation = validateOrder(result);
       expect(validation.isValid).toBe(true);
       expect(result.currentProject?.mainList).toHaveLength(5);
     });
@@ -1034,7 +665,7 @@ describe('Drag-and-Drop Logic', () => {
         }
       };
 
-      const result = dragDropManager.handleDragEnd(dragEvent);
+      const result = dragEnd(initialState, dragEvent);
       expect(result).toBe(initialState); // No change
     });
   });
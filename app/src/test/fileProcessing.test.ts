@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { FileProcessor } from '../utils/fileProcessing';
-import type { Project, InputList, MainListItem, Tag, InputListItem } from '../types/index';
+import { FileProcessor, DEFAULT_MAX_IMPORT_ITEMS } from '../utils/fileProcessing';
+import type { Project, InputList, MainListItem, Tag, InputListItem, CustomField } from '../types/index';
 
 // Test data helpers
 const createInputListItem = (id: string, content: string, isUsed = false, tags: string[] = []): InputListItem => ({
@@ -79,15 +79,26 @@ describe('FileProcessor', () => {
       expect(result.data).toEqual(['Item 1', 'Item 2', 'Item 3']);
     });
 
-    it('should enforce 250 item limit', () => {
+    it('should enforce a configured item limit', () => {
       const items = Array.from({ length: 251 }, (_, i) => `Item ${i + 1}`);
       const content = items.join('\n');
-      const result = FileProcessor.importPlainText(content);
+      const result = FileProcessor.importPlainText(content, { maxItems: 250 });
       
       expect(result.success).toBe(false);
       expect(result.error).toContain('Too many items (251). Maximum allowed is 250 items.');
     });
 
+    it('should accept large lists up to the default limit', () => {
+      const items = Array.from({ length: DEFAULT_MAX_IMPORT_ITEMS }, (_, i) => `Item ${i + 1}`);
+      const result = FileProcessor.importPlainText(items.join('\n'));
+      const tooMany = FileProcessor.importPlainText([...items, 'One more'].join('\n'));
+
+      expect(result.success).toBe(true);
+      expect(result.itemCount).toBe(DEFAULT_MAX_IMPORT_ITEMS);
+      expect(tooMany.success).toBe(false);
+      expect(tooMany.error).toContain(`Maximum allowed is ${DEFAULT_MAX_IMPORT_ITEMS} items.`);
+    });
+
     it('should sanitize HTML content', () => {
       const content = '<script>alert("evil")</script>Item 1\n<b>Item 2</b>\n<div>Item 3</div>';
       const result = FileProcessor.importPlainText(content);
@@ -153,10 +164,10 @@ describe('FileProcessor', () => {
       }
     });
 
-    it('should enforce 250 item limit for CSV', () => {
+    it('should enforce a configured item limit for CSV', () => {
       const items = Array.from({ length: 251 }, (_, i) => `Item ${i + 1}`);
       const content = items.join(',');
-      const result = FileProcessor.importCSV(content);
+      const result = FileProcessor.importCSV(content, { maxItems: 250 });
       
       expect(result.success).toBe(false);
       expect(result.error).toContain('Too many items (251). Maximum allowed is 250 items.');
@@ -179,6 +190,176 @@ describe('FileProcessor', () => {
     });
   });
 
+  describe('CSV tables', () => {
+    const csv = 'Title;Tags;Notes;Rank\r\n"Dune";"sci-fi, classic";"Long ""epic""";2\r\nEmma;;;x\r\n;tag;;\r\n"Neuromancer";sci-fi;"Line 1\nLine 2";1\r\n';
+
+    it('should parse a multi-row table and detect the delimiter', () => {
+      const result = FileProcessor.parseCSVTable(csv);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.delimiter).toBe(';');
+      expect(result.data!.rows).toHaveLength(5);
+      expect(result.data!.columnCount).toBe(4);
+      expect(result.data!.rows[4][2]).toBe('Line 1\nLine 2');
+    });
+
+    it('should report unterminated quotes', () => {
+      const result = FileProcessor.parseCSVTable('a,b\n"broken');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('CSV parsing error: Unterminated quoted field starting on row 2');
+    });
+
+    it('should suggest a mapping from header names', () => {
+      const table = FileProcessor.parseCSVTable(csv).data!;
+
+      expect(FileProcessor.suggestCSVMapping(table)).toEqual({
+        hasHeader: true,
+        content: 0,
+        tags: 1,
+        notes: 2,
+        url: null,
+        rank: 3,
+        fields: {}
+      });
+    });
+
+    it('should default to the first column without a recognizable header', () => {
+      const table = FileProcessor.parseCSVTable('Dune,1\nEmma,2').data!;
+
+      expect(FileProcessor.suggestCSVMapping(table)).toEqual({
+        hasHeader: false,
+        content: 0,
+        tags: null,
+        notes: null,
+        url: null,
+        rank: null,
+        fields: {}
+      });
+      expect(FileProcessor.getCSVColumnLabels(table, false)).toEqual(['Column 1', 'Column 2']);
+    });
+
+    it('should build items from mapped columns', () => {
+      const table = FileProcessor.parseCSVTable(csv).data!;
+      const result = FileProcessor.applyCSVMapping(table, FileProcessor.suggestCSVMapping(table));
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([
+        { content: 'Dune', tags: ['sci-fi', 'classic'], notes: 'Long "epic"', rank: 2 },
+        { content: 'Emma' },
+        { content: 'Neuromancer', tags: ['sci-fi'], notes: 'Line 1\nLine 2', rank: 1 }
+      ]);
+      expect(result.warnings).toEqual([
+        'Row 3: rank "x" is not a positive number',
+        '1 rows were skipped (empty or too long content)'
+      ]);
+    });
+
+    it('should treat the header as data when unchecked', () => {
+      const table = FileProcessor.parseCSVTable(csv).data!;
+      const result = FileProcessor.applyCSVMapping(table, {
+        hasHeader: false, content: 0, tags: null, notes: null, url: null, rank: null, fields: {}
+      });
+
+      expect(result.data![0]).toEqual({ content: 'Title' });
+      expect(result.itemCount).toBe(4);
+    });
+
+    it('should enforce the item limit on mapped rows', () => {
+      const table = FileProcessor.parseCSVTable(csv).data!;
+      const result = FileProcessor.applyCSVMapping(table, FileProcessor.suggestCSVMapping(table), { maxItems: 2 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Too many items (3). Maximum allowed is 2 items.');
+    });
+
+    it('should map links and custom fields, skipping values that do not parse', () => {
+      const customFields: CustomField[] = [
+        { id: 'f-year', name: 'Year', type: 'number' },
+        { id: 'f-size', name: 'Size', type: 'select', options: ['Short', 'Long'] }
+      ];
+      const table = FileProcessor.parseCSVTable(
+        'Title,Link,year,Size\nDune,example.com/dune,1965,long\nEmma,ftp://emma,soon,Huge'
+      ).data!;
+      const mapping = FileProcessor.suggestCSVMapping(table, customFields);
+
+      expect(mapping).toMatchObject({ url: 1, fields: { 'f-year': 2, 'f-size': 3 } });
+
+      const result = FileProcessor.applyCSVMapping(table, mapping, { customFields });
+
+      expect(result.data).toEqual([
+        { content: 'Dune', url: 'https://example.com/dune', fields: { 'f-year': 1965, 'f-size': 'Long' } },
+        { content: 'Emma' }
+      ]);
+      expect(result.warnings).toEqual([
+        'Row 3: "ftp://emma" is not a web link',
+        'Row 3: Year: "soon" is not a number',
+        'Row 3: Size: "Huge" is not one of the options'
+      ]);
+    });
+  });
+
+  describe('JSON lists', () => {
+    it('should import an array of strings', () => {
+      const result = FileProcessor.importJSONList('["Dune", "Emma", ""]');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([{ content: 'Dune' }, { content: 'Emma' }]);
+      expect(result.warnings).toEqual(['1 entries were skipped (missing, empty or too long content)']);
+    });
+
+    it('should suggest content and tag fields for an array of objects', () => {
+      const document = FileProcessor.parseJSONDocument(JSON.stringify({
+        meta: { owner: 'me' },
+        books: [
+          { id: 1, title: 'Dune', tags: ['sci-fi', 'Classic'] },
+          { id: 2, title: 'Emma', tags: 'romance; classic' }
+        ]
+      })).data;
+
+      const mapping = FileProcessor.suggestJSONMapping(document);
+      expect(mapping).toEqual({ listPath: '$.books', contentPath: 'title', tagsPath: 'tags' });
+
+      const result = FileProcessor.applyJSONMapping(document, mapping);
+      expect(result.data).toEqual([
+        { content: 'Dune', tags: ['sci-fi', 'Classic'] },
+        { content: 'Emma', tags: ['romance', 'classic'] }
+      ]);
+    });
+
+    it('should read tags from nested object arrays', () => {
+      const document = [{ name: 'Dune', labels: [{ name: 'sci-fi' }, { name: 'Sci-Fi' }] }];
+      const result = FileProcessor.applyJSONMapping(document, {
+        listPath: '$',
+        contentPath: 'name',
+        tagsPath: 'labels[*].name'
+      });
+
+      expect(result.data).toEqual([{ content: 'Dune', tags: ['sci-fi'] }]);
+    });
+
+    it('should report invalid documents and paths', () => {
+      expect(FileProcessor.parseJSONDocument('  ').error).toBe('JSON file is empty');
+      expect(FileProcessor.parseJSONDocument('[1,').error).toBe('Invalid JSON format');
+      expect(FileProcessor.parseJSONDocument('{"a": 1}').error).toBe('No lists found in JSON document');
+
+      const document = [{ title: 'Dune' }];
+      expect(FileProcessor.applyJSONMapping(document, { listPath: '$', contentPath: 'title[', tagsPath: null }).error)
+        .toBe('Invalid path "title[" near "["');
+      expect(FileProcessor.applyJSONMapping(document, { listPath: '$', contentPath: 'name', tagsPath: null }).error)
+        .toBe('No valid items found at the selected content field');
+      expect(FileProcessor.applyJSONMapping(document, { listPath: '$.missing', contentPath: 'title', tagsPath: null }).error)
+        .toBe('No list found at $.missing');
+    });
+
+    it('should respect the item limit', () => {
+      const result = FileProcessor.importJSONList('["a", "b", "c"]', { maxItems: 2 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Too many items (3). Maximum allowed is 2 items.');
+    });
+  });
+
   describe('importListContent', () => {
     it('should try plain text first, then CSV', () => {
       const content = 'Item 1\nItem 2\nItem 3';
@@ -207,6 +388,19 @@ describe('FileProcessor', () => {
       expect(result.error).toContain('Plain text parsing');
       expect(result.error).toContain('CSV parsing');
     });
+
+    it('should import JSON arrays by content instead of as lines of JSON', () => {
+      const result = FileProcessor.importListContent('[\n  {"title": "Dune"},\n  {"title": "Emma"}\n]');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([{ content: 'Dune' }, { content: 'Emma' }]);
+    });
+
+    it('should keep the tags of JSON list entries', () => {
+      const result = FileProcessor.importListContent('[{"title": "Dune", "tags": ["sci-fi", "classic"]}, {"title": "Emma"}]');
+
+      expect(result.data).toEqual([{ content: 'Dune', tags: ['sci-fi', 'classic'] }, { content: 'Emma' }]);
+    });
   });
 
   describe('importProjectJSON', () => {
@@ -290,6 +484,82 @@ describe('FileProcessor', () => {
       expect(result.data!.inputLists[0].items[0].id).not.toBe(validProjectData.project.inputLists[0].items[0].id);
     });
 
+    it('should remap IDs in a saved comparison session', () => {
+      const jsonContent = JSON.stringify({
+        ...validProjectData,
+        project: {
+          ...validProjectData.project,
+          comparisonSession: { sortedIds: ['item-1'], pendingIds: ['deleted-item'], low: 0, high: 1, comparisons: 4 }
+        }
+      });
+      const result = FileProcessor.importProjectJSON(jsonContent);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.comparisonSession).toEqual({
+        sortedIds: [result.data!.inputLists[0].items[0].id],
+        pendingIds: ['deleted-item'],
+        low: 0,
+        high: 1,
+        comparisons: 4
+      });
+    });
+
+    it('should remap IDs in duplicate links', () => {
+      const jsonContent = JSON.stringify({
+        ...validProjectData,
+        project: { ...validProjectData.project, itemLinks: [['item-1', 'deleted-item']] }
+      });
+      const result = FileProcessor.importProjectJSON(jsonContent);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.itemLinks).toEqual([[result.data!.inputLists[0].items[0].id, 'deleted-item']]);
+    });
+
+    it('should return the exported tag pool with restored dates', () => {
+      const jsonContent = JSON.stringify({
+        ...validProjectData,
+        tagPool: [
+          { id: 'tag-1', name: 'urgent', color: '#ef4444', createdAt: '2024-01-02T10:00:00.000Z', usageCount: 3 }
+        ]
+      });
+      const result = FileProcessor.importProjectJSON(jsonContent);
+
+      expect(result.success).toBe(true);
+      expect(result.tagPool).toHaveLength(1);
+      expect(result.tagPool![0].name).toBe('urgent');
+      expect(result.tagPool![0].color).toBe('#ef4444');
+      expect(result.tagPool![0].createdAt).toBeInstanceOf(Date);
+      expect(result.tagPool![0].usageCount).toBe(0);
+    });
+
+    it('should skip malformed exported tags with a warning', () => {
+      const jsonContent = JSON.stringify({
+        ...validProjectData,
+        tagPool: [{ id: 'tag-1', color: '#ef4444' }]
+      });
+      const result = FileProcessor.importProjectJSON(jsonContent);
+
+      expect(result.success).toBe(true);
+      expect(result.tagPool).toEqual([]);
+      expect(result.warnings).toEqual(['Skipped invalid tag at position 1']);
+    });
+
+    it('should renumber main list order when upgrading 1.0 exports', () => {
+      const jsonContent = JSON.stringify(validProjectData);
+      const result = FileProcessor.importProjectJSON(jsonContent);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.mainList[0].order).toBe(1);
+    });
+
+    it('should reject exports from a newer format version', () => {
+      const jsonContent = JSON.stringify({ ...validProjectData, version: '9.0' });
+      const result = FileProcessor.importProjectJSON(jsonContent);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('newer than the newest supported format');
+    });
+
     it('should handle missing project data', () => {
       const invalidData = { version: '1.0' }; // No project field
       const jsonContent = JSON.stringify(invalidData);
@@ -327,12 +597,27 @@ describe('FileProcessor', () => {
       expect(result.filename).toBeDefined();
       
       const exportData = JSON.parse(result.data!);
-      expect(exportData.version).toBe('1.0');
+      expect(exportData.version).toBe('1.2');
       expect(exportData.project.name).toBe('Test Project');
       expect(exportData.tagPool).toHaveLength(1); // Only used tag
       expect(exportData.tagPool[0].name).toBe('Important');
     });
 
+    it('should export the tags of items ranked on parked output lists', () => {
+      const project: Project = {
+        ...sampleProject,
+        activeOutputListId: 'output-1',
+        outputLists: [
+          { id: 'output-1', name: 'Main List', items: [] },
+          { id: 'output-2', name: 'Later', items: [createMainListItem('item-1', 'Item 1', 'list-1', 1, ['tag-2'])] }
+        ]
+      };
+      const result = FileProcessor.exportProjectJSON(project, sampleTags);
+
+      const exportData = JSON.parse(result.data!);
+      expect(exportData.tagPool.map((tag: Tag) => tag.name)).toEqual(['Important', 'Unused']);
+    });
+
     it('should include export metadata', () => {
       const result = FileProcessor.exportProjectJSON(sampleProject, sampleTags);
       
@@ -340,7 +625,7 @@ describe('FileProcessor', () => {
       const exportData = JSON.parse(result.data!);
       
       expect(exportData.exportedAt).toBeDefined();
-      expect(exportData.version).toBe('1.0');
+      expect(exportData.version).toBe('1.2');
       expect(typeof exportData.exportedAt).toBe('string');
     });
 
@@ -389,6 +674,35 @@ describe('FileProcessor', () => {
     });
   });
 
+  describe('exportMainList', () => {
+    const sampleProject = createProject(
+      'project-1',
+      'Test Project',
+      [createInputList('list-1', 'List 1', [createInputListItem('item-1', 'Item 1', true)])],
+      [createMainListItem('item-1', 'Item 1', 'list-1', 1)]
+    );
+
+    it('should name the file after the project and format', () => {
+      const result = FileProcessor.exportMainList(sampleProject, [], { format: 'markdown-list', columns: ['rank'], includeUnranked: false });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('1. Item 1');
+      expect(result.filename).toMatch(/^Test_Project_ranked_\d{4}-\d{2}-\d{2}\.md$/);
+      expect(result.mimeType).toBe('text/markdown');
+    });
+
+    it('should reject unknown formats', () => {
+      const result = FileProcessor.exportMainList(sampleProject, [], {
+        format: 'pdf' as never,
+        columns: [],
+        includeUnranked: false
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unsupported export format: pdf');
+    });
+  });
+
   describe('error handling', () => {
     it('should handle malformed JSON gracefully', () => {
       const result = FileProcessor.importProjectJSON('{"incomplete":');
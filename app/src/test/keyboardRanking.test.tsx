@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { Workspace } from '../components/Workspace';
+import { KeyboardHelpOverlay } from '../components/KeyboardHelpOverlay';
+import type { AppState } from '../types/index';
+
+// Mock DnD Kit
+vi.mock('@dnd-kit/core', () => ({
+  useDraggable: () => ({
+    attributes: {},
+    listeners: {},
+    setNodeRef: vi.fn(),
+    isDragging: false,
+    transform: null
+  }),
+  useDroppable: () => ({ isOver: false, setNodeRef: vi.fn() })
+}));
+
+const appState: AppState = {
+  currentProject: {
+    id: 'project-1',
+    name: 'Keyboard Project',
+    createdAt: new Date('2024-01-01'),
+    modifiedAt: new Date('2024-01-01'),
+    inputLists: [{
+      id: 'list-1',
+      name: 'Ideas',
+      items: [
+        { id: 'in-1', content: 'Apple', isUsed: false, tags: [] },
+        { id: 'in-2', content: 'Banana', isUsed: false, tags: [] }
+      ]
+    }],
+    mainList: [
+      { id: 'main-1', content: 'Cherry', sourceListId: 'list-1', tags: [], order: 1 },
+      { id: 'main-2', content: 'Damson', sourceListId: 'list-1', tags: [], order: 2 }
+    ]
+  },
+  savedProjects: [],
+  tagPool: [],
+  ui: { selectedItems: [], activeInputList: 'list-1', anchorItem: null }
+};
+
+const renderWorkspace = (overrides: Partial<React.ComponentProps<typeof Workspace>> = {}) => {
+  const props = {
+    appState,
+    onSelectInputList: vi.fn(),
+    onAddInputList: vi.fn(),
+    onImportListItems: vi.fn(),
+    onAddItemToList: vi.fn(),
+    onEditListItem: vi.fn(),
+    onDeleteListItem: vi.fn(),
+    onRenameList: vi.fn(),
+    onDeleteList: vi.fn(),
+    onMoveToMainList: vi.fn(),
+    onSelectMainItem: vi.fn(),
+    onRemoveFromMainList: vi.fn(),
+    onReorderMainItems: vi.fn(),
+    onMoveMainItem: vi.fn(),
+    onAddTag: vi.fn(),
+    onRemoveTag: vi.fn(),
+    onCreateTag: vi.fn(() => null),
+    onEditItemDetails: vi.fn(),
+    onEditTag: vi.fn(),
+    onDeleteTag: vi.fn(),
+    onApplyTagToSelected: vi.fn(),
+    onRemoveAllTags: vi.fn(),
+    onClearSelection: vi.fn(),
+    onStartComparison: vi.fn(),
+    onAnswerComparison: vi.fn(),
+    onEndComparison: vi.fn(),
+    onApplyAggregation: vi.fn(),
+    onLinkItems: vi.fn(),
+    onUnlinkItems: vi.fn(),
+    onEnableTiers: vi.fn(),
+    onDisableTiers: vi.fn(),
+    onAddTier: vi.fn(),
+    onEditTier: vi.fn(),
+    onDeleteTier: vi.fn(),
+    onMoveTier: vi.fn(),
+    onAddOutputList: vi.fn(),
+    onSwitchOutputList: vi.fn(),
+    onRenameOutputList: vi.fn(),
+    onDeleteOutputList: vi.fn(),
+    onToggleShortcutHelp: vi.fn(),
+    ...overrides
+  };
+  render(<Workspace {...props} />);
+  return props;
+};
+
+const press = (key: string) => fireEvent.keyDown(window, { key });
+
+describe('Keyboard ranking in the workspace', () => {
+  it('should carry an input item into the main list', () => {
+    const props = renderWorkspace();
+
+    press('ArrowDown');
+    press(' ');
+    expect(screen.getByRole('status')).toHaveTextContent('Moving to position 1');
+    expect(screen.getAllByTestId('keyboard-drop-marker')).toHaveLength(1);
+
+    press('ArrowDown');
+    press('Enter');
+
+    expect(props.onMoveToMainList).toHaveBeenCalledWith('list-1', 'in-1', 2, undefined);
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('should send the focused item to a typed position', () => {
+    const props = renderWorkspace();
+
+    fireEvent.click(screen.getByText('Banana'));
+    press('3');
+    expect(screen.getByRole('status')).toHaveTextContent('Send to position 3');
+    press('Enter');
+
+    expect(props.onMoveToMainList).toHaveBeenCalledWith('list-1', 'in-2', 3, undefined);
+  });
+
+  it('should reorder and remove main list items', () => {
+    const props = renderWorkspace();
+
+    fireEvent.click(screen.getByText('Damson'));
+    press('Home');
+    expect(props.onMoveMainItem).toHaveBeenCalledWith('main-2', 1, undefined);
+
+    press('Delete');
+    expect(props.onRemoveFromMainList).toHaveBeenCalledWith('main-2');
+  });
+
+  it('should open the tag input on the focused item', () => {
+    renderWorkspace();
+
+    press('ArrowRight');
+    press('t');
+
+    expect(screen.getByPlaceholderText(/tag/i)).toHaveFocus();
+  });
+
+  it('should open the details editor on the focused item', () => {
+    renderWorkspace();
+
+    press('ArrowDown');
+    press('d');
+
+    expect(screen.getByLabelText('Notes')).toHaveFocus();
+  });
+
+  it('should leave keys typed into text fields alone', () => {
+    const props = renderWorkspace();
+
+    press('ArrowDown');
+    const input = screen.getByPlaceholderText('Add new item...');
+    fireEvent.keyDown(input, { key: 'Home' });
+
+    expect(props.onMoveToMainList).not.toHaveBeenCalled();
+  });
+
+  it('should toggle the shortcut help with ?', () => {
+    const props = renderWorkspace();
+
+    press('?');
+
+    expect(props.onToggleShortcutHelp).toHaveBeenCalled();
+  });
+
+  it('should stop handling keys while the shortcut help is open', () => {
+    const props = renderWorkspace({ isShortcutHelpOpen: true });
+
+    press('ArrowDown');
+    press('Home');
+
+    expect(props.onMoveToMainList).not.toHaveBeenCalled();
+  });
+});
+
+describe('KeyboardHelpOverlay', () => {
+  it('should list the shortcuts and close with Escape', () => {
+    const onClose = vi.fn();
+    render(<KeyboardHelpOverlay isOpen={true} onClose={onClose} />);
+
+    expect(screen.getByText('Keyboard Shortcuts')).toBeInTheDocument();
+    expect(screen.getByText('Pick up the focused item')).toBeInTheDocument();
+
+    fireEvent.keyDown(document.activeElement!, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,906 @@
+import { describe, it, expect } from 'vitest';
+import { projectReducer, projectActions, getDropAction, normalizeMainListOrder } from '../store';
+import type { AppState, Project, InputList, MainListItem, Tag, InputListItem } from '../types/index';
+
+// Test data helpers
+const createInputListItem = (id: string, content: string, isUsed = false, tags: string[] = []): InputListItem => ({
+  id,
+  content,
+  isUsed,
+  tags
+});
+
+const createInputList = (id: string, name: string, items: InputListItem[] = []): InputList => ({
+  id,
+  name,
+  items
+});
+
+const createMainListItem = (id: string, content: string, sourceListId: string, order: number, tags: string[] = []): MainListItem => ({
+  id,
+  content,
+  sourceListId,
+  tags,
+  order
+});
+
+const createTag = (id: string, name: string, color = '#3b82f6', usageCount = 0): Tag => ({
+  id,
+  name,
+  color,
+  createdAt: new Date('2024-01-01'),
+  usageCount
+});
+
+const createProject = (inputLists: InputList[] = [], mainList: MainListItem[] = []): Project => ({
+  id: 'project-1',
+  name: 'Test Project',
+  createdAt: new Date('2024-01-01'),
+  modifiedAt: new Date('2024-01-01'),
+  inputLists,
+  mainList
+});
+
+const createState = (project: Project | null, tagPool: Tag[] = [], selectedItems: string[] = []): AppState => ({
+  currentProject: project,
+  savedProjects: [],
+  tagPool,
+  ui: { selectedItems, activeInputList: project?.inputLists[0]?.id ?? null, anchorItem: null }
+});
+
+const now = new Date('2024-06-01');
+
+const orderOf = (state: AppState) =>
+  [...state.currentProject!.mainList].sort((a, b) => a.order - b.order).map(item => item.id);
+
+describe('projectReducer', () => {
+  let state: AppState;
+
+  // Two lists: list-1 has a used item already in the main list
+  const setup = () => createState(
+    createProject(
+      [
+        createInputList('list-1', 'Ideas', [
+          createInputListItem('a', 'Alpha', true, ['tag-1']),
+          createInputListItem('b', 'Beta'),
+          createInputListItem('c', 'Gamma')
+        ]),
+        createInputList('list-2', 'Tasks', [
+          createInputListItem('d', 'Delta'),
+          createInputListItem('e', 'Epsilon')
+        ])
+      ],
+      [createMainListItem('a', 'Alpha', 'list-1', 1, ['tag-1'])]
+    ),
+    [createTag('tag-1', 'Urgent', '#ef4444', 2), createTag('tag-2', 'Later')]
+  );
+
+  describe('project lifecycle', () => {
+    it('should load a project and reset the UI state', () => {
+      state = { ...setup(), ui: { selectedItems: ['a'], activeInputList: 'x', anchorItem: 'a' } };
+      const project = createProject([createInputList('list-9', 'Other')]);
+
+      const next = projectReducer(state, { type: 'LOAD_PROJECT', project }, now);
+
+      expect(next.currentProject).toBe(project);
+      expect(next.ui).toEqual({ selectedItems: [], activeInputList: 'list-9', anchorItem: null });
+    });
+
+    it('should replace the tag pool when loading an imported project', () => {
+      state = setup();
+      const tagPool = [createTag('tag-3', 'Imported')];
+
+      const loaded = projectReducer(state, { type: 'LOAD_PROJECT', project: createProject([]) }, now);
+      const imported = projectReducer(state, { type: 'LOAD_PROJECT', project: createProject([]), tagPool }, now);
+
+      expect(loaded.tagPool).toBe(state.tagPool);
+      expect(imported.tagPool).toBe(tagPool);
+    });
+
+    it('should take over another tab\'s version keeping the UI state that still applies', () => {
+      state = { ...setup(), ui: { selectedItems: ['a', 'd'], activeInputList: 'list-2', anchorItem: 'd' } };
+      const project = createProject([createInputList('list-1', 'Ideas', [createInputListItem('a', 'Alpha')])]);
+      const tagPool = [createTag('tag-3', 'Synced')];
+
+      const next = projectReducer(state, { type: 'SYNC_PROJECT', project, tagPool }, now);
+
+      expect(next.currentProject).toBe(project);
+      expect(next.tagPool).toBe(tagPool);
+      expect(next.ui).toEqual({ selectedItems: ['a'], activeInputList: 'list-1', anchorItem: null });
+      expect(projectReducer(state, { type: 'SYNC_PROJECT', tagPool }, now).currentProject).toBe(state.currentProject);
+    });
+
+    it('should return the same state for no-op actions', () => {
+      state = createState(null);
+
+      expect(projectReducer(state, { type: 'RENAME_LIST', listId: 'x', name: 'y' }, now)).toBe(state);
+      expect(projectReducer(state, { type: 'MOVE_TO_MAIN', listId: 'x', itemId: 'y' }, now)).toBe(state);
+    });
+
+    it('should stamp modifiedAt on project changes', () => {
+      const next = projectReducer(setup(), { type: 'RENAME_PROJECT', name: 'Renamed' }, now);
+
+      expect(next.currentProject!.name).toBe('Renamed');
+      expect(next.currentProject!.modifiedAt).toBe(now);
+    });
+  });
+
+  describe('input lists', () => {
+    it('should add a list and make it active', () => {
+      const action = projectActions.addInputList('List 3');
+
+      const next = projectReducer(setup(), action, now);
+
+      expect(next.currentProject!.inputLists.map(list => list.name)).toEqual(['Ideas', 'Tasks', 'List 3']);
+      expect(next.ui.activeInputList).toBe(next.currentProject!.inputLists[2].id);
+    });
+
+    it('should import items with unique IDs', () => {
+      const next = projectReducer(setup(), projectActions.importListItems('list-2', [' One ', 'Two']), now);
+      const items = next.currentProject!.inputLists[1].items;
+
+      expect(items.map(item => item.content)).toEqual(['Delta', 'Epsilon', 'One', 'Two']);
+      expect(new Set(items.map(item => item.id)).size).toBe(4);
+    });
+
+    it('should import structured items with tags, notes and ranks', () => {
+      state = setup();
+      const action = projectActions.importListItems(
+        'list-2',
+        [
+          { content: 'One', tags: ['urgent', 'New'], notes: 'First note', rank: 2 },
+          { content: 'Two', tags: ['new'] },
+          { content: 'Three', rank: 1 }
+        ],
+        state.tagPool,
+        state.currentProject!.inputLists
+      );
+
+      const next = projectReducer(state, action, now);
+      const items = next.currentProject!.inputLists[1].items.slice(2);
+      const newTag = next.tagPool.find(tag => tag.name === 'New')!;
+
+      // Existing tags are matched by name; unknown names are created once
+      expect(next.tagPool).toHaveLength(3);
+      expect(items[0].tags).toEqual(['tag-1', newTag.id]);
+      expect(items[1].tags).toEqual([newTag.id]);
+      expect(newTag.usageCount).toBe(2);
+      expect(next.tagPool[0].usageCount).toBe(3);
+      expect(items[0].notes).toBe('First note');
+
+      // Ranked items are appended to the main list in rank order and marked used
+      expect(orderOf(next)).toEqual(['a', items[2].id, items[0].id]);
+      expect(next.currentProject!.mainList.find(item => item.id === items[0].id)!.notes).toBe('First note');
+      expect(items.map(item => item.isUsed)).toEqual([true, false, true]);
+    });
+
+    it('should skip imported tag names that clash with list names', () => {
+      state = setup();
+      const action = projectActions.importListItems(
+        'list-2',
+        [{ content: 'One', tags: ['Tasks'] }],
+        state.tagPool,
+        state.currentProject!.inputLists
+      );
+
+      const next = projectReducer(state, action, now);
+
+      expect(next.tagPool).toHaveLength(2);
+      expect(next.currentProject!.inputLists[1].items[2].tags).toEqual([]);
+    });
+
+    it('should edit an item in its list and in the main list', () => {
+      const next = projectReducer(setup(), { type: 'EDIT_ITEM', listId: 'list-1', itemId: 'a', content: 'Alpha 2' }, now);
+
+      expect(next.currentProject!.inputLists[0].items[0].content).toBe('Alpha 2');
+      expect(next.currentProject!.mainList[0].content).toBe('Alpha 2');
+    });
+
+    it('should delete an item from its list and the main list', () => {
+      const next = projectReducer(setup(), { type: 'DELETE_ITEM', listId: 'list-1', itemId: 'a' }, now);
+
+      expect(next.currentProject!.inputLists[0].items.map(item => item.id)).toEqual(['b', 'c']);
+      expect(next.currentProject!.mainList).toEqual([]);
+    });
+
+    it('should clear the active list when it is deleted', () => {
+      const next = projectReducer(setup(), { type: 'DELETE_LIST', listId: 'list-1' }, now);
+
+      expect(next.currentProject!.inputLists.map(list => list.id)).toEqual(['list-2']);
+      expect(next.ui.activeInputList).toBeNull();
+    });
+  });
+
+  describe('main list', () => {
+    it('should append an item and mark it used', () => {
+      const next = projectReducer(setup(), { type: 'MOVE_TO_MAIN', listId: 'list-2', itemId: 'd' }, now);
+
+      expect(orderOf(next)).toEqual(['a', 'd']);
+      expect(next.currentProject!.inputLists[1].items[0].isUsed).toBe(true);
+    });
+
+    it('should insert an item at a position', () => {
+      let next = projectReducer(setup(), { type: 'MOVE_TO_MAIN', listId: 'list-2', itemId: 'd' }, now);
+      next = projectReducer(next, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b', position: 2 }, now);
+
+      expect(orderOf(next)).toEqual(['a', 'b', 'd']);
+    });
+
+    it('should not move used items', () => {
+      state = setup();
+
+      expect(projectReducer(state, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'a' }, now)).toBe(state);
+    });
+
+    it('should copy tags when moving to main', () => {
+      state = setup();
+      state = projectReducer(state, { type: 'ADD_TAG', itemIds: ['b'], tagId: 'tag-2' }, now);
+
+      const next = projectReducer(state, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' }, now);
+
+      expect(next.currentProject!.mainList[1].tags).toEqual(['tag-2']);
+    });
+
+    it('should remove an item, free its source and renumber the rest', () => {
+      state = setup();
+      state = projectReducer(state, { type: 'MOVE_TO_MAIN', listId: 'list-2', itemId: 'd' }, now);
+
+      const next = projectReducer(state, { type: 'REMOVE_FROM_MAIN', itemId: 'a' }, now);
+
+      expect(next.currentProject!.mainList).toEqual([createMainListItem('d', 'Delta', 'list-2', 1)]);
+      expect(next.currentProject!.inputLists[0].items[0].isUsed).toBe(false);
+    });
+
+    describe('reordering', () => {
+      const withFour = () => {
+        let s = setup();
+        s = projectReducer(s, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' }, now);
+        s = projectReducer(s, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'c' }, now);
+        s = projectReducer(s, { type: 'MOVE_TO_MAIN', listId: 'list-2', itemId: 'd' }, now);
+        return s;
+      };
+
+      it('should swap adjacent orders', () => {
+        const next = projectReducer(withFour(), { type: 'REORDER_MAIN', fromOrder: 1, toOrder: 2 }, now);
+
+        expect(orderOf(next)).toEqual(['b', 'a', 'c', 'd']);
+      });
+
+      it('should move a single item to a position', () => {
+        const next = projectReducer(withFour(), { type: 'MOVE_MAIN_ITEM', itemId: 'd', position: 1 }, now);
+
+        expect(orderOf(next)).toEqual(['d', 'a', 'b', 'c']);
+      });
+
+      it('should move several items together keeping their relative order', () => {
+        const next = projectReducer(withFour(), { type: 'MOVE_MAIN_ITEMS', itemIds: ['d', 'a'], position: 2 }, now);
+
+        expect(orderOf(next)).toEqual(['b', 'a', 'd', 'c']);
+        expect(next.currentProject!.mainList.map(item => item.order)).toEqual([1, 2, 3, 4]);
+      });
+
+      it('should move several items to the end', () => {
+        const next = projectReducer(withFour(), { type: 'MOVE_MAIN_ITEMS', itemIds: ['a', 'b'], position: 5 }, now);
+
+        expect(orderOf(next)).toEqual(['c', 'd', 'a', 'b']);
+      });
+    });
+  });
+
+  describe('tags', () => {
+    it('should create a valid tag and ignore duplicates', () => {
+      const action = projectActions.createTag('  Design ', '#8b5cf6');
+      const next = projectReducer(setup(), action, now);
+
+      expect(next.tagPool.map(tag => tag.name)).toEqual(['Urgent', 'Later', 'Design']);
+      expect(projectReducer(next, projectActions.createTag('design', '#000000'), now)).toBe(next);
+    });
+
+    it('should reject tag names that match list names', () => {
+      state = setup();
+
+      expect(projectReducer(state, projectActions.createTag('Ideas', '#000000'), now)).toBe(state);
+    });
+
+    it('should edit a tag', () => {
+      const next = projectReducer(setup(), { type: 'EDIT_TAG', tagId: 'tag-2', name: 'Someday', color: '#10b981' }, now);
+
+      expect(next.tagPool[1]).toMatchObject({ name: 'Someday', color: '#10b981' });
+    });
+
+    it('should delete a tag from the pool and every item', () => {
+      const next = projectReducer(setup(), { type: 'DELETE_TAG', tagId: 'tag-1' }, now);
+
+      expect(next.tagPool.map(tag => tag.id)).toEqual(['tag-2']);
+      expect(next.currentProject!.inputLists[0].items[0].tags).toEqual([]);
+      expect(next.currentProject!.mainList[0].tags).toEqual([]);
+    });
+
+    it('should add tags to items in both lists and count new usages only', () => {
+      const next = projectReducer(setup(), { type: 'ADD_TAG', itemIds: ['a', 'd'], tagId: 'tag-1' }, now);
+
+      expect(next.currentProject!.mainList[0].tags).toEqual(['tag-1']);
+      expect(next.currentProject!.inputLists[1].items[0].tags).toEqual(['tag-1']);
+      expect(next.tagPool[0].usageCount).toBe(3);
+    });
+
+    it('should remove tags and never drop usage below zero', () => {
+      const next = projectReducer(setup(), { type: 'REMOVE_TAG', itemIds: ['a', 'b'], tagId: 'tag-2' }, now);
+
+      expect(next.tagPool[1].usageCount).toBe(0);
+    });
+
+    it('should remove all tags from selected items and update usage counts', () => {
+      const next = projectReducer(setup(), { type: 'REMOVE_ALL_TAGS', itemIds: ['a'] }, now);
+
+      expect(next.currentProject!.mainList[0].tags).toEqual([]);
+      expect(next.currentProject!.inputLists[0].items[0].tags).toEqual([]);
+      expect(next.tagPool[0].usageCount).toBe(1);
+    });
+  });
+
+  describe('selection', () => {
+    it('should select a single item and set the anchor', () => {
+      const next = projectReducer(setup(), { type: 'SELECT_ITEM', itemId: 'b', isMultiSelect: false }, now);
+
+      expect(next.ui.selectedItems).toEqual(['b']);
+      expect(next.ui.anchorItem).toBe('b');
+    });
+
+    it('should toggle items in multi-select mode', () => {
+      let next = projectReducer(setup(), { type: 'SELECT_ITEM', itemId: 'b', isMultiSelect: true }, now);
+      next = projectReducer(next, { type: 'SELECT_ITEM', itemId: 'c', isMultiSelect: true }, now);
+      next = projectReducer(next, { type: 'SELECT_ITEM', itemId: 'b', isMultiSelect: true }, now);
+
+      expect(next.ui.selectedItems).toEqual(['c']);
+      expect(next.ui.anchorItem).toBeNull();
+    });
+
+    it('should select a range within the same list', () => {
+      let next = projectReducer(setup(), { type: 'SELECT_ITEM', itemId: 'a', isMultiSelect: false }, now);
+      next = projectReducer(next, { type: 'SELECT_ITEM', itemId: 'c', isMultiSelect: false, isShiftSelect: true }, now);
+
+      // 'a' is found in the main list first, so the range falls back to a single selection
+      expect(next.ui.selectedItems).toEqual(['c']);
+
+      next = projectReducer(next, { type: 'SELECT_ITEM', itemId: 'e', isMultiSelect: false }, now);
+      next = projectReducer(next, { type: 'SELECT_ITEM', itemId: 'd', isMultiSelect: false, isShiftSelect: true }, now);
+      expect(next.ui.selectedItems.sort()).toEqual(['d', 'e']);
+    });
+
+    it('should leave items hidden by the filter out of a range', () => {
+      state = createState(createProject([
+        createInputList('list-1', 'Ideas', [
+          createInputListItem('a', 'Alpha'),
+          createInputListItem('b', 'Beta'),
+          createInputListItem('c', 'Gamma'),
+          createInputListItem('d', 'Delta')
+        ])
+      ]));
+
+      let next = projectReducer(state, { type: 'SELECT_ITEM', itemId: 'a', isMultiSelect: false }, now);
+      next = projectReducer(
+        next,
+        { type: 'SELECT_ITEM', itemId: 'd', isMultiSelect: false, isShiftSelect: true, hiddenItemIds: ['b', 'c'] },
+        now
+      );
+      expect(next.ui.selectedItems.sort()).toEqual(['a', 'd']);
+    });
+
+    it('should clear the selection', () => {
+      state = createState(setup().currentProject, [], ['a', 'b']);
+
+      expect(projectReducer(state, { type: 'CLEAR_SELECTION' }, now).ui.selectedItems).toEqual([]);
+    });
+  });
+
+  describe('pairwise comparison', () => {
+    // Answers by alphabetical content, so every session should end sorted A..Z
+    const answerAlphabetically = (start: AppState) => {
+      let next = start;
+      for (let guard = 0; next.currentProject!.comparisonSession && guard < 50; guard++) {
+        const session = next.currentProject!.comparisonSession!;
+        const mid = (session.low + session.high) >> 1;
+        const content = (id: string) => next.currentProject!.inputLists.flatMap(list => list.items).find(item => item.id === id)!.content;
+        next = projectReducer(next, {
+          type: 'ANSWER_COMPARISON',
+          candidateIsBetter: content(session.pendingIds[0]) < content(session.sortedIds[mid])
+        }, now);
+      }
+      return next;
+    };
+
+    it('should insert unranked items into the main list one answer at a time', () => {
+      let next = projectReducer(setup(), { type: 'START_COMPARISON', scope: { rerankMainList: false, inputListIds: ['list-1'] } }, now);
+      expect(next.currentProject!.comparisonSession).toMatchObject({ sortedIds: ['a'], pendingIds: ['b', 'c'] });
+
+      // Beta vs Alpha: Beta is worse, so it is placed below Alpha right away
+      next = projectReducer(next, { type: 'ANSWER_COMPARISON', candidateIsBetter: false }, now);
+      expect(orderOf(next)).toEqual(['a', 'b']);
+      expect(next.currentProject!.inputLists[0].items[1].isUsed).toBe(true);
+      expect(next.currentProject!.mainList.find(item => item.id === 'b')!.sourceListId).toBe('list-1');
+      expect(next.currentProject!.comparisonSession!.comparisons).toBe(1);
+    });
+
+    it('should end the session once every item is placed', () => {
+      const next = answerAlphabetically(projectReducer(
+        setup(),
+        { type: 'START_COMPARISON', scope: { rerankMainList: true, inputListIds: ['list-1', 'list-2'] } },
+        now
+      ));
+
+      expect(orderOf(next)).toEqual(['a', 'b', 'd', 'e', 'c']);
+      expect(next.currentProject!.comparisonSession).toBeUndefined();
+      expect(next.currentProject!.inputLists.flatMap(list => list.items).every(item => item.isUsed)).toBe(true);
+    });
+
+    it('should not start a session without anything to compare', () => {
+      state = setup();
+
+      expect(projectReducer(state, { type: 'START_COMPARISON', scope: { rerankMainList: true, inputListIds: [] } }, now)).toBe(state);
+    });
+
+    it('should drop deleted items before applying an answer', () => {
+      let next = projectReducer(setup(), { type: 'START_COMPARISON', scope: { rerankMainList: false, inputListIds: ['list-1'] } }, now);
+      next = projectReducer(next, { type: 'DELETE_ITEM', listId: 'list-1', itemId: 'b' }, now);
+      next = projectReducer(next, { type: 'ANSWER_COMPARISON', candidateIsBetter: true }, now);
+
+      // The answer applies to Gamma, the next item still pending
+      expect(orderOf(next)).toEqual(['c', 'a']);
+      expect(next.currentProject!.comparisonSession).toBeUndefined();
+    });
+
+    it('should end a session and keep the ranking so far', () => {
+      let next = projectReducer(setup(), { type: 'START_COMPARISON', scope: { rerankMainList: false, inputListIds: ['list-2'] } }, now);
+      next = projectReducer(next, { type: 'ANSWER_COMPARISON', candidateIsBetter: true }, now);
+      next = projectReducer(next, { type: 'END_COMPARISON' }, now);
+
+      expect(orderOf(next)).toEqual(['d', 'a']);
+      expect(next.currentProject!.comparisonSession).toBeUndefined();
+    });
+  });
+
+  describe('rank aggregation', () => {
+    it('should replace the main list with the aggregated ranking', () => {
+      const next = projectReducer(setup(), {
+        type: 'APPLY_AGGREGATION',
+        ranking: [{ itemId: 'd', listId: 'list-2' }, { itemId: 'b', listId: 'list-1' }]
+      }, now);
+
+      expect(orderOf(next)).toEqual(['d', 'b']);
+      expect(next.currentProject!.mainList.find(item => item.id === 'd')!.sourceListId).toBe('list-2');
+      const isUsed = Object.fromEntries(next.currentProject!.inputLists.flatMap(list => list.items).map(item => [item.id, item.isUsed]));
+      // Alpha dropped out of the main list, so it is available again
+      expect(isUsed).toEqual({ a: false, b: true, c: false, d: true, e: false });
+    });
+
+    it('should keep main list edits for items that stay ranked', () => {
+      state = setup();
+      state.currentProject!.mainList[0] = { ...state.currentProject!.mainList[0], notes: 'Keep me' };
+
+      const next = projectReducer(state, {
+        type: 'APPLY_AGGREGATION',
+        ranking: [{ itemId: 'e', listId: 'list-2' }, { itemId: 'a', listId: 'list-1' }]
+      }, now);
+
+      expect(orderOf(next)).toEqual(['e', 'a']);
+      expect(next.currentProject!.mainList.find(item => item.id === 'a')!.notes).toBe('Keep me');
+    });
+
+    it('should ignore an empty ranking', () => {
+      state = setup();
+
+      expect(projectReducer(state, { type: 'APPLY_AGGREGATION', ranking: [] }, now)).toBe(state);
+    });
+  });
+
+  describe('duplicate links', () => {
+    const isUsedOf = (next: AppState) =>
+      Object.fromEntries(next.currentProject!.inputLists.flatMap(list => list.items).map(item => [item.id, item.isUsed]));
+
+    it('should use up linked items and merge their tags when one is ranked', () => {
+      state = setup();
+      state.currentProject!.inputLists[1].items[0].tags = ['tag-2'];
+
+      let next = projectReducer(state, { type: 'LINK_ITEMS', itemIds: ['b', 'd'] }, now);
+      expect(next.currentProject!.itemLinks).toEqual([['b', 'd']]);
+      next = projectReducer(next, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' }, now);
+
+      expect(isUsedOf(next)).toMatchObject({ b: true, d: true });
+      expect(next.currentProject!.mainList.find(item => item.id === 'b')!.tags).toEqual(['tag-2']);
+      expect(next.tagPool.find(tag => tag.id === 'tag-2')!.usageCount).toBe(1);
+    });
+
+    it('should release linked items when the ranked one is removed or deleted', () => {
+      let next = projectReducer(setup(), { type: 'LINK_ITEMS', itemIds: ['a', 'd', 'e'] }, now);
+      expect(isUsedOf(next)).toMatchObject({ a: true, d: true, e: true });
+      // The already ranked item collects the tags of the items linked to it
+      expect(next.currentProject!.mainList[0].tags).toEqual(['tag-1']);
+
+      next = projectReducer(next, { type: 'REMOVE_FROM_MAIN', itemId: 'a' }, now);
+      expect(isUsedOf(next)).toMatchObject({ a: false, d: false, e: false });
+
+      next = projectReducer(next, { type: 'MOVE_TO_MAIN', listId: 'list-2', itemId: 'e' }, now);
+      next = projectReducer(next, { type: 'DELETE_ITEM', listId: 'list-2', itemId: 'e' }, now);
+      expect(isUsedOf(next)).toMatchObject({ a: false, d: false });
+      expect(next.currentProject!.itemLinks).toEqual([['a', 'd']]);
+    });
+
+    it('should free unlinked items that are not ranked themselves', () => {
+      let next = projectReducer(setup(), { type: 'LINK_ITEMS', itemIds: ['a', 'd'] }, now);
+      next = projectReducer(next, { type: 'UNLINK_ITEMS', itemIds: ['d'] }, now);
+
+      expect(isUsedOf(next)).toMatchObject({ a: true, d: false });
+      expect(next.currentProject!.itemLinks).toBeUndefined();
+    });
+
+    it('should drop links when a list is deleted', () => {
+      let next = projectReducer(setup(), { type: 'LINK_ITEMS', itemIds: ['b', 'd'] }, now);
+      next = projectReducer(next, { type: 'DELETE_LIST', listId: 'list-2' }, now);
+
+      expect(next.currentProject!.itemLinks).toBeUndefined();
+    });
+  });
+
+  describe('output lists', () => {
+    const ids = (items: Array<{ id: string }>) => items.map(item => item.id);
+    const isUsedOf = (next: AppState) =>
+      Object.fromEntries(next.currentProject!.inputLists.flatMap(list => list.items).map(item => [item.id, item.isUsed]));
+
+    // Main list "Now" holds a and b; the second list "Later" is active and empty
+    const withTwoLists = () => {
+      let s = setup();
+      s = projectReducer(s, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' }, now);
+      s = projectReducer(s, { type: 'SELECT_ITEM', itemId: 'a', isMultiSelect: false }, now);
+      return projectReducer(s, {
+        type: 'ADD_OUTPUT_LIST',
+        list: { id: 'later', name: 'Later', items: [] },
+        mainListId: 'now'
+      }, now);
+    };
+
+    it('should turn the main list into the first of several and switch to the new one', () => {
+      const next = withTwoLists();
+      const project = next.currentProject!;
+
+      expect(project.activeOutputListId).toBe('later');
+      expect(project.mainList).toEqual([]);
+      expect(project.outputLists!.map(list => [list.id, list.name, ids(list.items)])).toEqual([
+        ['now', 'Main List', ['a', 'b']],
+        ['later', 'Later', []]
+      ]);
+      expect(next.ui.selectedItems).toEqual([]);
+    });
+
+    it('should switch between output lists', () => {
+      const next = projectReducer(withTwoLists(), { type: 'SWITCH_OUTPUT_LIST', listId: 'now' }, now);
+
+      expect(ids(next.currentProject!.mainList)).toEqual(['a', 'b']);
+      expect(next.currentProject!.outputLists![1].items).toEqual([]);
+    });
+
+    it('should move input items into another list and mark them used', () => {
+      let next = projectReducer(withTwoLists(), { type: 'SWITCH_OUTPUT_LIST', listId: 'now' }, now);
+      next = projectReducer(next, { type: 'MOVE_TO_OUTPUT_LIST', listId: 'later', itemIds: ['d', 'a'] }, now);
+
+      expect(ids(next.currentProject!.mainList)).toEqual(['b']);
+      expect(next.currentProject!.mainList[0].order).toBe(1);
+      expect(next.currentProject!.outputLists![1].items.map(item => [item.id, item.order])).toEqual([['a', 1], ['d', 2]]);
+      expect(isUsedOf(next)).toMatchObject({ a: true, b: true, d: true, e: false });
+
+      // Items ranked in one list cannot be taken by another
+      expect(projectReducer(next, { type: 'MOVE_TO_OUTPUT_LIST', listId: 'now', itemIds: ['d'] }, now)).toBe(next);
+    });
+
+    it('should append to the active list when it is the target', () => {
+      const next = projectReducer(withTwoLists(), { type: 'MOVE_TO_OUTPUT_LIST', listId: 'later', itemIds: ['c'] }, now);
+
+      expect(ids(next.currentProject!.mainList)).toEqual(['c']);
+    });
+
+    it('should keep tags and content in sync with items in inactive lists', () => {
+      let next = projectReducer(withTwoLists(), { type: 'ADD_TAG', itemIds: ['b'], tagId: 'tag-2' }, now);
+      next = projectReducer(next, { type: 'EDIT_ITEM', listId: 'list-1', itemId: 'b', content: 'Bravo' }, now);
+      next = projectReducer(next, { type: 'DELETE_TAG', tagId: 'tag-1' }, now);
+
+      expect(next.currentProject!.outputLists![0].items).toEqual([
+        createMainListItem('a', 'Alpha', 'list-1', 1),
+        createMainListItem('b', 'Bravo', 'list-1', 2, ['tag-2'])
+      ]);
+
+      next = projectReducer(next, { type: 'DELETE_ITEM', listId: 'list-1', itemId: 'a' }, now);
+      expect(next.currentProject!.outputLists![0].items.map(item => [item.id, item.order])).toEqual([['b', 1]]);
+    });
+
+    it('should free the items of a deleted list and keep at least one list', () => {
+      let next = projectReducer(withTwoLists(), { type: 'SWITCH_OUTPUT_LIST', listId: 'now' }, now);
+      next = projectReducer(next, { type: 'DELETE_OUTPUT_LIST', listId: 'now' }, now);
+
+      expect(next.currentProject!.activeOutputListId).toBe('later');
+      expect(next.currentProject!.outputLists!.map(list => list.id)).toEqual(['later']);
+      expect(isUsedOf(next)).toMatchObject({ a: false, b: false });
+
+      expect(projectReducer(next, { type: 'DELETE_OUTPUT_LIST', listId: 'later' }, now)).toBe(next);
+    });
+
+    it('should rename output lists', () => {
+      const next = projectReducer(withTwoLists(), { type: 'RENAME_OUTPUT_LIST', listId: 'now', name: ' Q1 ' }, now);
+
+      expect(next.currentProject!.outputLists![0].name).toBe('Q1');
+    });
+
+    it('should leave items of other lists out of an automatic merge', () => {
+      const next = projectReducer(withTwoLists(), {
+        type: 'APPLY_AGGREGATION',
+        ranking: [{ itemId: 'a', listId: 'list-1' }, { itemId: 'c', listId: 'list-1' }]
+      }, now);
+
+      expect(ids(next.currentProject!.mainList)).toEqual(['c']);
+      expect(ids(next.currentProject!.outputLists![0].items)).toEqual(['a', 'b']);
+      expect(isUsedOf(next)).toMatchObject({ a: true, c: true });
+    });
+  });
+
+  describe('tiers', () => {
+    const tiers = [
+      { id: 'tier-s', name: 'S', color: '#ef4444' },
+      { id: 'tier-a', name: 'A', color: '#f97316' }
+    ];
+    const tierOf = (next: AppState) =>
+      Object.fromEntries(next.currentProject!.mainList.map(item => [item.id, item.tierId ?? null]));
+
+    const withTiers = () => {
+      let s = setup();
+      s = projectReducer(s, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' }, now);
+      s = projectReducer(s, { type: 'MOVE_TO_MAIN', listId: 'list-2', itemId: 'd' }, now);
+      return projectReducer(s, { type: 'ENABLE_TIERS', tiers }, now);
+    };
+
+    it('should start every ranked item unsorted', () => {
+      const next = projectReducer(setup(), projectActions.enableTiers(), now);
+
+      expect(next.currentProject!.tiers!.map(tier => tier.name)).toEqual(['S', 'A', 'B', 'C']);
+      expect(tierOf(next)).toEqual({ a: null });
+    });
+
+    it('should move dropped items into a tier and keep the list grouped by tier', () => {
+      let next = projectReducer(withTiers(), { type: 'MOVE_MAIN_ITEM', itemId: 'd', position: 1, tierId: 'tier-a' }, now);
+      next = projectReducer(next, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'c', position: 1, tierId: 'tier-s' }, now);
+
+      expect(orderOf(next)).toEqual(['c', 'd', 'a', 'b']);
+      expect(tierOf(next)).toEqual({ a: null, b: null, c: 'tier-s', d: 'tier-a' });
+    });
+
+    it('should change the tier of an item dropped at its own position', () => {
+      const next = projectReducer(withTiers(), { type: 'MOVE_MAIN_ITEM', itemId: 'a', position: 1, tierId: 'tier-s' }, now);
+
+      expect(tierOf(next)).toMatchObject({ a: 'tier-s' });
+    });
+
+    it('should move several items into a tier', () => {
+      const next = projectReducer(withTiers(), { type: 'MOVE_MAIN_ITEMS', itemIds: ['b', 'd'], position: 1, tierId: 'tier-a' }, now);
+
+      expect(orderOf(next)).toEqual(['b', 'd', 'a']);
+      expect(tierOf(next)).toEqual({ a: null, b: 'tier-a', d: 'tier-a' });
+    });
+
+    it('should reorder tiers and regroup their items', () => {
+      let next = projectReducer(withTiers(), { type: 'MOVE_MAIN_ITEM', itemId: 'a', position: 1, tierId: 'tier-s' }, now);
+      next = projectReducer(next, { type: 'MOVE_MAIN_ITEM', itemId: 'd', position: 2, tierId: 'tier-a' }, now);
+      next = projectReducer(next, { type: 'MOVE_TIER', tierId: 'tier-a', index: 0 }, now);
+
+      expect(next.currentProject!.tiers!.map(tier => tier.id)).toEqual(['tier-a', 'tier-s']);
+      expect(orderOf(next)).toEqual(['d', 'a', 'b']);
+    });
+
+    it('should rename, add and delete tiers', () => {
+      let next = projectReducer(withTiers(), { type: 'MOVE_MAIN_ITEM', itemId: 'd', position: 1, tierId: 'tier-s' }, now);
+      next = projectReducer(next, { type: 'EDIT_TIER', tierId: 'tier-s', name: ' Top ', color: '#000000' }, now);
+      expect(next.currentProject!.tiers![0]).toEqual({ id: 'tier-s', name: 'Top', color: '#000000' });
+      expect(projectReducer(next, { type: 'EDIT_TIER', tierId: 'tier-s', name: ' ', color: '#000000' }, now)).toBe(next);
+
+      next = projectReducer(next, projectActions.addTier('D', '#3b82f6'), now);
+      expect(next.currentProject!.tiers!.map(tier => tier.name)).toEqual(['Top', 'A', 'D']);
+
+      next = projectReducer(next, { type: 'DELETE_TIER', tierId: 'tier-s' }, now);
+      expect(tierOf(next)).toEqual({ a: null, b: null, d: null });
+      expect(orderOf(next)).toEqual(['d', 'a', 'b']);
+    });
+
+    it('should keep the flattened ranking when tiers are switched off', () => {
+      let next = projectReducer(withTiers(), { type: 'MOVE_MAIN_ITEM', itemId: 'd', position: 1, tierId: 'tier-a' }, now);
+      next = projectReducer(next, { type: 'DISABLE_TIERS' }, now);
+
+      expect(next.currentProject!.tiers).toBeUndefined();
+      expect(orderOf(next)).toEqual(['d', 'a', 'b']);
+      expect(tierOf(next)).toEqual({ a: null, b: null, d: null });
+    });
+  });
+
+  describe('item details and custom fields', () => {
+    const fields = [
+      { id: 'f-cost', name: 'Cost', type: 'number' as const },
+      { id: 'f-size', name: 'Size', type: 'select' as const, options: ['Small', 'Large'] }
+    ];
+    const inputItem = (next: AppState, itemId: string) =>
+      next.currentProject!.inputLists.flatMap(list => list.items).find(item => item.id === itemId)!;
+    const mainItem = (next: AppState, itemId: string) =>
+      next.currentProject!.mainList.find(item => item.id === itemId)!;
+
+    const withFields = () => {
+      let s = setup();
+      s = projectReducer(s, { type: 'ADD_CUSTOM_FIELD', field: fields[0] }, now);
+      return projectReducer(s, { type: 'ADD_CUSTOM_FIELD', field: fields[1] }, now);
+    };
+
+    it('should edit the details of a ranked item and its input item together', () => {
+      const details = { notes: ' Check first ', url: 'https://example.com', fields: { 'f-cost': 3 } };
+      const next = projectReducer(withFields(), { type: 'EDIT_ITEM_DETAILS', itemId: 'a', details }, now);
+
+      expect(mainItem(next, 'a')).toMatchObject({ notes: 'Check first', url: 'https://example.com', fields: { 'f-cost': 3 } });
+      expect(inputItem(next, 'a')).toMatchObject({ notes: 'Check first', url: 'https://example.com', fields: { 'f-cost': 3 } });
+
+      const cleared = projectReducer(next, { type: 'EDIT_ITEM_DETAILS', itemId: 'a', details: {} }, now);
+      expect(mainItem(cleared, 'a')).toEqual(createMainListItem('a', 'Alpha', 'list-1', 1, ['tag-1']));
+    });
+
+    it('should carry details onto the main list', () => {
+      let next = projectReducer(withFields(), {
+        type: 'EDIT_ITEM_DETAILS', itemId: 'b', details: { notes: 'Note', fields: { 'f-size': 'Large' } }
+      }, now);
+      next = projectReducer(next, { type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' }, now);
+
+      expect(mainItem(next, 'b')).toMatchObject({ notes: 'Note', fields: { 'f-size': 'Large' } });
+    });
+
+    it('should ignore values of unknown fields', () => {
+      const next = projectReducer(withFields(), {
+        type: 'EDIT_ITEM_DETAILS', itemId: 'b', details: { fields: { 'f-gone': 1 } }
+      }, now);
+
+      expect(inputItem(next, 'b').fields).toBeUndefined();
+    });
+
+    it('should reject duplicate field names and selects without options', () => {
+      const state = withFields();
+
+      expect(projectReducer(state, projectActions.addCustomField('cost', 'text'), now)).toBe(state);
+      expect(projectReducer(state, projectActions.addCustomField('Kind', 'select'), now)).toBe(state);
+      expect(projectReducer(state, projectActions.addCustomField('Kind', 'select', ['A']), now).currentProject!.customFields)
+        .toHaveLength(3);
+    });
+
+    it('should clear values of removed options and deleted fields', () => {
+      let next = projectReducer(withFields(), {
+        type: 'EDIT_ITEM_DETAILS', itemId: 'a', details: { fields: { 'f-cost': 3, 'f-size': 'Large' } }
+      }, now);
+
+      next = projectReducer(next, { type: 'EDIT_CUSTOM_FIELD', fieldId: 'f-size', name: 'Size', options: ['Small'] }, now);
+      expect(mainItem(next, 'a').fields).toEqual({ 'f-cost': 3 });
+
+      next = projectReducer(next, { type: 'DELETE_CUSTOM_FIELD', fieldId: 'f-cost' }, now);
+      expect(mainItem(next, 'a').fields).toBeUndefined();
+      expect(inputItem(next, 'a').fields).toBeUndefined();
+      expect(next.currentProject!.customFields!.map(field => field.name)).toEqual(['Size']);
+    });
+  });
+
+  describe('saved views and selection', () => {
+    it('should add, replace and delete saved views', () => {
+      let next = projectReducer(setup(), projectActions.saveView(' Top ', 'rank<=3', 'view-1'), now);
+      expect(next.currentProject!.savedViews).toEqual([{ id: 'view-1', name: 'Top', query: 'rank<=3' }]);
+
+      next = projectReducer(next, projectActions.saveView('Top three', 'rank<=3 AND tag:urgent', 'view-1'), now);
+      expect(next.currentProject!.savedViews).toEqual([{ id: 'view-1', name: 'Top three', query: 'rank<=3 AND tag:urgent' }]);
+
+      next = projectReducer(next, { type: 'DELETE_VIEW', viewId: 'view-1' }, now);
+      expect(next.currentProject!.savedViews).toBeUndefined();
+    });
+
+    it('should reject views with a taken name or an invalid query', () => {
+      const state = projectReducer(setup(), projectActions.saveView('Top', 'rank<=3'), now);
+
+      expect(projectReducer(state, projectActions.saveView('top', 'tag:urgent'), now)).toBe(state);
+      expect(projectReducer(state, projectActions.saveView('Open', '(tag:urgent'), now)).toBe(state);
+      expect(projectReducer(state, projectActions.saveView('Empty', ' '), now)).toBe(state);
+    });
+
+    it('should replace the selection', () => {
+      let next = projectReducer(setup(), { type: 'SELECT_ITEM', itemId: 'a', isMultiSelect: false }, now);
+      next = projectReducer(next, { type: 'SELECT_ITEMS', itemIds: ['b', 'c', 'b'] }, now);
+
+      expect(next.ui.selectedItems).toEqual(['b', 'c']);
+    });
+  });
+});
+
+describe('normalizeMainListOrder', () => {
+  it('should sort by order and close gaps', () => {
+    const result = normalizeMainListOrder([
+      createMainListItem('x', 'X', 'l', 5),
+      createMainListItem('y', 'Y', 'l', 2)
+    ]);
+
+    expect(result.map(item => [item.id, item.order])).toEqual([['y', 1], ['x', 2]]);
+  });
+});
+
+describe('getDropAction', () => {
+  it('should move input items to the end of the main list', () => {
+    expect(getDropAction(
+      { type: 'input-item', itemId: 'b', sourceListId: 'list-1' },
+      { type: 'main-list' },
+      []
+    )).toEqual({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' });
+  });
+
+  it('should move input items to a position', () => {
+    expect(getDropAction(
+      { type: 'input-item', itemId: 'b', sourceListId: 'list-1' },
+      { type: 'main-list-position', position: 3 },
+      []
+    )).toEqual({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b', position: 3 });
+  });
+
+  it('should reorder a single main item when it is not part of a multi-selection', () => {
+    expect(getDropAction(
+      { type: 'main-item', itemId: 'a' },
+      { type: 'main-list-position', position: 1 },
+      ['a']
+    )).toEqual({ type: 'MOVE_MAIN_ITEM', itemId: 'a', position: 1 });
+  });
+
+  it('should pass the tier of a tier list drop zone along', () => {
+    expect(getDropAction(
+      { type: 'input-item', itemId: 'b', sourceListId: 'list-1' },
+      { type: 'main-list-position', position: 3, tierId: 'tier-s' },
+      []
+    )).toEqual({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b', position: 3, tierId: 'tier-s' });
+
+    expect(getDropAction(
+      { type: 'main-item', itemId: 'a' },
+      { type: 'main-list-position', position: 1, tierId: null },
+      []
+    )).toEqual({ type: 'MOVE_MAIN_ITEM', itemId: 'a', position: 1, tierId: null });
+  });
+
+  it('should move dragged items into the output list they are dropped on', () => {
+    expect(getDropAction(
+      { type: 'input-item', itemId: 'b', sourceListId: 'list-1' },
+      { type: 'output-list', listId: 'later' },
+      []
+    )).toEqual({ type: 'MOVE_TO_OUTPUT_LIST', listId: 'later', itemIds: ['b'] });
+
+    expect(getDropAction(
+      { type: 'main-item', itemId: 'a' },
+      { type: 'output-list', listId: 'later' },
+      ['a', 'b']
+    )).toEqual({ type: 'MOVE_TO_OUTPUT_LIST', listId: 'later', itemIds: ['a', 'b'] });
+  });
+
+  it('should reorder all selected items when dragging one of them', () => {
+    expect(getDropAction(
+      { type: 'main-item', itemId: 'a' },
+      { type: 'main-list-position', position: 1 },
+      ['a', 'b']
+    )).toEqual({ type: 'MOVE_MAIN_ITEMS', itemIds: ['a', 'b'], position: 1 });
+  });
+
+  it('should apply dropped tags to the selection or the single target', () => {
+    expect(getDropAction(
+      { type: 'tag', tagId: 'tag-1' },
+      { type: 'input-list-item', itemId: 'b' },
+      ['b', 'c']
+    )).toEqual({ type: 'ADD_TAG', itemIds: ['b', 'c'], tagId: 'tag-1' });
+
+    expect(getDropAction(
+      { type: 'tag', tagId: 'tag-1' },
+      { type: 'main-list-item', itemId: 'a' },
+      ['b', 'c']
+    )).toEqual({ type: 'ADD_TAG', itemIds: ['a'], tagId: 'tag-1' });
+  });
+
+  it('should ignore unsupported drops', () => {
+    expect(getDropAction({ type: 'main-item', itemId: 'a' }, { type: 'main-list-item', itemId: 'b' }, [])).toBeNull();
+  });
+});
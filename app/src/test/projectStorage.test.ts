@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { ProjectStorage, STORAGE_KEYS } from '../utils/projectStorage';
+import { useAutoSave } from '../components/shared/hooks';
+import type { Project, InputList, MainListItem, Tag, InputListItem } from '../types/index';
+
+// Test data helpers
+const createInputListItem = (id: string, content: string, isUsed = false, tags: string[] = []): InputListItem => ({
+  id,
+  content,
+  isUsed,
+  tags
+});
+
+const createInputList = (id: string, name: string, items: InputListItem[] = []): InputList => ({
+  id,
+  name,
+  items
+});
+
+const createMainListItem = (id: string, content: string, sourceListId: string, order: number, tags: string[] = []): MainListItem => ({
+  id,
+  content,
+  sourceListId,
+  tags,
+  order
+});
+
+const createTag = (id: string, name: string, color = '#3b82f6', usageCount = 0): Tag => ({
+  id,
+  name,
+  color,
+  createdAt: new Date('2024-01-01'),
+  usageCount
+});
+
+const createProject = (id: string, name: string, modifiedAt = new Date('2024-01-15')): Project => ({
+  id,
+  name,
+  createdAt: new Date('2024-01-01'),
+  modifiedAt,
+  inputLists: [
+    createInputList('list-1', 'List 1', [
+      createInputListItem('item-1', 'First', true, ['tag-1']),
+      createInputListItem('item-2', 'Second')
+    ])
+  ],
+  mainList: [createMainListItem('item-1', 'First', 'list-1', 1, ['tag-1'])]
+});
+
+describe('ProjectStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('projects', () => {
+    it('should round-trip a project with Date objects restored', () => {
+      const project = createProject('p1', 'Project One');
+
+      const result = ProjectStorage.saveProject(project);
+      const loaded = ProjectStorage.loadProject('p1');
+
+      expect(result.success).toBe(true);
+      expect(loaded).toEqual(project);
+      expect(loaded!.createdAt).toBeInstanceOf(Date);
+      expect(loaded!.modifiedAt).toBeInstanceOf(Date);
+    });
+
+    it('should return null for unknown projects', () => {
+      expect(ProjectStorage.loadProject('missing')).toBeNull();
+    });
+
+    it('should return null for corrupted entries', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      localStorage.setItem(`${STORAGE_KEYS.PROJECT_PREFIX}bad`, '{not json');
+
+      expect(ProjectStorage.loadProject('bad')).toBeNull();
+      consoleSpy.mockRestore();
+    });
+
+    it('should delete a project and its index entry', () => {
+      ProjectStorage.saveProject(createProject('p1', 'One'));
+      ProjectStorage.saveProject(createProject('p2', 'Two'));
+
+      const result = ProjectStorage.deleteProject('p1');
+
+      expect(result.success).toBe(true);
+      expect(ProjectStorage.loadProject('p1')).toBeNull();
+      expect(ProjectStorage.loadProjectIndex().map(s => s.id)).toEqual(['p2']);
+    });
+
+    it('should report quota errors', () => {
+      const setItemSpy = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new DOMException('full', 'QuotaExceededError');
+      });
+
+      const result = ProjectStorage.saveProject(createProject('p1', 'One'));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Storage quota exceeded');
+      setItemSpy.mockRestore();
+    });
+  });
+
+  describe('project index', () => {
+    it('should keep one summary per project sorted by modified date', () => {
+      ProjectStorage.saveProject(createProject('p1', 'Older', new Date('2024-01-10')));
+      ProjectStorage.saveProject(createProject('p2', 'Newer', new Date('2024-02-10')));
+      ProjectStorage.saveProject(createProject('p1', 'Older renamed', new Date('2024-01-11')));
+
+      const index = ProjectStorage.loadProjectIndex();
+
+      expect(index.map(s => s.id)).toEqual(['p2', 'p1']);
+      expect(index[1].name).toBe('Older renamed');
+      expect(index[1].modifiedAt).toBeInstanceOf(Date);
+    });
+
+    it('should count input list items in the summary', () => {
+      const summary = ProjectStorage.createProjectSummary(createProject('p1', 'One'));
+
+      expect(summary).toEqual({
+        id: 'p1',
+        name: 'One',
+        createdAt: new Date('2024-01-01'),
+        modifiedAt: new Date('2024-01-15'),
+        itemCount: 2
+      });
+    });
+  });
+
+  describe('last-open project', () => {
+    it('should load the current project when set', () => {
+      ProjectStorage.saveProject(createProject('p1', 'One', new Date('2024-01-10')));
+      ProjectStorage.saveProject(createProject('p2', 'Two', new Date('2024-02-10')));
+      ProjectStorage.setCurrentProjectId('p1');
+
+      expect(ProjectStorage.loadLastProject()?.id).toBe('p1');
+    });
+
+    it('should fall back to the most recently modified project', () => {
+      ProjectStorage.saveProject(createProject('p1', 'One', new Date('2024-01-10')));
+      ProjectStorage.saveProject(createProject('p2', 'Two', new Date('2024-02-10')));
+      ProjectStorage.setCurrentProjectId('deleted');
+
+      expect(ProjectStorage.loadLastProject()?.id).toBe('p2');
+    });
+
+    it('should return null when nothing is stored', () => {
+      expect(ProjectStorage.loadLastProject()).toBeNull();
+    });
+  });
+
+  describe('tag pool', () => {
+    it('should round-trip the tag pool', () => {
+      const tags = [createTag('tag-1', 'Urgent', '#ef4444', 2)];
+
+      ProjectStorage.saveTagPool(tags);
+
+      expect(ProjectStorage.loadTagPool()).toEqual(tags);
+    });
+
+    it('should return null when no tag pool was saved', () => {
+      expect(ProjectStorage.loadTagPool()).toBeNull();
+    });
+  });
+
+  describe('snapshots', () => {
+    const createSnapshot = (id: string, name: string) => ({
+      id,
+      name,
+      createdAt: new Date('2024-02-01'),
+      project: createProject('project-1', 'Snapshotted'),
+      tags: [createTag('tag-1', 'Urgent')]
+    });
+
+    it('should keep snapshots per project with dates restored', () => {
+      ProjectStorage.saveSnapshot('project-1', createSnapshot('snap-1', 'January'));
+      const result = ProjectStorage.saveSnapshot('project-1', createSnapshot('snap-2', 'February'));
+
+      expect(result.success).toBe(true);
+      expect(ProjectStorage.loadSnapshots('project-1')).toEqual([createSnapshot('snap-1', 'January'), createSnapshot('snap-2', 'February')]);
+      expect(ProjectStorage.loadSnapshots('project-2')).toEqual([]);
+    });
+
+    it('should delete single snapshots and all snapshots of a deleted project', () => {
+      ProjectStorage.saveProject(createProject('project-1', 'Snapshotted'));
+      ProjectStorage.saveSnapshot('project-1', createSnapshot('snap-1', 'January'));
+      ProjectStorage.saveSnapshot('project-1', createSnapshot('snap-2', 'February'));
+
+      expect(ProjectStorage.deleteSnapshot('project-1', 'snap-1').data!.map(snapshot => snapshot.id)).toEqual(['snap-2']);
+
+      ProjectStorage.deleteProject('project-1');
+      expect(localStorage.getItem(`${STORAGE_KEYS.SNAPSHOT_PREFIX}project-1`)).toBeNull();
+    });
+  });
+});
+
+describe('useAutoSave', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should debounce saves until changes settle', () => {
+    const onSaved = vi.fn();
+    const tagPool = [createTag('tag-1', 'Urgent')];
+    const { rerender } = renderHook(
+      ({ project }) => useAutoSave({ project, tagPool, onSaved, delay: 500 }),
+      { initialProps: { project: createProject('p1', 'Draft 1') } }
+    );
+
+    vi.advanceTimersByTime(300);
+    rerender({ project: createProject('p1', 'Draft 2') });
+    vi.advanceTimersByTime(300);
+
+    expect(onSaved).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+
+    expect(onSaved).toHaveBeenCalledTimes(1);
+    expect(ProjectStorage.loadProject('p1')?.name).toBe('Draft 2');
+    expect(ProjectStorage.getCurrentProjectId()).toBe('p1');
+    expect(ProjectStorage.loadTagPool()).toEqual(tagPool);
+  });
+
+  it('should flush pending changes on unload', () => {
+    const onSaved = vi.fn();
+    renderHook(() => useAutoSave({ project: createProject('p1', 'Unsaved'), tagPool: [], onSaved }));
+
+    window.dispatchEvent(new Event('beforeunload'));
+
+    expect(onSaved).toHaveBeenCalledTimes(1);
+    expect(ProjectStorage.loadProject('p1')?.name).toBe('Unsaved');
+  });
+
+  it('should keep the error of a failed save until a retry succeeds', () => {
+    const onSaved = vi.fn();
+    const setItemSpy = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+    const { result } = renderHook(() => useAutoSave({ project: createProject('p1', 'Unsaved'), tagPool: [], onSaved }));
+
+    act(() => vi.advanceTimersByTime(500));
+    expect(result.current.saveError).toMatch(/quota exceeded/i);
+    expect(onSaved).not.toHaveBeenCalled();
+
+    setItemSpy.mockRestore();
+    act(() => result.current.retry());
+    expect(result.current.saveError).toBeNull();
+    expect(ProjectStorage.loadProject('p1')?.name).toBe('Unsaved');
+  });
+});
+
+describe('ProjectStorage library operations', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should rename a stored project and update its summary', () => {
+    ProjectStorage.saveProject(createProject('p1', 'Original'));
+
+    const result = ProjectStorage.renameProject('p1', 'Renamed');
+
+    expect(result.success).toBe(true);
+    expect(ProjectStorage.loadProject('p1')?.name).toBe('Renamed');
+    expect(ProjectStorage.loadProjectIndex()[0].name).toBe('Renamed');
+  });
+
+  it('should duplicate a project under a new ID', () => {
+    const original = createProject('p1', 'Original');
+    ProjectStorage.saveProject(original);
+
+    const result = ProjectStorage.duplicateProject('p1');
+
+    expect(result.success).toBe(true);
+    expect(result.data!.id).not.toBe('p1');
+    expect(result.data!.name).toBe('Original (copy)');
+    expect(result.data!.inputLists).toEqual(original.inputLists);
+    expect(result.data!.mainList).toEqual(original.mainList);
+    expect(ProjectStorage.loadProjectIndex()).toHaveLength(2);
+  });
+
+  it('should not share item arrays between original and duplicate', () => {
+    ProjectStorage.saveProject(createProject('p1', 'Original'));
+
+    const copy = ProjectStorage.duplicateProject('p1').data!;
+    copy.inputLists[0].items.push(createInputListItem('item-3', 'Third'));
+
+    expect(ProjectStorage.loadProject('p1')!.inputLists[0].items).toHaveLength(2);
+  });
+
+  it('should fail for unknown projects', () => {
+    expect(ProjectStorage.renameProject('missing', 'Name').error).toBe('Project not found');
+    expect(ProjectStorage.duplicateProject('missing').error).toBe('Project not found');
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { ProjectStore } from '../store';
+import { useAutoSave, useProjectStore, useTabSync } from '../components/shared/hooks';
+import { ProjectStorage } from '../utils/projectStorage';
+import type { AppState, Project } from '../types/index';
+
+const project: Project = {
+  id: 'project-1',
+  name: 'Shared',
+  createdAt: new Date('2024-01-01'),
+  modifiedAt: new Date('2024-01-01'),
+  inputLists: [{
+    id: 'list-1',
+    name: 'Ideas',
+    items: [
+      { id: 'a', content: 'Alpha', isUsed: false, tags: [] },
+      { id: 'b', content: 'Beta', isUsed: false, tags: [] }
+    ]
+  }],
+  mainList: []
+};
+
+// One browser tab: a store persisted with auto-save and kept in sync with the other tabs
+const openTab = (delay: number) => {
+  const initialState: AppState = {
+    currentProject: ProjectStorage.loadProject(project.id),
+    savedProjects: ProjectStorage.loadProjectIndex(),
+    tagPool: ProjectStorage.loadTagPool() ?? [],
+    ui: { selectedItems: [], activeInputList: 'list-1', anchorItem: null }
+  };
+  const store = new ProjectStore(initialState);
+  const { result, unmount } = renderHook(() => {
+    const { state, dispatch } = useProjectStore(store);
+    const tabSync = useTabSync({
+      project: state.currentProject,
+      tagPool: state.tagPool,
+      onRemoteChange: (remote, tagPool) => dispatch({ type: 'SYNC_PROJECT', project: remote, tagPool }),
+      onProjectsChanged: (savedProjects) => dispatch({ type: 'SET_SAVED_PROJECTS', savedProjects })
+    });
+    useAutoSave({
+      project: state.currentProject,
+      tagPool: state.tagPool,
+      onSaved: (savedProjects) => dispatch({ type: 'SET_SAVED_PROJECTS', savedProjects }),
+      delay,
+      beforeSave: tabSync.beforeSave,
+      afterSave: tabSync.afterSave
+    });
+    return tabSync;
+  });
+  return { store, result, unmount };
+};
+
+const mainOrder = (store: ProjectStore) => store.getState().currentProject!.mainList.map(item => item.id);
+// Helper: Let saves and messages between the tabs run
+const settle = () => act(() => new Promise(resolve => setTimeout(resolve, 5)));
+
+describe('Multi-tab synchronization', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    ProjectStorage.saveProject(project);
+    ProjectStorage.saveTagPool([]);
+  });
+
+  it('should carry saved edits and new tags over to the other tab', async () => {
+    const first = openTab(0);
+    const second = openTab(0);
+
+    act(() => {
+      first.store.dispatch({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' });
+      first.store.dispatch({
+        type: 'CREATE_TAG',
+        tag: { id: 'tag-1', name: 'Urgent', color: '#ef4444', createdAt: new Date('2024-01-01'), usageCount: 0 }
+      });
+    });
+
+    await waitFor(() => expect(mainOrder(second.store)).toEqual(['b']));
+    await waitFor(() => expect(second.store.getState().tagPool.map(tag => tag.name)).toEqual(['Urgent']));
+    expect(second.result.current.conflict).toBeNull();
+
+    await settle();
+    first.unmount();
+    second.unmount();
+  });
+
+  it('should carry an undo over to the other tab', async () => {
+    const first = openTab(0);
+    const second = openTab(0);
+
+    act(() => first.store.dispatch({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' }));
+    await waitFor(() => expect(mainOrder(second.store)).toEqual(['b']));
+
+    // The restored version is older than what the other tab has, but still the latest change
+    act(() => first.store.undo());
+    await waitFor(() => expect(mainOrder(second.store)).toEqual([]));
+    expect(second.result.current.conflict).toBeNull();
+
+    await settle();
+    first.unmount();
+    second.unmount();
+  });
+
+  it('should merge a tag created and applied in the other tab with unsaved tag edits', async () => {
+    ProjectStorage.saveTagPool([
+      { id: 'tag-0', name: 'Later', color: '#3b82f6', createdAt: new Date('2024-01-01'), usageCount: 0 }
+    ]);
+    const first = openTab(0);
+    const second = openTab(60_000);
+
+    act(() => second.store.dispatch({ type: 'EDIT_TAG', tagId: 'tag-0', name: 'Someday', color: '#3b82f6' }));
+    act(() => {
+      first.store.dispatch({
+        type: 'CREATE_TAG',
+        tag: { id: 'tag-1', name: 'Urgent', color: '#ef4444', createdAt: new Date('2024-01-01'), usageCount: 0 }
+      });
+      first.store.dispatch({ type: 'ADD_TAG', itemIds: ['a'], tagId: 'tag-1' });
+    });
+
+    await waitFor(() => expect(second.store.getState().currentProject!.inputLists[0].items[0].tags).toEqual(['tag-1']));
+    expect(second.store.getState().tagPool.map(tag => tag.name)).toEqual(['Someday', 'Urgent']);
+    expect(second.result.current.conflict).toBeNull();
+
+    await settle();
+    first.unmount();
+    second.unmount();
+  });
+
+  it('should ask which version to keep when both tabs edited the project', async () => {
+    const first = openTab(0);
+    const second = openTab(60_000); // Edits of this tab are not saved before the other tab's
+
+    act(() => second.store.dispatch({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'a' }));
+    await settle();
+    act(() => first.store.dispatch({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' }));
+
+    await waitFor(() => expect(second.result.current.conflict).not.toBeNull());
+    expect(second.result.current.conflict!.project.mainList.map(item => item.id)).toEqual(['b']);
+    expect(mainOrder(second.store)).toEqual(['a']);
+
+    // Keeping this tab's version overwrites the other tab's once saved
+    act(() => second.result.current.keepLocalVersion());
+    expect(second.result.current.conflict).toBeNull();
+    act(() => {
+      ProjectStorage.saveProject(second.store.getState().currentProject!);
+      second.result.current.afterSave(second.store.getState().currentProject, []);
+    });
+
+    await waitFor(() => expect(mainOrder(first.store)).toEqual(['a']));
+    expect(first.result.current.conflict).toBeNull();
+
+    await settle();
+    first.unmount();
+    second.unmount();
+  });
+
+  it('should take over the other version when chosen', async () => {
+    const first = openTab(0);
+    const second = openTab(60_000);
+
+    act(() => second.store.dispatch({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'a' }));
+    await settle();
+    act(() => first.store.dispatch({ type: 'MOVE_TO_MAIN', listId: 'list-1', itemId: 'b' }));
+    await waitFor(() => expect(second.result.current.conflict).not.toBeNull());
+
+    act(() => second.result.current.keepRemoteVersion());
+
+    expect(mainOrder(second.store)).toEqual(['b']);
+    // The undo steps of this tab stay, as for every synced version of the same project
+    expect(second.store.canUndo()).toBe(true);
+
+    await settle();
+    first.unmount();
+    second.unmount();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { createHistory, pushHistory, undoHistory, redoHistory, rebaseHistory, type HistorySnapshot } from '../utils/history';
+import { ProjectStore } from '../store';
+import { useUndoShortcuts } from '../components/shared/hooks';
+import type { Project, Tag } from '../types/index';
+
+// Test data helpers
+const createTag = (id: string, name: string): Tag => ({
+  id,
+  name,
+  color: '#3b82f6',
+  createdAt: new Date('2024-01-01'),
+  usageCount: 0
+});
+
+const createProject = (id: string, name: string): Project => ({
+  id,
+  name,
+  createdAt: new Date('2024-01-01'),
+  modifiedAt: new Date('2024-01-15'),
+  inputLists: [],
+  mainList: []
+});
+
+const snapshot = (name: string, tags: Tag[] = []): HistorySnapshot => ({
+  project: createProject('p1', name),
+  tagPool: tags
+});
+
+describe('history stack', () => {
+  it('should start empty', () => {
+    expect(createHistory()).toEqual({ past: [], future: [] });
+  });
+
+  it('should push entries and clear the redo stack', () => {
+    const history = { past: [], future: [{ label: 'Old', snapshot: snapshot('x') }] };
+
+    const result = pushHistory(history, 'Add item', snapshot('a'));
+
+    expect(result.past).toEqual([{ label: 'Add item', snapshot: snapshot('a') }]);
+    expect(result.future).toEqual([]);
+  });
+
+  it('should drop the oldest entries beyond the limit', () => {
+    let history = createHistory();
+    for (let i = 1; i <= 5; i++) {
+      history = pushHistory(history, `Step ${i}`, snapshot(`v${i}`), 3);
+    }
+
+    expect(history.past.map(entry => entry.label)).toEqual(['Step 3', 'Step 4', 'Step 5']);
+  });
+
+  it('should undo to the previous snapshot and allow redo', () => {
+    const history = pushHistory(createHistory(), 'Rename', snapshot('before'));
+
+    const undone = undoHistory(history, snapshot('after'))!;
+    expect(undone.snapshot).toEqual(snapshot('before'));
+    expect(undone.label).toBe('Rename');
+    expect(undone.history.past).toHaveLength(0);
+    expect(undone.history.future).toHaveLength(1);
+
+    const redone = redoHistory(undone.history, undone.snapshot)!;
+    expect(redone.snapshot).toEqual(snapshot('after'));
+    expect(redone.history.past).toEqual([{ label: 'Rename', snapshot: snapshot('before') }]);
+    expect(redone.history.future).toHaveLength(0);
+  });
+
+  it('should carry changes made elsewhere into every entry', () => {
+    const history = pushHistory(createHistory(), 'Rename', snapshot('before', [createTag('tag-1', 'Urgent')]));
+    // Another copy added a list, deleted one tag and created another
+    const rebased = rebaseHistory(history, snapshot('after', [createTag('tag-1', 'Urgent')]), {
+      project: { ...createProject('p1', 'after'), inputLists: [{ id: 'list-1', name: 'Shared', items: [] }] },
+      tagPool: [createTag('tag-2', 'Later')]
+    });
+
+    const { project, tagPool } = rebased.past[0].snapshot;
+    expect(project!.name).toBe('before');
+    expect(project!.inputLists.map(list => list.id)).toEqual(['list-1']);
+    expect(tagPool.map(tag => tag.id)).toEqual(['tag-2']);
+  });
+
+  it('should return null when nothing can be undone or redone', () => {
+    expect(undoHistory(createHistory(), snapshot('a'))).toBeNull();
+    expect(redoHistory(createHistory(), snapshot('a'))).toBeNull();
+  });
+});
+
+describe('ProjectStore undo/redo', () => {
+  const createStore = () => new ProjectStore({
+    currentProject: createProject('p1', 'v1'),
+    savedProjects: [],
+    tagPool: [createTag('tag-1', 'Urgent')],
+    ui: { selectedItems: [], activeInputList: null, anchorItem: null }
+  });
+
+  // Let the current undo group close, as happens between user events
+  const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it('should record labelled changes and undo them', async () => {
+    const store = createStore();
+
+    store.dispatch({ type: 'RENAME_PROJECT', name: 'v2' });
+    expect(store.canUndo()).toBe(true);
+    expect(store.getSnapshot().history.past[0].label).toBe('Rename project');
+
+    await nextTask();
+    store.undo();
+    expect(store.getState().currentProject!.name).toBe('v1');
+    expect(store.canUndo()).toBe(false);
+    expect(store.canRedo()).toBe(true);
+
+    store.redo();
+    expect(store.getState().currentProject!.name).toBe('v2');
+    expect(store.canRedo()).toBe(false);
+  });
+
+  it('should restore deleted tags on undo', () => {
+    const store = createStore();
+
+    store.dispatch({ type: 'DELETE_TAG', tagId: 'tag-1' });
+    store.undo();
+
+    expect(store.getState().tagPool.map(tag => tag.id)).toEqual(['tag-1']);
+  });
+
+  it('should group changes dispatched in the same task under the first label', () => {
+    const store = createStore();
+
+    store.dispatch({ type: 'CREATE_TAG', tag: createTag('tag-2', 'New') });
+    store.dispatch({ type: 'RENAME_PROJECT', name: 'tagged' });
+
+    expect(store.getSnapshot().history.past.map(entry => entry.label)).toEqual(['Create tag']);
+
+    store.undo();
+    expect(store.getState().tagPool).toHaveLength(1);
+    expect(store.getState().currentProject!.name).toBe('v1');
+    expect(store.canUndo()).toBe(false);
+  });
+
+  it('should record separate steps for separate tasks', async () => {
+    const store = createStore();
+
+    store.dispatch({ type: 'RENAME_PROJECT', name: 'v2' });
+    await nextTask();
+    store.dispatch({ type: 'RENAME_PROJECT', name: 'v3' });
+
+    expect(store.getSnapshot().history.past).toHaveLength(2);
+  });
+
+  it('should not record UI-only actions', () => {
+    const store = createStore();
+
+    store.dispatch({ type: 'CLEAR_SELECTION' });
+    store.dispatch({ type: 'SET_SAVED_PROJECTS', savedProjects: [] });
+
+    expect(store.canUndo()).toBe(false);
+  });
+
+  it('should clear history when another project is opened', () => {
+    const store = createStore();
+
+    store.dispatch({ type: 'RENAME_PROJECT', name: 'v2' });
+    store.dispatch({ type: 'LOAD_PROJECT', project: createProject('p2', 'Other') });
+
+    expect(store.canUndo()).toBe(false);
+  });
+
+  it('should keep history when another copy of the same project is synced in', async () => {
+    const store = createStore();
+
+    store.dispatch({ type: 'RENAME_PROJECT', name: 'v2' });
+    await nextTask();
+    store.dispatch({
+      type: 'SYNC_PROJECT',
+      project: { ...store.getState().currentProject!, inputLists: [{ id: 'list-1', name: 'Shared', items: [] }] },
+      tagPool: store.getState().tagPool
+    });
+    expect(store.canUndo()).toBe(true);
+
+    store.undo();
+    expect(store.getState().currentProject!.name).toBe('v1');
+    expect(store.getState().currentProject!.inputLists.map(list => list.name)).toEqual(['Shared']);
+  });
+
+  it('should notify subscribers on change', () => {
+    const store = createStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.dispatch({ type: 'RENAME_PROJECT', name: 'v2' });
+    store.undo();
+    unsubscribe();
+    store.redo();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('useUndoShortcuts', () => {
+  it('should undo on Ctrl+Z and redo on Ctrl+Shift+Z or Ctrl+Y', () => {
+    const onUndo = vi.fn();
+    const onRedo = vi.fn();
+    renderHook(() => useUndoShortcuts({ onUndo, onRedo }));
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true }));
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Z', ctrlKey: true, shiftKey: true }));
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'y', metaKey: true }));
+
+    expect(onUndo).toHaveBeenCalledTimes(1);
+    expect(onRedo).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave text inputs to their native undo', () => {
+    const onUndo = vi.fn();
+    renderHook(() => useUndoShortcuts({ onUndo, onRedo: vi.fn() }));
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true }));
+
+    expect(onUndo).not.toHaveBeenCalled();
+    document.body.removeChild(input);
+  });
+});
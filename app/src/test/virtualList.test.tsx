@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, renderHook, screen, act } from '@testing-library/react';
+import { useVirtualList, VIRTUALIZATION_THRESHOLD } from '../components/shared/hooks';
+import { MainListPanel } from '../components/MainListPanel';
+import type { MainListItem } from '../types/index';
+
+// Mock DnD Kit; record droppable IDs so drop zone positions can be checked
+const droppableIds: string[] = [];
+vi.mock('@dnd-kit/core', () => ({
+  useDraggable: () => ({
+    attributes: {},
+    listeners: {},
+    setNodeRef: vi.fn(),
+    isDragging: false,
+    transform: null
+  }),
+  useDroppable: ({ id }: { id: string }) => {
+    droppableIds.push(id);
+    return { isOver: false, setNodeRef: vi.fn() };
+  }
+}));
+
+const keyOf = (index: number) => `item-${index}`;
+
+// Helper: Attach a scroll container with a fixed viewport height to the hook
+const attachViewport = (scrollRef: (node: HTMLElement | null) => void, height: number) => {
+  const node = document.createElement('div');
+  Object.defineProperty(node, 'clientHeight', { value: height, configurable: true });
+  act(() => scrollRef(node));
+  return node;
+};
+
+const scrollTo = (node: HTMLElement, scrollTop: number) => {
+  act(() => {
+    node.scrollTop = scrollTop;
+    node.dispatchEvent(new Event('scroll'));
+  });
+};
+
+describe('useVirtualList', () => {
+  it('should render every row at or below the threshold', () => {
+    const { result } = renderHook(() =>
+      useVirtualList({ count: VIRTUALIZATION_THRESHOLD, getItemKey: keyOf, estimateSize: 50 })
+    );
+
+    expect(result.current.isVirtualized).toBe(false);
+    expect(result.current.indices).toHaveLength(VIRTUALIZATION_THRESHOLD);
+    expect(result.current.paddingTop).toBe(0);
+    expect(result.current.paddingBottom).toBe(0);
+  });
+
+  it('should window large lists around the scroll position', () => {
+    const { result } = renderHook(() =>
+      useVirtualList({ count: 10000, getItemKey: keyOf, estimateSize: 50, overscan: 2 })
+    );
+    const node = attachViewport(result.current.scrollRef, 500);
+
+    expect(result.current.isVirtualized).toBe(true);
+    expect(result.current.indices[0]).toBe(0);
+    expect(result.current.indices).toHaveLength(13); // 10 visible + 1 partial + 2 overscan
+
+    scrollTo(node, 50000); // Row 1000 at the top
+    const { indices, paddingTop, paddingBottom } = result.current;
+    expect(indices[0]).toBe(998);
+    expect(indices[indices.length - 1]).toBe(1012);
+    expect(paddingTop).toBe(998 * 50);
+    // Spacers plus rendered rows always add up to the full list height
+    expect(paddingTop + indices.length * 50 + paddingBottom).toBe(10000 * 50);
+  });
+
+  it('should use measured row heights once rows mount', () => {
+    const { result } = renderHook(() =>
+      useVirtualList({ count: 1000, getItemKey: keyOf, estimateSize: 50, overscan: 0 })
+    );
+    const node = attachViewport(result.current.scrollRef, 100);
+
+    const row = document.createElement('div');
+    row.dataset.virtualKey = 'item-0';
+    Object.defineProperty(row, 'offsetHeight', { value: 200 });
+    act(() => {
+      result.current.measureRef(row);
+    });
+
+    // Row 0 now fills 0-200px, so at 150px it is still the first rendered row
+    scrollTo(node, 150);
+    expect(result.current.indices[0]).toBe(0);
+    expect(result.current.paddingBottom).toBe(999 * 50 - (result.current.indices.length - 1) * 50);
+  });
+
+  it('should keep pinned rows mounted outside the window', () => {
+    const { result } = renderHook(() =>
+      useVirtualList({ count: 5000, getItemKey: keyOf, estimateSize: 50, pinnedKeys: ['item-4000'] })
+    );
+    attachViewport(result.current.scrollRef, 500);
+
+    expect(result.current.indices).not.toContain(4000);
+    expect(result.current.detachedIndices).toEqual([4000]);
+  });
+});
+
+describe('MainListPanel virtualization', () => {
+  const createItems = (count: number): MainListItem[] =>
+    Array.from({ length: count }, (_, i) => ({
+      id: `item-${i + 1}`,
+      content: `Item ${i + 1}`,
+      sourceListId: 'list-1',
+      tags: [],
+      order: i + 1
+    }));
+
+  const defaultProps = {
+    selectedItems: [],
+    tagPool: [],
+    onSelectItem: vi.fn(),
+    onRemoveItem: vi.fn(),
+    onMoveUp: vi.fn(),
+    onMoveDown: vi.fn(),
+    onAddTag: vi.fn(),
+    onRemoveTag: vi.fn(),
+    onCreateTag: vi.fn(),
+    onEditItemDetails: vi.fn()
+  };
+
+  it('should render only a window of a large list', () => {
+    render(<MainListPanel {...defaultProps} items={createItems(2000)} />);
+
+    expect(screen.getByText('2000 items')).toBeInTheDocument();
+    expect(screen.getByText('Item 1')).toBeInTheDocument();
+    expect(screen.queryByText('Item 1500')).not.toBeInTheDocument();
+    expect(screen.getAllByText(/^Item \d+$/).length).toBeLessThan(100);
+  });
+
+  it('should keep drop zone positions aligned with rendered items', () => {
+    droppableIds.length = 0;
+    render(<MainListPanel {...defaultProps} items={createItems(2000)} />);
+
+    expect(droppableIds).toContain('drop-zone-1');
+    expect(droppableIds).toContain('drop-zone-2'); // After item 1
+    expect(droppableIds).toContain('main-item-drop-item-1');
+    expect(droppableIds).not.toContain('drop-zone-1501');
+  });
+
+  it('should keep the item being dragged mounted', () => {
+    render(<MainListPanel {...defaultProps} items={createItems(2000)} activeDragItemId="item-1500" />);
+
+    expect(screen.getByText('Item 1500')).toBeInTheDocument();
+  });
+
+  it('should render small lists in full', () => {
+    render(<MainListPanel {...defaultProps} items={createItems(20)} />);
+
+    expect(screen.getAllByText(/^Item \d+$/)).toHaveLength(20);
+  });
+});
\ No newline at end of file
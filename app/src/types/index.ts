@@ -5,6 +5,9 @@ export interface InputListItem {
   content: string;
   isUsed: boolean; // For greying out used items
   tags: string[]; // Tags associated with this item
+  notes?: string;
+  url?: string; // http(s) link
+  fields?: CustomFieldValues;
 }
 
 export interface InputList {
@@ -19,8 +22,30 @@ export interface MainListItem {
   sourceListId: string;
   tags: string[];
   order: number;
+  notes?: string;
+  url?: string;
+  fields?: CustomFieldValues;
+  tierId?: string; // Tier in tier list mode; items without one are unsorted
 }
 
+// Free-form details an item carries besides its content and tags
+export type ItemDetails = Pick<InputListItem, 'notes' | 'url' | 'fields'>;
+
+// Project-defined item field; values are kept on the items by field ID
+export type CustomFieldType = 'number' | 'text' | 'date' | 'select';
+
+export interface CustomField {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[]; // Choices of a select field
+}
+
+// Numbers for number fields; dates as YYYY-MM-DD; text and select values as strings
+export type CustomFieldValue = string | number;
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
 export interface Tag {
   id: string;
   name: string;
@@ -29,6 +54,51 @@ export interface Tag {
   usageCount: number; // For auto-suggestion ordering
 }
 
+// A named bucket of the main list in tier list mode (e.g. S/A/B/C)
+export interface Tier {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// One of several named rankings built from the same input lists. The active list's items live
+// in Project.mainList; the others keep theirs here until they are switched to.
+export interface OutputList {
+  id: string;
+  name: string;
+  items: MainListItem[]; // Empty while the list is active
+  comparisonSession?: ComparisonSession; // Parked with the list while another one is active
+}
+
+// Search and filter settings of the filter bar; items that do not match are hidden in both panels
+export type TagFilterMode = 'all' | 'any';
+export type UsageFilter = 'all' | 'unused' | 'used';
+
+export interface ItemFilter {
+  text: string; // Fuzzy matched against item content
+  includedTagIds: string[]; // Items need all or any of these, per tagMode
+  tagMode: TagFilterMode;
+  excludedTagIds: string[]; // Items may have none of these
+  sourceListId: string | null; // Input list the items come from
+  usage: UsageFilter; // Used state of input items; main list items are always used
+}
+
+// A named tag query (see utils/tagQuery), chosen from the filter bar
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+}
+
+// Named copy of a project, stored next to it, to compare later versions against (see utils/snapshots)
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: Date;
+  project: Project;
+  tags: Tag[]; // Tags the project used, so their names survive later edits of the tag pool
+}
+
 export interface ProjectSummary {
   id: string;
   name: string;
@@ -37,6 +107,15 @@ export interface ProjectSummary {
   itemCount: number;
 }
 
+// Progress of a pairwise comparison ranking; saved with the project so it can be resumed
+export interface ComparisonSession {
+  sortedIds: string[]; // Items ranked so far, best first
+  pendingIds: string[]; // Items still to place; the first one is being compared
+  low: number; // Binary search window in sortedIds for the item being placed
+  high: number;
+  comparisons: number; // Questions answered so far
+}
+
 export interface Project {
   id: string;
   name: string;
@@ -44,6 +123,13 @@ export interface Project {
   modifiedAt: Date;
   inputLists: InputList[];
   mainList: MainListItem[];
+  comparisonSession?: ComparisonSession;
+  itemLinks?: string[][]; // Confirmed duplicate groups of input item IDs
+  tiers?: Tier[]; // Tier list mode, best tier first; the main list order runs through the tiers
+  outputLists?: OutputList[]; // Several output lists, in tab order; absent while there is only the main list
+  activeOutputListId?: string; // Output list shown as the main list
+  customFields?: CustomField[]; // Item fields defined for this project, in display order
+  savedViews?: SavedView[]; // Saved tag queries, in the order they were created
 }
 
 export interface AppState {
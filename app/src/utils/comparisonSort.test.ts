@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  answerComparison,
+  createComparisonSession,
+  estimateRemainingComparisons,
+  getCurrentComparison,
+  reconcileComparisonSession
+} from './comparisonSort';
+import type { ComparisonSession, Project } from '../types/index';
+
+// Test data helpers
+const createProject = (mainIds: string[], unrankedIds: string[]): Project => ({
+  id: 'project-1',
+  name: 'Test Project',
+  createdAt: new Date('2024-01-01'),
+  modifiedAt: new Date('2024-01-01'),
+  inputLists: [
+    {
+      id: 'list-1',
+      name: 'Items',
+      items: [
+        ...mainIds.map(id => ({ id, content: id, isUsed: true, tags: [] })),
+        ...unrankedIds.map(id => ({ id, content: id, isUsed: false, tags: [] }))
+      ]
+    }
+  ],
+  mainList: mainIds.map((id, index) => ({ id, content: id, sourceListId: 'list-1', tags: [], order: index + 1 }))
+});
+
+// Answer every question by comparing IDs numerically (lower is better)
+const runToCompletion = (start: ComparisonSession) => {
+  let session = start;
+  let comparison = getCurrentComparison(session);
+  while (comparison) {
+    session = answerComparison(session, Number(comparison.candidateId) < Number(comparison.opponentId));
+    comparison = getCurrentComparison(session);
+  }
+  return session;
+};
+
+describe('createComparisonSession', () => {
+  it('should keep the main list order and queue unranked items', () => {
+    const session = createComparisonSession(createProject(['1', '2'], ['3']), { rerankMainList: false, inputListIds: ['list-1'] });
+
+    expect(session).toEqual({ sortedIds: ['1', '2'], pendingIds: ['3'], low: 0, high: 2, comparisons: 0 });
+  });
+
+  it('should seed a re-rank with the current top item', () => {
+    const session = createComparisonSession(createProject(['1', '2', '3'], []), { rerankMainList: true, inputListIds: [] });
+
+    expect(session).toMatchObject({ sortedIds: ['1'], pendingIds: ['2', '3'] });
+  });
+
+  it('should place the first item without a question when nothing is ranked yet', () => {
+    const session = createComparisonSession(createProject([], ['1', '2']), { rerankMainList: false, inputListIds: ['list-1'] });
+
+    expect(session).toMatchObject({ sortedIds: ['1'], pendingIds: ['2'], comparisons: 0 });
+  });
+
+  it('should return null when there is nothing to compare', () => {
+    expect(createComparisonSession(createProject(['1'], ['2']), { rerankMainList: true, inputListIds: [] })).toBeNull();
+  });
+});
+
+describe('answerComparison', () => {
+  it('should binary-search the position of each item', () => {
+    let session = createComparisonSession(createProject(['1', '3', '5', '7'], ['4']), { rerankMainList: false, inputListIds: ['list-1'] })!;
+
+    expect(getCurrentComparison(session)).toEqual({ candidateId: '4', opponentId: '5' });
+    session = answerComparison(session, true);
+    expect(getCurrentComparison(session)).toEqual({ candidateId: '4', opponentId: '3' });
+    session = answerComparison(session, false);
+
+    expect(session.sortedIds).toEqual(['1', '3', '4', '5', '7']);
+    expect(session.pendingIds).toEqual([]);
+    expect(session.comparisons).toBe(2);
+  });
+
+  it('should sort a shuffled list with about n log n questions', () => {
+    const ids = [14, 3, 9, 1, 20, 7, 12, 5, 18, 2, 16, 10, 8, 19, 4, 11, 6, 15, 13, 17].map(String);
+    const session = runToCompletion(createComparisonSession(createProject(ids, []), { rerankMainList: true, inputListIds: [] })!);
+
+    expect(session.sortedIds).toEqual(Array.from({ length: 20 }, (_, i) => String(i + 1)));
+    // Binary insertion of 20 items needs at most sum(ceil(log2(k))) for k = 2..20 = 66 questions
+    expect(session.comparisons).toBeLessThanOrEqual(66);
+  });
+
+  it('should ignore answers once the session is complete', () => {
+    const complete: ComparisonSession = { sortedIds: ['1'], pendingIds: [], low: 0, high: 1, comparisons: 3 };
+
+    expect(answerComparison(complete, true)).toBe(complete);
+  });
+});
+
+describe('estimateRemainingComparisons', () => {
+  it('should bound the questions left for the current and pending items', () => {
+    const session: ComparisonSession = { sortedIds: ['1', '2', '3'], pendingIds: ['4', '5'], low: 0, high: 3, comparisons: 0 };
+
+    // ceil(log2(4)) for the current item, then ceil(log2(5)) once it is placed
+    expect(estimateRemainingComparisons(session)).toBe(5);
+  });
+});
+
+describe('reconcileComparisonSession', () => {
+  const session: ComparisonSession = { sortedIds: ['1', '2', '3'], pendingIds: ['4', '5'], low: 2, high: 3, comparisons: 2 };
+
+  it('should keep the search window when nothing changed', () => {
+    expect(reconcileComparisonSession(createProject(['1', '2', '3'], ['4', '5']), session)).toEqual(session);
+  });
+
+  it('should follow manual reordering and restart the current search', () => {
+    const reconciled = reconcileComparisonSession(createProject(['3', '1', '2'], ['4', '5']), session);
+
+    expect(reconciled).toEqual({ ...session, sortedIds: ['3', '1', '2'], low: 0, high: 3 });
+  });
+
+  it('should drop deleted items', () => {
+    const reconciled = reconcileComparisonSession(createProject(['1', '2', '3'], ['5']), session);
+
+    expect(reconciled).toEqual({ ...session, pendingIds: ['5'], low: 0, high: 3 });
+  });
+
+  it('should return null when no pending item is left', () => {
+    expect(reconcileComparisonSession(createProject(['1', '2', '3'], []), session)).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,124 @@
+// Pairwise comparison ranking by binary insertion
+// Each pending item is placed into the ranked list with a binary search driven by
+// "which is better?" questions, so ranking n items takes about n·log2(n) answers.
+// The session is plain data so it can be saved with the project and resumed later.
+import type { ComparisonSession, Project } from '../types/index';
+
+export interface ComparisonScope {
+  rerankMainList: boolean; // Re-rank the existing main list from scratch instead of keeping its order
+  inputListIds: string[]; // Input lists whose unranked items get inserted
+}
+
+export interface Comparison {
+  candidateId: string; // Item being placed
+  opponentId: string; // Ranked item it is compared against
+}
+
+// Helper: Insert pending items for as long as their position is already decided
+const settle = (session: ComparisonSession): ComparisonSession => {
+  let { sortedIds, pendingIds, low, high } = session;
+
+  while (pendingIds.length > 0 && low >= high) {
+    sortedIds = [...sortedIds.slice(0, low), pendingIds[0], ...sortedIds.slice(low)];
+    pendingIds = pendingIds.slice(1);
+    low = 0;
+    high = sortedIds.length;
+  }
+
+  return { ...session, sortedIds, pendingIds, low, high };
+};
+
+/**
+ * Starts a comparison session for a project
+ * @param project - Project whose items are ranked
+ * @param scope - Whether to re-rank the main list and which input lists to draw unranked items from
+ * @returns The new session, or null when there is nothing to compare
+ */
+export const createComparisonSession = (project: Project, scope: ComparisonScope): ComparisonSession | null => {
+  const mainIds = [...project.mainList].sort((a, b) => a.order - b.order).map(item => item.id);
+  const rankedIds = new Set(mainIds);
+  const unrankedIds = project.inputLists
+    .filter(list => scope.inputListIds.includes(list.id))
+    .flatMap(list => list.items.filter(item => !item.isUsed && !rankedIds.has(item.id)).map(item => item.id));
+
+  // Re-ranking seeds the ranked list with the current top item and places the rest
+  const sortedIds = scope.rerankMainList ? mainIds.slice(0, 1) : mainIds;
+  const pendingIds = scope.rerankMainList ? [...mainIds.slice(1), ...unrankedIds] : unrankedIds;
+
+  const session = settle({ sortedIds, pendingIds, low: 0, high: sortedIds.length, comparisons: 0 });
+  return session.pendingIds.length > 0 ? session : null;
+};
+
+/**
+ * Gets the question the session is waiting on
+ * @param session - Comparison session
+ * @returns The pair to compare, or null when every item has been placed
+ */
+export const getCurrentComparison = (session: ComparisonSession): Comparison | null => {
+  if (session.pendingIds.length === 0 || session.low >= session.high) return null;
+  const mid = (session.low + session.high) >> 1;
+  return { candidateId: session.pendingIds[0], opponentId: session.sortedIds[mid] };
+};
+
+/**
+ * Records the answer to the current question and narrows the candidate's position
+ * @param session - Comparison session
+ * @param candidateIsBetter - Whether the candidate ranks above its opponent
+ * @returns The updated session; placed items move from pendingIds into sortedIds
+ */
+export const answerComparison = (session: ComparisonSession, candidateIsBetter: boolean): ComparisonSession => {
+  if (!getCurrentComparison(session)) return session;
+
+  const mid = (session.low + session.high) >> 1;
+  return settle({
+    ...session,
+    low: candidateIsBetter ? session.low : mid + 1,
+    high: candidateIsBetter ? mid : session.high,
+    comparisons: session.comparisons + 1
+  });
+};
+
+/**
+ * Estimates how many questions are left (the worst case of each remaining binary search)
+ * @param session - Comparison session
+ * @returns Upper bound on the remaining number of answers
+ */
+export const estimateRemainingComparisons = (session: ComparisonSession): number => {
+  if (session.pendingIds.length === 0) return 0;
+
+  let remaining = Math.ceil(Math.log2(session.high - session.low + 1));
+  for (let i = 1; i < session.pendingIds.length; i++) {
+    remaining += Math.ceil(Math.log2(session.sortedIds.length + i + 1));
+  }
+  return remaining;
+};
+
+/**
+ * Brings a saved session in line with edits made since it was last answered
+ * Deleted items are dropped, items taken off the main list leave the ranking, and ranked
+ * items follow any manual reordering of the main list. When the ranking or the current
+ * item changed, the current item's search restarts over the whole list.
+ * @param project - Current project
+ * @param session - Saved session
+ * @returns The reconciled session, or null when nothing is left to compare
+ */
+export const reconcileComparisonSession = (project: Project, session: ComparisonSession): ComparisonSession | null => {
+  const mainIds = [...project.mainList].sort((a, b) => a.order - b.order).map(item => item.id);
+  const knownIds = new Set([...mainIds, ...project.inputLists.flatMap(list => list.items.map(item => item.id))]);
+  const wasSorted = new Set(session.sortedIds);
+
+  const sortedIds = mainIds.filter(id => wasSorted.has(id));
+  const pendingIds = session.pendingIds.filter(id => !wasSorted.has(id) && knownIds.has(id));
+  const isUnchanged = pendingIds[0] === session.pendingIds[0] &&
+    sortedIds.length === session.sortedIds.length &&
+    sortedIds.every((id, index) => id === session.sortedIds[index]);
+
+  const reconciled = settle({
+    ...session,
+    sortedIds,
+    pendingIds,
+    low: isUnchanged ? session.low : 0,
+    high: isUnchanged ? session.high : sortedIds.length
+  });
+  return reconciled.pendingIds.length > 0 ? reconciled : null;
+};
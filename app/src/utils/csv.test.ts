@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { parseCSV, detectDelimiter, stringifyCSV } from './csv';
+
+describe('parseCSV', () => {
+  it('should parse multiple rows', () => {
+    expect(parseCSV('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('should accept CRLF line endings and ignore a trailing line break', () => {
+    expect(parseCSV('a,b\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should keep delimiters and line breaks inside quoted fields', () => {
+    expect(parseCSV('"Smith, John","Line 1\nLine 2"\nnext,row')).toEqual([
+      ['Smith, John', 'Line 1\nLine 2'],
+      ['next', 'row']
+    ]);
+  });
+
+  it('should unescape doubled quotes', () => {
+    expect(parseCSV('"She said ""hi""",plain')).toEqual([['She said "hi"', 'plain']]);
+  });
+
+  it('should keep empty fields', () => {
+    expect(parseCSV('a,,c\n,,')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+
+  it('should keep quotes inside unquoted fields literally', () => {
+    expect(parseCSV('5" screen,ok')).toEqual([['5" screen', 'ok']]);
+  });
+
+  it('should tolerate whitespace before an opening quote', () => {
+    expect(parseCSV('"Item 1", "Item, 2"')).toEqual([['Item 1', 'Item, 2']]);
+  });
+
+  it('should strip a byte order mark', () => {
+    expect(parseCSV('\uFEFFname\nDune')).toEqual([['name'], ['Dune']]);
+  });
+
+  it('should support other delimiters', () => {
+    expect(parseCSV('a;b\n1;2', ';')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCSV('a\tb,c', '\t')).toEqual([['a', 'b,c']]);
+  });
+
+  it('should throw on an unterminated quoted field', () => {
+    expect(() => parseCSV('a,b\n"open,field')).toThrow('Unterminated quoted field starting on row 2');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('should detect comma, semicolon and tab', () => {
+    expect(detectDelimiter('name,rank\nDune,1\nEmma,2')).toBe(',');
+    expect(detectDelimiter('name;rank\nDune;1\nEmma;2')).toBe(';');
+    expect(detectDelimiter('name\trank\nDune\t1\nEmma\t2')).toBe('\t');
+  });
+
+  it('should prefer a delimiter with consistent counts per line', () => {
+    // Commas only appear inside some content; semicolons separate every line
+    expect(detectDelimiter('title;notes\nDune;great, long\nEmma;short')).toBe(';');
+  });
+
+  it('should ignore delimiters inside quotes', () => {
+    expect(detectDelimiter('"a,b,c";d\n"e,f";g')).toBe(';');
+  });
+
+  it('should fall back to comma', () => {
+    expect(detectDelimiter('single column\nno delimiters')).toBe(',');
+  });
+});
+
+describe('stringifyCSV', () => {
+  it('should quote fields only when needed', () => {
+    expect(stringifyCSV([['Rank', 'Content'], ['1', 'Smith, John'], ['2', 'Say "hi"'], ['3', ' padded']])).toBe(
+      'Rank,Content\r\n1,"Smith, John"\r\n2,"Say ""hi"""\r\n3," padded"'
+    );
+  });
+
+  it('should round-trip through parseCSV', () => {
+    const rows = [['a;b', 'line 1\nline 2'], ['', '"quoted"']];
+    expect(parseCSV(stringifyCSV(rows, ';'), ';')).toEqual(rows);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,151 @@
+// RFC 4180 CSV parsing with delimiter detection
+
+export type CSVDelimiter = ',' | ';' | '\t';
+
+export const CSV_DELIMITERS: CSVDelimiter[] = [',', ';', '\t'];
+
+export const CSV_DELIMITER_LABELS: Record<CSVDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab'
+};
+
+// Number of lines sampled when detecting the delimiter
+const DETECTION_SAMPLE_LINES = 20;
+
+/**
+ * Parses CSV content into rows of fields following RFC 4180
+ * Quoted fields may contain delimiters, line breaks and escaped quotes (""). Both CRLF
+ * and LF line endings are accepted, and a trailing line break does not add an empty row.
+ * @param content - Raw CSV text
+ * @param delimiter - Field separator
+ * @returns Rows of raw (untrimmed) field values
+ * @throws Error when a quoted field is never closed
+ */
+export const parseCSV = (content: string, delimiter: CSVDelimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteStartRow = 0;
+  let i = 0;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.trim().length === 0) {
+      // Whitespace before an opening quote is tolerated and dropped
+      inQuotes = true;
+      field = '';
+      quoteStartRow = rows.length + 1;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      // A quote inside an unquoted field is kept literally
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on row ${quoteStartRow}`);
+  }
+
+  // Flush the last row unless the content ended with a line break
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Helper: Count delimiter occurrences outside quotes for each of the first lines
+const countDelimiterPerLine = (content: string, delimiter: CSVDelimiter): number[] => {
+  const counts: number[] = [];
+  let count = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length && counts.length < DETECTION_SAMPLE_LINES; i++) {
+    const char = content[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === delimiter) {
+      count++;
+    } else if (!inQuotes && char === '\n') {
+      counts.push(count);
+      count = 0;
+    }
+  }
+  if (counts.length < DETECTION_SAMPLE_LINES && count > 0) counts.push(count);
+
+  return counts;
+};
+
+/**
+ * Detects the most likely field delimiter of CSV content
+ * Prefers the delimiter that appears the same number of times on every sampled line,
+ * then the one that appears most often. Falls back to comma.
+ * @param content - Raw CSV text
+ * @returns The detected delimiter
+ */
+export const detectDelimiter = (content: string): CSVDelimiter => {
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = countDelimiterPerLine(content, delimiter);
+    if (counts.every(count => count === 0)) continue;
+
+    const isConsistent = counts.every(count => count === counts[0]);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    // Consistent column counts outweigh raw frequency
+    const score = (isConsistent ? 1_000_000 : 0) + total;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+// Helper: Quote a field when it contains the delimiter, quotes, line breaks or edge whitespace
+const formatCSVField = (value: string, delimiter: CSVDelimiter): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+/**
+ * Serializes rows of fields as RFC 4180 CSV, the inverse of parseCSV
+ * @param rows - Rows of field values
+ * @param delimiter - Field separator
+ * @returns CSV text with CRLF line endings
+ */
+export const stringifyCSV = (rows: string[][], delimiter: CSVDelimiter = ','): string =>
+  rows.map(row => row.map(field => formatCSVField(field, delimiter)).join(delimiter)).join('\r\n');
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cleanFieldValues,
+  getFieldEntries,
+  isWebUrl,
+  parseFieldValue,
+  parseSelectOptions,
+  parseUrl,
+  validateFieldName
+} from './customFields';
+import type { CustomField } from '../types/index';
+
+const fields: CustomField[] = [
+  { id: 'f-cost', name: 'Cost', type: 'number' },
+  { id: 'f-due', name: 'Due', type: 'date' },
+  { id: 'f-size', name: 'Size', type: 'select', options: ['Small', 'Large'] },
+  { id: 'f-owner', name: 'Owner', type: 'text' }
+];
+const [cost, due, size, owner] = fields;
+
+describe('parseFieldValue', () => {
+  it('should parse numbers', () => {
+    expect(parseFieldValue(cost, ' 12.5 ')).toEqual({ value: 12.5, error: null });
+    expect(parseFieldValue(cost, 'twelve').error).toBe('"twelve" is not a number');
+  });
+
+  it('should store dates as YYYY-MM-DD', () => {
+    expect(parseFieldValue(due, '2024-03-05').value).toBe('2024-03-05');
+    expect(parseFieldValue(due, 'March 5, 2024').value).toBe('2024-03-05');
+    expect(parseFieldValue(due, '2024-02-30').error).toBe('"2024-02-30" is not a date');
+  });
+
+  it('should match select options ignoring case', () => {
+    expect(parseFieldValue(size, 'large').value).toBe('Large');
+    expect(parseFieldValue(size, 'Medium').error).toBe('"Medium" is not one of the options');
+  });
+
+  it('should normalize text and treat blank input as no value', () => {
+    expect(parseFieldValue(owner, '  Ann   Lee ').value).toBe('Ann Lee');
+    expect(parseFieldValue(owner, '   ')).toEqual({ value: null, error: null });
+  });
+});
+
+describe('parseUrl', () => {
+  it('should accept web links and add a missing scheme', () => {
+    expect(parseUrl('http://example.com/a?b=1').value).toBe('http://example.com/a?b=1');
+    expect(parseUrl('example.com/page').value).toBe('https://example.com/page');
+  });
+
+  it('should reject other schemes and malformed links', () => {
+    expect(parseUrl('javascript:alert(1)').error).toBe('"javascript:alert(1)" is not a web link');
+    expect(parseUrl('http://').error).not.toBeNull();
+    expect(isWebUrl('javascript:alert(1)')).toBe(false);
+  });
+});
+
+describe('validateFieldName', () => {
+  it('should require a unique name', () => {
+    expect(validateFieldName(' ', fields)).toBe('Field name is required');
+    expect(validateFieldName('cost', fields)).toBe('A field named "cost" already exists');
+    expect(validateFieldName('Cost', fields, 'f-cost')).toBeNull();
+  });
+});
+
+describe('parseSelectOptions', () => {
+  it('should split, trim and dedupe options', () => {
+    expect(parseSelectOptions('Small, Large\nsmall,, XL')).toEqual(['Small', 'Large', 'XL']);
+  });
+});
+
+describe('cleanFieldValues', () => {
+  it('should drop values of deleted fields and removed options', () => {
+    expect(cleanFieldValues({ 'f-cost': 3, 'f-size': 'Large', 'f-gone': 'x' }, [cost, { ...size, options: ['Small'] }]))
+      .toEqual({ 'f-cost': 3 });
+    expect(cleanFieldValues({ 'f-gone': 'x' }, fields)).toBeUndefined();
+  });
+});
+
+describe('getFieldEntries', () => {
+  it('should list values in field order', () => {
+    expect(getFieldEntries({ 'f-owner': 'Ann', 'f-cost': 3 }, fields).map(entry => [entry.field.name, entry.value]))
+      .toEqual([['Cost', '3'], ['Owner', 'Ann']]);
+  });
+});
\ No newline at end of file
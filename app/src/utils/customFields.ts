@@ -0,0 +1,155 @@
+// Custom item fields
+// Projects define their own item fields (number, text, date or select). Items keep parsed values
+// by field ID; text typed into the editor or read from an imported column is parsed here first.
+import type { CustomField, CustomFieldType, CustomFieldValue, CustomFieldValues } from '../types/index';
+
+export const CUSTOM_FIELD_TYPES: Array<{ type: CustomFieldType; label: string }> = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'select', label: 'Select' }
+];
+
+const MAX_FIELD_NAME_LENGTH = 50;
+const MAX_TEXT_LENGTH = 500;
+
+// Parsed value (null when the input was empty) or the reason the input was rejected
+export interface FieldParseResult {
+  value: CustomFieldValue | null;
+  error: string | null;
+}
+
+const parsed = (value: CustomFieldValue | null): FieldParseResult => ({ value, error: null });
+const rejected = (error: string): FieldParseResult => ({ value: null, error });
+
+// Helper: YYYY-MM-DD for a calendar date
+const toISODate = (year: number, month: number, day: number): string =>
+  `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// Helper: Read a date as YYYY-MM-DD; ISO dates are taken as written, anything else as a local date
+const parseDate = (text: string): string | null => {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (iso) {
+    const [year, month, day] = iso.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? text : null;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : toISODate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+};
+
+/**
+ * Parses text into a value of a custom field
+ * @param field - Field the value is for
+ * @param text - Text typed by the user or read from an import
+ * @returns The value (null for empty text) or an error message
+ */
+export const parseFieldValue = (field: CustomField, text: string): FieldParseResult => {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) return parsed(null);
+
+  switch (field.type) {
+    case 'number': {
+      const number = Number(trimmed);
+      return Number.isFinite(number) ? parsed(number) : rejected(`"${trimmed}" is not a number`);
+    }
+    case 'date': {
+      const date = parseDate(trimmed);
+      return date ? parsed(date) : rejected(`"${trimmed}" is not a date`);
+    }
+    case 'select': {
+      const option = field.options?.find(entry => entry.toLowerCase() === trimmed.toLowerCase());
+      return option ? parsed(option) : rejected(`"${trimmed}" is not one of the options`);
+    }
+    case 'text': {
+      const normalized = trimmed.replace(/\s+/g, ' ');
+      return normalized.length <= MAX_TEXT_LENGTH
+        ? parsed(normalized)
+        : rejected(`Text must be ${MAX_TEXT_LENGTH} characters or less`);
+    }
+  }
+};
+
+/**
+ * Parses a link; a missing scheme is taken to be https
+ * @param text - Link typed by the user or read from an import
+ * @returns The normalized link (null for empty text) or an error message; only http and https links are accepted
+ */
+export const parseUrl = (text: string): FieldParseResult => {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) return parsed(null);
+
+  const withScheme = /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if ((url.protocol === 'http:' || url.protocol === 'https:') && url.hostname) return parsed(url.href);
+  } catch {
+    // Fall through to the error below
+  }
+  return rejected(`"${trimmed}" is not a web link`);
+};
+
+// Links from imported project files are only made clickable when they are web links
+export const isWebUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+/**
+ * Validates the name of a new or renamed custom field
+ * @param name - Proposed name
+ * @param fields - Fields of the project
+ * @param fieldId - Field being renamed, which may keep its own name
+ * @returns An error message, or null when the name can be used
+ */
+export const validateFieldName = (name: string, fields: CustomField[], fieldId?: string): string | null => {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) return 'Field name is required';
+  if (trimmed.length > MAX_FIELD_NAME_LENGTH) return `Field name must be ${MAX_FIELD_NAME_LENGTH} characters or less`;
+  if (fields.some(field => field.id !== fieldId && field.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `A field named "${trimmed}" already exists`;
+  }
+  return null;
+};
+
+/**
+ * Splits the options of a select field as typed in the field editor
+ * @param text - Options separated by commas or new lines
+ * @returns Trimmed options without blanks or case-insensitive repeats
+ */
+export const parseSelectOptions = (text: string): string[] => {
+  const options = text.split(/[,\n]/).map(option => option.trim()).filter(option => option.length > 0);
+  return options.filter((option, index) =>
+    options.findIndex(other => other.toLowerCase() === option.toLowerCase()) === index
+  );
+};
+
+/**
+ * Drops values of fields that no longer exist and select values that are no longer an option
+ * @param values - Field values of an item
+ * @param fields - Fields of the project
+ * @returns The remaining values, or undefined when none remain
+ */
+export const cleanFieldValues = (
+  values: CustomFieldValues | undefined,
+  fields: CustomField[]
+): CustomFieldValues | undefined => {
+  if (!values) return undefined;
+  const fieldsById = new Map(fields.map(field => [field.id, field]));
+  const entries = Object.entries(values).filter(([fieldId, value]) => {
+    const field = fieldsById.get(fieldId);
+    return field !== undefined && (field.type !== 'select' || (field.options ?? []).includes(String(value)));
+  });
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/**
+ * Lists an item's field values in the project's field order
+ * @param values - Field values of an item
+ * @param fields - Fields of the project
+ * @returns Each field that has a value, with the value as text
+ */
+export const getFieldEntries = (
+  values: CustomFieldValues | undefined,
+  fields: CustomField[]
+): Array<{ field: CustomField; value: string }> =>
+  values
+    ? fields.filter(field => values[field.id] !== undefined).map(field => ({ field, value: String(values[field.id]) }))
+    : [];
\ No newline at end of file
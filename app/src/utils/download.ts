@@ -0,0 +1,17 @@
+/**
+ * Saves text content as a file through a temporary download link
+ * @param data - File content
+ * @param filename - Suggested file name
+ * @param mimeType - MIME type of the content
+ */
+export const downloadFile = (data: string, filename: string, mimeType: string): void => {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
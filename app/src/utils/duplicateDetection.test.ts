@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { addItemLink, findDuplicates, MAX_FUZZY_ITEMS, removeItemLinks } from './duplicateDetection';
+import type { InputList } from '../types/index';
+
+// Test data helpers
+const createList = (id: string, contents: string[]): InputList => ({
+  id,
+  name: `List ${id}`,
+  items: contents.map((content, index) => ({ id: `${id}-${index}`, content, isUsed: false, tags: [] }))
+});
+
+const idsOf = (report: ReturnType<typeof findDuplicates>) =>
+  report.suggestions.map(group => group.members.map(member => member.itemId));
+
+describe('findDuplicates', () => {
+  const lists = [
+    createList('a', ['Dark mode toggle', 'Export to PDF', 'Colour picker']),
+    createList('b', ['dark-mode toggle', 'Color picker', 'Offline sync'])
+  ];
+
+  it('should group likely duplicates across lists', () => {
+    const report = findDuplicates(lists);
+
+    expect(idsOf(report)).toEqual([['a-0', 'b-0'], ['a-2', 'b-1']]);
+    expect(report.suggestions.map(group => group.score)).toEqual([100, 92]);
+    expect(report.suggestions[1].members[1]).toEqual({ itemId: 'b-1', listId: 'b', content: 'Color picker' });
+  });
+
+  it('should respect the threshold', () => {
+    expect(idsOf(findDuplicates(lists, [], 95))).toEqual([['a-0', 'b-0']]);
+  });
+
+  it('should find repeats within a single list', () => {
+    expect(idsOf(findDuplicates([createList('a', ['Alpha', 'Beta', 'ALPHA'])]))).toEqual([['a-0', 'a-2']]);
+  });
+
+  it('should stop suggesting linked items', () => {
+    const report = findDuplicates(lists, [['a-0', 'b-0']]);
+
+    expect(idsOf(report)).toEqual([['a-2', 'b-1']]);
+    expect(report.links.map(group => group.map(member => member.content))).toEqual([['Dark mode toggle', 'dark-mode toggle']]);
+    expect(report.byItem.get('a-0')).toEqual({ linkedIds: ['b-0'], suggestedIds: [] });
+    expect(report.byItem.get('b-1')).toEqual({ linkedIds: [], suggestedIds: ['a-2'] });
+  });
+
+  it('should suggest new items for an existing link', () => {
+    const report = findDuplicates([...lists, createList('c', ['Dark Mode Toggle'])], [['a-0', 'b-0']]);
+
+    expect(idsOf(report)[0]).toEqual(['a-0', 'b-0', 'c-0']);
+    expect(report.byItem.get('a-0')).toEqual({ linkedIds: ['b-0'], suggestedIds: ['c-0'] });
+  });
+
+  it('should ignore links to items that no longer exist', () => {
+    expect(findDuplicates(lists, [['a-1', 'deleted']]).links).toEqual([]);
+  });
+
+  it('should only match identical text in very large projects', () => {
+    const filler = Array.from({ length: MAX_FUZZY_ITEMS }, (_, i) => `Item ${i}`);
+    const report = findDuplicates([createList('a', ['Colour picker', 'Dark mode', ...filler]), createList('b', ['Color picker', 'dark mode'])]);
+
+    expect(idsOf(report)).toEqual([['a-1', 'b-1']]);
+  });
+});
+
+describe('item links', () => {
+  it('should merge groups that share an item', () => {
+    expect(addItemLink([['a', 'b'], ['c', 'd'], ['e', 'f']], ['b', 'c'])).toEqual([['e', 'f'], ['a', 'b', 'c', 'd']]);
+  });
+
+  it('should drop groups left with a single item', () => {
+    expect(removeItemLinks([['a', 'b'], ['c', 'd', 'e']], ['a', 'c'])).toEqual([['d', 'e']]);
+  });
+});
\ No newline at end of file
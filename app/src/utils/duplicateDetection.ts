@@ -0,0 +1,190 @@
+// Duplicate detection across input lists
+// Items are compared by normalized text similarity and likely duplicates are grouped so they
+// can be confirmed as links. Linked items stand for one idea: adding any of them to the main
+// list uses them all (see the reducer), and they are no longer suggested.
+import type { InputList } from '../types/index';
+import { normalizeText, textSimilarity } from './fuzzyMatch';
+
+// Similarity (0-100) at which two items are suggested as duplicates
+export const DEFAULT_DUPLICATE_THRESHOLD = 80;
+
+// Fuzzy comparison is quadratic; beyond this many items only identical normalized text is matched
+export const MAX_FUZZY_ITEMS = 2000;
+
+export interface DuplicateMember {
+  itemId: string;
+  listId: string;
+  content: string;
+}
+
+export interface DuplicateGroup {
+  members: DuplicateMember[]; // In list order
+  score: number; // Weakest similarity holding the group together
+}
+
+export interface DuplicateReport {
+  suggestions: DuplicateGroup[]; // Likely duplicates that still need confirming
+  links: DuplicateMember[][]; // Confirmed links
+  byItem: Map<string, { linkedIds: string[]; suggestedIds: string[] }>; // Other members, per item
+}
+
+interface Entry extends DuplicateMember {
+  key: string;
+  letters: Map<string, number>;
+}
+
+// Helper: Character counts, used to rule out dissimilar pairs before computing edit distance
+const countLetters = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+  return counts;
+};
+
+// Helper: Lower bound on the edit distance between two strings from their character counts
+const letterDistance = (a: Map<string, number>, b: Map<string, number>): number => {
+  let surplus = 0;
+  let deficit = 0;
+  a.forEach((count, char) => { surplus += Math.max(0, count - (b.get(char) ?? 0)); });
+  b.forEach((count, char) => { deficit += Math.max(0, count - (a.get(char) ?? 0)); });
+  return Math.max(surplus, deficit);
+};
+
+/**
+ * Finds likely duplicate items across (and within) input lists
+ * @param inputLists - Input lists to scan
+ * @param itemLinks - Confirmed link groups of item IDs
+ * @param threshold - Minimum similarity (0-100) for a suggestion
+ * @returns Suggested groups, confirmed links and a per-item lookup of both
+ */
+export const findDuplicates = (
+  inputLists: InputList[],
+  itemLinks: string[][] = [],
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicateReport => {
+  const entries: Entry[] = inputLists.flatMap(list => list.items.map(item => {
+    const key = normalizeText(item.content);
+    return { itemId: item.id, listId: list.id, content: item.content, key, letters: countLetters(key) };
+  })).filter(entry => entry.key);
+  const indexById = new Map(entries.map((entry, index) => [entry.itemId, index]));
+
+  // Union-find over entries; each root tracks the weakest suggested edge in its group
+  const parent = entries.map((_, index) => index);
+  const weakest = entries.map(() => Infinity);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const union = (a: number, b: number, score: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      parent[rootB] = rootA;
+      weakest[rootA] = Math.min(weakest[rootA], weakest[rootB]);
+    }
+    weakest[rootA] = Math.min(weakest[rootA], score);
+  };
+
+  // Linked items join their group without counting as a suggestion
+  const links = itemLinks
+    .map(group => group.filter(id => indexById.has(id)))
+    .filter(group => group.length > 1);
+  const linkOf = new Map<string, number>();
+  links.forEach((group, linkIndex) => {
+    group.forEach(id => {
+      linkOf.set(id, linkIndex);
+      union(indexById.get(group[0])!, indexById.get(id)!, Infinity);
+    });
+  });
+  const isLinkedPair = (a: Entry, b: Entry) =>
+    linkOf.has(a.itemId) && linkOf.get(a.itemId) === linkOf.get(b.itemId);
+
+  // Identical normalized text
+  const firstByKey = new Map<string, number>();
+  entries.forEach((entry, index) => {
+    const first = firstByKey.get(entry.key);
+    if (first === undefined) {
+      firstByKey.set(entry.key, index);
+    } else if (!isLinkedPair(entries[first], entry)) {
+      union(first, index, 100);
+    }
+  });
+
+  // Similar text: only pairs whose lengths allow reaching the threshold are compared
+  if (entries.length <= MAX_FUZZY_ITEMS) {
+    const byLength = entries.map((_, index) => index).sort((a, b) => entries[a].key.length - entries[b].key.length);
+    byLength.forEach((a, position) => {
+      const shorter = entries[a];
+      for (let next = position + 1; next < byLength.length; next++) {
+        const longer = entries[byLength[next]];
+        if (shorter.key.length * 100 < longer.key.length * threshold) break;
+        if (shorter.key === longer.key || find(a) === find(byLength[next])) continue;
+        if (100 * (1 - letterDistance(shorter.letters, longer.letters) / longer.key.length) < threshold) continue;
+
+        const score = textSimilarity(shorter.key, longer.key, threshold);
+        if (score > 0) union(a, byLength[next], score);
+      }
+    });
+  }
+
+  // Collect groups in list order
+  const groups = new Map<number, number[]>();
+  entries.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  });
+
+  const suggestions: DuplicateGroup[] = [];
+  groups.forEach((members, root) => {
+    if (members.length > 1 && weakest[root] !== Infinity) {
+      suggestions.push({
+        members: members.map(index => { const { itemId, listId, content } = entries[index]; return { itemId, listId, content }; }),
+        score: weakest[root]
+      });
+    }
+  });
+
+  const toMember = (id: string): DuplicateMember => {
+    const { itemId, listId, content } = entries[indexById.get(id)!];
+    return { itemId, listId, content };
+  };
+  const byItem: DuplicateReport['byItem'] = new Map();
+  links.forEach(group => group.forEach(id => {
+    byItem.set(id, { linkedIds: group.filter(other => other !== id), suggestedIds: [] });
+  }));
+  suggestions.forEach(group => group.members.forEach(({ itemId }) => {
+    const info = byItem.get(itemId) ?? { linkedIds: [], suggestedIds: [] };
+    info.suggestedIds = group.members
+      .map(member => member.itemId)
+      .filter(other => other !== itemId && !info.linkedIds.includes(other));
+    byItem.set(itemId, info);
+  }));
+
+  return { suggestions, links: links.map(group => group.map(toMember)), byItem };
+};
+
+/**
+ * Merges new links into the existing link groups
+ * @param itemLinks - Existing link groups
+ * @param itemIds - Items to link together
+ * @returns Link groups where every group touching itemIds is merged into one
+ */
+export const addItemLink = (itemLinks: string[][], itemIds: string[]): string[][] => {
+  const touching = itemLinks.filter(group => group.some(id => itemIds.includes(id)));
+  const merged = [...new Set([...touching.flat(), ...itemIds])];
+  const rest = itemLinks.filter(group => !touching.includes(group));
+  return merged.length > 1 ? [...rest, merged] : rest;
+};
+
+/**
+ * Removes items from their link groups
+ * @param itemLinks - Existing link groups
+ * @param itemIds - Items to unlink
+ * @returns Link groups without those items; groups left with one item are dropped
+ */
+export const removeItemLinks = (itemLinks: string[][], itemIds: string[]): string[][] =>
+  itemLinks
+    .map(group => group.filter(id => !itemIds.includes(id)))
+    .filter(group => group.length > 1);
\ No newline at end of file
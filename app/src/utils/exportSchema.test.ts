@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest';
+import { upgradeExport, formatSchemaIssues, CURRENT_EXPORT_VERSION } from './exportSchema';
+
+// Test data helpers
+const createExport = (version: string | undefined, overrides: Record<string, unknown> = {}) => ({
+  version,
+  exportedAt: '2024-01-15T10:00:00.000Z',
+  project: {
+    id: 'project-1',
+    name: 'Test Project',
+    createdAt: '2024-01-01T10:00:00.000Z',
+    modifiedAt: '2024-01-15T10:00:00.000Z',
+    inputLists: [
+      {
+        id: 'list-1',
+        name: 'List 1',
+        items: [
+          { id: 'item-1', content: 'Item 1', isUsed: true, tags: [] },
+          { id: 'item-2', content: 'Item 2', isUsed: true, tags: ['tag-1'] }
+        ]
+      }
+    ],
+    mainList: [
+      { id: 'item-1', content: 'Item 1', sourceListId: 'list-1', order: 1, tags: [] },
+      { id: 'item-2', content: 'Item 2', sourceListId: 'list-1', order: 2, tags: ['tag-1'] }
+    ],
+    ...overrides
+  },
+  tagPool: []
+});
+
+describe('upgradeExport', () => {
+  it('should accept a current-format export unchanged', () => {
+    const data = createExport(CURRENT_EXPORT_VERSION);
+    const result = upgradeExport(data);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toBe(data);
+    expect(result.fromVersion).toBe(CURRENT_EXPORT_VERSION);
+  });
+
+  it('should migrate 1.0 exports by renumbering main list order', () => {
+    const data = createExport('1.0', {
+      mainList: [
+        { id: 'item-2', content: 'Item 2', sourceListId: 'list-1', order: 7, tags: [] },
+        { id: 'item-1', content: 'Item 1', sourceListId: 'list-1', order: 3, tags: [] }
+      ]
+    });
+    const { tagPool, ...withoutTagPool } = data;
+    expect(tagPool).toEqual([]);
+
+    const result = upgradeExport(withoutTagPool);
+
+    expect(result.success).toBe(true);
+    expect(result.fromVersion).toBe('1.0');
+    expect(result.data!.version).toBe(CURRENT_EXPORT_VERSION);
+    expect(result.data!.tagPool).toEqual([]);
+    const mainList = (result.data!.project as { mainList: Array<{ id: string; order: number }> }).mainList;
+    expect(mainList.map(item => [item.id, item.order])).toEqual([['item-1', 1], ['item-2', 2]]);
+  });
+
+  it('should check the fields added in 1.2 once a 1.1 export is upgraded', () => {
+    const upgraded = upgradeExport(createExport('1.1', { tiers: [{ id: 'tier-s', name: 'S', color: '#ef4444' }] }));
+    expect(upgraded.success).toBe(true);
+    expect(upgraded.fromVersion).toBe('1.1');
+    expect(upgraded.data!.version).toBe('1.2');
+
+    const invalid = upgradeExport(createExport('1.1', { tiers: ['S'] }));
+    expect(invalid.error).toBe('Invalid project data after upgrading to format 1.2:\nproject.tiers[0]: Expected a tier object');
+  });
+
+  it('should treat files without a version as 1.0', () => {
+    const result = upgradeExport(createExport(undefined));
+
+    expect(result.success).toBe(true);
+    expect(result.fromVersion).toBe('1.0');
+  });
+
+  it('should reject files newer than the supported format', () => {
+    const result = upgradeExport(createExport('2.0'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('export format 2.0');
+    expect(result.error).toContain(`newest supported format (${CURRENT_EXPORT_VERSION})`);
+  });
+
+  it('should reject unknown older or malformed versions', () => {
+    expect(upgradeExport(createExport('0.9')).error).toBe('Unsupported export format version 0.9');
+    expect(upgradeExport(createExport('latest')).error).toBe('Unrecognized export format version "latest"');
+  });
+
+  it('should report the path of invalid input list items', () => {
+    const data = createExport('1.1');
+    const items = data.project.inputLists[0].items as unknown[];
+    items[1] = { id: 'item-2', content: 42, isUsed: 'yes', tags: [null] };
+
+    const result = upgradeExport(data);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      { path: 'project.inputLists[0].items[1].content', message: 'Expected a string' },
+      { path: 'project.inputLists[0].items[1].isUsed', message: 'Expected a boolean' },
+      { path: 'project.inputLists[0].items[1].tags[0]', message: 'Expected a tag ID string' }
+    ]);
+    expect(result.error).toContain('project.inputLists[0].items[1].content: Expected a string');
+  });
+
+  it('should require continuous main list order in the current format', () => {
+    const data = createExport('1.1');
+    data.project.mainList[1].order = 3;
+
+    const result = upgradeExport(data);
+
+    expect(result.success).toBe(false);
+    expect(result.errors![0].path).toBe('project.mainList[1].order');
+    expect(result.errors![0].message).toContain('Expected order 2');
+  });
+
+  it('should reject duplicate IDs', () => {
+    const data = createExport('1.1');
+    data.project.mainList[1].id = 'item-1';
+
+    const result = upgradeExport(data);
+
+    expect(result.errors).toEqual([{ path: 'project.mainList[1].id', message: 'Duplicate item ID "item-1"' }]);
+  });
+
+  it('should warn about main list items whose source list no longer exists', () => {
+    const data = createExport('1.1');
+    data.project.mainList[0].sourceListId = 'deleted-list';
+
+    const result = upgradeExport(data);
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      { path: 'project.mainList[0].sourceListId', message: 'References unknown input list "deleted-list"' }
+    ]);
+  });
+
+  it('should validate a saved comparison session', () => {
+    const valid = createExport('1.2', {
+      comparisonSession: { sortedIds: ['item-1'], pendingIds: ['item-2'], low: 0, high: 1, comparisons: 0 }
+    });
+    expect(upgradeExport(valid).success).toBe(true);
+
+    const invalid = createExport('1.2', { comparisonSession: { sortedIds: 'item-1', pendingIds: [], low: -1, high: 1, comparisons: 0 } });
+    expect(upgradeExport(invalid).errors).toEqual([
+      { path: 'project.comparisonSession.sortedIds', message: 'Expected an array of item IDs' },
+      { path: 'project.comparisonSession.low', message: 'Expected a non-negative integer' }
+    ]);
+  });
+
+  it('should validate output lists', () => {
+    const outputLists = [
+      { id: 'now', name: 'Now', items: [] },
+      { id: 'later', name: 'Later', items: [{ id: 'item-3', content: 'Item 3', sourceListId: 'list-1', order: 1, tags: [] }] }
+    ];
+    expect(upgradeExport(createExport('1.2', { outputLists, activeOutputListId: 'now' })).success).toBe(true);
+
+    const invalid = createExport('1.2', {
+      outputLists: [outputLists[0], { id: 'later', name: 'Later', items: [{ id: 'item-1', content: 'Item 1', sourceListId: 'list-1', order: 2, tags: [] }] }],
+      activeOutputListId: 'gone'
+    });
+    expect(upgradeExport(invalid).errors).toEqual([
+      { path: 'project.outputLists[1].items[0].id', message: 'Duplicate item ID "item-1"' },
+      { path: 'project.outputLists[1].items[0].order', message: 'Expected order 1 (ranked list order must run 1..1 without gaps or duplicates), found 2' },
+      { path: 'project.activeOutputListId', message: 'Expected the ID of one of the output lists' }
+    ]);
+  });
+
+  it('should validate tiers', () => {
+    expect(upgradeExport(createExport('1.2', { tiers: [{ id: 'tier-s', name: 'S', color: '#ef4444' }] })).success).toBe(true);
+
+    const invalid = createExport('1.2', { tiers: [{ id: 'tier-s', name: '', color: '#ef4444' }, 'A'] });
+    expect(upgradeExport(invalid).errors).toEqual([
+      { path: 'project.tiers[0].name', message: 'Missing tier name' },
+      { path: 'project.tiers[1]', message: 'Expected a tier object' }
+    ]);
+  });
+
+  it('should validate custom fields and item details', () => {
+    const customFields = [{ id: 'f-size', name: 'Size', type: 'select', options: ['S', 'L'] }];
+    const mainList = [
+      { id: 'item-1', content: 'Item 1', sourceListId: 'list-1', order: 1, tags: [], url: 'https://example.com', fields: { 'f-size': 'S' } },
+      { id: 'item-2', content: 'Item 2', sourceListId: 'list-1', order: 2, tags: ['tag-1'], fields: { 'f-size': ['L'] } }
+    ];
+    expect(upgradeExport(createExport('1.2', { customFields, mainList: mainList.slice(0, 1) })).success).toBe(true);
+
+    const invalid = createExport('1.2', { customFields: [{ id: 'f-x', name: 'X', type: 'color' }], mainList });
+    expect(upgradeExport(invalid).errors).toEqual([
+      { path: 'project.mainList[1].fields.f-size', message: 'Expected a string or number' },
+      { path: 'project.customFields[0].type', message: 'Expected number, text, date or select' }
+    ]);
+  });
+
+  it('should validate saved views', () => {
+    expect(upgradeExport(createExport('1.2', { savedViews: [{ id: 'v-1', name: 'Top', query: 'rank<=10' }] })).success).toBe(true);
+
+    const invalid = createExport('1.2', { savedViews: [{ id: 'v-1', name: 'Top', query: '' }] });
+    expect(upgradeExport(invalid).errors).toEqual([
+      { path: 'project.savedViews[0].query', message: 'Missing field query' }
+    ]);
+  });
+
+  it('should validate duplicate links', () => {
+    expect(upgradeExport(createExport('1.2', { itemLinks: [['item-1', 'item-2']] })).success).toBe(true);
+
+    const invalid = createExport('1.2', { itemLinks: [['item-1'], 'item-2'] });
+    expect(upgradeExport(invalid).errors).toEqual([
+      { path: 'project.itemLinks[1]', message: 'Expected an array of item IDs' }
+    ]);
+  });
+
+  it('should report missing top-level fields', () => {
+    const result = upgradeExport({ version: '1.1', project: { name: 'Test' } });
+
+    expect(result.success).toBe(false);
+    expect(result.errors!.map(error => error.path)).toEqual([
+      'project.id',
+      'project.createdAt',
+      'project.modifiedAt',
+      'project.inputLists',
+      'project.mainList',
+      'tagPool'
+    ]);
+  });
+
+  it('should reject non-object content', () => {
+    expect(upgradeExport([]).error).toContain('Missing project data');
+    expect(upgradeExport(null).success).toBe(false);
+  });
+});
+
+describe('formatSchemaIssues', () => {
+  it('should format issues as path: message lines and truncate long lists', () => {
+    const issues = Array.from({ length: 12 }, (_, i) => ({ path: `project.mainList[${i}].id`, message: 'Missing item ID' }));
+
+    const lines = formatSchemaIssues(issues);
+
+    expect(lines).toHaveLength(11);
+    expect(lines[0]).toBe('project.mainList[0].id: Missing item ID');
+    expect(lines[10]).toBe('...and 2 more');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,472 @@
+// Versioned schema for project export files
+// Each format version has a validator; every version except the newest also has a
+// migration that upgrades its data to the next version. Imports validate against the
+// file's own version, migrate step by step to the current version, then re-validate.
+
+export const CURRENT_EXPORT_VERSION = '1.2';
+
+// Files written before the version field was checked are treated as the first format
+const DEFAULT_EXPORT_VERSION = '1.0';
+
+const MAX_REPORTED_ERRORS = 10;
+
+export interface SchemaIssue {
+  path: string; // e.g. project.inputLists[0].items[2].content
+  message: string;
+}
+
+export interface SchemaUpgradeResult {
+  success: boolean;
+  data?: Record<string, unknown>; // Export envelope in the current format
+  error?: string;
+  errors?: SchemaIssue[];
+  warnings?: SchemaIssue[];
+  fromVersion?: string;
+}
+
+interface ValidationOutcome {
+  errors: SchemaIssue[];
+  warnings: SchemaIssue[];
+}
+
+interface ExportSchema {
+  version: string;
+  validate: (data: Record<string, unknown>) => ValidationOutcome;
+  migrate?: (data: Record<string, unknown>) => Record<string, unknown>; // Upgrades to the next version
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isValidDate = (value: unknown): boolean =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+// Helper: Validate a tag ID array shared by input and main list items
+const checkTagIds = (tags: unknown, path: string, errors: SchemaIssue[]) => {
+  if (!Array.isArray(tags)) {
+    errors.push({ path, message: 'Expected an array of tag IDs' });
+    return;
+  }
+  tags.forEach((tagId, index) => {
+    if (typeof tagId !== 'string') {
+      errors.push({ path: `${path}[${index}]`, message: 'Expected a tag ID string' });
+    }
+  });
+};
+
+// Helper: Validate an optional string field (e.g. item notes)
+const checkOptionalString = (value: unknown, path: string, errors: SchemaIssue[]) => {
+  if (value !== undefined && typeof value !== 'string') {
+    errors.push({ path, message: 'Expected a string' });
+  }
+};
+
+// Helper: Validate an item's custom field values (optional; values of unknown fields are dropped on edit)
+const checkFieldValues = (fields: unknown, path: string, errors: SchemaIssue[]) => {
+  if (fields === undefined) return;
+  if (!isObject(fields)) {
+    errors.push({ path, message: 'Expected an object of field values' });
+    return;
+  }
+  Object.entries(fields).forEach(([fieldId, value]) => {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      errors.push({ path: `${path}.${fieldId}`, message: 'Expected a string or number' });
+    }
+  });
+};
+
+// Helper: Validate the project's custom field definitions (optional)
+const checkCustomFields = (customFields: unknown, path: string, errors: SchemaIssue[]) => {
+  if (customFields === undefined) return;
+  if (!Array.isArray(customFields)) {
+    errors.push({ path, message: 'Expected an array of custom fields' });
+    return;
+  }
+  customFields.forEach((field, index) => {
+    const fieldPath = `${path}[${index}]`;
+    if (!isObject(field)) {
+      errors.push({ path: fieldPath, message: 'Expected a custom field object' });
+      return;
+    }
+    for (const key of ['id', 'name'] as const) {
+      if (!isNonEmptyString(field[key])) errors.push({ path: `${fieldPath}.${key}`, message: `Missing field ${key}` });
+    }
+    if (!['number', 'text', 'date', 'select'].includes(field.type as string)) {
+      errors.push({ path: `${fieldPath}.type`, message: 'Expected number, text, date or select' });
+    }
+    if (field.options !== undefined && (!Array.isArray(field.options) || field.options.some(option => typeof option !== 'string'))) {
+      errors.push({ path: `${fieldPath}.options`, message: 'Expected an array of strings' });
+    }
+  });
+};
+
+// Helper: Validate the project's saved views (optional; queries are parsed when a view is chosen)
+const checkSavedViews = (savedViews: unknown, path: string, errors: SchemaIssue[]) => {
+  if (savedViews === undefined) return;
+  if (!Array.isArray(savedViews)) {
+    errors.push({ path, message: 'Expected an array of saved views' });
+    return;
+  }
+  savedViews.forEach((view, index) => {
+    const viewPath = `${path}[${index}]`;
+    if (!isObject(view)) {
+      errors.push({ path: viewPath, message: 'Expected a saved view object' });
+      return;
+    }
+    for (const key of ['id', 'name', 'query'] as const) {
+      if (!isNonEmptyString(view[key])) errors.push({ path: `${viewPath}.${key}`, message: `Missing field ${key}` });
+    }
+  });
+};
+
+// Helper: Validate a saved comparison session (optional; item references are reconciled on use)
+const checkComparisonSession = (session: unknown, path: string, errors: SchemaIssue[]) => {
+  if (session === undefined) return;
+  if (!isObject(session)) {
+    errors.push({ path, message: 'Expected a comparison session object' });
+    return;
+  }
+  for (const field of ['sortedIds', 'pendingIds'] as const) {
+    const ids = session[field];
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      errors.push({ path: `${path}.${field}`, message: 'Expected an array of item IDs' });
+    }
+  }
+  for (const field of ['low', 'high', 'comparisons'] as const) {
+    const value = session[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      errors.push({ path: `${path}.${field}`, message: 'Expected a non-negative integer' });
+    }
+  }
+};
+
+// Helper: Validate confirmed duplicate links (optional; groups of item IDs)
+const checkItemLinks = (itemLinks: unknown, path: string, errors: SchemaIssue[]) => {
+  if (itemLinks === undefined) return;
+  if (!Array.isArray(itemLinks)) {
+    errors.push({ path, message: 'Expected an array of item ID groups' });
+    return;
+  }
+  itemLinks.forEach((group, index) => {
+    if (!Array.isArray(group) || group.some(id => typeof id !== 'string')) {
+      errors.push({ path: `${path}[${index}]`, message: 'Expected an array of item IDs' });
+    }
+  });
+};
+
+// Helper: Validate tier list mode tiers (optional; items with an unknown tier are shown as unsorted)
+const checkTiers = (tiers: unknown, path: string, errors: SchemaIssue[]) => {
+  if (tiers === undefined) return;
+  if (!Array.isArray(tiers)) {
+    errors.push({ path, message: 'Expected an array of tiers' });
+    return;
+  }
+  tiers.forEach((tier, index) => {
+    const tierPath = `${path}[${index}]`;
+    if (!isObject(tier)) {
+      errors.push({ path: tierPath, message: 'Expected a tier object' });
+      return;
+    }
+    for (const field of ['id', 'name', 'color'] as const) {
+      if (!isNonEmptyString(tier[field])) errors.push({ path: `${tierPath}.${field}`, message: `Missing tier ${field}` });
+    }
+  });
+};
+
+interface ProjectCheckOptions {
+  requireContinuousOrder: boolean;
+  requireTagPool: boolean;
+  checkFeatures: boolean; // Output lists, comparison sessions, duplicate links, tiers, item details, views (1.2)
+}
+
+// Helper: Deep-check the project payload shared by all 1.x formats
+const checkProject = (data: Json, options: ProjectCheckOptions): ValidationOutcome => {
+  const errors: SchemaIssue[] = [];
+  const warnings: SchemaIssue[] = [];
+
+  if (!isObject(data.project)) {
+    errors.push({ path: 'project', message: 'Missing project data' });
+    return { errors, warnings };
+  }
+  const project = data.project;
+
+  if (!isNonEmptyString(project.id)) errors.push({ path: 'project.id', message: 'Missing project ID' });
+  if (!isNonEmptyString(project.name)) errors.push({ path: 'project.name', message: 'Missing project name' });
+  for (const field of ['createdAt', 'modifiedAt'] as const) {
+    if (project[field] === undefined) {
+      errors.push({ path: `project.${field}`, message: `Missing ${field}` });
+    } else if (!isValidDate(project[field])) {
+      errors.push({ path: `project.${field}`, message: 'Expected an ISO date string' });
+    }
+  }
+
+  const listIds = new Set<string>();
+  if (!Array.isArray(project.inputLists)) {
+    errors.push({ path: 'project.inputLists', message: 'Invalid inputLists: expected an array' });
+  } else {
+    project.inputLists.forEach((list: unknown, listIndex) => {
+      const listPath = `project.inputLists[${listIndex}]`;
+      if (!isObject(list)) {
+        errors.push({ path: listPath, message: 'Expected an input list object' });
+        return;
+      }
+      if (!isNonEmptyString(list.id)) {
+        errors.push({ path: `${listPath}.id`, message: 'Missing list ID' });
+      } else if (listIds.has(list.id)) {
+        errors.push({ path: `${listPath}.id`, message: `Duplicate list ID "${list.id}"` });
+      } else {
+        listIds.add(list.id);
+      }
+      if (typeof list.name !== 'string') errors.push({ path: `${listPath}.name`, message: 'Expected a string' });
+
+      if (!Array.isArray(list.items)) {
+        errors.push({ path: `${listPath}.items`, message: 'Expected an array' });
+        return;
+      }
+      const itemIds = new Set<string>();
+      list.items.forEach((item: unknown, itemIndex) => {
+        const itemPath = `${listPath}.items[${itemIndex}]`;
+        if (!isObject(item)) {
+          errors.push({ path: itemPath, message: 'Expected an item object' });
+          return;
+        }
+        if (!isNonEmptyString(item.id)) {
+          errors.push({ path: `${itemPath}.id`, message: 'Missing item ID' });
+        } else if (itemIds.has(item.id)) {
+          errors.push({ path: `${itemPath}.id`, message: `Duplicate item ID "${item.id}"` });
+        } else {
+          itemIds.add(item.id);
+        }
+        if (typeof item.content !== 'string') errors.push({ path: `${itemPath}.content`, message: 'Expected a string' });
+        if (typeof item.isUsed !== 'boolean') errors.push({ path: `${itemPath}.isUsed`, message: 'Expected a boolean' });
+        checkTagIds(item.tags, `${itemPath}.tags`, errors);
+        if (options.checkFeatures) {
+          checkOptionalString(item.notes, `${itemPath}.notes`, errors);
+          checkOptionalString(item.url, `${itemPath}.url`, errors);
+          checkFieldValues(item.fields, `${itemPath}.fields`, errors);
+        }
+      });
+    });
+  }
+
+  // Ranked items of every output list; an item can be ranked in only one of them
+  const rankedIds = new Set<string>();
+  const checkRankedItems = (items: unknown[], path: string) => {
+    const orders: Array<{ order: number; path: string }> = [];
+
+    items.forEach((item: unknown, index) => {
+      const itemPath = `${path}[${index}]`;
+      if (!isObject(item)) {
+        errors.push({ path: itemPath, message: 'Expected an item object' });
+        return;
+      }
+      if (!isNonEmptyString(item.id)) {
+        errors.push({ path: `${itemPath}.id`, message: 'Missing item ID' });
+      } else if (rankedIds.has(item.id)) {
+        errors.push({ path: `${itemPath}.id`, message: `Duplicate item ID "${item.id}"` });
+      } else {
+        rankedIds.add(item.id);
+      }
+      if (typeof item.content !== 'string') errors.push({ path: `${itemPath}.content`, message: 'Expected a string' });
+      checkTagIds(item.tags, `${itemPath}.tags`, errors);
+      if (options.checkFeatures) {
+        checkOptionalString(item.notes, `${itemPath}.notes`, errors);
+        checkOptionalString(item.url, `${itemPath}.url`, errors);
+        checkFieldValues(item.fields, `${itemPath}.fields`, errors);
+        checkOptionalString(item.tierId, `${itemPath}.tierId`, errors);
+      }
+
+      if (!isNonEmptyString(item.sourceListId)) {
+        errors.push({ path: `${itemPath}.sourceListId`, message: 'Missing source list ID' });
+      } else if (Array.isArray(project.inputLists) && !listIds.has(item.sourceListId)) {
+        // Deleting an input list keeps its ranked items, so a dangling reference is not fatal
+        warnings.push({ path: `${itemPath}.sourceListId`, message: `References unknown input list "${item.sourceListId}"` });
+      }
+
+      if (typeof item.order !== 'number' || !Number.isFinite(item.order)) {
+        errors.push({ path: `${itemPath}.order`, message: 'Expected a number' });
+      } else {
+        orders.push({ order: item.order, path: `${itemPath}.order` });
+      }
+    });
+
+    if (options.requireContinuousOrder) {
+      // Orders must be exactly 1..n; report the first position where the sequence breaks
+      const sorted = [...orders].sort((a, b) => a.order - b.order);
+      const breakIndex = sorted.findIndex((entry, index) => entry.order !== index + 1);
+      if (breakIndex !== -1) {
+        errors.push({
+          path: sorted[breakIndex].path,
+          message: `Expected order ${breakIndex + 1} (ranked list order must run 1..${orders.length} without gaps or duplicates), found ${sorted[breakIndex].order}`
+        });
+      }
+    }
+  };
+
+  if (!Array.isArray(project.mainList)) {
+    errors.push({ path: 'project.mainList', message: 'Invalid mainList: expected an array' });
+  } else {
+    checkRankedItems(project.mainList, 'project.mainList');
+  }
+
+  if (options.checkFeatures && project.outputLists !== undefined) {
+    if (!Array.isArray(project.outputLists)) {
+      errors.push({ path: 'project.outputLists', message: 'Expected an array of output lists' });
+    } else {
+      project.outputLists.forEach((list: unknown, listIndex) => {
+        const listPath = `project.outputLists[${listIndex}]`;
+        if (!isObject(list)) {
+          errors.push({ path: listPath, message: 'Expected an output list object' });
+          return;
+        }
+        if (!isNonEmptyString(list.id)) errors.push({ path: `${listPath}.id`, message: 'Missing list ID' });
+        if (typeof list.name !== 'string') errors.push({ path: `${listPath}.name`, message: 'Expected a string' });
+        if (!Array.isArray(list.items)) {
+          errors.push({ path: `${listPath}.items`, message: 'Expected an array' });
+        } else {
+          checkRankedItems(list.items, `${listPath}.items`);
+        }
+        checkComparisonSession(list.comparisonSession, `${listPath}.comparisonSession`, errors);
+      });
+      if (!project.outputLists.some(list => isObject(list) && list.id === project.activeOutputListId)) {
+        errors.push({ path: 'project.activeOutputListId', message: 'Expected the ID of one of the output lists' });
+      }
+    }
+  }
+
+  if (options.checkFeatures) {
+    checkComparisonSession(project.comparisonSession, 'project.comparisonSession', errors);
+    checkItemLinks(project.itemLinks, 'project.itemLinks', errors);
+    checkTiers(project.tiers, 'project.tiers', errors);
+    checkCustomFields(project.customFields, 'project.customFields', errors);
+    checkSavedViews(project.savedViews, 'project.savedViews', errors);
+  }
+
+  if (data.tagPool === undefined) {
+    if (options.requireTagPool) errors.push({ path: 'tagPool', message: 'Missing tag pool' });
+  } else if (!Array.isArray(data.tagPool)) {
+    errors.push({ path: 'tagPool', message: 'Expected an array' });
+  }
+
+  return { errors, warnings };
+};
+
+// 1.0 → 1.1: main list order had gaps after removals; renumber it 1..n and always include a tag pool
+const migrateV1_0ToV1_1 = (data: Json): Json => {
+  const project = data.project as Json;
+  const mainList = project.mainList as Array<Json & { order: number }>;
+
+  return {
+    ...data,
+    version: '1.1',
+    project: {
+      ...project,
+      mainList: [...mainList]
+        .sort((a, b) => a.order - b.order)
+        .map((item, index) => ({ ...item, order: index + 1 }))
+    },
+    tagPool: data.tagPool ?? []
+  };
+};
+
+// 1.1 → 1.2: the new project and item fields are all optional, so 1.1 data is valid 1.2 data
+const migrateV1_1ToV1_2 = (data: Json): Json => ({ ...data, version: '1.2' });
+
+// Registry of supported formats, oldest first
+const EXPORT_SCHEMAS: ExportSchema[] = [
+  {
+    version: '1.0',
+    validate: data => checkProject(data, { requireContinuousOrder: false, requireTagPool: false, checkFeatures: false }),
+    migrate: migrateV1_0ToV1_1
+  },
+  {
+    version: '1.1',
+    validate: data => checkProject(data, { requireContinuousOrder: true, requireTagPool: true, checkFeatures: false }),
+    migrate: migrateV1_1ToV1_2
+  },
+  {
+    version: '1.2',
+    validate: data => checkProject(data, { requireContinuousOrder: true, requireTagPool: true, checkFeatures: true })
+  }
+];
+
+// Helper: Compare dotted version strings numerically (1.10 > 1.9)
+const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Formats schema issues as one "path: message" line each, truncating long lists
+ * @param issues - Issues to format
+ * @returns Human-readable lines
+ */
+export const formatSchemaIssues = (issues: SchemaIssue[]): string[] => {
+  const lines = issues
+    .slice(0, MAX_REPORTED_ERRORS)
+    .map(issue => `${issue.path}: ${issue.message}`);
+  if (issues.length > MAX_REPORTED_ERRORS) {
+    lines.push(`...and ${issues.length - MAX_REPORTED_ERRORS} more`);
+  }
+  return lines;
+};
+
+/**
+ * Validates an export file against its declared format and upgrades it to the current one
+ * @param data - Parsed JSON content of the export file
+ * @returns The envelope in the current format, or an error with the path of every problem found
+ */
+export const upgradeExport = (data: unknown): SchemaUpgradeResult => {
+  if (!isObject(data)) {
+    return {
+      success: false,
+      error: 'Invalid project data:\nproject: Missing project data',
+      errors: [{ path: 'project', message: 'Missing project data' }]
+    };
+  }
+
+  const version = data.version === undefined ? DEFAULT_EXPORT_VERSION : String(data.version);
+  if (!/^\d+(\.\d+)*$/.test(version)) {
+    return { success: false, error: `Unrecognized export format version "${version}"` };
+  }
+
+  const startIndex = EXPORT_SCHEMAS.findIndex(schema => schema.version === version);
+  if (startIndex === -1) {
+    if (compareVersions(version, CURRENT_EXPORT_VERSION) > 0) {
+      return {
+        success: false,
+        error: `This file uses export format ${version}, which is newer than the newest supported format (${CURRENT_EXPORT_VERSION}). Update the app to import it.`
+      };
+    }
+    return { success: false, error: `Unsupported export format version ${version}` };
+  }
+
+  let current: Json = data;
+  const warnings: SchemaIssue[] = [];
+  for (let i = startIndex; i < EXPORT_SCHEMAS.length; i++) {
+    const schema = EXPORT_SCHEMAS[i];
+    const outcome = schema.validate(current);
+    if (outcome.errors.length > 0) {
+      const prefix = i === startIndex ? 'Invalid project data' : `Invalid project data after upgrading to format ${schema.version}`;
+      return {
+        success: false,
+        error: `${prefix}:\n${formatSchemaIssues(outcome.errors).join('\n')}`,
+        errors: outcome.errors
+      };
+    }
+    if (i === startIndex) warnings.push(...outcome.warnings);
+    if (schema.migrate) current = schema.migrate(current);
+  }
+
+  return { success: true, data: current, warnings, fromVersion: version };
+};
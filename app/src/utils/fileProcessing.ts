@@ -1,4 +1,66 @@
-import type { Project, Tag } from '../types/index';
+import type { ComparisonSession, CustomField, CustomFieldValues, MainListItem, Project, Tag } from '../types/index';
+import { CURRENT_EXPORT_VERSION, formatSchemaIssues, upgradeExport } from './exportSchema';
+import { parseCSV, detectDelimiter, type CSVDelimiter } from './csv';
+import { evaluatePath, findArrayPaths, collectFieldPaths } from './jsonPath';
+import { formatListExport, LIST_EXPORT_FORMATS, type ListExportOptions } from './listExport';
+import { getActiveOutputList, getParkedItems } from './outputLists';
+import { formatDiffAsMarkdown, type RankingDiff } from './snapshots';
+import { parseFieldValue, parseUrl } from './customFields';
+
+// Largest list an import may produce unless the caller sets its own limit
+export const DEFAULT_MAX_IMPORT_ITEMS = 10000;
+
+export interface ListImportOptions {
+  maxItems?: number;
+  customFields?: CustomField[]; // Fields that mapped columns are parsed for
+}
+
+// Item produced by structured imports, before it is added to a list
+export interface ImportedListItem {
+  content: string;
+  tags?: string[]; // Tag names; matched to or created in the tag pool on import
+  notes?: string;
+  url?: string;
+  fields?: CustomFieldValues; // Values of the project's custom fields, by field ID
+  rank?: number; // Pre-existing rank; ranked items are placed on the main list in this order
+}
+
+// Parsed CSV file awaiting column mapping
+export interface CSVTable {
+  delimiter: CSVDelimiter;
+  rows: string[][];
+  columnCount: number;
+}
+
+// Column indexes used to build items from CSV rows (null = not mapped)
+export interface CSVColumnMapping {
+  hasHeader: boolean;
+  content: number;
+  tags: number | null;
+  notes: number | null;
+  url: number | null;
+  rank: number | null;
+  fields: Record<string, number>; // Column per custom field ID; unmapped fields are left out
+}
+
+// Paths used to build items from a JSON document
+export interface JSONFieldMapping {
+  listPath: string; // Absolute path to the array of items, e.g. $.data.items
+  contentPath: string; // Relative to each element; "" selects the element itself
+  tagsPath: string | null;
+}
+
+// Header names recognized when suggesting a column mapping
+const CSV_HEADER_HINTS: Record<'content' | 'tags' | 'notes' | 'url' | 'rank', RegExp> = {
+  content: /^(content|item|name|title|text|value)s?$/i,
+  tags: /^(tags?|labels?|categor(y|ies))$/i,
+  notes: /^(notes?|comments?|description|details)$/i,
+  url: /^(url|link|website|href)s?$/i,
+  rank: /^(rank(ing)?|position|order|#|no\.?)$/i
+};
+
+// Rows reported by name for each kind of invalid value; the rest are only counted
+const MAX_ROW_WARNINGS = 3;
 
 // File processing results
 export interface ImportResult<T = string[]> {
@@ -9,18 +71,24 @@ export interface ImportResult<T = string[]> {
   warnings?: string[];
 }
 
+// Project import also carries the tag pool that was exported alongside it
+export interface ProjectImportResult extends ImportResult<Project> {
+  tagPool?: Tag[];
+}
+
 export interface ExportResult {
   success: boolean;
   data?: string;
   filename?: string;
   error?: string;
   size?: number;
+  mimeType?: string;
 }
 
 // File processing class
 export class FileProcessor {
   // Import text content as lines (plain text format)
-  static importPlainText(textContent: string): ImportResult<string[]> {
+  static importPlainText(textContent: string, options: ListImportOptions = {}): ImportResult<string[]> {
     try {
       if (!textContent || textContent.length === 0) {
         return { success: false, error: 'Text file is empty' };
@@ -47,11 +115,9 @@ export class FileProcessor {
       }
 
       // Check item limit
-      if (validItems.length > 250) {
-        return { 
-          success: false, 
-          error: `Too many items (${validItems.length}). Maximum allowed is 250 items.` 
-        };
+      const limitError = this.checkItemLimit(validItems.length, options);
+      if (limitError) {
+        return { success: false, error: limitError };
       }
 
       const warnings: string[] = [];
@@ -71,14 +137,16 @@ export class FileProcessor {
   }
 
   // Import CSV content (single-row format)
-  static importCSV(csvContent: string): ImportResult<string[]> {
+  static importCSV(csvContent: string, options: ListImportOptions = {}): ImportResult<string[]> {
     try {
       if (!csvContent.trim()) {
         return { success: false, error: 'CSV file is empty' };
       }
 
-      // Parse CSV - simple implementation for single-row format
-      const items = this.parseCSVRow(csvContent.trim());
+      // Single-row format: every field of every row is an item
+      const items = parseCSV(csvContent.trim(), detectDelimiter(csvContent))
+        .flat()
+        .map(item => item.trim());
       
       if (items.length === 0) {
         return { success: false, error: 'No valid items found in CSV' };
@@ -95,11 +163,9 @@ export class FileProcessor {
       }
 
       // Check item limit
-      if (validItems.length > 250) {
-        return { 
-          success: false, 
-          error: `Too many items (${validItems.length}). Maximum allowed is 250 items.` 
-        };
+      const limitError = this.checkItemLimit(validItems.length, options);
+      if (limitError) {
+        return { success: false, error: limitError };
       }
 
       const warnings: string[] = [];
@@ -118,16 +184,316 @@ export class FileProcessor {
     }
   }
 
+  // Parse multi-row CSV into a table for column mapping
+  static parseCSVTable(csvContent: string, delimiter?: CSVDelimiter): ImportResult<CSVTable> {
+    try {
+      if (!csvContent.trim()) {
+        return { success: false, error: 'CSV file is empty' };
+      }
+
+      const resolvedDelimiter = delimiter ?? detectDelimiter(csvContent);
+      const rows = parseCSV(csvContent, resolvedDelimiter)
+        .filter(row => row.some(field => field.trim().length > 0)); // Skip blank lines
+
+      if (rows.length === 0) {
+        return { success: false, error: 'No rows found in CSV' };
+      }
+
+      return {
+        success: true,
+        data: {
+          delimiter: resolvedDelimiter,
+          rows,
+          columnCount: Math.max(...rows.map(row => row.length))
+        },
+        itemCount: rows.length
+      };
+    } catch (error) {
+      return { success: false, error: `CSV parsing error: ${(error as Error).message}` };
+    }
+  }
+
+  // Guess a column mapping from header names, defaulting to the first column as content.
+  // Custom fields are matched to the column headed by their name.
+  static suggestCSVMapping(table: CSVTable, customFields: CustomField[] = []): CSVColumnMapping {
+    const header = table.rows[0].map(cell => cell.trim());
+    const findColumn = (hint: RegExp) => {
+      const index = header.findIndex(cell => hint.test(cell));
+      return index === -1 ? null : index;
+    };
+
+    const content = findColumn(CSV_HEADER_HINTS.content);
+    const tags = findColumn(CSV_HEADER_HINTS.tags);
+    const notes = findColumn(CSV_HEADER_HINTS.notes);
+    const url = findColumn(CSV_HEADER_HINTS.url);
+    const rank = findColumn(CSV_HEADER_HINTS.rank);
+    const fields: Record<string, number> = {};
+    customFields.forEach(field => {
+      const index = header.findIndex(cell => cell.toLowerCase() === field.name.toLowerCase());
+      if (index !== -1) fields[field.id] = index;
+    });
+    const hasHeader = table.rows.length > 1 &&
+      ([content, tags, notes, url, rank].some(index => index !== null) || Object.keys(fields).length > 0);
+
+    return {
+      hasHeader,
+      content: content ?? 0,
+      tags,
+      notes,
+      url,
+      rank,
+      fields
+    };
+  }
+
+  // Display names for each column: header cells when present, otherwise "Column N"
+  static getCSVColumnLabels(table: CSVTable, hasHeader: boolean): string[] {
+    return Array.from({ length: table.columnCount }, (_, index) => {
+      const headerCell = hasHeader ? table.rows[0][index]?.trim() : '';
+      return headerCell ? headerCell : `Column ${index + 1}`;
+    });
+  }
+
+  // Build list items from CSV rows using a column mapping
+  static applyCSVMapping(
+    table: CSVTable,
+    mapping: CSVColumnMapping,
+    options: ListImportOptions = {}
+  ): ImportResult<ImportedListItem[]> {
+    const dataRows = mapping.hasHeader ? table.rows.slice(1) : table.rows;
+    const firstRowNumber = mapping.hasHeader ? 2 : 1;
+    const items: ImportedListItem[] = [];
+    const warnings: string[] = [];
+    let skippedRows = 0;
+    let invalidRanks = 0;
+    let invalidValues = 0;
+    const reportInvalidValue = (rowNumber: number, message: string) => {
+      invalidValues++;
+      if (invalidValues <= MAX_ROW_WARNINGS) warnings.push(`Row ${rowNumber}: ${message}`);
+    };
+    const mappedFields = (options.customFields ?? []).filter(field => mapping.fields[field.id] !== undefined);
+
+    dataRows.forEach((row, index) => {
+      const content = this.sanitizeContent(row[mapping.content] ?? '');
+      if (content.length === 0 || content.length > 500) {
+        skippedRows++;
+        return;
+      }
+
+      const item: ImportedListItem = { content };
+
+      if (mapping.tags !== null) {
+        const names = (row[mapping.tags] ?? '')
+          .split(/[;,|]/)
+          .map(name => this.sanitizeContent(name))
+          .filter(name => name.length > 0 && name.length <= 50);
+        // Drop case-insensitive duplicates within a row
+        const uniqueNames = names.filter((name, i) =>
+          names.findIndex(other => other.toLowerCase() === name.toLowerCase()) === i
+        );
+        if (uniqueNames.length > 0) item.tags = uniqueNames;
+      }
+
+      if (mapping.notes !== null) {
+        const notes = (row[mapping.notes] ?? '').trim();
+        if (notes.length > 0) item.notes = notes;
+      }
+
+      // Values that do not parse are left off the item
+      if (mapping.url !== null) {
+        const url = parseUrl(row[mapping.url] ?? '');
+        if (url.error) reportInvalidValue(firstRowNumber + index, url.error);
+        else if (url.value !== null) item.url = String(url.value);
+      }
+
+      const fields: CustomFieldValues = {};
+      mappedFields.forEach(field => {
+        const result = parseFieldValue(field, row[mapping.fields[field.id]] ?? '');
+        if (result.error) reportInvalidValue(firstRowNumber + index, `${field.name}: ${result.error}`);
+        else if (result.value !== null) fields[field.id] = result.value;
+      });
+      if (Object.keys(fields).length > 0) item.fields = fields;
+
+      if (mapping.rank !== null) {
+        const rawRank = (row[mapping.rank] ?? '').trim();
+        if (rawRank.length > 0) {
+          const rank = Number(rawRank);
+          if (Number.isFinite(rank) && rank > 0) {
+            item.rank = rank;
+          } else {
+            invalidRanks++;
+            if (invalidRanks <= MAX_ROW_WARNINGS) {
+              warnings.push(`Row ${firstRowNumber + index}: rank "${rawRank}" is not a positive number`);
+            }
+          }
+        }
+      }
+
+      items.push(item);
+    });
+
+    if (items.length === 0) {
+      return { success: false, error: 'No valid items in the selected content column' };
+    }
+
+    const limitError = this.checkItemLimit(items.length, options);
+    if (limitError) {
+      return { success: false, error: limitError };
+    }
+
+    if (invalidRanks > MAX_ROW_WARNINGS) {
+      warnings.push(`${invalidRanks - MAX_ROW_WARNINGS} more rows have an invalid rank`);
+    }
+    if (invalidValues > MAX_ROW_WARNINGS) {
+      warnings.push(`${invalidValues - MAX_ROW_WARNINGS} more values could not be read`);
+    }
+    if (skippedRows > 0) {
+      warnings.push(`${skippedRows} rows were skipped (empty or too long content)`);
+    }
+
+    return {
+      success: true,
+      data: items,
+      itemCount: items.length,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  // Parse a JSON document that contains at least one list
+  static parseJSONDocument(jsonContent: string): ImportResult<unknown> {
+    if (!jsonContent.trim()) {
+      return { success: false, error: 'JSON file is empty' };
+    }
+
+    try {
+      const document: unknown = JSON.parse(jsonContent);
+      if (findArrayPaths(document).length === 0) {
+        return { success: false, error: 'No lists found in JSON document' };
+      }
+      return { success: true, data: document };
+    } catch {
+      return { success: false, error: 'Invalid JSON format' };
+    }
+  }
+
+  // Elements of the list a path points at (the array itself, or every match of a wildcard)
+  static getJSONListElements(document: unknown, listPath: string): unknown[] {
+    const matches = evaluatePath(document, listPath);
+    return matches.length === 1 && Array.isArray(matches[0]) ? matches[0] : matches;
+  }
+
+  // Candidate lists and the fields their elements offer, for the field picker
+  static getJSONListPaths(document: unknown): Array<{ path: string; length: number }> {
+    return findArrayPaths(document);
+  }
+
+  static getJSONFieldPaths(document: unknown, listPath: string): string[] {
+    try {
+      return collectFieldPaths(this.getJSONListElements(document, listPath));
+    } catch {
+      return [];
+    }
+  }
+
+  // Pick the largest list (unless given) and guess content and tag fields from their names
+  static suggestJSONMapping(document: unknown, listPath = findArrayPaths(document)[0]?.path ?? '$'): JSONFieldMapping {
+    const fieldPaths = this.getJSONFieldPaths(document, listPath);
+    const lastSegment = (path: string) => path.replace(/\[\*\]$/, '').split(/[.[\]']+/).filter(Boolean).pop() ?? '';
+
+    const contentPath = fieldPaths.find(path => CSV_HEADER_HINTS.content.test(lastSegment(path)))
+      ?? fieldPaths[0]
+      ?? '';
+    const tagsPath = fieldPaths.find(path => path !== contentPath && CSV_HEADER_HINTS.tags.test(lastSegment(path))) ?? null;
+
+    return { listPath, contentPath, tagsPath };
+  }
+
+  // Build list items from a JSON document using a field mapping
+  static applyJSONMapping(
+    document: unknown,
+    mapping: JSONFieldMapping,
+    options: ListImportOptions = {}
+  ): ImportResult<ImportedListItem[]> {
+    try {
+      const elements = this.getJSONListElements(document, mapping.listPath);
+      if (elements.length === 0) {
+        return { success: false, error: `No list found at ${mapping.listPath}` };
+      }
+
+      const items: ImportedListItem[] = [];
+      let skipped = 0;
+
+      elements.forEach(element => {
+        const value = evaluatePath(element, mapping.contentPath)
+          .find(match => typeof match === 'string' || typeof match === 'number' || typeof match === 'boolean');
+        const content = value === undefined ? '' : this.sanitizeContent(String(value));
+        if (content.length === 0 || content.length > 500) {
+          skipped++;
+          return;
+        }
+
+        const item: ImportedListItem = { content };
+        if (mapping.tagsPath !== null) {
+          const names = evaluatePath(element, mapping.tagsPath)
+            .flatMap(match => Array.isArray(match) ? match : [match])
+            .flatMap(match => typeof match === 'string' ? match.split(/[;,|]/) : typeof match === 'number' ? [String(match)] : [])
+            .map(name => this.sanitizeContent(name))
+            .filter(name => name.length > 0 && name.length <= 50);
+          const uniqueNames = names.filter((name, i) =>
+            names.findIndex(other => other.toLowerCase() === name.toLowerCase()) === i
+          );
+          if (uniqueNames.length > 0) item.tags = uniqueNames;
+        }
+        items.push(item);
+      });
+
+      if (items.length === 0) {
+        return { success: false, error: 'No valid items found at the selected content field' };
+      }
+
+      const limitError = this.checkItemLimit(items.length, options);
+      if (limitError) {
+        return { success: false, error: limitError };
+      }
+
+      return {
+        success: true,
+        data: items,
+        itemCount: items.length,
+        warnings: skipped > 0 ? [`${skipped} entries were skipped (missing, empty or too long content)`] : undefined
+      };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // Import a JSON list using the suggested mapping
+  static importJSONList(jsonContent: string, options: ListImportOptions = {}): ImportResult<ImportedListItem[]> {
+    const parsed = this.parseJSONDocument(jsonContent);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error };
+    }
+    return this.applyJSONMapping(parsed.data, this.suggestJSONMapping(parsed.data), options);
+  }
+
   // Try to import content (plain text first, then CSV)
-  static importListContent(content: string): ImportResult<string[]> {
+  static importListContent(content: string, options: ListImportOptions = {}): ImportResult<Array<string | ImportedListItem>> {
+    // JSON lists are imported by their content and tag fields rather than as lines of JSON text
+    if (/^\s*[[{]/.test(content)) {
+      const jsonResult = this.importJSONList(content, options);
+      if (jsonResult.success) {
+        return jsonResult;
+      }
+    }
+
     // Try plain text first
-    const textResult = this.importPlainText(content);
+    const textResult = this.importPlainText(content, options);
     if (textResult.success) {
       return textResult;
     }
 
     // If plain text fails, try CSV
-    const csvResult = this.importCSV(content);
+    const csvResult = this.importCSV(content, options);
     if (csvResult.success) {
       return csvResult;
     }
@@ -145,29 +511,30 @@ export class FileProcessor {
   }
 
   // Import project from JSON
-  static importProjectJSON(jsonContent: string): ImportResult<Project> {
+  static importProjectJSON(jsonContent: string): ProjectImportResult {
     try {
       if (!jsonContent.trim()) {
         return { success: false, error: 'JSON file is empty' };
       }
 
-      const projectData = JSON.parse(jsonContent);
-
-      // Validate project structure
-      const validation = this.validateProjectJSON(projectData);
-      if (!validation.isValid) {
-        return { success: false, error: `Invalid project data: ${validation.errors.join(', ')}` };
+      // Validate against the file's format version and upgrade to the current one
+      const upgrade = upgradeExport(JSON.parse(jsonContent));
+      if (!upgrade.success) {
+        return { success: false, error: upgrade.error };
       }
+      const projectData = upgrade.data!;
 
       // Restore Date objects and regenerate IDs
       const restoredProject = this.restoreProjectDates(projectData);
       const projectWithNewIds = this.regenerateProjectIds(restoredProject);
+      const { tags, warnings } = this.restoreExportedTags(projectData.tagPool);
 
       return {
         success: true,
         data: projectWithNewIds,
+        tagPool: tags,
         itemCount: this.calculateProjectItemCount(projectWithNewIds),
-        warnings: []
+        warnings: [...formatSchemaIssues(upgrade.warnings ?? []), ...warnings]
       };
     } catch (error) {
       if (error instanceof SyntaxError) {
@@ -191,7 +558,7 @@ export class FileProcessor {
           item.tags.forEach(tagId => usedTagIds.add(tagId));
         });
       });
-      project.mainList.forEach(item => {
+      [...project.mainList, ...getParkedItems(project)].forEach(item => {
         item.tags.forEach(tagId => usedTagIds.add(tagId));
       });
 
@@ -199,7 +566,7 @@ export class FileProcessor {
 
       // Create export data with metadata
       const exportData = {
-        version: '1.0',
+        version: CURRENT_EXPORT_VERSION,
         exportedAt: new Date().toISOString(),
         project: {
           ...project,
@@ -226,29 +593,51 @@ export class FileProcessor {
     }
   }
 
-  // Helper: Parse CSV row (handles quoted values)
-  private static parseCSVRow(csvRow: string): string[] {
-    const items: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < csvRow.length; i++) {
-      const char = csvRow[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        items.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+  // Export the ranked main list for sharing (CSV, Markdown, plain text or HTML)
+  static exportMainList(project: Project, tagPool: Tag[], options: ListExportOptions): ExportResult {
+    try {
+      if (!project) {
+        return { success: false, error: 'No project to export' };
+      }
+
+      const format = LIST_EXPORT_FORMATS.find(entry => entry.format === options.format);
+      if (!format) {
+        return { success: false, error: `Unsupported export format: ${options.format}` };
       }
+
+      const content = formatListExport(project, tagPool, options);
+      const outputList = getActiveOutputList(project);
+      const baseName = outputList ? `${project.name}_${outputList.name}` : project.name;
+      const filename = `${this.sanitizeFilename(baseName)}_ranked_${new Date().toISOString().split('T')[0]}.${format.extension}`;
+
+      return {
+        success: true,
+        data: content,
+        filename,
+        size: new Blob([content]).size,
+        mimeType: format.mimeType
+      };
+    } catch (error) {
+      return { success: false, error: `Export error: ${(error as Error).message}` };
+    }
+  }
+
+  // Export a comparison of two project versions as Markdown
+  static exportRankingDiff(projectName: string, diff: RankingDiff, beforeLabel: string, afterLabel: string): ExportResult {
+    try {
+      const content = formatDiffAsMarkdown(diff, beforeLabel, afterLabel);
+      const filename = `${this.sanitizeFilename(projectName)}_changes_${new Date().toISOString().split('T')[0]}.md`;
+
+      return {
+        success: true,
+        data: content,
+        filename,
+        size: new Blob([content]).size,
+        mimeType: 'text/markdown'
+      };
+    } catch (error) {
+      return { success: false, error: `Export error: ${(error as Error).message}` };
     }
-    
-    // Add the last item
-    items.push(current.trim());
-    
-    return items; // Return all items including empty ones for warning counting
   }
 
   // Helper: Sanitize content (remove HTML, trim, validate)
@@ -268,28 +657,6 @@ export class FileProcessor {
       .slice(0, 50); // Limit length
   }
 
-  // Helper: Validate project JSON structure
-  private static validateProjectJSON(data: unknown): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    if (!data || typeof data !== 'object' || !('project' in data)) {
-      errors.push('Missing project data');
-      return { isValid: false, errors };
-    }
-
-    const projectData = data as { project: Record<string, unknown>; tagPool?: Array<Record<string, unknown>> };
-    const project = projectData.project;
-
-    if (!project.id) errors.push('Missing project ID');
-    if (!project.name) errors.push('Missing project name');
-    if (!project.createdAt) errors.push('Missing createdAt');
-    if (!project.modifiedAt) errors.push('Missing modifiedAt');
-    if (!Array.isArray(project.inputLists)) errors.push('Invalid inputLists');
-    if (!Array.isArray(project.mainList)) errors.push('Invalid mainList');
-
-    return { isValid: errors.length === 0, errors };
-  }
-
   // Helper: Restore Date objects from JSON
   private static restoreProjectDates(projectData: Record<string, unknown>): Project {
     const data = projectData as { 
@@ -305,6 +672,37 @@ export class FileProcessor {
     } as unknown as Project;
   }
 
+  // Helper: Error message when an import exceeds the item limit, or null
+  private static checkItemLimit(itemCount: number, options: ListImportOptions): string | null {
+    const maxItems = options.maxItems ?? DEFAULT_MAX_IMPORT_ITEMS;
+    if (itemCount <= maxItems) return null;
+    return `Too many items (${itemCount}). Maximum allowed is ${maxItems} items.`;
+  }
+
+  // Helper: Restore exported tags, skipping malformed entries
+  private static restoreExportedTags(tagPool: unknown): { tags: Tag[]; warnings: string[] } {
+    const tags: Tag[] = [];
+    const warnings: string[] = [];
+    if (!Array.isArray(tagPool)) return { tags, warnings };
+
+    tagPool.forEach((entry: Record<string, unknown>, index) => {
+      if (!entry || typeof entry.id !== 'string' || typeof entry.name !== 'string' || typeof entry.color !== 'string') {
+        warnings.push(`Skipped invalid tag at position ${index + 1}`);
+        return;
+      }
+      const createdAt = new Date(entry.createdAt as string);
+      tags.push({
+        id: entry.id,
+        name: entry.name,
+        color: entry.color,
+        createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+        usageCount: 0
+      });
+    });
+
+    return { tags, warnings };
+  }
+
   // Helper: Regenerate all IDs to avoid conflicts
   private static regenerateProjectIds(project: Project): Project {
     const idMap = new Map<string, string>();
@@ -329,7 +727,7 @@ export class FileProcessor {
     });
 
     // Regenerate main list IDs and update source references
-    const newMainList = project.mainList.map(item => {
+    const remapRankedItems = (items: MainListItem[]) => items.map(item => {
       const newItemId = idMap.get(item.id) || generateId();
       const newSourceListId = idMap.get(item.sourceListId) || item.sourceListId;
       
@@ -339,12 +737,28 @@ export class FileProcessor {
         sourceListId: newSourceListId
       };
     });
+    const newMainList = remapRankedItems(project.mainList);
+
+    // Saved comparison sessions and duplicate links refer to items by ID; unknown IDs are dropped when used
+    const session = project.comparisonSession;
+    const remapIds = (ids: string[]) => ids.map(id => idMap.get(id) ?? id);
+    const remapSession = (saved: ComparisonSession) =>
+      ({ ...saved, sortedIds: remapIds(saved.sortedIds), pendingIds: remapIds(saved.pendingIds) });
 
     return {
       ...project,
       id: generateId(),
       inputLists: newInputLists,
-      mainList: newMainList
+      mainList: newMainList,
+      ...(session ? { comparisonSession: remapSession(session) } : {}),
+      ...(project.itemLinks ? { itemLinks: project.itemLinks.map(remapIds) } : {}),
+      ...(project.outputLists ? {
+        outputLists: project.outputLists.map(list => ({
+          ...list,
+          items: remapRankedItems(list.items),
+          ...(list.comparisonSession ? { comparisonSession: remapSession(list.comparisonSession) } : {})
+        }))
+      } : {})
     };
   }
 
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { compareKeyed, keyBetween, keysBetween } from './fractionalIndex';
+
+describe('keyBetween', () => {
+  it('should create keys at the ends and in between', () => {
+    const first = keyBetween(null, null);
+    const before = keyBetween(null, first);
+    const after = keyBetween(first, null);
+    const middle = keyBetween(first, after);
+
+    expect([after, middle, first, before].sort()).toEqual([before, first, middle, after]);
+  });
+
+  it('should always find room between close keys', () => {
+    let low = keyBetween(null, null);
+    const high = keyBetween(low, null);
+    for (let i = 0; i < 50; i++) {
+      const key = keyBetween(low, high);
+      expect(key > low && key < high).toBe(true);
+      low = key;
+    }
+  });
+
+  it('should reject keys in the wrong order', () => {
+    expect(() => keyBetween('b', 'a')).toThrow('Key "b" does not sort before "a"');
+  });
+});
+
+describe('keysBetween', () => {
+  it('should create short increasing keys for long runs', () => {
+    const keys = keysBetween(null, null, 1000);
+
+    expect([...keys].sort()).toEqual(keys);
+    expect(new Set(keys).size).toBe(1000);
+    expect(Math.max(...keys.map(key => key.length))).toBeLessThanOrEqual(12);
+  });
+});
+
+describe('compareKeyed', () => {
+  it('should order equal keys by ID', () => {
+    const entries = [{ key: 'b', id: 'x' }, { key: 'a', id: 'z' }, { key: 'b', id: 'w' }];
+
+    expect([...entries].sort(compareKeyed).map(entry => entry.id)).toEqual(['z', 'w', 'x']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,61 @@
+// Fractional position keys
+// A sequence edited by several people at once cannot store plain indexes: two concurrent moves
+// would renumber the same items. Instead each element keeps a string key, and the sequence is
+// the elements sorted by key (then by ID, for keys created concurrently). Moving an element
+// only gives it a new key between its new neighbours; no other element changes.
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// Helper: Midpoint of two digit strings read as fractions; b null means 1. Keys never end in
+// '0', so there is always room for another key below any key.
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let prefix = 0;
+    while ((a[prefix] ?? '0') === b[prefix]) prefix++;
+    if (prefix > 0) return b.slice(0, prefix) + midpoint(a.slice(prefix), b.slice(prefix));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+  // Neighbouring digits: go one digit deeper
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/**
+ * Creates a key that sorts between two keys
+ * @param before - Key of the element before, or null at the start
+ * @param after - Key of the element after, or null at the end; must sort after before
+ * @returns A new key strictly between the two
+ */
+export const keyBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Key "${before}" does not sort before "${after}"`);
+  }
+  return midpoint(before ?? '', after);
+};
+
+/**
+ * Creates keys for consecutive elements between two keys
+ * Keys are spread by halving the range, so they stay short even for long runs.
+ * @param before - Key of the element before, or null at the start
+ * @param after - Key of the element after, or null at the end
+ * @param count - Number of keys
+ * @returns Increasing keys, all between before and after
+ */
+export const keysBetween = (before: string | null, after: string | null, count: number): string[] => {
+  if (count === 0) return [];
+  const middle = Math.floor(count / 2);
+  const key = keyBetween(before, after);
+  return [...keysBetween(before, key, middle), key, ...keysBetween(key, after, count - middle - 1)];
+};
+
+/**
+ * Compares two keyed elements in sequence order
+ * @param a - Element with its key
+ * @param b - Element with its key
+ * @returns Negative when a comes first
+ */
+export const compareKeyed = (a: { key: string; id: string }, b: { key: string; id: string }): number =>
+  a.key < b.key ? -1 : a.key > b.key ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
\ No newline at end of file
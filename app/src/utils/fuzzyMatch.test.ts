@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { fuzzyMatch } from './fuzzyMatch';
+import { fuzzyMatch, normalizeText, textSimilarity } from './fuzzyMatch';
 
 describe('fuzzyMatch', () => {
   describe('perfect matches', () => {
@@ -127,4 +127,34 @@ describe('fuzzyMatch', () => {
       expect(scores[0].score).toBeGreaterThan(scores[1].score);
     });
   });
+});
+
+describe('normalizeText', () => {
+  it('should drop case, accents and punctuation', () => {
+    expect(normalizeText('  Amélie — (2001)! ')).toBe('amelie 2001');
+    expect(normalizeText('Dark-mode   toggle')).toBe('dark mode toggle');
+  });
+});
+
+describe('textSimilarity', () => {
+  it('should return 100 for text that normalizes to the same thing', () => {
+    expect(textSimilarity('Dark mode toggle', 'dark-mode toggle')).toBe(100);
+  });
+
+  it('should score small typos highly', () => {
+    expect(textSimilarity('Colour picker', 'Color picker')).toBe(92);
+  });
+
+  it('should ignore word order', () => {
+    expect(textSimilarity('Smith, John', 'John Smith')).toBe(100);
+  });
+
+  it('should score unrelated text low', () => {
+    expect(textSimilarity('Write proposal', 'Export to PDF')).toBeLessThan(50);
+  });
+
+  it('should report scores below the minimum as 0', () => {
+    expect(textSimilarity('Colour picker', 'Color picker', 95)).toBe(0);
+    expect(textSimilarity('Colour picker', 'Color picker', 90)).toBe(92);
+  });
 });
\ No newline at end of file
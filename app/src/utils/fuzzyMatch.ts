@@ -30,4 +30,65 @@ export const fuzzyMatch = (query: string, text: string): number => {
   
   // Only return score if all query characters were found
   return queryIndex === queryLower.length ? score : 0;
+};
+
+/**
+ * Normalizes text for comparing items that may be written differently
+ * @param text - Text to normalize
+ * @returns Lowercased text without accents or punctuation and with single spaces
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Helper: Edit distance between two strings, or null once it must exceed maxDistance
+const boundedEditDistance = (a: string, b: string, maxDistance: number): number | null => {
+  if (Math.abs(a.length - b.length) > maxDistance) return null;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return null;
+    previous = current;
+  }
+  return previous[b.length] <= maxDistance ? previous[b.length] : null;
+};
+
+/**
+ * Scores how likely two pieces of text name the same thing
+ * Text is normalized first, then compared both as written and with its words sorted, so
+ * "Smith, John" matches "John Smith". Scores below minScore are reported as 0.
+ * @param a - First text
+ * @param b - Second text
+ * @param minScore - Lowest score worth computing exactly (speeds up bulk comparisons)
+ * @returns A score from 0-100, where 100 means the normalized texts are identical
+ */
+export const textSimilarity = (a: string, b: string, minScore = 0): number => {
+  const normalizedA = normalizeText(a);
+  const normalizedB = normalizeText(b);
+  if (normalizedA === normalizedB) return 100;
+  if (!normalizedA || !normalizedB) return 0;
+
+  const maxLength = Math.max(normalizedA.length, normalizedB.length);
+  const maxDistance = Math.floor(maxLength * (1 - minScore / 100));
+  const sortWords = (text: string) => text.split(' ').sort().join(' ');
+
+  const distances = [
+    boundedEditDistance(normalizedA, normalizedB, maxDistance),
+    boundedEditDistance(sortWords(normalizedA), sortWords(normalizedB), maxDistance)
+  ].filter((distance): distance is number => distance !== null);
+  if (distances.length === 0) return 0;
+
+  const score = Math.round(100 * (1 - Math.min(...distances) / maxLength));
+  return score >= minScore ? score : 0;
 };
\ No newline at end of file
@@ -0,0 +1,155 @@
+import type { Project, Tag } from '../types/index';
+
+// Undoable slice of the application state
+export interface HistorySnapshot {
+  project: Project | null;
+  tagPool: Tag[];
+}
+
+// A recorded change: the state before it happened and a label for the UI
+export interface HistoryEntry {
+  label: string;
+  snapshot: HistorySnapshot;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export interface HistoryStepResult {
+  history: HistoryState;
+  snapshot: HistorySnapshot;
+  label: string;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export const createHistory = (): HistoryState => ({ past: [], future: [] });
+
+/**
+ * Records a change on the undo stack and clears the redo stack
+ * @param history - Current history
+ * @param label - Description of the change (e.g. "Delete tag")
+ * @param before - State before the change was applied
+ * @param limit - Maximum number of undo steps kept; oldest entries are dropped
+ * @returns The updated history
+ */
+export const pushHistory = (
+  history: HistoryState,
+  label: string,
+  before: HistorySnapshot,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): HistoryState => {
+  const past = [...history.past, { label, snapshot: before }];
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    future: []
+  };
+};
+
+/**
+ * Steps back one change
+ * @param history - Current history
+ * @param current - Present state, moved onto the redo stack
+ * @returns The updated history and the state to restore, or null if there is nothing to undo
+ */
+export const undoHistory = (
+  history: HistoryState,
+  current: HistorySnapshot
+): HistoryStepResult | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [{ label: entry.label, snapshot: current }, ...history.future]
+    },
+    snapshot: entry.snapshot,
+    label: entry.label
+  };
+};
+
+/**
+ * Re-applies the most recently undone change
+ * @param history - Current history
+ * @param current - Present state, moved back onto the undo stack
+ * @returns The updated history and the state to restore, or null if there is nothing to redo
+ */
+export const redoHistory = (
+  history: HistoryState,
+  current: HistorySnapshot
+): HistoryStepResult | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: [...history.past, { label: entry.label, snapshot: current }],
+      future: history.future.slice(1)
+    },
+    snapshot: entry.snapshot,
+    label: entry.label
+  };
+};
+
+// Helper: Compare two values by content
+const isChanged = (a: unknown, b: unknown) => a !== b && JSON.stringify(a) !== JSON.stringify(b);
+
+// Helper: Apply the tag edits, additions and deletions between two tag pools to another pool
+const rebaseTags = (before: Tag[], after: Tag[], tags: Tag[]): Tag[] => {
+  const beforeById = new Map(before.map(tag => [tag.id, tag]));
+  const afterById = new Map(after.map(tag => [tag.id, tag]));
+  const tagIds = new Set(tags.map(tag => tag.id));
+  return [
+    ...tags.flatMap(tag => {
+      const afterTag = afterById.get(tag.id);
+      if (!afterTag) return beforeById.has(tag.id) ? [] : [tag];
+      return [isChanged(beforeById.get(tag.id), afterTag) ? afterTag : tag];
+    }),
+    ...after.filter(tag => !tagIds.has(tag.id) && !beforeById.has(tag.id))
+  ];
+};
+
+/**
+ * Carries a change made elsewhere (another tab or a collaborator) into every recorded state, so
+ * undo and redo only take back this copy's own changes
+ * Projects are compared field by field and tags tag by tag; where a recorded state and the change
+ * touched the same field, the change wins.
+ * @param history - Current history
+ * @param before - State the change was made to
+ * @param after - State with the change
+ * @returns The history with the change applied to every entry
+ */
+export const rebaseHistory = (
+  history: HistoryState,
+  before: HistorySnapshot,
+  after: HistorySnapshot
+): HistoryState => {
+  const changed = after.project;
+  if (!before.project || !changed || before.project.id !== changed.id) return history;
+
+  const fields = [...new Set([...Object.keys(before.project), ...Object.keys(changed)])]
+    .filter(field => field !== 'modifiedAt')
+    .filter(field => isChanged(before.project![field as keyof Project], changed[field as keyof Project])) as Array<keyof Project>;
+  const tagsChanged = isChanged(before.tagPool, after.tagPool);
+  if (fields.length === 0 && !tagsChanged) return history;
+
+  const rebase = ({ label, snapshot }: HistoryEntry): HistoryEntry => {
+    if (snapshot.project?.id !== changed.id) return { label, snapshot };
+    const project: Project = { ...snapshot.project };
+    fields.forEach(field => {
+      if (field in changed) Object.assign(project, { [field]: changed[field] });
+      else delete project[field];
+    });
+    return {
+      label,
+      snapshot: {
+        project,
+        tagPool: tagsChanged ? rebaseTags(before.tagPool, after.tagPool, snapshot.tagPool) : snapshot.tagPool
+      }
+    };
+  };
+  return { past: history.past.map(rebase), future: history.future.map(rebase) };
+};
\ No newline at end of file
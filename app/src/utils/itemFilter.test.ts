@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_FILTER, getMatchRanges, isFilterActive, matchesFilter, type FilterableItem } from './itemFilter';
+
+const apple: FilterableItem = { content: 'Green Apple', tags: ['fruit', 'green'], sourceListId: 'list-1', isUsed: false };
+const kale: FilterableItem = { content: 'Kale', tags: ['green'], sourceListId: 'list-2', isUsed: true };
+const ranked: FilterableItem = { content: 'Banana', tags: ['fruit'], sourceListId: 'list-1' };
+
+describe('isFilterActive', () => {
+  it('should ignore a blank search', () => {
+    expect(isFilterActive(EMPTY_FILTER)).toBe(false);
+    expect(isFilterActive({ ...EMPTY_FILTER, text: '  ' })).toBe(false);
+    expect(isFilterActive({ ...EMPTY_FILTER, usage: 'used' })).toBe(true);
+  });
+});
+
+describe('matchesFilter', () => {
+  it('should match text fuzzily', () => {
+    expect(matchesFilter(apple, { ...EMPTY_FILTER, text: 'appl' })).toBe(true);
+    expect(matchesFilter(apple, { ...EMPTY_FILTER, text: 'gapl' })).toBe(true);
+    expect(matchesFilter(kale, { ...EMPTY_FILTER, text: 'appl' })).toBe(false);
+  });
+
+  it('should combine included tags with AND or OR and drop excluded tags', () => {
+    const both = { ...EMPTY_FILTER, includedTagIds: ['fruit', 'green'] };
+
+    expect([apple, kale, ranked].map(item => matchesFilter(item, both))).toEqual([true, false, false]);
+    expect([apple, kale, ranked].map(item => matchesFilter(item, { ...both, tagMode: 'any' }))).toEqual([true, true, true]);
+    expect([apple, kale, ranked].map(item => matchesFilter(item, { ...EMPTY_FILTER, excludedTagIds: ['green'] })))
+      .toEqual([false, false, true]);
+  });
+
+  it('should filter by source list and used state', () => {
+    expect(matchesFilter(kale, { ...EMPTY_FILTER, sourceListId: 'list-1' })).toBe(false);
+    expect(matchesFilter(apple, { ...EMPTY_FILTER, usage: 'used' })).toBe(false);
+    expect(matchesFilter(kale, { ...EMPTY_FILTER, usage: 'used' })).toBe(true);
+    // Main list items have no used state, so the used filter leaves them alone
+    expect(matchesFilter(ranked, { ...EMPTY_FILTER, usage: 'unused' })).toBe(true);
+  });
+});
+
+describe('getMatchRanges', () => {
+  it('should highlight a whole match as one run', () => {
+    expect(getMatchRanges('APP', 'Green Apple')).toEqual([{ start: 6, end: 9 }]);
+  });
+
+  it('should highlight fuzzily matched characters, merging neighbours', () => {
+    expect(getMatchRanges('grap', 'Green Apple')).toEqual([{ start: 0, end: 2 }, { start: 6, end: 8 }]);
+  });
+
+  it('should return nothing when the query does not match', () => {
+    expect(getMatchRanges('xyz', 'Green Apple')).toEqual([]);
+    expect(getMatchRanges(' ', 'Green Apple')).toEqual([]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,91 @@
+// Item search and filtering
+// The filter bar narrows both panels down by text, tags, source list and used state. Filtering
+// only hides items: main list positions (and so drop positions) stay those of the full ranking.
+import type { ItemFilter } from '../types/index';
+import { fuzzyMatch } from './fuzzyMatch';
+
+export const EMPTY_FILTER: ItemFilter = {
+  text: '',
+  includedTagIds: [],
+  tagMode: 'all',
+  excludedTagIds: [],
+  sourceListId: null,
+  usage: 'all'
+};
+
+// What the filter looks at; input items have a used state, main list items do not
+export interface FilterableItem {
+  content: string;
+  tags: string[];
+  sourceListId: string;
+  isUsed?: boolean;
+}
+
+// A run of matched characters, end exclusive
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Checks whether a filter narrows anything down
+ * @param filter - Filter to check
+ * @returns True when some items may be hidden
+ */
+export const isFilterActive = (filter: ItemFilter): boolean =>
+  filter.text.trim().length > 0 ||
+  filter.includedTagIds.length > 0 ||
+  filter.excludedTagIds.length > 0 ||
+  filter.sourceListId !== null ||
+  filter.usage !== 'all';
+
+/**
+ * Checks whether an item passes a filter
+ * @param item - Item to check
+ * @param filter - Active filter
+ * @returns True when the item should be shown
+ */
+export const matchesFilter = (item: FilterableItem, filter: ItemFilter): boolean => {
+  const query = filter.text.trim();
+  if (query && fuzzyMatch(query, item.content) === 0) return false;
+
+  if (filter.includedTagIds.length > 0) {
+    const hasTag = (tagId: string) => item.tags.includes(tagId);
+    const tagsMatch = filter.tagMode === 'all'
+      ? filter.includedTagIds.every(hasTag)
+      : filter.includedTagIds.some(hasTag);
+    if (!tagsMatch) return false;
+  }
+  if (filter.excludedTagIds.some(tagId => item.tags.includes(tagId))) return false;
+
+  if (filter.sourceListId !== null && item.sourceListId !== filter.sourceListId) return false;
+  if (filter.usage !== 'all' && item.isUsed !== undefined && item.isUsed !== (filter.usage === 'used')) return false;
+  return true;
+};
+
+/**
+ * Finds the characters of a text that a search query matched, for highlighting
+ * A query found as a whole is highlighted as one run; otherwise each fuzzily matched character is.
+ * @param query - Search query
+ * @param text - Text that was searched
+ * @returns Matched runs in text order, empty when the query does not match
+ */
+export const getMatchRanges = (query: string, text: string): MatchRange[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle || fuzzyMatch(needle, text) === 0) return [];
+
+  const haystack = text.toLowerCase();
+  const index = haystack.indexOf(needle);
+  if (index !== -1) return [{ start: index, end: index + needle.length }];
+
+  const ranges: MatchRange[] = [];
+  let queryIndex = 0;
+  for (let i = 0; i < haystack.length && queryIndex < needle.length; i++) {
+    if (haystack[i] !== needle[queryIndex]) continue;
+    queryIndex++;
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === i) last.end = i + 1;
+    else ranges.push({ start: i, end: i + 1 });
+  }
+  return ranges;
+};
\ No newline at end of file
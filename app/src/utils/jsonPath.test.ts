@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parsePath, evaluatePath, findArrayPaths, collectFieldPaths } from './jsonPath';
+
+describe('parsePath', () => {
+  it('should parse dotted, bracketed, index and wildcard segments', () => {
+    expect(parsePath("$.data['my items'][0].tags[*]")).toEqual([
+      { type: 'field', name: 'data' },
+      { type: 'field', name: 'my items' },
+      { type: 'index', index: 0 },
+      { type: 'field', name: 'tags' },
+      { type: 'wildcard' }
+    ]);
+  });
+
+  it('should read a bare leading field as relative to the current value', () => {
+    expect(parsePath('meta.title')).toEqual(parsePath('$.meta.title'));
+    expect(parsePath('')).toEqual([]);
+  });
+
+  it('should reject malformed paths', () => {
+    expect(() => parsePath('$.items[')).toThrow('Invalid path "$.items[" near "["');
+  });
+});
+
+describe('evaluatePath', () => {
+  const document = {
+    data: {
+      items: [
+        { title: 'Dune', labels: [{ name: 'sci-fi' }, { name: 'classic' }] },
+        { title: 'Emma' }
+      ]
+    }
+  };
+
+  it('should select a single field', () => {
+    expect(evaluatePath(document, '$.data.items[1].title')).toEqual(['Emma']);
+  });
+
+  it('should expand wildcards over arrays and objects', () => {
+    expect(evaluatePath(document, '$.data.items[*].title')).toEqual(['Dune', 'Emma']);
+    expect(evaluatePath(document.data.items[0], 'labels[*].name')).toEqual(['sci-fi', 'classic']);
+    expect(evaluatePath({ a: 1, b: 2 }, '$.*')).toEqual([1, 2]);
+  });
+
+  it('should return no matches for missing fields', () => {
+    expect(evaluatePath(document, '$.data.missing.title')).toEqual([]);
+    expect(evaluatePath(document, '$.data.items[5]')).toEqual([]);
+  });
+});
+
+describe('findArrayPaths', () => {
+  it('should report the root array as $', () => {
+    expect(findArrayPaths(['a', 'b'])).toEqual([{ path: '$', length: 2 }]);
+  });
+
+  it('should list nested arrays largest first and skip empty ones', () => {
+    expect(findArrayPaths({ meta: { authors: ['x'] }, 'top picks': [1, 2, 3], empty: [] })).toEqual([
+      { path: "$['top picks']", length: 3 },
+      { path: '$.meta.authors', length: 1 }
+    ]);
+  });
+});
+
+describe('collectFieldPaths', () => {
+  it('should use an empty path for primitive elements', () => {
+    expect(collectFieldPaths(['a', 'b'])).toEqual(['']);
+  });
+
+  it('should list nested fields, primitive arrays and arrays of objects', () => {
+    expect(collectFieldPaths([
+      { title: 'Dune', tags: ['sci-fi'], meta: { year: 1965 } },
+      { title: 'Emma', labels: [{ name: 'classic' }] }
+    ])).toEqual(['title', 'tags', 'meta.year', 'labels[*].name']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,140 @@
+// Minimal JSONPath-style selectors for picking lists and fields out of JSON documents
+// Supported syntax: $ (root), .field, ['field'], [0], [*] and .* — e.g. $.data.items[*].title.
+// Paths without a leading $ are relative to the current value, so "meta.title" and "$.meta.title"
+// select the same field of a list element.
+
+type PathSegment =
+  | { type: 'field'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' };
+
+// Maximum nesting followed when listing candidate paths
+const MAX_PATH_DEPTH = 4;
+
+// Number of list elements sampled when listing field paths
+const FIELD_SAMPLE_SIZE = 20;
+
+/**
+ * Parses a path expression into segments
+ * @param path - Path such as "$.items[*].title" or "tags"
+ * @returns Parsed segments (empty for the root / element itself)
+ * @throws Error when the path is malformed
+ */
+export const parsePath = (path: string): PathSegment[] => {
+  const segments: PathSegment[] = [];
+  let rest = path.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+  else if (rest.startsWith('@')) rest = rest.slice(1);
+
+  // A bare leading field name ("title.name") reads as ".title.name"
+  if (rest.length > 0 && !rest.startsWith('.') && !rest.startsWith('[')) rest = `.${rest}`;
+
+  const tokenPattern = /^(?:\.\*|\.([A-Za-z_$][\w$-]*)|\[\*\]|\[(\d+)\]|\[(?:'([^']*)'|"([^"]*)")\])/;
+  while (rest.length > 0) {
+    const match = tokenPattern.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid path "${path}" near "${rest}"`);
+    }
+    if (match[1] !== undefined) {
+      segments.push({ type: 'field', name: match[1] });
+    } else if (match[2] !== undefined) {
+      segments.push({ type: 'index', index: Number(match[2]) });
+    } else if (match[3] !== undefined || match[4] !== undefined) {
+      segments.push({ type: 'field', name: match[3] ?? match[4] });
+    } else {
+      segments.push({ type: 'wildcard' });
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+};
+
+/**
+ * Evaluates a path against a JSON value
+ * @param value - Parsed JSON value
+ * @param path - Path expression
+ * @returns Every value the path selects (wildcards can select many)
+ * @throws Error when the path is malformed
+ */
+export const evaluatePath = (value: unknown, path: string): unknown[] => {
+  let current: unknown[] = [value];
+
+  for (const segment of parsePath(path)) {
+    const next: unknown[] = [];
+    for (const node of current) {
+      if (segment.type === 'wildcard') {
+        if (Array.isArray(node)) next.push(...node);
+        else if (node !== null && typeof node === 'object') next.push(...Object.values(node));
+      } else if (segment.type === 'index') {
+        if (Array.isArray(node) && segment.index < node.length) next.push(node[segment.index]);
+      } else if (node !== null && typeof node === 'object' && !Array.isArray(node) && segment.name in node) {
+        next.push((node as Record<string, unknown>)[segment.name]);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+};
+
+// Helper: Append a field name to a path, quoting names that are not plain identifiers
+const appendField = (path: string, name: string): string =>
+  /^[A-Za-z_$][\w$-]*$/.test(name) ? `${path}.${name}` : `${path}['${name.replace(/'/g, '')}']`;
+
+const isPrimitive = (value: unknown): boolean =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+/**
+ * Finds every array in a document that could be imported as a list
+ * @param value - Parsed JSON document
+ * @returns Absolute paths (e.g. "$.data.items") with the array length, largest first
+ */
+export const findArrayPaths = (value: unknown): Array<{ path: string; length: number }> => {
+  const found: Array<{ path: string; length: number }> = [];
+
+  const visit = (node: unknown, path: string, depth: number) => {
+    if (depth > MAX_PATH_DEPTH || node === null || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      if (node.length > 0) found.push({ path, length: node.length });
+      return;
+    }
+    Object.entries(node).forEach(([key, child]) => visit(child, appendField(path, key), depth + 1));
+  };
+
+  visit(value, '$', 0);
+  // Stable sort keeps document order among equally long arrays
+  return found.sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Lists relative paths to primitive fields of list elements
+ * Arrays of primitives are returned as the field itself (e.g. "tags"), arrays of objects
+ * as a wildcard path (e.g. "labels[*].name").
+ * @param elements - Elements of the selected list
+ * @returns Relative paths in first-seen order; "" stands for the element itself
+ */
+export const collectFieldPaths = (elements: unknown[]): string[] => {
+  const paths: string[] = [];
+  const add = (path: string) => {
+    if (!paths.includes(path)) paths.push(path);
+  };
+
+  const visit = (node: unknown, path: string, depth: number) => {
+    if (depth > MAX_PATH_DEPTH) return;
+    if (isPrimitive(node)) {
+      add(path);
+    } else if (Array.isArray(node)) {
+      if (node.some(isPrimitive)) add(path);
+      node.filter(child => child !== null && typeof child === 'object' && !Array.isArray(child))
+        .slice(0, FIELD_SAMPLE_SIZE)
+        .forEach(child => visit(child, `${path}[*]`, depth + 1));
+    } else if (node !== null && typeof node === 'object') {
+      Object.entries(node).forEach(([key, child]) => visit(child, appendField(path, key), depth + 1));
+    }
+  };
+
+  elements.slice(0, FIELD_SAMPLE_SIZE).forEach(element => visit(element, '', 0));
+  // Relative paths drop the leading dot added for the first field
+  return paths.map(path => path.startsWith('.') ? path.slice(1) : path);
+};
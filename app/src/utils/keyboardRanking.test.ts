@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDropMarker,
+  handleRankingKey,
+  INITIAL_KEYBOARD_STATE,
+  type KeyboardCommand,
+  type KeyboardRankingContext,
+  type KeyboardRankingState
+} from './keyboardRanking';
+
+const context: KeyboardRankingContext = {
+  inputItems: [
+    { id: 'in-1', isUsed: false },
+    { id: 'in-2', isUsed: true },
+    { id: 'in-3', isUsed: false }
+  ],
+  mainItems: [{ id: 'main-1' }, { id: 'main-2' }, { id: 'main-3' }],
+  hasTiers: false
+};
+
+const focused = (panel: 'input' | 'main', focusedId: string): KeyboardRankingState => ({
+  ...INITIAL_KEYBOARD_STATE,
+  panel,
+  focusedId
+});
+
+// Helper: Apply a sequence of keys, collecting the commands they produce
+const press = (state: KeyboardRankingState, keys: string[], ctx = context) => {
+  const commands: KeyboardCommand[] = [];
+  for (const key of keys) {
+    const result = handleRankingKey(state, { key }, ctx);
+    if (!result) continue;
+    state = result.state;
+    if (result.command) commands.push(result.command);
+  }
+  return { state, commands };
+};
+
+describe('handleRankingKey', () => {
+  describe('focus', () => {
+    it('should focus the first item on the first arrow down', () => {
+      expect(press(INITIAL_KEYBOARD_STATE, ['ArrowDown']).state.focusedId).toBe('in-1');
+    });
+
+    it('should move focus within a panel and stop at the ends', () => {
+      expect(press(focused('input', 'in-1'), ['ArrowDown', 'ArrowDown', 'ArrowDown']).state.focusedId).toBe('in-3');
+      expect(press(focused('input', 'in-2'), ['ArrowUp', 'ArrowUp']).state.focusedId).toBe('in-1');
+    });
+
+    it('should skip items hidden by the filter', () => {
+      const filtered = { ...context, hiddenInputIds: new Set(['in-2']), hiddenMainIds: new Set(['main-2']) };
+
+      expect(press(focused('input', 'in-1'), ['ArrowDown'], filtered).state.focusedId).toBe('in-3');
+      expect(press(focused('main', 'main-3'), ['ArrowUp'], filtered).state.focusedId).toBe('main-1');
+      // Positions still count hidden items
+      expect(press(focused('main', 'main-3'), ['1', 'Enter'], filtered).commands).toEqual([
+        { type: 'move-main-item', itemId: 'main-3', position: 1 }
+      ]);
+    });
+
+    it('should switch panels keeping the row', () => {
+      const { state } = press(focused('input', 'in-2'), ['ArrowRight']);
+
+      expect(state).toMatchObject({ panel: 'main', focusedId: 'main-2' });
+      expect(press(state, ['ArrowLeft']).state).toMatchObject({ panel: 'input', focusedId: 'in-2' });
+    });
+
+    it('should ignore keys with modifiers', () => {
+      expect(handleRankingKey(focused('input', 'in-1'), { key: 'ArrowDown', ctrlKey: true }, context)).toBeNull();
+    });
+  });
+
+  describe('pick up and drop', () => {
+    it('should carry an input item to a main list position', () => {
+      const { state, commands } = press(focused('input', 'in-1'), [' ', 'ArrowDown', 'ArrowDown', 'Enter']);
+
+      expect(commands).toEqual([{ type: 'move-to-main', itemId: 'in-1', position: 3 }]);
+      // Focus moves on to the next input item
+      expect(state).toMatchObject({ panel: 'input', focusedId: 'in-2', pickedUp: null });
+    });
+
+    it('should not move a picked up item past the end of the list', () => {
+      const { state } = press(focused('input', 'in-1'), [' ', 'End', 'ArrowDown']);
+
+      expect(state.pickedUp?.position).toBe(4);
+    });
+
+    it('should move a main item to its new position', () => {
+      const { commands } = press(focused('main', 'main-1'), [' ', 'ArrowDown', 'ArrowDown', 'Enter']);
+
+      expect(commands).toEqual([{ type: 'move-main-item', itemId: 'main-1', position: 3 }]);
+    });
+
+    it('should not pick up used input items', () => {
+      expect(handleRankingKey(focused('input', 'in-2'), { key: ' ' }, context)).toBeNull();
+    });
+
+    it('should cancel with Escape', () => {
+      const { state, commands } = press(focused('main', 'main-2'), [' ', 'ArrowUp', 'Escape']);
+
+      expect(state.pickedUp).toBeNull();
+      expect(commands).toEqual([]);
+    });
+
+    it('should put the item in the tier of the item it lands after', () => {
+      const tiered: KeyboardRankingContext = {
+        ...context,
+        mainItems: [{ id: 'main-1', tierId: 'tier-s' }, { id: 'main-2', tierId: 'tier-a' }],
+        hasTiers: true
+      };
+
+      expect(press(focused('input', 'in-1'), [' ', 'ArrowDown', 'Enter'], tiered).commands).toEqual([
+        { type: 'move-to-main', itemId: 'in-1', position: 2, tierId: 'tier-s' }
+      ]);
+      expect(press(focused('main', 'main-1'), [' ', 'ArrowDown', 'Enter'], tiered).commands).toEqual([
+        { type: 'move-main-item', itemId: 'main-1', position: 2, tierId: 'tier-a' }
+      ]);
+    });
+  });
+
+  describe('send shortcuts', () => {
+    it('should send the focused input item to the top or bottom', () => {
+      expect(press(focused('input', 'in-1'), ['Home']).commands).toEqual([
+        { type: 'move-to-main', itemId: 'in-1', position: 1 }
+      ]);
+      expect(press(focused('input', 'in-3'), ['End']).commands).toEqual([
+        { type: 'move-to-main', itemId: 'in-3', position: 4 }
+      ]);
+    });
+
+    it('should send the focused item to a typed position', () => {
+      const typed = press(focused('input', 'in-1'), ['1', '2']);
+      expect(typed.state.positionInput).toBe('12');
+
+      // Positions beyond the list are clamped
+      expect(press(typed.state, ['Backspace', 'Enter']).commands).toEqual([
+        { type: 'move-to-main', itemId: 'in-1', position: 1 }
+      ]);
+      expect(press(typed.state, ['Enter']).commands).toEqual([
+        { type: 'move-to-main', itemId: 'in-1', position: 4 }
+      ]);
+    });
+
+    it('should not send main items to the position they already hold', () => {
+      expect(press(focused('main', 'main-1'), ['Home']).commands).toEqual([]);
+    });
+  });
+
+  describe('other shortcuts', () => {
+    it('should remove the focused main item and focus its neighbour', () => {
+      const { state, commands } = press(focused('main', 'main-3'), ['Delete']);
+
+      expect(commands).toEqual([{ type: 'remove-from-main', itemId: 'main-3' }]);
+      expect(state.focusedId).toBe('main-2');
+    });
+
+    it('should open the tag input and details editor and toggle the help', () => {
+      expect(press(focused('input', 'in-2'), ['t', 'd', '?']).commands).toEqual([
+        { type: 'open-tag-input', itemId: 'in-2' },
+        { type: 'open-details', itemId: 'in-2' },
+        { type: 'toggle-help' }
+      ]);
+    });
+
+    it('should leave unrelated keys alone', () => {
+      expect(handleRankingKey(focused('input', 'in-1'), { key: 'x' }, context)).toBeNull();
+      expect(handleRankingKey(INITIAL_KEYBOARD_STATE, { key: 'Enter' }, context)).toBeNull();
+    });
+  });
+});
+
+describe('getDropMarker', () => {
+  it('should mark where an input item lands', () => {
+    const pickedUp = { itemId: 'in-1', panel: 'input' as const, position: 3 };
+
+    expect(getDropMarker(2, pickedUp, null)).toBe('after');
+    expect(getDropMarker(3, pickedUp, null)).toBeNull();
+    expect(getDropMarker(1, { ...pickedUp, position: 1 }, null)).toBe('before');
+  });
+
+  it('should mark where a main item lands relative to the item it displaces', () => {
+    const pickedUp = { itemId: 'main-2', panel: 'main' as const, position: 1 };
+
+    expect(getDropMarker(1, pickedUp, 2)).toBe('before');
+    expect(getDropMarker(3, { ...pickedUp, position: 3 }, 2)).toBe('after');
+    expect(getDropMarker(2, { ...pickedUp, position: 2 }, 2)).toBeNull();
+  });
+});
\ No newline at end of file
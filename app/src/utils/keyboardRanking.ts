@@ -0,0 +1,308 @@
+// Keyboard-only ranking
+// A keyboard focus moves over the items of the active input list and the main list. The focused
+// item can be picked up and carried to a position in the main list, or sent straight to the
+// top, the bottom or a typed position. Keys are mapped to commands here; the workspace runs them.
+import type { MainListItem } from '../types/index';
+
+export type KeyboardPanel = 'input' | 'main';
+
+export interface PickedUpItem {
+  itemId: string;
+  panel: KeyboardPanel;
+  position: number; // Main list position the item would be dropped at
+}
+
+export interface KeyboardRankingState {
+  panel: KeyboardPanel;
+  focusedId: string | null;
+  pickedUp: PickedUpItem | null;
+  positionInput: string; // Digits typed so far for "send to position N"
+}
+
+export interface KeyboardRankingContext {
+  inputItems: Array<{ id: string; isUsed: boolean }>; // Active input list, in display order
+  mainItems: Array<Pick<MainListItem, 'id' | 'tierId'>>; // Main list, in rank order
+  hasTiers: boolean;
+  // Items hidden by the filter bar, per panel since ranked items keep their input item's ID.
+  // Focus skips them; main list positions still count them.
+  hiddenInputIds?: ReadonlySet<string>;
+  hiddenMainIds?: ReadonlySet<string>;
+}
+
+export type KeyboardCommand =
+  | { type: 'move-to-main'; itemId: string; position: number; tierId?: string | null }
+  | { type: 'move-main-item'; itemId: string; position: number; tierId?: string | null }
+  | { type: 'remove-from-main'; itemId: string }
+  | { type: 'open-tag-input'; itemId: string }
+  | { type: 'open-details'; itemId: string }
+  | { type: 'focus-search' }
+  | { type: 'toggle-help' };
+
+export interface KeyboardKey {
+  key: string;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  altKey?: boolean;
+}
+
+export interface KeyboardResult {
+  state: KeyboardRankingState;
+  command?: KeyboardCommand;
+}
+
+// Shortcuts listed in the help overlay
+export const KEYBOARD_SHORTCUTS: Array<{ keys: string[]; description: string }> = [
+  { keys: ['↑', '↓'], description: 'Move focus between items' },
+  { keys: ['←', '→'], description: 'Switch between the input list and the main list' },
+  { keys: ['Space'], description: 'Pick up the focused item' },
+  { keys: ['↑', '↓', 'Home', 'End'], description: 'Move the picked up item' },
+  { keys: ['Enter'], description: 'Drop the picked up item' },
+  { keys: ['Esc'], description: 'Cancel the move' },
+  { keys: ['Home'], description: 'Send the focused item to the top of the main list' },
+  { keys: ['End'], description: 'Send the focused item to the bottom of the main list' },
+  { keys: ['1-9', 'Enter'], description: 'Send the focused item to position N' },
+  { keys: ['T'], description: 'Tag the focused item' },
+  { keys: ['D'], description: 'Edit the notes, link and fields of the focused item' },
+  { keys: ['Delete'], description: 'Remove the focused item from the main list' },
+  { keys: ['/'], description: 'Search and filter items' },
+  { keys: ['?'], description: 'Show or hide this help' }
+];
+
+// Typed positions beyond this many digits are ignored
+const MAX_POSITION_DIGITS = 4;
+
+export const INITIAL_KEYBOARD_STATE: KeyboardRankingState = {
+  panel: 'input',
+  focusedId: null,
+  pickedUp: null,
+  positionInput: ''
+};
+
+// Helper: IDs of the items the focus moves over in a panel
+const panelIds = (panel: KeyboardPanel, context: KeyboardRankingContext): string[] => {
+  const ids = (panel === 'input' ? context.inputItems : context.mainItems).map(item => item.id);
+  const hidden = panel === 'input' ? context.hiddenInputIds : context.hiddenMainIds;
+  return hidden ? ids.filter(id => !hidden.has(id)) : ids;
+};
+
+// Helper: Focus the item `step` places away, or the first/last item when nothing in the panel is focused
+const moveFocus = (state: KeyboardRankingState, context: KeyboardRankingContext, step: number): KeyboardRankingState => {
+  const ids = panelIds(state.panel, context);
+  if (ids.length === 0) return state;
+
+  const index = state.focusedId ? ids.indexOf(state.focusedId) : -1;
+  const next = index === -1
+    ? (step > 0 ? 0 : ids.length - 1)
+    : Math.min(ids.length - 1, Math.max(0, index + step));
+  return { ...state, focusedId: ids[next], positionInput: '' };
+};
+
+// Helper: Focus the next item (or the previous one at the end) before the focused item goes away
+const focusNeighbour = (state: KeyboardRankingState, context: KeyboardRankingContext): KeyboardRankingState => {
+  const ids = panelIds(state.panel, context);
+  const index = ids.indexOf(state.focusedId!);
+  return { ...state, focusedId: ids[index + 1] ?? ids[index - 1] ?? null, positionInput: '' };
+};
+
+// Helper: Switch panels, keeping roughly the same row focused
+const switchPanel = (state: KeyboardRankingState, context: KeyboardRankingContext, panel: KeyboardPanel): KeyboardRankingState => {
+  if (state.panel === panel) return state;
+
+  const index = state.focusedId ? panelIds(state.panel, context).indexOf(state.focusedId) : -1;
+  const ids = panelIds(panel, context);
+  return {
+    ...state,
+    panel,
+    focusedId: ids.length > 0 ? ids[Math.min(Math.max(index, 0), ids.length - 1)] : null,
+    positionInput: ''
+  };
+};
+
+// Helper: Tier a dropped item joins in tier list mode; it takes the tier of the item it lands after
+const tierAt = (context: KeyboardRankingContext, itemId: string, position: number): string | null | undefined => {
+  if (!context.hasTiers) return undefined;
+  const others = context.mainItems.filter(item => item.id !== itemId);
+  const neighbour = others[position - 2] ?? others[position - 1];
+  return neighbour?.tierId ?? null;
+};
+
+/**
+ * Gets the range of main list positions an item can be moved to
+ * @param panel - Panel the item comes from
+ * @param context - Current lists
+ * @returns The last valid position; input items can also be appended after the last main item
+ */
+export const getMaxPosition = (panel: KeyboardPanel, context: KeyboardRankingContext): number =>
+  panel === 'input' ? context.mainItems.length + 1 : context.mainItems.length;
+
+// Helper: Command that puts an item at a main list position
+const placeItem = (
+  panel: KeyboardPanel,
+  itemId: string,
+  position: number,
+  context: KeyboardRankingContext
+): KeyboardCommand | undefined => {
+  const target = Math.min(Math.max(position, 1), getMaxPosition(panel, context));
+  const tierId = tierAt(context, itemId, target);
+
+  if (panel === 'input') {
+    return { type: 'move-to-main', itemId, position: target, ...(tierId !== undefined ? { tierId } : {}) };
+  }
+  const current = context.mainItems.findIndex(item => item.id === itemId) + 1;
+  if (current === 0 || current === target) return undefined;
+  return { type: 'move-main-item', itemId, position: target, ...(tierId !== undefined ? { tierId } : {}) };
+};
+
+// Helper: Whether the focused item can be placed in the main list
+const canPlace = (state: KeyboardRankingState, context: KeyboardRankingContext): boolean => {
+  if (!state.focusedId) return false;
+  if (state.panel === 'main') return context.mainItems.some(item => item.id === state.focusedId);
+  return context.inputItems.some(item => item.id === state.focusedId && !item.isUsed);
+};
+
+// Helper: State after an input item has been sent to the main list; focus moves on to the next item
+const afterSend = (state: KeyboardRankingState, context: KeyboardRankingContext): KeyboardRankingState => {
+  if (state.panel === 'main') return { ...state, pickedUp: null, positionInput: '' };
+
+  const ids = panelIds('input', context);
+  const index = ids.indexOf(state.focusedId!);
+  const remaining = ids.slice(index + 1);
+  return { ...state, focusedId: remaining[0] ?? state.focusedId, pickedUp: null, positionInput: '' };
+};
+
+// Helper: Keys while an item is picked up
+const handlePickedUpKey = (
+  state: KeyboardRankingState,
+  pickedUp: PickedUpItem,
+  key: string,
+  context: KeyboardRankingContext
+): KeyboardResult | null => {
+  const maxPosition = getMaxPosition(pickedUp.panel, context);
+  const moveTo = (position: number): KeyboardResult => ({
+    state: { ...state, pickedUp: { ...pickedUp, position: Math.min(Math.max(position, 1), maxPosition) } }
+  });
+
+  switch (key) {
+    case 'ArrowUp':
+      return moveTo(pickedUp.position - 1);
+    case 'ArrowDown':
+      return moveTo(pickedUp.position + 1);
+    case 'Home':
+      return moveTo(1);
+    case 'End':
+      return moveTo(maxPosition);
+    case 'Enter':
+    case ' ':
+      return {
+        state: afterSend({ ...state, panel: pickedUp.panel, focusedId: pickedUp.itemId }, context),
+        command: placeItem(pickedUp.panel, pickedUp.itemId, pickedUp.position, context)
+      };
+    case 'Escape':
+      return { state: { ...state, pickedUp: null } };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Applies one key press to the keyboard ranking state
+ * @param state - Current keyboard state
+ * @param event - The key pressed, with its modifiers
+ * @param context - Current lists
+ * @returns The next state and the command to run, or null when the key is not a ranking shortcut
+ */
+export const handleRankingKey = (
+  state: KeyboardRankingState,
+  event: KeyboardKey,
+  context: KeyboardRankingContext
+): KeyboardResult | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  if (state.pickedUp) return handlePickedUpKey(state, state.pickedUp, event.key, context);
+
+  const { key } = event;
+  const focusedId = state.focusedId;
+
+  if (/^[0-9]$/.test(key) && focusedId) {
+    if (state.positionInput.length >= MAX_POSITION_DIGITS) return { state };
+    return { state: { ...state, positionInput: state.positionInput + key } };
+  }
+
+  switch (key) {
+    case 'ArrowUp':
+      return { state: moveFocus(state, context, -1) };
+    case 'ArrowDown':
+      return { state: moveFocus(state, context, 1) };
+    case 'ArrowLeft':
+      return { state: switchPanel(state, context, 'input') };
+    case 'ArrowRight':
+      return { state: switchPanel(state, context, 'main') };
+    case '?':
+      return { state, command: { type: 'toggle-help' } };
+    case '/':
+      return { state: { ...state, positionInput: '' }, command: { type: 'focus-search' } };
+    case 'Escape':
+      return state.positionInput ? { state: { ...state, positionInput: '' } } : null;
+  }
+
+  if (!focusedId) return null;
+
+  switch (key) {
+    case ' ': {
+      if (!canPlace(state, context)) return null;
+      const position = state.panel === 'input'
+        ? 1
+        : context.mainItems.findIndex(item => item.id === focusedId) + 1;
+      return { state: { ...state, pickedUp: { itemId: focusedId, panel: state.panel, position }, positionInput: '' } };
+    }
+    case 'Home':
+    case 'End':
+      if (!canPlace(state, context)) return null;
+      return {
+        state: afterSend(state, context),
+        command: placeItem(state.panel, focusedId, key === 'Home' ? 1 : getMaxPosition(state.panel, context), context)
+      };
+    case 'Enter':
+      if (!state.positionInput) return null;
+      if (!canPlace(state, context)) return { state: { ...state, positionInput: '' } };
+      return {
+        state: afterSend(state, context),
+        command: placeItem(state.panel, focusedId, Number(state.positionInput), context)
+      };
+    case 'Backspace':
+    case 'Delete':
+      if (key === 'Backspace' && state.positionInput) {
+        return { state: { ...state, positionInput: state.positionInput.slice(0, -1) } };
+      }
+      if (state.panel !== 'main' || !canPlace(state, context)) return null;
+      return { state: focusNeighbour(state, context), command: { type: 'remove-from-main', itemId: focusedId } };
+    case 't':
+    case 'T':
+      return { state: { ...state, positionInput: '' }, command: { type: 'open-tag-input', itemId: focusedId } };
+    case 'd':
+    case 'D':
+      return { state: { ...state, positionInput: '' }, command: { type: 'open-details', itemId: focusedId } };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Works out where the drop marker of a picked up item sits relative to a main list item
+ * @param itemPosition - Position of the main list item being rendered
+ * @param pickedUp - The picked up item
+ * @param pickedUpPosition - Current position of the picked up item in the main list, or null for input items
+ * @returns 'before' or 'after' the item, or null when the marker is elsewhere
+ */
+export const getDropMarker = (
+  itemPosition: number,
+  pickedUp: PickedUpItem,
+  pickedUpPosition: number | null
+): 'before' | 'after' | null => {
+  if (pickedUpPosition === null) {
+    // Input items: the marker follows the item they would land after
+    if (pickedUp.position === 1) return itemPosition === 1 ? 'before' : null;
+    return itemPosition === pickedUp.position - 1 ? 'after' : null;
+  }
+  if (itemPosition !== pickedUp.position || pickedUp.position === pickedUpPosition) return null;
+  return pickedUp.position < pickedUpPosition ? 'before' : 'after';
+};
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { buildListExportRows, formatListExport, type ListExportOptions } from './listExport';
+import type { Tag, Project } from '../types/index';
+
+// Test data helpers
+const createTag = (id: string, name: string): Tag => ({
+  id,
+  name,
+  color: '#3b82f6',
+  createdAt: new Date(),
+  usageCount: 1
+});
+
+const tagPool = [createTag('tag-1', 'sci-fi'), createTag('tag-2', 'classic')];
+
+const createProject = (): Project => ({
+  id: 'project-1',
+  name: 'Best <Books>',
+  createdAt: new Date(),
+  modifiedAt: new Date(),
+  inputLists: [
+    {
+      id: 'list-1',
+      name: 'Books',
+      items: [
+        { id: 'item-1', content: 'Dune', isUsed: true, tags: ['tag-1', 'tag-2'] },
+        { id: 'item-2', content: 'Emma', isUsed: true, tags: [], notes: 'Reread' },
+        { id: 'item-3', content: 'Ulysses', isUsed: false, tags: ['tag-2'] }
+      ]
+    }
+  ],
+  mainList: [
+    { id: 'item-2', content: 'Emma', sourceListId: 'list-1', order: 2, tags: [], notes: 'Reread' },
+    { id: 'item-1', content: 'Dune', sourceListId: 'list-1', order: 1, tags: ['tag-1', 'tag-2'] },
+    { id: 'item-4', content: 'Orphan | item', sourceListId: 'deleted-list', order: 3, tags: ['missing'] }
+  ]
+});
+
+const options = (changes: Partial<ListExportOptions> = {}): ListExportOptions => ({
+  format: 'csv',
+  columns: ['rank', 'source', 'tags'],
+  includeUnranked: false,
+  ...changes
+});
+
+describe('buildListExportRows', () => {
+  it('should rank main list items by order and resolve tag and list names', () => {
+    const { ranked, unranked } = buildListExportRows(createProject(), tagPool, false);
+
+    expect(ranked.map(row => [row.rank, row.content, row.source, row.tags])).toEqual([
+      [1, 'Dune', 'Books', ['sci-fi', 'classic']],
+      [2, 'Emma', 'Books', []],
+      [3, 'Orphan | item', '', []]
+    ]);
+    expect(unranked).toEqual([]);
+  });
+
+  it('should collect unused input items as unranked', () => {
+    const { unranked } = buildListExportRows(createProject(), tagPool, true);
+
+    expect(unranked).toEqual([{ rank: null, tier: '', content: 'Ulysses', source: 'Books', tags: ['classic'], notes: '', url: '', fields: {} }]);
+  });
+});
+
+describe('formatListExport', () => {
+  it('should export CSV with the selected columns in a fixed order', () => {
+    const csv = formatListExport(createProject(), tagPool, options({ columns: ['tags', 'rank'], includeUnranked: true }));
+
+    expect(csv.split('\r\n')).toEqual([
+      'Rank,Content,Tags',
+      '1,Dune,sci-fi; classic',
+      '2,Emma,',
+      '3,Orphan | item,',
+      ',Ulysses,classic'
+    ]);
+  });
+
+  it('should export a numbered Markdown list with an unranked section', () => {
+    const markdown = formatListExport(createProject(), tagPool, options({
+      format: 'markdown-list',
+      columns: ['rank', 'tags', 'notes'],
+      includeUnranked: true
+    }));
+
+    expect(markdown).toBe([
+      '1. Dune [sci-fi, classic]',
+      '2. Emma',
+      '   Reread',
+      '3. Orphan \\| item',
+      '',
+      '## Unranked',
+      '',
+      '- Ulysses [classic]'
+    ].join('\n'));
+  });
+
+  it('should export a Markdown table with escaped cells', () => {
+    const markdown = formatListExport(createProject(), tagPool, options({ format: 'markdown-table' }));
+
+    expect(markdown.split('\n')).toEqual([
+      '| Rank | Content | Source List | Tags |',
+      '| ---: | --- | --- | --- |',
+      '| 1 | Dune | Books | sci-fi; classic |',
+      '| 2 | Emma | Books |  |',
+      '| 3 | Orphan \\| item |  |  |'
+    ]);
+  });
+
+  it('should export the tier of each item in tier list mode', () => {
+    const project: Project = {
+      ...createProject(),
+      tiers: [{ id: 'tier-s', name: 'S', color: '#ef4444' }]
+    };
+    project.mainList[1] = { ...project.mainList[1], tierId: 'tier-s' };
+
+    expect(formatListExport(project, tagPool, options({ columns: ['rank', 'tier'] })).split('\r\n')).toEqual([
+      'Rank,Tier,Content',
+      '1,S,Dune',
+      '2,Unsorted,Emma',
+      '3,Unsorted,Orphan | item'
+    ]);
+    expect(formatListExport(project, tagPool, options({ format: 'markdown-list', columns: ['rank', 'tier'] })))
+      .toBe('1. S — Dune\n2. Unsorted — Emma\n3. Unsorted — Orphan \\| item');
+  });
+
+  it('should leave out the tier column without tiers', () => {
+    const csv = formatListExport(createProject(), tagPool, options({ columns: ['tier'] }));
+
+    expect(csv.split('\r\n')[0]).toBe('Content');
+  });
+
+  it('should export links and one column per custom field', () => {
+    const project: Project = {
+      ...createProject(),
+      customFields: [
+        { id: 'f-year', name: 'Year', type: 'number' },
+        { id: 'f-format', name: 'Format', type: 'select', options: ['Paperback', 'Ebook'] }
+      ]
+    };
+    project.mainList[1] = { ...project.mainList[1], url: 'https://example.com/dune', fields: { 'f-year': 1965, 'f-format': 'Ebook' } };
+    project.mainList[2] = { ...project.mainList[2], url: 'javascript:alert(1)' };
+    const columns: ListExportOptions['columns'] = ['rank', 'url', 'fields'];
+
+    expect(formatListExport(project, tagPool, options({ columns })).split('\r\n')).toEqual([
+      'Rank,Content,Link,Year,Format',
+      '1,Dune,https://example.com/dune,1965,Ebook',
+      '2,Emma,,,',
+      '3,Orphan | item,javascript:alert(1),,'
+    ]);
+    expect(formatListExport(project, tagPool, options({ format: 'markdown-list', columns })).split('\n')).toEqual([
+      '1. [Dune](<https://example.com/dune>) {Year: 1965, Format: Ebook}',
+      '2. Emma',
+      '3. Orphan \\| item'
+    ]);
+
+    const html = formatListExport(project, tagPool, options({ format: 'html', columns }));
+    expect(html).toContain('<th>Link</th><th>Year</th><th>Format</th>');
+    expect(html).toContain('<td><a href="https://example.com/dune">https://example.com/dune</a></td><td>1965</td><td>Ebook</td>');
+    expect(html).toContain('<td>javascript:alert(1)</td>');
+  });
+
+  it('should export plain text without rank numbers when rank is excluded', () => {
+    const text = formatListExport(createProject(), tagPool, options({ format: 'text', columns: ['source'] }));
+
+    expect(text).toBe('- Dune (Books)\n- Emma (Books)\n- Orphan | item');
+  });
+
+  it('should export a standalone HTML page with escaped content', () => {
+    const html = formatListExport(
+      createProject(),
+      tagPool,
+      options({ format: 'html', includeUnranked: true }),
+      new Date('2024-05-01T12:00:00Z')
+    );
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Best &lt;Books&gt;</title>');
+    expect(html).toContain('<style>');
+    expect(html).toContain('3 ranked items · Exported 2024-05-01');
+    expect(html).toContain('<tr><td class="rank">1</td><td>Dune</td><td>Books</td><td><span class="tag">sci-fi</span><span class="tag">classic</span></td></tr>');
+    expect(html).toContain('<h2>Unranked</h2>');
+    expect(html).toContain('<tr><td>Ulysses</td><td>Books</td><td><span class="tag">classic</span></td></tr>');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,345 @@
+// Export of the ranked main list as CSV, Markdown, plain text or a standalone HTML page
+import type { CustomField, Project, Tag } from '../types/index';
+import { stringifyCSV } from './csv';
+import { getItemTier, UNSORTED_TIER_NAME } from './tiers';
+import { getActiveOutputList } from './outputLists';
+import { getFieldEntries, isWebUrl } from './customFields';
+
+export type ListExportFormat = 'csv' | 'markdown-list' | 'markdown-table' | 'text' | 'html';
+
+// Content is always exported; every other column is optional (tier only applies in tier list mode,
+// fields expands to one column per custom field of the project)
+export type ListExportColumn = 'rank' | 'tier' | 'source' | 'tags' | 'notes' | 'url' | 'fields';
+
+export interface ListExportOptions {
+  format: ListExportFormat;
+  columns: ListExportColumn[];
+  includeUnranked: boolean; // Append input list items that never made it onto the main list
+}
+
+export const LIST_EXPORT_FORMATS: Array<{ format: ListExportFormat; label: string; extension: string; mimeType: string }> = [
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'markdown-list', label: 'Markdown list', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'markdown-table', label: 'Markdown table', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'text', label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'html', label: 'HTML page', extension: 'html', mimeType: 'text/html' }
+];
+
+export const LIST_EXPORT_COLUMN_LABELS: Record<ListExportColumn, string> = {
+  rank: 'Rank',
+  tier: 'Tier',
+  source: 'Source List',
+  tags: 'Tags',
+  notes: 'Notes',
+  url: 'Link',
+  fields: 'Custom Fields'
+};
+
+export const DEFAULT_LIST_EXPORT_OPTIONS: ListExportOptions = {
+  format: 'csv',
+  columns: ['rank', 'source', 'tags'],
+  includeUnranked: false
+};
+
+export interface ListExportRow {
+  rank: number | null; // null for unranked leftovers
+  tier: string; // Tier name in tier list mode, otherwise empty
+  content: string;
+  source: string;
+  tags: string[];
+  notes: string;
+  url: string;
+  fields: Record<string, string>; // Custom field values as text, by field ID
+}
+
+// One column per custom field
+type CustomFieldColumn = `field:${string}`;
+
+// A table field: the always-present content plus the optional columns
+type ExportField = Exclude<ListExportColumn, 'fields'> | 'content' | CustomFieldColumn;
+
+// Field order is fixed regardless of the order columns were toggled in
+const FIELD_ORDER: Array<ListExportColumn | 'content'> = ['rank', 'tier', 'content', 'source', 'tags', 'notes', 'url', 'fields'];
+
+const FIELD_LABELS: Record<Exclude<ExportField, CustomFieldColumn>, string> = { ...LIST_EXPORT_COLUMN_LABELS, content: 'Content' };
+
+const isCustomFieldColumn = (field: ExportField): field is CustomFieldColumn => field.startsWith('field:');
+
+// Header of a field; custom field columns are headed by the field name
+type LabelOf = (field: ExportField) => string;
+
+const UNRANKED_HEADING = 'Unranked';
+
+/**
+ * Collects the rows to export: the main list in rank order, optionally followed by unused input items
+ * @param project - Project to export
+ * @param tagPool - Tags used to resolve tag IDs to names
+ * @param includeUnranked - Whether to append input list items not on the main list
+ * @returns Ranked rows and unranked rows
+ */
+export const buildListExportRows = (
+  project: Project,
+  tagPool: Tag[],
+  includeUnranked: boolean
+): { ranked: ListExportRow[]; unranked: ListExportRow[] } => {
+  const tagNames = new Map(tagPool.map(tag => [tag.id, tag.name]));
+  const listNames = new Map(project.inputLists.map(list => [list.id, list.name]));
+  const resolveTags = (tagIds: string[]) =>
+    tagIds.map(tagId => tagNames.get(tagId)).filter((name): name is string => name !== undefined);
+  const resolveFields = (values: Parameters<typeof getFieldEntries>[0]) =>
+    Object.fromEntries(getFieldEntries(values, project.customFields ?? []).map(entry => [entry.field.id, entry.value]));
+
+  const ranked = [...project.mainList]
+    .sort((a, b) => a.order - b.order)
+    .map((item, index) => ({
+      rank: index + 1,
+      tier: project.tiers ? getItemTier(item, project.tiers)?.name ?? UNSORTED_TIER_NAME : '',
+      content: item.content,
+      // Items from a deleted list keep their rank but lose the list name
+      source: listNames.get(item.sourceListId) ?? '',
+      tags: resolveTags(item.tags),
+      notes: item.notes ?? '',
+      url: item.url ?? '',
+      fields: resolveFields(item.fields)
+    }));
+
+  const unranked = includeUnranked
+    ? project.inputLists.flatMap(list => list.items
+      .filter(item => !item.isUsed)
+      .map(item => ({
+        rank: null,
+        tier: '',
+        content: item.content,
+        source: list.name,
+        tags: resolveTags(item.tags),
+        notes: item.notes ?? '',
+        url: item.url ?? '',
+        fields: resolveFields(item.fields)
+      })))
+    : [];
+
+  return { ranked, unranked };
+};
+
+// Helper: Content plus the selected columns, in display order
+const orderFields = (columns: ListExportColumn[], customFields: CustomField[]): ExportField[] =>
+  FIELD_ORDER
+    .filter(field => field === 'content' || columns.includes(field))
+    .flatMap((field): ExportField[] => field === 'fields'
+      ? customFields.map(customField => `field:${customField.id}` as const)
+      : [field]);
+
+// Helper: Custom field ID of a custom field column
+const customFieldId = (field: CustomFieldColumn): string => field.slice('field:'.length);
+
+// Helper: Plain string value of a field
+const fieldValue = (row: ListExportRow, field: ExportField): string => {
+  if (isCustomFieldColumn(field)) return row.fields[customFieldId(field)] ?? '';
+  switch (field) {
+    case 'rank': return row.rank === null ? '' : String(row.rank);
+    case 'tier': return row.tier;
+    case 'content': return row.content;
+    case 'source': return row.source;
+    case 'tags': return row.tags.join('; ');
+    case 'notes': return row.notes;
+    case 'url': return row.url;
+  }
+};
+
+const toCSV = (rows: ListExportRow[], fields: ExportField[], labelOf: LabelOf): string =>
+  stringifyCSV([
+    fields.map(labelOf),
+    ...rows.map(row => fields.map(field => fieldValue(row, field)))
+  ]);
+
+/**
+ * Escapes characters with meaning in Markdown inline text
+ * @param text - Plain text
+ * @returns Text that renders as itself, on one line
+ */
+export const escapeMarkdown = (text: string): string =>
+  text.replace(/([\\`*_[\]<>|#])/g, '\\$1').replace(/\r?\n/g, ' ');
+
+// Helper: Suffix with source, tags and custom fields, shared by the list-style formats
+const describeExtras = (
+  row: ListExportRow,
+  fields: ExportField[],
+  labelOf: LabelOf,
+  escape: (text: string) => string
+): string => {
+  const parts: string[] = [];
+  if (fields.includes('source') && row.source) parts.push(`(${escape(row.source)})`);
+  if (fields.includes('tags') && row.tags.length > 0) parts.push(`[${row.tags.map(escape).join(', ')}]`);
+  const fieldParts = fields
+    .filter(isCustomFieldColumn)
+    .filter(field => row.fields[customFieldId(field)])
+    .map(field => `${escape(labelOf(field))}: ${escape(row.fields[customFieldId(field)])}`);
+  if (fieldParts.length > 0) parts.push(`{${fieldParts.join(', ')}}`);
+  return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+};
+
+// Helper: Tier prefix for the list-style formats
+const describeTier = (row: ListExportRow, fields: ExportField[], escape: (text: string) => string): string =>
+  fields.includes('tier') && row.tier ? `${escape(row.tier)} — ` : '';
+
+const toMarkdownList = (ranked: ListExportRow[], unranked: ListExportRow[], fields: ExportField[], labelOf: LabelOf): string => {
+  const renderRow = (row: ListExportRow) => {
+    const marker = row.rank !== null && fields.includes('rank') ? `${row.rank}.` : '-';
+    // Links become autolinks; links that are not web links stay plain text
+    const content = fields.includes('url') && row.url && isWebUrl(row.url)
+      ? `[${escapeMarkdown(row.content)}](<${row.url.replace(/[<>]/g, encodeURIComponent)}>)`
+      : escapeMarkdown(row.content);
+    const line = `${marker} ${describeTier(row, fields, escapeMarkdown)}${content}${describeExtras(row, fields, labelOf, escapeMarkdown)}`;
+    const indent = ' '.repeat(marker.length + 1);
+    return fields.includes('notes') && row.notes ? `${line}\n${indent}${escapeMarkdown(row.notes)}` : line;
+  };
+
+  const sections = [ranked.map(renderRow).join('\n')];
+  if (unranked.length > 0) {
+    sections.push(`## ${UNRANKED_HEADING}\n\n${unranked.map(renderRow).join('\n')}`);
+  }
+  return sections.filter(Boolean).join('\n\n');
+};
+
+const toMarkdownTable = (ranked: ListExportRow[], unranked: ListExportRow[], fields: ExportField[], labelOf: LabelOf): string => {
+  const renderTable = (rows: ListExportRow[], tableFields: ExportField[]) => [
+    `| ${tableFields.map(field => escapeMarkdown(labelOf(field))).join(' | ')} |`,
+    `| ${tableFields.map(field => field === 'rank' ? '---:' : '---').join(' | ')} |`,
+    ...rows.map(row => `| ${tableFields.map(field => escapeMarkdown(fieldValue(row, field))).join(' | ')} |`)
+  ].join('\n');
+
+  const sections = ranked.length > 0 || unranked.length === 0 ? [renderTable(ranked, fields)] : [];
+  if (unranked.length > 0) {
+    sections.push(`## ${UNRANKED_HEADING}\n\n${renderTable(unranked, fields.filter(field => field !== 'rank' && field !== 'tier'))}`);
+  }
+  return sections.join('\n\n');
+};
+
+const toPlainText = (ranked: ListExportRow[], unranked: ListExportRow[], fields: ExportField[], labelOf: LabelOf): string => {
+  const identity = (text: string) => text;
+  const renderRow = (row: ListExportRow) => {
+    const marker = row.rank !== null && fields.includes('rank') ? `${row.rank}.` : '-';
+    const link = fields.includes('url') && row.url ? ` <${row.url}>` : '';
+    const line = `${marker} ${describeTier(row, fields, identity)}${row.content}${describeExtras(row, fields, labelOf, identity)}${link}`;
+    const indent = ' '.repeat(marker.length + 1);
+    return fields.includes('notes') && row.notes ? `${line}\n${indent}${row.notes.replace(/\r?\n/g, `\n${indent}`)}` : line;
+  };
+
+  const sections = [ranked.map(renderRow).join('\n')];
+  if (unranked.length > 0) {
+    sections.push(`${UNRANKED_HEADING}:\n${unranked.map(renderRow).join('\n')}`);
+  }
+  return sections.filter(Boolean).join('\n\n');
+};
+
+// Helper: Escape text for HTML element content and attribute values
+const escapeHTML = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const HTML_STYLES = `
+    body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111827; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1.125rem; margin-top: 2rem; }
+    .meta { color: #6b7280; font-size: 0.875rem; }
+    table { width: 100%; border-collapse: collapse; margin-top: 1rem; }
+    th, td { text-align: left; padding: 0.5rem 0.75rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    th { background: #f9fafb; font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; color: #4b5563; }
+    td.rank { width: 3rem; text-align: right; font-weight: 600; color: #4b5563; }
+    td.tier { width: 4rem; font-weight: 600; }
+    .tag { display: inline-block; margin: 0 0.25rem 0.25rem 0; padding: 0.125rem 0.5rem; border-radius: 9999px; background: #e5e7eb; font-size: 0.75rem; }
+    .notes { white-space: pre-wrap; color: #4b5563; font-size: 0.875rem; }`;
+
+const toHTML = (
+  projectName: string,
+  ranked: ListExportRow[],
+  unranked: ListExportRow[],
+  fields: ExportField[],
+  labelOf: LabelOf,
+  exportedAt: Date
+): string => {
+  const renderCell = (row: ListExportRow, field: ExportField) => {
+    if (isCustomFieldColumn(field)) return `<td>${escapeHTML(fieldValue(row, field))}</td>`;
+    switch (field) {
+      case 'rank': return `<td class="rank">${row.rank ?? ''}</td>`;
+      case 'tier': return `<td class="tier">${escapeHTML(row.tier)}</td>`;
+      case 'content': return `<td>${escapeHTML(row.content)}</td>`;
+      case 'source': return `<td>${escapeHTML(row.source)}</td>`;
+      case 'tags': return `<td>${row.tags.map(tag => `<span class="tag">${escapeHTML(tag)}</span>`).join('')}</td>`;
+      case 'notes': return `<td class="notes">${escapeHTML(row.notes)}</td>`;
+      case 'url': return isWebUrl(row.url)
+        ? `<td><a href="${escapeHTML(row.url)}">${escapeHTML(row.url)}</a></td>`
+        : `<td>${escapeHTML(row.url)}</td>`;
+    }
+  };
+
+  const renderTable = (rows: ListExportRow[], tableFields: ExportField[]) => [
+    '    <table>',
+    `      <thead><tr>${tableFields.map(field => `<th>${escapeHTML(labelOf(field))}</th>`).join('')}</tr></thead>`,
+    '      <tbody>',
+    ...rows.map(row => `        <tr>${tableFields.map(field => renderCell(row, field)).join('')}</tr>`),
+    '      </tbody>',
+    '    </table>'
+  ].join('\n');
+
+  const title = escapeHTML(projectName);
+  const sections = [renderTable(ranked, fields)];
+  if (unranked.length > 0) {
+    sections.push(`    <h2>${UNRANKED_HEADING}</h2>\n${renderTable(unranked, fields.filter(field => field !== 'rank' && field !== 'tier'))}`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${title}</title>
+    <style>${HTML_STYLES}
+    </style>
+  </head>
+  <body>
+    <h1>${title}</h1>
+    <p class="meta">${ranked.length} ranked items · Exported ${escapeHTML(exportedAt.toISOString().split('T')[0])}</p>
+${sections.join('\n')}
+  </body>
+</html>
+`;
+};
+
+/**
+ * Formats the ranked main list for sharing
+ * @param project - Project whose main list is exported
+ * @param tagPool - Tags used to resolve tag IDs to names
+ * @param options - Format, optional columns and whether to include unranked items
+ * @param exportedAt - Export timestamp shown in the HTML page
+ * @returns The formatted document
+ */
+export const formatListExport = (
+  project: Project,
+  tagPool: Tag[],
+  options: ListExportOptions,
+  exportedAt: Date = new Date()
+): string => {
+  const { ranked, unranked } = buildListExportRows(project, tagPool, options.includeUnranked);
+  const customFields = project.customFields ?? [];
+  // Without tiers the tier column would always be empty
+  const fields = orderFields(project.tiers ? options.columns : options.columns.filter(column => column !== 'tier'), customFields);
+  const fieldNames = new Map(customFields.map(field => [field.id, field.name]));
+  const labelOf: LabelOf = field =>
+    isCustomFieldColumn(field) ? fieldNames.get(customFieldId(field)) ?? '' : FIELD_LABELS[field];
+
+  switch (options.format) {
+    case 'csv': return toCSV([...ranked, ...unranked], fields, labelOf);
+    case 'markdown-list': return toMarkdownList(ranked, unranked, fields, labelOf);
+    case 'markdown-table': return toMarkdownTable(ranked, unranked, fields, labelOf);
+    case 'text': return toPlainText(ranked, unranked, fields, labelOf);
+    case 'html': {
+      const outputList = getActiveOutputList(project);
+      return toHTML(outputList ? `${project.name} – ${outputList.name}` : project.name, ranked, unranked, fields, labelOf, exportedAt);
+    }
+  }
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { activateOutputList, getActiveOutputList, getOutputListByItem, getParkedItems, updateParkedItems } from './outputLists';
+import type { MainListItem, Project } from '../types/index';
+
+// Test data helpers
+const createItem = (id: string, order: number): MainListItem => ({
+  id,
+  content: id,
+  sourceListId: 'list-1',
+  tags: [],
+  order
+});
+
+const session = { sortedIds: ['a'], pendingIds: ['b'], low: 0, high: 1, comparisons: 0 };
+
+const createProject = (): Project => ({
+  id: 'project-1',
+  name: 'Test Project',
+  createdAt: new Date('2024-01-01'),
+  modifiedAt: new Date('2024-01-01'),
+  inputLists: [],
+  mainList: [createItem('a', 1)],
+  comparisonSession: session,
+  outputLists: [
+    { id: 'q1', name: 'Q1', items: [] },
+    { id: 'q2', name: 'Q2', items: [createItem('c', 1), createItem('d', 2)] }
+  ],
+  activeOutputListId: 'q1'
+});
+
+describe('activateOutputList', () => {
+  it('should park the main list with its comparison session and load the other list', () => {
+    const project = activateOutputList(createProject(), 'q2');
+
+    expect(project.activeOutputListId).toBe('q2');
+    expect(project.mainList.map(item => item.id)).toEqual(['c', 'd']);
+    expect(project.comparisonSession).toBeUndefined();
+    expect(project.outputLists).toEqual([
+      { id: 'q1', name: 'Q1', items: [createItem('a', 1)], comparisonSession: session },
+      { id: 'q2', name: 'Q2', items: [] }
+    ]);
+
+    const back = activateOutputList(project, 'q1');
+    expect(back.mainList).toEqual([createItem('a', 1)]);
+    expect(back.comparisonSession).toEqual(session);
+    expect(back.outputLists![0]).toEqual({ id: 'q1', name: 'Q1', items: [] });
+  });
+
+  it('should ignore the active list and unknown lists', () => {
+    const project = createProject();
+
+    expect(activateOutputList(project, 'q1')).toBe(project);
+    expect(activateOutputList(project, 'missing')).toBe(project);
+  });
+});
+
+describe('output list lookups', () => {
+  it('should find the list of every ranked item', () => {
+    const project = createProject();
+    const byItem = getOutputListByItem(project);
+
+    expect([...byItem].map(([itemId, list]) => [itemId, list.name])).toEqual([['a', 'Q1'], ['c', 'Q2'], ['d', 'Q2']]);
+    expect(getActiveOutputList(project)!.name).toBe('Q1');
+    expect(getParkedItems(project).map(item => item.id)).toEqual(['c', 'd']);
+  });
+
+  it('should update parked items only', () => {
+    const project = updateParkedItems(createProject(), items => items.filter(item => item.id !== 'c'));
+
+    expect(project.mainList).toEqual([createItem('a', 1)]);
+    expect(getParkedItems(project).map(item => item.id)).toEqual(['d']);
+  });
+
+  it('should treat projects with only a main list as having no output lists', () => {
+    const project: Project = { ...createProject(), outputLists: undefined, activeOutputListId: undefined };
+
+    expect(getOutputListByItem(project).size).toBe(0);
+    expect(getActiveOutputList(project)).toBeNull();
+    expect(updateParkedItems(project, () => [])).toBe(project);
+  });
+});
\ No newline at end of file
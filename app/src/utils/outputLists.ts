@@ -0,0 +1,79 @@
+// Multiple output lists
+// A project can rank its input items into several named output lists (e.g. "Q1", "Q2",
+// "Won't do"). The active list is always Project.mainList, so every main list feature works on
+// it unchanged; the other lists are parked in Project.outputLists until they are switched to.
+// Each input item is consumed by at most one output list.
+import type { MainListItem, OutputList, Project } from '../types/index';
+
+// Name given to the existing main list when a second output list is added
+export const DEFAULT_OUTPUT_LIST_NAME = 'Main List';
+
+/**
+ * Finds the output list shown as the main list
+ * @param project - Project
+ * @returns The active output list, or null while the project has only its main list
+ */
+export const getActiveOutputList = (project: Project): OutputList | null =>
+  project.outputLists?.find(list => list.id === project.activeOutputListId) ?? null;
+
+/**
+ * Collects the items of the output lists that are not active
+ * @param project - Project
+ * @returns Ranked items of every parked output list
+ */
+export const getParkedItems = (project: Project): MainListItem[] =>
+  (project.outputLists ?? []).flatMap(list => list.items);
+
+/**
+ * Applies a change to the items of every parked output list
+ * @param project - Project
+ * @param update - Transformation of one list's items
+ * @returns The project with updated output lists (unchanged when it has none)
+ */
+export const updateParkedItems = (
+  project: Project,
+  update: (items: MainListItem[]) => MainListItem[]
+): Project => project.outputLists ? {
+  ...project,
+  outputLists: project.outputLists.map(list => list.items.length > 0 ? { ...list, items: update(list.items) } : list)
+} : project;
+
+/**
+ * Maps every ranked item to the output list it belongs to
+ * @param project - Project
+ * @returns Output list per item ID; empty while the project has only its main list
+ */
+export const getOutputListByItem = (project: Project): Map<string, OutputList> => {
+  const byItem = new Map<string, OutputList>();
+  project.outputLists?.forEach(list => {
+    const items = list.id === project.activeOutputListId ? project.mainList : list.items;
+    items.forEach(item => byItem.set(item.id, list));
+  });
+  return byItem;
+};
+
+/**
+ * Makes another output list the active one, parking the current main list and comparison session
+ * @param project - Project
+ * @param listId - Output list to activate
+ * @returns The project with the list's items as its main list (unchanged for unknown or active lists)
+ */
+export const activateOutputList = (project: Project, listId: string): Project => {
+  const target = project.outputLists?.find(list => list.id === listId);
+  if (!target || listId === project.activeOutputListId) return project;
+
+  const session = project.comparisonSession;
+  return {
+    ...project,
+    mainList: target.items,
+    comparisonSession: target.comparisonSession,
+    activeOutputListId: listId,
+    outputLists: project.outputLists!.map(list => {
+      if (list.id === listId) return { id: list.id, name: list.name, items: [] };
+      if (list.id === project.activeOutputListId) {
+        return { ...list, items: project.mainList, ...(session ? { comparisonSession: session } : {}) };
+      }
+      return list;
+    })
+  };
+};
\ No newline at end of file
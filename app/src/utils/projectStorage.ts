@@ -0,0 +1,255 @@
+import type { Project, ProjectSnapshot, ProjectSummary, Tag } from '../types/index';
+
+// LocalStorage keys (see high-level design 5.3)
+export const STORAGE_KEYS = {
+  PROJECTS: 'listCombiner_projects',
+  CURRENT_PROJECT: 'listCombiner_currentProject',
+  PROJECT_PREFIX: 'listCombiner_project_',
+  SNAPSHOT_PREFIX: 'listCombiner_snapshots_',
+  TAG_POOL: 'listCombiner_tagPool'
+} as const;
+
+export const STORAGE_VERSION = '1.0';
+
+// Storage operation results
+export interface StorageResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// Envelope written for every stored value so the schema can evolve later
+interface StoredValue<T> {
+  version: string;
+  savedAt: string;
+  data: T;
+}
+
+// Keys whose string values are ISO dates that must be revived on load
+const DATE_KEYS = new Set(['createdAt', 'modifiedAt', 'savedAt']);
+
+// Project persistence backed by localStorage
+export class ProjectStorage {
+  // Load the summary index of all saved projects, most recently modified first
+  static loadProjectIndex(): ProjectSummary[] {
+    const index = this.read<ProjectSummary[]>(STORAGE_KEYS.PROJECTS);
+    if (!Array.isArray(index)) return [];
+
+    return [...index].sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime());
+  }
+
+  // Load a single project by ID
+  static loadProject(projectId: string): Project | null {
+    const project = this.read<Project>(this.projectKey(projectId));
+    if (!project || !Array.isArray(project.inputLists) || !Array.isArray(project.mainList)) {
+      return null;
+    }
+    return project;
+  }
+
+  // Save a project and keep its entry in the summary index up to date
+  static saveProject(project: Project): StorageResult<ProjectSummary[]> {
+    const writeResult = this.write(this.projectKey(project.id), project);
+    if (!writeResult.success) return { success: false, error: writeResult.error };
+
+    const summary = this.createProjectSummary(project);
+    const index = this.loadProjectIndex().filter(entry => entry.id !== project.id);
+    const newIndex = [summary, ...index];
+
+    const indexResult = this.write(STORAGE_KEYS.PROJECTS, newIndex);
+    if (!indexResult.success) return { success: false, error: indexResult.error };
+
+    return { success: true, data: this.loadProjectIndex() };
+  }
+
+  // Remove a project, its snapshots and its index entry
+  static deleteProject(projectId: string): StorageResult<ProjectSummary[]> {
+    try {
+      this.getStorage().removeItem(this.projectKey(projectId));
+      this.getStorage().removeItem(this.snapshotsKey(projectId));
+      if (this.getCurrentProjectId() === projectId) {
+        this.getStorage().removeItem(STORAGE_KEYS.CURRENT_PROJECT);
+      }
+    } catch (error) {
+      return { success: false, error: `Storage error: ${(error as Error).message}` };
+    }
+
+    const newIndex = this.loadProjectIndex().filter(entry => entry.id !== projectId);
+    const indexResult = this.write(STORAGE_KEYS.PROJECTS, newIndex);
+    if (!indexResult.success) return { success: false, error: indexResult.error };
+
+    return { success: true, data: newIndex };
+  }
+
+  // Rename a stored project
+  static renameProject(projectId: string, name: string): StorageResult<Project> {
+    const project = this.loadProject(projectId);
+    if (!project) {
+      return { success: false, error: 'Project not found' };
+    }
+
+    const renamedProject: Project = { ...project, name, modifiedAt: new Date() };
+    const saveResult = this.saveProject(renamedProject);
+    if (!saveResult.success) return { success: false, error: saveResult.error };
+
+    return { success: true, data: renamedProject };
+  }
+
+  // Store a copy of a project under a new ID
+  static duplicateProject(projectId: string): StorageResult<Project> {
+    const project = this.loadProject(projectId);
+    if (!project) {
+      return { success: false, error: 'Project not found' };
+    }
+
+    const now = new Date();
+    const copy: Project = {
+      ...structuredClone(project),
+      id: `${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      name: `${project.name} (copy)`,
+      createdAt: now,
+      modifiedAt: now
+    };
+    const saveResult = this.saveProject(copy);
+    if (!saveResult.success) return { success: false, error: saveResult.error };
+
+    return { success: true, data: copy };
+  }
+
+  // Load the snapshots of a project, oldest first
+  static loadSnapshots(projectId: string): ProjectSnapshot[] {
+    const snapshots = this.read<ProjectSnapshot[]>(this.snapshotsKey(projectId));
+    return Array.isArray(snapshots) ? snapshots : [];
+  }
+
+  // Add a snapshot to a project's snapshots
+  static saveSnapshot(projectId: string, snapshot: ProjectSnapshot): StorageResult<ProjectSnapshot[]> {
+    const snapshots = [...this.loadSnapshots(projectId), snapshot];
+    const writeResult = this.write(this.snapshotsKey(projectId), snapshots);
+    if (!writeResult.success) return { success: false, error: writeResult.error };
+
+    return { success: true, data: snapshots };
+  }
+
+  // Remove one snapshot of a project
+  static deleteSnapshot(projectId: string, snapshotId: string): StorageResult<ProjectSnapshot[]> {
+    const snapshots = this.loadSnapshots(projectId).filter(snapshot => snapshot.id !== snapshotId);
+    const writeResult = this.write(this.snapshotsKey(projectId), snapshots);
+    if (!writeResult.success) return { success: false, error: writeResult.error };
+
+    return { success: true, data: snapshots };
+  }
+
+  // Load the shared tag pool
+  static loadTagPool(): Tag[] | null {
+    const tags = this.read<Tag[]>(STORAGE_KEYS.TAG_POOL);
+    return Array.isArray(tags) ? tags : null;
+  }
+
+  // Save the shared tag pool
+  static saveTagPool(tagPool: Tag[]): StorageResult {
+    return this.write(STORAGE_KEYS.TAG_POOL, tagPool);
+  }
+
+  // ID of the project that was open when the app was last used
+  static getCurrentProjectId(): string | null {
+    try {
+      return this.getStorage().getItem(STORAGE_KEYS.CURRENT_PROJECT);
+    } catch {
+      return null;
+    }
+  }
+
+  static setCurrentProjectId(projectId: string | null): StorageResult {
+    try {
+      if (projectId) {
+        this.getStorage().setItem(STORAGE_KEYS.CURRENT_PROJECT, projectId);
+      } else {
+        this.getStorage().removeItem(STORAGE_KEYS.CURRENT_PROJECT);
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: `Storage error: ${(error as Error).message}` };
+    }
+  }
+
+  // Load the last-open project, falling back to the most recently modified one
+  static loadLastProject(): Project | null {
+    const currentId = this.getCurrentProjectId();
+    if (currentId) {
+      const project = this.loadProject(currentId);
+      if (project) return project;
+    }
+
+    for (const summary of this.loadProjectIndex()) {
+      const project = this.loadProject(summary.id);
+      if (project) return project;
+    }
+    return null;
+  }
+
+  // Build the index entry for a project
+  static createProjectSummary(project: Project): ProjectSummary {
+    return {
+      id: project.id,
+      name: project.name,
+      createdAt: project.createdAt,
+      modifiedAt: project.modifiedAt,
+      itemCount: project.inputLists.reduce((total, list) => total + list.items.length, 0)
+    };
+  }
+
+  // Helper: Storage backend
+  private static getStorage(): Storage {
+    return window.localStorage;
+  }
+
+  // Helper: Key under which a project is stored
+  private static projectKey(projectId: string): string {
+    return `${STORAGE_KEYS.PROJECT_PREFIX}${projectId}`;
+  }
+
+  // Helper: Key under which a project's snapshots are stored
+  private static snapshotsKey(projectId: string): string {
+    return `${STORAGE_KEYS.SNAPSHOT_PREFIX}${projectId}`;
+  }
+
+  // Helper: Read and unwrap a stored value, reviving Date fields
+  private static read<T>(key: string): T | null {
+    try {
+      const raw = this.getStorage().getItem(key);
+      if (!raw) return null;
+
+      const stored = JSON.parse(raw, (field, value) =>
+        DATE_KEYS.has(field) && typeof value === 'string' ? new Date(value) : value
+      ) as StoredValue<T>;
+
+      if (!stored || typeof stored !== 'object' || !('data' in stored)) {
+        console.error(`Corrupted storage entry: ${key}`);
+        return null;
+      }
+      return stored.data;
+    } catch (error) {
+      console.error(`Failed to read storage entry ${key}:`, error);
+      return null;
+    }
+  }
+
+  // Helper: Wrap and write a value, reporting quota problems
+  private static write<T>(key: string, data: T): StorageResult {
+    try {
+      const stored: StoredValue<T> = {
+        version: STORAGE_VERSION,
+        savedAt: new Date().toISOString(),
+        data
+      };
+      this.getStorage().setItem(key, JSON.stringify(stored));
+      return { success: true };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        return { success: false, error: 'Storage quota exceeded. Export and delete old projects to free up space.' };
+      }
+      return { success: false, error: `Storage error: ${(error as Error).message}` };
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateRankings, MAX_PAIRWISE_CANDIDATES, normalizeItemKey } from './rankAggregation';
+import type { InputList } from '../types/index';
+
+// Test data helpers
+const createList = (id: string, contents: string[]): InputList => ({
+  id,
+  name: `List ${id}`,
+  items: contents.map((content, index) => ({ id: `${id}-${index}`, content, isUsed: false, tags: [] }))
+});
+
+const orderOf = (lists: InputList[], method: Parameters<typeof aggregateRankings>[1]) =>
+  aggregateRankings(lists, method).data!.items.map(item => item.content);
+
+describe('normalizeItemKey', () => {
+  it('should ignore case and surrounding or repeated whitespace', () => {
+    expect(normalizeItemKey('  The   Matrix ')).toBe('the matrix');
+  });
+});
+
+describe('aggregateRankings', () => {
+  const unanimous = [createList('1', ['A', 'B', 'C']), createList('2', ['A', 'B', 'C'])];
+
+  // Classic example where Borda and Condorcet disagree:
+  // B beats A and C head-to-head (3 of 5 ballots), but A collects more points
+  const condorcetSplit = [
+    createList('1', ['A', 'B', 'C']),
+    createList('2', ['A', 'B', 'C']),
+    createList('3', ['B', 'C', 'A']),
+    createList('4', ['B', 'C', 'A']),
+    createList('5', ['C', 'B', 'A'])
+  ];
+
+  it.each(['borda', 'average', 'schulze', 'kemeny'] as const)('should keep a unanimous order (%s)', method => {
+    expect(orderOf(unanimous, method)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should score Borda points by position', () => {
+    const result = aggregateRankings(unanimous, 'borda');
+
+    expect(result.data!.items.map(item => item.score)).toEqual([4, 2, 0]);
+    expect(result.data!.items.map(item => item.rank)).toEqual([1, 2, 3]);
+  });
+
+  it('should rank the Condorcet winner first with pairwise methods', () => {
+    expect(orderOf(condorcetSplit, 'schulze')[0]).toBe('B');
+    expect(orderOf(condorcetSplit, 'kemeny')[0]).toBe('B');
+  });
+
+  it('should match items across lists by normalized content', () => {
+    const lists = [createList('1', ['Dune', 'Alien']), createList('2', ['  alien ', 'DUNE'])];
+    const result = aggregateRankings(lists, 'borda');
+
+    expect(result.data!.items).toHaveLength(2);
+    const dune = result.data!.items.find(item => item.key === 'dune')!;
+    expect(dune).toMatchObject({ content: 'Dune', itemId: '1-0', listId: '1', memberIds: ['1-0', '2-1'] });
+    expect(dune.positions).toEqual({ '1': 1, '2': 2 });
+  });
+
+  it('should count an item only once when a list repeats it', () => {
+    const result = aggregateRankings([createList('1', ['A', 'a', 'B'])], 'borda');
+
+    expect(result.data!.items.map(item => item.positions['1'])).toEqual([1, 2]);
+    expect(result.data!.items[0].memberIds).toEqual(['1-0', '1-1']);
+  });
+
+  it('should place missing items below the ranked ones in each list', () => {
+    // C only appears in list 2, so list 1 ranks it in the shared last place
+    const lists = [createList('1', ['A', 'B']), createList('2', ['C', 'A', 'B'])];
+    const result = aggregateRankings(lists, 'average');
+
+    const c = result.data!.items.find(item => item.content === 'C')!;
+    expect(c.positions).toEqual({ '1': null, '2': 1 });
+    expect(c.score).toBe(2);
+    expect(result.data!.items.map(item => item.content)).toEqual(['A', 'C', 'B']);
+  });
+
+  it('should not let items missing from the same list beat each other', () => {
+    const lists = [createList('1', ['A', 'B']), createList('2', ['C'])];
+
+    // A beats B 1–0 (list 2 ranks neither); C ties both, so Borda decides between C and B
+    const result = aggregateRankings(lists, 'schulze');
+    expect(result.data!.items.map(item => [item.content, item.score])).toEqual([['A', 1], ['C', 0], ['B', 0]]);
+  });
+
+  it('should fail when there is nothing to rank', () => {
+    const result = aggregateRankings([createList('1', ['  '])], 'borda');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('The selected lists have no items to rank');
+  });
+
+  it('should refuse pairwise methods for very large lists', () => {
+    const contents = Array.from({ length: MAX_PAIRWISE_CANDIDATES + 1 }, (_, i) => `Item ${i}`);
+    const lists = [createList('1', contents)];
+
+    expect(aggregateRankings(lists, 'schulze').error).toMatch(/Too many distinct items/);
+    expect(aggregateRankings(lists, 'borda').success).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,287 @@
+// Consensus ranking across input lists
+// Each input list's item order is read as one ballot. Items are matched across lists by
+// their normalized content, and items a list does not contain count as tied below
+// everything that list does rank.
+import type { InputList } from '../types/index';
+
+export type AggregationMethod = 'borda' | 'average' | 'schulze' | 'kemeny';
+
+export const AGGREGATION_METHODS: Array<{ method: AggregationMethod; label: string; description: string; scoreLabel: string }> = [
+  {
+    method: 'borda',
+    label: 'Borda count',
+    description: 'Points for every item ranked below; simple and robust.',
+    scoreLabel: 'Points'
+  },
+  {
+    method: 'average',
+    label: 'Average rank',
+    description: 'Mean position across lists; missing items take the average of the remaining places.',
+    scoreLabel: 'Avg rank'
+  },
+  {
+    method: 'schulze',
+    label: 'Schulze (Condorcet)',
+    description: 'Head-to-head majorities resolved through strongest paths; a Condorcet winner always ranks first.',
+    scoreLabel: 'Wins'
+  },
+  {
+    method: 'kemeny',
+    label: 'Kemeny (approximate)',
+    description: 'Order that disagrees with the fewest pairwise preferences, found by local search.',
+    scoreLabel: 'Wins'
+  }
+];
+
+// Pairwise methods need an n×n matrix; beyond this many items they get too slow to run in the browser
+export const MAX_PAIRWISE_CANDIDATES = 500;
+
+// Local search passes for the Kemeny approximation
+const MAX_KEMENY_PASSES = 50;
+
+export interface AggregatedItem {
+  key: string; // Normalized content shared by every copy of the item
+  content: string;
+  itemId: string; // Representative input item (from the first list that contains it)
+  listId: string;
+  memberIds: string[]; // Every input item with this content, across all lists
+  positions: Record<string, number | null>; // 1-based position per list ID, null when missing
+  score: number;
+  rank: number;
+}
+
+export interface AggregationResult {
+  method: AggregationMethod;
+  lists: Array<{ id: string; name: string }>;
+  items: AggregatedItem[]; // In consensus order
+}
+
+export interface AggregationOutcome {
+  success: boolean;
+  data?: AggregationResult;
+  error?: string;
+}
+
+interface Candidate {
+  key: string;
+  content: string;
+  itemId: string;
+  listId: string;
+  memberIds: string[];
+  positions: Array<number | null>; // 0-based per ballot
+}
+
+/**
+ * Normalizes item content for matching copies of an item across lists
+ * @param content - Item content
+ * @returns Lowercased content with collapsed whitespace
+ */
+export const normalizeItemKey = (content: string): string =>
+  content.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Helper: One candidate per distinct item, with its position in every list
+const collectCandidates = (lists: InputList[]): { candidates: Candidate[]; ballotSizes: number[] } => {
+  const byKey = new Map<string, Candidate>();
+  const ballotSizes: number[] = [];
+
+  lists.forEach((list, listIndex) => {
+    let position = 0;
+    list.items.forEach(item => {
+      const key = normalizeItemKey(item.content);
+      if (!key) return;
+
+      let candidate = byKey.get(key);
+      if (!candidate) {
+        candidate = {
+          key,
+          content: item.content,
+          itemId: item.id,
+          listId: list.id,
+          memberIds: [],
+          positions: lists.map(() => null)
+        };
+        byKey.set(key, candidate);
+      }
+      candidate.memberIds.push(item.id);
+      // Repeats within one list keep their first position
+      if (candidate.positions[listIndex] === null) {
+        candidate.positions[listIndex] = position++;
+      }
+    });
+    ballotSizes.push(position);
+  });
+
+  return { candidates: [...byKey.values()], ballotSizes };
+};
+
+// Borda points: m-1 for first place down to 0; missing items share the points left over
+const bordaScores = (candidates: Candidate[], ballotSizes: number[]): number[] => {
+  const m = candidates.length;
+  return candidates.map(candidate => candidate.positions.reduce<number>((total, position, ballot) =>
+    total + (position !== null ? m - 1 - position : (m - 1 - ballotSizes[ballot]) / 2), 0));
+};
+
+// Mean 1-based position; missing items take the average of the places below the ballot
+const averageRanks = (candidates: Candidate[], ballotSizes: number[]): number[] => {
+  const m = candidates.length;
+  return candidates.map(candidate => candidate.positions.reduce<number>((total, position, ballot) =>
+    total + (position !== null ? position + 1 : (ballotSizes[ballot] + 1 + m) / 2), 0) / ballotSizes.length);
+};
+
+// Helper: d[a][b] = number of ballots ranking a above b
+const pairwisePreferences = (candidates: Candidate[]): number[][] => {
+  const m = candidates.length;
+  const d = Array.from({ length: m }, () => new Array<number>(m).fill(0));
+  const ballots = candidates[0]?.positions.length ?? 0;
+
+  for (let ballot = 0; ballot < ballots; ballot++) {
+    for (let a = 0; a < m; a++) {
+      const pa = candidates[a].positions[ballot];
+      if (pa === null) continue;
+      for (let b = 0; b < m; b++) {
+        const pb = candidates[b].positions[ballot];
+        // Ranked items beat unranked ones; two unranked items are a tie
+        if (a !== b && (pb === null || pa < pb)) d[a][b]++;
+      }
+    }
+  }
+  return d;
+};
+
+// Helper: Number of opponents each candidate beats under a pairwise strength matrix
+const countWins = (strength: number[][]): number[] =>
+  strength.map((row, a) => row.reduce((wins, value, b) => wins + (a !== b && value > strength[b][a] ? 1 : 0), 0));
+
+// Schulze strongest-path strengths (Floyd–Warshall over winning margins)
+const schulzeStrengths = (d: number[][]): number[][] => {
+  const m = d.length;
+  const p = d.map((row, a) => row.map((value, b) => value > d[b][a] ? value : 0));
+
+  for (let i = 0; i < m; i++) {
+    for (let j = 0; j < m; j++) {
+      if (i === j) continue;
+      for (let k = 0; k < m; k++) {
+        if (i !== k && j !== k) {
+          p[j][k] = Math.max(p[j][k], Math.min(p[j][i], p[i][k]));
+        }
+      }
+    }
+  }
+  return p;
+};
+
+// Kemeny approximation: start from a seed order and move single items while that reduces disagreements
+const kemenyOrder = (d: number[][], seed: number[]): number[] => {
+  const order = [...seed];
+
+  for (let pass = 0; pass < MAX_KEMENY_PASSES; pass++) {
+    let improved = false;
+
+    for (let from = 0; from < order.length; from++) {
+      const item = order[from];
+      let bestDelta = 0;
+      let bestTo = from;
+
+      // Moving up past order[to]: gain d[item][other] - d[other][item] for each item passed
+      let delta = 0;
+      for (let to = from - 1; to >= 0; to--) {
+        delta += d[item][order[to]] - d[order[to]][item];
+        if (delta > bestDelta) {
+          bestDelta = delta;
+          bestTo = to;
+        }
+      }
+      delta = 0;
+      for (let to = from + 1; to < order.length; to++) {
+        delta += d[order[to]][item] - d[item][order[to]];
+        if (delta > bestDelta) {
+          bestDelta = delta;
+          bestTo = to;
+        }
+      }
+
+      if (bestTo !== from) {
+        order.splice(from, 1);
+        order.splice(bestTo, 0, item);
+        improved = true;
+      }
+    }
+
+    if (!improved) break;
+  }
+  return order;
+};
+
+/**
+ * Computes a consensus ranking from the item order of several input lists
+ * @param lists - Input lists, each read as one ranking
+ * @param method - Aggregation method
+ * @returns The consensus order with per-list positions and scores, or an error
+ */
+export const aggregateRankings = (lists: InputList[], method: AggregationMethod): AggregationOutcome => {
+  const { candidates, ballotSizes } = collectCandidates(lists);
+  if (candidates.length === 0) {
+    return { success: false, error: 'The selected lists have no items to rank' };
+  }
+  if ((method === 'schulze' || method === 'kemeny') && candidates.length > MAX_PAIRWISE_CANDIDATES) {
+    return {
+      success: false,
+      error: `Too many distinct items (${candidates.length}) for pairwise methods. Maximum is ${MAX_PAIRWISE_CANDIDATES}; use Borda count or average rank instead.`
+    };
+  }
+
+  // Borda breaks ties for every method; first appearance breaks the rest
+  const borda = bordaScores(candidates, ballotSizes);
+  const byBorda = candidates.map((_, index) => index).sort((a, b) => borda[b] - borda[a] || a - b);
+
+  let order: number[];
+  let scores: number[];
+  switch (method) {
+    case 'borda':
+      order = byBorda;
+      scores = borda;
+      break;
+    case 'average': {
+      scores = averageRanks(candidates, ballotSizes);
+      const averages = scores;
+      order = [...byBorda].sort((a, b) => averages[a] - averages[b]);
+      break;
+    }
+    case 'schulze': {
+      scores = countWins(schulzeStrengths(pairwisePreferences(candidates)));
+      const wins = scores;
+      order = [...byBorda].sort((a, b) => wins[b] - wins[a]);
+      break;
+    }
+    case 'kemeny': {
+      const d = pairwisePreferences(candidates);
+      scores = countWins(d);
+      order = kemenyOrder(d, byBorda);
+      break;
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      method,
+      lists: lists.map(list => ({ id: list.id, name: list.name })),
+      items: order.map((index, rank) => {
+        const candidate = candidates[index];
+        return {
+          key: candidate.key,
+          content: candidate.content,
+          itemId: candidate.itemId,
+          listId: candidate.listId,
+          memberIds: candidate.memberIds,
+          positions: Object.fromEntries(lists.map((list, ballot) => [
+            list.id,
+            candidate.positions[ballot] === null ? null : candidate.positions[ballot]! + 1
+          ])),
+          score: Math.round(scores[index] * 100) / 100,
+          rank: rank + 1
+        };
+      })
+    }
+  };
+};
\ No newline at end of file
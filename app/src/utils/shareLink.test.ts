@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createShareLink, getSharePayload, readShareLink, SHARE_LINK_WARNING_LENGTH } from './shareLink';
+import type { Project, Tag } from '../types/index';
+
+const tags: Tag[] = [
+  { id: 't-red', name: 'Red', color: '#ef4444', createdAt: new Date('2024-01-01'), usageCount: 1 },
+  { id: 't-unused', name: 'Unused', color: '#22c55e', createdAt: new Date('2024-01-01'), usageCount: 0 }
+];
+
+const createProject = (contents = ['Alpha', 'Beta', 'Gamma']): Project => ({
+  id: 'project-1',
+  name: 'Shared',
+  createdAt: new Date('2024-01-01'),
+  modifiedAt: new Date('2024-01-02'),
+  inputLists: [{
+    id: 'list-1',
+    name: 'Ideas',
+    items: contents.map((content, index) => ({ id: `item-${index}`, content, isUsed: index === 0, tags: index === 0 ? ['t-red'] : [] }))
+  }],
+  mainList: [{ id: 'item-0', content: contents[0], sourceListId: 'list-1', tags: ['t-red'], order: 1 }]
+});
+
+// Helper: Payload of a link made for the project
+const shareProject = async (project: Project) => {
+  const link = await createShareLink(project, tags, 'https://example.com/app/#old');
+  return { link, payload: getSharePayload(new URL(link.url!).hash) };
+};
+
+describe('share links', () => {
+  it('should carry the project and its used tags through the URL fragment', async () => {
+    const { link, payload } = await shareProject(createProject());
+
+    expect(link.success).toBe(true);
+    expect(link.url).toMatch(/^https:\/\/example\.com\/app\/#share=1\.[\w-]+$/);
+    expect(link.length).toBe(link.url!.length);
+    expect(link.warning).toBeUndefined();
+
+    const result = await readShareLink(payload!);
+    expect(result.success).toBe(true);
+    expect(result.data!.name).toBe('Shared');
+    expect(result.data!.inputLists[0].items.map(item => item.content)).toEqual(['Alpha', 'Beta', 'Gamma']);
+    expect(result.data!.id).not.toBe('project-1'); // Imported as a new project
+    expect(result.tagPool!.map(tag => tag.name)).toEqual(['Red']);
+  });
+
+  it('should warn when the link gets long', async () => {
+    // Random content compresses poorly
+    const contents = Array.from({ length: 150 }, (_, index) => `${index} ${Math.random().toString(36).slice(2)}`);
+    const { link } = await shareProject(createProject(contents));
+
+    expect(link.success).toBe(true);
+    expect(link.length).toBeGreaterThan(SHARE_LINK_WARNING_LENGTH);
+    expect(link.warning).toMatch(/cut off long links/);
+  });
+
+  it('should only pick up share fragments', () => {
+    expect(getSharePayload('#share=1.abc')).toBe('1.abc');
+    expect(getSharePayload('#section')).toBeNull();
+    expect(getSharePayload('')).toBeNull();
+  });
+
+  it('should reject damaged links and links from newer versions', async () => {
+    const { payload } = await shareProject(createProject());
+
+    expect((await readShareLink(payload!.slice(0, payload!.length - 10))).error).toBe('Share link is damaged or incomplete');
+    expect((await readShareLink(`9${payload!.slice(1)}`)).error).toBe('This share link was made by a newer version of List Merge');
+    expect((await readShareLink('nonsense')).error).toBe('Share link is not valid');
+  });
+});
\ No newline at end of file
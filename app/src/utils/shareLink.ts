@@ -0,0 +1,139 @@
+// Share links
+// A project and the tags it uses travel in the URL fragment, which browsers never send to a
+// server, so sharing works without a backend. The fragment reads #share=<version>.<payload>;
+// in version 1 the payload is the project export JSON (see FileProcessor.exportProjectJSON),
+// deflate-compressed and base64url-encoded. Opening a link goes through the regular project
+// import, so the shared project gets new IDs and is validated like an imported file.
+import type { Project, Tag } from '../types/index';
+import { FileProcessor, type ProjectImportResult } from './fileProcessing';
+
+const SHARE_FRAGMENT_PREFIX = '#share=';
+const SHARE_LINK_VERSION = 1;
+
+// Links longer than this may be cut off by email and chat apps
+export const SHARE_LINK_WARNING_LENGTH = 2000;
+// Links longer than this do not open reliably in every browser
+const SHARE_LINK_MAX_LENGTH = 100000;
+
+export interface ShareLinkResult {
+  success: boolean;
+  url?: string;
+  length?: number; // Characters in the whole link
+  warning?: string;
+  error?: string;
+}
+
+// Helper: Run bytes through a compression or decompression stream
+const transformBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const writer = stream.writable.getWriter();
+  // Errors surface on the readable side; the write promises would only repeat them
+  writer.write(bytes).catch(() => {});
+  writer.close().catch(() => {});
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    chunks.push(new Uint8Array(chunk.value));
+  }
+
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
+
+// Helper: Base64url without padding, safe to use in a URL as is
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large projects do not exceed the argument limit of String.fromCharCode
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/**
+ * Builds a link that carries a project in its URL fragment
+ * @param project - Project to share
+ * @param tagPool - Tag pool; only the tags the project uses are included
+ * @param baseUrl - Address of the app; an existing fragment is replaced
+ * @returns The link, or why the project cannot be shared as one
+ */
+export const createShareLink = async (project: Project, tagPool: Tag[], baseUrl: string): Promise<ShareLinkResult> => {
+  const exported = FileProcessor.exportProjectJSON(project, tagPool);
+  if (!exported.success || !exported.data) {
+    return { success: false, error: exported.error ?? 'Export failed' };
+  }
+
+  try {
+    // The export file is indented for reading; the link has no use for the whitespace
+    const json = JSON.stringify(JSON.parse(exported.data));
+    const compressed = await transformBytes(new TextEncoder().encode(json), new CompressionStream('deflate'));
+    const url = `${baseUrl.split('#')[0]}${SHARE_FRAGMENT_PREFIX}${SHARE_LINK_VERSION}.${toBase64Url(compressed)}`;
+
+    if (url.length > SHARE_LINK_MAX_LENGTH) {
+      return {
+        success: false,
+        length: url.length,
+        error: `Project is too large for a share link (${url.length.toLocaleString()} characters). Export it as a file instead.`
+      };
+    }
+    return {
+      success: true,
+      url,
+      length: url.length,
+      ...(url.length > SHARE_LINK_WARNING_LENGTH ? {
+        warning: `This link is ${url.length.toLocaleString()} characters long. Some email and chat apps cut off long links; export a file if it does not open.`
+      } : {})
+    };
+  } catch (error) {
+    return { success: false, error: `Share link error: ${(error as Error).message}` };
+  }
+};
+
+/**
+ * Finds a shared project in a URL fragment
+ * @param hash - URL fragment including the leading #, e.g. window.location.hash
+ * @returns The versioned payload, or null when the fragment is not a share link
+ */
+export const getSharePayload = (hash: string): string | null =>
+  hash.startsWith(SHARE_FRAGMENT_PREFIX) ? hash.slice(SHARE_FRAGMENT_PREFIX.length) : null;
+
+/**
+ * Reads the project carried by a share link
+ * @param payload - Result of getSharePayload
+ * @returns The project with new IDs and its tags, as from FileProcessor.importProjectJSON
+ */
+export const readShareLink = async (payload: string): Promise<ProjectImportResult> => {
+  const separator = payload.indexOf('.');
+  const version = Number(payload.slice(0, separator));
+  if (separator < 1 || !Number.isInteger(version)) {
+    return { success: false, error: 'Share link is not valid' };
+  }
+  if (version !== SHARE_LINK_VERSION) {
+    return {
+      success: false,
+      error: version > SHARE_LINK_VERSION
+        ? 'This share link was made by a newer version of List Merge'
+        : 'Share link is not valid'
+    };
+  }
+
+  let json: string;
+  try {
+    const compressed = fromBase64Url(payload.slice(separator + 1));
+    json = new TextDecoder().decode(await transformBytes(compressed, new DecompressionStream('deflate')));
+  } catch {
+    // Usually a link that was cut off when it was passed on
+    return { success: false, error: 'Share link is damaged or incomplete' };
+  }
+  return FileProcessor.importProjectJSON(json);
+};
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { createSnapshot, diffProjects, formatDiffAsMarkdown, validateSnapshotName, type DiffSide } from './snapshots';
+import type { Project, Tag } from '../types/index';
+
+const tags: Tag[] = [
+  { id: 't-red', name: 'Red', color: '#ef4444', createdAt: new Date('2024-01-01'), usageCount: 1 },
+  { id: 't-new', name: 'New', color: '#22c55e', createdAt: new Date('2024-01-01'), usageCount: 0 }
+];
+
+// Project whose main list ranks the given items, in order
+const rankedProject = (ids: string[], listName = 'Backlog', itemTags: Record<string, string[]> = {}): Project => {
+  const all = ['a', 'b', 'c', 'd', 'e'];
+  return {
+    id: 'project-1',
+    name: 'Monthly',
+    createdAt: new Date('2024-01-01'),
+    modifiedAt: new Date('2024-01-01'),
+    inputLists: [{
+      id: 'list-1',
+      name: listName,
+      items: all.map(id => ({ id, content: id.toUpperCase(), isUsed: ids.includes(id), tags: itemTags[id] ?? [] }))
+    }],
+    mainList: ids.map((id, index) => ({
+      id, content: id.toUpperCase(), sourceListId: 'list-1', tags: itemTags[id] ?? [], order: index + 1
+    }))
+  };
+};
+
+const side = (label: string, project: Project): DiffSide => ({ label, project, tags });
+
+describe('diffProjects', () => {
+  it('should report added and removed items and rank deltas', () => {
+    const diff = diffProjects(side('January', rankedProject(['a', 'b', 'c', 'd'])), side('February', rankedProject(['c', 'a', 'e', 'b'])));
+
+    expect(diff.added).toEqual([{ id: 'e', content: 'E', rank: 3 }]);
+    expect(diff.removed).toEqual([{ id: 'd', content: 'D', rank: 4 }]);
+    expect(diff.moved).toEqual([
+      { id: 'c', content: 'C', from: 3, to: 1, delta: 2 },
+      { id: 'a', content: 'A', from: 1, to: 2, delta: -1 },
+      { id: 'b', content: 'B', from: 2, to: 4, delta: -2 }
+    ]);
+    expect(diff.unchangedCount).toBe(0);
+  });
+
+  it('should report tag changes per item and renamed lists', () => {
+    const diff = diffProjects(
+      side('January', rankedProject(['a'], 'Backlog', { a: ['t-red'] })),
+      side('February', rankedProject(['a'], 'Ideas', { a: ['t-new'], b: ['t-red'] }))
+    );
+
+    expect(diff.tagChanges).toEqual([
+      { id: 'a', content: 'A', added: ['New'], removed: ['Red'] },
+      { id: 'b', content: 'B', added: ['Red'], removed: [] }
+    ]);
+    expect(diff.renamedLists).toEqual([{ listId: 'list-1', from: 'Backlog', to: 'Ideas' }]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+
+  it('should report tag changes of items parked in another output list', () => {
+    // Parked items of a list whose input list was deleted are only found in the output list
+    const parked = (itemTags: string[]): Project => ({
+      ...rankedProject([]),
+      inputLists: [],
+      outputLists: [
+        { id: 'out-1', name: 'Shortlist', items: [] },
+        { id: 'out-2', name: 'Longlist', items: [{ id: 'p', content: 'P', sourceListId: 'list-9', tags: itemTags, order: 1 }] }
+      ],
+      activeOutputListId: 'out-1'
+    });
+
+    const diff = diffProjects(side('January', parked([])), side('February', parked(['t-red'])));
+    expect(diff.tagChanges).toEqual([{ id: 'p', content: 'P', added: ['Red'], removed: [] }]);
+  });
+
+  it('should name tags deleted since with the snapshot’s copy', () => {
+    const snapshot = createSnapshot('January', rankedProject(['a'], 'Backlog', { a: ['t-red'] }), tags, 'snap-1');
+    const diff = diffProjects(
+      { label: snapshot.name, project: snapshot.project, tags: snapshot.tags },
+      side('Current state', rankedProject(['a']))
+    );
+
+    expect(snapshot.tags.map(tag => tag.id)).toEqual(['t-red']);
+    expect(diff.tagChanges).toEqual([{ id: 'a', content: 'A', added: [], removed: ['Red'] }]);
+  });
+});
+
+describe('formatDiffAsMarkdown', () => {
+  it('should list moves with arrows, additions, removals, tags and lists', () => {
+    const diff = diffProjects(
+      side('January', rankedProject(['a', 'b', 'c'], 'Backlog', { c: ['t-red'] })),
+      side('February', rankedProject(['b', 'a', 'd'], 'Ideas', { a: ['t-new'] }))
+    );
+
+    expect(formatDiffAsMarkdown(diff, 'January', 'February')).toBe([
+      '# Ranking changes: January → February',
+      '',
+      '## Moved',
+      '',
+      '- ▲ 1 B (#2 → #1)',
+      '- ▼ 1 A (#1 → #2)',
+      '',
+      '## Added',
+      '',
+      '- #3 D',
+      '',
+      '## Removed',
+      '',
+      '- C (was #3)',
+      '',
+      '## Tag changes',
+      '',
+      '- A: +New',
+      '- C: −Red',
+      '',
+      '## Renamed lists',
+      '',
+      '- Backlog → Ideas',
+      '',
+      '0 ranked items kept their place.',
+      ''
+    ].join('\n'));
+  });
+
+  it('should say when nothing changed and escape Markdown in labels', () => {
+    const project = rankedProject(['a', 'b']);
+    expect(formatDiffAsMarkdown(diffProjects(side('v1', project), side('v1', project)), 'Q1 *final*', 'Current state'))
+      .toBe('# Ranking changes: Q1 \\*final\\* → Current state\n\nNo changes.\n');
+  });
+});
+
+describe('validateSnapshotName', () => {
+  it('should require a unique, non-empty name', () => {
+    const existing = [createSnapshot('January', rankedProject([]), [], 'snap-1')];
+    expect(validateSnapshotName('  ', existing)).toBe('Snapshot name is required');
+    expect(validateSnapshotName('january ', existing)).toBe('A snapshot with this name already exists');
+    expect(validateSnapshotName('February', existing)).toBeNull();
+  });
+});
\ No newline at end of file
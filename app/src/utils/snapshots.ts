@@ -0,0 +1,187 @@
+// Project snapshots and ranking diffs
+// A snapshot is a named copy of a project, stored next to it (see ProjectStorage.saveSnapshot),
+// taken to see later what a re-ranking changed. Two versions of a project are compared by item
+// ID: items that entered or left the main list, rank changes, tag changes and renamed lists.
+import type { Project, ProjectSnapshot, Tag } from '../types/index';
+import { escapeMarkdown } from './listExport';
+import { getParkedItems } from './outputLists';
+
+// One side of a comparison: a snapshot or the current state
+export interface DiffSide {
+  label: string;
+  project: Project;
+  tags: Tag[]; // Resolves the project's tag IDs to names
+}
+
+export interface RankedEntry {
+  id: string;
+  content: string;
+  rank: number; // 1-based place in the main list
+}
+
+export interface RankChange {
+  id: string;
+  content: string;
+  from: number;
+  to: number;
+  delta: number; // Places moved up; negative when the item dropped
+}
+
+export interface TagChange {
+  id: string;
+  content: string;
+  added: string[]; // Tag names
+  removed: string[];
+}
+
+export interface ListRename {
+  listId: string;
+  from: string;
+  to: string;
+}
+
+export interface RankingDiff {
+  added: RankedEntry[]; // Ranked now but not before, by new rank
+  removed: RankedEntry[]; // Ranked before but not now, by old rank
+  moved: RankChange[]; // By new rank
+  unchangedCount: number;
+  tagChanges: TagChange[];
+  renamedLists: ListRename[];
+}
+
+/**
+ * Takes a snapshot of a project
+ * @param name - Name of the snapshot
+ * @param project - Project to copy
+ * @param tagPool - Tag pool; the tags the project uses are kept with the snapshot
+ * @param snapshotId - ID of the new snapshot
+ * @returns The snapshot
+ */
+export const createSnapshot = (name: string, project: Project, tagPool: Tag[], snapshotId: string): ProjectSnapshot => {
+  const usedTagIds = new Set([
+    ...project.inputLists.flatMap(list => list.items.flatMap(item => item.tags)),
+    ...project.mainList.flatMap(item => item.tags),
+    ...getParkedItems(project).flatMap(item => item.tags)
+  ]);
+  return {
+    id: snapshotId,
+    name: name.trim(),
+    createdAt: new Date(),
+    project: structuredClone(project),
+    tags: structuredClone(tagPool.filter(tag => usedTagIds.has(tag.id)))
+  };
+};
+
+/**
+ * Checks a snapshot name
+ * @param name - Proposed name
+ * @param snapshots - Existing snapshots of the project
+ * @returns Reason the name cannot be used, or null
+ */
+export const validateSnapshotName = (name: string, snapshots: ProjectSnapshot[]): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Snapshot name is required';
+  if (trimmed.length > 100) return 'Snapshot name must be 100 characters or less';
+  if (snapshots.some(snapshot => snapshot.name.toLowerCase() === trimmed.toLowerCase())) {
+    return 'A snapshot with this name already exists';
+  }
+  return null;
+};
+
+// Helper: Main list items by ID with their 1-based rank
+const rankById = (project: Project): Map<string, RankedEntry> =>
+  new Map([...project.mainList]
+    .sort((a, b) => a.order - b.order)
+    .map((item, index) => [item.id, { id: item.id, content: item.content, rank: index + 1 }]));
+
+// Helper: Tags and content of every item, ranked, parked in an output list or in an input list
+const itemsById = (project: Project): Map<string, { content: string; tags: string[] }> => {
+  const items = new Map<string, { content: string; tags: string[] }>();
+  [...project.mainList, ...getParkedItems(project)].forEach(item => items.set(item.id, { content: item.content, tags: item.tags }));
+  project.inputLists.forEach(list => list.items.forEach(item => items.set(item.id, { content: item.content, tags: item.tags })));
+  return items;
+};
+
+/**
+ * Compares two versions of a project
+ * @param before - Older version
+ * @param after - Newer version
+ * @returns What changed between the two
+ */
+export const diffProjects = (before: DiffSide, after: DiffSide): RankingDiff => {
+  const oldRanks = rankById(before.project);
+  const newRanks = rankById(after.project);
+
+  const added = [...newRanks.values()].filter(entry => !oldRanks.has(entry.id));
+  const removed = [...oldRanks.values()].filter(entry => !newRanks.has(entry.id));
+  const kept = [...newRanks.values()].filter(entry => oldRanks.has(entry.id));
+  const moved: RankChange[] = kept
+    .map(entry => {
+      const from = oldRanks.get(entry.id)!.rank;
+      return { id: entry.id, content: entry.content, from, to: entry.rank, delta: from - entry.rank };
+    })
+    .filter(change => change.delta !== 0);
+
+  const tagName = (tags: Tag[], tagId: string) => tags.find(tag => tag.id === tagId)?.name ?? 'Deleted tag';
+  const oldItems = itemsById(before.project);
+  const tagChanges: TagChange[] = [...itemsById(after.project)].flatMap(([id, item]) => {
+    const old = oldItems.get(id);
+    if (!old) return [];
+    const addedTags = item.tags.filter(tagId => !old.tags.includes(tagId));
+    const removedTags = old.tags.filter(tagId => !item.tags.includes(tagId));
+    if (addedTags.length === 0 && removedTags.length === 0) return [];
+    return [{
+      id,
+      content: item.content,
+      added: addedTags.map(tagId => tagName(after.tags, tagId)),
+      removed: removedTags.map(tagId => tagName(before.tags, tagId))
+    }];
+  });
+
+  const oldListNames = new Map(before.project.inputLists.map(list => [list.id, list.name]));
+  const renamedLists: ListRename[] = after.project.inputLists
+    .filter(list => oldListNames.has(list.id) && oldListNames.get(list.id) !== list.name)
+    .map(list => ({ listId: list.id, from: oldListNames.get(list.id)!, to: list.name }));
+
+  return { added, removed, moved, unchangedCount: kept.length - moved.length, tagChanges, renamedLists };
+};
+
+/**
+ * Checks whether a diff found any change
+ * @param diff - Result of diffProjects
+ * @returns True when the two versions differ in anything the diff covers
+ */
+export const hasChanges = (diff: RankingDiff): boolean =>
+  diff.added.length + diff.removed.length + diff.moved.length + diff.tagChanges.length + diff.renamedLists.length > 0;
+
+/**
+ * Formats a diff as Markdown, e.g. for a changelog
+ * @param diff - Result of diffProjects
+ * @param beforeLabel - Name of the older version
+ * @param afterLabel - Name of the newer version
+ * @returns The Markdown document
+ */
+export const formatDiffAsMarkdown = (diff: RankingDiff, beforeLabel: string, afterLabel: string): string => {
+  const sections = [`# Ranking changes: ${escapeMarkdown(beforeLabel)} → ${escapeMarkdown(afterLabel)}`];
+  const addSection = (title: string, lines: string[]) => {
+    if (lines.length > 0) sections.push(`## ${title}\n\n${lines.join('\n')}`);
+  };
+
+  addSection('Moved', diff.moved.map(change =>
+    `- ${change.delta > 0 ? '▲' : '▼'} ${Math.abs(change.delta)} ${escapeMarkdown(change.content)} (#${change.from} → #${change.to})`
+  ));
+  addSection('Added', diff.added.map(entry => `- #${entry.rank} ${escapeMarkdown(entry.content)}`));
+  addSection('Removed', diff.removed.map(entry => `- ${escapeMarkdown(entry.content)} (was #${entry.rank})`));
+  addSection('Tag changes', diff.tagChanges.map(change => {
+    const parts = [
+      ...change.added.map(name => `+${escapeMarkdown(name)}`),
+      ...change.removed.map(name => `−${escapeMarkdown(name)}`)
+    ];
+    return `- ${escapeMarkdown(change.content)}: ${parts.join(', ')}`;
+  }));
+  addSection('Renamed lists', diff.renamedLists.map(rename => `- ${escapeMarkdown(rename.from)} → ${escapeMarkdown(rename.to)}`));
+
+  if (!hasChanges(diff)) sections.push('No changes.');
+  else sections.push(`${diff.unchangedCount} ranked item${diff.unchangedCount === 1 ? '' : 's'} kept ${diff.unchangedCount === 1 ? 'its' : 'their'} place.`);
+  return `${sections.join('\n\n')}\n`;
+};
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { getRemoteChange, isSameTagPool } from './tabSync';
+import type { Project } from '../types/index';
+
+const project = (modifiedAt: string, id = 'project-1'): Project => ({
+  id,
+  name: 'Synced',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  modifiedAt: new Date(modifiedAt),
+  inputLists: [],
+  mainList: []
+});
+
+const base = new Date('2024-01-01T10:00:00Z');
+
+describe('getRemoteChange', () => {
+  it('should take over a newer version while the tab has no edits of its own', () => {
+    expect(getRemoteChange(project('2024-01-01T10:00:00Z'), base, project('2024-01-01T10:05:00Z'))).toBe('adopt');
+  });
+
+  it('should report a conflict when both tabs changed the project', () => {
+    expect(getRemoteChange(project('2024-01-01T10:03:00Z'), base, project('2024-01-01T10:05:00Z'))).toBe('conflict');
+  });
+
+  it('should ignore versions that are not newer than the base or that this tab saved', () => {
+    expect(getRemoteChange(project('2024-01-01T10:03:00Z'), base, project('2024-01-01T10:00:00Z'))).toBe('none');
+    expect(getRemoteChange(project('2024-01-01T10:03:00Z'), base, project('2024-01-01T10:03:00Z'))).toBe('none');
+  });
+
+  it('should ignore other projects and missing versions', () => {
+    expect(getRemoteChange(project('2024-01-01T10:00:00Z'), base, project('2024-01-01T10:05:00Z', 'other'))).toBe('none');
+    expect(getRemoteChange(project('2024-01-01T10:00:00Z'), base, null)).toBe('none');
+    expect(getRemoteChange(null, null, project('2024-01-01T10:05:00Z'))).toBe('none');
+  });
+});
+
+describe('isSameTagPool', () => {
+  it('should compare tags by content', () => {
+    const tag = { id: 'tag-1', name: 'Urgent', color: '#ef4444', createdAt: new Date('2024-01-01'), usageCount: 1 };
+
+    expect(isSameTagPool([tag], [{ ...tag, createdAt: new Date('2024-01-01') }])).toBe(true);
+    expect(isSameTagPool([tag], [{ ...tag, usageCount: 2 }])).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,109 @@
+// Cross-tab synchronization
+// All tabs save to the same localStorage. After each auto-save a tab announces it on a
+// BroadcastChannel (storage events stand in where BroadcastChannel is missing), and the other
+// tabs reload what was saved. Each tab remembers the modifiedAt of the project version it last
+// loaded or saved, its base: a newer stored version is taken over while the tab has no unsaved
+// edits of its own; when both tabs changed the project the user chooses which version to keep.
+import type { Project, Tag } from '../types/index';
+import { STORAGE_KEYS } from './projectStorage';
+
+export const TAB_SYNC_CHANNEL = 'listCombiner_sync';
+
+// Sent after a tab saved; receivers read the saved data back from storage
+export interface TabSyncMessage {
+  type: 'saved';
+  tabId: string;
+  projectId: string | null;
+}
+
+// What a tab should do about the project version found in storage
+export type RemoteChange = 'none' | 'adopt' | 'conflict';
+
+export interface TabSyncChannel {
+  post: (message: TabSyncMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Decides how a tab reacts to the stored version of its open project
+ * @param local - Project open in this tab
+ * @param base - modifiedAt of the version this tab last loaded or saved
+ * @param stored - Project as currently stored, possibly saved by another tab
+ * @returns 'adopt' to take over the stored version, 'conflict' when both tabs changed the project, otherwise 'none'
+ */
+export const getRemoteChange = (local: Project | null, base: Date | null, stored: Project | null): RemoteChange => {
+  if (!local || !base || !stored || stored.id !== local.id) return 'none';
+
+  const storedTime = stored.modifiedAt.getTime();
+  if (storedTime <= base.getTime() || storedTime === local.modifiedAt.getTime()) return 'none';
+  return local.modifiedAt.getTime() > base.getTime() ? 'conflict' : 'adopt';
+};
+
+/**
+ * Compares two tag pools by content
+ * @param a - Tag pool
+ * @param b - Tag pool
+ * @returns True when both pools hold the same tags in the same order
+ */
+export const isSameTagPool = (a: Tag[], b: Tag[]): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Merges the stored tag pool with tag edits this tab has not saved yet, tag by tag
+ * A tag keeps this tab's version where this tab changed it since the base, and the stored version
+ * otherwise; tags either side added are kept, tags either side deleted without the other side
+ * changing them are dropped.
+ * @param base - Tag pool this tab last loaded or saved
+ * @param local - Tag pool of this tab
+ * @param stored - Tag pool as currently stored, possibly saved by another tab
+ * @returns The merged pool: stored order first, then tags only this tab added
+ */
+export const mergeTagPools = (base: Tag[], local: Tag[], stored: Tag[]): Tag[] => {
+  const baseById = new Map(base.map(tag => [tag.id, tag]));
+  const localById = new Map(local.map(tag => [tag.id, tag]));
+  const storedIds = new Set(stored.map(tag => tag.id));
+  const isChanged = (tag: Tag) => {
+    const baseTag = baseById.get(tag.id);
+    return !baseTag || JSON.stringify(baseTag) !== JSON.stringify(tag);
+  };
+
+  const merged = stored.flatMap(tag => {
+    const localTag = localById.get(tag.id);
+    if (!localTag) return baseById.has(tag.id) && !isChanged(tag) ? [] : [tag];
+    return [isChanged(localTag) ? localTag : tag];
+  });
+  return [...merged, ...local.filter(tag => !storedIds.has(tag.id) && isChanged(tag))];
+};
+
+/**
+ * Opens the channel tabs announce their saves on
+ * Falls back to storage events, which other tabs receive for every localStorage write.
+ * @param tabId - ID of this tab; its own messages are not delivered back to it
+ * @param onMessage - Called for every save announced by another tab
+ * @returns The channel; close it when the tab stops syncing
+ */
+export const openTabSyncChannel = (tabId: string, onMessage: (message: TabSyncMessage) => void): TabSyncChannel => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(TAB_SYNC_CHANNEL);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+      if (event.data?.type === 'saved' && event.data.tabId !== tabId) onMessage(event.data);
+    };
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  // Storage events only reach other tabs, so there is nothing to post
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEYS.TAG_POOL) {
+      onMessage({ type: 'saved', tabId: '', projectId: null });
+    } else if (event.key?.startsWith(STORAGE_KEYS.PROJECT_PREFIX)) {
+      onMessage({ type: 'saved', tabId: '', projectId: event.key.slice(STORAGE_KEYS.PROJECT_PREFIX.length) });
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: () => {},
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { mergeImportedTags } from './tagMerge';
+import type { Tag, Project } from '../types/index';
+
+// Test data helpers
+const createTag = (id: string, name: string, usageCount = 0): Tag => ({
+  id,
+  name,
+  color: '#3b82f6',
+  createdAt: new Date(),
+  usageCount
+});
+
+const createProject = (): Project => ({
+  id: 'project-1',
+  name: 'Imported',
+  createdAt: new Date(),
+  modifiedAt: new Date(),
+  inputLists: [
+    {
+      id: 'list-1',
+      name: 'Books',
+      items: [
+        { id: 'item-1', content: 'Dune', isUsed: true, tags: ['old-urgent', 'old-new'] },
+        { id: 'item-2', content: 'Emma', isUsed: false, tags: ['old-new', 'missing'] }
+      ]
+    }
+  ],
+  mainList: [
+    { id: 'item-1', content: 'Dune', sourceListId: 'list-1', order: 1, tags: ['old-urgent', 'old-new'] }
+  ]
+});
+
+describe('mergeImportedTags', () => {
+  it('should reuse existing tags with the same name regardless of case', () => {
+    const currentPool = [createTag('tag-1', 'Urgent', 2)];
+    const result = mergeImportedTags(createProject(), [createTag('old-urgent', 'urgent')], currentPool);
+
+    expect(result.report.matched).toEqual([{ importedName: 'urgent', existingTag: currentPool[0] }]);
+    expect(result.project.mainList[0].tags).toEqual(['tag-1']);
+    expect(result.project.inputLists[0].items[0].tags).toEqual(['tag-1']);
+    // Input and main list copies of an item count once
+    expect(result.tagPool.find(tag => tag.id === 'tag-1')!.usageCount).toBe(3);
+  });
+
+  it('should create missing tags with their exported color', () => {
+    const imported = { ...createTag('old-new', 'classic'), color: '#10b981' };
+    const result = mergeImportedTags(createProject(), [imported], []);
+
+    expect(result.report.created).toHaveLength(1);
+    const created = result.report.created[0];
+    expect(created.id).not.toBe('old-new');
+    expect(created.name).toBe('classic');
+    expect(created.color).toBe('#10b981');
+    expect(created.usageCount).toBe(2);
+    expect(result.tagPool).toEqual([created]);
+    expect(result.project.inputLists[0].items[1].tags).toEqual([created.id]);
+  });
+
+  it('should skip tags that clash with input list names and drop their references', () => {
+    const result = mergeImportedTags(createProject(), [createTag('old-new', 'Books')], []);
+
+    expect(result.report.skipped).toEqual([
+      { name: 'Books', reason: 'Cannot use source list names as tag names' }
+    ]);
+    expect(result.tagPool).toEqual([]);
+    expect(result.project.inputLists[0].items[1].tags).toEqual([]);
+  });
+
+  it('should count references to tags missing from the export', () => {
+    const result = mergeImportedTags(
+      createProject(),
+      [createTag('old-urgent', 'urgent'), createTag('old-new', 'classic')],
+      []
+    );
+
+    expect(result.report.droppedReferences).toBe(1);
+    expect(result.project.inputLists[0].items[1].tags).toHaveLength(1);
+  });
+
+  it('should remap the tags of items ranked on parked output lists', () => {
+    const project: Project = {
+      ...createProject(),
+      activeOutputListId: 'output-1',
+      outputLists: [
+        { id: 'output-1', name: 'Main List', items: [] },
+        {
+          id: 'output-2',
+          name: 'Later',
+          items: [{ id: 'item-2', content: 'Emma', sourceListId: 'list-1', order: 1, tags: ['old-new'] }]
+        }
+      ]
+    };
+    const result = mergeImportedTags(project, [createTag('old-new', 'classic')], []);
+
+    const created = result.report.created[0];
+    expect(result.project.outputLists![1].items[0].tags).toEqual([created.id]);
+    // The parked copy of Emma counts with its input list copy
+    expect(created.usageCount).toBe(2);
+  });
+
+  it('should leave the current pool untouched when nothing is imported', () => {
+    const currentPool = [createTag('tag-1', 'urgent', 4)];
+    const project = { ...createProject(), inputLists: [], mainList: [] };
+    const result = mergeImportedTags(project, [], currentPool);
+
+    expect(result.tagPool).toEqual(currentPool);
+    expect(result.tagPool[0]).toBe(currentPool[0]);
+  });
+});
\ No newline at end of file
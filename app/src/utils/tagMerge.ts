@@ -0,0 +1,113 @@
+import type { Project, Tag } from '../types/index';
+import { validateTag } from './tagValidation';
+import { updateParkedItems } from './outputLists';
+
+// Summary of how imported tags were reconciled with the current pool
+export interface TagMergeReport {
+  matched: Array<{ importedName: string; existingTag: Tag }>;
+  created: Tag[];
+  skipped: Array<{ name: string; reason: string }>;
+  droppedReferences: number; // Item tag IDs that pointed at no exported tag
+}
+
+export interface TagMergeResult {
+  project: Project;
+  tagPool: Tag[];
+  report: TagMergeReport;
+}
+
+const generateTagId = (): string => {
+  return `${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+};
+
+/**
+ * Reconciles tags exported with a project against the current tag pool
+ * Imported tags are matched to existing tags by name (case-insensitive); tags with no
+ * match are created with their exported colors if they pass validateTag. Every item's
+ * tag IDs are remapped to the resulting pool and usage counts are updated.
+ * @param project - Imported project whose items reference exported tag IDs
+ * @param importedTags - Tag pool that was exported with the project
+ * @param currentPool - Tag pool the project is being imported into
+ * @returns The remapped project, the merged tag pool and a report of what happened
+ */
+export const mergeImportedTags = (
+  project: Project,
+  importedTags: Tag[],
+  currentPool: Tag[]
+): TagMergeResult => {
+  const report: TagMergeReport = { matched: [], created: [], skipped: [], droppedReferences: 0 };
+  const idMap = new Map<string, string>();
+  const mergedPool = [...currentPool];
+
+  for (const importedTag of importedTags) {
+    const trimmedName = importedTag.name.trim();
+    const existingTag = mergedPool.find(tag => tag.name.toLowerCase() === trimmedName.toLowerCase());
+
+    if (existingTag) {
+      idMap.set(importedTag.id, existingTag.id);
+      if (!report.created.includes(existingTag)) {
+        report.matched.push({ importedName: importedTag.name, existingTag });
+      }
+      continue;
+    }
+
+    const validation = validateTag(importedTag.name, mergedPool, project.inputLists);
+    if (!validation.isValid) {
+      report.skipped.push({ name: importedTag.name, reason: validation.error! });
+      continue;
+    }
+
+    const newTag: Tag = {
+      id: generateTagId(),
+      name: trimmedName,
+      color: importedTag.color,
+      createdAt: new Date(),
+      usageCount: 0
+    };
+    idMap.set(importedTag.id, newTag.id);
+    mergedPool.push(newTag);
+    report.created.push(newTag);
+  }
+
+  // Remap item tag IDs; input list and output list copies of an item share their ID
+  const usage = new Map<string, Set<string>>();
+  const remapTags = (itemId: string, tagIds: string[]): string[] => {
+    const remapped: string[] = [];
+    for (const tagId of tagIds) {
+      const newId = idMap.get(tagId);
+      if (!newId) {
+        report.droppedReferences++;
+        continue;
+      }
+      if (!remapped.includes(newId)) {
+        remapped.push(newId);
+        if (!usage.has(newId)) usage.set(newId, new Set());
+        usage.get(newId)!.add(itemId);
+      }
+    }
+    return remapped;
+  };
+
+  const remappedProject: Project = updateParkedItems({
+    ...project,
+    inputLists: project.inputLists.map(list => ({
+      ...list,
+      items: list.items.map(item => ({ ...item, tags: remapTags(item.id, item.tags) }))
+    })),
+    mainList: project.mainList.map(item => ({ ...item, tags: remapTags(item.id, item.tags) }))
+  }, items => items.map(item => ({ ...item, tags: remapTags(item.id, item.tags) })));
+
+  const tagPool = mergedPool.map(tag => {
+    const itemCount = usage.get(tag.id)?.size ?? 0;
+    return itemCount > 0 ? { ...tag, usageCount: tag.usageCount + itemCount } : tag;
+  });
+
+  return {
+    project: remappedProject,
+    tagPool,
+    report: {
+      ...report,
+      created: report.created.map(tag => tagPool.find(t => t.id === tag.id)!)
+    }
+  };
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTagQueryContext,
+  matchesTagQuery,
+  parseTagQuery,
+  validateViewName,
+  type QueryableItem
+} from './tagQuery';
+import type { CustomField, InputList, MainListItem, Tag } from '../types/index';
+
+const tag = (id: string, name: string): Tag => ({ id, name, color: '#000000', createdAt: new Date('2024-01-01'), usageCount: 0 });
+const tagPool = [tag('t-urgent', 'urgent'), tag('t-blocked', 'Blocked')];
+const fields: CustomField[] = [
+  { id: 'f-cost', name: 'Cost', type: 'number' },
+  { id: 'f-due', name: 'Due date', type: 'date' },
+  { id: 'f-size', name: 'Size', type: 'select', options: ['Small', 'Large'] }
+];
+const inputLists: InputList[] = [
+  { id: 'list-ideas', name: 'Feature Ideas', items: [] },
+  { id: 'list-bugs', name: 'Bugs', items: [] }
+];
+const mainList: MainListItem[] = [
+  { id: 'a', content: 'Dark mode', sourceListId: 'list-ideas', tags: ['t-urgent'], order: 1 },
+  { id: 'b', content: 'Crash on save', sourceListId: 'list-bugs', tags: ['t-urgent', 't-blocked'], order: 2 }
+];
+const context = createTagQueryContext(tagPool, inputLists, mainList);
+
+const items: QueryableItem[] = [
+  { id: 'a', content: 'Dark mode', sourceListId: 'list-ideas', tags: ['t-urgent'], isUsed: true, fields: { 'f-cost': 5 } },
+  { id: 'b', content: 'Crash on save', sourceListId: 'list-bugs', tags: ['t-urgent', 't-blocked'], isUsed: true },
+  { id: 'c', content: 'Export to PDF', sourceListId: 'list-ideas', tags: [], isUsed: false, fields: { 'f-cost': 20, 'f-due': '2024-06-01', 'f-size': 'Large' } }
+];
+
+// Helper: IDs of the items a query matches
+const matching = (text: string): string[] => {
+  const { query, error } = parseTagQuery(text, fields);
+  expect(error).toBeNull();
+  return items.filter(item => matchesTagQuery(query!, item, context)).map(item => item.id);
+};
+
+describe('parseTagQuery', () => {
+  it('should treat blank text as no query', () => {
+    expect(parseTagQuery('   ')).toEqual({ query: null, error: null });
+  });
+
+  it('should bind NOT tighter than AND and AND tighter than OR', () => {
+    expect(parseTagQuery('tag:a OR NOT tag:b c').query).toEqual({
+      type: 'or',
+      left: { type: 'tag', value: 'a' },
+      right: { type: 'and', left: { type: 'not', operand: { type: 'tag', value: 'b' } }, right: { type: 'text', value: 'c' } }
+    });
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(parseTagQuery('(tag:a OR tag:b').error).toEqual({ message: 'Expected ")" but found end of query', position: 15 });
+    expect(parseTagQuery('tag:urgent AND').error).toEqual({ message: 'Query is incomplete', position: 14 });
+    expect(parseTagQuery('source:"Feature Ideas').error).toEqual({ message: 'Missing closing quote', position: 7 });
+    expect(parseTagQuery('tag:').error?.message).toBe('Expected a value after "tag:"');
+    expect(parseTagQuery('rank<=ten').error).toEqual({ message: 'Rank must be a whole number, not "ten"', position: 6 });
+    expect(parseTagQuery('OR tag:a').error?.message).toBe('Expected a term before OR');
+    expect(parseTagQuery('tag:a)').error).toEqual({ message: 'Unexpected ")"', position: 5 });
+  });
+
+  it('should check terms against the known fields and states', () => {
+    expect(parseTagQuery('owner:ann', fields).error).toEqual({ message: 'Unknown field "owner"', position: 0 });
+    expect(parseTagQuery('is:done').error?.message).toBe('Unknown state "done"; use used, unused, ranked or unranked');
+    expect(parseTagQuery('tag<urgent').error?.message).toBe('Use "tag:" to match a tag');
+    expect(parseTagQuery('Size>Small', fields).error?.message).toBe('Only number and date fields can be compared with >');
+    expect(parseTagQuery('Cost:cheap', fields).error?.message).toBe('"cheap" is not a number');
+  });
+});
+
+describe('matchesTagQuery', () => {
+  it('should match tags and source lists by name ignoring case', () => {
+    expect(matching('tag:urgent AND NOT tag:blocked AND source:"Feature Ideas"')).toEqual(['a']);
+    expect(matching('tag:BLOCKED or source:"feature ideas"')).toEqual(['a', 'b', 'c']);
+    expect(matching('tag:missing')).toEqual([]);
+  });
+
+  it('should compare main list ranks and item states', () => {
+    expect(matching('rank<=1')).toEqual(['a']);
+    expect(matching('rank!=1')).toEqual(['b']);
+    expect(matching('is:unranked')).toEqual(['c']);
+    expect(matching('is:used')).toEqual(['a', 'b']);
+  });
+
+  it('should match content text', () => {
+    expect(matching('mode OR text:"on save"')).toEqual(['a', 'b']);
+  });
+
+  it('should compare custom field values', () => {
+    expect(matching('Cost>=5 AND Cost<10')).toEqual(['a']);
+    expect(matching('"Due date"<2024-12-31')).toEqual(['c']);
+    expect(matching('size:large')).toEqual(['c']);
+    expect(matching('Cost!=20')).toEqual(['a', 'b']);
+  });
+});
+
+describe('validateViewName', () => {
+  it('should require a unique name', () => {
+    const views = [{ id: 'v-top', name: 'Top ten', query: 'rank<=10' }];
+
+    expect(validateViewName('  ', views)).toBe('View name is required');
+    expect(validateViewName('top TEN', views)).toBe('A view named "top TEN" already exists');
+    expect(validateViewName('Top ten', views, 'v-top')).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,347 @@
+// Tag query language for saved views
+// A view is a query such as `tag:urgent AND NOT tag:blocked AND source:"Feature Ideas"` or
+// `rank<=10`. Terms are joined with AND, OR and NOT (tightest first) and grouped with
+// parentheses; terms written side by side are joined with AND. Supported terms:
+//   tag:NAME              item has the tag
+//   source:NAME           item comes from the input list
+//   rank<=N               position in the main list (=, !=, <, <=, > and >= work too)
+//   is:used / is:unused / is:ranked / is:unranked
+//   text:WORDS or WORDS   item content contains the words
+//   "Field name">=N       custom field value (only number and date fields compare with < and >)
+// Values with spaces go in double quotes. Tag and list names are looked up when the query runs,
+// so a renamed tag simply stops matching.
+import type {
+  CustomField,
+  CustomFieldValue,
+  CustomFieldValues,
+  InputList,
+  MainListItem,
+  SavedView,
+  Tag
+} from '../types/index';
+import type { FilterableItem } from './itemFilter';
+import { parseFieldValue } from './customFields';
+
+export type QueryComparison = '=' | '!=' | '<' | '<=' | '>' | '>=';
+export type QueryItemState = 'used' | 'unused' | 'ranked' | 'unranked';
+
+export type TagQuery =
+  | { type: 'and' | 'or'; left: TagQuery; right: TagQuery }
+  | { type: 'not'; operand: TagQuery }
+  | { type: 'tag' | 'source' | 'text'; value: string }
+  | { type: 'state'; state: QueryItemState }
+  | { type: 'rank'; comparison: QueryComparison; value: number }
+  | { type: 'field'; fieldId: string; comparison: QueryComparison; value: CustomFieldValue };
+
+// Where in the query text a syntax error was found (0-based character index)
+export interface TagQueryError {
+  message: string;
+  position: number;
+}
+
+export interface TagQueryParseResult {
+  query: TagQuery | null;
+  error: TagQueryError | null;
+}
+
+// What a query looks at; the ID finds the item's main list rank
+export interface QueryableItem extends FilterableItem {
+  id: string;
+  fields?: CustomFieldValues;
+}
+
+// Lookups built once per project and reused for every item
+export interface TagQueryContext {
+  tagIdsByName: Map<string, string>;
+  listIdsByName: Map<string, Set<string>>;
+  rankById: Map<string, number>;
+}
+
+type Token =
+  | { kind: 'word' | 'string'; value: string; position: number }
+  | { kind: 'operator'; value: ':' | QueryComparison; position: number }
+  | { kind: '(' | ')' | 'end'; position: number };
+
+const ITEM_STATES: QueryItemState[] = ['used', 'unused', 'ranked', 'unranked'];
+const KEYWORDS = ['AND', 'OR', 'NOT'];
+const MAX_VIEW_NAME_LENGTH = 50;
+
+// Thrown while parsing and turned into a TagQueryError by parseTagQuery
+class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+// Helper: Split query text into words, quoted strings, operators and parentheses
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        // A backslash keeps the next character, so quotes can be written as \"
+        if (text[i] === '\\' && i + 1 < text.length) i++;
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) throw new QuerySyntaxError('Missing closing quote', start);
+      tokens.push({ kind: 'string', value, position: start });
+      i++;
+    } else {
+      const operator = /^(<=|>=|!=|[:=<>])/.exec(text.slice(i))?.[0];
+      if (operator) {
+        tokens.push({ kind: 'operator', value: operator as ':' | QueryComparison, position: i });
+        i += operator.length;
+      } else if (char === '!') {
+        throw new QuerySyntaxError('Unexpected "!"; use NOT to exclude items', i);
+      } else {
+        const word = /^[^\s()"!:=<>]+/.exec(text.slice(i))![0];
+        tokens.push({ kind: 'word', value: word, position: i });
+        i += word.length;
+      }
+    }
+  }
+  tokens.push({ kind: 'end', position: text.length });
+  return tokens;
+};
+
+// Helper: Describe a token for error messages
+const describeToken = (token: Token): string => {
+  if (token.kind === 'end') return 'end of query';
+  return `"${'value' in token ? token.value : token.kind}"`;
+};
+
+const isKeyword = (token: Token, keyword: string): boolean =>
+  token.kind === 'word' && token.value.toUpperCase() === keyword;
+
+// Recursive descent parser; customFields resolves field names used as term keys
+const parseTokens = (tokens: Token[], customFields: CustomField[]): TagQuery => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const parseOr = (): TagQuery => {
+    let left = parseAnd();
+    while (isKeyword(peek(), 'OR')) {
+      next();
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): TagQuery => {
+    let left = parseNot();
+    for (;;) {
+      const token = peek();
+      if (isKeyword(token, 'AND')) {
+        next();
+      } else if (token.kind === 'end' || token.kind === ')' || isKeyword(token, 'OR')) {
+        return left;
+      }
+      // Terms side by side are joined with AND
+      left = { type: 'and', left, right: parseNot() };
+    }
+  };
+
+  const parseNot = (): TagQuery => {
+    if (isKeyword(peek(), 'NOT')) {
+      next();
+      return { type: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): TagQuery => {
+    const token = next();
+    if (token.kind === '(') {
+      const query = parseOr();
+      const closing = next();
+      if (closing.kind !== ')') throw new QuerySyntaxError(`Expected ")" but found ${describeToken(closing)}`, closing.position);
+      return query;
+    }
+    if (token.kind === 'word' || token.kind === 'string') {
+      if (token.kind === 'word' && KEYWORDS.includes(token.value.toUpperCase())) {
+        throw new QuerySyntaxError(`Expected a term before ${token.value.toUpperCase()}`, token.position);
+      }
+      return peek().kind === 'operator' ? parseTerm(token) : { type: 'text', value: token.value };
+    }
+    throw new QuerySyntaxError(
+      token.kind === 'end' ? 'Query is incomplete' : `Unexpected ${describeToken(token)}`,
+      token.position
+    );
+  };
+
+  // A key, a comparison and a value, such as tag:urgent or rank<=10
+  const parseTerm = (key: Token & { kind: 'word' | 'string' }): TagQuery => {
+    const operator = next() as Token & { kind: 'operator' };
+    const valueToken = next();
+    if (valueToken.kind !== 'word' && valueToken.kind !== 'string') {
+      throw new QuerySyntaxError(`Expected a value after "${key.value}${operator.value}"`, valueToken.position);
+    }
+    const value = valueToken.value;
+    const comparison: QueryComparison = operator.value === ':' ? '=' : operator.value;
+    const name = key.value.toLowerCase();
+
+    if (key.kind === 'word' && ['tag', 'source', 'is', 'text'].includes(name)) {
+      if (operator.value !== ':') {
+        throw new QuerySyntaxError(`Use "${name}:" to match ${name === 'is' ? 'a state' : `a ${name}`}`, operator.position);
+      }
+      if (name !== 'is') return { type: name as 'tag' | 'source' | 'text', value };
+      const state = value.toLowerCase() as QueryItemState;
+      if (!ITEM_STATES.includes(state)) {
+        throw new QuerySyntaxError(`Unknown state "${value}"; use used, unused, ranked or unranked`, valueToken.position);
+      }
+      return { type: 'state', state };
+    }
+
+    if (key.kind === 'word' && name === 'rank') {
+      const rank = Number(value);
+      if (!Number.isInteger(rank)) throw new QuerySyntaxError(`Rank must be a whole number, not "${value}"`, valueToken.position);
+      return { type: 'rank', comparison, value: rank };
+    }
+
+    const field = customFields.find(entry => entry.name.toLowerCase() === name);
+    if (!field) throw new QuerySyntaxError(`Unknown field "${key.value}"`, key.position);
+    if (['<', '<=', '>', '>='].includes(comparison) && field.type !== 'number' && field.type !== 'date') {
+      throw new QuerySyntaxError(`Only number and date fields can be compared with ${comparison}`, operator.position);
+    }
+    const parsed = parseFieldValue(field, value);
+    if (parsed.error || parsed.value === null) {
+      throw new QuerySyntaxError(parsed.error ?? `Expected a value for ${field.name}`, valueToken.position);
+    }
+    return { type: 'field', fieldId: field.id, comparison, value: parsed.value };
+  };
+
+  const query = parseOr();
+  const rest = peek();
+  if (rest.kind !== 'end') throw new QuerySyntaxError(`Unexpected ${describeToken(rest)}`, rest.position);
+  return query;
+};
+
+/**
+ * Parses a query typed by the user
+ * @param text - Query text
+ * @param customFields - Fields of the project, which queries may compare by name
+ * @returns The parsed query, or the first syntax error with its position; blank text parses to no query
+ */
+export const parseTagQuery = (text: string, customFields: CustomField[] = []): TagQueryParseResult => {
+  if (text.trim().length === 0) return { query: null, error: null };
+  try {
+    return { query: parseTokens(tokenize(text), customFields), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return { query: null, error: { message: error.message, position: error.position } };
+    throw error;
+  }
+};
+
+/**
+ * Builds the lookups a query needs from the project
+ * @param tagPool - Tags by name
+ * @param inputLists - Input lists by name (several lists may share a name)
+ * @param mainList - Main list ranks
+ * @returns Context to pass to matchesTagQuery
+ */
+export const createTagQueryContext = (
+  tagPool: Tag[],
+  inputLists: InputList[],
+  mainList: MainListItem[]
+): TagQueryContext => {
+  const listIdsByName = new Map<string, Set<string>>();
+  inputLists.forEach(list => {
+    const name = list.name.toLowerCase();
+    listIdsByName.set(name, (listIdsByName.get(name) ?? new Set()).add(list.id));
+  });
+  return {
+    tagIdsByName: new Map(tagPool.map(tag => [tag.name.toLowerCase(), tag.id])),
+    listIdsByName,
+    rankById: new Map(mainList.map(item => [item.id, item.order]))
+  };
+};
+
+// Helper: Apply a comparison to two numbers or two ISO dates
+const compare = <T extends number | string>(actual: T, comparison: QueryComparison, expected: T): boolean => {
+  switch (comparison) {
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+};
+
+/**
+ * Checks whether an item matches a query
+ * Input items are ranked when they (or their copy) are in the main list; main list items are
+ * always ranked and count as used.
+ * @param query - Parsed query
+ * @param item - Input or main list item
+ * @param context - Lookups from createTagQueryContext
+ * @returns True when the item matches
+ */
+export const matchesTagQuery = (query: TagQuery, item: QueryableItem, context: TagQueryContext): boolean => {
+  switch (query.type) {
+    case 'and':
+      return matchesTagQuery(query.left, item, context) && matchesTagQuery(query.right, item, context);
+    case 'or':
+      return matchesTagQuery(query.left, item, context) || matchesTagQuery(query.right, item, context);
+    case 'not':
+      return !matchesTagQuery(query.operand, item, context);
+    case 'tag': {
+      const tagId = context.tagIdsByName.get(query.value.toLowerCase());
+      return tagId !== undefined && item.tags.includes(tagId);
+    }
+    case 'source':
+      return context.listIdsByName.get(query.value.toLowerCase())?.has(item.sourceListId) ?? false;
+    case 'text':
+      return item.content.toLowerCase().includes(query.value.toLowerCase());
+    case 'state': {
+      const isRanked = context.rankById.has(item.id);
+      const isUsed = item.isUsed ?? true;
+      if (query.state === 'used' || query.state === 'unused') return isUsed === (query.state === 'used');
+      return isRanked === (query.state === 'ranked');
+    }
+    case 'rank': {
+      const rank = context.rankById.get(item.id);
+      return rank !== undefined && compare(rank, query.comparison, query.value);
+    }
+    case 'field': {
+      const value = item.fields?.[query.fieldId];
+      if (value === undefined) return query.comparison === '!=';
+      if (typeof value === 'number' && typeof query.value === 'number') return compare(value, query.comparison, query.value);
+      // Text and select values compare ignoring case; dates compare as YYYY-MM-DD text
+      const normalize = (entry: CustomFieldValue) => typeof entry === 'string' ? entry.toLowerCase() : String(entry);
+      return compare(normalize(value), query.comparison, normalize(query.value));
+    }
+  }
+};
+
+/**
+ * Validates the name of a new or renamed saved view
+ * @param name - Proposed name
+ * @param views - Saved views of the project
+ * @param viewId - View being saved again, which may keep its own name
+ * @returns An error message, or null when the name can be used
+ */
+export const validateViewName = (name: string, views: SavedView[], viewId?: string): string | null => {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) return 'View name is required';
+  if (trimmed.length > MAX_VIEW_NAME_LENGTH) return `View name must be ${MAX_VIEW_NAME_LENGTH} characters or less`;
+  if (views.some(view => view.id !== viewId && view.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `A view named "${trimmed}" already exists`;
+  }
+  return null;
+};
\ No newline at end of file
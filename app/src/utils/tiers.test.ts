@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getItemTier, groupByTier, sortByTier } from './tiers';
+import type { MainListItem, Tier } from '../types/index';
+
+// Test data helpers
+const createItem = (id: string, order: number, tierId?: string): MainListItem => ({
+  id,
+  content: id,
+  sourceListId: 'list-1',
+  tags: [],
+  order,
+  ...(tierId ? { tierId } : {})
+});
+
+const tiers: Tier[] = [
+  { id: 'tier-s', name: 'S', color: '#ef4444' },
+  { id: 'tier-a', name: 'A', color: '#f97316' }
+];
+
+describe('sortByTier', () => {
+  it('should group items tier by tier and keep their order within a tier', () => {
+    const sorted = sortByTier([
+      createItem('unsorted', 1),
+      createItem('a-2', 2, 'tier-a'),
+      createItem('s-1', 3, 'tier-s'),
+      createItem('a-1', 4, 'tier-a'),
+      createItem('s-2', 5, 'tier-s')
+    ], tiers);
+
+    expect(sorted.map(item => [item.id, item.order])).toEqual([
+      ['s-1', 1], ['s-2', 2], ['a-2', 3], ['a-1', 4], ['unsorted', 5]
+    ]);
+  });
+
+  it('should treat items of unknown tiers as unsorted', () => {
+    const sorted = sortByTier([createItem('lost', 1, 'deleted'), createItem('s', 2, 'tier-s')], tiers);
+
+    expect(sorted.map(item => item.id)).toEqual(['s', 'lost']);
+  });
+
+  it('should reuse items that are already in place', () => {
+    const item = createItem('s', 1, 'tier-s');
+
+    expect(sortByTier([item], tiers)[0]).toBe(item);
+  });
+});
+
+describe('groupByTier', () => {
+  it('should return every tier plus the unsorted group', () => {
+    const groups = groupByTier([createItem('x', 2), createItem('s', 1, 'tier-s')], tiers);
+
+    expect(groups.map(group => [group.tier?.name ?? null, group.items.map(item => item.id)])).toEqual([
+      ['S', ['s']],
+      ['A', []],
+      [null, ['x']]
+    ]);
+  });
+});
+
+describe('getItemTier', () => {
+  it('should resolve the tier of an item', () => {
+    expect(getItemTier(createItem('s', 1, 'tier-s'), tiers)).toBe(tiers[0]);
+    expect(getItemTier(createItem('x', 1), tiers)).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+// Tier list mode
+// Tiers split the main list into named buckets. Item order stays one linear ranking that
+// runs through the tiers from best to worst, so every export of the plain ranking keeps
+// working; a tier's own ordering is the linear order of its items.
+import type { MainListItem, Tier } from '../types/index';
+
+// Tiers created when tier list mode is switched on
+export const DEFAULT_TIERS: Array<Omit<Tier, 'id'>> = [
+  { name: 'S', color: '#ef4444' },
+  { name: 'A', color: '#f97316' },
+  { name: 'B', color: '#eab308' },
+  { name: 'C', color: '#22c55e' }
+];
+
+// Color of tiers added by the user; they can recolor them afterwards
+export const NEW_TIER_COLOR = '#6b7280';
+
+// Label of the bucket for items without a (known) tier
+export const UNSORTED_TIER_NAME = 'Unsorted';
+
+export interface TierGroup {
+  tier: Tier | null; // null for unsorted items
+  items: MainListItem[]; // In rank order
+}
+
+/**
+ * Orders the main list tier by tier, keeping the existing order within each tier
+ * @param mainList - Main list items
+ * @param tiers - Tiers, best first
+ * @returns Items grouped by tier (unsorted last) with contiguous 1-based order values
+ */
+export const sortByTier = (mainList: MainListItem[], tiers: Tier[]): MainListItem[] => {
+  const tierIndex = new Map(tiers.map((tier, index) => [tier.id, index]));
+  const rankOf = (item: MainListItem) => tierIndex.get(item.tierId ?? '') ?? tiers.length;
+
+  return [...mainList]
+    .sort((a, b) => rankOf(a) - rankOf(b) || a.order - b.order)
+    .map((item, index) => item.order === index + 1 ? item : { ...item, order: index + 1 });
+};
+
+/**
+ * Splits the main list into its tiers
+ * @param mainList - Main list items
+ * @param tiers - Tiers, best first
+ * @returns One group per tier plus a final unsorted group, each in rank order
+ */
+export const groupByTier = (mainList: MainListItem[], tiers: Tier[]): TierGroup[] => {
+  const groups: TierGroup[] = [...tiers.map(tier => ({ tier, items: [] })), { tier: null, items: [] }];
+  const groupIndex = new Map(tiers.map((tier, index) => [tier.id, index]));
+
+  [...mainList]
+    .sort((a, b) => a.order - b.order)
+    .forEach(item => groups[groupIndex.get(item.tierId ?? '') ?? tiers.length].items.push(item));
+  return groups;
+};
+
+/**
+ * Finds the tier an item is shown in
+ * @param item - Main list item
+ * @param tiers - Tiers of the project
+ * @returns The item's tier, or null when it is unsorted
+ */
+export const getItemTier = (item: MainListItem, tiers: Tier[]): Tier | null =>
+  tiers.find(tier => tier.id === item.tierId) ?? null;
\ No newline at end of file
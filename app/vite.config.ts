@@ -2,13 +2,16 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { collabRelay } from './server/collabRelay'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react(), tailwindcss()],
+export default defineConfig(({ isSsrBuild }) => ({
+  plugins: [react(), tailwindcss(), collabRelay()],
+  // The SSR build is the list-merge command (npm run build:cli), which has no use for static files
+  build: { copyPublicDir: !isSsrBuild },
   test: {
     globals: true,
     environment: 'jsdom',
     setupFiles: ['./src/test/setup.ts'],
   },
-})
\ No newline at end of file
+}))
\ No newline at end of file